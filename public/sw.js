@@ -1,9 +1,210 @@
 // public/sw.js
+// App shell caching + Background Sync replay of the offline write queue.
+// The queue's IndexedDB layout and replay rules are defined in
+// src/lib/offlineQueue.ts and src/lib/syncProtocol.ts — keep this file in step.
+
+const SHELL_CACHE = "precisionpulse-shell-v1";
+const STATIC_CACHE = "precisionpulse-static-v1";
+
+// Pages leads need on the dock, cached at install so they open with no signal
+const SHELL_URLS = [
+  "/",
+  "/containers",
+  "/work-orders",
+  "/damage-reports",
+  "/startup-checklists",
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+const OFFLINE_DB_NAME = "precisionpulse_offline";
+const OFFLINE_DB_VERSION = 1;
+const WRITES_STORE = "writes";
+const META_STORE = "meta";
+const ACCESS_TOKEN_META_KEY = "accessToken";
+
+const SYNC_TAG = "precisionpulse-sync";
+const QUEUE_CHANGED_EVENT = "precisionpulse:queue-changed";
+
 self.addEventListener("install", (event) => {
-  // You can add caching here later if you want offline support
-  self.skipWaiting();
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      // One missing page shouldn't stop the worker from installing
+      .then((cache) => Promise.allSettled(SHELL_URLS.map((url) => cache.add(url))))
+      .then(() => self.skipWaiting())
+  );
 });
 
 self.addEventListener("activate", (event) => {
-  self.clients.claim();
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((k) => k.startsWith("precisionpulse-") && k !== SHELL_CACHE && k !== STATIC_CACHE)
+            .map((k) => caches.delete(k))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// --------------------
+// Fetch: app shell
+// --------------------
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  // Supabase and other origins, API calls and RSC payloads always go to the network
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+  if (request.headers.get("RSC")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/icons/")) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok) cache.put(request, res.clone());
+    return res;
+  } catch (err) {
+    const cached = (await cache.match(request, { ignoreSearch: true })) || (await cache.match("/"));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Build output under /_next/static is content-hashed, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const res = await fetch(request);
+  if (res.ok) cache.put(request, res.clone());
+  return res;
+}
+
+// --------------------
+// Background Sync: replay queued writes
+// --------------------
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil(withSyncLock(replayQueue));
 });
+
+// Same Web Lock the page takes in replayQueuedWrites()
+function withSyncLock(fn) {
+  if (self.navigator && self.navigator.locks) return self.navigator.locks.request(SYNC_TAG, fn);
+  return fn();
+}
+
+function openOfflineDb() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(WRITES_STORE)) db.createObjectStore(WRITES_STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "key" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function idbRequest(db, store, mode, run) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = run(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Mirrors replayOutcome() in src/lib/syncProtocol.ts
+function replayOutcome(status) {
+  if (status >= 200 && status < 300) return "done";
+  if (status === 412) return "conflict";
+  if (status === 401 || status === 408 || status === 429 || status >= 500) return "retry";
+  return "failed";
+}
+
+// Mirrors replayHeaders() in src/lib/syncProtocol.ts
+function replayHeaders(write, token) {
+  const headers = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (write.method === "POST") headers["Idempotency-Key"] = write.id;
+  if (write.method === "PATCH" && write.baseUpdatedAt) headers["If-Match"] = `"${write.baseUpdatedAt}"`;
+  return headers;
+}
+
+async function notifyClients() {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  for (const client of clients) client.postMessage({ type: QUEUE_CHANGED_EVENT });
+}
+
+async function replayQueue() {
+  const db = await openOfflineDb();
+  try {
+    const meta = await idbRequest(db, META_STORE, "readonly", (s) => s.get(ACCESS_TOKEN_META_KEY));
+    const token = meta && meta.value;
+    // Signed out: leave everything queued until the page hands over a token
+    if (!token) return;
+
+    const writes = await idbRequest(db, WRITES_STORE, "readonly", (s) => s.getAll());
+    writes.sort((a, b) => String(a.queuedAt).localeCompare(String(b.queuedAt)));
+
+    for (const write of writes) {
+      if (write.status !== "pending") continue;
+
+      // A network error rejects here, failing the sync event so the browser retries later
+      const res = await fetch(write.url, {
+        method: write.method,
+        headers: replayHeaders(write, token),
+        body: JSON.stringify(write.body),
+      });
+
+      const outcome = replayOutcome(res.status);
+      if (outcome === "done") {
+        await idbRequest(db, WRITES_STORE, "readwrite", (s) => s.delete(write.id));
+        await notifyClients();
+        continue;
+      }
+
+      // Mirrors applyReplayResult() in src/lib/syncProtocol.ts
+      const body = await res.json().catch(() => null);
+      const error = body && typeof body.error === "string" && body.error ? body.error : `Server responded ${res.status}`;
+      const next = {
+        ...write,
+        status: outcome === "retry" ? "pending" : outcome,
+        attempts: write.attempts + 1,
+        lastError: error,
+        serverRecord: outcome === "conflict" ? (body && body.current) || null : write.serverRecord,
+      };
+      await idbRequest(db, WRITES_STORE, "readwrite", (s) => s.put(next));
+      await notifyClients();
+
+      // Keep order: stop at the first write that should be retried
+      if (outcome === "retry") throw new Error(`Sync deferred: ${error}`);
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -1,10 +1,14 @@
 // src/app/api/admin/users/route.ts
 import { NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
 
 // GET /api/admin/users
 // Returns all profiles
-export async function GET() {
+export async function GET(req: Request) {
+  const auth = await authorize(req, "users.manage");
+  if (!auth.ok) return auth.response;
+
   const { data, error } = await supabaseAdmin
     .from("profiles")
     .select("id, email, full_name, access_role, building, created_at")
@@ -24,6 +28,9 @@ export async function GET() {
 // POST /api/admin/users
 // Creates a new Supabase auth user + profile
 export async function POST(req: Request) {
+  const auth = await authorize(req, "users.manage");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await req.json();
     const {
@@ -68,7 +75,7 @@ export async function POST(req: Request) {
     const authUser = userData.user;
 
     // 2) Insert profile row
-    const { data: profile, error: profileError } = await supabaseAdmin
+    const { data: profile, error: profileError } = await supabaseAdminAs(auth.user)
       .from("profiles")
       .insert({
         id: authUser.id,
@@ -101,6 +108,9 @@ export async function POST(req: Request) {
 // PATCH /api/admin/users
 // Updates profile fields (access_role, building, full_name)
 export async function PATCH(req: Request) {
+  const auth = await authorize(req, "users.manage");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await req.json();
     const {
@@ -127,7 +137,7 @@ export async function PATCH(req: Request) {
     if (accessRole !== undefined) updateData.access_role = accessRole;
     if (building !== undefined) updateData.building = building;
 
-    const { data, error } = await supabaseAdmin
+    const { data, error } = await supabaseAdminAs(auth.user)
       .from("profiles")
       .update(updateData)
       .eq("id", id)
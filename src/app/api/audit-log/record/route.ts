@@ -0,0 +1,51 @@
+// src/app/api/audit-log/record/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { fetchAuditLog, fetchContainer, fetchWorkOrder, RECORD_HISTORY_TABLES, type AuditedTable } from "@/lib/domain";
+
+async function liveBuilding(table: AuditedTable, id: string): Promise<{ building: string | null; error: unknown }> {
+  if (table === "containers") {
+    const { data, error } = await fetchContainer(supabaseAdmin, id);
+    return { building: data?.building ?? null, error };
+  }
+  const { data, error } = await fetchWorkOrder(supabaseAdmin, id);
+  return { building: data?.building ?? null, error };
+}
+
+// GET /api/audit-log/record?table=containers|work_orders&id=...
+// The history tab on a container / work order page: every change to that record,
+// newest first. Anyone who can see the record can see its history.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "containers.read");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const table = params.get("table") as AuditedTable | null;
+    const id = params.get("id") ?? "";
+    if (!table || !RECORD_HISTORY_TABLES.includes(table) || !id) {
+      return NextResponse.json({ error: "table (containers or work_orders) and id are required" }, { status: 400 });
+    }
+
+    const [history, live] = await Promise.all([
+      fetchAuditLog(supabaseAdmin, { table, recordId: id }),
+      liveBuilding(table, id),
+    ]);
+    if (history.error || live.error) {
+      console.error("Error loading record history", history.error || live.error);
+      return NextResponse.json({ error: "Failed to load history" }, { status: 500 });
+    }
+
+    // A deleted record is scoped by the building it was last logged in
+    const building = live.building ?? history.data[0]?.building ?? null;
+    if ((!live.building && history.data.length === 0) || !canAccessBuilding(auth.user, building)) {
+      return NextResponse.json({ error: "Record not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(history.data);
+  } catch (error) {
+    console.error("Get record history error:", error);
+    return NextResponse.json({ error: "Failed to load history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+// src/app/api/audit-log/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { AUDIT_LOG_PAGE_SIZE, fetchAuditLog, isAuditedTable } from "@/lib/domain";
+import { isYMD } from "@/lib/time";
+
+// GET /api/audit-log?actor=&table=&record_id=&building=&from=YYYY-MM-DD&to=YYYY-MM-DD
+// Newest first, at most AUDIT_LOG_PAGE_SIZE entries. `actor` matches part of an email.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "audit.read");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const tableParam = params.get("table") || null;
+    const from = params.get("from") || null;
+    const to = params.get("to") || null;
+    if (tableParam && !isAuditedTable(tableParam)) {
+      return NextResponse.json({ error: `Unknown table: ${tableParam}` }, { status: 400 });
+    }
+    const table = isAuditedTable(tableParam) ? tableParam : null;
+    if ((from && !isYMD(from)) || (to && !isYMD(to))) {
+      return NextResponse.json({ error: "from and to must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const { data, error } = await fetchAuditLog(supabaseAdmin, {
+      actor: params.get("actor"),
+      table,
+      recordId: params.get("record_id"),
+      building: params.get("building"),
+      from,
+      to,
+    });
+    if (error) {
+      console.error("Error loading audit log", error);
+      return NextResponse.json({ error: "Failed to load audit log" }, { status: 500 });
+    }
+
+    return NextResponse.json({ entries: data, truncated: data.length >= AUDIT_LOG_PAGE_SIZE });
+  } catch (error) {
+    console.error("Get audit log error:", error);
+    return NextResponse.json({ error: "Failed to load audit log" }, { status: 500 });
+  }
+}
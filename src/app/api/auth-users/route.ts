@@ -1,26 +1,12 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-// Admin client using service role key (SERVER ONLY)
-const supabaseAdmin =
-  supabaseUrl && serviceRoleKey
-    ? createClient(supabaseUrl, serviceRoleKey)
-    : null;
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
 
+// POST /api/auth-users
+// Super Admin action from User Accounts (users.manage)
 export async function POST(req: Request) {
-  if (!supabaseAdmin) {
-    console.error("Supabase admin client not initialized - missing env vars.");
-    return NextResponse.json(
-      {
-        error:
-          "Server misconfiguration: missing SUPABASE_SERVICE_ROLE_KEY or NEXT_PUBLIC_SUPABASE_URL.",
-      },
-      { status: 500 }
-    );
-  }
+  const auth = await authorize(req, "users.manage");
+  if (!auth.ok) return auth.response;
 
   try {
     const body = await req.json();
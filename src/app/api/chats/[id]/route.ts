@@ -0,0 +1,32 @@
+// src/app/api/chats/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { CHATS_TABLE } from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// DELETE /api/chats/:id
+// Replies in the thread go with it (parent_id cascades).
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "chats.delete");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const { data, error } = await supabaseAdmin.from(CHATS_TABLE).delete().eq("id", id).select("id");
+
+    if (error) {
+      console.error("Delete chat message error:", error);
+      return NextResponse.json({ error: "Failed to delete message" }, { status: 500 });
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Delete chat message error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
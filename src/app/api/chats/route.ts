@@ -0,0 +1,151 @@
+// src/app/api/chats/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding, type AuthUser } from "@/lib/authz";
+import {
+  CHATS_TABLE,
+  canSeeChatMessage,
+  chatNotifications,
+  chatReplyFields,
+  deliverNotifications,
+  fetchChatPeople,
+  findChatMentions,
+  mapChatRow,
+  parseChatMessageInput,
+  type ChatMessage,
+  type ChatRow,
+} from "@/lib/domain";
+
+// Leads only see their own building's channels (direct messages follow the participants)
+function leadBuilding(user: AuthUser): string | null {
+  return user.accessRole === "Lead" && user.building ? user.building : null;
+}
+
+function visibleTo(user: AuthUser, m: ChatMessage): boolean {
+  if (m.recipientEmail) return canSeeChatMessage(m, user.email);
+  const building = leadBuilding(user);
+  return !building || m.building === building;
+}
+
+// GET /api/chats
+// Channel messages in the caller's scope plus their own direct messages, oldest first,
+// and the people they can message or @mention.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const me = `"${user.email}"`;
+    let query = supabaseAdmin
+      .from(CHATS_TABLE)
+      .select("*")
+      .or(`recipient_email.is.null,recipient_email.eq.${me},author_email.eq.${me}`)
+      .order("created_at", { ascending: true });
+
+    const building = leadBuilding(user);
+    if (building) query = query.or(`building.eq."${building}",recipient_email.not.is.null`);
+
+    const [chats, people] = await Promise.all([query, fetchChatPeople(supabaseAdmin)]);
+
+    if (chats.error || people.error) {
+      console.error("Error loading chats", chats.error || people.error);
+      return NextResponse.json({ error: "Failed to load chats" }, { status: 500 });
+    }
+
+    const messages = ((chats.data || []) as ChatRow[]).map(mapChatRow).filter((m) => visibleTo(user, m));
+    return NextResponse.json({ messages, people: people.data });
+  } catch (error) {
+    console.error("Get chats error:", error);
+    return NextResponse.json({ error: "Failed to load chats" }, { status: 500 });
+  }
+}
+
+// POST /api/chats
+// Body: { message, building, shift, channel }             → channel message
+//       { message, recipient_email }                      → direct message
+//       { message, parent_id }                            → reply in that thread
+// @mentions are resolved against active user accounts; mentioned users and DM
+// recipients get an in-app notification unless they muted it.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const parsed = parseChatMessageInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    let input = parsed.value;
+
+    const people = await fetchChatPeople(supabaseAdmin);
+    if (people.error) {
+      console.error("Error loading people for chat", people.error);
+      return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+    }
+
+    if (input.parentId) {
+      const existing = await supabaseAdmin.from(CHATS_TABLE).select("*").eq("id", input.parentId).maybeSingle();
+      if (existing.error) {
+        console.error("Error loading chat thread", existing.error);
+        return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+      }
+      const parent = existing.data ? mapChatRow(existing.data as ChatRow) : null;
+      if (!parent || !visibleTo(user, parent)) {
+        return NextResponse.json({ error: "Message not found" }, { status: 404 });
+      }
+      input = { ...input, ...chatReplyFields(parent, user.email) };
+    } else if (input.recipientEmail) {
+      const recipient = people.data.find((p) => p.email === input.recipientEmail);
+      if (!recipient) {
+        return NextResponse.json({ error: `${input.recipientEmail} is not an active user` }, { status: 400 });
+      }
+      if (recipient.email === user.email) {
+        return NextResponse.json({ error: "You cannot send a direct message to yourself" }, { status: 400 });
+      }
+      // Filed under the recipient's building so building-filtered Realtime streams deliver it
+      input = { ...input, building: recipient.building ?? user.building ?? "" };
+    } else if (!canAccessBuilding(user, input.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    // In a direct thread only the two participants can be mentioned
+    const mentionable = input.recipientEmail
+      ? people.data.filter((p) => p.email === input.recipientEmail)
+      : people.data;
+
+    const { data, error } = await supabaseAdmin
+      .from(CHATS_TABLE)
+      .insert({
+        building: input.building || null,
+        shift: input.shift,
+        channel: input.channel,
+        message: input.message,
+        parent_id: input.parentId,
+        recipient_email: input.recipientEmail,
+        mentions: findChatMentions(input.message, mentionable),
+        author_name: user.name,
+        author_email: user.email,
+        author_role: user.accessRole,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Send chat message error:", error);
+      return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+    }
+
+    const message = mapChatRow(data as ChatRow);
+
+    // The message is already posted; a failed notification shouldn't fail the send
+    const notified = await deliverNotifications(supabaseAdmin, chatNotifications(message));
+    if (notified.error) {
+      console.error("Error creating chat notifications", notified.error);
+    }
+
+    return NextResponse.json(message, { status: 201 });
+  } catch (error) {
+    console.error("Send chat message error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
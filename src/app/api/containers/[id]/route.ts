@@ -0,0 +1,176 @@
+// src/app/api/containers/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding, canModifyRow } from "@/lib/authz";
+import { loadPayScales } from "@/lib/payScale";
+import {
+  containerRowToInput,
+  linkedWorkforceIds,
+  linkWorkersToRoster,
+  parseContainerInput,
+  priceContainer,
+} from "@/lib/containerPricing";
+import {
+  CONTAINERS_TABLE,
+  containerDateNY,
+  fetchContainer,
+  fetchWorkforceByIds,
+  fetchWorkOrderCustomerId,
+} from "@/lib/domain";
+import { payrollLockError } from "@/lib/payroll";
+import { isStaleVersion } from "@/lib/syncProtocol";
+
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/containers/:id
+export async function GET(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "containers.read");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const { id } = await params;
+    const { data, error } = await fetchContainer(supabaseAdmin, id);
+
+    if (error) {
+      console.error("Error loading container", error);
+      return NextResponse.json({ error: "Failed to load container" }, { status: 500 });
+    }
+    if (!data || !canAccessBuilding(user, data.building)) {
+      return NextResponse.json({ error: "Container not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Get container error:", error);
+    return NextResponse.json({ error: "Failed to load container" }, { status: 500 });
+  }
+}
+
+// PATCH /api/containers/:id
+// Body fields are merged over the stored row, then the whole container is re-priced.
+// If-Match (the updated_at being edited) → 412 with the current row when it changed meanwhile.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "containers.write");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const { id } = await params;
+    const existing = await fetchContainer(supabaseAdmin, id);
+
+    if (existing.error) {
+      console.error("Error loading container for update", existing.error);
+      return NextResponse.json({ error: "Failed to update container" }, { status: 500 });
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Container not found" }, { status: 404 });
+    }
+
+    const current = existing.data;
+    if (!canModifyRow(user, current)) {
+      return NextResponse.json({ error: "You do not have permission to edit this container" }, { status: 403 });
+    }
+    if (isStaleVersion(request, current.updated_at)) {
+      return NextResponse.json(
+        { error: "This container was changed by someone else since you started editing", current },
+        { status: 412 }
+      );
+    }
+
+    const base = containerRowToInput(current);
+    const parsed = parseContainerInput(await request.json().catch(() => null), base);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (!canAccessBuilding(user, parsed.value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    // Only workers the body links anew are checked against the roster
+    const roster = await fetchWorkforceByIds(supabaseAdmin, linkedWorkforceIds(parsed.value, base.workers));
+    if (roster.error) {
+      console.error("Error loading workforce for container", roster.error);
+      return NextResponse.json({ error: "Failed to update container" }, { status: 500 });
+    }
+    const linked = linkWorkersToRoster(parsed.value, roster.data, base.workers);
+    if (!linked.ok) {
+      return NextResponse.json({ error: linked.error }, { status: 400 });
+    }
+
+    // Both the old and the new date must be outside approved payroll
+    const locked = await payrollLockError(supabaseAdmin, [containerDateNY(current), parsed.value.workDate]);
+    if (locked) {
+      return NextResponse.json({ error: locked.error }, { status: locked.status });
+    }
+
+    const customer = await fetchWorkOrderCustomerId(supabaseAdmin, linked.value.workOrderId);
+    if (customer.error) {
+      console.error("Error loading work order customer for container", customer.error);
+      return NextResponse.json({ error: "Failed to update container" }, { status: 500 });
+    }
+
+    const schedules = await loadPayScales(supabaseAdmin);
+    if (schedules.error) {
+      console.error("Error loading pay scales for container", schedules.error);
+      return NextResponse.json({ error: "Failed to update container" }, { status: 500 });
+    }
+
+    const row = priceContainer(linked.value, schedules.data, customer.data);
+
+    const { data, error } = await supabaseAdminAs(user).from(CONTAINERS_TABLE).update(row).eq("id", id).select("*").single();
+
+    if (error) {
+      console.error("Update container error:", error);
+      return NextResponse.json({ error: "Failed to update container" }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Update container error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/containers/:id
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "containers.delete");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const { id } = await params;
+    const existing = await fetchContainer(supabaseAdmin, id);
+
+    if (existing.error) {
+      console.error("Error loading container for delete", existing.error);
+      return NextResponse.json({ error: "Failed to delete container" }, { status: 500 });
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Container not found" }, { status: 404 });
+    }
+    if (!canModifyRow(user, existing.data)) {
+      return NextResponse.json({ error: "You do not have permission to delete this container" }, { status: 403 });
+    }
+
+    const locked = await payrollLockError(supabaseAdmin, [containerDateNY(existing.data)]);
+    if (locked) {
+      return NextResponse.json({ error: locked.error }, { status: locked.status });
+    }
+
+    const { data, error } = await supabaseAdminAs(user).from(CONTAINERS_TABLE).delete().eq("id", id).select("id");
+
+    if (error) {
+      console.error("Delete container error:", error);
+      return NextResponse.json({ error: "Failed to delete container" }, { status: 500 });
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: "Container not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Delete container error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,62 +1,155 @@
 // src/app/api/containers/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { calculateContainerPay } from "@/lib/payScale";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { loadPayScales } from "@/lib/payScale";
+import { isBuildingScoped } from "@/lib/roles";
+import { CONTAINERS_TABLE, fetchWorkforceByIds, fetchWorkOrderCustomerId, mapContainerRow } from "@/lib/domain";
+import { linkedWorkforceIds, linkWorkersToRoster, parseContainerInput, priceContainer } from "@/lib/containerPricing";
+import { payrollLockError } from "@/lib/payroll";
+import { findReplayedRow, idempotencyKey } from "@/lib/syncProtocol";
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+function isMissingOwnershipColumnError(message: string | undefined): boolean {
+  const msg = String(message || "").toLowerCase();
+  return msg.includes("does not exist") && (msg.includes("created_by_user_id") || msg.includes("created_by_email"));
+}
+
+// GET /api/containers
+// Query: building, shift, workOrderId, date | from & to (YYYY-MM-DD), page (1-based), pageSize
+// Building-scoped roles are always limited to their own building.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "containers.read");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const params = new URL(request.url).searchParams;
+    const page = Math.max(1, Number(params.get("page")) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(params.get("pageSize")) || DEFAULT_PAGE_SIZE));
+
+    let query = supabaseAdmin
+      .from(CONTAINERS_TABLE)
+      .select("*", { count: "exact" })
+      .order("created_at", { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1);
+
+    let building = params.get("building");
+    if (isBuildingScoped(user.accessRole)) {
+      if (!user.building || (building && building !== user.building)) {
+        return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+      }
+      building = user.building;
+    }
+    const shift = params.get("shift");
+    const workOrderId = params.get("workOrderId");
+    const date = params.get("date");
+    const from = params.get("from");
+    const to = params.get("to");
+
+    if (building) query = query.eq("building", building);
+    if (shift) query = query.eq("shift", shift);
+    if (workOrderId) query = query.eq("work_order_id", workOrderId);
+    if (date) query = query.eq("work_date", date);
+    if (from) query = query.gte("work_date", from);
+    if (to) query = query.lte("work_date", to);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      console.error("Error loading containers", error);
+      return NextResponse.json({ error: "Failed to load containers" }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: (data ?? []).map(mapContainerRow), page, pageSize, total: count ?? 0 });
+  } catch (error) {
+    console.error("Get containers error:", error);
+    return NextResponse.json({ error: "Failed to load containers" }, { status: 500 });
+  }
+}
+
+// POST /api/containers
+// Pay and per-worker payouts are computed here; client-sent pay is ignored.
+// With an Idempotency-Key (offline queue replays) a repeat returns the row already created.
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-
-    const {
-      containerNo,
-      piecesTotal,
-      skusTotal,
-      workers,
-    } = body;
-
-    if (
-      !containerNo ||
-      typeof piecesTotal !== "number" ||
-      typeof skusTotal !== "number" ||
-      !Array.isArray(workers) ||
-      workers.length === 0
-    ) {
-      return NextResponse.json(
-        { error: "Missing or invalid fields" },
-        { status: 400 }
-      );
-    }
-
-    // Calculate container pay on the server so it’s always correct
-    const containerPay = calculateContainerPay(piecesTotal);
-
-    const created = await prisma.container.create({
-      data: {
-        containerNo,
-        piecesTotal,
-        skusTotal,
-        containerPay,
-        workers: {
-          create: workers.map((w: any) => ({
-            name: w.name || "",
-            minutesWorked: Number(w.minutesWorked) || 0,
-            percentShare: Number(w.percentShare) || 0,
-            payout:
-              ((Number(w.percentShare) || 0) / 100) * containerPay,
-          })),
-        },
-      },
-      include: {
-        workers: true,
-      },
-    });
-
-    return NextResponse.json(created, { status: 201 });
+    const auth = await authorize(request, "containers.write");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const key = idempotencyKey(request);
+    if (key) {
+      const replayed = await findReplayedRow(supabaseAdmin, CONTAINERS_TABLE, key);
+      if (replayed.error) {
+        console.error("Error checking replayed container", replayed.error);
+        return NextResponse.json({ error: "Failed to create container" }, { status: 500 });
+      }
+      if (replayed.data) return NextResponse.json(replayed.data);
+    }
+
+    const parsed = parseContainerInput(await request.json().catch(() => null));
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (!canAccessBuilding(user, parsed.value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const roster = await fetchWorkforceByIds(supabaseAdmin, linkedWorkforceIds(parsed.value));
+    if (roster.error) {
+      console.error("Error loading workforce for container", roster.error);
+      return NextResponse.json({ error: "Failed to create container" }, { status: 500 });
+    }
+    const linked = linkWorkersToRoster(parsed.value, roster.data);
+    if (!linked.ok) {
+      return NextResponse.json({ error: linked.error }, { status: 400 });
+    }
+
+    const locked = await payrollLockError(supabaseAdmin, [parsed.value.workDate]);
+    if (locked) {
+      return NextResponse.json({ error: locked.error }, { status: locked.status });
+    }
+
+    const customer = await fetchWorkOrderCustomerId(supabaseAdmin, linked.value.workOrderId);
+    if (customer.error) {
+      console.error("Error loading work order customer for container", customer.error);
+      return NextResponse.json({ error: "Failed to create container" }, { status: 500 });
+    }
+
+    const schedules = await loadPayScales(supabaseAdmin);
+    if (schedules.error) {
+      console.error("Error loading pay scales for container", schedules.error);
+      return NextResponse.json({ error: "Failed to create container" }, { status: 500 });
+    }
+
+    const row = {
+      ...priceContainer(linked.value, schedules.data, customer.data),
+      ...(key ? { client_request_id: key } : {}),
+    };
+
+    const db = supabaseAdminAs(user);
+    let res = await db
+      .from(CONTAINERS_TABLE)
+      .insert({ ...row, created_by_user_id: user.id, created_by_email: user.email })
+      .select("*")
+      .single();
+
+    // Older schemas don't have ownership columns yet
+    if (res.error && isMissingOwnershipColumnError(res.error.message)) {
+      console.warn("Containers ownership columns missing — inserting without them");
+      res = await db.from(CONTAINERS_TABLE).insert(row).select("*").single();
+    }
+
+    if (res.error) {
+      console.error("Create container error:", res.error);
+      return NextResponse.json({ error: "Failed to create container" }, { status: 500 });
+    }
+
+    return NextResponse.json(res.data, { status: 201 });
   } catch (error) {
     console.error("Create container error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
 }
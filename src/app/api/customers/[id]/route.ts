@@ -0,0 +1,58 @@
+// src/app/api/customers/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import {
+  CUSTOMERS_TABLE,
+  customerToRow,
+  mapCustomerRow,
+  parseCustomerInput,
+  type CustomerRow,
+} from "@/lib/domain/customers";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PATCH /api/customers/:id
+// Body: full customer (same shape as POST), or { active: boolean } to retire/restore it.
+// Customers are never deleted; work orders and invoices keep pointing at them.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "customers.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+
+    let update: Record<string, unknown>;
+    if (body && Object.keys(body).length === 1 && typeof body.active === "boolean") {
+      update = { active: body.active };
+    } else {
+      const parsed = parseCustomerInput(body);
+      if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+      update = customerToRow(parsed.value);
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(CUSTOMERS_TABLE)
+      .update(update)
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if ((error as { code?: string } | null)?.code === "23505") {
+      return NextResponse.json({ error: "Another customer already has that name" }, { status: 409 });
+    }
+    if (error) {
+      console.error("Update customer error:", error);
+      return NextResponse.json({ error: "Failed to update customer" }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(mapCustomerRow(data as CustomerRow));
+  } catch (error) {
+    console.error("Update customer error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
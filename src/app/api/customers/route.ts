@@ -0,0 +1,63 @@
+// src/app/api/customers/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import {
+  CUSTOMERS_TABLE,
+  customerToRow,
+  fetchCustomers,
+  mapCustomerRow,
+  parseCustomerInput,
+  type CustomerRow,
+} from "@/lib/domain/customers";
+
+// GET /api/customers
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "containers.read");
+    if (!auth.ok) return auth.response;
+
+    const { data, error } = await fetchCustomers(supabaseAdmin);
+    if (error) {
+      console.error("Error loading customers", error);
+      return NextResponse.json({ error: "Failed to load customers" }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Get customers error:", error);
+    return NextResponse.json({ error: "Failed to load customers" }, { status: 500 });
+  }
+}
+
+// POST /api/customers
+// Body: { name, buildings?, contacts?, billingTerms?, billingEmail?, billingAddress?,
+//         defaultRateCardId?, notes? }
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "customers.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseCustomerInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(CUSTOMERS_TABLE)
+      .insert({ ...customerToRow(parsed.value), created_by_email: auth.user.email })
+      .select("*")
+      .single();
+
+    if ((error as { code?: string } | null)?.code === "23505") {
+      return NextResponse.json({ error: `A customer named ${parsed.value.name} already exists` }, { status: 409 });
+    }
+    if (error || !data) {
+      console.error("Create customer error:", error);
+      return NextResponse.json({ error: "Failed to create customer" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapCustomerRow(data as CustomerRow), { status: 201 });
+  } catch (error) {
+    console.error("Create customer error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
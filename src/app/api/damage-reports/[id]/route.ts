@@ -0,0 +1,70 @@
+// src/app/api/damage-reports/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  DAMAGE_REPORTS_TABLE,
+  damageReportRowToInput,
+  mapDamageReportRow,
+  parseDamageReportInput,
+  type DamageReportRow,
+} from "@/lib/domain/damageReports";
+import { isStaleVersion } from "@/lib/syncProtocol";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PATCH /api/damage-reports/:id
+// Body fields are merged over the stored report.
+// If-Match (the updated_at being edited) → 412 with the current report when it changed meanwhile.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const { id } = await params;
+    const existing = await supabaseAdmin.from(DAMAGE_REPORTS_TABLE).select("*").eq("id", id).maybeSingle();
+
+    if (existing.error) {
+      console.error("Error loading damage report for update", existing.error);
+      return NextResponse.json({ error: "Failed to update damage report" }, { status: 500 });
+    }
+
+    const current = existing.data as DamageReportRow | null;
+    if (!current || !canAccessBuilding(user, current.building)) {
+      return NextResponse.json({ error: "Damage report not found" }, { status: 404 });
+    }
+    if (isStaleVersion(request, current.updated_at)) {
+      return NextResponse.json(
+        {
+          error: "This damage report was changed by someone else since you started editing",
+          current: mapDamageReportRow(current),
+        },
+        { status: 412 }
+      );
+    }
+
+    const parsed = parseDamageReportInput(await request.json().catch(() => null), damageReportRowToInput(current));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    if (!canAccessBuilding(user, parsed.value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(DAMAGE_REPORTS_TABLE)
+      .update(parsed.value)
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Update damage report error:", error);
+      return NextResponse.json({ error: "Failed to update damage report" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapDamageReportRow(data as DamageReportRow));
+  } catch (error) {
+    console.error("Update damage report error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+// src/app/api/damage-reports/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  DAMAGE_REPORTS_TABLE,
+  mapDamageReportRow,
+  parseDamageReportInput,
+  type DamageReportRow,
+} from "@/lib/domain/damageReports";
+import { raiseBuildingNotifications } from "@/lib/domain/notifications";
+import { damageReportedEvent } from "@/lib/notificationEvents";
+import { findReplayedRow, idempotencyKey } from "@/lib/syncProtocol";
+
+// POST /api/damage-reports
+// Body: { building, shift, container_no, pieces_total, pieces_damaged, status?, reporter_name?, notes? }
+// With an Idempotency-Key (offline queue replays) a repeat returns the report already created.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+
+    const key = idempotencyKey(request);
+    if (key) {
+      const replayed = await findReplayedRow<DamageReportRow>(supabaseAdmin, DAMAGE_REPORTS_TABLE, key);
+      if (replayed.error) {
+        console.error("Error checking replayed damage report", replayed.error);
+        return NextResponse.json({ error: "Failed to create damage report" }, { status: 500 });
+      }
+      if (replayed.data) return NextResponse.json(mapDamageReportRow(replayed.data));
+    }
+
+    const parsed = parseDamageReportInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    if (!canAccessBuilding(auth.user, parsed.value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(DAMAGE_REPORTS_TABLE)
+      .insert({ ...parsed.value, ...(key ? { client_request_id: key } : {}) })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create damage report error:", error);
+      return NextResponse.json({ error: "Failed to create damage report" }, { status: 500 });
+    }
+
+    const report = mapDamageReportRow(data as DamageReportRow);
+
+    // The report is saved; a failed notification shouldn't fail the request
+    const raised = await raiseBuildingNotifications(supabaseAdmin, [damageReportedEvent(report, auth.user.email)]);
+    if (raised.error) {
+      console.error("Error creating damage report notifications", raised.error);
+    }
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error("Create damage report error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
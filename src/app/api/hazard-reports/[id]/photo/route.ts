@@ -0,0 +1,55 @@
+// src/app/api/hazard-reports/[id]/photo/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { hasPermission } from "@/lib/roles";
+import { HAZARD_PHOTOS_BUCKET, HAZARD_REPORTS_TABLE, type HazardReportRow } from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Long enough to look at, short enough not to be worth sharing
+const PHOTO_URL_SECONDS = 60 * 10;
+
+// GET /api/hazard-reports/:id/photo
+// Returns { url }: a short-lived signed URL for the report's photo. For
+// safety.manage roles in the report's building, or whoever filed it by name.
+export async function GET(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const { id } = await params;
+    const existing = await supabaseAdmin
+      .from(HAZARD_REPORTS_TABLE)
+      .select("building, photo_path, reporter_user_id")
+      .eq("id", id)
+      .maybeSingle();
+    if (existing.error) {
+      console.error("Error loading hazard report photo", existing.error);
+      return NextResponse.json({ error: "Failed to load photo" }, { status: 500 });
+    }
+
+    const row = existing.data as Pick<HazardReportRow, "building" | "photo_path" | "reporter_user_id"> | null;
+    const allowed =
+      !!row &&
+      ((hasPermission(user.accessRole, "safety.manage") && canAccessBuilding(user, row.building)) ||
+        row.reporter_user_id === user.id);
+    if (!row || !allowed || !row.photo_path) {
+      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdmin.storage
+      .from(HAZARD_PHOTOS_BUCKET)
+      .createSignedUrl(row.photo_path, PHOTO_URL_SECONDS);
+    if (error || !data) {
+      console.error("Hazard photo signed URL error:", error);
+      return NextResponse.json({ error: "Failed to load photo" }, { status: 500 });
+    }
+
+    return NextResponse.json({ url: data.signedUrl });
+  } catch (error) {
+    console.error("Hazard photo GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+// src/app/api/hazard-reports/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  HAZARD_REPORTS_TABLE,
+  mapHazardReportRow,
+  parseHazardTriageInput,
+  type HazardReportRow,
+} from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PATCH /api/hazard-reports/:id
+// Body: any of { status, severity, category, dock_area, triage_notes }.
+// Triage by safety.manage roles; stamps who triaged it and when.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseHazardTriageInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { id } = await params;
+    const existing = await supabaseAdmin.from(HAZARD_REPORTS_TABLE).select("building").eq("id", id).maybeSingle();
+    if (existing.error) {
+      console.error("Error loading hazard report for triage", existing.error);
+      return NextResponse.json({ error: "Failed to update hazard report" }, { status: 500 });
+    }
+    const current = existing.data as Pick<HazardReportRow, "building"> | null;
+    if (!current || !canAccessBuilding(auth.user, current.building)) {
+      return NextResponse.json({ error: "Hazard report not found" }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(HAZARD_REPORTS_TABLE)
+      .update({ ...parsed.value, triaged_at: now, triaged_by_email: auth.user.email, updated_at: now })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Update hazard report error:", error);
+      return NextResponse.json({ error: "Failed to update hazard report" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapHazardReportRow(data as HazardReportRow));
+  } catch (error) {
+    console.error("Hazard report PATCH error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+// src/app/api/hazard-reports/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { hasPermission, isBuildingScoped } from "@/lib/roles";
+import {
+  HAZARD_PHOTOS_BUCKET,
+  HAZARD_QUEUE_STATUSES,
+  HAZARD_REPORTS_TABLE,
+  HAZARD_TREND_DAYS,
+  fetchHazardReports,
+  hazardTrends,
+  mapHazardReportRow,
+  mergeHazardReports,
+  parseHazardReportInput,
+  raiseBuildingNotifications,
+  type HazardReportRow,
+} from "@/lib/domain";
+import { hazardReportedEvent } from "@/lib/notificationEvents";
+import { addDaysYMD, nyISODate } from "@/lib/time";
+
+// GET /api/hazard-reports?building=DC1
+// Returns { mine, reports, trends }. `mine` is the caller's own named reports
+// from the last HAZARD_TREND_DAYS days (anonymous ones aren't linked to
+// anyone). `reports` is that window's history plus every report still waiting
+// for triage, however old; `trends` covers the window only. Both are only sent
+// to safety.manage roles and null otherwise; Building Managers only see their
+// own building.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const today = nyISODate();
+    const since = addDaysYMD(today, -HAZARD_TREND_DAYS);
+    const canTriage = hasPermission(user.accessRole, "safety.manage");
+
+    const params = new URL(request.url).searchParams;
+    const building = isBuildingScoped(user.accessRole) ? user.building ?? "" : params.get("building") || null;
+
+    const [mine, recent, open] = await Promise.all([
+      fetchHazardReports(supabaseAdmin, { since, reporterUserId: user.id }),
+      canTriage ? fetchHazardReports(supabaseAdmin, { since, building }) : null,
+      canTriage ? fetchHazardReports(supabaseAdmin, { statuses: HAZARD_QUEUE_STATUSES, building }) : null,
+    ]);
+    const error = mine.error ?? recent?.error ?? open?.error;
+    if (error) {
+      console.error("Error loading hazard reports", error);
+      return NextResponse.json({ error: "Failed to load hazard reports" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      mine: mine.data,
+      reports: recent && open ? mergeHazardReports(open.data, recent.data) : null,
+      trends: recent ? hazardTrends(recent.data, today) : null,
+    });
+  } catch (error) {
+    console.error("Hazard reports GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/hazard-reports
+// Body: { building, shift?, report_type, category, severity, dock_area, location,
+// description, occurred_at?, anonymous?, photo? (JPEG / PNG / WebP data URL) }.
+// Open to every role. An anonymous report stores no reporter and is written
+// as System, so the audit log doesn't name the caller either.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const parsed = parseHazardReportInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    if (!canAccessBuilding(user, parsed.value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+    const { photo, anonymous, ...fields } = parsed.value;
+
+    let photoPath: string | null = null;
+    if (photo) {
+      photoPath = `${fields.building}/${crypto.randomUUID()}.${photo.extension}`;
+      const upload = await supabaseAdmin.storage
+        .from(HAZARD_PHOTOS_BUCKET)
+        .upload(photoPath, Buffer.from(photo.base64, "base64"), { contentType: photo.contentType });
+      if (upload.error) {
+        console.error("Hazard photo upload error:", upload.error);
+        return NextResponse.json({ error: "Failed to upload photo" }, { status: 500 });
+      }
+    }
+
+    const reporter = anonymous
+      ? { reporter_user_id: null, reporter_email: null, reporter_name: null }
+      : { reporter_user_id: user.id, reporter_email: user.email, reporter_name: user.name };
+
+    const { data, error } = await (anonymous ? supabaseAdmin : supabaseAdminAs(user))
+      .from(HAZARD_REPORTS_TABLE)
+      .insert({ ...fields, ...reporter, anonymous, photo_path: photoPath })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create hazard report error:", error);
+      if (photoPath) await supabaseAdmin.storage.from(HAZARD_PHOTOS_BUCKET).remove([photoPath]);
+      return NextResponse.json({ error: "Failed to create hazard report" }, { status: 500 });
+    }
+
+    const report = mapHazardReportRow(data as HazardReportRow);
+
+    // The report is saved; a failed notification shouldn't fail the request
+    const raised = await raiseBuildingNotifications(supabaseAdmin, [hazardReportedEvent(report, user.email)]);
+    if (raised.error) {
+      console.error("Error creating hazard report notifications", raised.error);
+    }
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error("Hazard reports POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+// src/app/api/injury-reports/[id]/case/events/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { INJURY_REPORTS_TABLE } from "@/lib/notificationEvents";
+import {
+  INJURY_CASE_EVENTS_TABLE,
+  OPEN_CASE_STATUS,
+  fetchCaseReport,
+  fetchInjuryCase,
+  mapInjuryCaseEventRow,
+  parseCaseEventInput,
+  summarizeCase,
+  type InjuryCaseEventRow,
+} from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// POST /api/injury-reports/:id/case/events
+// Body: { event_type, event_date, work_status?, provider?, assignment?, restrictions?, ends_on?, claim_number?, carrier?, notes? }.
+// Adds a timeline entry and refreshes the report's work status, return-to-work
+// date and claim. Returns { event, state }.
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseCaseEventInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { id } = await params;
+    const report = await fetchCaseReport(supabaseAdmin, id);
+    if (report.error) {
+      console.error("Error loading injury report for case", report.error);
+      return NextResponse.json({ error: "Failed to add case entry" }, { status: 500 });
+    }
+    if (!report.data || !canAccessBuilding(auth.user, report.data.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    if (report.data.status !== OPEN_CASE_STATUS) {
+      return NextResponse.json({ error: "Only submitted, open reports have a case to update" }, { status: 409 });
+    }
+
+    const db = supabaseAdminAs(auth.user);
+    const inserted = await db
+      .from(INJURY_CASE_EVENTS_TABLE)
+      .insert({
+        ...parsed.value,
+        report_id: id,
+        building: report.data.building,
+        created_by_email: auth.user.email,
+      })
+      .select("*")
+      .single();
+    if (inserted.error) {
+      console.error("Add injury case entry error:", inserted.error);
+      return NextResponse.json({ error: "Failed to add case entry" }, { status: 500 });
+    }
+
+    const current = await fetchInjuryCase(supabaseAdmin, id);
+    if (current.error) {
+      console.error("Error reloading injury case", current.error);
+      return NextResponse.json({ error: "Entry added but the case status didn't refresh" }, { status: 500 });
+    }
+    const state = summarizeCase(current.data.events);
+    const { error } = await db.from(INJURY_REPORTS_TABLE).update(state).eq("id", id);
+    if (error) {
+      console.error("Update injury case status error:", error);
+      return NextResponse.json({ error: "Entry added but the case status didn't refresh" }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { event: mapInjuryCaseEventRow(inserted.data as InjuryCaseEventRow), state },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Injury case entry POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
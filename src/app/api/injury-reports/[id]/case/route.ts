@@ -0,0 +1,37 @@
+// src/app/api/injury-reports/[id]/case/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { fetchCaseReport, fetchInjuryCase } from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/injury-reports/:id/case
+// Returns { events, tasks }: the case timeline (oldest first) and follow-up tasks.
+export async function GET(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const report = await fetchCaseReport(supabaseAdmin, id);
+    if (report.error) {
+      console.error("Error loading injury report for case", report.error);
+      return NextResponse.json({ error: "Failed to load case" }, { status: 500 });
+    }
+    if (!report.data || !canAccessBuilding(auth.user, report.data.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const { data, error } = await fetchInjuryCase(supabaseAdmin, id);
+    if (error) {
+      console.error("Error loading injury case", error);
+      return NextResponse.json({ error: "Failed to load case" }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Injury case GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
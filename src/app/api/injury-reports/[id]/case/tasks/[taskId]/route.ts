@@ -0,0 +1,63 @@
+// src/app/api/injury-reports/[id]/case/tasks/[taskId]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  INJURY_CASE_TASKS_TABLE,
+  OPEN_CASE_STATUS,
+  fetchCaseReport,
+  mapInjuryCaseTaskRow,
+  type InjuryCaseTaskRow,
+} from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string; taskId: string }> };
+
+// PATCH /api/injury-reports/:id/case/tasks/:taskId
+// Body: { done: boolean }. Marks a follow-up task done (or reopens it).
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json().catch(() => null)) as { done?: unknown } | null;
+    if (!body || typeof body.done !== "boolean") {
+      return NextResponse.json({ error: "done must be true or false" }, { status: 400 });
+    }
+
+    const { id, taskId } = await params;
+    const report = await fetchCaseReport(supabaseAdmin, id);
+    if (report.error) {
+      console.error("Error loading injury report for case", report.error);
+      return NextResponse.json({ error: "Failed to update task" }, { status: 500 });
+    }
+    if (!report.data || !canAccessBuilding(auth.user, report.data.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    if (report.data.status !== OPEN_CASE_STATUS) {
+      return NextResponse.json({ error: "Only submitted, open reports have a case to update" }, { status: 409 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(INJURY_CASE_TASKS_TABLE)
+      .update(
+        body.done
+          ? { completed_at: new Date().toISOString(), completed_by_email: auth.user.email }
+          : { completed_at: null, completed_by_email: null }
+      )
+      .eq("id", taskId)
+      .eq("report_id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update injury case task error:", error);
+      return NextResponse.json({ error: "Failed to update task" }, { status: 500 });
+    }
+    if (!data) return NextResponse.json({ error: "Task not found" }, { status: 404 });
+
+    return NextResponse.json(mapInjuryCaseTaskRow(data as InjuryCaseTaskRow));
+  } catch (error) {
+    console.error("Injury case task PATCH error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+// src/app/api/injury-reports/[id]/case/tasks/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  INJURY_CASE_TASKS_TABLE,
+  OPEN_CASE_STATUS,
+  fetchCaseReport,
+  mapInjuryCaseTaskRow,
+  parseCaseTaskInput,
+  type InjuryCaseTaskRow,
+} from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// POST /api/injury-reports/:id/case/tasks
+// Body: { title, due_date }. Adds a follow-up task to an open case.
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseCaseTaskInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { id } = await params;
+    const report = await fetchCaseReport(supabaseAdmin, id);
+    if (report.error) {
+      console.error("Error loading injury report for case", report.error);
+      return NextResponse.json({ error: "Failed to add task" }, { status: 500 });
+    }
+    if (!report.data || !canAccessBuilding(auth.user, report.data.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    if (report.data.status !== OPEN_CASE_STATUS) {
+      return NextResponse.json({ error: "Only submitted, open reports have a case to update" }, { status: 409 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(INJURY_CASE_TASKS_TABLE)
+      .insert({
+        ...parsed.value,
+        report_id: id,
+        building: report.data.building,
+        created_by_email: auth.user.email,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Add injury case task error:", error);
+      return NextResponse.json({ error: "Failed to add task" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapInjuryCaseTaskRow(data as InjuryCaseTaskRow), { status: 201 });
+  } catch (error) {
+    console.error("Injury case task POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
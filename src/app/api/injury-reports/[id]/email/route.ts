@@ -0,0 +1,92 @@
+// src/app/api/injury-reports/[id]/email/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { sendMessage } from "@/lib/messaging";
+import { INJURY_REPORTS_TABLE } from "@/lib/notificationEvents";
+import type { InjuryReportEmailData } from "@/lib/messageTemplates";
+
+type Context = { params: Promise<{ id: string }> };
+
+type InjuryReportEmailRow = InjuryReportEmailData["report"] & {
+  status: string | null;
+  emailed_draft_at: string | null;
+  emailed_submitted_at: string | null;
+};
+
+// Comma-separated safety / HR inboxes that get every injury report
+function injuryEmailRecipients(): string[] {
+  return (process.env.INJURY_EMAIL_TO ?? "")
+    .split(",")
+    .map((e) => e.trim())
+    .filter(Boolean);
+}
+
+// POST /api/injury-reports/:id/email
+// Body: { event: "draft" | "submitted" }. Emails the injury report to INJURY_EMAIL_TO,
+// once per report and event (emailed_draft_at / emailed_submitted_at record it).
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json().catch(() => null)) as { event?: unknown } | null;
+    const event = body?.event;
+    if (event !== "draft" && event !== "submitted") {
+      return NextResponse.json({ error: "event must be draft or submitted" }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const existing = await supabaseAdmin.from(INJURY_REPORTS_TABLE).select("*").eq("id", id).maybeSingle();
+    if (existing.error) {
+      console.error("Error loading injury report for email", existing.error);
+      return NextResponse.json({ error: "Failed to email report" }, { status: 500 });
+    }
+
+    const report = existing.data as InjuryReportEmailRow | null;
+    if (!report || !canAccessBuilding(auth.user, report.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    if (event === "submitted" && report.status !== "Submitted") {
+      return NextResponse.json({ error: "Report has not been submitted" }, { status: 409 });
+    }
+
+    const emailedColumn = event === "draft" ? "emailed_draft_at" : "emailed_submitted_at";
+    if (report[emailedColumn]) return NextResponse.json({ sent: 0, alreadySent: true });
+
+    const to = injuryEmailRecipients();
+    if (to.length === 0) {
+      console.warn("INJURY_EMAIL_TO is not set; injury report email skipped");
+      return NextResponse.json({ sent: 0 });
+    }
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL?.replace(/\/$/, "");
+    const { data, error } = await sendMessage(supabaseAdmin, {
+      channel: "email",
+      to,
+      template: "injury.report",
+      data: { event, report, link: siteUrl ? `${siteUrl}/injury-report` : null },
+      sourceTable: INJURY_REPORTS_TABLE,
+      sourceId: report.id,
+      dedupeKey: `injury.report:${report.id}:${event}`,
+      createdBy: auth.user.email,
+    });
+
+    if (error) {
+      console.error("Error sending injury report email", error);
+      return NextResponse.json({ error: "Failed to email report" }, { status: 500 });
+    }
+
+    // Pending deliveries are retried on schedule, so the report counts as emailed
+    const { error: markError } = await supabaseAdminAs(auth.user)
+      .from(INJURY_REPORTS_TABLE)
+      .update({ [emailedColumn]: new Date().toISOString() })
+      .eq("id", report.id);
+    if (markError) console.error("Error marking injury report emailed", markError);
+
+    return NextResponse.json({ sent: data.filter((d) => d.status === "sent").length, deliveries: data });
+  } catch (error) {
+    console.error("Injury report email error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
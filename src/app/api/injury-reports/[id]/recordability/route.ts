@@ -0,0 +1,53 @@
+// src/app/api/injury-reports/[id]/recordability/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { INJURY_REPORTS_TABLE } from "@/lib/notificationEvents";
+import { parseRecordabilityInput } from "@/lib/osha";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PATCH /api/injury-reports/:id/recordability
+// Body: { recordability, osha_injury_type, days_away, days_restricted, fatality, privacy_case }.
+// HR / safety's OSHA classification of the report (see src/lib/osha.ts).
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseRecordabilityInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { id } = await params;
+    const existing = await supabaseAdmin.from(INJURY_REPORTS_TABLE).select("id, building").eq("id", id).maybeSingle();
+    if (existing.error) {
+      console.error("Error loading injury report for classification", existing.error);
+      return NextResponse.json({ error: "Failed to classify report" }, { status: 500 });
+    }
+    const report = existing.data as { id: string; building: string | null } | null;
+    if (!report || !canAccessBuilding(auth.user, report.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(INJURY_REPORTS_TABLE)
+      .update({
+        ...parsed.value,
+        recordability_set_by_email: auth.user.email,
+        recordability_set_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Classify injury report error:", error);
+      return NextResponse.json({ error: "Failed to classify report" }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Classify injury report error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/investigations/[id]/actions/[actionId]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { CORRECTIVE_ACTIONS_TABLE } from "@/lib/notificationEvents";
+import {
+  correctiveActionStepUpdate,
+  fetchInvestigation,
+  mapCorrectiveActionRow,
+  parseCorrectiveActionStep,
+  type CorrectiveActionRow,
+} from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string; actionId: string }> };
+
+// PATCH /api/investigations/:id/actions/:actionId
+// Body: { step: "complete", notes? } | { step: "verify", notes? } | { step: "reopen" }
+// | { step: "reschedule", due_date }. Verifying needs the action completed first.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseCorrectiveActionStep(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { id, actionId } = await params;
+    const current = await fetchInvestigation(supabaseAdmin, id);
+    if (current.error) {
+      console.error("Error loading investigation", current.error);
+      return NextResponse.json({ error: "Failed to update action" }, { status: 500 });
+    }
+    if (!current.data || !canAccessBuilding(auth.user, current.data.investigation.building)) {
+      return NextResponse.json({ error: "Investigation not found" }, { status: 404 });
+    }
+    if (current.data.investigation.status === "closed") {
+      return NextResponse.json({ error: "Reopen the investigation to change its actions" }, { status: 409 });
+    }
+
+    const action = current.data.actions.find((a) => a.id === actionId);
+    if (!action) return NextResponse.json({ error: "Action not found" }, { status: 404 });
+
+    const update = correctiveActionStepUpdate(action, parsed.value, auth.user.email);
+    if (!update.ok) return NextResponse.json({ error: update.error }, { status: 409 });
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(CORRECTIVE_ACTIONS_TABLE)
+      .update(update.value)
+      .eq("id", actionId)
+      .eq("investigation_id", id)
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Update corrective action error:", error);
+      return NextResponse.json({ error: "Failed to update action" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapCorrectiveActionRow(data as CorrectiveActionRow));
+  } catch (error) {
+    console.error("Corrective action PATCH error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
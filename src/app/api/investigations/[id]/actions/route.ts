@@ -0,0 +1,60 @@
+// src/app/api/investigations/[id]/actions/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { CORRECTIVE_ACTIONS_TABLE } from "@/lib/notificationEvents";
+import {
+  INVESTIGATIONS_TABLE,
+  mapCorrectiveActionRow,
+  parseCorrectiveActionInput,
+  type CorrectiveActionRow,
+} from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// POST /api/investigations/:id/actions
+// Body: { action_type?, description, owner_name, owner_email?, due_date }.
+// Adds a corrective / preventive action to an open investigation.
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseCorrectiveActionInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { id } = await params;
+    const investigation = await supabaseAdmin
+      .from(INVESTIGATIONS_TABLE)
+      .select("id, building, status")
+      .eq("id", id)
+      .maybeSingle();
+    if (investigation.error) {
+      console.error("Error loading investigation", investigation.error);
+      return NextResponse.json({ error: "Failed to add action" }, { status: 500 });
+    }
+    const inv = investigation.data as { id: string; building: string; status: string } | null;
+    if (!inv || !canAccessBuilding(auth.user, inv.building)) {
+      return NextResponse.json({ error: "Investigation not found" }, { status: 404 });
+    }
+    if (inv.status === "closed") {
+      return NextResponse.json({ error: "Reopen the investigation to add actions" }, { status: 409 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(CORRECTIVE_ACTIONS_TABLE)
+      .insert({ ...parsed.value, investigation_id: id, building: inv.building, created_by_email: auth.user.email })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Add corrective action error:", error);
+      return NextResponse.json({ error: "Failed to add action" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapCorrectiveActionRow(data as CorrectiveActionRow), { status: 201 });
+  } catch (error) {
+    console.error("Corrective actions POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+// src/app/api/investigations/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  INVESTIGATIONS_TABLE,
+  fetchInvestigation,
+  investigationCloseBlocker,
+  mapInvestigationRow,
+  parseInvestigationUpdateInput,
+  sortCorrectiveActions,
+  type InvestigationRow,
+} from "@/lib/domain";
+import { nyISODate } from "@/lib/time";
+
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/investigations/:id
+// Returns { investigation, actions } (overdue actions first).
+export async function GET(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const { data, error } = await fetchInvestigation(supabaseAdmin, id);
+    if (error) {
+      console.error("Error loading investigation", error);
+      return NextResponse.json({ error: "Failed to load investigation" }, { status: 500 });
+    }
+    if (!data || !canAccessBuilding(auth.user, data.investigation.building)) {
+      return NextResponse.json({ error: "Investigation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...data, actions: sortCorrectiveActions(data.actions, nyISODate()) });
+  } catch (error) {
+    console.error("Investigation GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PATCH /api/investigations/:id
+// Body: any of { title, whys, root_cause_category, root_cause, contributing_factors, status }.
+// Closing needs the root cause and every action verified (409 otherwise);
+// a closed investigation only takes status "open".
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseInvestigationUpdateInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { id } = await params;
+    const current = await fetchInvestigation(supabaseAdmin, id);
+    if (current.error) {
+      console.error("Error loading investigation", current.error);
+      return NextResponse.json({ error: "Failed to update investigation" }, { status: 500 });
+    }
+    if (!current.data || !canAccessBuilding(auth.user, current.data.investigation.building)) {
+      return NextResponse.json({ error: "Investigation not found" }, { status: 404 });
+    }
+
+    const { investigation, actions } = current.data;
+    const update = parsed.value;
+    if (investigation.status === "closed" && update.status !== "open") {
+      return NextResponse.json({ error: "Reopen the investigation before changing it" }, { status: 409 });
+    }
+
+    const closing = update.status === "closed" && investigation.status !== "closed";
+    if (closing) {
+      const blocker = investigationCloseBlocker(
+        {
+          rootCauseCategory: update.root_cause_category !== undefined ? update.root_cause_category : investigation.rootCauseCategory,
+          rootCause: update.root_cause !== undefined ? update.root_cause : investigation.rootCause,
+        },
+        actions
+      );
+      if (blocker) return NextResponse.json({ error: blocker }, { status: 409 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(INVESTIGATIONS_TABLE)
+      .update({
+        ...update,
+        updated_at: new Date().toISOString(),
+        ...(closing ? { closed_at: new Date().toISOString(), closed_by_email: auth.user.email } : {}),
+        ...(update.status === "open" ? { closed_at: null, closed_by_email: null } : {}),
+      })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Update investigation error:", error);
+      return NextResponse.json({ error: "Failed to update investigation" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapInvestigationRow(data as InvestigationRow));
+  } catch (error) {
+    console.error("Investigation PATCH error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
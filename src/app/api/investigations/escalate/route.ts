@@ -0,0 +1,66 @@
+// src/app/api/investigations/escalate/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { isCronRequest } from "@/lib/authz";
+import {
+  capaDaysOverdue,
+  capaNeedsEscalation,
+  capaStatus,
+  mapCorrectiveActionRow,
+  raiseBuildingNotifications,
+  type CorrectiveActionRow,
+} from "@/lib/domain";
+import { capaEscalatedEvent, capaOverdueEvent, CORRECTIVE_ACTIONS_TABLE } from "@/lib/notificationEvents";
+import { nyISODate } from "@/lib/time";
+
+// GET /api/investigations/escalate (the scheduled job, authorized by CRON_SECRET)
+// Notifies the building about corrective actions past due and escalates the
+// ones CAPA_ESCALATION_DAYS overdue to HQ, stamping escalated_at. vercel.json
+// runs it hourly; dedupe keys make repeats harmless.
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+
+    const today = nyISODate();
+    const { data, error } = await supabaseAdmin
+      .from(CORRECTIVE_ACTIONS_TABLE)
+      .select("*")
+      .is("completed_at", null)
+      .lt("due_date", today);
+    if (error) {
+      console.error("Error loading corrective actions to escalate", error);
+      return NextResponse.json({ error: "Failed to escalate corrective actions" }, { status: 500 });
+    }
+
+    const overdue = ((data || []) as CorrectiveActionRow[])
+      .map(mapCorrectiveActionRow)
+      .filter((a) => capaStatus(a, today) === "overdue");
+    const escalated = overdue.filter((a) => capaNeedsEscalation(a, today));
+
+    const raised = await raiseBuildingNotifications(supabaseAdmin, [
+      ...overdue.map(capaOverdueEvent),
+      ...escalated.map((a) => capaEscalatedEvent(a, capaDaysOverdue(a, today))),
+    ]);
+    if (raised.error) {
+      console.error("CAPA escalation error:", raised.error);
+      return NextResponse.json({ error: "Failed to escalate corrective actions" }, { status: 500 });
+    }
+
+    // Stamped after notifying, so a failed run escalates again next time
+    if (escalated.length > 0) {
+      const { error: stampError } = await supabaseAdmin
+        .from(CORRECTIVE_ACTIONS_TABLE)
+        .update({ escalated_at: new Date().toISOString() })
+        .in("id", escalated.map((a) => a.id));
+      if (stampError) {
+        console.error("Mark corrective actions escalated error:", stampError);
+        return NextResponse.json({ error: "Failed to escalate corrective actions" }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ overdue: overdue.length, escalated: escalated.length, notified: raised.count });
+  } catch (error) {
+    console.error("CAPA escalation error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
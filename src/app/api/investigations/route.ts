@@ -0,0 +1,116 @@
+// src/app/api/investigations/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { isBuildingScoped } from "@/lib/roles";
+import {
+  INVESTIGATIONS_TABLE,
+  INVESTIGATION_SOURCES,
+  fetchInvestigations,
+  investigationSourceDetails,
+  mapInvestigationRow,
+  parseInvestigationCreateInput,
+  summarizeInvestigations,
+  summarizeOpenCapas,
+  type InvestigationRow,
+} from "@/lib/domain";
+import { nyISODate } from "@/lib/time";
+
+// GET /api/investigations?building=DC1
+// Returns { investigations, capas }: every investigation (newest first) with
+// its action counts, and open corrective actions per building. Building
+// Managers only see their own building.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const building = isBuildingScoped(auth.user.accessRole) ? auth.user.building ?? "" : params.get("building") || null;
+
+    const { data, error } = await fetchInvestigations(supabaseAdmin, building);
+    if (error) {
+      console.error("Error loading investigations", error);
+      return NextResponse.json({ error: "Failed to load investigations" }, { status: 500 });
+    }
+
+    const today = nyISODate();
+    return NextResponse.json({
+      investigations: summarizeInvestigations(data.investigations, data.actions, today),
+      capas: summarizeOpenCapas(data.actions, today),
+    });
+  } catch (error) {
+    console.error("Investigations GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/investigations
+// Body: { source_type, source_id, title? }. Opens the investigation for an
+// injury report, damage report, hazard / near-miss report or readiness report
+// with a near miss / hazard.
+// One per source: 409 with { id } of the existing one.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseInvestigationCreateInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const { source_type: type, source_id: sourceId } = parsed.value;
+
+    const source = await supabaseAdmin.from(INVESTIGATION_SOURCES[type].table).select("*").eq("id", sourceId).maybeSingle();
+    if (source.error) {
+      console.error("Error loading investigation source", source.error);
+      return NextResponse.json({ error: "Failed to open investigation" }, { status: 500 });
+    }
+    const row = source.data as Record<string, unknown> | null;
+    if (!row || !canAccessBuilding(auth.user, typeof row.building === "string" ? row.building : null)) {
+      return NextResponse.json({ error: `${INVESTIGATION_SOURCES[type].label} not found` }, { status: 404 });
+    }
+
+    const details = investigationSourceDetails(type, row);
+    if (!details.ok) return NextResponse.json({ error: details.error }, { status: 400 });
+
+    const existing = await supabaseAdmin
+      .from(INVESTIGATIONS_TABLE)
+      .select("id")
+      .eq("source_type", type)
+      .eq("source_id", sourceId)
+      .maybeSingle();
+    if (existing.error) {
+      console.error("Error checking for an existing investigation", existing.error);
+      return NextResponse.json({ error: "Failed to open investigation" }, { status: 500 });
+    }
+    if (existing.data) {
+      return NextResponse.json(
+        { error: "This record already has an investigation", id: String((existing.data as { id: string }).id) },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(INVESTIGATIONS_TABLE)
+      .insert({
+        source_type: type,
+        source_id: sourceId,
+        building: details.value.building,
+        source_label: details.value.label,
+        incident_date: details.value.incidentDate,
+        title: parsed.value.title ?? details.value.label,
+        created_by_email: auth.user.email,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Create investigation error:", error);
+      return NextResponse.json({ error: "Failed to open investigation" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapInvestigationRow(data as InvestigationRow), { status: 201 });
+  } catch (error) {
+    console.error("Investigations POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
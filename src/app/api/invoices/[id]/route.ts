@@ -0,0 +1,118 @@
+// src/app/api/invoices/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { fetchInvoice, INVOICES_TABLE, isInvoiceAction, nextInvoiceStatus } from "@/lib/invoicing";
+
+type Context = { params: Promise<{ id: string }> };
+
+// GET /api/invoices/:id
+// Returns { invoice, lines }.
+export async function GET(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "invoices.read");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const { data, error } = await fetchInvoice(supabaseAdmin, id);
+
+    if (error) {
+      console.error("Error loading invoice", error);
+      return NextResponse.json({ error: "Failed to load invoice" }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Get invoice error:", error);
+    return NextResponse.json({ error: "Failed to load invoice" }, { status: 500 });
+  }
+}
+
+// PATCH /api/invoices/:id
+// Body: { action: "send" | "markPaid" }
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "invoices.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const body = (await request.json().catch(() => null)) as { action?: unknown } | null;
+    const action = body?.action;
+    if (!isInvoiceAction(action)) {
+      return NextResponse.json({ error: "Unknown invoice action" }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const existing = await fetchInvoice(supabaseAdmin, id);
+    if (existing.error) {
+      console.error("Error loading invoice for update", existing.error);
+      return NextResponse.json({ error: "Failed to update invoice" }, { status: 500 });
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    const { invoice } = existing.data;
+    const next = nextInvoiceStatus(invoice.status, action);
+    if (!next.ok) {
+      return NextResponse.json({ error: next.error }, { status: 409 });
+    }
+
+    const now = new Date().toISOString();
+    const stamp =
+      action === "send" ? { sent_at: now, sent_by_email: user.email } : { paid_at: now, paid_by_email: user.email };
+
+    const { error } = await supabaseAdminAs(user)
+      .from(INVOICES_TABLE)
+      .update({ status: next.status, ...stamp })
+      .eq("id", id)
+      .eq("status", invoice.status); // don't clobber a concurrent change
+
+    if (error) {
+      console.error("Update invoice error:", error);
+      return NextResponse.json({ error: "Failed to update invoice" }, { status: 500 });
+    }
+
+    const updated = await fetchInvoice(supabaseAdmin, id);
+    return NextResponse.json(updated.data);
+  } catch (error) {
+    console.error("Update invoice error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/invoices/:id
+// Drafts only; their containers become billable again.
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "invoices.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const existing = await fetchInvoice(supabaseAdmin, id);
+    if (existing.error) {
+      console.error("Error loading invoice for delete", existing.error);
+      return NextResponse.json({ error: "Failed to delete invoice" }, { status: 500 });
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+    if (existing.data.invoice.status !== "Draft") {
+      return NextResponse.json({ error: "Only Draft invoices can be deleted" }, { status: 409 });
+    }
+
+    const { error } = await supabaseAdminAs(auth.user).from(INVOICES_TABLE).delete().eq("id", id).eq("status", "Draft");
+    if (error) {
+      console.error("Delete invoice error:", error);
+      return NextResponse.json({ error: "Failed to delete invoice" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Delete invoice error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,185 @@
+// src/app/api/invoices/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { isYMD } from "@/lib/time";
+import { fetchAllContainers } from "@/lib/domain/containers";
+import { fetchCustomer } from "@/lib/domain/customers";
+import { fetchWorkOrders } from "@/lib/domain/workOrders";
+import {
+  buildInvoiceLines,
+  fetchBilledContainerIds,
+  fetchInvoices,
+  fetchRateCards,
+  INVOICE_LINES_TABLE,
+  INVOICES_TABLE,
+  invoiceLineToRow,
+  mapInvoiceRow,
+  rateCardAllowedFor,
+  rateCardForCustomer,
+  rateCardTerms,
+  summarizeInvoiceLines,
+  type InvoiceRow,
+} from "@/lib/invoicing";
+
+// GET /api/invoices
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "invoices.read");
+    if (!auth.ok) return auth.response;
+
+    const { data, error } = await fetchInvoices(supabaseAdmin);
+    if (error) {
+      console.error("Error loading invoices", error);
+      return NextResponse.json({ error: "Failed to load invoices" }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Get invoices error:", error);
+    return NextResponse.json({ error: "Failed to load invoices" }, { status: 500 });
+  }
+}
+
+// POST /api/invoices
+// Body: { customerId, building?, from, to, rateCardId?, notes? }
+// Bills every not-yet-invoiced container on the customer's work orders for the building(s) in the
+// range. Without rateCardId the customer's default rate card is used, then the most specific active
+// rate card for the customer/building. A rateCardId must be active and for any customer or this one.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "invoices.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+    const customerId = str(body?.customerId);
+    const building = str(body?.building) || null;
+    const from = str(body?.from);
+    const to = str(body?.to);
+    const rateCardId = str(body?.rateCardId) || null;
+
+    if (!customerId) return NextResponse.json({ error: "customerId is required" }, { status: 400 });
+    if (!isYMD(from) || !isYMD(to) || to < from) {
+      return NextResponse.json({ error: "from/to must be YYYY-MM-DD with to on or after from" }, { status: 400 });
+    }
+
+    const customer = await fetchCustomer(supabaseAdmin, customerId);
+    if (customer.error) {
+      console.error("Error loading customer for invoice", customer.error);
+      return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 });
+    }
+    if (!customer.data) return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    const customerName = customer.data.name;
+
+    const cards = await fetchRateCards(supabaseAdmin);
+    if (cards.error) {
+      console.error("Error loading rate cards", cards.error);
+      return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 });
+    }
+    const card = rateCardId
+      ? cards.data.find((c) => c.id === rateCardId) ?? null
+      : rateCardForCustomer(cards.data, customer.data, building);
+    if (rateCardId && (!card || !rateCardAllowedFor(card, customerId))) {
+      return NextResponse.json(
+        { error: `That rate card can't bill ${customerName}: it is retired or for another customer.` },
+        { status: 400 }
+      );
+    }
+    if (!card) {
+      return NextResponse.json({ error: `No rate card applies to ${customerName}. Add one first.` }, { status: 400 });
+    }
+
+    const workOrders = await fetchWorkOrders(supabaseAdmin, { building, customerId });
+    if (workOrders.error) {
+      console.error("Error loading customer work orders for invoice", workOrders.error);
+      return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 });
+    }
+    const workOrderIds = new Set(workOrders.data.map((wo) => wo.id));
+
+    const containers = await fetchAllContainers(supabaseAdmin, { building, from, to });
+    if (containers.error) {
+      console.error("Error loading containers for invoice", containers.error);
+      return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 });
+    }
+
+    // Only this customer's containers can be billed here
+    const customerContainers = containers.data.filter((c) => !!c.work_order_id && workOrderIds.has(c.work_order_id));
+    const billed = await fetchBilledContainerIds(
+      supabaseAdmin,
+      customerContainers.map((c) => c.id)
+    );
+    if (billed.error) {
+      console.error("Error checking billed containers", billed.error);
+      return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 });
+    }
+
+    const terms = rateCardTerms(card);
+    const lines = buildInvoiceLines(customerContainers, terms, {
+      from,
+      to,
+      billedContainerIds: billed.data,
+      workOrderIds,
+    });
+    if (lines.length === 0) {
+      return NextResponse.json(
+        {
+          error: `No unbilled ${customerName} containers in that range. Containers are billed once, and only from work orders assigned to the customer.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const totals = summarizeInvoiceLines(lines);
+
+    const { data, error } = await supabaseAdminAs(user)
+      .from(INVOICES_TABLE)
+      .insert({
+        customer_id: customerId,
+        customer: customerName,
+        building,
+        period_start: from,
+        period_end: to,
+        status: "Draft",
+        rate_card_id: card.id,
+        rate_card: { name: card.name, ...terms },
+        container_count: totals.containerCount,
+        subtotal: totals.subtotal,
+        credits: totals.credits,
+        total: totals.total,
+        notes: str(body?.notes) || null,
+        created_by_email: user.email,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create invoice error:", error);
+      return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 });
+    }
+
+    const invoice = mapInvoiceRow(data as InvoiceRow);
+
+    const ins = await supabaseAdmin.from(INVOICE_LINES_TABLE).insert(lines.map((l) => invoiceLineToRow(invoice.id, l)));
+    if (ins.error) {
+      // Don't leave an empty invoice behind
+      await supabaseAdminAs(user).from(INVOICES_TABLE).delete().eq("id", invoice.id);
+
+      if ((ins.error as { code?: string }).code === "23505") {
+        return NextResponse.json(
+          { error: "Some of these containers were just billed on another invoice. Try again." },
+          { status: 409 }
+        );
+      }
+      console.error("Create invoice lines error:", ins.error);
+      return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 });
+    }
+
+    return NextResponse.json(invoice, { status: 201 });
+  } catch (error) {
+    console.error("Create invoice error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+// src/app/api/messages/retry/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { isCronRequest } from "@/lib/authz";
+import { retryDueMessageDeliveries } from "@/lib/messaging";
+
+// GET /api/messages/retry (the scheduled job, authorized by CRON_SECRET)
+// Retries pending deliveries whose backoff has passed. vercel.json runs it
+// every minute so the first retries (DELIVERY_RETRY_MINUTES) go out on time.
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+
+    const { data, error } = await retryDueMessageDeliveries(supabaseAdmin);
+    if (error) {
+      console.error("Message retry error:", error);
+      return NextResponse.json({ error: "Failed to retry messages" }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Message retry error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+// src/app/api/messages/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { fetchMessageDeliveries, type MessageDeliveryStatus } from "@/lib/domain";
+
+const STATUSES: readonly MessageDeliveryStatus[] = ["pending", "sent", "failed"];
+
+// GET /api/messages?status=&source_table=&source_id=
+// Outbound email / SMS / WhatsApp delivery log, newest first.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "messages.read");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const status = params.get("status");
+    if (status && !STATUSES.includes(status as MessageDeliveryStatus)) {
+      return NextResponse.json({ error: `status must be one of: ${STATUSES.join(", ")}` }, { status: 400 });
+    }
+
+    const { data, error } = await fetchMessageDeliveries(supabaseAdmin, {
+      status: status as MessageDeliveryStatus | null,
+      sourceTable: params.get("source_table"),
+      sourceId: params.get("source_id"),
+    });
+
+    if (error) {
+      console.error("Error loading message deliveries", error);
+      return NextResponse.json({ error: "Failed to load message log" }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Get message deliveries error:", error);
+    return NextResponse.json({ error: "Failed to load message log" }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+// src/app/api/minutes-reconciliation/corrections/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { loadPayScales } from "@/lib/payScale";
+import { containerRowToInput, priceContainer } from "@/lib/containerPricing";
+import { CONTAINERS_TABLE, containerDateNY, fetchContainer, fetchWorkOrderCustomerId } from "@/lib/domain";
+import {
+  MINUTE_CORRECTIONS_TABLE,
+  applyMinuteCorrection,
+  mapMinuteCorrectionRow,
+  parseMinuteCorrectionInput,
+  type MinuteCorrectionRow,
+} from "@/lib/minutesReconciliation";
+import { payrollLockError } from "@/lib/payroll";
+
+// POST /api/minutes-reconciliation/corrections
+// Body: { container_id, worker_key, expected_minutes, minutes, reason }
+// Sets one worker's minutes on a container and logs the change. Refused (409) once
+// the container's payroll week is approved, or when the minutes changed meanwhile.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "minutes.reconcile");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const parsed = parseMinuteCorrectionInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const correction = parsed.value;
+
+    const existing = await fetchContainer(supabaseAdmin, correction.containerId);
+    if (existing.error) {
+      console.error("Error loading container for minutes correction", existing.error);
+      return NextResponse.json({ error: "Failed to correct minutes" }, { status: 500 });
+    }
+    const container = existing.data;
+    if (!container || !canAccessBuilding(user, container.building)) {
+      return NextResponse.json({ error: "Container not found" }, { status: 404 });
+    }
+
+    const workDate = containerDateNY(container);
+    const locked = await payrollLockError(supabaseAdmin, [workDate]);
+    if (locked) return NextResponse.json({ error: locked.error }, { status: locked.status });
+
+    const applied = applyMinuteCorrection(containerRowToInput(container), correction);
+    if (!applied.ok) return NextResponse.json({ error: applied.error }, { status: 409 });
+
+    const customer = await fetchWorkOrderCustomerId(supabaseAdmin, applied.value.workOrderId);
+    if (customer.error) {
+      console.error("Error loading work order customer for minutes correction", customer.error);
+      return NextResponse.json({ error: "Failed to correct minutes" }, { status: 500 });
+    }
+
+    const schedules = await loadPayScales(supabaseAdmin);
+    if (schedules.error) {
+      console.error("Error loading pay scales for minutes correction", schedules.error);
+      return NextResponse.json({ error: "Failed to correct minutes" }, { status: 500 });
+    }
+
+    // Log first, so a change never lands without its trail
+    const logged = await supabaseAdmin
+      .from(MINUTE_CORRECTIONS_TABLE)
+      .insert({
+        created_by_email: user.email,
+        container_id: container.id,
+        container_no: container.container_no,
+        work_date: workDate,
+        building: container.building,
+        worker_key: correction.workerKey,
+        worker_name: applied.worker.name,
+        workforce_id: applied.worker.workforceId,
+        old_minutes: applied.worker.oldMinutes,
+        new_minutes: correction.minutes,
+        reason: correction.reason,
+      })
+      .select("*")
+      .single();
+    if (logged.error || !logged.data) {
+      console.error("Log minutes correction error:", logged.error);
+      return NextResponse.json({ error: "Failed to correct minutes" }, { status: 500 });
+    }
+    const entry = mapMinuteCorrectionRow(logged.data as MinuteCorrectionRow);
+
+    const { error } = await supabaseAdminAs(user)
+      .from(CONTAINERS_TABLE)
+      .update(priceContainer(applied.value, schedules.data, customer.data))
+      .eq("id", container.id);
+
+    if (error) {
+      console.error("Update container minutes error:", error);
+      await supabaseAdmin.from(MINUTE_CORRECTIONS_TABLE).delete().eq("id", entry.id);
+      return NextResponse.json({ error: "Failed to correct minutes" }, { status: 500 });
+    }
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    console.error("Correct minutes error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/minutes-reconciliation/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { isBuildingScoped } from "@/lib/roles";
+import { fetchAllContainers, fetchTimePunches } from "@/lib/domain";
+import { buildMinutesReconciliation, fetchMinuteCorrections } from "@/lib/minutesReconciliation";
+import { LOCKED_PAYROLL_STATUSES, fetchPayrollPeriods, lockingPeriodFor } from "@/lib/payroll";
+import { addDaysYMD, isYMD } from "@/lib/time";
+
+// Longest range one report covers (a payroll week is 7 days)
+const MAX_RANGE_DAYS = 31;
+
+// GET /api/minutes-reconciliation?from=YYYY-MM-DD&to=YYYY-MM-DD[&building=DC1]
+// Returns { rows, corrections, lockedDates }: container minutes vs punched time per
+// worker per day, the correction log, and dates already in approved payroll.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "minutes.reconcile");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const params = new URL(request.url).searchParams;
+    const from = params.get("from") ?? "";
+    const to = params.get("to") ?? "";
+    if (!isYMD(from) || !isYMD(to) || to < from) {
+      return NextResponse.json({ error: "from and to are required as YYYY-MM-DD" }, { status: 400 });
+    }
+    if (addDaysYMD(from, MAX_RANGE_DAYS) < to) {
+      return NextResponse.json({ error: `Ask for at most ${MAX_RANGE_DAYS} days at a time` }, { status: 400 });
+    }
+
+    // Building Managers reconcile their own building
+    const building = isBuildingScoped(user.accessRole) ? user.building : params.get("building") || null;
+    const filters = { building, from, to };
+
+    const [containers, punches, corrections, periods] = await Promise.all([
+      fetchAllContainers(supabaseAdmin, filters),
+      fetchTimePunches(supabaseAdmin, filters),
+      fetchMinuteCorrections(supabaseAdmin, filters),
+      fetchPayrollPeriods(supabaseAdmin, { statuses: LOCKED_PAYROLL_STATUSES }),
+    ]);
+
+    const error = containers.error || punches.error || corrections.error || periods.error;
+    if (error) {
+      console.error("Error loading minutes reconciliation", error);
+      return NextResponse.json({ error: "Failed to load reconciliation" }, { status: 500 });
+    }
+
+    const lockedDates: string[] = [];
+    for (let d = from; d <= to; d = addDaysYMD(d, 1)) {
+      if (lockingPeriodFor(periods.data, d)) lockedDates.push(d);
+    }
+
+    return NextResponse.json({
+      rows: buildMinutesReconciliation(containers.data, punches.data),
+      corrections: corrections.data,
+      lockedDates,
+    });
+  } catch (error) {
+    console.error("Get minutes reconciliation error:", error);
+    return NextResponse.json({ error: "Failed to load reconciliation" }, { status: 500 });
+  }
+}
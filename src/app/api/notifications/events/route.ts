@@ -0,0 +1,77 @@
+// src/app/api/notifications/events/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { raiseBuildingNotifications, type BuildingNotificationEvent } from "@/lib/domain";
+import {
+  HIRING_PIPELINE_TABLE,
+  hiringStageEvent,
+  INJURY_REPORTS_TABLE,
+  injurySubmittedEvent,
+  parseClientNotificationEvent,
+  TRAINING_RECORDS_TABLE,
+  trainingOverdueEvent,
+  type HiringCandidateSummary,
+  type InjuryReportSummary,
+  type TrainingRecordSummary,
+} from "@/lib/notificationEvents";
+
+const SOURCE_TABLES = {
+  "injury.submitted": INJURY_REPORTS_TABLE,
+  "training.overdue": TRAINING_RECORDS_TABLE,
+  "hiring.stage_changed": HIRING_PIPELINE_TABLE,
+} as const;
+
+// POST /api/notifications/events
+// Body: { type, id, from? } — sent by pages that write injury reports, training
+// records and candidates directly. The row is re-read here and must already be
+// in the state the event describes (Submitted, Overdue, moved away from `from`).
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const parsed = parseClientNotificationEvent(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const { type, id, from } = parsed.value;
+
+    const existing = await supabaseAdmin.from(SOURCE_TABLES[type]).select("*").eq("id", id).maybeSingle();
+    if (existing.error) {
+      console.error("Error loading row for notification", existing.error);
+      return NextResponse.json({ error: "Failed to send notification" }, { status: 500 });
+    }
+
+    const row = existing.data as { building: string | null } | null;
+    if (!row || !canAccessBuilding(user, row.building)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    let event: BuildingNotificationEvent | null = null;
+    if (type === "injury.submitted") {
+      const report = existing.data as InjuryReportSummary;
+      if (report.status === "Submitted") event = injurySubmittedEvent(report, user.email);
+    } else if (type === "training.overdue") {
+      const record = existing.data as TrainingRecordSummary;
+      if (record.status === "Overdue") event = trainingOverdueEvent(record, user.email);
+    } else {
+      const candidate = existing.data as HiringCandidateSummary;
+      if (from && (candidate.stage || "Applied") !== from) event = hiringStageEvent(candidate, from, user.email);
+    }
+
+    if (!event) {
+      return NextResponse.json({ error: "Nothing to notify about in the row's current state" }, { status: 409 });
+    }
+
+    const { count, error } = await raiseBuildingNotifications(supabaseAdmin, [event]);
+    if (error) {
+      console.error("Raise notification error:", error);
+      return NextResponse.json({ error: "Failed to send notification" }, { status: 500 });
+    }
+
+    return NextResponse.json({ notified: count });
+  } catch (error) {
+    console.error("Raise notification error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
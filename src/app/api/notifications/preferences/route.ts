@@ -0,0 +1,64 @@
+// src/app/api/notifications/preferences/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  fetchNotificationPreferences,
+  NOTIFICATION_PREFERENCES_TABLE,
+  parseNotificationPreferences,
+} from "@/lib/domain";
+
+// GET /api/notifications/preferences
+// The caller's preferences (defaults when they never saved any).
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const prefs = await fetchNotificationPreferences(supabaseAdmin, [user.email]);
+    if (prefs.error) {
+      console.error("Error loading notification preferences", prefs.error);
+      return NextResponse.json({ error: "Failed to load notification preferences" }, { status: 500 });
+    }
+
+    return NextResponse.json(prefs.data.get(user.email) ?? DEFAULT_NOTIFICATION_PREFERENCES);
+  } catch (error) {
+    console.error("Get notification preferences error:", error);
+    return NextResponse.json({ error: "Failed to load notification preferences" }, { status: 500 });
+  }
+}
+
+// PUT /api/notifications/preferences
+// Body: { mutedTypes: [...], buildings: [...] } — buildings empty = every building.
+export async function PUT(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const parsed = parseNotificationPreferences(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const { error } = await supabaseAdmin.from(NOTIFICATION_PREFERENCES_TABLE).upsert(
+      {
+        user_email: user.email,
+        muted_types: parsed.value.mutedTypes,
+        buildings: parsed.value.buildings,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_email" }
+    );
+
+    if (error) {
+      console.error("Save notification preferences error:", error);
+      return NextResponse.json({ error: "Failed to save notification preferences" }, { status: 500 });
+    }
+
+    return NextResponse.json(parsed.value);
+  } catch (error) {
+    console.error("Save notification preferences error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+// src/app/api/notifications/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import {
+  mapNotificationRow,
+  NOTIFICATION_INBOX_LIMIT,
+  NOTIFICATIONS_TABLE,
+  type NotificationRow,
+} from "@/lib/domain";
+
+// GET /api/notifications
+// The caller's newest notifications and how many are unread.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const [list, unread] = await Promise.all([
+      supabaseAdmin
+        .from(NOTIFICATIONS_TABLE)
+        .select("*")
+        .eq("user_email", user.email)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_INBOX_LIMIT),
+      supabaseAdmin
+        .from(NOTIFICATIONS_TABLE)
+        .select("id", { count: "exact", head: true })
+        .eq("user_email", user.email)
+        .is("read_at", null),
+    ]);
+
+    if (list.error || unread.error) {
+      console.error("Error loading notifications", list.error || unread.error);
+      return NextResponse.json({ error: "Failed to load notifications" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      notifications: ((list.data || []) as NotificationRow[]).map(mapNotificationRow),
+      unread: unread.count ?? 0,
+    });
+  } catch (error) {
+    console.error("Get notifications error:", error);
+    return NextResponse.json({ error: "Failed to load notifications" }, { status: 500 });
+  }
+}
+
+// PATCH /api/notifications
+// Body: { ids: [...] } marks those read; { all: true } marks everything read.
+export async function PATCH(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const body = (await request.json().catch(() => null)) as { ids?: unknown; all?: unknown } | null;
+    const ids = Array.isArray(body?.ids) ? body.ids.filter((id): id is string => typeof id === "string" && !!id) : [];
+    if (body?.all !== true && ids.length === 0) {
+      return NextResponse.json({ error: "Pass ids or all: true" }, { status: 400 });
+    }
+
+    let query = supabaseAdmin
+      .from(NOTIFICATIONS_TABLE)
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_email", user.email)
+      .is("read_at", null);
+    if (body?.all !== true) query = query.in("id", ids);
+
+    const { error } = await query;
+    if (error) {
+      console.error("Mark notifications read error:", error);
+      return NextResponse.json({ error: "Failed to update notifications" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Mark notifications read error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+// src/app/api/notifications/sweep/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, isCronRequest } from "@/lib/authz";
+import { raiseBuildingNotifications, STARTUP_CHECKLISTS_TABLE, type StartupChecklistRow } from "@/lib/domain";
+import {
+  checklistUnfinishedEvent,
+  SWEEP_LOOKBACK_DAYS,
+  TRAINING_RECORDS_TABLE,
+  trainingOverdueEvent,
+  trainingRecordsGoingOverdue,
+  unfinishedStartupChecklists,
+  type TrainingRecordSummary,
+} from "@/lib/notificationEvents";
+import { addDaysYMD, nyISODate } from "@/lib/time";
+
+// Marks training past its due date Overdue and notifies about it and about
+// startup checklists left open. Overdue corrective actions are escalated by
+// /api/investigations/escalate, failed messages retried by /api/messages/retry.
+// vercel.json runs it every 15 minutes; dedupe keys make repeats harmless.
+async function sweep(): Promise<NextResponse> {
+  const today = nyISODate();
+  const since = addDaysYMD(today, -SWEEP_LOOKBACK_DAYS);
+
+  const [training, checklists] = await Promise.all([
+    supabaseAdmin
+      .from(TRAINING_RECORDS_TABLE)
+      .select("id, building, role, module_name, assignee_name, status, due_date")
+      .lt("due_date", today)
+      .or("status.is.null,status.not.in.(Completed,Overdue)"),
+    supabaseAdmin
+      .from(STARTUP_CHECKLISTS_TABLE)
+      .select("*")
+      .is("completed_at", null)
+      .gte("date", since),
+  ]);
+
+  if (training.error || checklists.error) {
+    console.error("Error loading rows for notification sweep", training.error || checklists.error);
+    return NextResponse.json({ error: "Failed to run notification sweep" }, { status: 500 });
+  }
+
+  const overdue = trainingRecordsGoingOverdue((training.data || []) as TrainingRecordSummary[], today);
+  if (overdue.length > 0) {
+    const { error } = await supabaseAdmin
+      .from(TRAINING_RECORDS_TABLE)
+      .update({ status: "Overdue" })
+      .in("id", overdue.map((r) => r.id));
+    if (error) {
+      console.error("Mark training overdue error:", error);
+      return NextResponse.json({ error: "Failed to run notification sweep" }, { status: 500 });
+    }
+  }
+
+  const unfinished = unfinishedStartupChecklists((checklists.data || []) as StartupChecklistRow[]);
+
+  const raised = await raiseBuildingNotifications(supabaseAdmin, [
+    ...overdue.map((r) => trainingOverdueEvent({ ...r, status: "Overdue" }, null)),
+    ...unfinished.map(checklistUnfinishedEvent),
+  ]);
+  if (raised.error) {
+    console.error("Notification sweep error:", raised.error);
+    return NextResponse.json({ error: "Failed to run notification sweep" }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    overdue: overdue.length,
+    unfinished: unfinished.length,
+    notified: raised.count,
+  });
+}
+
+// GET /api/notifications/sweep (the scheduled job, authorized by CRON_SECRET)
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+    return await sweep();
+  } catch (error) {
+    console.error("Notification sweep error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/notifications/sweep (run it now, without waiting for the schedule)
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "notifications.sweep");
+    if (!auth.ok) return auth.response;
+    return await sweep();
+  } catch (error) {
+    console.error("Notification sweep error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
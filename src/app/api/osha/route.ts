@@ -0,0 +1,51 @@
+// src/app/api/osha/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { buildOsha300ASummary, buildOshaLog, fetchOshaReports } from "@/lib/osha";
+
+function optionalCount(raw: string | null): number | null | undefined {
+  if (raw === null || raw.trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+// GET /api/osha?building=DC1&year=2026[&employees=..&hours=..]
+// The establishment's OSHA 300 log, 300A summary and 301 incident detail for the
+// year. employees / hours (annual average headcount, total hours worked) go on
+// the 300A as entered.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "safety.manage");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const building = params.get("building") ?? "";
+    const year = Number(params.get("year"));
+    const averageEmployees = optionalCount(params.get("employees"));
+    const hoursWorked = optionalCount(params.get("hours"));
+
+    if (!building || !Number.isInteger(year) || year < 2000 || year > 2100) {
+      return NextResponse.json({ error: "building and year are required" }, { status: 400 });
+    }
+    if (averageEmployees === undefined || hoursWorked === undefined) {
+      return NextResponse.json({ error: "employees and hours must be numbers, 0 or more" }, { status: 400 });
+    }
+    if (!canAccessBuilding(auth.user, building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { data, error } = await fetchOshaReports(supabaseAdmin, building, year);
+    if (error) {
+      console.error("Error loading injury reports for OSHA log", error);
+      return NextResponse.json({ error: "Failed to build OSHA log" }, { status: 500 });
+    }
+
+    const log = buildOshaLog(data, building, year);
+    const summary = buildOsha300ASummary(log.cases, { building, year, averageEmployees, hoursWorked });
+    return NextResponse.json({ ...log, summary });
+  } catch (error) {
+    console.error("Get OSHA log error:", error);
+    return NextResponse.json({ error: "Failed to build OSHA log" }, { status: 500 });
+  }
+}
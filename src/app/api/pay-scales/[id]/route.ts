@@ -0,0 +1,104 @@
+// src/app/api/pay-scales/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { fetchCustomer } from "@/lib/domain";
+import { nyISODate } from "@/lib/time";
+import {
+  isPayScaleLocked,
+  mapPayScaleRow,
+  parsePayScaleInput,
+  PAY_SCALES_TABLE,
+  payScaleEndError,
+  payScaleStartError,
+  payScaleToRow,
+  type PayScaleRow,
+} from "@/lib/payScale";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PATCH /api/pay-scales/:id
+// Body: full schedule (same shape as POST) to edit a schedule that hasn't
+// started, { effectiveTo } to end one, or { active: false } to drop one that
+// hasn't started. Schedules already in effect only take an end date.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "payscales.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+
+    const existing = await supabaseAdmin.from(PAY_SCALES_TABLE).select("*").eq("id", id).maybeSingle();
+    if (existing.error) {
+      console.error("Error loading pay scale", existing.error);
+      return NextResponse.json({ error: "Failed to update pay scale" }, { status: 500 });
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Pay scale not found" }, { status: 404 });
+    }
+
+    const current = mapPayScaleRow(existing.data as PayScaleRow);
+    const today = nyISODate();
+    const locked = isPayScaleLocked(current, today);
+    const only = body && Object.keys(body).length === 1 ? Object.keys(body)[0] : null;
+
+    let update: Record<string, unknown>;
+    if (only === "effectiveTo") {
+      const endOn = typeof body?.effectiveTo === "string" ? body.effectiveTo.trim() : "";
+      const endError = payScaleEndError(current, endOn, today);
+      if (endError) return NextResponse.json({ error: endError }, { status: 400 });
+      update = { effective_to: endOn };
+    } else if (only === "active" && body?.active === false) {
+      if (locked) {
+        return NextResponse.json(
+          { error: "Schedules that are already in effect cannot be deactivated. End them on a date instead." },
+          { status: 409 }
+        );
+      }
+      update = { active: false };
+    } else {
+      if (locked) {
+        return NextResponse.json(
+          { error: "This schedule is already in effect. Create a new schedule instead of editing it." },
+          { status: 409 }
+        );
+      }
+      const parsed = parsePayScaleInput(body);
+      if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+      const startError = payScaleStartError(parsed.value.effectiveFrom, today);
+      if (startError) return NextResponse.json({ error: startError }, { status: 400 });
+
+      if (parsed.value.customerId) {
+        const customer = await fetchCustomer(supabaseAdmin, parsed.value.customerId);
+        if (customer.error) {
+          console.error("Error loading customer for pay scale", customer.error);
+          return NextResponse.json({ error: "Failed to update pay scale" }, { status: 500 });
+        }
+        if (!customer.data) return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+        parsed.value.customer = customer.data.name;
+      }
+      update = payScaleToRow({ id, ...parsed.value });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(PAY_SCALES_TABLE)
+      .update(update)
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update pay scale error:", error);
+      return NextResponse.json({ error: "Failed to update pay scale" }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Pay scale not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(mapPayScaleRow(data as PayScaleRow));
+  } catch (error) {
+    console.error("Update pay scale error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
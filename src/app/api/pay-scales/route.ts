@@ -0,0 +1,57 @@
+// src/app/api/pay-scales/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { fetchCustomer } from "@/lib/domain";
+import { nyISODate } from "@/lib/time";
+import {
+  mapPayScaleRow,
+  parsePayScaleInput,
+  PAY_SCALES_TABLE,
+  payScaleStartError,
+  payScaleToRow,
+  type PayScaleRow,
+} from "@/lib/payScale";
+
+// POST /api/pay-scales
+// Body: { name, effectiveFrom, effectiveTo?, building?, customerId?, tiers,
+//         overagePerPiece, palletizedPay?, skuModifiers? }
+// New schedules start today or later so past pay never changes.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "payscales.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parsePayScaleInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const startError = payScaleStartError(parsed.value.effectiveFrom, nyISODate());
+    if (startError) return NextResponse.json({ error: startError }, { status: 400 });
+
+    if (parsed.value.customerId) {
+      const customer = await fetchCustomer(supabaseAdmin, parsed.value.customerId);
+      if (customer.error) {
+        console.error("Error loading customer for pay scale", customer.error);
+        return NextResponse.json({ error: "Failed to create pay scale" }, { status: 500 });
+      }
+      if (!customer.data) return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+      parsed.value.customer = customer.data.name;
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(PAY_SCALES_TABLE)
+      .insert({ ...payScaleToRow({ id: "", ...parsed.value }), active: true, created_by_email: auth.user.email })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create pay scale error:", error);
+      return NextResponse.json({ error: "Failed to create pay scale" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapPayScaleRow(data as PayScaleRow), { status: 201 });
+  } catch (error) {
+    console.error("Create pay scale error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+// src/app/api/payroll/periods/[id]/adjustments/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { roundMoney } from "@/lib/money";
+import {
+  fetchPayrollPeriod,
+  isPayrollPeriodLocked,
+  mapPayrollAdjustmentRow,
+  PAYROLL_ADJUSTMENTS_TABLE,
+  type PayrollAdjustmentRow,
+} from "@/lib/payroll";
+
+type Context = { params: Promise<{ id: string }> };
+
+// POST /api/payroll/periods/:id/adjustments
+// Body: { workerKey?, workerName, amount, minutes?, containerId?, reason }
+// workerKey picks the snapshot line (and its name); workerName alone is for
+// workers missing from the snapshot.
+// The only way to change pay once a period is Approved/Paid.
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "payroll.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const { id } = await params;
+    const existing = await fetchPayrollPeriod(supabaseAdmin, id);
+    if (existing.error) {
+      console.error("Error loading payroll period for adjustment", existing.error);
+      return NextResponse.json({ error: "Failed to add adjustment" }, { status: 500 });
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Payroll period not found" }, { status: 404 });
+    }
+    if (!isPayrollPeriodLocked(existing.data.period)) {
+      return NextResponse.json(
+        { error: "This period is still open. Fix the containers and refresh the snapshot instead." },
+        { status: 409 }
+      );
+    }
+
+    const b = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    const workerKey = typeof b?.workerKey === "string" && b.workerKey.trim() ? b.workerKey.trim() : null;
+    const line = workerKey ? existing.data.lines.find((l) => l.workerKey === workerKey) : undefined;
+    if (workerKey && !line) {
+      return NextResponse.json({ error: "That worker is not on this period's snapshot" }, { status: 400 });
+    }
+    const workerName = line ? line.workerName : typeof b?.workerName === "string" ? b.workerName.trim() : "";
+    const reason = typeof b?.reason === "string" ? b.reason.trim() : "";
+    const amount = Number(b?.amount);
+    const minutes = b?.minutes === undefined || b?.minutes === "" ? 0 : Number(b?.minutes);
+    const containerId = typeof b?.containerId === "string" && b.containerId.trim() ? b.containerId.trim() : null;
+
+    if (!workerName) return NextResponse.json({ error: "workerName is required" }, { status: 400 });
+    if (!reason) return NextResponse.json({ error: "reason is required" }, { status: 400 });
+    if (!Number.isFinite(amount)) return NextResponse.json({ error: "amount must be a number" }, { status: 400 });
+    if (!Number.isFinite(minutes)) return NextResponse.json({ error: "minutes must be a number" }, { status: 400 });
+    if (amount === 0 && minutes === 0) {
+      return NextResponse.json({ error: "An adjustment needs an amount or minutes" }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdminAs(user)
+      .from(PAYROLL_ADJUSTMENTS_TABLE)
+      .insert({
+        period_id: id,
+        worker_key: workerKey,
+        worker_name: workerName,
+        container_id: containerId,
+        amount: roundMoney(amount),
+        minutes,
+        reason,
+        created_by_email: user.email,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create payroll adjustment error:", error);
+      return NextResponse.json({ error: "Failed to add adjustment" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapPayrollAdjustmentRow(data as PayrollAdjustmentRow), { status: 201 });
+  } catch (error) {
+    console.error("Create payroll adjustment error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,155 @@
+// src/app/api/payroll/periods/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { hasPermission } from "@/lib/roles";
+import {
+  computePayrollLines,
+  fetchPayrollPeriod,
+  isPayrollAction,
+  nextPayrollStatus,
+  PAYROLL_PERIODS_TABLE,
+  payrollLinesMatch,
+  savePayrollSnapshot,
+  type PayrollAction,
+} from "@/lib/payroll";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Approving or paying out needs more than payroll.manage
+const APPROVER_ACTIONS: readonly PayrollAction[] = ["approve", "markPaid"];
+
+// GET /api/payroll/periods/:id
+// Returns { period, lines, adjustments }.
+export async function GET(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "payroll.read");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const { data, error } = await fetchPayrollPeriod(supabaseAdmin, id);
+
+    if (error) {
+      console.error("Error loading payroll period", error);
+      return NextResponse.json({ error: "Failed to load payroll period" }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Payroll period not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Get payroll period error:", error);
+    return NextResponse.json({ error: "Failed to load payroll period" }, { status: 500 });
+  }
+}
+
+// PATCH /api/payroll/periods/:id
+// Body: { action: "refresh" | "review" | "reopen" | "approve" | "markPaid" }
+// - refresh re-snapshots a Draft
+// - review re-snapshots, then moves Draft → Reviewed
+// - approve refuses if containers or punches changed since the reviewed snapshot
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "payroll.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const body = (await request.json().catch(() => null)) as { action?: unknown } | null;
+    const action = body?.action;
+    if (action !== "refresh" && !isPayrollAction(action)) {
+      return NextResponse.json({ error: "Unknown payroll action" }, { status: 400 });
+    }
+    if (isPayrollAction(action) && APPROVER_ACTIONS.includes(action) && !hasPermission(user.accessRole, "payroll.approve")) {
+      return NextResponse.json({ error: "You do not have permission to approve payroll" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const existing = await fetchPayrollPeriod(supabaseAdmin, id);
+    if (existing.error) {
+      console.error("Error loading payroll period for update", existing.error);
+      return NextResponse.json({ error: "Failed to update payroll period" }, { status: 500 });
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Payroll period not found" }, { status: 404 });
+    }
+
+    const { period, lines } = existing.data;
+
+    if (action === "refresh" || action === "review") {
+      if (period.status !== "Draft") {
+        return NextResponse.json({ error: "Only Draft payroll periods can be refreshed" }, { status: 409 });
+      }
+
+      const current = await computePayrollLines(supabaseAdmin, period);
+      if (current.error) {
+        console.error("Error loading containers for payroll snapshot", current.error);
+        return NextResponse.json({ error: "Failed to refresh payroll snapshot" }, { status: 500 });
+      }
+
+      const saved = await savePayrollSnapshot(supabaseAdmin, period.id, current.data);
+      if (saved.error) {
+        console.error("Save payroll snapshot error:", saved.error);
+        return NextResponse.json({ error: "Failed to refresh payroll snapshot" }, { status: 500 });
+      }
+
+      if (action === "refresh") {
+        const refreshed = await fetchPayrollPeriod(supabaseAdmin, id);
+        return NextResponse.json(refreshed.data);
+      }
+    }
+
+    const next = nextPayrollStatus(period.status, action);
+    if (!next.ok) {
+      return NextResponse.json({ error: next.error }, { status: 409 });
+    }
+
+    if (action === "approve") {
+      const current = await computePayrollLines(supabaseAdmin, period);
+      if (current.error) {
+        console.error("Error loading containers for payroll approval", current.error);
+        return NextResponse.json({ error: "Failed to approve payroll period" }, { status: 500 });
+      }
+      if (!payrollLinesMatch(lines, current.data)) {
+        return NextResponse.json(
+          { error: "Containers or time punches changed since this period was reviewed. Send it back to Draft and review again." },
+          { status: 409 }
+        );
+      }
+    }
+
+    const now = new Date().toISOString();
+    const stamp: Record<string, string | null> =
+      action === "review"
+        ? { reviewed_at: now, reviewed_by_email: user.email }
+        : action === "reopen"
+        ? { reviewed_at: null, reviewed_by_email: null }
+        : action === "approve"
+        ? { approved_at: now, approved_by_email: user.email }
+        : { paid_at: now, paid_by_email: user.email };
+
+    const { data: moved, error } = await supabaseAdmin
+      .from(PAYROLL_PERIODS_TABLE)
+      .update({ status: next.status, ...stamp })
+      .eq("id", id)
+      .eq("status", period.status) // don't clobber a concurrent change
+      .select("id");
+
+    if (error) {
+      console.error("Update payroll period error:", error);
+      return NextResponse.json({ error: "Failed to update payroll period" }, { status: 500 });
+    }
+    if (!moved || moved.length === 0) {
+      return NextResponse.json(
+        { error: "This payroll period was changed by someone else. Reload it and try again." },
+        { status: 409 }
+      );
+    }
+
+    const updated = await fetchPayrollPeriod(supabaseAdmin, id);
+    return NextResponse.json(updated.data);
+  } catch (error) {
+    console.error("Update payroll period error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+// src/app/api/payroll/periods/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { isYMD } from "@/lib/time";
+import {
+  computePayrollLines,
+  fetchPayrollPeriods,
+  mapPayrollPeriodRow,
+  PAYROLL_PERIODS_TABLE,
+  payrollWeekFor,
+  savePayrollSnapshot,
+  type PayrollPeriodRow,
+} from "@/lib/payroll";
+
+// GET /api/payroll/periods
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "payroll.read");
+    if (!auth.ok) return auth.response;
+
+    const { data, error } = await fetchPayrollPeriods(supabaseAdmin);
+    if (error) {
+      console.error("Error loading payroll periods", error);
+      return NextResponse.json({ error: "Failed to load payroll periods" }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Get payroll periods error:", error);
+    return NextResponse.json({ error: "Failed to load payroll periods" }, { status: 500 });
+  }
+}
+
+// POST /api/payroll/periods
+// Body: { weekOf: "YYYY-MM-DD" } — any date in the Sun–Sat week. Creates a Draft with a fresh snapshot.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "payroll.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const body = (await request.json().catch(() => null)) as { weekOf?: unknown; notes?: unknown } | null;
+    const weekOf = typeof body?.weekOf === "string" ? body.weekOf.trim() : "";
+    if (!isYMD(weekOf)) {
+      return NextResponse.json({ error: "weekOf must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const { start, end } = payrollWeekFor(weekOf);
+
+    const existing = await supabaseAdmin.from(PAYROLL_PERIODS_TABLE).select("id").eq("period_start", start).limit(1);
+    if (existing.error) {
+      console.error("Error checking payroll period", existing.error);
+      return NextResponse.json({ error: "Failed to create payroll period" }, { status: 500 });
+    }
+    if (existing.data && existing.data.length > 0) {
+      return NextResponse.json({ error: `A payroll period for ${start} – ${end} already exists` }, { status: 409 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(PAYROLL_PERIODS_TABLE)
+      .insert({
+        period_start: start,
+        period_end: end,
+        status: "Draft",
+        notes: typeof body?.notes === "string" ? body.notes.trim() || null : null,
+        created_by_email: user.email,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create payroll period error:", error);
+      return NextResponse.json({ error: "Failed to create payroll period" }, { status: 500 });
+    }
+
+    const period = mapPayrollPeriodRow(data as PayrollPeriodRow);
+
+    const lines = await computePayrollLines(supabaseAdmin, period);
+    if (lines.error) {
+      console.error("Error loading containers for payroll snapshot", lines.error);
+      return NextResponse.json({ error: "Period created, but the snapshot failed. Refresh it." }, { status: 500 });
+    }
+
+    const saved = await savePayrollSnapshot(supabaseAdmin, period.id, lines.data);
+    if (saved.error) {
+      console.error("Save payroll snapshot error:", saved.error);
+      return NextResponse.json({ error: "Period created, but the snapshot failed. Refresh it." }, { status: 500 });
+    }
+
+    return NextResponse.json(period, { status: 201 });
+  } catch (error) {
+    console.error("Create payroll period error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
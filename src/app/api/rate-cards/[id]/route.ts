@@ -0,0 +1,66 @@
+// src/app/api/rate-cards/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { fetchCustomer } from "@/lib/domain";
+import {
+  mapRateCardRow,
+  parseRateCardInput,
+  RATE_CARDS_TABLE,
+  rateCardToRow,
+  type RateCardRow,
+} from "@/lib/invoicing";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PATCH /api/rate-cards/:id
+// Body: full rate card (same shape as POST), or { active: boolean } to retire/restore it.
+// Existing invoices keep the terms they were billed with.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "invoices.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+
+    let update: Record<string, unknown>;
+    if (body && Object.keys(body).length === 1 && typeof body.active === "boolean") {
+      update = { active: body.active };
+    } else {
+      const parsed = parseRateCardInput(body);
+      if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+      if (parsed.value.customerId) {
+        const customer = await fetchCustomer(supabaseAdmin, parsed.value.customerId);
+        if (customer.error) {
+          console.error("Error loading customer for rate card", customer.error);
+          return NextResponse.json({ error: "Failed to update rate card" }, { status: 500 });
+        }
+        if (!customer.data) return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+        parsed.value.customer = customer.data.name;
+      }
+      update = rateCardToRow(parsed.value);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(RATE_CARDS_TABLE)
+      .update(update)
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update rate card error:", error);
+      return NextResponse.json({ error: "Failed to update rate card" }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Rate card not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(mapRateCardRow(data as RateCardRow));
+  } catch (error) {
+    console.error("Update rate card error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
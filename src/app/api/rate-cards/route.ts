@@ -0,0 +1,71 @@
+// src/app/api/rate-cards/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize } from "@/lib/authz";
+import { fetchCustomer } from "@/lib/domain";
+import {
+  fetchRateCards,
+  mapRateCardRow,
+  parseRateCardInput,
+  RATE_CARDS_TABLE,
+  rateCardToRow,
+  type RateCardRow,
+} from "@/lib/invoicing";
+
+// GET /api/rate-cards
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "invoices.read");
+    if (!auth.ok) return auth.response;
+
+    const { data, error } = await fetchRateCards(supabaseAdmin);
+    if (error) {
+      console.error("Error loading rate cards", error);
+      return NextResponse.json({ error: "Failed to load rate cards" }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Get rate cards error:", error);
+    return NextResponse.json({ error: "Failed to load rate cards" }, { status: 500 });
+  }
+}
+
+// POST /api/rate-cards
+// Body: { name, customerId?, building?, perContainer, perPiece, palletizedPerContainer,
+//         damageCreditPerPiece, reworkCreditPerPiece, notes? }
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "invoices.manage");
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseRateCardInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    if (parsed.value.customerId) {
+      const customer = await fetchCustomer(supabaseAdmin, parsed.value.customerId);
+      if (customer.error) {
+        console.error("Error loading customer for rate card", customer.error);
+        return NextResponse.json({ error: "Failed to create rate card" }, { status: 500 });
+      }
+      if (!customer.data) return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+      parsed.value.customer = customer.data.name;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(RATE_CARDS_TABLE)
+      .insert({ ...rateCardToRow(parsed.value), created_by_email: auth.user.email })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create rate card error:", error);
+      return NextResponse.json({ error: "Failed to create rate card" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapRateCardRow(data as RateCardRow), { status: 201 });
+  } catch (error) {
+    console.error("Create rate card error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/schedules/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { SHIFT_ASSIGNMENTS_TABLE, type ShiftAssignmentRow } from "@/lib/domain";
+
+type Context = { params: Promise<{ id: string }> };
+
+// DELETE /api/schedules/:id
+// Takes the person off that shift.
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "schedules.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const existing = await supabaseAdmin.from(SHIFT_ASSIGNMENTS_TABLE).select("*").eq("id", id).maybeSingle();
+    if (existing.error) {
+      console.error("Error loading shift assignment for delete", existing.error);
+      return NextResponse.json({ error: "Failed to remove assignment" }, { status: 500 });
+    }
+
+    const row = existing.data as ShiftAssignmentRow | null;
+    if (!row || !canAccessBuilding(auth.user, row.building)) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdminAs(auth.user).from(SHIFT_ASSIGNMENTS_TABLE).delete().eq("id", id);
+    if (error) {
+      console.error("Delete shift assignment error:", error);
+      return NextResponse.json({ error: "Failed to remove assignment" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Delete shift assignment error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+// src/app/api/schedules/copy/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  SHIFT_ASSIGNMENTS_TABLE,
+  copyWeekAssignments,
+  fetchShiftAssignments,
+  fetchWorkforce,
+  mapShiftAssignmentRow,
+  type ShiftAssignmentRow,
+} from "@/lib/domain";
+import { addDaysYMD, isYMD, weekStartYMD } from "@/lib/time";
+
+// POST /api/schedules/copy
+// Body: { building, week_start, to_week_start? } — copies the building's week onto the
+// next one (or to_week_start). People now on leave, inactive or already booked that
+// day are skipped and listed in `skipped`.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "schedules.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    const building = typeof body?.building === "string" ? body.building.trim() : "";
+    const rawFrom = typeof body?.week_start === "string" ? body.week_start : "";
+    const rawTo = typeof body?.to_week_start === "string" ? body.to_week_start : "";
+    if (!building || !isYMD(rawFrom) || (rawTo && !isYMD(rawTo))) {
+      return NextResponse.json({ error: "building and week_start (YYYY-MM-DD) are required" }, { status: 400 });
+    }
+    if (!canAccessBuilding(user, building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const fromWeek = weekStartYMD(rawFrom);
+    const toWeek = rawTo ? weekStartYMD(rawTo) : addDaysYMD(fromWeek, 7);
+    if (toWeek === fromWeek) {
+      return NextResponse.json({ error: "Pick a different week to copy to" }, { status: 400 });
+    }
+
+    // Target-week bookings in every building count as double-booking
+    const [source, target, workforce] = await Promise.all([
+      fetchShiftAssignments(supabaseAdmin, { building, from: fromWeek, to: addDaysYMD(fromWeek, 6) }),
+      fetchShiftAssignments(supabaseAdmin, { from: toWeek, to: addDaysYMD(toWeek, 6) }),
+      fetchWorkforce(supabaseAdmin),
+    ]);
+    const loadError = source.error || target.error || workforce.error;
+    if (loadError) {
+      console.error("Error loading schedule to copy", loadError);
+      return NextResponse.json({ error: "Failed to copy week" }, { status: 500 });
+    }
+
+    const { toCreate, skipped } = copyWeekAssignments(source.data, toWeek, workforce.data, target.data);
+    const names = new Map(workforce.data.map((w) => [w.id, w.name]));
+
+    let created: ShiftAssignmentRow[] = [];
+    if (toCreate.length > 0) {
+      const { data, error } = await supabaseAdminAs(user)
+        .from(SHIFT_ASSIGNMENTS_TABLE)
+        .insert(
+          toCreate.map((a) => ({ ...a, worker_name: names.get(a.workforce_id) ?? "", created_by_email: user.email }))
+        )
+        .select("*");
+      if (error) {
+        console.error("Copy schedule week error:", error);
+        return NextResponse.json({ error: "Failed to copy week" }, { status: 500 });
+      }
+      created = (data || []) as ShiftAssignmentRow[];
+    }
+
+    return NextResponse.json({
+      weekStart: toWeek,
+      created: created.map(mapShiftAssignmentRow),
+      skipped: skipped.map((s) => ({
+        workerName: s.assignment.workerName,
+        date: s.assignment.date,
+        shift: s.assignment.shift,
+        reason: s.reason,
+      })),
+    });
+  } catch (error) {
+    console.error("Copy schedule week error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+// src/app/api/schedules/publish/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { SCHEDULE_PUBLICATIONS_TABLE, mapSchedulePublicationRow, type SchedulePublicationRow } from "@/lib/domain";
+import { isYMD, weekStartYMD } from "@/lib/time";
+
+function parseWeek(body: Record<string, unknown> | null): { building: string; weekStart: string } | null {
+  const building = typeof body?.building === "string" ? body.building.trim() : "";
+  const date = typeof body?.week_start === "string" ? body.week_start : "";
+  return building && isYMD(date) ? { building, weekStart: weekStartYMD(date) } : null;
+}
+
+// POST /api/schedules/publish
+// Body: { building, week_start } — workers can see the building's roster for that week.
+// Publishing again just updates the time (assignments stay editable after publishing).
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "schedules.manage");
+    if (!auth.ok) return auth.response;
+
+    const week = parseWeek(await request.json().catch(() => null));
+    if (!week) return NextResponse.json({ error: "building and week_start (YYYY-MM-DD) are required" }, { status: 400 });
+    if (!canAccessBuilding(auth.user, week.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(SCHEDULE_PUBLICATIONS_TABLE)
+      .upsert(
+        {
+          building: week.building,
+          week_start: week.weekStart,
+          published_at: new Date().toISOString(),
+          published_by_email: auth.user.email,
+        },
+        { onConflict: "building,week_start" }
+      )
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Publish schedule error:", error);
+      return NextResponse.json({ error: "Failed to publish schedule" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapSchedulePublicationRow(data as SchedulePublicationRow));
+  } catch (error) {
+    console.error("Publish schedule error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/schedules/publish
+// Body: { building, week_start } — hides the week from workers again.
+export async function DELETE(request: Request) {
+  try {
+    const auth = await authorize(request, "schedules.manage");
+    if (!auth.ok) return auth.response;
+
+    const week = parseWeek(await request.json().catch(() => null));
+    if (!week) return NextResponse.json({ error: "building and week_start (YYYY-MM-DD) are required" }, { status: 400 });
+    if (!canAccessBuilding(auth.user, week.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from(SCHEDULE_PUBLICATIONS_TABLE)
+      .delete()
+      .eq("building", week.building)
+      .eq("week_start", week.weekStart);
+
+    if (error) {
+      console.error("Unpublish schedule error:", error);
+      return NextResponse.json({ error: "Failed to unpublish schedule" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Unpublish schedule error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+// src/app/api/schedules/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding, type AuthUser } from "@/lib/authz";
+import { hasPermission } from "@/lib/roles";
+import {
+  SHIFT_ASSIGNMENTS_TABLE,
+  assignmentConflicts,
+  fetchSchedulePublications,
+  fetchShiftAssignments,
+  fetchWorkforce,
+  mapShiftAssignmentRow,
+  parseShiftAssignmentInput,
+  publishedAssignments,
+  type ShiftAssignmentRow,
+} from "@/lib/domain";
+import { addDaysYMD, isYMD, weekStartYMD } from "@/lib/time";
+
+// Longest range GET will return (the staffing page asks for its plans' dates)
+const MAX_RANGE_DAYS = 92;
+
+function scopedBuilding(user: AuthUser, requested: string | null): string | null {
+  if (user.accessRole === "Lead" || user.accessRole === "Building Manager") return user.building;
+  return requested;
+}
+
+// GET /api/schedules?week_start=YYYY-MM-DD&building=DC1   (one week)
+// GET /api/schedules?from=YYYY-MM-DD&to=YYYY-MM-DD         (a date range, all buildings in scope)
+// Schedulers get every assignment plus the building's workforce for picking and
+// conflict checks; everyone else only sees published weeks. `myWorkforceIds`
+// are the caller's own workforce records (matched by email) for "My shifts".
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const params = new URL(request.url).searchParams;
+    const weekStart = params.get("week_start");
+    const from = weekStart ? weekStartYMD(weekStart) : params.get("from") ?? "";
+    const to = weekStart ? addDaysYMD(from, 6) : params.get("to") ?? "";
+    if (!isYMD(from) || !isYMD(to) || to < from) {
+      return NextResponse.json({ error: "Pass week_start, or from and to, as YYYY-MM-DD" }, { status: 400 });
+    }
+    if (addDaysYMD(from, MAX_RANGE_DAYS) < to) {
+      return NextResponse.json({ error: `Ask for at most ${MAX_RANGE_DAYS} days at a time` }, { status: 400 });
+    }
+
+    const building = scopedBuilding(user, params.get("building"));
+    const canManage = hasPermission(user.accessRole, "schedules.manage");
+    const filters = { building, from, to };
+
+    const [assignments, publications, workforce] = await Promise.all([
+      fetchShiftAssignments(supabaseAdmin, filters),
+      fetchSchedulePublications(supabaseAdmin, filters),
+      fetchWorkforce(supabaseAdmin, { building }),
+    ]);
+
+    const error = assignments.error || publications.error || workforce.error;
+    if (error) {
+      console.error("Error loading schedule", error);
+      return NextResponse.json({ error: "Failed to load schedule" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      assignments: canManage ? assignments.data : publishedAssignments(assignments.data, publications.data),
+      publications: publications.data,
+      workforce: canManage ? workforce.data : [],
+      myWorkforceIds: workforce.data.filter((w) => w.email === user.email).map((w) => w.id),
+    });
+  } catch (error) {
+    console.error("Get schedule error:", error);
+    return NextResponse.json({ error: "Failed to load schedule" }, { status: 500 });
+  }
+}
+
+// POST /api/schedules
+// Body: { workforce_id, building, shift, date, role, notes? } → 409 when the person
+// is on leave, inactive, off the roster or already scheduled that day.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "schedules.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const parsed = parseShiftAssignmentInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const { value } = parsed;
+    if (!canAccessBuilding(user, value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    // Booked anywhere that day counts, not just this building
+    const [workforce, sameDay] = await Promise.all([
+      fetchWorkforce(supabaseAdmin),
+      fetchShiftAssignments(supabaseAdmin, { from: value.date, to: value.date }),
+    ]);
+    if (workforce.error || sameDay.error) {
+      console.error("Error checking schedule conflicts", workforce.error || sameDay.error);
+      return NextResponse.json({ error: "Failed to assign shift" }, { status: 500 });
+    }
+
+    const conflicts = assignmentConflicts({ workforceId: value.workforce_id, date: value.date }, workforce.data, sameDay.data);
+    if (conflicts.length > 0) {
+      return NextResponse.json({ error: conflicts.map((c) => c.message).join("; "), conflicts }, { status: 409 });
+    }
+
+    const worker = workforce.data.find((w) => w.id === value.workforce_id);
+    const { data, error } = await supabaseAdminAs(user)
+      .from(SHIFT_ASSIGNMENTS_TABLE)
+      .insert({ ...value, worker_name: worker?.name ?? "", created_by_email: user.email })
+      .select("*")
+      .single();
+
+    if ((error as { code?: string } | null)?.code === "23505") {
+      return NextResponse.json({ error: "That person is already scheduled that day" }, { status: 409 });
+    }
+    if (error || !data) {
+      console.error("Create shift assignment error:", error);
+      return NextResponse.json({ error: "Failed to assign shift" }, { status: 500 });
+    }
+
+    return NextResponse.json(mapShiftAssignmentRow(data as ShiftAssignmentRow), { status: 201 });
+  } catch (error) {
+    console.error("Create shift assignment error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+// src/app/api/signatures/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding, type AuthUser } from "@/lib/authz";
+import {
+  SIGNATURES_TABLE,
+  SIGNED_DOCUMENTS,
+  canReadSignatures,
+  currentSignatures,
+  fetchSignatures,
+  isSignedDocumentType,
+  mapSignatureRow,
+  parseSignatureInput,
+  signableRoles,
+  signatureContentHash,
+  signatureSigningError,
+  type SignatureRow,
+  type SignedDocumentType,
+} from "@/lib/domain";
+
+type DocumentResult =
+  | { ok: true; row: Record<string, unknown>; building: string | null }
+  | { ok: false; response: NextResponse };
+
+// The signed document as stored, if the caller can see its building
+async function loadDocument(user: AuthUser, type: SignedDocumentType, id: string): Promise<DocumentResult> {
+  const { data, error } = await supabaseAdmin.from(SIGNED_DOCUMENTS[type].table).select("*").eq("id", id).maybeSingle();
+  if (error) {
+    console.error("Error loading signed document", error);
+    return { ok: false, response: NextResponse.json({ error: "Failed to load document" }, { status: 500 }) };
+  }
+  const row = data as Record<string, unknown> | null;
+  const building = typeof row?.building === "string" ? row.building : null;
+  if (!row || !canAccessBuilding(user, building)) {
+    return { ok: false, response: NextResponse.json({ error: "Document not found" }, { status: 404 }) };
+  }
+  return { ok: true, row, building };
+}
+
+// GET /api/signatures?document_type=injury_report&document_id=...
+// Returns { signatures, signableRoles }: the latest signature per role, each
+// with `valid` (false once the document was edited after signing), and the
+// roles the caller may sign in. Injury report and termination signatures are
+// only shown to the document's permission holders and the named employee.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("document_type");
+    const id = searchParams.get("document_id")?.trim() || "";
+    if (!isSignedDocumentType(type) || !id) {
+      return NextResponse.json({ error: "document_type and document_id are required" }, { status: 400 });
+    }
+
+    const doc = await loadDocument(auth.user, type, id);
+    if (!doc.ok) return doc.response;
+    if (!canReadSignatures(auth.user, type, doc.row)) {
+      return NextResponse.json({ error: "You do not have permission to view these signatures" }, { status: 403 });
+    }
+
+    const { data, error } = await fetchSignatures(supabaseAdmin, type, id);
+    if (error) {
+      console.error("Error loading signatures", error);
+      return NextResponse.json({ error: "Failed to load signatures" }, { status: 500 });
+    }
+
+    const hash = await signatureContentHash(type, id, doc.row);
+    return NextResponse.json({
+      signatures: currentSignatures(data, hash),
+      signableRoles: signableRoles(auth.user, type, doc.row),
+    });
+  } catch (error) {
+    console.error("Signatures GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/signatures
+// Body: { document_type, document_id, signer_role, signer_name, image_data }.
+// Signs the document as it is stored now. Manager / lead signatures need the
+// document's permission; the employee signs as themselves or witnessed by a
+// permission holder (403 otherwise). Injury reports also get their
+// employee_signed / manager_signed flag set.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+
+    const parsed = parseSignatureInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const { document_type: type, document_id: id, signer_role: role } = parsed.value;
+
+    const doc = await loadDocument(auth.user, type, id);
+    if (!doc.ok) return doc.response;
+    const denied = signatureSigningError(auth.user, type, role, parsed.value.signer_name, doc.row);
+    if (denied) return NextResponse.json({ error: denied }, { status: 403 });
+
+    const contentHash = await signatureContentHash(type, id, doc.row);
+    const { data, error } = await supabaseAdmin
+      .from(SIGNATURES_TABLE)
+      .insert({
+        ...parsed.value,
+        building: doc.building,
+        signed_by_user_id: auth.user.id,
+        signed_by_email: auth.user.email,
+        signed_by_access_role: auth.user.accessRole,
+        content_hash: contentHash,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Save signature error:", error);
+      return NextResponse.json({ error: "Failed to save signature" }, { status: 500 });
+    }
+
+    if (type === "injury_report" && (role === "employee" || role === "manager")) {
+      const flag = await supabaseAdminAs(auth.user)
+        .from(SIGNED_DOCUMENTS.injury_report.table)
+        .update({ [`${role}_signed`]: true })
+        .eq("id", id);
+      if (flag.error) console.error("Error flagging injury report signed", flag.error);
+    }
+
+    return NextResponse.json({ ...mapSignatureRow(data as SignatureRow), valid: true }, { status: 201 });
+  } catch (error) {
+    console.error("Signatures POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
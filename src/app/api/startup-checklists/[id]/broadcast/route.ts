@@ -0,0 +1,102 @@
+// src/app/api/startup-checklists/[id]/broadcast/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  STARTUP_CHECKLISTS_TABLE,
+  fetchWorkforce,
+  shiftBroadcastRecipients,
+  startupChecklistBroadcast,
+  startupChecklistRowToInput,
+  type StartupChecklistRow,
+} from "@/lib/domain";
+import { sendMessage } from "@/lib/messaging";
+
+type Context = { params: Promise<{ id: string }> };
+
+// POST /api/startup-checklists/:id/broadcast
+// Body: { channel?: "whatsapp" | "sms" } (default whatsapp). Sends the report's broadcast
+// summary and daily focus to opted-in workers on that building and shift, then checks off
+// "WhatsApp broadcast sent". Anyone already sent this report's broadcast is skipped.
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const body = (await request.json().catch(() => ({}))) as { channel?: unknown } | null;
+    const channel = body?.channel ?? "whatsapp";
+    if (channel !== "whatsapp" && channel !== "sms") {
+      return NextResponse.json({ error: "channel must be whatsapp or sms" }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const existing = await supabaseAdmin.from(STARTUP_CHECKLISTS_TABLE).select("*").eq("id", id).maybeSingle();
+    if (existing.error) {
+      console.error("Error loading startup checklist for broadcast", existing.error);
+      return NextResponse.json({ error: "Failed to send broadcast" }, { status: 500 });
+    }
+
+    const row = existing.data as StartupChecklistRow | null;
+    if (!row || !canAccessBuilding(user, row.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const broadcast = startupChecklistBroadcast(row, user.name);
+    if (!broadcast) {
+      return NextResponse.json({ error: "Write a daily focus message before broadcasting" }, { status: 400 });
+    }
+
+    const workforce = await fetchWorkforce(supabaseAdmin, { building: broadcast.building });
+    if (workforce.error) {
+      console.error("Error loading workforce for broadcast", workforce.error);
+      return NextResponse.json({ error: "Failed to send broadcast" }, { status: 500 });
+    }
+
+    const recipients = shiftBroadcastRecipients(workforce.data, broadcast.building, broadcast.shift);
+    if (recipients.length === 0) {
+      return NextResponse.json(
+        { error: "No one on this shift has a phone number and WhatsApp opt-in on the workforce roster" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await sendMessage(supabaseAdmin, {
+      channel,
+      to: recipients.map((w) => w.phone as string),
+      template: "shift.broadcast",
+      data: broadcast,
+      sourceTable: STARTUP_CHECKLISTS_TABLE,
+      sourceId: row.id,
+      dedupeKey: `shift.broadcast:${row.id}`,
+      createdBy: user.email,
+    });
+
+    if (error) {
+      console.error("Error sending shift broadcast", error);
+      return NextResponse.json({ error: "Failed to send broadcast" }, { status: 500 });
+    }
+
+    const items = startupChecklistRowToInput(row).items;
+    const communication = (items.communication ?? {}) as Record<string, unknown>;
+    const updated = await supabaseAdminAs(auth.user)
+      .from(STARTUP_CHECKLISTS_TABLE)
+      .update({ items: { ...items, communication: { ...communication, whatsappBroadcastSent: true } } })
+      .eq("id", row.id)
+      .select("*")
+      .single();
+
+    if (updated.error) console.error("Error checking off shift broadcast", updated.error);
+
+    return NextResponse.json({
+      report: updated.data ?? row,
+      sent: data.filter((d) => d.status === "sent").length,
+      pending: data.filter((d) => d.status === "pending").length,
+      failed: data.filter((d) => d.status === "failed").length,
+      skipped: recipients.length - data.length,
+    });
+  } catch (error) {
+    console.error("Shift broadcast error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
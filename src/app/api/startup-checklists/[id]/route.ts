@@ -0,0 +1,75 @@
+// src/app/api/startup-checklists/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  parseStartupChecklistInput,
+  STARTUP_CHECKLISTS_TABLE,
+  startupChecklistRowToInput,
+  type StartupChecklistRow,
+} from "@/lib/domain/startupChecklists";
+import { isStaleVersion } from "@/lib/syncProtocol";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PATCH /api/startup-checklists/:id
+// Body: { building?, shift?, date? } for the header, or { items, completed_at } for the checklist.
+// If-Match (the updated_at being edited) → 412 with the current report when it changed meanwhile.
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    const { id } = await params;
+    const existing = await supabaseAdmin.from(STARTUP_CHECKLISTS_TABLE).select("*").eq("id", id).maybeSingle();
+
+    if (existing.error) {
+      console.error("Error loading startup checklist for update", existing.error);
+      return NextResponse.json({ error: "Failed to update report" }, { status: 500 });
+    }
+
+    const current = existing.data as StartupChecklistRow | null;
+    if (!current || !canAccessBuilding(user, current.building)) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    if (isStaleVersion(request, current.updated_at)) {
+      return NextResponse.json(
+        { error: "This report was changed by someone else since you started editing", current },
+        { status: 412 }
+      );
+    }
+
+    const parsed = parseStartupChecklistInput(
+      await request.json().catch(() => null),
+      startupChecklistRowToInput(current)
+    );
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    if (!canAccessBuilding(user, parsed.value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(STARTUP_CHECKLISTS_TABLE)
+      .update(parsed.value)
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if ((error as { code?: string } | null)?.code === "23505") {
+      return NextResponse.json(
+        { error: "A report already exists for this building, shift, and date." },
+        { status: 409 }
+      );
+    }
+    if (error || !data) {
+      console.error("Update startup checklist error:", error);
+      return NextResponse.json({ error: "Failed to update report" }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Update startup checklist error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+// src/app/api/startup-checklists/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { parseStartupChecklistInput, STARTUP_CHECKLISTS_TABLE } from "@/lib/domain/startupChecklists";
+import { findReplayedRow, idempotencyKey } from "@/lib/syncProtocol";
+
+// POST /api/startup-checklists
+// Body: { building, shift, date, items?, completed_at? } — one report per building, shift and date.
+// With an Idempotency-Key (offline queue replays) a repeat returns the report already created.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.ok) return auth.response;
+
+    const key = idempotencyKey(request);
+    if (key) {
+      const replayed = await findReplayedRow(supabaseAdmin, STARTUP_CHECKLISTS_TABLE, key);
+      if (replayed.error) {
+        console.error("Error checking replayed startup checklist", replayed.error);
+        return NextResponse.json({ error: "Failed to create report" }, { status: 500 });
+      }
+      if (replayed.data) return NextResponse.json(replayed.data);
+    }
+
+    const parsed = parseStartupChecklistInput(await request.json().catch(() => null));
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    if (!canAccessBuilding(auth.user, parsed.value.building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { value } = parsed;
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from(STARTUP_CHECKLISTS_TABLE)
+      .select("id")
+      .eq("building", value.building)
+      .eq("shift", value.shift)
+      .eq("date", value.date)
+      .limit(1);
+
+    if (existingError) {
+      console.error("Error checking for an existing startup checklist", existingError);
+      return NextResponse.json({ error: "Failed to create report" }, { status: 500 });
+    }
+    if (existing && existing.length > 0) {
+      return NextResponse.json(
+        { error: "A report already exists for this building, shift, and date." },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(STARTUP_CHECKLISTS_TABLE)
+      .insert({ ...value, ...(key ? { client_request_id: key } : {}) })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create startup checklist error:", error);
+      return NextResponse.json({ error: "Failed to create report" }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    console.error("Create startup checklist error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+// src/app/api/time-clock/attendance/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  STARTUP_CHECKLISTS_TABLE,
+  clockedInHeadcount,
+  fetchShiftAssignments,
+  fetchTimePunches,
+  shiftAttendance,
+  startupChecklistScheduledStart,
+  type StartupChecklistRow,
+} from "@/lib/domain";
+import { isYMD } from "@/lib/time";
+
+// GET /api/time-clock/attendance?building=DC1&shift=1st&date=YYYY-MM-DD
+// Scheduled start comes from that shift's startup checklist (shiftDetails.scheduledStartTime).
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "timeclock.punch");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const building = params.get("building") || "";
+    const shift = params.get("shift") || "";
+    const date = params.get("date") || "";
+    if (!building || !shift || !isYMD(date)) {
+      return NextResponse.json({ error: "building, shift and date (YYYY-MM-DD) are required" }, { status: 400 });
+    }
+    if (!canAccessBuilding(auth.user, building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const slot = { building, shift, from: date, to: date };
+    const [checklists, assignments, punches] = await Promise.all([
+      supabaseAdmin
+        .from(STARTUP_CHECKLISTS_TABLE)
+        .select("*")
+        .eq("building", building)
+        .eq("shift", shift)
+        .eq("date", date)
+        .order("created_at", { ascending: false })
+        .limit(1),
+      fetchShiftAssignments(supabaseAdmin, slot),
+      fetchTimePunches(supabaseAdmin, slot),
+    ]);
+
+    const error = checklists.error || assignments.error || punches.error;
+    if (error) {
+      console.error("Error loading attendance", error);
+      return NextResponse.json({ error: "Failed to load attendance" }, { status: 500 });
+    }
+
+    const checklist = ((checklists.data || []) as StartupChecklistRow[])[0];
+    const scheduledStartTime = checklist ? startupChecklistScheduledStart(checklist) : null;
+
+    return NextResponse.json({
+      scheduledStartTime,
+      headcount: clockedInHeadcount(punches.data),
+      rows: shiftAttendance({
+        date,
+        scheduledStartTime,
+        assignments: assignments.data.filter((a) => a.shift === shift),
+        punches: punches.data,
+      }),
+    });
+  } catch (error) {
+    console.error("Get attendance error:", error);
+    return NextResponse.json({ error: "Failed to load attendance" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// src/app/api/time-clock/identify/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { allowedPunchKinds, clockState, openClockIn } from "@/lib/domain";
+import { fetchRecentWorkerPunches, findKioskWorker } from "@/lib/timeClockKiosk";
+
+// POST /api/time-clock/identify
+// Body: { building, badge } or { building, pin } → who is at the kiosk and which punches they can make.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "timeclock.punch");
+    if (!auth.ok) return auth.response;
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const building = typeof body.building === "string" ? body.building.trim() : "";
+    if (!building) return NextResponse.json({ error: "building is required" }, { status: 400 });
+    if (!canAccessBuilding(auth.user, building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const worker = await findKioskWorker(supabaseAdmin, body);
+    if (!worker.data) return NextResponse.json({ error: worker.error }, { status: 404 });
+
+    const now = new Date();
+    const punches = await fetchRecentWorkerPunches(supabaseAdmin, worker.data.id, now);
+    if (punches.error) {
+      console.error("Error loading punches for kiosk", punches.error);
+      return NextResponse.json({ error: "Failed to look up punches" }, { status: 500 });
+    }
+
+    const state = clockState(punches.data, now);
+    const open = openClockIn(punches.data, now);
+    return NextResponse.json({
+      worker: { id: worker.data.id, name: worker.data.name, building: worker.data.building, shift: worker.data.shift },
+      state,
+      allowed: allowedPunchKinds(state),
+      openShift: open ? { building: open.building, shift: open.shift, date: open.date, clockInAt: open.punchedAt } : null,
+    });
+  } catch (error) {
+    console.error("Kiosk identify error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,134 @@
+// src/app/api/time-clock/punches/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import {
+  PUNCH_KIND_LABELS,
+  TIME_PUNCHES_TABLE,
+  allowedPunchKinds,
+  clockState,
+  fetchTimePunches,
+  isPunchKind,
+  mapTimePunchRow,
+  openClockIn,
+  punchError,
+  type TimePunchRow,
+} from "@/lib/domain";
+import { fetchRecentWorkerPunches, findKioskWorker, syncStaffingActualHeadcount } from "@/lib/timeClockKiosk";
+import { isYMD, nyISODate } from "@/lib/time";
+
+// GET /api/time-clock/punches?building=DC1&date=YYYY-MM-DD[&shift=1st]
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "timeclock.punch");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const building = params.get("building") || "";
+    const date = params.get("date") || nyISODate();
+    if (!building || !isYMD(date)) {
+      return NextResponse.json({ error: "building and date (YYYY-MM-DD) are required" }, { status: 400 });
+    }
+    if (!canAccessBuilding(auth.user, building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const { data, error } = await fetchTimePunches(supabaseAdmin, {
+      building,
+      shift: params.get("shift"),
+      from: date,
+      to: date,
+    });
+    if (error) {
+      console.error("Error loading time punches", error);
+      return NextResponse.json({ error: "Failed to load punches" }, { status: 500 });
+    }
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Get time punches error:", error);
+    return NextResponse.json({ error: "Failed to load punches" }, { status: 500 });
+  }
+}
+
+// POST /api/time-clock/punches
+// Body: { building, shift, date?, badge | pin, kind } — date defaults to today (New York).
+// A clock-in starts a session on that building / shift / date; breaks and the
+// clock-out are recorded on the open session's shift, wherever they're punched.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "timeclock.punch");
+    if (!auth.ok) return auth.response;
+
+    const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const building = typeof body.building === "string" ? body.building.trim() : "";
+    const shift = typeof body.shift === "string" ? body.shift.trim() : "";
+    const date = typeof body.date === "string" && body.date ? body.date : nyISODate();
+    if (!building || !shift || !isYMD(date)) {
+      return NextResponse.json({ error: "building, shift and date (YYYY-MM-DD) are required" }, { status: 400 });
+    }
+    if (!isPunchKind(body.kind)) return NextResponse.json({ error: "Unknown punch kind" }, { status: 400 });
+    const kind = body.kind;
+    if (!canAccessBuilding(auth.user, building)) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const worker = await findKioskWorker(supabaseAdmin, body);
+    if (!worker.data) return NextResponse.json({ error: worker.error }, { status: 404 });
+
+    const now = new Date();
+    const recent = await fetchRecentWorkerPunches(supabaseAdmin, worker.data.id, now);
+    if (recent.error) {
+      console.error("Error loading punches for kiosk", recent.error);
+      return NextResponse.json({ error: "Failed to record punch" }, { status: 500 });
+    }
+
+    const state = clockState(recent.data, now);
+    const invalid = punchError(state, kind);
+    if (invalid) return NextResponse.json({ error: `${worker.data.name}: ${invalid}`, state }, { status: 409 });
+
+    const open = openClockIn(recent.data, now);
+    const slot = kind === "clock_in" || !open ? { building, shift, date } : open;
+
+    const { data, error } = await supabaseAdminAs(auth.user)
+      .from(TIME_PUNCHES_TABLE)
+      .insert({
+        workforce_id: worker.data.id,
+        worker_name: worker.data.name,
+        building: slot.building,
+        shift: slot.shift,
+        date: slot.date,
+        kind,
+        punched_at: now.toISOString(),
+        source: "kiosk",
+        created_by_email: auth.user.email,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Create time punch error:", error);
+      return NextResponse.json({ error: "Failed to record punch" }, { status: 500 });
+    }
+    const punch = mapTimePunchRow(data as TimePunchRow);
+
+    // The staffing plan's actual headcount follows clock-ins
+    if (kind === "clock_in") {
+      const synced = await syncStaffingActualHeadcount(supabaseAdmin, slot);
+      if (synced.error) console.error("Error updating staffing actual headcount", synced.error);
+    }
+
+    const nextState = clockState([...recent.data, punch], now);
+    return NextResponse.json(
+      {
+        punch,
+        state: nextState,
+        allowed: allowedPunchKinds(nextState),
+        message: `${worker.data.name}: ${PUNCH_KIND_LABELS[kind]} recorded`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create time punch error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// src/app/api/worker-history/pay/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { fetchWorkforceByIds } from "@/lib/domain";
+import { computeWorkerWeeklyPay } from "@/lib/payroll";
+import { addDaysYMD, isYMD } from "@/lib/time";
+
+// About six months of payroll weeks
+const MAX_RANGE_DAYS = 26 * 7;
+
+// GET /api/worker-history/pay?workforce_id=...&from=YYYY-MM-DD&to=YYYY-MM-DD
+// Returns the worker's pay per payroll week (Sun–Sat) touching the range: container
+// pay, punched hours, overtime and minimum-wage make-up (see src/lib/wagePay.ts).
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "containers.read");
+    if (!auth.ok) return auth.response;
+
+    const params = new URL(request.url).searchParams;
+    const workforceId = params.get("workforce_id") ?? "";
+    const from = params.get("from") ?? "";
+    const to = params.get("to") ?? "";
+    if (!workforceId || !isYMD(from) || !isYMD(to) || to < from) {
+      return NextResponse.json({ error: "workforce_id, from and to (YYYY-MM-DD) are required" }, { status: 400 });
+    }
+    if (addDaysYMD(from, MAX_RANGE_DAYS) < to) {
+      return NextResponse.json({ error: `Ask for at most ${MAX_RANGE_DAYS} days at a time` }, { status: 400 });
+    }
+
+    const workers = await fetchWorkforceByIds(supabaseAdmin, [workforceId]);
+    if (workers.error) {
+      console.error("Error loading worker for pay history", workers.error);
+      return NextResponse.json({ error: "Failed to load pay history" }, { status: 500 });
+    }
+    const worker = workers.data[0];
+    if (!worker || !canAccessBuilding(auth.user, worker.building)) {
+      return NextResponse.json({ error: "Worker not found" }, { status: 404 });
+    }
+
+    const { data, error } = await computeWorkerWeeklyPay(supabaseAdmin, worker, { from, to });
+    if (error) {
+      console.error("Error computing worker pay", error);
+      return NextResponse.json({ error: "Failed to load pay history" }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Get worker pay error:", error);
+    return NextResponse.json({ error: "Failed to load pay history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/workforce/[id]/pin/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding } from "@/lib/authz";
+import { WORKFORCE_TABLE, mapWorkforceRow } from "@/lib/domain";
+import { KIOSK_PIN_RE, hashKioskPin } from "@/lib/timeClockKiosk";
+
+type Context = { params: Promise<{ id: string }> };
+
+async function loadWorker(id: string) {
+  const { data, error } = await supabaseAdmin.from(WORKFORCE_TABLE).select("*").eq("id", id).maybeSingle();
+  return { worker: data ? mapWorkforceRow(data as Record<string, unknown>) : null, error };
+}
+
+// PUT /api/workforce/:id/pin
+// Body: { pin } — 4–8 digits, unique across the workforce. Only the hash is stored.
+export async function PUT(request: Request, { params }: Context) {
+  try {
+    const auth = await authorize(request, "workforce.manage");
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const body = (await request.json().catch(() => null)) as { pin?: unknown } | null;
+    const pin = typeof body?.pin === "string" ? body.pin.trim() : "";
+    if (!KIOSK_PIN_RE.test(pin)) return NextResponse.json({ error: "PIN must be 4–8 digits" }, { status: 400 });
+
+    const { worker, error: loadError } = await loadWorker(id);
+    if (loadError) {
+      console.error("Error loading worker for PIN", loadError);
+      return NextResponse.json({ error: "Failed to set PIN" }, { status: 500 });
+    }
+    if (!worker || !canAccessBuilding(auth.user, worker.building)) {
+      return NextResponse.json({ error: "Worker not found" }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdminAs(auth.user)
+      .from(WORKFORCE_TABLE)
+      .update({ kiosk_pin_hash: hashKioskPin(pin) }).eq("id", id);
+    if ((error as { code?: string } | null)?.code === "23505") {
+      return NextResponse.json({ error: "That PIN is taken — pick another" }, { status: 409 });
+    }
+    if (error) {
+      console.error("Set kiosk PIN error:", error);
+      return NextResponse.json({ error: "Failed to set PIN" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Set kiosk PIN error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
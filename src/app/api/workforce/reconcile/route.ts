@@ -0,0 +1,146 @@
+// src/app/api/workforce/reconcile/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin, supabaseAdminAs } from "@/lib/supabaseAdmin";
+import { authorize, canAccessBuilding, type AuthUser } from "@/lib/authz";
+import { isBuildingScoped } from "@/lib/roles";
+import {
+  CONTAINERS_TABLE,
+  containerDateNY,
+  fetchAllContainers,
+  fetchWorkforce,
+  fetchWorkforceByIds,
+  type WorkforceWorker,
+} from "@/lib/domain";
+import { fetchPayrollPeriods, isMissingTableError, LOCKED_PAYROLL_STATUSES, lockingPeriodFor } from "@/lib/payroll";
+import {
+  collectUnlinkedNames,
+  linkContainerWorkers,
+  parseReconcileLinks,
+  suggestWorkforceMatches,
+} from "@/lib/workerReconciliation";
+
+// Scoped managers see their building's containers and roster (plus unassigned workers)
+function scopedBuilding(user: AuthUser): string | null {
+  return isBuildingScoped(user.accessRole) ? user.building : null;
+}
+
+function onRosterFor(user: AuthUser, worker: WorkforceWorker): boolean {
+  return !worker.building || canAccessBuilding(user, worker.building);
+}
+
+// GET /api/workforce/reconcile
+// Unlinked container worker names with the closest roster matches, plus the roster to pick from.
+// Scans every container (any work date, or none), not just the latest page.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, "workforce.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    if (isBuildingScoped(user.accessRole) && !user.building) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const building = scopedBuilding(user);
+    const [containers, workforce] = await Promise.all([
+      fetchAllContainers(supabaseAdmin, { building }),
+      fetchWorkforce(supabaseAdmin),
+    ]);
+
+    if (containers.error || workforce.error) {
+      console.error("Error loading worker reconciliation", containers.error || workforce.error);
+      return NextResponse.json({ error: "Failed to load unlinked workers" }, { status: 500 });
+    }
+
+    const roster = workforce.data.filter((w) => onRosterFor(user, w)).sort((a, b) => a.name.localeCompare(b.name));
+    const suggestions = suggestWorkforceMatches(collectUnlinkedNames(containers.data), roster);
+
+    return NextResponse.json({ suggestions, workforce: roster });
+  } catch (error) {
+    console.error("Get worker reconciliation error:", error);
+    return NextResponse.json({ error: "Failed to load unlinked workers" }, { status: 500 });
+  }
+}
+
+// POST /api/workforce/reconcile
+// Body: { links: [{ name, workforceId }] } — links the manager confirmed.
+// Containers in Approved/Paid payroll periods are left as they are and counted in skippedLocked.
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, "workforce.manage");
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
+
+    if (isBuildingScoped(user.accessRole) && !user.building) {
+      return NextResponse.json({ error: "You do not have access to that building" }, { status: 403 });
+    }
+
+    const parsed = parseReconcileLinks(await request.json().catch(() => null));
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const ids = Array.from(new Set(parsed.value.map((l) => l.workforceId)));
+    const roster = await fetchWorkforceByIds(supabaseAdmin, ids);
+    if (roster.error) {
+      console.error("Error loading workforce for reconciliation", roster.error);
+      return NextResponse.json({ error: "Failed to link workers" }, { status: 500 });
+    }
+
+    const byId = new Map(roster.data.map((w) => [w.id, w]));
+    const links = new Map<string, WorkforceWorker>();
+    for (const link of parsed.value) {
+      const person = byId.get(link.workforceId);
+      if (!person || !onRosterFor(user, person)) {
+        return NextResponse.json({ error: `Worker ${link.workforceId} is not on the workforce roster` }, { status: 400 });
+      }
+      links.set(link.name.toLowerCase(), person);
+    }
+
+    const [containers, periods] = await Promise.all([
+      fetchAllContainers(supabaseAdmin, { building: scopedBuilding(user) }),
+      fetchPayrollPeriods(supabaseAdmin, { statuses: LOCKED_PAYROLL_STATUSES }),
+    ]);
+    if (containers.error) {
+      console.error("Error loading containers for reconciliation", containers.error);
+      return NextResponse.json({ error: "Failed to link workers" }, { status: 500 });
+    }
+    if (periods.error) {
+      if (!isMissingTableError(periods.error)) {
+        console.error("Error loading payroll periods for reconciliation", periods.error);
+        return NextResponse.json({ error: "Failed to link workers" }, { status: 500 });
+      }
+      // Table missing (migration not applied yet) → nothing can be locked
+      console.warn("Payroll periods table missing; linking every container", periods.error);
+    }
+
+    const db = supabaseAdminAs(user);
+    let updated = 0;
+    let skippedLocked = 0;
+    for (const container of containers.data) {
+      const next = linkContainerWorkers(container.workers, links);
+      if (next.changed === 0) continue;
+
+      if (lockingPeriodFor(periods.data, containerDateNY(container))) {
+        skippedLocked += 1;
+        continue;
+      }
+
+      const { error } = await db
+        .from(CONTAINERS_TABLE)
+        .update({ workers: next.workers })
+        .eq("id", container.id);
+
+      if (error) {
+        console.error("Link container workers error:", error);
+        return NextResponse.json({ error: "Failed to link workers", updated, skippedLocked }, { status: 500 });
+      }
+      updated += 1;
+    }
+
+    return NextResponse.json({ updated, skippedLocked });
+  } catch (error) {
+    console.error("Link workers error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { addDaysYMD, nyDateTime, nyISODate } from "@/lib/time";
+import {
+  AUDIT_LOG_PAGE_SIZE,
+  AUDITED_TABLE_LABELS,
+  AUDITED_TABLES,
+  isAuditedTable,
+  RECORD_HISTORY_TABLES,
+  type AuditEntry,
+} from "@/lib/domain/auditLog";
+import { AuditActionBadge, AuditChanges } from "@/app/record-history";
+
+type Filters = {
+  actor: string;
+  table: string;
+  building: string;
+  recordId: string;
+  from: string;
+  to: string;
+};
+
+type AuditLogResponse = { entries: AuditEntry[]; truncated: boolean };
+
+function defaultFilters(): Filters {
+  const today = nyISODate();
+  return { actor: "", table: "", building: "", recordId: "", from: addDaysYMD(today, -6), to: today };
+}
+
+function tableLabel(name: string): string {
+  return isAuditedTable(name) ? AUDITED_TABLE_LABELS[name] : name;
+}
+
+function recordHref(entry: AuditEntry): string | null {
+  if (entry.action === "delete" || !isAuditedTable(entry.tableName)) return null;
+  if (!RECORD_HISTORY_TABLES.includes(entry.tableName)) return null;
+  return entry.tableName === "containers" ? `/containers/${entry.recordId}` : `/work-orders/${entry.recordId}`;
+}
+
+export default function AuditLogPage() {
+  const currentUser = useCurrentUser();
+  const canRead = !!currentUser && hasPermission(currentUser.accessRole, "audit.read");
+
+  const [draft, setDraft] = useState<Filters>(defaultFilters);
+  const [filters, setFilters] = useState<Filters>(draft);
+  const [log, setLog] = useState<AuditLogResponse>({ entries: [], truncated: false });
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canRead) return;
+    let cancelled = false;
+
+    async function load() {
+      const params = new URLSearchParams();
+      if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+      if (filters.table) params.set("table", filters.table);
+      if (filters.building) params.set("building", filters.building);
+      if (filters.recordId.trim()) params.set("record_id", filters.recordId.trim());
+      if (filters.from) params.set("from", filters.from);
+      if (filters.to) params.set("to", filters.to);
+      const res = await apiFetch(`/api/audit-log?${params}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load audit log."));
+        return;
+      }
+      setLog((await res.json()) as AuditLogResponse);
+    }
+
+    void load()
+      .catch((e) => {
+        console.error("Unexpected error loading audit log", e);
+        if (!cancelled) setError("Unexpected error loading audit log.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canRead, filters]);
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setExpanded(null);
+    setLoading(true);
+    setError(null);
+    setFilters(draft);
+  }
+
+  function resetFilters() {
+    const next = defaultFilters();
+    setExpanded(null);
+    setLoading(true);
+    setError(null);
+    setDraft(next);
+    setFilters(next);
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canRead) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Only HQ and Admins can view the audit log.
+      </div>
+    );
+  }
+
+  const inputClass =
+    "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Audit Log</h1>
+            <p className="text-sm text-slate-400">
+              Every create, edit and delete on containers, work orders, workforce, user accounts and safety reports —
+              who made it, when, and what changed. Entries can&apos;t be edited or removed.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading audit log…</p>}
+          </div>
+          <Link
+            href="/"
+            className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-rose-700 bg-rose-950/40 px-3 py-2 text-[11px] text-rose-100">{error}</div>
+        )}
+
+        {/* Filters */}
+        <form
+          onSubmit={applyFilters}
+          className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs grid grid-cols-2 md:grid-cols-7 gap-3 items-end"
+        >
+          <label className="space-y-1 md:col-span-2">
+            <span className="text-[11px] text-slate-400">User (email)</span>
+            <input
+              className={inputClass}
+              value={draft.actor}
+              placeholder="name@company.com"
+              onChange={(e) => setDraft((d) => ({ ...d, actor: e.target.value }))}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-slate-400">Table</span>
+            <select className={inputClass} value={draft.table} onChange={(e) => setDraft((d) => ({ ...d, table: e.target.value }))}>
+              <option value="">All tables</option>
+              {AUDITED_TABLES.map((t) => (
+                <option key={t} value={t}>
+                  {AUDITED_TABLE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-slate-400">Building</span>
+            <select
+              className={inputClass}
+              value={draft.building}
+              onChange={(e) => setDraft((d) => ({ ...d, building: e.target.value }))}
+            >
+              <option value="">All buildings</option>
+              {BUILDINGS.map((b) => (
+                <option key={b} value={b}>
+                  {b}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-slate-400">From</span>
+            <input
+              type="date"
+              className={inputClass}
+              value={draft.from}
+              onChange={(e) => setDraft((d) => ({ ...d, from: e.target.value }))}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-slate-400">To</span>
+            <input
+              type="date"
+              className={inputClass}
+              value={draft.to}
+              onChange={(e) => setDraft((d) => ({ ...d, to: e.target.value }))}
+            />
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" className="rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-1.5">
+              Apply
+            </button>
+            <button
+              type="button"
+              onClick={resetFilters}
+              className="rounded-lg border border-slate-700 px-3 py-1.5 text-[11px] text-slate-200 hover:bg-slate-800"
+            >
+              Reset
+            </button>
+          </div>
+          <label className="space-y-1 md:col-span-2">
+            <span className="text-[11px] text-slate-400">Record ID</span>
+            <input
+              className={inputClass}
+              value={draft.recordId}
+              onChange={(e) => setDraft((d) => ({ ...d, recordId: e.target.value }))}
+            />
+          </label>
+        </form>
+
+        {/* Entries */}
+        <div className="overflow-x-auto rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs">
+          {log.truncated && (
+            <p className="mb-3 text-[11px] text-amber-300">
+              Showing the newest {AUDIT_LOG_PAGE_SIZE} entries — narrow the filters to see older ones.
+            </p>
+          )}
+          <table className="min-w-full border-collapse">
+            <thead>
+              <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                <th className="text-left py-2 pr-3">When</th>
+                <th className="text-left py-2 pr-3">User</th>
+                <th className="text-left py-2 pr-3">Role</th>
+                <th className="text-left py-2 pr-3">Action</th>
+                <th className="text-left py-2 pr-3">Table</th>
+                <th className="text-left py-2 pr-3">Record</th>
+                <th className="text-left py-2 pr-3">Building</th>
+                <th className="text-left py-2 pr-3">Changed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.entries.map((e) => {
+                const open = expanded === e.id;
+                const href = recordHref(e);
+                return (
+                  <React.Fragment key={e.id}>
+                    <tr
+                      className="border-b border-slate-800/60 hover:bg-slate-900/70 cursor-pointer"
+                      onClick={() => setExpanded(open ? null : e.id)}
+                    >
+                      <td className="py-2 pr-3 text-[11px] text-slate-400 whitespace-nowrap">
+                        {nyDateTime(new Date(e.occurredAt))}
+                      </td>
+                      <td className="py-2 pr-3 text-[11px] text-slate-200">{e.actorEmail ?? "System"}</td>
+                      <td className="py-2 pr-3 text-[11px] text-slate-400">{e.actorRole ?? "—"}</td>
+                      <td className="py-2 pr-3">
+                        <AuditActionBadge action={e.action} />
+                      </td>
+                      <td className="py-2 pr-3 text-[11px] text-slate-200">{tableLabel(e.tableName)}</td>
+                      <td className="py-2 pr-3 text-[11px] font-mono">
+                        {href ? (
+                          <Link href={href} onClick={(ev) => ev.stopPropagation()} className="text-sky-300 hover:underline">
+                            {e.recordId}
+                          </Link>
+                        ) : (
+                          <span className="text-slate-300">{e.recordId}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-[11px] text-slate-200">{e.building ?? "—"}</td>
+                      <td className="py-2 pr-3 text-[11px] text-slate-400 max-w-[16rem] truncate">
+                        {e.action === "update" ? e.changedFields.join(", ") : "—"}
+                      </td>
+                    </tr>
+                    {open && (
+                      <tr className="border-b border-slate-800/60 bg-slate-950/60">
+                        <td colSpan={8} className="px-3 py-3">
+                          <AuditChanges entry={e} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {log.entries.length === 0 && !loading && (
+                <tr>
+                  <td className="py-6 text-center text-[11px] text-slate-500" colSpan={8}>
+                    No changes match these filters.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
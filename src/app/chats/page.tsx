@@ -1,64 +1,51 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState, FormEvent } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import { useEffect, useState, FormEvent } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission } from "@/lib/roles";
+import { useRealtimeTable } from "@/lib/useRealtimeTable";
+import { applyRealtimeChange } from "@/lib/realtime";
 import { BUILDINGS } from "@/lib/buildings";
-
-const CHATS_STORAGE_KEY = "precisionpulse_chats";
+import {
+  CHAT_CHANNELS,
+  CHATS_KEY,
+  CHATS_TABLE,
+  DIRECT_CHANNEL,
+  canSeeChatMessage,
+  chatRepliesByParent,
+  chatUnreadCounts,
+  directMessagePartner,
+  isDirectMessage,
+  mapChatRow,
+  markChatChannelsRead,
+  readChatLastRead,
+  splitChatMentions,
+  writeChatLastRead,
+  type ChatLastRead,
+  type ChatMessage,
+  type ChatPerson,
+  type ChatRow,
+} from "@/lib/domain";
 
 const SHIFTS = ["1st", "2nd", "3rd", "4th"];
-const CHANNELS = ["General", "Shift Ops", "HR", "Safety", "Other"];
+const CHANNELS = CHAT_CHANNELS;
+// Channel chips and read marks, with direct messages as their own inbox
+const INBOXES = [...CHAT_CHANNELS, DIRECT_CHANNEL];
 
 // For filters we want an "ALL" option on top of the shared buildings list
 const BUILDING_FILTER_OPTIONS = ["ALL", ...BUILDINGS];
 
-type ChatMessage = {
-  id: string;
-  building: string;
-  shift: string;
-  channel: string;
-  message: string;
-  createdAt: string; // ISO
-  authorName?: string;
-  authorEmail?: string;
-  authorRole?: string;
-};
-
-type ChatRow = {
-  id: string;
-  created_at: string;
-  building: string | null;
-  shift: string | null;
-  channel: string | null;
-  message: string | null;
-  author_name: string | null;
-  author_email: string | null;
-  author_role: string | null;
-};
-
-function rowToChat(row: ChatRow): ChatMessage {
-  return {
-    id: String(row.id),
-    building: row.building ?? (BUILDINGS[0] ?? "DC18"),
-    shift: row.shift ?? "1st",
-    channel: row.channel ?? "General",
-    message: row.message ?? "",
-    createdAt: row.created_at ?? new Date().toISOString(),
-    authorName: row.author_name ?? undefined,
-    authorEmail: row.author_email ?? undefined,
-    authorRole: row.author_role ?? undefined,
-  };
-}
-
 export default function ChatsPage() {
   const currentUser = useCurrentUser();
-  const isSuperAdmin = currentUser?.accessRole === "Super Admin";
+  const canDelete = !!currentUser && hasPermission(currentUser.accessRole, "chats.delete");
   const isLead = currentUser?.accessRole === "Lead";
   const leadBuilding = currentUser?.building || "";
 
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [people, setPeople] = useState<ChatPerson[]>([]);
+  const [lastRead, setLastRead] = useState<ChatLastRead>({});
 
   // Filters
   const [filterBuilding, setFilterBuilding] = useState<string>("ALL");
@@ -69,6 +56,8 @@ export default function ChatsPage() {
   const [building, setBuilding] = useState<string>(BUILDINGS[0] ?? "DC18");
   const [shift, setShift] = useState<string>("1st");
   const [channel, setChannel] = useState<string>("General");
+  const [recipient, setRecipient] = useState<string>(""); // email → direct message
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
   const [text, setText] = useState<string>("");
 
   const [loading, setLoading] = useState(true);
@@ -78,10 +67,21 @@ export default function ChatsPage() {
   function persist(next: ChatMessage[]) {
     setMessages(next);
     if (typeof window !== "undefined") {
-      window.localStorage.setItem(CHATS_STORAGE_KEY, JSON.stringify(next));
+      window.localStorage.setItem(CHATS_KEY, JSON.stringify(next));
     }
   }
 
+  function updateLastRead(next: ChatLastRead) {
+    setLastRead(next);
+    if (currentUser) writeChatLastRead(currentUser.email, next);
+  }
+
+  // A channel counts as read once it's opened on its own (not under "All Channels")
+  function selectChannel(next: string) {
+    setFilterChannel(next);
+    if (next !== "ALL") updateLastRead(markChatChannelsRead(lastRead, [next], new Date().toISOString()));
+  }
+
   async function refreshFromSupabase() {
     if (!currentUser) return;
 
@@ -89,27 +89,21 @@ export default function ChatsPage() {
     setError(null);
 
     try {
-      let query = supabase
-        .from("chats")
-        .select("*")
-        .order("created_at", { ascending: true });
-
-      // If this user is a Lead, only show chats for their building
-      if (isLead && leadBuilding) {
-        query = query.eq("building", leadBuilding);
-      }
-
-      const { data, error } = await query;
-
-      if (error) {
-        console.error("Error loading chats", error);
-        setError("Failed to load chats from server.");
+      // Leads only get their building's channels; direct messages only reach their participants
+      const res = await apiFetch("/api/chats");
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load chats from server."));
         return;
       }
 
-      const rows = (data || []) as ChatRow[];
-      const mapped = rows.map(rowToChat);
-      persist(mapped);
+      const body = (await res.json()) as { messages: ChatMessage[]; people: ChatPerson[] };
+      persist(body.messages);
+      setPeople(body.people);
+
+      // First visit on this device: start counting from now, not from the whole history
+      const stored = readChatLastRead(currentUser.email);
+      const unseen = INBOXES.filter((c) => !stored[c]);
+      updateLastRead(markChatChannelsRead(stored, unseen, new Date().toISOString()));
     } catch (e) {
       console.error("Unexpected error loading chats", e);
       setError("Unexpected error loading chats.");
@@ -123,6 +117,36 @@ export default function ChatsPage() {
     refreshFromSupabase();
   }, [currentUser]);
 
+  // ✅ Live: other leads' messages appear without a refresh
+  useRealtimeTable(
+    CHATS_TABLE,
+    { enabled: !!currentUser, building: isLead && leadBuilding ? leadBuilding : null },
+    (change) => {
+      setMessages((prev) => {
+        const next = applyRealtimeChange(prev, change, {
+          map: (row) => mapChatRow(row as ChatRow),
+          match: (m) =>
+            isDirectMessage(m)
+              ? canSeeChatMessage(m, currentUser?.email)
+              : !(isLead && leadBuilding) || m.building === leadBuilding,
+          position: "end",
+        });
+        if (next !== prev && typeof window !== "undefined") {
+          window.localStorage.setItem(CHATS_KEY, JSON.stringify(next));
+        }
+        return next;
+      });
+
+      // Arrived in the channel being read → already seen
+      if (change.eventType === "INSERT" && filterChannel !== "ALL") {
+        const m = mapChatRow(change.new as ChatRow);
+        if (m.channel === filterChannel && inViewScope(m)) {
+          updateLastRead(markChatChannelsRead(lastRead, [m.channel], m.createdAt));
+        }
+      }
+    }
+  );
+
   // Once we know user + role, lock building/filters for Leads
   useEffect(() => {
     if (!currentUser) return;
@@ -132,25 +156,41 @@ export default function ChatsPage() {
     }
   }, [currentUser, isLead, leadBuilding]);
 
-  const filteredMessages = useMemo(() => {
-    return messages.filter((m) => {
-      // Hard safety: Leads never see other buildings, even if somehow loaded
-      if (isLead && leadBuilding && m.building !== leadBuilding) {
-        return false;
-      }
+  // Building / shift filters (the channel filter is applied on top)
+  function inViewScope(m: ChatMessage): boolean {
+    // Direct messages follow the people in them, not the building / shift filters
+    if (isDirectMessage(m)) return canSeeChatMessage(m, currentUser?.email);
 
-      if (filterBuilding !== "ALL" && m.building !== filterBuilding) {
-        return false;
-      }
-      if (filterShift !== "ALL" && m.shift !== filterShift) {
-        return false;
-      }
-      if (filterChannel !== "ALL" && m.channel !== filterChannel) {
-        return false;
-      }
-      return true;
-    });
-  }, [messages, filterBuilding, filterShift, filterChannel, isLead, leadBuilding]);
+    // Hard safety: Leads never see other buildings, even if somehow loaded
+    if (isLead && leadBuilding && m.building !== leadBuilding) {
+      return false;
+    }
+
+    if (filterBuilding !== "ALL" && m.building !== filterBuilding) {
+      return false;
+    }
+    if (filterShift !== "ALL" && m.shift !== filterShift) {
+      return false;
+    }
+    return true;
+  }
+
+  const scopedMessages = messages.filter(inViewScope);
+  const filteredMessages =
+    filterChannel === "ALL" ? scopedMessages : scopedMessages.filter((m) => m.channel === filterChannel);
+
+  const unreadByChannel = chatUnreadCounts(scopedMessages, lastRead, currentUser?.email);
+
+  // Replies are listed under their thread, not on their own
+  const threads = filteredMessages.filter((m) => !m.parentId);
+  const repliesByParent = chatRepliesByParent(scopedMessages);
+
+  const selfEmail = (currentUser?.email || "").toLowerCase();
+  const dmPeople = people.filter((p) => p.email !== selfEmail);
+
+  function personName(email: string): string {
+    return people.find((p) => p.email === email)?.name || email;
+  }
 
   const effectiveFilterBuilding =
     isLead && leadBuilding ? leadBuilding : filterBuilding;
@@ -175,25 +215,30 @@ export default function ChatsPage() {
     setError(null);
 
     try {
-      const payload = {
-        building: isLead && leadBuilding ? leadBuilding : building,
-        shift,
-        channel,
-        message: trimmed,
-        author_name: currentUser?.name ?? null,
-        author_email: currentUser?.email ?? null,
-        author_role: currentUser?.accessRole ?? null,
-      };
-
-      const { error } = await supabase.from("chats").insert(payload);
-
-      if (error) {
-        console.error("Error sending chat message", error);
-        setError("Failed to send message.");
+      // The server fills in the author, resolves @mentions and notifies
+      const payload = replyTo
+        ? { message: trimmed, parent_id: replyTo.parentId ?? replyTo.id }
+        : recipient
+          ? { message: trimmed, recipient_email: recipient }
+          : {
+              message: trimmed,
+              building: isLead && leadBuilding ? leadBuilding : building,
+              shift,
+              channel,
+            };
+
+      const res = await apiFetch("/api/chats", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to send message."));
         return;
       }
 
       setText("");
+      setReplyTo(null);
       await refreshFromSupabase();
     } catch (e) {
       console.error("Unexpected error sending message", e);
@@ -204,27 +249,25 @@ export default function ChatsPage() {
   }
 
   async function handleDelete(id: string) {
-    if (!currentUser || !isSuperAdmin) {
+    if (!currentUser || !canDelete) {
       // Extra safety on the client side
       return;
     }
 
     if (typeof window !== "undefined") {
-      const ok = window.confirm("Delete this message?");
+      const ok = window.confirm("Delete this message and its replies?");
       if (!ok) return;
     }
 
     setError(null);
 
     try {
-      const { error } = await supabase
-        .from("chats")
-        .delete()
-        .eq("id", id);
-
-      if (error) {
-        console.error("Error deleting chat message", error);
-        setError("Failed to delete message.");
+      const res = await apiFetch(`/api/chats/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to delete message."));
         return;
       }
 
@@ -235,6 +278,86 @@ export default function ChatsPage() {
     }
   }
 
+  function renderMessage(m: ChatMessage) {
+    const partner = isDirectMessage(m) ? directMessagePartner(m, selfEmail) : "";
+    return (
+      <div className="rounded-xl border border-slate-800 bg-slate-950 px-3 py-2 flex gap-3">
+        <div className="pt-1">
+          <div className="w-8 h-8 rounded-full bg-slate-800 flex items-center justify-center text-[10px] text-slate-200">
+            {m.authorName
+              ? m.authorName
+                  .split(" ")
+                  .map((p) => p[0])
+                  .join("")
+                  .toUpperCase()
+                  .slice(0, 2)
+              : "??"}
+          </div>
+        </div>
+        <div className="flex-1 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="text-[11px] text-slate-200 font-medium">
+                {m.authorName || "Unknown User"}
+                {m.authorRole && (
+                  <span className="ml-1 inline-flex items-center rounded-full border border-slate-700 bg-slate-900 px-2 py-0.5 text-[9px] text-sky-200">
+                    {m.authorRole}
+                  </span>
+                )}
+              </div>
+              <div className="text-[10px] text-slate-500">
+                {partner
+                  ? `Direct message with ${personName(partner)}`
+                  : `${m.building} • ${m.shift} • ${m.channel}`}
+              </div>
+            </div>
+            <div className="text-right space-y-1">
+              <div className="text-[10px] text-slate-500 font-mono">
+                {m.createdAt.slice(0, 10)} {m.createdAt.slice(11, 16)}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setReplyTo(m)}
+                  className="text-[10px] text-sky-300 hover:underline"
+                >
+                  Reply
+                </button>
+                {canDelete && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(m.id)}
+                    className="text-[10px] text-rose-300 hover:underline"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="text-[11px] text-slate-100 whitespace-pre-wrap">
+            {splitChatMentions(m.message, people).map((part, i) =>
+              part.mention ? (
+                <span
+                  key={i}
+                  className={
+                    part.mention.email === selfEmail
+                      ? "rounded bg-amber-500/20 px-0.5 font-medium text-amber-200"
+                      : "font-medium text-sky-300"
+                  }
+                >
+                  {part.text}
+                </span>
+              ) : (
+                <span key={i}>{part.text}</span>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Route protection
   if (!currentUser) {
     return (
@@ -335,61 +458,108 @@ export default function ChatsPage() {
             </div>
 
             <form onSubmit={handleSend} className="space-y-3">
-              <div className="grid grid-cols-2 gap-2">
-                <div>
-                  <label className="block text-[11px] text-slate-400 mb-1">
-                    Building
-                  </label>
-                  <select
-                    className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
-                    value={isLead && leadBuilding ? leadBuilding : building}
-                    onChange={(e) => setBuilding(e.target.value)}
-                    disabled={isLead && !!leadBuilding}
-                  >
-                    {BUILDINGS.map((b) => {
-                      if (isLead && leadBuilding && b !== leadBuilding) return null;
-                      return (
-                        <option key={b} value={b}>
-                          {b}
-                        </option>
-                      );
-                    })}
-                  </select>
+              {replyTo ? (
+                <div className="rounded-lg border border-sky-800 bg-sky-950/40 px-3 py-2 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-[11px] text-sky-200">
+                      Replying to {replyTo.authorName || "Unknown User"}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setReplyTo(null)}
+                      className="text-[10px] text-slate-400 hover:underline"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                  <div className="text-[10px] text-slate-400 line-clamp-2">
+                    {replyTo.message}
+                  </div>
                 </div>
+              ) : (
                 <div>
                   <label className="block text-[11px] text-slate-400 mb-1">
-                    Shift
+                    Send To
                   </label>
                   <select
                     className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
-                    value={shift}
-                    onChange={(e) => setShift(e.target.value)}
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value)}
                   >
-                    {SHIFTS.map((s) => (
-                      <option key={s} value={s}>
-                        {s}
-                      </option>
-                    ))}
+                    <option value="">Building / shift channel</option>
+                    {dmPeople.length > 0 && (
+                      <optgroup label="Direct message">
+                        {dmPeople.map((p) => (
+                          <option key={p.email} value={p.email}>
+                            {p.name}
+                            {p.building ? ` (${p.building})` : ""}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
                   </select>
                 </div>
-              </div>
+              )}
 
-              <div>
-                <label className="block text-[11px] text-slate-400 mb-1">
-                  Channel
-                </label>
-                <select
-                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
-                  value={channel}
-                  onChange={(e) => setChannel(e.target.value)}
-                >
-                  {CHANNELS.map((c) => (
-                    <option key={c} value={c}>
-                      {c}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {!replyTo && !recipient && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-[11px] text-slate-400 mb-1">
+                        Building
+                      </label>
+                      <select
+                        className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                        value={isLead && leadBuilding ? leadBuilding : building}
+                        onChange={(e) => setBuilding(e.target.value)}
+                        disabled={isLead && !!leadBuilding}
+                      >
+                        {BUILDINGS.map((b) => {
+                          if (isLead && leadBuilding && b !== leadBuilding) return null;
+                          return (
+                            <option key={b} value={b}>
+                              {b}
+                            </option>
+                          );
+                        })}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-[11px] text-slate-400 mb-1">
+                        Shift
+                      </label>
+                      <select
+                        className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                        value={shift}
+                        onChange={(e) => setShift(e.target.value)}
+                      >
+                        {SHIFTS.map((s) => (
+                          <option key={s} value={s}>
+                            {s}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-[11px] text-slate-400 mb-1">
+                      Channel
+                    </label>
+                    <select
+                      className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                      value={channel}
+                      onChange={(e) => setChannel(e.target.value)}
+                    >
+                      {CHANNELS.map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
 
               <div>
                 <label className="block text-[11px] text-slate-400 mb-1">
@@ -398,7 +568,13 @@ export default function ChatsPage() {
                 <textarea
                   rows={4}
                   className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50 resize-none"
-                  placeholder="Quick update for this shift…"
+                  placeholder={
+                    replyTo
+                      ? "Reply in this thread…"
+                      : recipient
+                        ? `Message ${personName(recipient)}…`
+                        : "Quick update for this shift… (@Name to mention someone)"
+                  }
                   value={text}
                   onChange={(e) => setText(e.target.value)}
                 />
@@ -409,12 +585,14 @@ export default function ChatsPage() {
                 disabled={sending || !text.trim()}
                 className="w-full rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-60 text-[11px] font-medium text-white px-4 py-2"
               >
-                {sending ? "Sending…" : "Send Message"}
+                {sending ? "Sending…" : replyTo ? "Send Reply" : "Send Message"}
               </button>
 
               <p className="text-[10px] text-slate-500 mt-1">
-                Messages are visible to anyone with access to this dashboard,
-                filtered by building/shift/channel.
+                Channel messages are visible to anyone with access to this
+                dashboard, filtered by building/shift/channel. Direct messages
+                are only visible to the two of you. Mentioned people get a
+                notification.
               </p>
             </form>
           </div>
@@ -462,20 +640,25 @@ export default function ChatsPage() {
                 <select
                   className="rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-slate-50"
                   value={filterChannel}
-                  onChange={(e) => setFilterChannel(e.target.value)}
+                  onChange={(e) => selectChannel(e.target.value)}
                 >
                   <option value="ALL">All Channels</option>
                   {CHANNELS.map((c) => (
                     <option key={c} value={c}>
                       {c}
+                      {unreadByChannel[c] ? ` (${unreadByChannel[c]})` : ""}
                     </option>
                   ))}
+                  <option value={DIRECT_CHANNEL}>
+                    Direct Messages
+                    {unreadByChannel[DIRECT_CHANNEL] ? ` (${unreadByChannel[DIRECT_CHANNEL]})` : ""}
+                  </option>
                 </select>
                 <button
                   type="button"
                   onClick={() => {
                     setFilterShift("ALL");
-                    setFilterChannel("ALL");
+                    selectChannel("ALL");
                     setFilterBuilding(isLead && leadBuilding ? leadBuilding : "ALL");
                   }}
                   className="text-[11px] text-sky-300 hover:underline"
@@ -485,66 +668,54 @@ export default function ChatsPage() {
               </div>
             </div>
 
-            {filteredMessages.length === 0 ? (
+            {/* Channels with unread counts */}
+            <div className="flex flex-wrap gap-2">
+              {INBOXES.map((c) => {
+                const active = filterChannel === c;
+                const unread = unreadByChannel[c] ?? 0;
+                return (
+                  <button
+                    key={c}
+                    type="button"
+                    onClick={() => selectChannel(active ? "ALL" : c)}
+                    className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-[11px] ${
+                      active
+                        ? "border-sky-600 bg-sky-900/40 text-sky-100"
+                        : "border-slate-700 bg-slate-950 text-slate-300 hover:bg-slate-800"
+                    }`}
+                  >
+                    {c}
+                    {unread > 0 && (
+                      <span className="rounded-full bg-rose-600 px-1.5 text-[10px] font-semibold text-white">
+                        {unread}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {threads.length === 0 ? (
               <p className="text-sm text-slate-500">
                 No messages match the current filters.
               </p>
             ) : (
               <div className="space-y-2 max-h-[520px] overflow-auto pr-1">
-                {filteredMessages.map((m) => (
-                  <div
-                    key={m.id}
-                    className="rounded-xl border border-slate-800 bg-slate-950 px-3 py-2 flex gap-3"
-                  >
-                    <div className="pt-1">
-                      <div className="w-8 h-8 rounded-full bg-slate-800 flex items-center justify-center text-[10px] text-slate-200">
-                        {m.authorName
-                          ? m.authorName
-                              .split(" ")
-                              .map((p) => p[0])
-                              .join("")
-                              .toUpperCase()
-                              .slice(0, 2)
-                          : "??"}
-                      </div>
-                    </div>
-                    <div className="flex-1 space-y-1">
-                      <div className="flex items-start justify-between gap-2">
-                        <div>
-                          <div className="text-[11px] text-slate-200 font-medium">
-                            {m.authorName || "Unknown User"}
-                            {m.authorRole && (
-                              <span className="ml-1 inline-flex items-center rounded-full border border-slate-700 bg-slate-900 px-2 py-0.5 text-[9px] text-sky-200">
-                                {m.authorRole}
-                              </span>
-                            )}
-                          </div>
-                          <div className="text-[10px] text-slate-500">
-                            {m.building} • {m.shift} • {m.channel}
-                          </div>
+                {threads.map((m) => {
+                  const replies = repliesByParent.get(m.id) ?? [];
+                  return (
+                    <div key={m.id} className="space-y-1">
+                      {renderMessage(m)}
+                      {replies.length > 0 && (
+                        <div className="ml-10 space-y-1 border-l border-slate-800 pl-3">
+                          {replies.map((r) => (
+                            <div key={r.id}>{renderMessage(r)}</div>
+                          ))}
                         </div>
-                        <div className="text-right space-y-1">
-                          <div className="text-[10px] text-slate-500 font-mono">
-                            {m.createdAt.slice(0, 10)}{" "}
-                            {m.createdAt.slice(11, 16)}
-                          </div>
-                          {isSuperAdmin && (
-                            <button
-                              type="button"
-                              onClick={() => handleDelete(m.id)}
-                              className="text-[10px] text-rose-300 hover:underline"
-                            >
-                              Delete
-                            </button>
-                          )}
-                        </div>
-                      </div>
-                      <div className="text-[11px] text-slate-100 whitespace-pre-wrap">
-                        {m.message}
-                      </div>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { containerDateNY, mapContainerRow, type ContainerRow } from "@/lib/domain";
+import { RecordHistory } from "@/app/record-history";
+
+type Tab = "details" | "history";
+
+function BackLink({ workOrderId }: { workOrderId?: string | null }) {
+  return (
+    <Link
+      href={workOrderId ? `/work-orders/${workOrderId}` : "/containers"}
+      className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+    >
+      {workOrderId ? "← Back to Work Order" : "← Back to Containers"}
+    </Link>
+  );
+}
+
+export default function ContainerDetailPage() {
+  const params = useParams();
+  const containerId = String((params as { id?: string })?.id ?? "");
+  const currentUser = useCurrentUser();
+
+  const [container, setContainer] = useState<ContainerRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<Tab>("details");
+
+  useEffect(() => {
+    if (!currentUser || !containerId) return;
+    let cancelled = false;
+
+    async function load() {
+      const res = await apiFetch(`/api/containers/${containerId}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load container."));
+        return;
+      }
+      setContainer(mapContainerRow(await res.json()));
+    }
+
+    void load()
+      .catch((e) => {
+        console.error("Error loading container detail", e);
+        if (!cancelled) setError("Unexpected error loading container.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, containerId]);
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex flex-col items-center justify-center text-sm gap-2">
+        <div>Redirecting to login…</div>
+        <a href="/auth" className="text-sky-400 text-xs underline hover:text-sky-300">
+          Click here if you are not redirected.
+        </a>
+      </div>
+    );
+  }
+
+  if (error || loading || !container) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+        <div className="mx-auto max-w-5xl p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-slate-50">Container</h1>
+            <BackLink />
+          </div>
+          {error ? (
+            <div className="rounded-lg border border-rose-700 bg-rose-950/40 px-4 py-3 text-xs text-rose-100">{error}</div>
+          ) : (
+            <p className="text-sm text-slate-400">Loading container…</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const facts: [string, string][] = [
+    ["Work date", containerDateNY(container)],
+    ["Building", container.building],
+    ["Shift", container.shift ?? "—"],
+    ["Pieces", String(container.pieces_total)],
+    ["SKUs", String(container.skus_total)],
+    ["Type", container.palletized ? "Palletized" : "Loose"],
+    ["Damage pieces", String(container.damage_pieces)],
+    ["Rework pieces", String(container.rework_pieces)],
+    ["Pay total", `$${Number(container.pay_total).toFixed(2)}`],
+    ["Entered by", container.created_by_email ?? "—"],
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-5xl p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Container {container.container_no}</h1>
+            <p className="text-sm text-slate-400">
+              Building {container.building} · {container.shift ?? "—"} shift · {containerDateNY(container)}
+            </p>
+          </div>
+          <BackLink workOrderId={container.work_order_id} />
+        </div>
+
+        <div className="flex gap-2 text-xs">
+          {(["details", "history"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={
+                "px-3 py-1 rounded-full border " +
+                (tab === t
+                  ? "border-sky-600 bg-sky-900/50 text-sky-100"
+                  : "border-slate-700 bg-slate-900 text-slate-300 hover:bg-slate-800")
+              }
+            >
+              {t === "details" ? "Details" : "History"}
+            </button>
+          ))}
+        </div>
+
+        {tab === "details" ? (
+          <>
+            <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs grid grid-cols-2 md:grid-cols-5 gap-3">
+              {facts.map(([label, value]) => (
+                <div key={label}>
+                  <div className="text-[11px] text-slate-400">{label}</div>
+                  <div className="text-slate-100 truncate">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+              <div className="text-slate-200 text-sm font-semibold">Workers</div>
+              {container.workers.length === 0 ? (
+                <p className="text-[11px] text-slate-400">No workers on this container.</p>
+              ) : (
+                <table className="min-w-full border-collapse">
+                  <thead>
+                    <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                      <th className="text-left py-2 pr-3">Worker</th>
+                      <th className="text-right py-2 pr-3">Minutes</th>
+                      <th className="text-right py-2 pr-3">%</th>
+                      <th className="text-right py-2 pr-3">Payout</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {container.workers.map((w, i) => (
+                      <tr key={`${w.workforceId ?? w.name}-${i}`} className="border-b border-slate-800/60">
+                        <td className="py-2 pr-3 text-[11px] text-slate-200">{w.name}</td>
+                        <td className="py-2 pr-3 text-right text-[11px] text-slate-200">{w.minutesWorked}</td>
+                        <td className="py-2 pr-3 text-right text-[11px] text-slate-200">{w.percentContribution}</td>
+                        <td className="py-2 pr-3 text-right text-[11px] text-emerald-300">${Number(w.payout).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+            <div>
+              <div className="text-slate-200 text-sm font-semibold">Change History</div>
+              <div className="text-[11px] text-slate-500">Every change to this container, newest first.</div>
+            </div>
+            <RecordHistory table="containers" recordId={container.id} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,44 +2,43 @@
 
 import { useEffect, useMemo, useState, FormEvent, useCallback } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { saveOrQueue } from "@/lib/offlineQueue";
 import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useRealtimeTable } from "@/lib/useRealtimeTable";
+import { applyRealtimeChange } from "@/lib/realtime";
+import { WorkerPicker } from "@/app/worker-picker";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { BUILDINGS } from "@/lib/buildings";
-
-const CONTAINERS_KEY = "precisionpulse_containers";
+import { nyISODate } from "@/lib/time";
+import {
+  approxEqual,
+  blankWorker,
+  CONTAINERS_TABLE,
+  containerDateNY,
+  fetchContainers,
+  fetchWorkforce,
+  fetchWorkOrderCustomerId,
+  mapContainerRow,
+  workforceForBuilding,
+  writeLocalContainers,
+  type ContainerRow,
+  type WorkerContribution,
+  type WorkforceWorker,
+} from "@/lib/domain";
+import {
+  applyWorkerPayouts,
+  calculateContainerPay,
+  describePalletized,
+  loadPayScales,
+  resolvePayScale,
+  type PayScaleSchedule,
+} from "@/lib/payScale";
 
 const SHIFTS = ["1st", "2nd", "3rd", "4th"] as const;
 type ShiftName = (typeof SHIFTS)[number];
 
-type WorkerContribution = {
-  name: string;
-  minutesWorked: number;
-  percentContribution: number;
-  payout: number;
-};
-
-type ContainerRow = {
-  id: string;
-  created_at: string;
-  building: string;
-  shift: string | null;
-  work_date: string | null;
-  container_no: string;
-  pieces_total: number;
-  skus_total: number;
-  pay_total: number;
-  workers: WorkerContribution[];
-  damage_pieces: number;
-  rework_pieces: number;
-  work_order_id: string | null;
-
-  // ✅ NEW
-  palletized?: boolean | null;
-
-  created_by_user_id?: string | null;
-  created_by_email?: string | null;
-};
-
 type EditFormState = {
   id?: string;
   building: string;
@@ -56,64 +55,6 @@ type EditFormState = {
   workers: WorkerContribution[];
 };
 
-function calculateContainerPay(pieces: number, palletized: boolean): number {
-  // ✅ Palletized overrides everything
-  if (palletized) return 100;
-
-  if (pieces <= 0) return 0;
-  if (pieces <= 500) return 100;
-  if (pieces <= 1500) return 130;
-  if (pieces <= 3500) return 180;
-  if (pieces <= 5500) return 230;
-  if (pieces <= 7500) return 280;
-  const extra = pieces - 7500;
-  return 280 + extra * 0.05;
-}
-
-/**
- * ✅ NEW YORK TIME HELPERS (fixes the "tomorrow" bug from UTC toISOString)
- * We compute YYYY-MM-DD based on America/New_York.
- */
-function nyISODate(d: Date = new Date()): string {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(d);
-
-  const y = parts.find((p) => p.type === "year")?.value ?? "1970";
-  const m = parts.find((p) => p.type === "month")?.value ?? "01";
-  const day = parts.find((p) => p.type === "day")?.value ?? "01";
-  return `${y}-${m}-${day}`;
-}
-
-function todayISODate() {
-  return nyISODate();
-}
-
-/**
- * Display helper for date cells:
- * - Prefer work_date (already YYYY-MM-DD)
- * - Fallback to created_at interpreted in NY time
- */
-function formatDateCellNY(work_date: string | null, created_at: string): string {
-  if (work_date && String(work_date).length >= 10) return String(work_date).slice(0, 10);
-
-  // created_at is often ISO with Z; format it in NY time
-  const d = new Date(created_at);
-  if (Number.isNaN(d.getTime())) return String(created_at).slice(0, 10);
-  return nyISODate(d);
-}
-
-function blankWorker(): WorkerContribution {
-  return { name: "", minutesWorked: 0, percentContribution: 0, payout: 0 };
-}
-
-function approxEqual(a: number, b: number, tolerance = 0.01): boolean {
-  return Math.abs(a - b) <= tolerance;
-}
-
 function extractSupabaseError(err: unknown): Record<string, unknown> {
   const extracted: Record<string, unknown> = {
     type: typeof err,
@@ -139,25 +80,6 @@ function logSupabase(label: string, err: unknown, level: "error" | "warn" = "err
   logger(label, extracted);
 }
 
-function formatSupabaseError(err: unknown): string {
-  const e = extractSupabaseError(err);
-  const msg =
-    (typeof e.message === "string" && e.message) ||
-    (typeof e.details === "string" && e.details) ||
-    (typeof e.hint === "string" && e.hint) ||
-    "";
-  return msg || "Unknown error (check console).";
-}
-
-function isMissingOwnershipColumnError(err: unknown): boolean {
-  const e = extractSupabaseError(err);
-  const msg = String(e.message ?? e.details ?? e.hint ?? "").toLowerCase();
-  return (
-    msg.includes("does not exist") &&
-    (msg.includes("created_by_user_id") || msg.includes("created_by_email"))
-  );
-}
-
 export default function ContainersPage() {
   const currentUser = useCurrentUser();
   const router = useRouter();
@@ -195,12 +117,19 @@ export default function ContainersPage() {
   const [containers, setContainers] = useState<ContainerRow[]>([]);
   const [showForm, setShowForm] = useState(false);
 
-  const [ownershipColsSupported, setOwnershipColsSupported] = useState<boolean | null>(null);
+  // ✅ Pay schedules (priced by the schedule in effect on work_date)
+  const [payScales, setPayScales] = useState<PayScaleSchedule[]>([]);
+
+  // ✅ Roster for the worker picker
+  const [workforce, setWorkforce] = useState<WorkforceWorker[]>([]);
+
+  // ✅ Customer behind the edited container's work order (customer pay scale overrides)
+  const [formCustomerId, setFormCustomerId] = useState<string | null>(null);
 
   const [formState, setFormState] = useState<EditFormState>(() => ({
     building: currentUser?.building || BUILDINGS[0] || "DC18",
     shift: "1st",
-    workDate: todayISODate(), // ✅ NY time
+    workDate: nyISODate(), // ✅ NY time
     containerNo: "",
     piecesTotal: 0,
     skusTotal: 0,
@@ -209,57 +138,39 @@ export default function ContainersPage() {
     workers: [blankWorker()],
   }));
 
-  // Probe ownership columns for containers
   useEffect(() => {
     if (!currentUser) return;
-
     let cancelled = false;
 
-    async function probe() {
-      try {
-        const { error } = await supabase
-          .from("containers")
-          .select("created_by_user_id,created_by_email")
-          .limit(1);
-
-        if (cancelled) return;
-
-        if (error) {
-          setOwnershipColsSupported(false);
-          logSupabase("Containers ownership probe failed (treated as unsupported)", error, "warn");
-        } else {
-          setOwnershipColsSupported(true);
-        }
-      } catch (e) {
-        if (!cancelled) setOwnershipColsSupported(false);
-        logSupabase("Containers ownership probe threw (treated as unsupported)", e, "warn");
-      }
-    }
+    loadPayScales(supabase).then(({ data, error }) => {
+      if (error) logSupabase("Error loading pay scales (previewing the default scale)", error, "warn");
+      if (!cancelled) setPayScales(data);
+    });
+
+    fetchWorkforce(supabase).then(({ data, error }) => {
+      if (error) logSupabase("Error loading workforce", error, "warn");
+      if (!cancelled) setWorkforce(data);
+    });
 
-    probe();
     return () => {
       cancelled = true;
     };
   }, [currentUser]);
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchWorkOrderCustomerId(supabase, formState.workOrderId).then(({ data, error }) => {
+      if (error) logSupabase("Error loading work order customer", error, "warn");
+      if (!cancelled) setFormCustomerId(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [formState.workOrderId]);
+
   const persistContainersLocal = useCallback((rows: ContainerRow[]) => {
     try {
-      const mappedForLocal = rows.map((row) => ({
-        id: row.id,
-        building: row.building,
-        shift: row.shift ?? "",
-        date: row.work_date ?? row.created_at,
-        createdAt: row.created_at,
-        containerNo: row.container_no,
-        piecesTotal: row.pieces_total,
-        skusTotal: row.skus_total,
-        containerPayTotal: row.pay_total,
-        workOrderId: row.work_order_id,
-        workers: row.workers || [],
-        palletized: !!row.palletized, // ✅ NEW
-      }));
-      if (typeof window !== "undefined")
-        window.localStorage.setItem(CONTAINERS_KEY, JSON.stringify(mappedForLocal));
+      writeLocalContainers(rows);
     } catch (e) {
       logSupabase("Failed to write containers to localStorage", e, "warn");
     }
@@ -272,13 +183,11 @@ export default function ContainersPage() {
     setError(null);
 
     try {
-      let query = supabase.from("containers").select("*").order("created_at", { ascending: false });
-
       // Even though Leads/Managers are redirected, keep it safe:
-      if ((isLead || isBuildingManager) && currentUser.building)
-        query = query.eq("building", currentUser.building);
-
-      const { data, error } = await query;
+      const scoped = (isLead || isBuildingManager) && currentUser.building;
+      const { data: rows, error } = await fetchContainers(supabase, {
+        building: scoped ? currentUser.building : null,
+      });
 
       if (error) {
         logSupabase("Error loading containers", error, "error");
@@ -286,20 +195,6 @@ export default function ContainersPage() {
         return;
       }
 
-      const rows: ContainerRow[] =
-        (data as unknown as ContainerRow[])?.map((row) => ({
-          ...row,
-          workers: (row.workers || []) as WorkerContribution[],
-          work_order_id: row.work_order_id ?? null,
-          shift: (row.shift ?? null) as string | null,
-          work_date: (row.work_date ?? null) as string | null,
-          palletized: (row as unknown as { palletized?: boolean | null }).palletized ?? null, // ✅ NEW
-          created_by_user_id:
-            (row as unknown as { created_by_user_id?: string | null }).created_by_user_id ?? null,
-          created_by_email:
-            (row as unknown as { created_by_email?: string | null }).created_by_email ?? null,
-        })) ?? [];
-
       setContainers(rows);
       persistContainersLocal(rows);
     } catch (e) {
@@ -314,11 +209,21 @@ export default function ContainersPage() {
     loadContainers();
   }, [loadContainers]);
 
+  // ✅ Live: containers saved elsewhere (work orders page, other users) merge in
+  const liveBuilding = (isLead || isBuildingManager) && currentUser?.building ? currentUser.building : null;
+  useRealtimeTable(CONTAINERS_TABLE, { enabled: !!currentUser, building: liveBuilding }, (change) =>
+    setContainers((prev) => {
+      const next = applyRealtimeChange(prev, change, { map: mapContainerRow, position: "start" });
+      if (next !== prev) persistContainersLocal(next);
+      return next;
+    })
+  );
+
   function resetForm() {
     setFormState({
       building: currentUser?.building || BUILDINGS[0] || "DC18",
       shift: "1st",
-      workDate: todayISODate(), // ✅ NY time
+      workDate: nyISODate(), // ✅ NY time
       containerNo: "",
       piecesTotal: 0,
       skusTotal: 0,
@@ -338,7 +243,7 @@ export default function ContainersPage() {
       id: row.id,
       building: row.building,
       shift: ((row.shift as ShiftName) || "1st") as ShiftName,
-      workDate: row.work_date ? String(row.work_date).slice(0, 10) : nyISODate(new Date(row.created_at)),
+      workDate: containerDateNY(row),
       containerNo: row.container_no,
       piecesTotal: row.pieces_total,
       skusTotal: row.skus_total,
@@ -374,18 +279,46 @@ export default function ContainersPage() {
     });
   }
 
-  const { payForForm, workersWithPayout, percentSum } = useMemo(() => {
-    const pieces = formState.piecesTotal || 0;
-    const pay = calculateContainerPay(pieces, formState.palletized);
+  function handleWorkerPick(index: number, pick: Pick<WorkerContribution, "name" | "workforceId">) {
+    setFormState((prev) => {
+      const workers = [...prev.workers];
+      workers[index] = { ...workers[index], ...pick };
+      return { ...prev, workers };
+    });
+  }
+
+  const workforceOptions = useMemo(
+    () => workforceForBuilding(workforce, formState.building),
+    [workforce, formState.building]
+  );
+
+  const { payForForm, workersWithPayout, percentSum, scheduleForForm } = useMemo(() => {
+    const schedule = resolvePayScale(payScales, {
+      workDate: formState.workDate,
+      building: formState.building,
+      customerId: formCustomerId,
+    });
 
-    const workers = (formState.workers || []).map((w) => {
-      const pct = Number(w.percentContribution || 0);
-      return { ...w, payout: (pay * pct) / 100 };
+    const pay = calculateContainerPay(formState.piecesTotal || 0, {
+      palletized: formState.palletized,
+      skusTotal: formState.skusTotal,
+      schedule,
     });
 
+    const workers = applyWorkerPayouts(pay, formState.workers || []);
+
     const sumPct = workers.reduce((sum, w) => sum + (Number(w.percentContribution) || 0), 0);
-    return { payForForm: pay, workersWithPayout: workers, percentSum: sumPct };
-  }, [formState.piecesTotal, formState.workers, formState.palletized]);
+    return { payForForm: pay, workersWithPayout: workers, percentSum: sumPct, scheduleForForm: schedule };
+  }, [
+    payScales,
+    formCustomerId,
+    formState.workDate,
+    formState.building,
+    formState.piecesTotal,
+    formState.skusTotal,
+    formState.workers,
+    formState.palletized,
+  ]);
 
   const isPercentValid = approxEqual(percentSum, 100, 0.02) || approxEqual(percentSum, 0, 0.0001);
 
@@ -401,7 +334,7 @@ export default function ContainersPage() {
     if (formState.piecesTotal <= 0) return setError("Pieces total must be greater than 0.");
 
     const finalWorkers = workersWithPayout.filter(
-      (w) => w.name.trim() && Number(w.percentContribution) > 0
+      (w) => (w.workforceId || w.name.trim()) && Number(w.percentContribution) > 0
     );
 
     if (finalWorkers.length > 0 && !approxEqual(percentSum, 100, 0.02)) {
@@ -412,61 +345,51 @@ export default function ContainersPage() {
     setSaving(true);
 
     try {
-      const basePayload: Record<string, unknown> = {
+      // ✅ Server re-prices the container and payouts from these inputs
+      const payload = {
         building: formState.building,
         shift: formState.shift,
-        work_date: formState.workDate,
-        container_no: formState.containerNo.trim(),
-        pieces_total: formState.piecesTotal,
-        skus_total: formState.skusTotal,
-        pay_total: payForForm,
-        damage_pieces: 0,
-        rework_pieces: 0,
-        workers: finalWorkers,
-        work_order_id: formState.workOrderId || null,
+        workDate: formState.workDate,
+        containerNo: formState.containerNo.trim(),
+        piecesTotal: formState.piecesTotal,
+        skusTotal: formState.skusTotal,
+        workOrderId: formState.workOrderId || null,
         palletized: formState.palletized, // ✅ NEW
+        workers: finalWorkers.map((w) => ({
+          name: w.name,
+          workforceId: w.workforceId,
+          minutesWorked: w.minutesWorked,
+          percentContribution: w.percentContribution,
+        })),
       };
 
-      if (formState.id) {
-        const existing = containers.find((c) => c.id === formState.id);
-        if (!existing || !canLeadEdit(existing)) {
-          setError("Not allowed.");
-          return;
-        }
-
-        const { error } = await supabase.from("containers").update(basePayload).eq("id", formState.id);
-        if (error) {
-          logSupabase("Error updating container", error, "error");
-          setError(formatSupabaseError(error) || "Failed to update container.");
-          return;
-        }
-      } else {
-        let createPayload: Record<string, unknown> = { ...basePayload };
-
-        if (ownershipColsSupported) {
-          createPayload = {
-            ...createPayload,
-            created_by_user_id: currentUser?.id ?? null,
-            created_by_email: currentUser?.email ?? null,
-          };
-        }
-
-        let res = await supabase.from("containers").insert(createPayload).select("id").single();
-
-        if (res.error && ownershipColsSupported && isMissingOwnershipColumnError(res.error)) {
-          logSupabase("Insert failed (ownership cols missing) — retrying", res.error, "warn");
-          setOwnershipColsSupported(false);
-          res = await supabase.from("containers").insert(basePayload).select("id").single();
-        }
-
-        if (res.error) {
-          logSupabase("Error creating container", res.error, "error");
-          setError(formatSupabaseError(res.error) || "Failed to create container.");
-          return;
-        }
+      const existing = formState.id ? containers.find((c) => c.id === formState.id) : null;
+      if (formState.id && (!existing || !canLeadEdit(existing))) {
+        setError("Not allowed.");
+        return;
       }
 
-      await loadContainers();
+      // ✅ Queued on this device when the dock has no signal; the sync badge tracks it
+      const saved = await saveOrQueue({
+        kind: "container",
+        label: `Container ${payload.containerNo}`,
+        method: formState.id ? "PATCH" : "POST",
+        url: formState.id ? `/api/containers/${formState.id}` : "/api/containers",
+        body: payload,
+        baseUpdatedAt: existing?.updated_at ?? null,
+      });
+
+      if (!saved.queued && !saved.res.ok) {
+        const message = await apiErrorMessage(
+          saved.res,
+          formState.id ? "Failed to update container." : "Failed to create container."
+        );
+        logSupabase(formState.id ? "Error updating container" : "Error creating container", message, "error");
+        setError(message);
+        return;
+      }
+
+      if (!saved.queued) await loadContainers();
       setShowForm(false);
       resetForm();
     } catch (e) {
@@ -493,10 +416,11 @@ export default function ContainersPage() {
     setError(null);
 
     try {
-      const { error } = await supabase.from("containers").delete().eq("id", id);
-      if (error) {
-        logSupabase("Failed to delete container", error, "error");
-        setError(formatSupabaseError(error) || "Failed to delete container.");
+      const res = await apiFetch(`/api/containers/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const message = await apiErrorMessage(res, "Failed to delete container.");
+        logSupabase("Failed to delete container", message, "error");
+        setError(message);
         return;
       }
       await loadContainers();
@@ -567,7 +491,7 @@ export default function ContainersPage() {
           <div>
             <h1 className="text-2xl font-semibold text-slate-50">Containers</h1>
             <p className="text-sm text-slate-400">
-              Admin view — add/edit containers. Palletized pays a flat $100.
+              Admin view — add/edit containers. Pay follows the schedule in effect on each work date.
             </p>
           </div>
           <div className="flex items-center gap-2">
@@ -622,11 +546,15 @@ export default function ContainersPage() {
               {containers.map((c) => (
                 <tr key={c.id} className="border-b border-slate-800/60 hover:bg-slate-900/70">
                   <td className="py-2 pr-3 text-[11px] text-slate-400">
-                    {formatDateCellNY(c.work_date, c.created_at)}
+                    {containerDateNY(c)}
                   </td>
                   <td className="py-2 pr-3 text-[11px] text-slate-200">{c.building}</td>
                   <td className="py-2 pr-3 text-[11px] text-slate-200">{c.shift ?? "—"}</td>
-                  <td className="py-2 pr-3 text-[11px] text-slate-200">{c.container_no}</td>
+                  <td className="py-2 pr-3 text-[11px]">
+                    <Link href={`/containers/${c.id}`} className="text-sky-300 hover:underline">
+                      {c.container_no}
+                    </Link>
+                  </td>
                   <td className="py-2 pr-3 text-right text-[11px] text-slate-200">{c.pieces_total}</td>
                   <td className="py-2 pr-3 text-right text-[11px] text-slate-200">{c.skus_total}</td>
                   <td className="py-2 pr-3 text-[11px] text-slate-200">{c.palletized ? "Palletized" : "Loose"}</td>
@@ -748,9 +676,10 @@ export default function ContainersPage() {
                       onChange={(e) => setFormState((prev) => ({ ...prev, palletized: e.target.checked }))}
                     />
                     <label htmlFor="palletized" className="text-[11px] text-slate-200">
-                      Palletized (flat $100 — overrides payscale)
+                      Palletized ({describePalletized(scheduleForForm)})
                     </label>
                     <div className="ml-auto text-[11px] text-slate-400">
+                      Schedule: <span className="text-slate-200">{scheduleForForm.name}</span> ·{" "}
                       Pay Total:{" "}
                       <span className="text-emerald-300 font-semibold">${payForForm.toFixed(2)}</span>
                     </div>
@@ -770,7 +699,7 @@ export default function ContainersPage() {
                     />
                     {formState.palletized && (
                       <div className="mt-1 text-[10px] text-slate-500">
-                        Pieces are still required for tracking, but pay is forced to $100 when palletized.
+                        Pieces are still required for tracking. {describePalletized(scheduleForForm)}
                       </div>
                     )}
                   </div>
@@ -800,12 +729,12 @@ export default function ContainersPage() {
                   {formState.workers.map((w, idx) => (
                     <div key={idx} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
                       <div className="md:col-span-2">
-                        <label className="block text-[10px] text-slate-500 mb-1">Name</label>
-                        <input
+                        <label className="block text-[10px] text-slate-500 mb-1">Worker</label>
+                        <WorkerPicker
                           className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
-                          value={w.name}
-                          onChange={(e) => handleWorkerChange(idx, "name", e.target.value)}
-                          placeholder="Worker name"
+                          value={w}
+                          options={workforceOptions}
+                          onChange={(pick) => handleWorkerPick(idx, pick)}
                         />
                       </div>
 
@@ -834,7 +763,7 @@ export default function ContainersPage() {
                         <div className="text-[10px] text-slate-500">
                           Payout:{" "}
                           <span className="text-emerald-300">
-                            ${(((payForForm * (Number(w.percentContribution) || 0)) / 100) || 0).toFixed(2)}
+                            ${(workersWithPayout[idx]?.payout ?? 0).toFixed(2)}
                           </span>
                         </div>
                         <button
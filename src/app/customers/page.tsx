@@ -0,0 +1,485 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import {
+  BILLING_TERMS,
+  DEFAULT_BILLING_TERMS,
+  type BillingTerms,
+  type Customer,
+  type CustomerContact,
+} from "@/lib/domain/customers";
+import type { RateCard } from "@/lib/invoicing";
+
+type CustomerDraft = {
+  name: string;
+  buildings: string[];
+  contacts: CustomerContact[];
+  billingTerms: BillingTerms;
+  billingEmail: string;
+  billingAddress: string;
+  defaultRateCardId: string;
+  notes: string;
+};
+
+const EMPTY_CONTACT: CustomerContact = { name: "", email: "", phone: "", role: "" };
+
+const EMPTY_CUSTOMER: CustomerDraft = {
+  name: "",
+  buildings: [],
+  contacts: [EMPTY_CONTACT],
+  billingTerms: DEFAULT_BILLING_TERMS,
+  billingEmail: "",
+  billingAddress: "",
+  defaultRateCardId: "",
+  notes: "",
+};
+
+function customerToDraft(c: Customer): CustomerDraft {
+  return {
+    name: c.name,
+    buildings: c.buildings,
+    contacts: c.contacts.length ? c.contacts : [EMPTY_CONTACT],
+    billingTerms: c.billingTerms,
+    billingEmail: c.billingEmail ?? "",
+    billingAddress: c.billingAddress,
+    defaultRateCardId: c.defaultRateCardId ?? "",
+    notes: c.notes,
+  };
+}
+
+export default function CustomersPage() {
+  const router = useRouter();
+  const currentUser = useCurrentUser();
+
+  const role = currentUser?.accessRole;
+  const canManage = !!role && hasPermission(role, "customers.manage");
+
+  // ✅ HARD REDIRECT: customers are managed by HQ / Admin
+  useEffect(() => {
+    if (!currentUser) return;
+    if (canManage) return;
+    router.replace("/");
+  }, [currentUser, canManage, router]);
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CustomerDraft>(EMPTY_CUSTOMER);
+  const [showRetired, setShowRetired] = useState(false);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const loadCustomers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [customerRes, cardRes] = await Promise.all([apiFetch("/api/customers"), apiFetch("/api/rate-cards")]);
+      if (!customerRes.ok) {
+        setError(await apiErrorMessage(customerRes, "Failed to load customers."));
+        return;
+      }
+      if (!cardRes.ok) {
+        setError(await apiErrorMessage(cardRes, "Failed to load rate cards."));
+        return;
+      }
+      setCustomers(((await customerRes.json()) as { data: Customer[] }).data);
+      setRateCards(((await cardRes.json()) as { data: RateCard[] }).data);
+    } catch (e) {
+      console.error("Unexpected error loading customers", e);
+      setError("Unexpected error loading customers.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser || !canManage) return;
+    loadCustomers();
+  }, [currentUser, canManage, loadCustomers]);
+
+  function resetForm() {
+    setEditingId(null);
+    setDraft(EMPTY_CUSTOMER);
+  }
+
+  function handleEdit(c: Customer) {
+    setEditingId(c.id);
+    setDraft(customerToDraft(c));
+    setInfo(null);
+    setError(null);
+  }
+
+  function toggleBuilding(b: string) {
+    setDraft((p) => ({
+      ...p,
+      buildings: p.buildings.includes(b) ? p.buildings.filter((x) => x !== b) : [...p.buildings, b],
+    }));
+  }
+
+  function updateContact(index: number, field: keyof CustomerContact, value: string) {
+    setDraft((p) => ({
+      ...p,
+      contacts: p.contacts.map((c, i) => (i === index ? { ...c, [field]: value } : c)),
+    }));
+  }
+
+  function removeContact(index: number) {
+    setDraft((p) => {
+      const next = p.contacts.filter((_, i) => i !== index);
+      return { ...p, contacts: next.length ? next : [EMPTY_CONTACT] };
+    });
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (saving) return;
+    if (!draft.name.trim()) return setError("Customer name is required.");
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch(editingId ? `/api/customers/${editingId}` : "/api/customers", {
+        method: editingId ? "PATCH" : "POST",
+        body: JSON.stringify(draft),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to save customer."));
+        return;
+      }
+      const saved = (await res.json()) as Customer;
+      setInfo(`${saved.name} saved.`);
+      resetForm();
+      await loadCustomers();
+    } catch (e) {
+      console.error("Unexpected error saving customer", e);
+      setError("Unexpected error saving customer.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleCustomer(c: Customer) {
+    if (saving) return;
+    if (c.active && typeof window !== "undefined") {
+      const ok = window.confirm(`Retire ${c.name}? Existing work orders and invoices keep the link.`);
+      if (!ok) return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/customers/${c.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ active: !c.active }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update customer."));
+        return;
+      }
+      await loadCustomers();
+    } catch (e) {
+      console.error("Unexpected error updating customer", e);
+      setError("Unexpected error updating customer.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to dashboard…
+      </div>
+    );
+  }
+
+  const inputCls =
+    "w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50";
+
+  const rateCardNames = new Map(rateCards.map((c) => [c.id, c.name]));
+  const shownCustomers = showRetired ? customers : customers.filter((c) => c.active);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Customers</h1>
+            <p className="text-sm text-slate-400">
+              Who containers are unloaded for. Work orders link to a customer; reports and invoices total by it.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading customers…</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/invoices"
+              className="inline-flex items-center px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-xs text-slate-200 hover:bg-slate-800"
+            >
+              Invoices →
+            </Link>
+            <Link
+              href="/"
+              className="inline-flex items-center px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-xs text-slate-200 hover:bg-slate-800"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Form */}
+          <form
+            onSubmit={handleSubmit}
+            className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3 h-fit"
+          >
+            <div className="flex items-center justify-between">
+              <div className="text-slate-200 text-sm font-semibold">{editingId ? "Edit Customer" : "New Customer"}</div>
+              {editingId && (
+                <button type="button" onClick={resetForm} className="text-[11px] text-sky-300 hover:underline">
+                  Clear / New
+                </button>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-[11px] text-slate-400 mb-1">Name</label>
+              <input
+                className={inputCls}
+                value={draft.name}
+                onChange={(e) => setDraft((p) => ({ ...p, name: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <label className="block text-[11px] text-slate-400 mb-1">Buildings (none = any)</label>
+              <div className="flex flex-wrap gap-2">
+                {BUILDINGS.map((b) => (
+                  <label key={b} className="inline-flex items-center gap-1 text-[11px] text-slate-300">
+                    <input type="checkbox" checked={draft.buildings.includes(b)} onChange={() => toggleBuilding(b)} />
+                    {b}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Billing Terms</label>
+                <select
+                  className={inputCls}
+                  value={draft.billingTerms}
+                  onChange={(e) => setDraft((p) => ({ ...p, billingTerms: e.target.value as BillingTerms }))}
+                >
+                  {BILLING_TERMS.map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Default Rate Card</label>
+                <select
+                  className={inputCls}
+                  value={draft.defaultRateCardId}
+                  onChange={(e) => setDraft((p) => ({ ...p, defaultRateCardId: e.target.value }))}
+                >
+                  <option value="">Automatic</option>
+                  {rateCards
+                    .filter((c) => c.active || c.id === draft.defaultRateCardId)
+                    .map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-[11px] text-slate-400 mb-1">Billing Email</label>
+              <input
+                type="email"
+                className={inputCls}
+                value={draft.billingEmail}
+                onChange={(e) => setDraft((p) => ({ ...p, billingEmail: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <label className="block text-[11px] text-slate-400 mb-1">Billing Address (printed on invoices)</label>
+              <textarea
+                rows={3}
+                className={`${inputCls} resize-none`}
+                value={draft.billingAddress}
+                onChange={(e) => setDraft((p) => ({ ...p, billingAddress: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-[11px] text-slate-400">Contacts</label>
+                <button
+                  type="button"
+                  onClick={() => setDraft((p) => ({ ...p, contacts: [...p.contacts, EMPTY_CONTACT] }))}
+                  className="text-[11px] text-sky-300 hover:underline"
+                >
+                  + Add contact
+                </button>
+              </div>
+              {draft.contacts.map((c, i) => (
+                <div key={i} className="grid grid-cols-2 gap-2 rounded-xl border border-slate-800 p-2">
+                  <input
+                    className={inputCls}
+                    placeholder="Name"
+                    value={c.name}
+                    onChange={(e) => updateContact(i, "name", e.target.value)}
+                  />
+                  <input
+                    className={inputCls}
+                    placeholder="Role (Billing, Receiving…)"
+                    value={c.role}
+                    onChange={(e) => updateContact(i, "role", e.target.value)}
+                  />
+                  <input
+                    className={inputCls}
+                    placeholder="Email"
+                    value={c.email}
+                    onChange={(e) => updateContact(i, "email", e.target.value)}
+                  />
+                  <div className="flex gap-2">
+                    <input
+                      className={inputCls}
+                      placeholder="Phone"
+                      value={c.phone}
+                      onChange={(e) => updateContact(i, "phone", e.target.value)}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeContact(i)}
+                      className="text-[11px] text-slate-500 hover:text-red-300"
+                      aria-label="Remove contact"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-[11px] text-slate-400 mb-1">Notes</label>
+              <input
+                className={inputCls}
+                value={draft.notes}
+                onChange={(e) => setDraft((p) => ({ ...p, notes: e.target.value }))}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-2 disabled:opacity-50"
+            >
+              {saving ? "Saving…" : editingId ? "Save Changes" : "Add Customer"}
+            </button>
+          </form>
+
+          {/* List */}
+          <div className="lg:col-span-2 bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-slate-200 text-sm font-semibold">
+                Customers <span className="text-[11px] text-slate-500 font-normal">({shownCustomers.length})</span>
+              </div>
+              <label className="inline-flex items-center gap-1 text-[11px] text-slate-400">
+                <input type="checkbox" checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} />
+                Show retired
+              </label>
+            </div>
+
+            {shownCustomers.length === 0 ? (
+              <div className="py-6 text-center text-[11px] text-slate-500">No customers yet. Add one on the left.</div>
+            ) : (
+              shownCustomers.map((c) => (
+                <div
+                  key={c.id}
+                  className={`rounded-xl border px-3 py-2 ${
+                    c.id === editingId ? "border-sky-600 bg-sky-950/30" : "border-slate-800 bg-slate-950"
+                  } ${c.active ? "" : "opacity-50"}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-[12px] text-slate-100 font-medium">{c.name}</div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(c)}
+                        className="text-[10px] text-sky-300 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => toggleCustomer(c)}
+                        className="text-[10px] text-slate-400 hover:text-slate-200"
+                      >
+                        {c.active ? "Retire" : "Restore"}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-[11px] text-slate-500">
+                    {c.buildings.length ? c.buildings.join(", ") : "All buildings"} • {c.billingTerms} • Rate card:{" "}
+                    {c.defaultRateCardId ? rateCardNames.get(c.defaultRateCardId) ?? "Unknown" : "Automatic"}
+                  </div>
+                  {c.billingEmail && <div className="text-[11px] text-slate-400">Billing: {c.billingEmail}</div>}
+                  {c.contacts.length > 0 && (
+                    <div className="mt-1 space-y-0.5">
+                      {c.contacts.map((p, i) => (
+                        <div key={i} className="text-[11px] text-slate-400">
+                          {p.name || p.email}
+                          {p.role && <span className="text-slate-500"> ({p.role})</span>}
+                          {p.email && p.name && <span> • {p.email}</span>}
+                          {p.phone && <span> • {p.phone}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {c.notes && <div className="mt-1 text-[11px] text-slate-500">{c.notes}</div>}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,59 +4,29 @@ import Link from "next/link";
 import { useEffect, useMemo, useState, FormEvent } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useRealtimeTable } from "@/lib/useRealtimeTable";
+import { applyRealtimeChange } from "@/lib/realtime";
 import { BUILDINGS } from "@/lib/buildings"; // ✅ shared buildings
-
-const DAMAGE_KEY = "precisionpulse_damage_reports";
+import { apiErrorMessage } from "@/lib/apiClient";
+import { saveOrQueue } from "@/lib/offlineQueue";
+import { hasPermission } from "@/lib/roles";
+import {
+  DAMAGE_REPORT_STATUSES,
+  DAMAGE_REPORTS_KEY,
+  DAMAGE_REPORTS_TABLE,
+  mapDamageReportRow,
+  type DamageReport,
+  type DamageReportRow,
+} from "@/lib/domain/damageReports";
 
 const SHIFTS = ["1st", "2nd", "3rd", "4th"];
-const STATUS_OPTIONS = ["Open", "In Review", "Closed"];
-
-type DamageReport = {
-  id: string;
-  building: string;
-  shift: string;
-  containerNo: string;
-  piecesTotal: number;
-  piecesDamaged: number;
-  status: string;
-  reporterName?: string;
-  notes?: string;
-  createdAt: string;
-};
-
-type DamageReportRow = {
-  id: string;
-  created_at: string;
-  building: string | null;
-  shift: string | null;
-  container_no: string | null;
-  pieces_total: number | null;
-  pieces_damaged: number | null;
-  status: string | null;
-  reporter_name: string | null;
-  notes: string | null;
-};
-
-function rowToDamageReport(row: DamageReportRow): DamageReport {
-  return {
-    id: String(row.id),
-    building: row.building ?? (BUILDINGS[0] || "DC18"),
-    shift: row.shift ?? "1st",
-    containerNo: row.container_no ?? "",
-    piecesTotal: row.pieces_total ?? 0,
-    piecesDamaged: row.pieces_damaged ?? 0,
-    status: row.status ?? "Open",
-    reporterName: row.reporter_name ?? "",
-    notes: row.notes ?? "",
-    createdAt: row.created_at ?? new Date().toISOString(),
-  };
-}
 
 export default function DamageReportsPage() {
   const currentUser = useCurrentUser();
   const isSuperAdmin = currentUser?.accessRole === "Super Admin";
   const isLead = currentUser?.accessRole === "Lead";
   const leadBuilding = currentUser?.building || "";
+  const canInvestigate = !!currentUser && hasPermission(currentUser.accessRole, "safety.manage");
 
   const [reports, setReports] = useState<DamageReport[]>([]);
 
@@ -85,7 +55,7 @@ export default function DamageReportsPage() {
   function persist(next: DamageReport[]) {
     setReports(next);
     if (typeof window !== "undefined") {
-      window.localStorage.setItem(DAMAGE_KEY, JSON.stringify(next));
+      window.localStorage.setItem(DAMAGE_REPORTS_KEY, JSON.stringify(next));
     }
   }
 
@@ -113,7 +83,7 @@ export default function DamageReportsPage() {
       }
 
       const rows: DamageReportRow[] = (data || []) as DamageReportRow[];
-      const mapped = rows.map(rowToDamageReport);
+      const mapped = rows.map(mapDamageReportRow);
       persist(mapped);
     } catch (e) {
       console.error("Unexpected error loading damage reports", e);
@@ -128,6 +98,23 @@ export default function DamageReportsPage() {
     refreshFromSupabase();
   }, [currentUser]);
 
+  // ✅ Live: reports filed or updated by others merge in
+  useRealtimeTable(
+    DAMAGE_REPORTS_TABLE,
+    { enabled: !!currentUser, building: isLead && leadBuilding ? leadBuilding : null },
+    (change) =>
+      setReports((prev) => {
+        const next = applyRealtimeChange(prev, change, {
+          map: (row) => mapDamageReportRow(row as DamageReportRow),
+          position: "start",
+        });
+        if (next !== prev && typeof window !== "undefined") {
+          window.localStorage.setItem(DAMAGE_REPORTS_KEY, JSON.stringify(next));
+        }
+        return next;
+      })
+  );
+
   // Once we know user + role, lock form/building + filters for Leads
   useEffect(() => {
     if (!currentUser) return;
@@ -240,30 +227,52 @@ export default function DamageReportsPage() {
         notes: notes.trim() || null,
       };
 
-      if (editingId) {
-        const { error } = await supabase
-          .from("damage_reports")
-          .update(payload)
-          .eq("id", editingId);
+      const editing = editingId ? reports.find((r) => r.id === editingId) : null;
+
+      // ✅ Queued on this device when the dock has no signal; the sync badge tracks it
+      const saved = await saveOrQueue({
+        kind: "damage_report",
+        label: `Damage report ${payload.container_no}`,
+        method: editingId ? "PATCH" : "POST",
+        url: editingId ? `/api/damage-reports/${editingId}` : "/api/damage-reports",
+        body: payload,
+        baseUpdatedAt: editing?.updatedAt ?? null,
+      });
+
+      if (!saved.queued && !saved.res.ok) {
+        const message = await apiErrorMessage(
+          saved.res,
+          editingId ? "Failed to update damage report." : "Failed to create damage report."
+        );
+        console.error("Error saving damage report", message);
+        setError(message);
+        return;
+      }
 
-        if (error) {
-          console.error("Error updating damage report", error);
-          setError("Failed to update damage report.");
-          return;
+      if (saved.queued) {
+        // Show the edit now; it syncs with the rest of the queue
+        if (editing) {
+          persist(
+            reports.map((r) =>
+              r.id === editing.id
+                ? {
+                    ...r,
+                    building,
+                    shift,
+                    containerNo: payload.container_no,
+                    piecesTotal: totalPieces,
+                    piecesDamaged: damagedPieces,
+                    status,
+                    reporterName: payload.reporter_name ?? "",
+                    notes: payload.notes ?? "",
+                  }
+                : r
+            )
+          );
         }
       } else {
-        const { error } = await supabase
-          .from("damage_reports")
-          .insert(payload);
-
-        if (error) {
-          console.error("Error inserting damage report", error);
-          setError("Failed to create damage report.");
-          return;
-        }
+        await refreshFromSupabase();
       }
-
-      await refreshFromSupabase();
       resetForm();
     } catch (e) {
       console.error("Unexpected error saving damage report", e);
@@ -496,7 +505,7 @@ export default function DamageReportsPage() {
                   value={status}
                   onChange={(e) => setStatus(e.target.value)}
                 >
-                  {STATUS_OPTIONS.map((s) => (
+                  {DAMAGE_REPORT_STATUSES.map((s) => (
                     <option key={s} value={s}>
                       {s}
                     </option>
@@ -605,7 +614,7 @@ export default function DamageReportsPage() {
                     onChange={(e) => setFilterStatus(e.target.value)}
                   >
                     <option value="ALL">All Statuses</option>
-                    {STATUS_OPTIONS.map((s) => (
+                    {DAMAGE_REPORT_STATUSES.map((s) => (
                       <option key={s} value={s}>
                         {s}
                       </option>
@@ -760,6 +769,14 @@ export default function DamageReportsPage() {
                                 >
                                   Edit
                                 </button>
+                                {canInvestigate && (
+                                  <Link
+                                    href={`/investigations?${new URLSearchParams({ source_type: "damage_report", source_id: r.id })}`}
+                                    className="text-[11px] text-amber-300 hover:underline"
+                                  >
+                                    Investigate
+                                  </Link>
+                                )}
                                 <button
                                   type="button"
                                   onClick={() => handleDelete(r)}
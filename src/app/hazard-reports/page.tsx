@@ -0,0 +1,710 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission, isBuildingScoped } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { isHHMM, isYMD, nyDateTime, nyWallTimeToDate } from "@/lib/time";
+import {
+  DOCK_AREAS,
+  DOCK_AREA_LABELS,
+  HAZARD_CATEGORIES,
+  HAZARD_CATEGORY_LABELS,
+  HAZARD_REPORT_TYPES,
+  HAZARD_REPORT_TYPE_LABELS,
+  HAZARD_SEVERITIES,
+  HAZARD_SEVERITY_LABELS,
+  HAZARD_STATUSES,
+  HAZARD_STATUS_LABELS,
+  HAZARD_TREND_DAYS,
+  sortHazardQueue,
+  type DockArea,
+  type HazardCategory,
+  type HazardReport,
+  type HazardReportType,
+  type HazardSeverity,
+  type HazardStatus,
+  type HazardTrendBucket,
+  type HazardTrends,
+} from "@/lib/domain";
+
+type ListResponse = { mine: HazardReport[]; reports: HazardReport[] | null; trends: HazardTrends | null };
+type View = "queue" | "all";
+
+const SHIFTS = ["1st", "2nd", "3rd", "4th"];
+
+// Photos are scaled down in the browser so a phone picture fits the API limit
+const PHOTO_MAX_PX = 1600;
+const PHOTO_QUALITY = 0.8;
+
+const SEVERITY_CLASSES: Record<HazardSeverity, string> = {
+  low: "border-slate-700 bg-slate-800 text-slate-200",
+  medium: "border-amber-700/70 bg-amber-900/40 text-amber-200",
+  high: "border-orange-700/70 bg-orange-900/50 text-orange-200",
+  critical: "border-rose-700/70 bg-rose-900/60 text-rose-200",
+};
+
+type ReportForm = {
+  building: string;
+  shift: string;
+  reportType: HazardReportType;
+  category: HazardCategory | "";
+  severity: HazardSeverity;
+  dockArea: DockArea | "";
+  location: string;
+  description: string;
+  occurredAt: string; // datetime-local, New York time
+  anonymous: boolean;
+  photo: { name: string; dataUrl: string } | null;
+};
+
+const EMPTY_FORM: ReportForm = {
+  building: "",
+  shift: "",
+  reportType: "near_miss",
+  category: "",
+  severity: "medium",
+  dockArea: "",
+  location: "",
+  description: "",
+  occurredAt: "",
+  anonymous: false,
+  photo: null,
+};
+
+type TriageDraft = { status: HazardStatus; severity: HazardSeverity; notes: string };
+
+function triageDraft(r: HazardReport): TriageDraft {
+  return { status: r.status, severity: r.severity, notes: r.triageNotes ?? "" };
+}
+
+async function photoDataUrl(file: File): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const scale = Math.min(1, PHOTO_MAX_PX / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", PHOTO_QUALITY);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function BarList({ title, buckets }: { title: string; buckets: HazardTrendBucket[] }) {
+  const max = Math.max(1, ...buckets.map((b) => b.count));
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950 p-3 space-y-2">
+      <div className="text-[11px] font-semibold text-slate-200">{title}</div>
+      {buckets.length === 0 && <p className="text-[11px] text-slate-500">No reports.</p>}
+      {buckets.map((b) => (
+        <div key={b.key} className="space-y-0.5">
+          <div className="flex justify-between text-[10px] text-slate-400">
+            <span>{b.label}</span>
+            <span>{b.count}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-sky-500" style={{ width: `${(b.count / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function HazardReportsPage() {
+  const currentUser = useCurrentUser();
+  const canTriage = !!currentUser && hasPermission(currentUser.accessRole, "safety.manage");
+  const scoped = !!currentUser && isBuildingScoped(currentUser.accessRole);
+
+  const [form, setForm] = useState<ReportForm>(EMPTY_FORM);
+  const [filterBuilding, setFilterBuilding] = useState("ALL");
+  const [view, setView] = useState<View>("queue");
+  const [listVersion, setListVersion] = useState(0);
+  const [list, setList] = useState<{ key: string; data: ListResponse } | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, TriageDraft>>({});
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const effectiveBuilding = scoped ? currentUser?.building || "" : filterBuilding === "ALL" ? "" : filterBuilding;
+  const listKey = `${currentUser?.email ?? ""}:${effectiveBuilding}:${listVersion}`;
+  const formBuilding = scoped ? currentUser?.building || "" : form.building || currentUser?.building || BUILDINGS[0];
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+
+    async function load() {
+      const qs = effectiveBuilding ? `?${new URLSearchParams({ building: effectiveBuilding })}` : "";
+      const res = await apiFetch(`/api/hazard-reports${qs}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load hazard reports."));
+        return;
+      }
+      const data = (await res.json()) as ListResponse;
+      if (!cancelled) setList({ key: listKey, data });
+    }
+
+    void load().catch((e) => {
+      console.error("Unexpected error loading hazard reports", e);
+      if (!cancelled) setError("Unexpected error loading hazard reports.");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, effectiveBuilding, listKey]);
+
+  async function pickPhoto(file: File | undefined) {
+    if (!file) {
+      setForm((f) => ({ ...f, photo: null }));
+      return;
+    }
+    try {
+      const dataUrl = await photoDataUrl(file);
+      setForm((f) => ({ ...f, photo: { name: file.name, dataUrl } }));
+    } catch (e) {
+      console.error("Could not read hazard photo", e);
+      setError("Could not read that photo. Try a JPEG or PNG.");
+    }
+  }
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+
+    if (!form.category || !form.dockArea || !form.location.trim() || !form.description.trim()) {
+      setError("Category, area, location and what happened are required.");
+      return;
+    }
+    const [ymd, hhmm] = form.occurredAt.split("T");
+    const occurredAt = ymd && isYMD(ymd) && hhmm && isHHMM(hhmm) ? nyWallTimeToDate(ymd, hhmm).toISOString() : null;
+
+    setBusy(true);
+    try {
+      const res = await apiFetch("/api/hazard-reports", {
+        method: "POST",
+        body: JSON.stringify({
+          building: formBuilding,
+          shift: form.shift || null,
+          report_type: form.reportType,
+          category: form.category,
+          severity: form.severity,
+          dock_area: form.dockArea,
+          location: form.location,
+          description: form.description,
+          occurred_at: occurredAt,
+          anonymous: form.anonymous,
+          photo: form.photo?.dataUrl ?? null,
+        }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to submit report."));
+        return;
+      }
+      setNotice(
+        form.anonymous
+          ? "Thanks — your report was submitted anonymously. It won't appear under My Reports."
+          : "Thanks — your report was submitted."
+      );
+      setForm(EMPTY_FORM);
+      setListVersion((v) => v + 1);
+    } catch (err) {
+      console.error("Failed to submit hazard report.", err);
+      setError("Failed to submit report.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveTriage(r: HazardReport) {
+    const draft = drafts[r.id] ?? triageDraft(r);
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/hazard-reports/${r.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ status: draft.status, severity: draft.severity, triage_notes: draft.notes }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update report."));
+        return;
+      }
+      setDrafts((m) => {
+        const next = { ...m };
+        delete next[r.id];
+        return next;
+      });
+      setListVersion((v) => v + 1);
+    } catch (err) {
+      console.error("Failed to update hazard report.", err);
+      setError("Failed to update report.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadPhoto(r: HazardReport) {
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/hazard-reports/${r.id}/photo`);
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load photo."));
+        return;
+      }
+      const { url } = (await res.json()) as { url: string };
+      setPhotoUrls((m) => ({ ...m, [r.id]: url }));
+    } catch (err) {
+      console.error("Failed to load hazard photo.", err);
+      setError("Failed to load photo.");
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  const listData = list?.key === listKey ? list.data : null;
+  const reports = listData?.reports ?? [];
+  const shown = view === "queue" ? sortHazardQueue(reports) : reports;
+  const trends = listData?.trends ?? null;
+  const maxWeek = Math.max(1, ...(trends?.byWeek ?? []).map((w) => w.nearMiss + w.hazard));
+
+  const inputClass =
+    "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-500";
+  const buttonClass =
+    "rounded-lg border border-slate-700 px-3 py-1.5 text-[11px] text-slate-200 hover:bg-slate-800 disabled:opacity-50";
+  const primaryClass = "rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-1.5 disabled:opacity-50";
+  const labelClass = "text-[11px] text-slate-400";
+
+  function reportMeta(r: HazardReport) {
+    return [
+      HAZARD_REPORT_TYPE_LABELS[r.reportType],
+      DOCK_AREA_LABELS[r.dockArea],
+      r.building,
+      r.shift ? `${r.shift} shift` : null,
+      nyDateTime(new Date(r.occurredAt ?? r.createdAt)),
+    ]
+      .filter(Boolean)
+      .join(" • ");
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Hazard &amp; Near Miss Reports</h1>
+            <p className="text-sm text-slate-400">
+              Saw something that could hurt someone, or nearly did? Report it here — you can leave your name off.
+            </p>
+            {!listData && <p className="mt-1 text-[11px] text-slate-500">Loading…</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            {canTriage && (
+              <Link
+                href="/investigations"
+                className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+              >
+                Investigations
+              </Link>
+            )}
+            <Link
+              href="/"
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-rose-700 bg-rose-950/40 px-3 py-2 text-[11px] text-rose-100">{error}</div>
+        )}
+        {notice && (
+          <div className="rounded-lg border border-emerald-700 bg-emerald-950/40 px-3 py-2 text-[11px] text-emerald-100">
+            {notice}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          {/* Report form */}
+          <form onSubmit={submit} className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+            <h2 className="text-sm font-semibold text-slate-100">Report a hazard or near miss</h2>
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <div className={labelClass}>Type</div>
+                <select
+                  className={inputClass}
+                  value={form.reportType}
+                  onChange={(e) => setForm((f) => ({ ...f, reportType: e.target.value as HazardReportType }))}
+                >
+                  {HAZARD_REPORT_TYPES.map((t) => (
+                    <option key={t} value={t}>
+                      {HAZARD_REPORT_TYPE_LABELS[t]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className={labelClass}>Severity</div>
+                <select
+                  className={inputClass}
+                  value={form.severity}
+                  onChange={(e) => setForm((f) => ({ ...f, severity: e.target.value as HazardSeverity }))}
+                >
+                  {HAZARD_SEVERITIES.map((s) => (
+                    <option key={s} value={s}>
+                      {HAZARD_SEVERITY_LABELS[s]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className={labelClass}>Building</div>
+                <select
+                  className={inputClass}
+                  value={formBuilding}
+                  disabled={scoped}
+                  onChange={(e) => setForm((f) => ({ ...f, building: e.target.value }))}
+                >
+                  {BUILDINGS.map((b) => (
+                    <option key={b} value={b}>
+                      {b}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className={labelClass}>Shift</div>
+                <select
+                  className={inputClass}
+                  value={form.shift}
+                  onChange={(e) => setForm((f) => ({ ...f, shift: e.target.value }))}
+                >
+                  <option value="">—</option>
+                  {SHIFTS.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className={labelClass}>Category</div>
+                <select
+                  className={inputClass}
+                  value={form.category}
+                  onChange={(e) => setForm((f) => ({ ...f, category: e.target.value as HazardCategory }))}
+                >
+                  <option value="">Choose…</option>
+                  {HAZARD_CATEGORIES.map((c) => (
+                    <option key={c} value={c}>
+                      {HAZARD_CATEGORY_LABELS[c]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className={labelClass}>Dock area</div>
+                <select
+                  className={inputClass}
+                  value={form.dockArea}
+                  onChange={(e) => setForm((f) => ({ ...f, dockArea: e.target.value as DockArea }))}
+                >
+                  <option value="">Choose…</option>
+                  {DOCK_AREAS.map((a) => (
+                    <option key={a} value={a}>
+                      {DOCK_AREA_LABELS[a]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label className="block space-y-1">
+              <div className={labelClass}>Location</div>
+              <input
+                className={inputClass}
+                value={form.location}
+                placeholder="e.g. Door 14, aisle C"
+                onChange={(e) => setForm((f) => ({ ...f, location: e.target.value }))}
+              />
+            </label>
+            <label className="block space-y-1">
+              <div className={labelClass}>When (optional)</div>
+              <input
+                type="datetime-local"
+                className={inputClass}
+                value={form.occurredAt}
+                onChange={(e) => setForm((f) => ({ ...f, occurredAt: e.target.value }))}
+              />
+            </label>
+            <label className="block space-y-1">
+              <div className={labelClass}>What happened / what did you see?</div>
+              <textarea
+                className={inputClass}
+                rows={4}
+                value={form.description}
+                onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              />
+            </label>
+            <label className="block space-y-1">
+              <div className={labelClass}>Photo (optional)</div>
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="block w-full text-[11px] text-slate-300"
+                onChange={(e) => void pickPhoto(e.target.files?.[0])}
+              />
+              {form.photo && <div className="text-[10px] text-slate-500">Attached: {form.photo.name}</div>}
+            </label>
+            <label className="flex items-start gap-2 text-[11px] text-slate-300">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={form.anonymous}
+                onChange={(e) => setForm((f) => ({ ...f, anonymous: e.target.checked }))}
+              />
+              <span>
+                Submit anonymously. Your name and email aren&apos;t stored with the report, so you can&apos;t follow it
+                under My Reports.
+              </span>
+            </label>
+
+            <button type="submit" className={primaryClass} disabled={busy}>
+              {busy ? "Submitting…" : "Submit Report"}
+            </button>
+          </form>
+
+          {/* My reports */}
+          <div
+            className={`rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3 ${
+              canTriage ? "" : "xl:col-span-2"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-slate-100">My reports</h2>
+              <span className="text-[11px] text-slate-500">Last {HAZARD_TREND_DAYS} days, named reports only</span>
+            </div>
+            {listData && listData.mine.length === 0 && <p className="text-[11px] text-slate-500">No reports yet.</p>}
+            <div className="space-y-2">
+              {(listData?.mine ?? []).map((r) => (
+                <div key={r.id} className="rounded-xl border border-slate-800 bg-slate-950 p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-[12px] font-semibold text-slate-100 truncate">
+                      {HAZARD_CATEGORY_LABELS[r.category]} — {r.location}
+                    </div>
+                    <span className="text-[10px] text-slate-400 uppercase">{HAZARD_STATUS_LABELS[r.status]}</span>
+                  </div>
+                  <div className="text-[10px] text-slate-500">{reportMeta(r)}</div>
+                  {r.triageNotes && <div className="text-[11px] text-slate-300">Follow-up: {r.triageNotes}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Trends */}
+          {canTriage && (
+            <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-slate-100">Trends</h2>
+                <span className="text-[11px] text-slate-500">
+                  {trends ? `${trends.total} report${trends.total === 1 ? "" : "s"}` : "—"} • last {HAZARD_TREND_DAYS} days
+                </span>
+              </div>
+              {trends && (
+                <>
+                  <div className="rounded-xl border border-slate-800 bg-slate-950 p-3 space-y-2">
+                    <div className="flex items-center justify-between text-[11px]">
+                      <span className="font-semibold text-slate-200">By week</span>
+                      <span className="text-[10px] text-slate-500">
+                        <span className="text-amber-300">■</span> near miss <span className="text-sky-300">■</span> hazard
+                      </span>
+                    </div>
+                    <div className="flex items-end gap-1 h-24">
+                      {trends.byWeek.map((w) => (
+                        <div
+                          key={w.weekStart}
+                          className="flex-1 flex flex-col justify-end h-full"
+                          title={`Week of ${w.weekStart}: ${w.nearMiss} near miss, ${w.hazard} hazard`}
+                        >
+                          <div className="bg-sky-500" style={{ height: `${(w.hazard / maxWeek) * 100}%` }} />
+                          <div className="bg-amber-400" style={{ height: `${(w.nearMiss / maxWeek) * 100}%` }} />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <BarList title="By dock area" buckets={trends.byArea} />
+                  <BarList title="By category" buckets={trends.byCategory} />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Triage queue */}
+        {canTriage && (
+          <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+            <div className="flex flex-wrap items-end justify-between gap-2">
+              <h2 className="text-sm font-semibold text-slate-100">
+                {view === "queue" ? "Triage queue" : "All reports"}
+                <span className="ml-2 text-[11px] font-normal text-slate-500">
+                  {view === "queue" ? "Most severe first, then oldest" : `Last ${HAZARD_TREND_DAYS} days plus anything still open, newest first`}
+                </span>
+              </h2>
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="space-y-1">
+                  <div className={labelClass}>Building</div>
+                  <select
+                    className={inputClass}
+                    value={scoped ? currentUser.building || "" : filterBuilding}
+                    disabled={scoped}
+                    onChange={(e) => setFilterBuilding(e.target.value)}
+                  >
+                    {!scoped && <option value="ALL">All buildings</option>}
+                    {BUILDINGS.map((b) => (
+                      <option key={b} value={b}>
+                        {b}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <div className={labelClass}>Show</div>
+                  <select className={inputClass} value={view} onChange={(e) => setView(e.target.value as View)}>
+                    <option value="queue">Needs triage</option>
+                    <option value="all">All</option>
+                  </select>
+                </label>
+              </div>
+            </div>
+
+            {listData && shown.length === 0 && (
+              <p className="text-[11px] text-slate-500">{view === "queue" ? "Nothing waiting for triage." : "No reports."}</p>
+            )}
+            <div className="space-y-2">
+              {shown.map((r) => {
+                const draft = drafts[r.id] ?? triageDraft(r);
+                const setDraft = (patch: Partial<TriageDraft>) =>
+                  setDrafts((m) => ({ ...m, [r.id]: { ...draft, ...patch } }));
+                return (
+                  <div key={r.id} className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-3">
+                      <div className="lg:col-span-2 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={`rounded-full border px-2 py-0.5 text-[10px] ${SEVERITY_CLASSES[r.severity]}`}>
+                            {HAZARD_SEVERITY_LABELS[r.severity]}
+                          </span>
+                          <span className="text-[12px] font-semibold text-slate-100">
+                            {HAZARD_CATEGORY_LABELS[r.category]} — {r.location}
+                          </span>
+                          <span className="text-[10px] text-slate-400 uppercase">{HAZARD_STATUS_LABELS[r.status]}</span>
+                        </div>
+                        <div className="text-[10px] text-slate-500">{reportMeta(r)}</div>
+                        <p className="text-[11px] text-slate-200 whitespace-pre-wrap">{r.description}</p>
+                        <div className="text-[10px] text-slate-500">
+                          Reported by {r.anonymous ? "Anonymous" : r.reporterName || r.reporterEmail || "—"}
+                          {r.triagedAt && ` • Triaged ${nyDateTime(new Date(r.triagedAt))} by ${r.triagedByEmail ?? "—"}`}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 pt-1">
+                          {r.hasPhoto &&
+                            (photoUrls[r.id] ? (
+                              <a
+                                href={photoUrls[r.id]}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-[11px] text-sky-300 hover:underline"
+                              >
+                                Open photo ↗
+                              </a>
+                            ) : (
+                              <button
+                                type="button"
+                                className="text-[11px] text-sky-300 hover:underline"
+                                onClick={() => void loadPhoto(r)}
+                              >
+                                View photo
+                              </button>
+                            ))}
+                          <Link
+                            href={`/investigations?${new URLSearchParams({ source_type: "hazard_report", source_id: r.id })}`}
+                            className="text-[11px] text-amber-300 hover:underline"
+                          >
+                            Investigate
+                          </Link>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                          <label className="space-y-1">
+                            <div className={labelClass}>Status</div>
+                            <select
+                              className={inputClass}
+                              value={draft.status}
+                              onChange={(e) => setDraft({ status: e.target.value as HazardStatus })}
+                            >
+                              {HAZARD_STATUSES.map((s) => (
+                                <option key={s} value={s}>
+                                  {HAZARD_STATUS_LABELS[s]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="space-y-1">
+                            <div className={labelClass}>Severity</div>
+                            <select
+                              className={inputClass}
+                              value={draft.severity}
+                              onChange={(e) => setDraft({ severity: e.target.value as HazardSeverity })}
+                            >
+                              {HAZARD_SEVERITIES.map((s) => (
+                                <option key={s} value={s}>
+                                  {HAZARD_SEVERITY_LABELS[s]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        </div>
+                        <textarea
+                          className={inputClass}
+                          rows={2}
+                          placeholder="Triage notes (visible to a named reporter)"
+                          value={draft.notes}
+                          onChange={(e) => setDraft({ notes: e.target.value })}
+                        />
+                        <button type="button" className={buttonClass} disabled={busy} onClick={() => void saveTriage(r)}>
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useEffect, useMemo, useState, FormEvent } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings"; // ✅ shared buildings
+import { reportNotificationEvent } from "@/lib/notificationsClient";
 
 const STAGES = [
   "Applied",
@@ -153,6 +154,11 @@ export default function HiringPage() {
           setError("Failed to update candidate.");
           return;
         }
+
+        const previousStage = candidates.find((c) => c.id === editingId)?.stage || "Applied";
+        if (previousStage !== stage) {
+          void reportNotificationEvent("hiring.stage_changed", editingId, previousStage);
+        }
       } else {
         const { error } = await supabase.from("hiring_pipeline").insert({
           name: name.trim(),
@@ -264,6 +270,11 @@ export default function HiringPage() {
         return;
       }
 
+      const previousStage = candidates.find((c) => c.id === id)?.stage || "Applied";
+      if (previousStage !== nextStage) {
+        void reportNotificationEvent("hiring.stage_changed", id, previousStage);
+      }
+
       // Reload list
       try {
         let query = supabase
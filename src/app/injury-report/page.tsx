@@ -5,6 +5,42 @@ import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { reportNotificationEvent } from "@/lib/notificationsClient";
+import { hasPermission } from "@/lib/roles";
+import { nyDateTime, nyISODate } from "@/lib/time";
+import {
+  CASE_COLUMNS,
+  CASE_EVENT_TYPES,
+  CASE_EVENT_TYPE_LABELS,
+  OPEN_CASE_STATUS,
+  WORK_STATUSES,
+  WORK_STATUS_LABELS,
+  caseCloseBlocker,
+  isCaseTaskOverdue,
+  isWorkStatus,
+  signedContentJson,
+  sortCaseTasks,
+  type CaseEventType,
+  type InjuryCaseEvent,
+  type InjuryCaseState,
+  type InjuryCaseTask,
+  type SignatureStatus,
+  type WorkStatus,
+} from "@/lib/domain";
+import { DocumentSignatures } from "@/app/signature-pad";
+import {
+  OSHA_INJURY_TYPE_LABELS,
+  OSHA_INJURY_TYPES,
+  RECORDABILITY,
+  RECORDABILITY_LABELS,
+  RECORDKEEPING_COLUMNS,
+  isOshaInjuryType,
+  isRecordability,
+  suggestRecordability,
+  type OshaInjuryType,
+  type Recordability,
+} from "@/lib/osha";
 
 const SHIFTS = ["1st", "2nd", "3rd", "4th"] as const;
 type ShiftName = (typeof SHIFTS)[number];
@@ -79,8 +115,89 @@ type ReportRow = {
   // Optional if you added these columns:
   emailed_draft_at?: string | null;
   emailed_submitted_at?: string | null;
+
+  // OSHA recordkeeping (set through /api/injury-reports/:id/recordability)
+  recordability?: string | null;
+  osha_injury_type?: string | null;
+  days_away?: number | null;
+  days_restricted?: number | null;
+  fatality?: boolean | null;
+  privacy_case?: boolean | null;
+  recordability_set_by_email?: string | null;
+  recordability_set_at?: string | null;
+
+  // Case management (kept current by /api/injury-reports/:id/case/events)
+  work_status?: string | null;
+  return_to_work_date?: string | null;
+  comp_claim_number?: string | null;
+  comp_carrier?: string | null;
+};
+
+type RecordkeepingDraft = {
+  recordability: Recordability | "";
+  osha_injury_type: OshaInjuryType;
+  days_away: string;
+  days_restricted: string;
+  fatality: boolean;
+  privacy_case: boolean;
 };
 
+function recordkeepingDraftFor(report: ReportRow): RecordkeepingDraft {
+  return {
+    recordability: isRecordability(report.recordability) ? report.recordability : "",
+    osha_injury_type: isOshaInjuryType(report.osha_injury_type) ? report.osha_injury_type : "injury",
+    days_away: String(report.days_away ?? 0),
+    days_restricted: String(report.days_restricted ?? 0),
+    fatality: !!report.fatality,
+    privacy_case: !!report.privacy_case,
+  };
+}
+
+type InjuryCase = { reportId: string; events: InjuryCaseEvent[]; tasks: InjuryCaseTask[] };
+
+type CaseEntryDraft = {
+  event_type: CaseEventType;
+  event_date: string;
+  work_status: WorkStatus;
+  provider: string;
+  assignment: string;
+  restrictions: string;
+  ends_on: string;
+  claim_number: string;
+  carrier: string;
+  notes: string;
+};
+
+function emptyCaseEntry(): CaseEntryDraft {
+  return {
+    event_type: "clinic_visit",
+    event_date: nyISODate(),
+    work_status: "restricted",
+    provider: "",
+    assignment: "",
+    restrictions: "",
+    ends_on: "",
+    claim_number: "",
+    carrier: "",
+    notes: "",
+  };
+}
+
+function caseEventSummary(e: InjuryCaseEvent): string {
+  switch (e.eventType) {
+    case "clinic_visit":
+      return e.provider ?? "";
+    case "work_status":
+      return e.workStatus ? WORK_STATUS_LABELS[e.workStatus] : "";
+    case "restricted_duty":
+      return [e.assignment, e.restrictions, e.endsOn ? `through ${e.endsOn}` : ""].filter(Boolean).join(" • ");
+    case "claim":
+      return `${e.claimNumber ?? ""} with ${e.carrier ?? ""}`;
+    default:
+      return "";
+  }
+}
+
 type FileRow = {
   id: string;
   report_id: string;
@@ -211,6 +328,9 @@ export default function InjuryReportPage() {
   // KEY RULES YOU ASKED FOR:
   // - ONLY Building Managers + Super Admin can edit/delete existing reports
   const canEditExisting = isSuperAdmin || isBuildingManager;
+
+  // OSHA recordability: HR / safety / Building Managers
+  const canClassify = !!currentUser && hasPermission(currentUser.accessRole, "safety.manage");
   const canDeleteExisting = isSuperAdmin || isBuildingManager;
 
   const [error, setError] = useState<string | null>(null);
@@ -232,6 +352,15 @@ export default function InjuryReportPage() {
   );
 
   const [files, setFiles] = useState<FileRow[]>([]);
+  const [recordkeepingDrafts, setRecordkeepingDrafts] = useState<Record<string, RecordkeepingDraft>>({});
+  const [classifying, setClassifying] = useState(false);
+  const [injuryCase, setInjuryCase] = useState<InjuryCase | null>(null);
+  const [caseEntry, setCaseEntry] = useState<CaseEntryDraft>(emptyCaseEntry);
+  const [caseTask, setCaseTask] = useState({ title: "", due_date: "" });
+  const [caseSaving, setCaseSaving] = useState(false);
+  const [reportSignatures, setReportSignatures] = useState<{ reportId: string; signatures: SignatureStatus[] } | null>(
+    null
+  );
   const [filesLoading, setFilesLoading] = useState(false);
 
   const [form, setForm] = useState<Omit<ReportRow, "id" | "created_at">>(() => ({
@@ -378,20 +507,21 @@ export default function InjuryReportPage() {
   }
 
   // -----------------------------
-  // EMAIL NOTIFICATION (Edge Function)
+  // EMAIL NOTIFICATION (POST /api/injury-reports/:id/email)
   // -----------------------------
   async function sendEmailNotification(reportId: string, event: "draft" | "submitted") {
     try {
-      // Non-blocking; function itself handles duplicates using emailed_* columns
-      const { error } = await supabase.functions.invoke("injury-email", {
-        body: { report_id: reportId, event },
+      // Non-blocking; the route only emails each report once per event (emailed_* columns)
+      const res = await apiFetch(`/api/injury-reports/${encodeURIComponent(reportId)}/email`, {
+        method: "POST",
+        body: JSON.stringify({ event }),
       });
-      if (error) {
+      if (!res.ok) {
         // Don’t block user flow; show a small warning only
-        console.warn("injury-email invoke error:", error);
+        console.warn("injury email failed:", await apiErrorMessage(res, res.statusText));
       }
     } catch (e) {
-      console.warn("injury-email invoke failed:", e);
+      console.warn("injury email failed:", e);
     }
   }
 
@@ -508,6 +638,32 @@ export default function InjuryReportPage() {
     if (selectedReportId) loadFiles(selectedReportId);
   }, [selectedReportId, loadFiles]);
 
+  // Case timeline + tasks for the selected report (HR / safety only)
+  useEffect(() => {
+    if (!selectedReportId || !canClassify) return;
+    const reportId = selectedReportId;
+    let cancelled = false;
+
+    async function load() {
+      const res = await apiFetch(`/api/injury-reports/${encodeURIComponent(reportId)}/case`);
+      if (!res.ok) {
+        const msg = await apiErrorMessage(res, "Failed to load case.");
+        if (!cancelled) setError(msg);
+        return;
+      }
+      const data = (await res.json()) as { events: InjuryCaseEvent[]; tasks: InjuryCaseTask[] };
+      if (!cancelled) setInjuryCase({ reportId, events: data.events || [], tasks: data.tasks || [] });
+    }
+
+    void load().catch((e) => {
+      console.error("Unexpected error loading injury case", e);
+      if (!cancelled) setError("Unexpected error loading case.");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedReportId, canClassify]);
+
   async function openProtocolDoc(doc: ProtocolDoc) {
     setError(null);
     try {
@@ -627,6 +783,19 @@ export default function InjuryReportPage() {
         hr_notes: form.hr_notes?.trim() || null,
         witnesses: Array.isArray(form.witnesses) ? form.witnesses : [],
       };
+      // Only the classification and case panels write these (a stale copy here would undo them)
+      for (const column of [...RECORDKEEPING_COLUMNS, ...CASE_COLUMNS]) delete payload[column];
+
+      // Signature flags are set by /api/signatures; an edit to what was signed clears them
+      delete payload.employee_signed;
+      delete payload.manager_signed;
+      if (
+        selectedReport &&
+        signedContentJson("injury_report", selectedReport) !== signedContentJson("injury_report", payload)
+      ) {
+        payload.employee_signed = false;
+        payload.manager_signed = false;
+      }
 
       if (selectedReportId) {
         const { error } = await supabase.from("injury_reports").update(payload).eq("id", selectedReportId);
@@ -742,8 +911,9 @@ export default function InjuryReportPage() {
       const { error } = await supabase.from("injury_reports").update({ status: "Submitted" }).eq("id", selectedReportId);
       if (error) throw error;
 
-      // Email on submit
+      // Email + in-app notification on submit
       await sendEmailNotification(selectedReportId, "submitted");
+      void reportNotificationEvent("injury.submitted", selectedReportId);
 
       await loadReports();
     } catch (e: unknown) {
@@ -756,6 +926,10 @@ export default function InjuryReportPage() {
   async function markClosed() {
     if (!selectedReportId) return setError("Select a report.");
     if (!canManageAll) return setError("Only HR/Admin can close reports.");
+    const blocker = selectedReport
+      ? caseCloseBlocker({ work_status: isWorkStatus(selectedReport.work_status) ? selectedReport.work_status : null })
+      : null;
+    if (blocker) return setError(blocker);
     setError(null);
     try {
       const { error } = await supabase.from("injury_reports").update({ status: "Closed" }).eq("id", selectedReportId);
@@ -768,6 +942,132 @@ export default function InjuryReportPage() {
     }
   }
 
+  const recordkeepingDraft = selectedReport
+    ? recordkeepingDrafts[selectedReport.id] ?? recordkeepingDraftFor(selectedReport)
+    : null;
+
+  function patchRecordkeeping(patch: Partial<RecordkeepingDraft>) {
+    if (!selectedReport || !recordkeepingDraft) return;
+    setRecordkeepingDrafts((d) => ({ ...d, [selectedReport.id]: { ...recordkeepingDraft, ...patch } }));
+  }
+
+  async function saveRecordability() {
+    if (!selectedReport || !recordkeepingDraft || classifying) return;
+    if (!recordkeepingDraft.recordability) return setError("Pick a recordability classification.");
+
+    setClassifying(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/injury-reports/${encodeURIComponent(selectedReport.id)}/recordability`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          ...recordkeepingDraft,
+          days_away: Number(recordkeepingDraft.days_away),
+          days_restricted: Number(recordkeepingDraft.days_restricted),
+        }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to save classification."));
+        return;
+      }
+      setRecordkeepingDrafts((d) => {
+        const next = { ...d };
+        delete next[selectedReport.id];
+        return next;
+      });
+      await loadReports();
+    } catch (e) {
+      console.error("Unexpected error saving classification", e);
+      setError("Unexpected error saving classification.");
+    } finally {
+      setClassifying(false);
+    }
+  }
+
+  const caseData = injuryCase && injuryCase.reportId === selectedReportId ? injuryCase : null;
+  const packetSignatures = (reportSignatures?.reportId === selectedReportId ? reportSignatures.signatures : []).filter(
+    (sig) => sig.valid
+  );
+  const todayNY = nyISODate();
+
+  async function addCaseEntry() {
+    if (!selectedReport || caseSaving) return;
+    setCaseSaving(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/injury-reports/${encodeURIComponent(selectedReport.id)}/case/events`, {
+        method: "POST",
+        body: JSON.stringify(caseEntry),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to add case entry."));
+        return;
+      }
+      const { event, state } = (await res.json()) as { event: InjuryCaseEvent; state: InjuryCaseState };
+      setInjuryCase((c) =>
+        c && c.reportId === selectedReport.id ? { ...c, events: [...c.events, event] } : c
+      );
+      setReports((prev) => prev.map((r) => (r.id === selectedReport.id ? { ...r, ...state } : r)));
+      setCaseEntry((d) => ({ ...emptyCaseEntry(), event_type: d.event_type }));
+    } catch (e) {
+      console.error("Unexpected error adding case entry", e);
+      setError("Unexpected error adding case entry.");
+    } finally {
+      setCaseSaving(false);
+    }
+  }
+
+  async function addCaseTask() {
+    if (!selectedReport || caseSaving) return;
+    setCaseSaving(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/injury-reports/${encodeURIComponent(selectedReport.id)}/case/tasks`, {
+        method: "POST",
+        body: JSON.stringify(caseTask),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to add task."));
+        return;
+      }
+      const task = (await res.json()) as InjuryCaseTask;
+      setInjuryCase((c) => (c && c.reportId === selectedReport.id ? { ...c, tasks: [...c.tasks, task] } : c));
+      setCaseTask({ title: "", due_date: "" });
+    } catch (e) {
+      console.error("Unexpected error adding task", e);
+      setError("Unexpected error adding task.");
+    } finally {
+      setCaseSaving(false);
+    }
+  }
+
+  async function toggleCaseTask(task: InjuryCaseTask) {
+    if (!selectedReport || caseSaving) return;
+    setCaseSaving(true);
+    setError(null);
+    try {
+      const res = await apiFetch(
+        `/api/injury-reports/${encodeURIComponent(selectedReport.id)}/case/tasks/${encodeURIComponent(task.id)}`,
+        { method: "PATCH", body: JSON.stringify({ done: !task.completedAt }) }
+      );
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update task."));
+        return;
+      }
+      const updated = (await res.json()) as InjuryCaseTask;
+      setInjuryCase((c) =>
+        c && c.reportId === selectedReport.id
+          ? { ...c, tasks: c.tasks.map((t) => (t.id === updated.id ? updated : t)) }
+          : c
+      );
+    } catch (e) {
+      console.error("Unexpected error updating task", e);
+      setError("Unexpected error updating task.");
+    } finally {
+      setCaseSaving(false);
+    }
+  }
+
   if (!currentUser) {
     return (
       <div className="min-h-screen bg-slate-950 text-slate-400 flex flex-col items-center justify-center text-sm gap-2">
@@ -793,6 +1093,14 @@ export default function InjuryReportPage() {
             )}
           </div>
           <div className="flex items-center gap-2">
+            {canClassify && (
+              <Link
+                href="/osha"
+                className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+              >
+                OSHA Logs
+              </Link>
+            )}
             <Link
               href="/"
               className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
@@ -884,6 +1192,9 @@ export default function InjuryReportPage() {
                         </div>
                         <div className="text-[11px] text-slate-500 mt-0.5">
                           {r.incident_type} • {r.body_part}
+                          {r.status === OPEN_CASE_STATUS && isWorkStatus(r.work_status)
+                            ? ` • ${WORK_STATUS_LABELS[r.work_status]}`
+                            : ""}
                         </div>
                       </button>
                     );
@@ -1366,6 +1677,401 @@ export default function InjuryReportPage() {
               </form>
             </div>
 
+            {/* OSHA recordkeeping */}
+            {selectedReport && recordkeepingDraft && canClassify && (
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-3">
+                <div>
+                  <div className="text-sm font-semibold text-slate-100">OSHA Recordkeeping</div>
+                  <div className="text-[11px] text-slate-400">
+                    Recordable and lost-time cases go on the building&apos;s OSHA 300 log for the incident year.
+                    {" "}Suggested from the report:{" "}
+                    <span className="text-sky-300">{RECORDABILITY_LABELS[suggestRecordability(selectedReport)]}</span>
+                    {selectedReport.recordability_set_by_email && (
+                      <>
+                        {" "}• Last classified by {selectedReport.recordability_set_by_email}
+                        {selectedReport.recordability_set_at
+                          ? ` on ${String(selectedReport.recordability_set_at).slice(0, 10)}`
+                          : ""}
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className="block text-[11px] text-slate-400 mb-1">Classification</label>
+                    <select
+                      className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                      value={recordkeepingDraft.recordability}
+                      onChange={(e) => patchRecordkeeping({ recordability: e.target.value as Recordability | "" })}
+                    >
+                      <option value="">Not classified</option>
+                      {RECORDABILITY.map((r) => (
+                        <option key={r} value={r}>
+                          {RECORDABILITY_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[11px] text-slate-400 mb-1">Injury / illness type</label>
+                    <select
+                      className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                      value={recordkeepingDraft.osha_injury_type}
+                      onChange={(e) => patchRecordkeeping({ osha_injury_type: e.target.value as OshaInjuryType })}
+                    >
+                      {OSHA_INJURY_TYPES.map((t) => (
+                        <option key={t} value={t}>
+                          {OSHA_INJURY_TYPE_LABELS[t]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[11px] text-slate-400 mb-1">Days away from work</label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                      value={recordkeepingDraft.days_away}
+                      onChange={(e) => patchRecordkeeping({ days_away: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[11px] text-slate-400 mb-1">Days restricted / transferred</label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                      value={recordkeepingDraft.days_restricted}
+                      onChange={(e) => patchRecordkeeping({ days_restricted: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex gap-4 text-[12px] text-slate-200">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={recordkeepingDraft.privacy_case}
+                        onChange={(e) => patchRecordkeeping({ privacy_case: e.target.checked })}
+                      />
+                      Privacy case (name withheld on the 300 log)
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={recordkeepingDraft.fatality}
+                        onChange={(e) => patchRecordkeeping({ fatality: e.target.checked })}
+                      />
+                      Fatality
+                    </label>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={saveRecordability}
+                    disabled={classifying}
+                    className="rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-60 text-[12px] font-medium text-white px-4 py-2"
+                  >
+                    {classifying ? "Saving…" : "Save Classification"}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Case management */}
+            {selectedReport && canClassify && selectedReport.status !== "Draft" && (
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <div className="text-sm font-semibold text-slate-100">Case Management</div>
+                    <div className="text-[11px] text-slate-400">
+                      Clinic visits, work status, restricted duty and the comp claim. The case stays open until the
+                      employee is back at full duty.
+                    </div>
+                    <Link
+                      href={`/investigations?${new URLSearchParams({ source_type: "injury_report", source_id: selectedReport.id })}`}
+                      className="text-[11px] text-sky-300 hover:underline"
+                    >
+                      Investigate root cause →
+                    </Link>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-[11px]">
+                    <span className="rounded-full border border-slate-700 px-2 py-0.5 text-slate-200">
+                      {isWorkStatus(selectedReport.work_status)
+                        ? WORK_STATUS_LABELS[selectedReport.work_status]
+                        : "Work status not recorded"}
+                    </span>
+                    {selectedReport.return_to_work_date && (
+                      <span className="rounded-full border border-slate-700 px-2 py-0.5 text-slate-200">
+                        Returned {String(selectedReport.return_to_work_date).slice(0, 10)}
+                      </span>
+                    )}
+                    {selectedReport.comp_claim_number && (
+                      <span className="rounded-full border border-slate-700 px-2 py-0.5 text-slate-200">
+                        Claim {selectedReport.comp_claim_number} • {selectedReport.comp_carrier}
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {selectedReport.status === OPEN_CASE_STATUS && (
+                  <div className="rounded-xl border border-slate-800 bg-slate-950 p-3 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-[11px] text-slate-400 mb-1">Entry</label>
+                        <select
+                          className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                          value={caseEntry.event_type}
+                          onChange={(e) => setCaseEntry((d) => ({ ...d, event_type: e.target.value as CaseEventType }))}
+                        >
+                          {CASE_EVENT_TYPES.map((t) => (
+                            <option key={t} value={t}>
+                              {CASE_EVENT_TYPE_LABELS[t]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-[11px] text-slate-400 mb-1">Date</label>
+                        <input
+                          type="date"
+                          className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                          value={caseEntry.event_date}
+                          onChange={(e) => setCaseEntry((d) => ({ ...d, event_date: e.target.value }))}
+                        />
+                      </div>
+                      {caseEntry.event_type === "clinic_visit" && (
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Clinic / provider</label>
+                          <input
+                            className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                            value={caseEntry.provider}
+                            onChange={(e) => setCaseEntry((d) => ({ ...d, provider: e.target.value }))}
+                          />
+                        </div>
+                      )}
+                      {caseEntry.event_type === "work_status" && (
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Work status</label>
+                          <select
+                            className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                            value={caseEntry.work_status}
+                            onChange={(e) => setCaseEntry((d) => ({ ...d, work_status: e.target.value as WorkStatus }))}
+                          >
+                            {WORK_STATUSES.map((w) => (
+                              <option key={w} value={w}>
+                                {WORK_STATUS_LABELS[w]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {caseEntry.event_type === "restricted_duty" && (
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Ends on (optional)</label>
+                          <input
+                            type="date"
+                            className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                            value={caseEntry.ends_on}
+                            onChange={(e) => setCaseEntry((d) => ({ ...d, ends_on: e.target.value }))}
+                          />
+                        </div>
+                      )}
+                      {caseEntry.event_type === "claim" && (
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Claim number</label>
+                          <input
+                            className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                            value={caseEntry.claim_number}
+                            onChange={(e) => setCaseEntry((d) => ({ ...d, claim_number: e.target.value }))}
+                          />
+                        </div>
+                      )}
+                    </div>
+
+                    {caseEntry.event_type === "restricted_duty" && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Assignment</label>
+                          <input
+                            className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                            value={caseEntry.assignment}
+                            onChange={(e) => setCaseEntry((d) => ({ ...d, assignment: e.target.value }))}
+                            placeholder="e.g. Scanning at dock office"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Restrictions</label>
+                          <input
+                            className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                            value={caseEntry.restrictions}
+                            onChange={(e) => setCaseEntry((d) => ({ ...d, restrictions: e.target.value }))}
+                            placeholder="e.g. No lifting over 15 lbs"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {caseEntry.event_type === "claim" && (
+                      <div>
+                        <label className="block text-[11px] text-slate-400 mb-1">Carrier</label>
+                        <input
+                          className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                          value={caseEntry.carrier}
+                          onChange={(e) => setCaseEntry((d) => ({ ...d, carrier: e.target.value }))}
+                        />
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="block text-[11px] text-slate-400 mb-1">
+                        Notes{caseEntry.event_type === "note" ? "" : " (optional)"}
+                      </label>
+                      <textarea
+                        rows={2}
+                        className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50 resize-none"
+                        value={caseEntry.notes}
+                        onChange={(e) => setCaseEntry((d) => ({ ...d, notes: e.target.value }))}
+                      />
+                    </div>
+
+                    <div className="flex justify-end">
+                      <button
+                        type="button"
+                        onClick={addCaseEntry}
+                        disabled={caseSaving}
+                        className="rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-60 text-[12px] font-medium text-white px-4 py-2"
+                      >
+                        {caseSaving ? "Saving…" : "Add to Timeline"}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <div className="text-[12px] font-semibold text-slate-100 mb-2">Timeline</div>
+                    {!caseData ? (
+                      <div className="text-[11px] text-slate-500">Loading…</div>
+                    ) : caseData.events.length === 0 ? (
+                      <div className="text-[11px] text-slate-500">Nothing recorded since the report was submitted.</div>
+                    ) : (
+                      <div className="space-y-2">
+                        {[...caseData.events].reverse().map((e) => (
+                          <div key={e.id} className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2">
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="text-[12px] font-semibold text-slate-100">
+                                {CASE_EVENT_TYPE_LABELS[e.eventType]}
+                              </div>
+                              <div className="text-[10px] text-slate-500">{e.eventDate}</div>
+                            </div>
+                            {caseEventSummary(e) && (
+                              <div className="text-[11px] text-slate-300 mt-0.5">{caseEventSummary(e)}</div>
+                            )}
+                            {e.notes && <div className="text-[11px] text-slate-400 mt-0.5">{e.notes}</div>}
+                            <div className="text-[10px] text-slate-500 mt-1">{e.createdByEmail ?? "—"}</div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <div className="text-[12px] font-semibold text-slate-100 mb-2">Follow-up Tasks</div>
+                    {selectedReport.status === OPEN_CASE_STATUS && (
+                      <div className="flex gap-2 mb-2">
+                        <input
+                          className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                          value={caseTask.title}
+                          onChange={(e) => setCaseTask((t) => ({ ...t, title: e.target.value }))}
+                          placeholder="e.g. Call clinic for work status note"
+                        />
+                        <input
+                          type="date"
+                          className="rounded-lg bg-slate-950 border border-slate-700 px-2 py-2 text-[12px] text-slate-50"
+                          value={caseTask.due_date}
+                          onChange={(e) => setCaseTask((t) => ({ ...t, due_date: e.target.value }))}
+                        />
+                        <button
+                          type="button"
+                          onClick={addCaseTask}
+                          disabled={caseSaving}
+                          className="rounded-lg border border-slate-700 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+                        >
+                          Add
+                        </button>
+                      </div>
+                    )}
+                    {!caseData ? (
+                      <div className="text-[11px] text-slate-500">Loading…</div>
+                    ) : caseData.tasks.length === 0 ? (
+                      <div className="text-[11px] text-slate-500">No follow-up tasks.</div>
+                    ) : (
+                      <div className="space-y-2">
+                        {sortCaseTasks(caseData.tasks).map((t) => {
+                          const overdue = isCaseTaskOverdue(t, todayNY);
+                          return (
+                            <label
+                              key={t.id}
+                              className={`flex items-start gap-2 rounded-lg border px-3 py-2 ${
+                                overdue ? "border-rose-700 bg-rose-950/30" : "border-slate-800 bg-slate-950"
+                              }`}
+                            >
+                              <input
+                                type="checkbox"
+                                className="mt-0.5"
+                                checked={!!t.completedAt}
+                                disabled={caseSaving || selectedReport.status !== OPEN_CASE_STATUS}
+                                onChange={() => toggleCaseTask(t)}
+                              />
+                              <div className="min-w-0">
+                                <div
+                                  className={`text-[12px] ${t.completedAt ? "text-slate-500 line-through" : "text-slate-100"}`}
+                                >
+                                  {t.title}
+                                </div>
+                                <div className={`text-[10px] ${overdue ? "text-rose-300" : "text-slate-500"}`}>
+                                  Due {t.dueDate}
+                                  {overdue ? " • overdue" : ""}
+                                  {t.completedAt
+                                    ? ` • done ${String(t.completedAt).slice(0, 10)} by ${t.completedByEmail ?? "—"}`
+                                    : ""}
+                                </div>
+                              </div>
+                            </label>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Signatures */}
+            {selectedReport && (
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-3">
+                <div>
+                  <div className="text-sm font-semibold text-slate-100">Signatures</div>
+                  <div className="text-[11px] text-slate-400">
+                    Employee and manager sign the saved report on this screen. Editing the report afterwards
+                    invalidates their signatures.
+                  </div>
+                </div>
+                <DocumentSignatures
+                  documentType="injury_report"
+                  documentId={selectedReport.id}
+                  refreshKey={signedContentJson("injury_report", selectedReport)}
+                  defaultSignerNames={{
+                    employee: selectedReport.employee_name,
+                    manager: selectedReport.supervisor_on_duty || extractName(currentUser),
+                  }}
+                  onChange={(signatures) => setReportSignatures({ reportId: selectedReport.id, signatures })}
+                />
+              </div>
+            )}
+
             {/* Uploads */}
             <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
               <div className="flex items-center justify-between mb-2">
@@ -1549,12 +2255,28 @@ export default function InjuryReportPage() {
                     <hr style={{ margin: "14px 0" }} />
 
                     <div style={{ fontSize: 13, fontWeight: 700 }}>Signatures</div>
-                    <div style={{ fontSize: 12, marginTop: 10 }}>
-                      Employee Signature: ______________________________________ Date: _____________
-                    </div>
-                    <div style={{ fontSize: 12, marginTop: 10 }}>
-                      Manager/Supervisor Signature: ______________________________ Date: _____________
-                    </div>
+                    {(["employee", "manager"] as const).map((role) => {
+                      const label = role === "employee" ? "Employee Signature" : "Manager/Supervisor Signature";
+                      const sig = packetSignatures.find((x) => x.signerRole === role);
+                      if (!sig) {
+                        return (
+                          <div key={role} style={{ fontSize: 12, marginTop: 10 }}>
+                            {label}: ______________________________________ Date: _____________
+                          </div>
+                        );
+                      }
+                      return (
+                        <div key={role} style={{ fontSize: 12, marginTop: 10 }}>
+                          {label}:
+                          {/* eslint-disable-next-line @next/next/no-img-element */}
+                          <img src={sig.image} alt={sig.signerName} style={{ height: 48, display: "block", marginTop: 4 }} />
+                          <div>
+                            {sig.signerName} • Signed electronically {nyDateTime(new Date(sig.createdAt))} • SHA-256{" "}
+                            {sig.contentHash.slice(0, 16)}…
+                          </div>
+                        </div>
+                      );
+                    })}
 
                     <div style={{ fontSize: 10, marginTop: 16, color: "#555" }}>
                       Submitted by: {selectedReport.reported_by_name || "—"} ({selectedReport.reported_by_email || "—"}) • Role:{" "}
@@ -1564,7 +2286,8 @@ export default function InjuryReportPage() {
                 </div>
 
                 <div className="mt-3 text-[11px] text-slate-400">
-                  Tip: After printing, upload the signed pages under <b>Signed Forms</b>.
+                  Tip: Signatures captured above print with the packet. If it was signed on paper instead, upload the signed
+                  pages under <b>Signed Forms</b>.
                 </div>
               </div>
             )}
@@ -0,0 +1,727 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission, isBuildingScoped } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { nyDateTime, nyISODate } from "@/lib/time";
+import {
+  CAPA_ESCALATION_DAYS,
+  CAPA_STATUS_LABELS,
+  CORRECTIVE_ACTION_TYPES,
+  CORRECTIVE_ACTION_TYPE_LABELS,
+  INVESTIGATION_SOURCES,
+  MAX_WHYS,
+  ROOT_CAUSE_CATEGORIES,
+  ROOT_CAUSE_CATEGORY_LABELS,
+  capaDaysOverdue,
+  capaStatus,
+  investigationCloseBlocker,
+  isInvestigationSourceType,
+  type BuildingCapaSummary,
+  type CapaStatus,
+  type CorrectiveAction,
+  type CorrectiveActionType,
+  type Investigation,
+  type InvestigationSourceType,
+  type InvestigationSummary,
+  type RootCauseCategory,
+} from "@/lib/domain";
+
+type ListResponse = { investigations: InvestigationSummary[]; capas: BuildingCapaSummary[] };
+type Detail = { investigation: Investigation; actions: CorrectiveAction[] };
+type StatusFilter = "open" | "closed" | "all";
+
+// Source pages link here with ?source_type=&source_id= to open (or find) the investigation
+type SourceLink = { type: InvestigationSourceType; id: string };
+
+const SOURCE_PAGES: Record<InvestigationSourceType, { href: string; label: string }> = {
+  injury_report: { href: "/injury-report", label: "Injury Reports" },
+  damage_report: { href: "/damage-reports", label: "Damage Reports" },
+  startup_checklist: { href: "/startup-checklists", label: "Shift Readiness Reports" },
+  hazard_report: { href: "/hazard-reports", label: "Hazard Reports" },
+};
+
+const CAPA_STATUS_CLASSES: Record<CapaStatus, string> = {
+  open: "border-sky-700/70 bg-sky-900/50 text-sky-200",
+  overdue: "border-rose-700/70 bg-rose-900/60 text-rose-200",
+  awaiting_verification: "border-amber-700/70 bg-amber-900/60 text-amber-200",
+  verified: "border-emerald-700/70 bg-emerald-900/60 text-emerald-200",
+};
+
+type RootCauseForm = {
+  id: string;
+  title: string;
+  whys: string[];
+  category: RootCauseCategory | "";
+  rootCause: string;
+  factors: string; // one per line
+};
+
+type ActionForm = {
+  actionType: CorrectiveActionType;
+  description: string;
+  ownerName: string;
+  ownerEmail: string;
+  dueDate: string;
+};
+
+const EMPTY_ACTION: ActionForm = { actionType: "corrective", description: "", ownerName: "", ownerEmail: "", dueDate: "" };
+
+function rootCauseForm(inv: Investigation): RootCauseForm {
+  return {
+    id: inv.id,
+    title: inv.title,
+    whys: Array.from({ length: MAX_WHYS }, (_, i) => inv.whys[i] ?? ""),
+    category: inv.rootCauseCategory ?? "",
+    rootCause: inv.rootCause ?? "",
+    factors: inv.contributingFactors.join("\n"),
+  };
+}
+
+function readQuery(): { id: string | null; source: SourceLink | null } {
+  if (typeof window === "undefined") return { id: null, source: null };
+  const params = new URLSearchParams(window.location.search);
+  const type = params.get("source_type");
+  const sourceId = params.get("source_id")?.trim() || "";
+  return {
+    id: params.get("id"),
+    source: isInvestigationSourceType(type) && sourceId ? { type, id: sourceId } : null,
+  };
+}
+
+export default function InvestigationsPage() {
+  const currentUser = useCurrentUser();
+  const canManage = !!currentUser && hasPermission(currentUser.accessRole, "safety.manage");
+  const scoped = !!currentUser && isBuildingScoped(currentUser.accessRole);
+
+  const [query] = useState(readQuery);
+  const [building, setBuilding] = useState("ALL");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [listVersion, setListVersion] = useState(0);
+  const [list, setList] = useState<{ key: string; data: ListResponse } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(query.id);
+  const [detail, setDetail] = useState<{ key: string; data: Detail } | null>(null);
+  const [detailVersion, setDetailVersion] = useState(0);
+  const [pendingSource, setPendingSource] = useState<SourceLink | null>(query.source);
+  const [form, setForm] = useState<RootCauseForm | null>(null);
+  const [actionForm, setActionForm] = useState<ActionForm>(EMPTY_ACTION);
+  const [stepNotes, setStepNotes] = useState<Record<string, string>>({});
+  const [reschedule, setReschedule] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const effectiveBuilding = scoped ? currentUser?.building || "" : building === "ALL" ? "" : building;
+  const listKey = `${effectiveBuilding}:${listVersion}`;
+  const detailKey = `${selectedId ?? ""}:${detailVersion}`;
+  const today = nyISODate();
+
+  useEffect(() => {
+    if (!canManage) return;
+    let cancelled = false;
+
+    async function load() {
+      const qs = effectiveBuilding ? `?${new URLSearchParams({ building: effectiveBuilding })}` : "";
+      const res = await apiFetch(`/api/investigations${qs}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load investigations."));
+        return;
+      }
+      const data = (await res.json()) as ListResponse;
+      if (!cancelled) setList({ key: listKey, data });
+    }
+
+    void load().catch((e) => {
+      console.error("Unexpected error loading investigations", e);
+      if (!cancelled) setError("Unexpected error loading investigations.");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canManage, effectiveBuilding, listKey]);
+
+  useEffect(() => {
+    if (!canManage || !selectedId) return;
+    let cancelled = false;
+
+    async function load() {
+      const res = await apiFetch(`/api/investigations/${selectedId}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load investigation."));
+        return;
+      }
+      const data = (await res.json()) as Detail;
+      if (cancelled) return;
+      setDetail({ key: detailKey, data });
+      // Keep unsaved root-cause edits when only the actions changed
+      setForm((f) => (f?.id === data.investigation.id ? f : rootCauseForm(data.investigation)));
+    }
+
+    void load().catch((e) => {
+      console.error("Unexpected error loading investigation", e);
+      if (!cancelled) setError("Unexpected error loading investigation.");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canManage, selectedId, detailKey]);
+
+  function refresh() {
+    setListVersion((v) => v + 1);
+    setDetailVersion((v) => v + 1);
+  }
+
+  function select(id: string) {
+    setError(null);
+    setSelectedId(id);
+    setActionForm(EMPTY_ACTION);
+    setStepNotes({});
+    setReschedule({});
+  }
+
+  async function send(url: string, method: "POST" | "PATCH", body: unknown, fallback: string): Promise<Response | null> {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch(url, { method, body: JSON.stringify(body) });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, fallback));
+        return null;
+      }
+      return res;
+    } catch (e) {
+      console.error(fallback, e);
+      setError(fallback);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // A 409 means the source already has one: open that instead
+  async function openInvestigation(source: SourceLink) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch("/api/investigations", {
+        method: "POST",
+        body: JSON.stringify({ source_type: source.type, source_id: source.id }),
+      });
+      const body = (await res.json().catch(() => null)) as { id?: string; error?: string } | null;
+      if (!res.ok && !(res.status === 409 && body?.id)) {
+        setError(body?.error || "Failed to open investigation.");
+        return;
+      }
+      setPendingSource(null);
+      if (body?.id) select(body.id);
+      setListVersion((v) => v + 1);
+    } catch (e) {
+      console.error("Failed to open investigation.", e);
+      setError("Failed to open investigation.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveRootCause(inv: Investigation) {
+    if (!form) return;
+    const res = await send(
+      `/api/investigations/${inv.id}`,
+      "PATCH",
+      {
+        title: form.title,
+        whys: form.whys,
+        root_cause_category: form.category || null,
+        root_cause: form.rootCause,
+        contributing_factors: form.factors.split("\n"),
+      },
+      "Failed to save root cause."
+    );
+    if (res?.ok) {
+      setForm(rootCauseForm((await res.json()) as Investigation));
+      refresh();
+    }
+  }
+
+  async function setInvestigationStatus(inv: Investigation, status: "open" | "closed") {
+    const res = await send(`/api/investigations/${inv.id}`, "PATCH", { status }, "Failed to update investigation.");
+    if (res?.ok) refresh();
+  }
+
+  async function addAction(inv: Investigation) {
+    const res = await send(
+      `/api/investigations/${inv.id}/actions`,
+      "POST",
+      {
+        action_type: actionForm.actionType,
+        description: actionForm.description,
+        owner_name: actionForm.ownerName,
+        owner_email: actionForm.ownerEmail,
+        due_date: actionForm.dueDate,
+      },
+      "Failed to add action."
+    );
+    if (res?.ok) {
+      setActionForm(EMPTY_ACTION);
+      refresh();
+    }
+  }
+
+  async function takeStep(inv: Investigation, action: CorrectiveAction, body: Record<string, unknown>) {
+    const res = await send(`/api/investigations/${inv.id}/actions/${action.id}`, "PATCH", body, "Failed to update action.");
+    if (res?.ok) {
+      setStepNotes((m) => ({ ...m, [action.id]: "" }));
+      setReschedule((m) => ({ ...m, [action.id]: "" }));
+      refresh();
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Only HR, Building Managers and HQ can view investigations.
+      </div>
+    );
+  }
+
+  const listData = list?.key === listKey ? list.data : null;
+  const current = detail?.data.investigation.id === selectedId ? detail.data : null;
+  const editing = form?.id === selectedId ? form : null;
+  const investigations = (listData?.investigations ?? []).filter((i) => statusFilter === "all" || i.status === statusFilter);
+
+  const inputClass =
+    "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-500";
+  const buttonClass =
+    "rounded-lg border border-slate-700 px-3 py-1.5 text-[11px] text-slate-200 hover:bg-slate-800 disabled:opacity-50";
+  const primaryClass = "rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-1.5 disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Investigations &amp; CAPA</h1>
+            <p className="text-sm text-slate-400">
+              Root cause and corrective / preventive actions for injuries, damage and near misses. Actions overdue{" "}
+              {CAPA_ESCALATION_DAYS}+ days are escalated to HQ.
+            </p>
+            {!listData && <p className="mt-1 text-[11px] text-slate-500">Loading…</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/osha"
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+            >
+              OSHA Logs
+            </Link>
+            <Link
+              href="/"
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-rose-700 bg-rose-950/40 px-3 py-2 text-[11px] text-rose-100">{error}</div>
+        )}
+
+        {pendingSource && (
+          <div className="rounded-2xl border border-sky-800 bg-sky-950/40 p-4 text-xs flex flex-wrap items-center justify-between gap-3">
+            <div className="text-slate-200">
+              Open an investigation for this {INVESTIGATION_SOURCES[pendingSource.type].label.toLowerCase()}? If it already
+              has one, that one opens instead.
+            </div>
+            <div className="flex gap-2">
+              <button type="button" className={buttonClass} onClick={() => setPendingSource(null)} disabled={busy}>
+                Cancel
+              </button>
+              <button type="button" className={primaryClass} onClick={() => void openInvestigation(pendingSource)} disabled={busy}>
+                {busy ? "Opening…" : "Open Investigation"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Open CAPAs per building */}
+        <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-slate-100">Open CAPAs by building</h2>
+            <span className="text-[11px] text-slate-500">Actions not verified yet</span>
+          </div>
+          {listData && listData.capas.length === 0 && <p className="text-[11px] text-slate-500">No open corrective actions.</p>}
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+            {(listData?.capas ?? []).map((c) => (
+              <div key={c.building} className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+                <div className="text-[11px] text-slate-400">{c.building}</div>
+                <div className="mt-1 text-xl font-semibold text-slate-100">{c.open}</div>
+                <div className="text-[10px] text-slate-500">
+                  <span className={c.overdue > 0 ? "text-rose-300" : ""}>{c.overdue} overdue</span> •{" "}
+                  {c.awaitingVerification} to verify
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          {/* List */}
+          <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+            <div className="flex flex-wrap items-end gap-2">
+              <label className="space-y-1">
+                <div className="text-[11px] text-slate-400">Building</div>
+                <select
+                  className={inputClass}
+                  value={scoped ? currentUser.building || "" : building}
+                  disabled={scoped}
+                  onChange={(e) => setBuilding(e.target.value)}
+                >
+                  {!scoped && <option value="ALL">All buildings</option>}
+                  {BUILDINGS.map((b) => (
+                    <option key={b} value={b}>
+                      {b}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className="text-[11px] text-slate-400">Status</div>
+                <select
+                  className={inputClass}
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                >
+                  <option value="open">Open</option>
+                  <option value="closed">Closed</option>
+                  <option value="all">All</option>
+                </select>
+              </label>
+            </div>
+
+            <p className="text-[11px] text-slate-500">
+              Start one from an injury report, a damage report, a hazard / near-miss report or a readiness report that recorded a
+              near miss or hazard.
+            </p>
+
+            <div className="space-y-2">
+              {listData && investigations.length === 0 && <p className="text-[11px] text-slate-500">No investigations.</p>}
+              {investigations.map((inv) => (
+                <button
+                  key={inv.id}
+                  type="button"
+                  onClick={() => select(inv.id)}
+                  className={`w-full text-left rounded-xl border p-3 ${
+                    inv.id === selectedId ? "border-sky-600 bg-sky-950/40" : "border-slate-800 bg-slate-950 hover:bg-slate-900"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-[12px] font-semibold text-slate-100 truncate">{inv.title}</div>
+                    <span className="text-[10px] text-slate-400 uppercase">{inv.status}</span>
+                  </div>
+                  <div className="text-[10px] text-slate-500">
+                    {INVESTIGATION_SOURCES[inv.sourceType].label} • {inv.building}
+                    {inv.incidentDate ? ` • ${inv.incidentDate}` : ""}
+                  </div>
+                  <div className="mt-1 text-[10px] text-slate-400">
+                    {inv.openActionCount} of {inv.actionCount} action{inv.actionCount === 1 ? "" : "s"} open
+                    {inv.overdueActionCount > 0 && <span className="text-rose-300"> • {inv.overdueActionCount} overdue</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Detail */}
+          <div className="xl:col-span-2 rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-5">
+            {!selectedId && <p className="text-[11px] text-slate-400">Select an investigation.</p>}
+            {selectedId && (!current || !editing) && <p className="text-[11px] text-slate-400">Loading investigation…</p>}
+            {current && editing && (
+              <>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <div className="text-[11px] text-slate-400">
+                      {INVESTIGATION_SOURCES[current.investigation.sourceType].label} • {current.investigation.building}
+                      {current.investigation.incidentDate ? ` • ${current.investigation.incidentDate}` : ""}
+                    </div>
+                    <div className="text-sm font-semibold text-slate-100">{current.investigation.title}</div>
+                    {current.investigation.sourceLabel && (
+                      <div className="text-[11px] text-slate-300">{current.investigation.sourceLabel}</div>
+                    )}
+                    <Link
+                      href={SOURCE_PAGES[current.investigation.sourceType].href}
+                      className="text-[11px] text-sky-300 hover:underline"
+                    >
+                      Open {SOURCE_PAGES[current.investigation.sourceType].label} →
+                    </Link>
+                  </div>
+                  <div className="text-right space-y-1">
+                    {current.investigation.status === "closed" ? (
+                      <>
+                        <div className="text-[11px] text-emerald-300">
+                          Closed {current.investigation.closedAt ? nyDateTime(new Date(current.investigation.closedAt)) : ""}
+                          {current.investigation.closedByEmail ? ` by ${current.investigation.closedByEmail}` : ""}
+                        </div>
+                        <button
+                          type="button"
+                          className={buttonClass}
+                          disabled={busy}
+                          onClick={() => void setInvestigationStatus(current.investigation, "open")}
+                        >
+                          Reopen
+                        </button>
+                      </>
+                    ) : (
+                      (() => {
+                        const blocker = investigationCloseBlocker(current.investigation, current.actions);
+                        return (
+                          <>
+                            <button
+                              type="button"
+                              className={primaryClass}
+                              disabled={busy || !!blocker}
+                              onClick={() => void setInvestigationStatus(current.investigation, "closed")}
+                            >
+                              Close Investigation
+                            </button>
+                            {blocker && <div className="text-[10px] text-amber-300 max-w-xs">{blocker}</div>}
+                          </>
+                        );
+                      })()
+                    )}
+                  </div>
+                </div>
+
+                {/* Root cause */}
+                <fieldset disabled={current.investigation.status === "closed" || busy} className="space-y-3">
+                  <h3 className="text-[12px] font-semibold text-slate-100">Root cause</h3>
+                  <label className="block space-y-1">
+                    <div className="text-[11px] text-slate-400">Title</div>
+                    <input className={inputClass} value={editing.title} onChange={(e) => setForm({ ...editing, title: e.target.value })} />
+                  </label>
+                  <div className="space-y-1">
+                    <div className="text-[11px] text-slate-400">5 whys — ask why until you reach the cause</div>
+                    {editing.whys.map((why, i) => (
+                      <input
+                        key={i}
+                        className={inputClass}
+                        placeholder={`Why ${i + 1}?`}
+                        value={why}
+                        onChange={(e) => setForm({ ...editing, whys: editing.whys.map((w, j) => (j === i ? e.target.value : w)) })}
+                      />
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="space-y-1">
+                      <div className="text-[11px] text-slate-400">Category</div>
+                      <select
+                        className={inputClass}
+                        value={editing.category}
+                        onChange={(e) => setForm({ ...editing, category: e.target.value as RootCauseCategory | "" })}
+                      >
+                        <option value="">Not set</option>
+                        {ROOT_CAUSE_CATEGORIES.map((c) => (
+                          <option key={c} value={c}>
+                            {ROOT_CAUSE_CATEGORY_LABELS[c]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="space-y-1 md:col-span-2">
+                      <div className="text-[11px] text-slate-400">Root cause</div>
+                      <input
+                        className={inputClass}
+                        value={editing.rootCause}
+                        onChange={(e) => setForm({ ...editing, rootCause: e.target.value })}
+                      />
+                    </label>
+                  </div>
+                  <label className="block space-y-1">
+                    <div className="text-[11px] text-slate-400">Contributing factors (one per line)</div>
+                    <textarea
+                      className={`${inputClass} min-h-[70px]`}
+                      value={editing.factors}
+                      onChange={(e) => setForm({ ...editing, factors: e.target.value })}
+                    />
+                  </label>
+                  <button type="button" className={primaryClass} onClick={() => void saveRootCause(current.investigation)}>
+                    {busy ? "Saving…" : "Save Root Cause"}
+                  </button>
+                </fieldset>
+
+                {/* Actions */}
+                <div className="space-y-3">
+                  <h3 className="text-[12px] font-semibold text-slate-100">Corrective &amp; preventive actions</h3>
+                  {current.actions.length === 0 && <p className="text-[11px] text-slate-500">No actions yet.</p>}
+                  {current.actions.map((a) => {
+                    const status = capaStatus(a, today);
+                    const closed = current.investigation.status === "closed";
+                    return (
+                      <div key={a.id} className="rounded-xl border border-slate-800 bg-slate-950 p-3 space-y-2">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="text-[12px] text-slate-100">
+                            <span className="text-slate-500">{CORRECTIVE_ACTION_TYPE_LABELS[a.actionType]}:</span> {a.description}
+                          </div>
+                          <span className={`rounded-full border px-2 py-0.5 text-[10px] ${CAPA_STATUS_CLASSES[status]}`}>
+                            {CAPA_STATUS_LABELS[status]}
+                            {status === "overdue" ? ` · ${capaDaysOverdue(a, today)}d` : ""}
+                          </span>
+                        </div>
+                        <div className="text-[10px] text-slate-400">
+                          Owner {a.ownerName}
+                          {a.ownerEmail ? ` (${a.ownerEmail})` : ""} • Due {a.dueDate}
+                          {a.escalatedAt ? ` • Escalated ${nyDateTime(new Date(a.escalatedAt))}` : ""}
+                        </div>
+                        {a.completedAt && (
+                          <div className="text-[10px] text-slate-400">
+                            Completed {nyDateTime(new Date(a.completedAt))} by {a.completedByEmail ?? "—"}
+                            {a.completionNotes ? ` — ${a.completionNotes}` : ""}
+                          </div>
+                        )}
+                        {a.verifiedAt && (
+                          <div className="text-[10px] text-emerald-300">
+                            Verified {nyDateTime(new Date(a.verifiedAt))} by {a.verifiedByEmail ?? "—"}
+                            {a.verificationNotes ? ` — ${a.verificationNotes}` : ""}
+                          </div>
+                        )}
+
+                        {!closed && (
+                          <div className="flex flex-wrap items-center gap-2">
+                            {status !== "verified" && (
+                              <input
+                                className={`${inputClass} max-w-xs`}
+                                placeholder={a.completedAt ? "Verification notes" : "Completion notes"}
+                                value={stepNotes[a.id] ?? ""}
+                                onChange={(e) => setStepNotes((m) => ({ ...m, [a.id]: e.target.value }))}
+                              />
+                            )}
+                            {!a.completedAt && (
+                              <button
+                                type="button"
+                                className={buttonClass}
+                                disabled={busy}
+                                onClick={() => void takeStep(current.investigation, a, { step: "complete", notes: stepNotes[a.id] ?? "" })}
+                              >
+                                Mark Complete
+                              </button>
+                            )}
+                            {a.completedAt && !a.verifiedAt && (
+                              <button
+                                type="button"
+                                className={buttonClass}
+                                disabled={busy}
+                                onClick={() => void takeStep(current.investigation, a, { step: "verify", notes: stepNotes[a.id] ?? "" })}
+                              >
+                                Verify Effective
+                              </button>
+                            )}
+                            {a.completedAt && (
+                              <button
+                                type="button"
+                                className={buttonClass}
+                                disabled={busy}
+                                onClick={() => void takeStep(current.investigation, a, { step: "reopen" })}
+                              >
+                                Reopen
+                              </button>
+                            )}
+                            {!a.completedAt && (
+                              <>
+                                <input
+                                  type="date"
+                                  className={`${inputClass} w-36`}
+                                  value={reschedule[a.id] ?? ""}
+                                  onChange={(e) => setReschedule((m) => ({ ...m, [a.id]: e.target.value }))}
+                                />
+                                <button
+                                  type="button"
+                                  className={buttonClass}
+                                  disabled={busy || !reschedule[a.id]}
+                                  onClick={() =>
+                                    void takeStep(current.investigation, a, { step: "reschedule", due_date: reschedule[a.id] })
+                                  }
+                                >
+                                  Move Due Date
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {current.investigation.status === "open" && (
+                    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-3 space-y-2">
+                      <div className="text-[11px] font-semibold text-slate-200">Add action</div>
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                        <select
+                          className={inputClass}
+                          value={actionForm.actionType}
+                          onChange={(e) => setActionForm({ ...actionForm, actionType: e.target.value as CorrectiveActionType })}
+                        >
+                          {CORRECTIVE_ACTION_TYPES.map((t) => (
+                            <option key={t} value={t}>
+                              {CORRECTIVE_ACTION_TYPE_LABELS[t]}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          className={`${inputClass} md:col-span-3`}
+                          placeholder="What will be done"
+                          value={actionForm.description}
+                          onChange={(e) => setActionForm({ ...actionForm, description: e.target.value })}
+                        />
+                        <input
+                          className={inputClass}
+                          placeholder="Owner name"
+                          value={actionForm.ownerName}
+                          onChange={(e) => setActionForm({ ...actionForm, ownerName: e.target.value })}
+                        />
+                        <input
+                          className={`${inputClass} md:col-span-2`}
+                          placeholder="Owner email (optional)"
+                          value={actionForm.ownerEmail}
+                          onChange={(e) => setActionForm({ ...actionForm, ownerEmail: e.target.value })}
+                        />
+                        <input
+                          type="date"
+                          className={inputClass}
+                          value={actionForm.dueDate}
+                          onChange={(e) => setActionForm({ ...actionForm, dueDate: e.target.value })}
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        className={primaryClass}
+                        disabled={busy || !actionForm.description.trim() || !actionForm.ownerName.trim() || !actionForm.dueDate}
+                        onClick={() => void addAction(current.investigation)}
+                      >
+                        Add Action
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,853 @@
+"use client";
+
+import Link from "next/link";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { useReactToPrint } from "react-to-print";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { addDaysYMD, nyISODate } from "@/lib/time";
+import type { Customer } from "@/lib/domain/customers";
+import {
+  INVOICE_TRANSITIONS,
+  rateCardAllowedFor,
+  rateCardForCustomer,
+  type Invoice,
+  type InvoiceAction,
+  type InvoiceLine,
+  type InvoiceStatus,
+  type RateCard,
+} from "@/lib/invoicing";
+
+type InvoiceDetail = { invoice: Invoice; lines: InvoiceLine[] };
+
+type RateCardDraft = {
+  name: string;
+  customerId: string;
+  building: string;
+  perContainer: string;
+  perPiece: string;
+  palletizedPerContainer: string;
+  damageCreditPerPiece: string;
+  reworkCreditPerPiece: string;
+};
+
+const EMPTY_RATE_CARD: RateCardDraft = {
+  name: "",
+  customerId: "",
+  building: "",
+  perContainer: "",
+  perPiece: "",
+  palletizedPerContainer: "",
+  damageCreditPerPiece: "",
+  reworkCreditPerPiece: "",
+};
+
+function money(n: number) {
+  return `$${Number(n || 0).toFixed(2)}`;
+}
+
+function statusPillClass(status: InvoiceStatus): string {
+  if (status === "Paid") return "bg-emerald-950/40 text-emerald-200 border-emerald-700/70";
+  if (status === "Sent") return "bg-sky-950/40 text-sky-200 border-sky-700/70";
+  return "bg-slate-900/80 text-slate-200 border-slate-600/70";
+}
+
+function formatStamp(at: string | null, by: string | null): string {
+  if (!at) return "—";
+  const when = new Date(at).toLocaleString("en-US", { timeZone: "America/New_York" });
+  return by ? `${when} · ${by}` : when;
+}
+
+function describeRates(r: {
+  perContainer: number;
+  perPiece: number;
+  palletizedPerContainer: number;
+  damageCreditPerPiece: number;
+  reworkCreditPerPiece: number;
+}): string {
+  const parts: string[] = [];
+  if (r.perContainer) parts.push(`${money(r.perContainer)}/container`);
+  if (r.perPiece) parts.push(`$${r.perPiece}/piece`);
+  if (r.palletizedPerContainer) parts.push(`+${money(r.palletizedPerContainer)} palletized`);
+  if (r.damageCreditPerPiece) parts.push(`-$${r.damageCreditPerPiece}/damaged pc`);
+  if (r.reworkCreditPerPiece) parts.push(`-$${r.reworkCreditPerPiece}/rework pc`);
+  return parts.join(" • ") || "—";
+}
+
+/** The printable invoice (light theme so it prints cleanly). */
+function InvoiceDocument({
+  invoice,
+  lines,
+  customer,
+  ref,
+}: InvoiceDetail & { customer: Customer | null; ref: React.Ref<HTMLDivElement> }) {
+  return (
+    <div ref={ref} className="bg-white text-slate-900 rounded-xl p-8 text-xs">
+      <div className="flex items-start justify-between gap-4 border-b border-slate-300 pb-4">
+        <div>
+          <div className="text-lg font-bold">Precision Lumping Services</div>
+          <div className="text-slate-500">Invoice</div>
+        </div>
+        <div className="text-right">
+          <div className="text-base font-semibold">{invoice.invoiceNumber}</div>
+          <div className="text-slate-500">Issued {invoice.createdAt.slice(0, 10)}</div>
+          <div className="text-slate-500">Status: {invoice.status}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 py-4">
+        <div>
+          <div className="text-[10px] uppercase tracking-wide text-slate-500">Bill To</div>
+          <div className="text-sm font-semibold">{invoice.customer}</div>
+          {customer?.billingAddress && <div className="whitespace-pre-line">{customer.billingAddress}</div>}
+          {customer?.billingEmail && <div className="text-slate-500">{customer.billingEmail}</div>}
+          {customer && <div className="text-slate-500">Terms: {customer.billingTerms}</div>}
+        </div>
+        <div className="text-right">
+          <div className="text-[10px] uppercase tracking-wide text-slate-500">Service Period</div>
+          <div>
+            {invoice.periodStart} – {invoice.periodEnd}
+          </div>
+          <div className="text-slate-500">{invoice.building ?? "All buildings"}</div>
+        </div>
+      </div>
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-b border-slate-300 text-[10px] uppercase text-slate-500">
+            <th className="text-left py-1 pr-2">Date</th>
+            <th className="text-left py-1 pr-2">Container</th>
+            <th className="text-left py-1 pr-2">DC / Shift</th>
+            <th className="text-right py-1 pr-2">Pieces</th>
+            <th className="text-right py-1 pr-2">Charges</th>
+            <th className="text-right py-1 pr-2">Credits</th>
+            <th className="text-right py-1">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((l) => (
+            <tr key={l.containerId} className="border-b border-slate-200">
+              <td className="py-1 pr-2">{l.workDate}</td>
+              <td className="py-1 pr-2">
+                {l.containerNo}
+                {l.palletized && <span className="ml-1 text-slate-500">(palletized)</span>}
+              </td>
+              <td className="py-1 pr-2">
+                {l.building} • {l.shift ?? "—"}
+              </td>
+              <td className="py-1 pr-2 text-right">{l.pieces}</td>
+              <td className="py-1 pr-2 text-right">{money(l.containerCharge + l.pieceCharge + l.palletizedCharge)}</td>
+              <td className="py-1 pr-2 text-right">
+                {l.credit ? `-${money(l.credit)}` : "—"}
+                {(l.damagePieces > 0 || l.reworkPieces > 0) && (
+                  <div className="text-[10px] text-slate-500">
+                    {l.damagePieces} dmg / {l.reworkPieces} rework
+                  </div>
+                )}
+              </td>
+              <td className="py-1 text-right font-medium">{money(l.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-4 flex justify-end">
+        <div className="w-64 space-y-1">
+          <div className="flex justify-between">
+            <span className="text-slate-500">Containers</span>
+            <span>{invoice.containerCount}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Subtotal</span>
+            <span>{money(invoice.subtotal)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">Damage / rework credits</span>
+            <span>-{money(invoice.credits)}</span>
+          </div>
+          <div className="flex justify-between border-t border-slate-300 pt-1 text-sm font-bold">
+            <span>Total Due</span>
+            <span>{money(invoice.total)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 text-[10px] text-slate-500">
+        Rates ({invoice.rateCard.name || "rate card"}): {describeRates(invoice.rateCard)}
+      </div>
+      {invoice.notes && <div className="mt-2 text-[11px] text-slate-700">{invoice.notes}</div>}
+    </div>
+  );
+}
+
+export default function InvoicesPage() {
+  const router = useRouter();
+  const currentUser = useCurrentUser();
+
+  const role = currentUser?.accessRole;
+  const canRead = !!role && hasPermission(role, "invoices.read");
+  const canManage = !!role && hasPermission(role, "invoices.manage");
+
+  // ✅ HARD REDIRECT: billing is HQ / Admin only
+  useEffect(() => {
+    if (!currentUser) return;
+    if (canRead) return;
+    router.replace("/");
+  }, [currentUser, canRead, router]);
+
+  const today = nyISODate();
+
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerFilter, setCustomerFilter] = useState("ALL");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<InvoiceDetail | null>(null);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  // New invoice form
+  const [customerId, setCustomerId] = useState("");
+  const [building, setBuilding] = useState("");
+  const [from, setFrom] = useState(() => addDaysYMD(today, -7));
+  const [to, setTo] = useState(() => addDaysYMD(today, -1));
+  const [rateCardId, setRateCardId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const [showRateCardForm, setShowRateCardForm] = useState(false);
+  const [rateCardDraft, setRateCardDraft] = useState<RateCardDraft>(EMPTY_RATE_CARD);
+
+  const printRef = useRef<HTMLDivElement>(null);
+  const handlePrint = useReactToPrint({
+    contentRef: printRef,
+    documentTitle: detail ? `${detail.invoice.invoiceNumber} ${detail.invoice.customer}` : "Invoice",
+  });
+
+  const loadInvoices = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [invRes, cardRes, customerRes] = await Promise.all([
+        apiFetch("/api/invoices"),
+        apiFetch("/api/rate-cards"),
+        apiFetch("/api/customers"),
+      ]);
+      if (!invRes.ok) {
+        setError(await apiErrorMessage(invRes, "Failed to load invoices."));
+        return;
+      }
+      if (!cardRes.ok) {
+        setError(await apiErrorMessage(cardRes, "Failed to load rate cards."));
+        return;
+      }
+      if (!customerRes.ok) {
+        setError(await apiErrorMessage(customerRes, "Failed to load customers."));
+        return;
+      }
+      const inv = (await invRes.json()) as { data: Invoice[] };
+      const cards = (await cardRes.json()) as { data: RateCard[] };
+      const cust = (await customerRes.json()) as { data: Customer[] };
+      setInvoices(inv.data);
+      setRateCards(cards.data);
+      setCustomers(cust.data);
+      setSelectedId((prev) => prev ?? inv.data[0]?.id ?? null);
+    } catch (e) {
+      console.error("Unexpected error loading invoices", e);
+      setError("Unexpected error loading invoices.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/invoices/${id}`);
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load invoice."));
+        setDetail(null);
+        return;
+      }
+      setDetail((await res.json()) as InvoiceDetail);
+    } catch (e) {
+      console.error("Unexpected error loading invoice", e);
+      setError("Unexpected error loading invoice.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser || !canRead) return;
+    loadInvoices();
+  }, [currentUser, canRead, loadInvoices]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+    loadDetail(selectedId);
+  }, [selectedId, loadDetail]);
+
+  const activeCustomers = useMemo(() => customers.filter((c) => c.active), [customers]);
+  const activeRateCards = useMemo(() => rateCards.filter((c) => c.active), [rateCards]);
+
+  const selectedCustomer = useMemo(() => customers.find((c) => c.id === customerId) ?? null, [customers, customerId]);
+
+  // Cards that may be picked by hand for the selected customer
+  const pickableRateCards = useMemo(
+    () => (selectedCustomer ? rateCards.filter((c) => rateCardAllowedFor(c, selectedCustomer.id)) : activeRateCards),
+    [rateCards, activeRateCards, selectedCustomer]
+  );
+
+  const autoRateCard = useMemo(
+    () => (selectedCustomer ? rateCardForCustomer(rateCards, selectedCustomer, building || null) : null),
+    [rateCards, selectedCustomer, building]
+  );
+
+  // Older invoices (before customers existed) only have the name
+  const shownInvoices = useMemo(
+    () =>
+      customerFilter === "ALL" ? invoices : invoices.filter((i) => (i.customerId ?? "") === customerFilter),
+    [invoices, customerFilter]
+  );
+
+  const shownTotals = useMemo(() => {
+    const sum = (list: Invoice[]) => list.reduce((s, i) => s + i.total, 0);
+    return {
+      billed: sum(shownInvoices),
+      outstanding: sum(shownInvoices.filter((i) => i.status === "Sent")),
+      paid: sum(shownInvoices.filter((i) => i.status === "Paid")),
+    };
+  }, [shownInvoices]);
+
+  async function handleCreateInvoice(e: FormEvent) {
+    e.preventDefault();
+    if (saving) return;
+    if (!customerId) return setError("Customer is required.");
+    if (!from || !to || to < from) return setError("Pick a valid date range.");
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch("/api/invoices", {
+        method: "POST",
+        body: JSON.stringify({
+          customerId,
+          building: building || null,
+          from,
+          to,
+          rateCardId: rateCardId || null,
+          notes: notes.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to create invoice."));
+        return;
+      }
+      const created = (await res.json()) as Invoice;
+      setInfo(`${created.invoiceNumber} created: ${created.containerCount} containers, ${money(created.total)}.`);
+      setNotes("");
+      setSelectedId(created.id);
+      await loadInvoices();
+      await loadDetail(created.id);
+    } catch (e) {
+      console.error("Unexpected error creating invoice", e);
+      setError("Unexpected error creating invoice.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function runAction(action: InvoiceAction) {
+    if (!detail || saving) return;
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch(`/api/invoices/${detail.invoice.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ action }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update invoice."));
+        return;
+      }
+      setDetail((await res.json()) as InvoiceDetail);
+      setInfo("Invoice status updated.");
+      await loadInvoices();
+    } catch (e) {
+      console.error("Unexpected error updating invoice", e);
+      setError("Unexpected error updating invoice.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDeleteDraft() {
+    if (!detail || saving) return;
+    if (typeof window !== "undefined") {
+      const ok = window.confirm(
+        `Delete ${detail.invoice.invoiceNumber}? Its ${detail.invoice.containerCount} containers become billable again.`
+      );
+      if (!ok) return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch(`/api/invoices/${detail.invoice.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to delete invoice."));
+        return;
+      }
+      setInfo(`${detail.invoice.invoiceNumber} deleted.`);
+      setSelectedId(null);
+      await loadInvoices();
+    } catch (e) {
+      console.error("Unexpected error deleting invoice", e);
+      setError("Unexpected error deleting invoice.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCreateRateCard(e: FormEvent) {
+    e.preventDefault();
+    if (saving) return;
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch("/api/rate-cards", {
+        method: "POST",
+        body: JSON.stringify(rateCardDraft),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to save rate card."));
+        return;
+      }
+      setInfo("Rate card saved.");
+      setRateCardDraft(EMPTY_RATE_CARD);
+      setShowRateCardForm(false);
+      await loadInvoices();
+    } catch (e) {
+      console.error("Unexpected error saving rate card", e);
+      setError("Unexpected error saving rate card.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleRateCard(card: RateCard) {
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/rate-cards/${card.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ active: !card.active }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update rate card."));
+        return;
+      }
+      await loadInvoices();
+    } catch (e) {
+      console.error("Unexpected error updating rate card", e);
+      setError("Unexpected error updating rate card.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canRead) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to dashboard…
+      </div>
+    );
+  }
+
+  const inputCls =
+    "w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50";
+
+  const invoice = detail?.invoice ?? null;
+  const availableActions = invoice
+    ? (Object.keys(INVOICE_TRANSITIONS) as InvoiceAction[]).filter(
+        (a) => canManage && INVOICE_TRANSITIONS[a].from === invoice.status
+      )
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Invoices</h1>
+            <p className="text-sm text-slate-400">
+              Bill customers from containers using their rate card. Each container can only be invoiced once.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading invoices…</p>}
+          </div>
+          <Link
+            href="/"
+            className="inline-flex items-center px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-xs text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Left column */}
+          <div className="space-y-4">
+            {canManage && (
+              <form
+                onSubmit={handleCreateInvoice}
+                className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3"
+              >
+                <div className="text-slate-200 text-sm font-semibold">New Invoice</div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Customer</label>
+                  <select className={inputCls} value={customerId} onChange={(e) => setCustomerId(e.target.value)}>
+                    <option value="">Select a customer…</option>
+                    {activeCustomers.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="mt-1 text-[10px] text-slate-500">
+                    Only containers on this customer&apos;s work orders are billed.{" "}
+                    <Link href="/customers" className="text-sky-300 hover:underline">
+                      Manage customers →
+                    </Link>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Building</label>
+                  <select className={inputCls} value={building} onChange={(e) => setBuilding(e.target.value)}>
+                    <option value="">All buildings</option>
+                    {BUILDINGS.map((b) => (
+                      <option key={b} value={b}>
+                        {b}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-[11px] text-slate-400 mb-1">From</label>
+                    <input type="date" className={inputCls} value={from} onChange={(e) => setFrom(e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="block text-[11px] text-slate-400 mb-1">To</label>
+                    <input type="date" className={inputCls} value={to} onChange={(e) => setTo(e.target.value)} />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Rate Card</label>
+                  <select className={inputCls} value={rateCardId} onChange={(e) => setRateCardId(e.target.value)}>
+                    <option value="">
+                      Automatic
+                      {selectedCustomer ? (autoRateCard ? ` (${autoRateCard.name})` : " (none applies)") : ""}
+                    </option>
+                    {pickableRateCards.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Notes (printed on invoice)</label>
+                  <input className={inputCls} value={notes} onChange={(e) => setNotes(e.target.value)} />
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="w-full rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-2 disabled:opacity-50"
+                >
+                  {saving ? "Working…" : "Create Draft Invoice"}
+                </button>
+              </form>
+            )}
+
+            <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="text-slate-200 text-sm font-semibold">Invoices</div>
+                <select
+                  className="rounded-lg bg-slate-950 border border-slate-700 px-2 py-1 text-[11px] text-slate-50"
+                  value={customerFilter}
+                  onChange={(e) => setCustomerFilter(e.target.value)}
+                >
+                  <option value="ALL">All customers</option>
+                  {customers.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="mb-2 text-[11px] text-slate-500">
+                Billed {money(shownTotals.billed)} • Outstanding{" "}
+                <span className="text-amber-300">{money(shownTotals.outstanding)}</span> • Paid{" "}
+                <span className="text-emerald-300">{money(shownTotals.paid)}</span>
+              </div>
+              {shownInvoices.length === 0 ? (
+                <div className="py-4 text-center text-[11px] text-slate-500">No invoices yet.</div>
+              ) : (
+                <div className="space-y-2 max-h-[420px] overflow-auto">
+                  {shownInvoices.map((i) => {
+                    const active = i.id === selectedId;
+                    return (
+                      <button
+                        key={i.id}
+                        type="button"
+                        onClick={() => setSelectedId(i.id)}
+                        className={`w-full text-left rounded-xl border px-3 py-2 ${
+                          active ? "border-sky-600 bg-sky-950/30" : "border-slate-800 bg-slate-950 hover:bg-slate-900"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="text-[12px] text-slate-100 font-medium">
+                            {i.invoiceNumber} • {i.customer}
+                          </div>
+                          <span
+                            className={`inline-flex rounded-full px-2 py-0.5 text-[10px] border ${statusPillClass(i.status)}`}
+                          >
+                            {i.status}
+                          </span>
+                        </div>
+                        <div className="text-[11px] text-slate-500">
+                          {i.periodStart} – {i.periodEnd} • {i.building ?? "All"} • {money(i.total)}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-slate-200 text-sm font-semibold">Rate Cards</div>
+                {canManage && (
+                  <button
+                    type="button"
+                    onClick={() => setShowRateCardForm((v) => !v)}
+                    className="text-[11px] text-sky-300 hover:underline"
+                  >
+                    {showRateCardForm ? "Cancel" : "+ Add"}
+                  </button>
+                )}
+              </div>
+
+              {showRateCardForm && (
+                <form onSubmit={handleCreateRateCard} className="space-y-2 border border-slate-800 rounded-xl p-3">
+                  <input
+                    className={inputCls}
+                    placeholder="Name (e.g. Acme 2026)"
+                    value={rateCardDraft.name}
+                    onChange={(e) => setRateCardDraft((p) => ({ ...p, name: e.target.value }))}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      className={inputCls}
+                      value={rateCardDraft.customerId}
+                      onChange={(e) => setRateCardDraft((p) => ({ ...p, customerId: e.target.value }))}
+                    >
+                      <option value="">Any customer</option>
+                      {activeCustomers.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className={inputCls}
+                      value={rateCardDraft.building}
+                      onChange={(e) => setRateCardDraft((p) => ({ ...p, building: e.target.value }))}
+                    >
+                      <option value="">All buildings</option>
+                      {BUILDINGS.map((b) => (
+                        <option key={b} value={b}>
+                          {b}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(
+                      [
+                        ["perContainer", "Per container ($)"],
+                        ["perPiece", "Per piece ($)"],
+                        ["palletizedPerContainer", "Palletized add-on ($)"],
+                        ["damageCreditPerPiece", "Damage credit / pc ($)"],
+                        ["reworkCreditPerPiece", "Rework credit / pc ($)"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <div key={key}>
+                        <label className="block text-[10px] text-slate-500 mb-0.5">{label}</label>
+                        <input
+                          type="number"
+                          step="0.0001"
+                          min="0"
+                          className={inputCls}
+                          value={rateCardDraft[key]}
+                          onChange={(e) => setRateCardDraft((p) => ({ ...p, [key]: e.target.value }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="w-full rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-1.5 disabled:opacity-50"
+                  >
+                    Save Rate Card
+                  </button>
+                </form>
+              )}
+
+              {rateCards.length === 0 ? (
+                <div className="text-[11px] text-slate-500">No rate cards yet. Add one before invoicing.</div>
+              ) : (
+                rateCards.map((c) => (
+                  <div
+                    key={c.id}
+                    className={`rounded-xl border border-slate-800 bg-slate-950 px-3 py-2 ${c.active ? "" : "opacity-50"}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-[12px] text-slate-100">{c.name}</div>
+                      {canManage && (
+                        <button
+                          type="button"
+                          onClick={() => toggleRateCard(c)}
+                          className="text-[10px] text-slate-400 hover:text-slate-200"
+                        >
+                          {c.active ? "Retire" : "Restore"}
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-[11px] text-slate-500">
+                      {c.customerId
+                        ? customers.find((cu) => cu.id === c.customerId)?.name ?? c.customer
+                        : c.customer
+                          ? `${c.customer} (no matching customer)`
+                          : "Any customer"}{" "}
+                      • {c.building || "All buildings"}
+                    </div>
+                    <div className="text-[11px] text-slate-400">{describeRates(c)}</div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Detail */}
+          <div className="lg:col-span-2 space-y-4">
+            {!invoice || !detail ? (
+              <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 text-center text-[11px] text-slate-500">
+                Select an invoice.
+              </div>
+            ) : (
+              <>
+                <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-2">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <div className="text-slate-100 text-sm font-semibold">
+                        {invoice.invoiceNumber} • {invoice.customer}
+                      </div>
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-[10px] border ${statusPillClass(
+                          invoice.status
+                        )}`}
+                      >
+                        {invoice.status}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handlePrint()}
+                        className="rounded-lg bg-slate-800 hover:bg-slate-700 text-[11px] text-slate-100 px-3 py-1.5"
+                      >
+                        Print / PDF
+                      </button>
+                      {availableActions.map((a) => (
+                        <button
+                          key={a}
+                          type="button"
+                          onClick={() => runAction(a)}
+                          disabled={saving}
+                          className="rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-1.5 disabled:opacity-50"
+                        >
+                          {INVOICE_TRANSITIONS[a].label}
+                        </button>
+                      ))}
+                      {canManage && invoice.status === "Draft" && (
+                        <button
+                          type="button"
+                          onClick={handleDeleteDraft}
+                          disabled={saving}
+                          className="rounded-lg bg-red-900/60 hover:bg-red-800/60 text-[11px] text-red-100 px-3 py-1.5 disabled:opacity-50"
+                        >
+                          Delete Draft
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-[11px] text-slate-500">
+                    <div>Created: {formatStamp(invoice.createdAt, invoice.createdByEmail)}</div>
+                    <div>Sent: {formatStamp(invoice.sentAt, invoice.sentByEmail)}</div>
+                    <div>Paid: {formatStamp(invoice.paidAt, invoice.paidByEmail)}</div>
+                  </div>
+                </div>
+
+                <InvoiceDocument
+                  ref={printRef}
+                  invoice={invoice}
+                  lines={detail.lines}
+                  customer={customers.find((c) => c.id === invoice.customerId) ?? null}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 // src/app/layout.tsx
+import { NotificationBell } from "./notification-bell";
 import { ServiceWorkerRegister } from "./sw-register";
+import { SyncStatus } from "./sync-status";
 import type { Metadata } from "next";
 import "./globals.css";
 
@@ -23,6 +25,8 @@ export default function RootLayout({
       <body>
         <ServiceWorkerRegister />
         {children}
+        <NotificationBell />
+        <SyncStatus />
       </body>
     </html>
   );
@@ -0,0 +1,421 @@
+"use client";
+
+import Link from "next/link";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission, isBuildingScoped } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { addDaysYMD, nyISODate } from "@/lib/time";
+import { payrollWeekFor } from "@/lib/payroll";
+import {
+  ACTIONABLE_MINUTES_FLAGS,
+  type MinuteCorrection,
+  type MinutesEntry,
+  type MinutesFlag,
+  type MinutesReconciliationRow,
+} from "@/lib/minutesReconciliation";
+
+type ReconciliationResponse = {
+  rows: MinutesReconciliationRow[];
+  corrections: MinuteCorrection[];
+  lockedDates: string[];
+};
+
+type CorrectionDraft = { minutes: string; reason: string };
+
+const EMPTY_RESPONSE: ReconciliationResponse = { rows: [], corrections: [], lockedDates: [] };
+
+const FLAG_LABELS: Record<MinutesFlag, string> = {
+  ok: "Matches",
+  over_allocated: "Over-allocated",
+  idle_gap: "Idle gap",
+  no_punches: "No punches",
+  unlinked: "Not linked",
+  clock_only: "Clock only",
+};
+
+const FLAG_CLASSES: Record<MinutesFlag, string> = {
+  ok: "bg-emerald-900/60 text-emerald-200",
+  over_allocated: "bg-red-900/60 text-red-200",
+  idle_gap: "bg-amber-900/60 text-amber-200",
+  no_punches: "bg-amber-900/60 text-amber-200",
+  unlinked: "bg-slate-800 text-slate-300",
+  clock_only: "bg-slate-800 text-slate-300",
+};
+
+function minutesLabel(n: number | null): string {
+  if (n === null) return "—";
+  const sign = n < 0 ? "−" : "";
+  const abs = Math.abs(Math.round(n));
+  return `${sign}${Math.floor(abs / 60)}h ${String(abs % 60).padStart(2, "0")}m`;
+}
+
+function entryKey(row: MinutesReconciliationRow, e: MinutesEntry): string {
+  return `${row.workerKey}|${e.containerId}`;
+}
+
+export default function MinutesReconciliationPage() {
+  const currentUser = useCurrentUser();
+  const canReconcile = !!currentUser && hasPermission(currentUser.accessRole, "minutes.reconcile");
+  const scoped = !!currentUser && isBuildingScoped(currentUser.accessRole);
+
+  const [weekStart, setWeekStart] = useState(() => payrollWeekFor(nyISODate()).start);
+  const [building, setBuilding] = useState<string>("ALL");
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+  const [report, setReport] = useState<ReconciliationResponse>(EMPTY_RESPONSE);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, CorrectionDraft>>({});
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const weekEnd = addDaysYMD(weekStart, 6);
+  const effectiveBuilding = scoped && currentUser?.building ? currentUser.building : building;
+
+  const loadReport = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ from: weekStart, to: addDaysYMD(weekStart, 6) });
+      if (effectiveBuilding !== "ALL") params.set("building", effectiveBuilding);
+      const res = await apiFetch(`/api/minutes-reconciliation?${params}`);
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load reconciliation."));
+        return;
+      }
+      setReport((await res.json()) as ReconciliationResponse);
+    } catch (e) {
+      console.error("Unexpected error loading reconciliation", e);
+      setError("Unexpected error loading reconciliation.");
+    }
+  }, [weekStart, effectiveBuilding]);
+
+  useEffect(() => {
+    if (!canReconcile) return;
+    setLoading(true);
+    setError(null);
+    void loadReport().finally(() => setLoading(false));
+  }, [canReconcile, loadReport]);
+
+  const locked = useMemo(() => new Set(report.lockedDates), [report.lockedDates]);
+
+  const counts = useMemo(() => {
+    const map = new Map<MinutesFlag, number>();
+    for (const r of report.rows) map.set(r.flag, (map.get(r.flag) ?? 0) + 1);
+    return map;
+  }, [report.rows]);
+
+  const visibleRows = useMemo(
+    () => (flaggedOnly ? report.rows.filter((r) => ACTIONABLE_MINUTES_FLAGS.includes(r.flag)) : report.rows),
+    [report.rows, flaggedOnly]
+  );
+
+  function draftFor(row: MinutesReconciliationRow, e: MinutesEntry): CorrectionDraft {
+    return drafts[entryKey(row, e)] ?? { minutes: String(e.minutes), reason: "" };
+  }
+
+  function patchDraft(row: MinutesReconciliationRow, e: MinutesEntry, patch: Partial<CorrectionDraft>) {
+    const key = entryKey(row, e);
+    setDrafts((d) => ({ ...d, [key]: { ...draftFor(row, e), ...patch } }));
+  }
+
+  async function saveCorrection(row: MinutesReconciliationRow, e: MinutesEntry) {
+    if (saving) return;
+    const draft = draftFor(row, e);
+    const minutes = Number(draft.minutes);
+    if (draft.minutes.trim() === "" || !Number.isFinite(minutes) || minutes < 0) {
+      setError("Minutes must be a number, 0 or more.");
+      return;
+    }
+    if (!draft.reason.trim()) {
+      setError("Add a reason — it goes in the correction log.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch("/api/minutes-reconciliation/corrections", {
+        method: "POST",
+        body: JSON.stringify({
+          container_id: e.containerId,
+          worker_key: row.workerKey,
+          expected_minutes: e.minutes,
+          minutes,
+          reason: draft.reason.trim(),
+        }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to correct minutes."));
+        return;
+      }
+      setInfo(`${row.workerName} on container ${e.containerNo}: ${e.minutes} → ${minutes} minutes.`);
+      setDrafts((d) => {
+        const next = { ...d };
+        delete next[entryKey(row, e)];
+        return next;
+      });
+      await loadReport();
+    } catch (err) {
+      console.error("Unexpected error correcting minutes", err);
+      setError("Unexpected error correcting minutes.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canReconcile) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Only Building Managers and HQ can reconcile minutes.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Minutes vs Time Clock</h1>
+            <p className="text-sm text-slate-400">
+              Container minutes per worker per day against punched time. Fix over-allocated minutes and idle gaps
+              before the payroll week is approved; every change is logged.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading reconciliation…</p>}
+          </div>
+          <Link
+            href="/"
+            className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+          </div>
+        )}
+
+        {/* Week + building */}
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <button
+            type="button"
+            onClick={() => setWeekStart((w) => addDaysYMD(w, -7))}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800"
+          >
+            ← Prev
+          </button>
+          <div className="text-slate-200 font-medium">
+            Payroll week {weekStart} – {weekEnd}
+          </div>
+          <button
+            type="button"
+            onClick={() => setWeekStart((w) => addDaysYMD(w, 7))}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800"
+          >
+            Next →
+          </button>
+
+          <select
+            value={effectiveBuilding}
+            onChange={(e) => setBuilding(e.target.value)}
+            disabled={scoped}
+            className="rounded-lg bg-slate-950 border border-slate-700 px-3 py-1 text-slate-100"
+          >
+            {!scoped && <option value="ALL">All Buildings</option>}
+            {BUILDINGS.map((b) => (
+              <option key={b} value={b}>
+                {b}
+              </option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+            Flagged only
+          </label>
+
+          {report.lockedDates.length > 0 && (
+            <span className="rounded-full px-2 py-0.5 text-[10px] bg-sky-900/60 text-sky-200">
+              {report.lockedDates.length === 7
+                ? "Payroll approved — read-only"
+                : `${report.lockedDates.length} days in approved payroll`}
+            </span>
+          )}
+        </div>
+
+        {/* Flag counts */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-[11px]">
+          {(Object.keys(FLAG_LABELS) as MinutesFlag[]).map((flag) => (
+            <div key={flag} className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2">
+              <div className="text-slate-500">{FLAG_LABELS[flag]}</div>
+              <div className="text-slate-100 text-sm">{counts.get(flag) ?? 0}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Worker-days */}
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs">
+          {visibleRows.length === 0 ? (
+            <div className="py-4 text-center text-[11px] text-slate-500">
+              {flaggedOnly ? "Nothing flagged this week." : "No container minutes or punches this week."}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                    <th className="text-left py-2 pr-3">Date</th>
+                    <th className="text-left py-2 pr-3">Worker</th>
+                    <th className="text-left py-2 pr-3">Buildings</th>
+                    <th className="text-right py-2 pr-3">Containers</th>
+                    <th className="text-right py-2 pr-3">Clocked</th>
+                    <th className="text-right py-2 pr-3">Difference</th>
+                    <th className="text-left py-2 pl-3">Check</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((r) => {
+                    const open = expanded === r.key;
+                    const readOnly = locked.has(r.date);
+                    return (
+                      <React.Fragment key={r.key}>
+                        <tr
+                          className="border-b border-slate-800/60 hover:bg-slate-900/70 cursor-pointer"
+                          onClick={() => setExpanded(open ? null : r.key)}
+                        >
+                          <td className="py-2 pr-3 text-slate-300">{r.date}</td>
+                          <td className="py-2 pr-3 text-slate-100">{r.workerName}</td>
+                          <td className="py-2 pr-3 text-slate-400">{r.buildings.join(", ")}</td>
+                          <td className="py-2 pr-3 text-right text-slate-200">{minutesLabel(r.containerMinutes)}</td>
+                          <td className="py-2 pr-3 text-right text-slate-200">
+                            {minutesLabel(r.clockedMinutes)}
+                            {r.clockOpen && <span className="ml-1 text-[10px] text-sky-300">(still in)</span>}
+                          </td>
+                          <td className="py-2 pr-3 text-right text-slate-300">{minutesLabel(r.differenceMinutes)}</td>
+                          <td className="py-2 pl-3">
+                            <span className={`rounded-full px-2 py-0.5 text-[10px] ${FLAG_CLASSES[r.flag]}`}>
+                              {FLAG_LABELS[r.flag]}
+                            </span>
+                          </td>
+                        </tr>
+                        {open && (
+                          <tr className="border-b border-slate-800/60 bg-slate-950/60">
+                            <td colSpan={7} className="px-3 py-3">
+                              {r.entries.length === 0 ? (
+                                <div className="text-[11px] text-slate-500">No container entries for this day.</div>
+                              ) : (
+                                <div className="space-y-2">
+                                  {readOnly && (
+                                    <div className="text-[11px] text-sky-200">
+                                      This day is in approved payroll — record a payroll adjustment instead.
+                                    </div>
+                                  )}
+                                  {r.entries.map((e) => {
+                                    const draft = draftFor(r, e);
+                                    return (
+                                      <div key={e.containerId} className="flex flex-wrap items-center gap-2">
+                                        <div className="w-48 text-slate-200">
+                                          {e.containerNo}{" "}
+                                          <span className="text-slate-500">
+                                            {e.building}
+                                            {e.shift ? ` · ${e.shift}` : ""}
+                                          </span>
+                                        </div>
+                                        <input
+                                          type="number"
+                                          min={0}
+                                          value={draft.minutes}
+                                          disabled={readOnly || saving}
+                                          onChange={(ev) => patchDraft(r, e, { minutes: ev.target.value })}
+                                          className="w-24 rounded-lg bg-slate-950 border border-slate-700 px-2 py-1 text-slate-50 disabled:opacity-60"
+                                        />
+                                        <span className="text-slate-500">min</span>
+                                        <input
+                                          value={draft.reason}
+                                          disabled={readOnly || saving}
+                                          onChange={(ev) => patchDraft(r, e, { reason: ev.target.value })}
+                                          placeholder="Reason (required)"
+                                          className="flex-1 min-w-[12rem] rounded-lg bg-slate-950 border border-slate-700 px-2 py-1 text-slate-50 disabled:opacity-60"
+                                        />
+                                        <button
+                                          type="button"
+                                          onClick={() => void saveCorrection(r, e)}
+                                          disabled={readOnly || saving || Number(draft.minutes) === e.minutes}
+                                          className="rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-50 px-3 py-1 text-white"
+                                        >
+                                          Save
+                                        </button>
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Correction log */}
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs">
+          <div className="text-slate-200 text-sm font-semibold mb-2">Correction log</div>
+          {report.corrections.length === 0 ? (
+            <div className="py-2 text-[11px] text-slate-500">No corrections for this week.</div>
+          ) : (
+            <table className="min-w-full border-collapse">
+              <thead>
+                <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                  <th className="text-left py-2 pr-3">When</th>
+                  <th className="text-left py-2 pr-3">By</th>
+                  <th className="text-left py-2 pr-3">Worker</th>
+                  <th className="text-left py-2 pr-3">Container</th>
+                  <th className="text-right py-2 pr-3">Minutes</th>
+                  <th className="text-left py-2 pl-3">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.corrections.map((c) => (
+                  <tr key={c.id} className="border-b border-slate-800/60">
+                    <td className="py-2 pr-3 text-slate-400">{new Date(c.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-3 text-slate-400">{c.createdByEmail ?? "—"}</td>
+                    <td className="py-2 pr-3 text-slate-100">{c.workerName}</td>
+                    <td className="py-2 pr-3 text-slate-300">
+                      {c.containerNo} <span className="text-slate-500">{c.workDate}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-right text-slate-200">
+                      {c.oldMinutes} → {c.newMinutes}
+                    </td>
+                    <td className="py-2 pl-3 text-slate-300">{c.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useRealtimeTable } from "@/lib/useRealtimeTable";
+import { NOTIFICATIONS_TABLE, type AppNotification } from "@/lib/domain";
+
+// Shown in the panel; the rest are on /notifications
+const PANEL_LIMIT = 10;
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+// Bell with the unread count; opens the newest notifications. Renders nothing
+// while signed out (the layout also wraps the login page).
+export function NotificationBell() {
+  const router = useRouter();
+  const [signedIn, setSignedIn] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/notifications");
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load notifications."));
+        return;
+      }
+      const body = (await res.json()) as { notifications: AppNotification[]; unread: number };
+      setNotifications(body.notifications);
+      setUnread(body.unread);
+      setError(null);
+    } catch (e) {
+      console.error("Unexpected error loading notifications", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    function onSession(hasSession: boolean) {
+      setSignedIn(hasSession);
+      if (!hasSession) return;
+      void load();
+    }
+
+    void supabase.auth.getSession().then(({ data }) => onSession(!!data.session));
+    const { data: authListener } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT") onSession(!!session);
+    });
+    return () => authListener.subscription.unsubscribe();
+  }, [load]);
+
+  // Row-level security limits the stream to the user's own notifications
+  useRealtimeTable(NOTIFICATIONS_TABLE, { enabled: signedIn }, () => void load());
+
+  async function markRead(ids: string[] | "all") {
+    const res = await apiFetch("/api/notifications", {
+      method: "PATCH",
+      body: JSON.stringify(ids === "all" ? { all: true } : { ids }),
+    });
+    if (!res.ok) {
+      setError(await apiErrorMessage(res, "Failed to update notifications."));
+      return;
+    }
+    await load();
+  }
+
+  async function openNotification(n: AppNotification) {
+    setOpen(false);
+    if (!n.readAt) await markRead([n.id]);
+    if (n.link) router.push(n.link);
+  }
+
+  if (!signedIn) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex flex-col items-start gap-2 text-xs">
+      {open && (
+        <div className="w-80 max-h-96 overflow-y-auto rounded-2xl border border-slate-700 bg-slate-900/95 p-3 shadow-xl">
+          <div className="mb-2 flex items-center justify-between">
+            <div className="font-semibold text-slate-100">Notifications</div>
+            <button
+              type="button"
+              onClick={() => void markRead("all")}
+              disabled={unread === 0}
+              className="rounded-lg border border-slate-700 px-2 py-1 text-[11px] text-slate-200 disabled:opacity-50"
+            >
+              Mark all read
+            </button>
+          </div>
+
+          {error && <div className="mb-2 text-[11px] text-rose-300">{error}</div>}
+
+          {notifications.length === 0 ? (
+            <div className="text-[11px] text-slate-400">Nothing yet.</div>
+          ) : (
+            <ul className="space-y-2">
+              {notifications.slice(0, PANEL_LIMIT).map((n) => (
+                <li key={n.id}>
+                  <button
+                    type="button"
+                    onClick={() => void openNotification(n)}
+                    className={`w-full rounded-xl border p-2 text-left ${
+                      n.readAt ? "border-slate-800 bg-slate-950/60" : "border-sky-800 bg-sky-950/40"
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className={n.readAt ? "text-slate-300" : "font-medium text-slate-100"}>{n.title}</span>
+                      {!n.readAt && <span className="mt-1 h-2 w-2 shrink-0 rounded-full bg-sky-400" />}
+                    </div>
+                    {n.body && <div className="mt-0.5 text-[11px] text-slate-400 line-clamp-2">{n.body}</div>}
+                    <div className="mt-0.5 text-[10px] text-slate-500">{formatWhen(n.createdAt)}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Link
+            href="/notifications"
+            onClick={() => setOpen(false)}
+            className="mt-3 block text-[11px] text-sky-300 hover:underline"
+          >
+            All notifications & settings →
+          </Link>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-label={`Notifications${unread ? ` (${unread} unread)` : ""}`}
+        className="flex items-center gap-2 rounded-full border border-slate-700 bg-slate-900/95 px-3 py-1.5 text-slate-100 shadow-lg"
+      >
+        <span aria-hidden>🔔</span>
+        {unread > 0 && (
+          <span className="rounded-full bg-rose-600 px-1.5 text-[10px] font-semibold text-white">{unread}</span>
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useRealtimeTable } from "@/lib/useRealtimeTable";
+import { BUILDINGS } from "@/lib/buildings";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES,
+  NOTIFICATIONS_TABLE,
+  type AppNotification,
+  type NotificationPreferences,
+  type NotificationType,
+} from "@/lib/domain";
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+function typeLabel(type: string): string {
+  return NOTIFICATION_TYPE_LABELS[type as NotificationType] ?? type;
+}
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const currentUser = useCurrentUser();
+
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [onlyUnread, setOnlyUnread] = useState(false);
+
+  const [prefs, setPrefs] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [prefsDirty, setPrefsDirty] = useState(false);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const loadInbox = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/notifications");
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load notifications."));
+        return;
+      }
+      const body = (await res.json()) as { notifications: AppNotification[]; unread: number };
+      setNotifications(body.notifications);
+      setUnread(body.unread);
+    } catch (e) {
+      console.error("Unexpected error loading notifications", e);
+      setError("Unexpected error loading notifications.");
+    }
+  }, []);
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/notifications/preferences");
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load notification settings."));
+        return;
+      }
+      setPrefs((await res.json()) as NotificationPreferences);
+      setPrefsDirty(false);
+    } catch (e) {
+      console.error("Unexpected error loading notification settings", e);
+      setError("Unexpected error loading notification settings.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    setLoading(true);
+    setError(null);
+    void Promise.all([loadInbox(), loadPreferences()]).finally(() => setLoading(false));
+  }, [currentUser, loadInbox, loadPreferences]);
+
+  // ✅ Live: new notifications show up without a refresh
+  useRealtimeTable(NOTIFICATIONS_TABLE, { enabled: !!currentUser }, () => void loadInbox());
+
+  async function markRead(ids: string[] | "all") {
+    setError(null);
+    try {
+      const res = await apiFetch("/api/notifications", {
+        method: "PATCH",
+        body: JSON.stringify(ids === "all" ? { all: true } : { ids }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update notifications."));
+        return;
+      }
+      await loadInbox();
+    } catch (e) {
+      console.error("Unexpected error updating notifications", e);
+      setError("Unexpected error updating notifications.");
+    }
+  }
+
+  async function openNotification(n: AppNotification) {
+    if (!n.readAt) await markRead([n.id]);
+    if (n.link) router.push(n.link);
+  }
+
+  function toggleType(type: NotificationType) {
+    setPrefs((prev) => ({
+      ...prev,
+      mutedTypes: prev.mutedTypes.includes(type)
+        ? prev.mutedTypes.filter((t) => t !== type)
+        : [...prev.mutedTypes, type],
+    }));
+    setPrefsDirty(true);
+    setInfo(null);
+  }
+
+  function toggleBuilding(building: string) {
+    setPrefs((prev) => ({
+      ...prev,
+      buildings: prev.buildings.includes(building)
+        ? prev.buildings.filter((b) => b !== building)
+        : [...prev.buildings, building],
+    }));
+    setPrefsDirty(true);
+    setInfo(null);
+  }
+
+  async function savePreferences() {
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch("/api/notifications/preferences", {
+        method: "PUT",
+        body: JSON.stringify(prefs),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to save notification settings."));
+        return;
+      }
+      setPrefs((await res.json()) as NotificationPreferences);
+      setPrefsDirty(false);
+      setInfo("Notification settings saved.");
+    } catch (e) {
+      console.error("Unexpected error saving notification settings", e);
+      setError("Unexpected error saving notification settings.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  const shown = onlyUnread ? notifications.filter((n) => !n.readAt) : notifications;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-6xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Notifications</h1>
+            <p className="text-sm text-slate-400">
+              Direct messages, mentions and building events that need your attention. Choose which ones you get below.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading notifications…</p>}
+          </div>
+          <Link
+            href="/"
+            className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Inbox */}
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs lg:col-span-2 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="text-slate-200 text-sm font-semibold">Inbox</div>
+                <div className="text-[11px] text-slate-500">{unread} unread</div>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1 text-[11px] text-slate-300">
+                  <input type="checkbox" checked={onlyUnread} onChange={(e) => setOnlyUnread(e.target.checked)} />
+                  Unread only
+                </label>
+                <button
+                  type="button"
+                  onClick={() => void markRead("all")}
+                  disabled={unread === 0}
+                  className="rounded-lg border border-slate-700 px-3 py-1 text-[11px] text-slate-200 disabled:opacity-50"
+                >
+                  Mark all read
+                </button>
+              </div>
+            </div>
+
+            {shown.length === 0 ? (
+              <p className="text-sm text-slate-500">{onlyUnread ? "You're all caught up." : "No notifications yet."}</p>
+            ) : (
+              <ul className="space-y-2">
+                {shown.map((n) => (
+                  <li
+                    key={n.id}
+                    className={`rounded-xl border px-3 py-2 ${
+                      n.readAt ? "border-slate-800 bg-slate-950" : "border-sky-800 bg-sky-950/30"
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <button type="button" onClick={() => void openNotification(n)} className="flex-1 text-left">
+                        <div className={n.readAt ? "text-slate-300" : "font-medium text-slate-100"}>{n.title}</div>
+                        {n.body && <div className="mt-0.5 text-[11px] text-slate-400">{n.body}</div>}
+                        <div className="mt-0.5 text-[10px] text-slate-500">
+                          {typeLabel(n.type)}
+                          {n.building ? ` · ${n.building}` : ""} · {formatWhen(n.createdAt)}
+                        </div>
+                      </button>
+                      {!n.readAt && (
+                        <button
+                          type="button"
+                          onClick={() => void markRead([n.id])}
+                          className="text-[10px] text-sky-300 hover:underline"
+                        >
+                          Mark read
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Preferences */}
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-4">
+            <div>
+              <div className="text-slate-200 text-sm font-semibold">Settings</div>
+              <div className="text-[11px] text-slate-500">Saved to your account, on every device.</div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-[11px] text-slate-400">Notify me about</div>
+              {NOTIFICATION_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-[11px] text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={!prefs.mutedTypes.includes(type)}
+                    onChange={() => toggleType(type)}
+                  />
+                  {NOTIFICATION_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-[11px] text-slate-400">Only for these buildings</div>
+              <div className="text-[10px] text-slate-500">
+                None ticked = every building you can see. Messages and mentions always come through.
+              </div>
+              <div className="grid grid-cols-2 gap-1">
+                {BUILDINGS.map((b) => (
+                  <label key={b} className="flex items-center gap-2 text-[11px] text-slate-200">
+                    <input type="checkbox" checked={prefs.buildings.includes(b)} onChange={() => toggleBuilding(b)} />
+                    {b}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <button
+              type="button"
+              onClick={savePreferences}
+              disabled={saving || !prefsDirty}
+              className="w-full rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-60 text-[11px] font-medium text-white px-4 py-2"
+            >
+              {saving ? "Saving…" : "Save Settings"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useRef, useState } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission, isBuildingScoped } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { downloadCsv } from "@/lib/csv";
+import { nyISODate } from "@/lib/time";
+import {
+  OSHA_INJURY_TYPE_LABELS,
+  OSHA_INJURY_TYPES,
+  OSHA_OUTCOME_LABELS,
+  osha300ACsv,
+  osha300Csv,
+  osha301Csv,
+  type Osha300ASummary,
+  type OshaLog,
+} from "@/lib/osha";
+
+type Form = "300" | "300A" | "301";
+type OshaResponse = OshaLog & { summary: Osha300ASummary };
+
+const FORM_LABELS: Record<Form, string> = {
+  "300": "OSHA 300 Log",
+  "300A": "300A Summary",
+  "301": "301 Incident Detail",
+};
+
+const YEARS_BACK = 5;
+
+export default function OshaPage() {
+  const currentUser = useCurrentUser();
+  const canManage = !!currentUser && hasPermission(currentUser.accessRole, "safety.manage");
+  const scoped = !!currentUser && isBuildingScoped(currentUser.accessRole);
+
+  const thisYear = Number(nyISODate().slice(0, 4));
+  const [building, setBuilding] = useState<string>(BUILDINGS[0]);
+  const [year, setYear] = useState(thisYear);
+  const [employees, setEmployees] = useState("");
+  const [hours, setHours] = useState("");
+  const [applied, setApplied] = useState({ employees: "", hours: "" });
+  const [form, setForm] = useState<Form>("300");
+  const [log, setLog] = useState<OshaResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const printRef = useRef<HTMLDivElement>(null);
+  const effectiveBuilding = scoped && currentUser?.building ? currentUser.building : building;
+
+  useEffect(() => {
+    if (!canManage) return;
+    let cancelled = false;
+
+    async function load() {
+      const params = new URLSearchParams({ building: effectiveBuilding, year: String(year) });
+      if (applied.employees.trim()) params.set("employees", applied.employees.trim());
+      if (applied.hours.trim()) params.set("hours", applied.hours.trim());
+      const res = await apiFetch(`/api/osha?${params}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to build OSHA log."));
+        return;
+      }
+      setLog((await res.json()) as OshaResponse);
+    }
+
+    void load()
+      .catch((e) => {
+        console.error("Unexpected error loading OSHA log", e);
+        if (!cancelled) setError("Unexpected error loading OSHA log.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canManage, effectiveBuilding, year, applied]);
+
+  function reload(next: () => void) {
+    setLoading(true);
+    setError(null);
+    next();
+  }
+
+  function handleDownload() {
+    if (!log) return;
+    const csv =
+      form === "300"
+        ? osha300Csv(log.cases, effectiveBuilding, year)
+        : form === "300A"
+        ? osha300ACsv(log.summary)
+        : osha301Csv(log.incidents, effectiveBuilding, year);
+    downloadCsv(csv.filename, csv.header, csv.rows);
+  }
+
+  // Same approach as the injury report packet: print the form in a new window
+  function handlePrint() {
+    if (!printRef.current) return;
+    const w = window.open("", "_blank", "width=1100,height=900");
+    if (!w) {
+      setError("Popup blocked. Allow popups to print.");
+      return;
+    }
+    w.document.open();
+    w.document.write(`
+      <html>
+        <head>
+          <title>OSHA_${form}_${effectiveBuilding}_${year}</title>
+          <meta charset="utf-8" />
+          <style>
+            body { font-family: Arial, Helvetica, sans-serif; padding: 24px; font-size: 11px; }
+            table { border-collapse: collapse; width: 100%; }
+            th, td { border: 1px solid #999; padding: 4px; text-align: left; vertical-align: top; }
+            h2 { margin: 0 0 4px; }
+            .incident { page-break-after: always; margin-bottom: 24px; }
+          </style>
+        </head>
+        <body>
+          ${printRef.current.innerHTML}
+          <script>
+            window.onload = function() { window.print(); };
+          </script>
+        </body>
+      </html>
+    `);
+    w.document.close();
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Only HR, Building Managers and HQ can view OSHA recordkeeping.
+      </div>
+    );
+  }
+
+  const inputClass =
+    "rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-500";
+  const th = "text-left py-2 pr-3 font-normal";
+  const td = "py-2 pr-3 text-[11px] text-slate-200 align-top";
+  const checkMark = (on: boolean) => (on ? "✔" : "");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">OSHA Recordkeeping</h1>
+            <p className="text-sm text-slate-400">
+              300 log, 300A annual summary and 301 incident detail per building, built from classified injury reports.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Building forms…</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/injury-report"
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+            >
+              Injury Reports
+            </Link>
+            <Link
+              href="/"
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-rose-700 bg-rose-950/40 px-3 py-2 text-[11px] text-rose-100">{error}</div>
+        )}
+
+        {/* Controls */}
+        <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs flex flex-wrap items-end gap-3">
+          <label className="space-y-1">
+            <div className="text-[11px] text-slate-400">Establishment</div>
+            <select
+              className={inputClass}
+              value={effectiveBuilding}
+              disabled={scoped}
+              onChange={(e) => reload(() => setBuilding(e.target.value))}
+            >
+              {BUILDINGS.map((b) => (
+                <option key={b} value={b}>
+                  {b}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <div className="text-[11px] text-slate-400">Year</div>
+            <select className={inputClass} value={year} onChange={(e) => reload(() => setYear(Number(e.target.value)))}>
+              {Array.from({ length: YEARS_BACK + 1 }, (_, i) => thisYear - i).map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <div className="text-[11px] text-slate-400">Avg. employees</div>
+            <input className={`${inputClass} w-28`} inputMode="numeric" value={employees} onChange={(e) => setEmployees(e.target.value)} />
+          </label>
+          <label className="space-y-1">
+            <div className="text-[11px] text-slate-400">Total hours worked</div>
+            <input className={`${inputClass} w-32`} inputMode="numeric" value={hours} onChange={(e) => setHours(e.target.value)} />
+          </label>
+          <button
+            type="button"
+            onClick={() => reload(() => setApplied({ employees, hours }))}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-[11px] text-slate-200 hover:bg-slate-800"
+          >
+            Update 300A
+          </button>
+          <div className="ml-auto flex gap-2">
+            <button
+              type="button"
+              onClick={handleDownload}
+              disabled={!log}
+              className="rounded-lg border border-slate-700 px-3 py-1.5 text-[11px] text-slate-200 hover:bg-slate-800 disabled:opacity-50"
+            >
+              Download CSV
+            </button>
+            <button
+              type="button"
+              onClick={handlePrint}
+              disabled={!log}
+              className="rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-1.5 disabled:opacity-50"
+            >
+              Print
+            </button>
+          </div>
+        </div>
+
+        {log && log.unclassified > 0 && (
+          <div className="rounded-lg border border-amber-700 bg-amber-950/40 px-3 py-2 text-[11px] text-amber-100">
+            {log.unclassified} injury report{log.unclassified === 1 ? "" : "s"} in {year} at {effectiveBuilding} still need a
+            recordability decision and are not on these forms.{" "}
+            <Link href="/injury-report" className="underline">
+              Classify them on Injury Reports.
+            </Link>
+          </div>
+        )}
+
+        {/* Form tabs */}
+        <div className="flex gap-2 text-xs">
+          {(Object.keys(FORM_LABELS) as Form[]).map((f) => (
+            <button
+              key={f}
+              type="button"
+              onClick={() => setForm(f)}
+              className={
+                "px-3 py-1 rounded-full border " +
+                (form === f
+                  ? "border-sky-600 bg-sky-900/50 text-sky-100"
+                  : "border-slate-700 bg-slate-900 text-slate-300 hover:bg-slate-800")
+              }
+            >
+              {FORM_LABELS[f]}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs">
+          {!log ? (
+            <p className="text-[11px] text-slate-400">{loading ? "Loading…" : "Nothing to show."}</p>
+          ) : (
+            <div ref={printRef}>
+              <h2 className="text-sm font-semibold text-slate-100">
+                {FORM_LABELS[form]} — {effectiveBuilding}, {year}
+              </h2>
+
+              {form === "300" && (
+                <>
+                  <p className="text-[11px] text-slate-500 mb-3">Log of Work-Related Injuries and Illnesses.</p>
+                  <table className="min-w-full border-collapse">
+                    <thead>
+                      <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                        <th className={th}>(A) Case</th>
+                        <th className={th}>(B) Employee</th>
+                        <th className={th}>(C) Job title</th>
+                        <th className={th}>(D) Date</th>
+                        <th className={th}>(E) Where</th>
+                        <th className={th}>(F) Injury / illness</th>
+                        <th className={th}>(G) Death</th>
+                        <th className={th}>(H) Days away</th>
+                        <th className={th}>(I) Restricted</th>
+                        <th className={th}>(J) Other</th>
+                        <th className={th}>(K) Days away</th>
+                        <th className={th}>(L) Days restricted</th>
+                        <th className={th}>(M) Type</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {log.cases.map((c) => (
+                        <tr key={c.reportId} className="border-b border-slate-800/60">
+                          <td className={`${td} font-mono`}>{c.caseNo}</td>
+                          <td className={td}>{c.employeeName}</td>
+                          <td className={td}>{c.jobTitle || "—"}</td>
+                          <td className={`${td} whitespace-nowrap`}>{c.incidentDate}</td>
+                          <td className={td}>{c.location}</td>
+                          <td className={`${td} max-w-[20rem]`}>{c.description}</td>
+                          <td className={td}>{checkMark(c.outcome === "death")}</td>
+                          <td className={td}>{checkMark(c.outcome === "days_away")}</td>
+                          <td className={td}>{checkMark(c.outcome === "job_transfer")}</td>
+                          <td className={td}>{checkMark(c.outcome === "other_recordable")}</td>
+                          <td className={`${td} text-right`}>{c.daysAway}</td>
+                          <td className={`${td} text-right`}>{c.daysRestricted}</td>
+                          <td className={td}>{OSHA_INJURY_TYPE_LABELS[c.injuryType]}</td>
+                        </tr>
+                      ))}
+                      {log.cases.length === 0 && (
+                        <tr>
+                          <td className="py-6 text-center text-[11px] text-slate-500" colSpan={13}>
+                            No recordable cases.
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </>
+              )}
+
+              {form === "300A" && (
+                <>
+                  <p className="text-[11px] text-slate-500 mb-3">Summary of Work-Related Injuries and Illnesses.</p>
+                  <table className="min-w-full border-collapse max-w-xl">
+                    <tbody>
+                      {(
+                        [
+                          ["Annual average number of employees", log.summary.averageEmployees ?? "—"],
+                          ["Total hours worked by all employees", log.summary.hoursWorked ?? "—"],
+                          ["(G) Total number of deaths", log.summary.deaths],
+                          ["(H) Total cases with days away from work", log.summary.daysAwayCases],
+                          ["(I) Total cases with job transfer or restriction", log.summary.jobTransferCases],
+                          ["(J) Total other recordable cases", log.summary.otherRecordableCases],
+                          ["(K) Total days away from work", log.summary.totalDaysAway],
+                          ["(L) Total days of job transfer or restriction", log.summary.totalDaysRestricted],
+                          ...OSHA_INJURY_TYPES.map((t, i) => [`(M${i + 1}) ${OSHA_INJURY_TYPE_LABELS[t]}`, log.summary.injuryTypes[t]]),
+                          ["Total recordable incident rate", log.summary.totalRecordableRate ?? "—"],
+                          ["DART rate", log.summary.dartRate ?? "—"],
+                        ] as [string, string | number][]
+                      ).map(([label, value]) => (
+                        <tr key={label} className="border-b border-slate-800/60">
+                          <td className={`${td} text-slate-400`}>{label}</td>
+                          <td className={`${td} text-right font-semibold`}>{value}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-3 text-[11px] text-slate-500">
+                    Rates are per 100 full-time workers and need total hours worked. Post the signed summary from
+                    February 1 to April 30.
+                  </p>
+                </>
+              )}
+
+              {form === "301" && (
+                <div className="space-y-4 mt-2">
+                  {log.incidents.length === 0 && <p className="text-[11px] text-slate-500">No recordable cases.</p>}
+                  {log.incidents.map((i) => (
+                    <div key={i.reportId} className="incident rounded-lg border border-slate-800 bg-slate-950 p-3">
+                      <div className="text-[12px] font-semibold text-slate-100 mb-2">
+                        Injury and Illness Incident Report — Case {i.caseNo}
+                      </div>
+                      <table className="min-w-full border-collapse">
+                        <tbody>
+                          {(
+                            [
+                              ["Employee", i.employeeName],
+                              ["Job title", i.jobTitle || "—"],
+                              ["Date of birth", i.dateOfBirth || "—"],
+                              ["Date / time of event", `${i.incidentDate} ${i.incidentTime}`],
+                              ["Where", i.location],
+                              ["What happened", i.whatHappened],
+                              ["Injury or illness", `${i.injury} — ${i.bodyPart}`],
+                              ["First aid given", i.firstAid ? "Yes" : "No"],
+                              ["Treated at", i.treatmentFacility || "—"],
+                              ["EMS called", i.emergencyServices ? "Yes" : "No"],
+                              ["Employee statement", i.employeeStatement || "—"],
+                              ["Outcome", OSHA_OUTCOME_LABELS[i.outcome]],
+                              ["Days away / restricted", `${i.daysAway} / ${i.daysRestricted}`],
+                              ["Prepared by", i.preparedBy || "—"],
+                            ] as [string, string][]
+                          ).map(([label, value]) => (
+                            <tr key={label} className="border-b border-slate-800/60">
+                              <td className={`${td} text-slate-400 w-48`}>{label}</td>
+                              <td className={`${td} whitespace-pre-wrap`}>{value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,15 +5,46 @@ import Link from "next/link";
 import React, { useCallback, useMemo, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useRealtimeTable } from "@/lib/useRealtimeTable";
+import { applyRealtimeChange, type RealtimeChange, type RealtimeMergeOptions } from "@/lib/realtime";
 import { BUILDINGS } from "@/lib/buildings";
+import {
+  CHATS_KEY,
+  CHATS_TABLE,
+  CONTAINERS_KEY,
+  CONTAINERS_TABLE,
+  DAMAGE_REPORTS_TABLE,
+  WORK_ORDERS_KEY,
+  WORK_ORDERS_TABLE,
+  containerCustomerId,
+  containerDateNY,
+  containerMinutes,
+  customerIdByWorkOrder,
+  dedupeContainers,
+  extractContainersFromWorkOrders,
+  fetchCustomers,
+  mapChatRow,
+  mapContainerRow,
+  mapDamageReportRow,
+  mapWorkOrderRow,
+  normalizeWorkOrder,
+  readLocalContainers,
+  writeLocalContainers,
+  type ChatRow,
+  type ContainerRow,
+  type Customer,
+  type DamageReportRow,
+  type BuildingCapaSummary,
+  type WorkOrderRow,
+} from "@/lib/domain";
+import { apiFetch } from "@/lib/apiClient";
+import { buildCustomerTotals, calcPPH } from "@/lib/reportMetrics";
+import { hasPermission } from "@/lib/roles";
 
 const WORKFORCE_KEY = "precisionpulse_workforce";
 const TERMINATIONS_KEY = "precisionpulse_terminations";
 const DAMAGE_KEY = "precisionpulse_damage_reports";
 const STARTUP_KEY = "precisionpulse_startup_checklists";
-const CHATS_KEY = "precisionpulse_chats";
-const CONTAINERS_KEY = "precisionpulse_containers";
-const WORK_ORDERS_KEY = "precisionpulse_work_orders";
 
 type LocalRow = Record<string, unknown>;
 
@@ -37,7 +68,10 @@ const NON_SUPER_ALLOWED_ROUTES = new Set<string>([
   "/damage-reports",
   "/startup-checklists",
   "/chats",
+  "/notifications",
+  "/schedule",
   "/injury-report",
+  "/hazard-reports",
   "/worker-history",
 ]);
 
@@ -50,6 +84,7 @@ const NON_SUPER_BLOCKED_ROUTES = [
   "/reports",
   "/admin",
   "/user-accounts",
+  "/pay-scales",
 ];
 
 function safeReadArray(key: string): LocalRow[] {
@@ -64,6 +99,29 @@ function safeReadArray(key: string): LocalRow[] {
   }
 }
 
+/** Merge a live change into a cached list and write the cache back for the other pages. */
+function mergeCached<T>(
+  prev: T[],
+  change: RealtimeChange,
+  options: RealtimeMergeOptions<T>,
+  write: (rows: T[]) => void
+): T[] {
+  const next = applyRealtimeChange(prev, change, options);
+  if (next !== prev) write(next);
+  return next;
+}
+
+function writeArray(key: string): (rows: unknown[]) => void {
+  return (rows) => {
+    if (typeof window === "undefined") return;
+    try {
+      window.localStorage.setItem(key, JSON.stringify(rows));
+    } catch {
+      // ignore quota errors; the page that owns the list rewrites it on load
+    }
+  };
+}
+
 function getObjBuilding(obj: LocalRow): string | undefined {
   const b =
     (typeof obj.building === "string" ? obj.building : undefined) ||
@@ -98,37 +156,6 @@ function getBoolRecordValues(obj: unknown): boolean[] {
   return Object.values(obj as Record<string, unknown>).filter((v): v is boolean => typeof v === "boolean");
 }
 
-/**
- * IMPORTANT FIX:
- * Minutes were often 0 because workers can store minutes under different keys.
- * This makes PPH + charts correct.
- */
-function getWorkerMinutesFromWorkerRecord(w: Record<string, unknown>): number {
-  const candidates = [w.minutesWorked, w.minutes, w.mins, w.timeMinutes, w.totalMinutes, w.minutes_worked];
-  for (const c of candidates) {
-    if (typeof c === "number" && !Number.isNaN(c)) return c;
-  }
-  if (typeof w.minutesWorked === "string") {
-    const n = Number(w.minutesWorked);
-    if (!Number.isNaN(n)) return n;
-  }
-  if (typeof w.minutes === "string") {
-    const n = Number(w.minutes);
-    if (!Number.isNaN(n)) return n;
-  }
-  return 0;
-}
-
-function getWorkersMinutes(row: LocalRow): number {
-  const workersRaw = row.workers;
-  if (!Array.isArray(workersRaw)) return 0;
-
-  return workersRaw.reduce<number>((sum, w) => {
-    if (!w || typeof w !== "object") return sum;
-    return sum + getWorkerMinutesFromWorkerRecord(w as Record<string, unknown>);
-  }, 0);
-}
-
 function todayInNY(): string {
   return new Intl.DateTimeFormat("en-CA", {
     timeZone: "America/New_York",
@@ -144,22 +171,6 @@ function toDateOnlyISO(value: unknown): string {
   return value;
 }
 
-function getRowDateOnly(row: LocalRow): string {
-  const workDate =
-    (typeof row.work_date === "string" ? row.work_date : "") ||
-    (typeof row.workDate === "string" ? row.workDate : "") ||
-    (typeof row.date === "string" ? row.date : "");
-
-  const created =
-    (typeof row.createdAt === "string" ? row.createdAt : "") ||
-    (typeof row.created_at === "string" ? row.created_at : "") ||
-    (typeof row.timestamp === "string" ? row.timestamp : "") ||
-    (typeof row.savedAt === "string" ? row.savedAt : "");
-
-  const best = workDate || created;
-  return toDateOnlyISO(best);
-}
-
 function money(n: number): string {
   return `$${Number(n || 0).toFixed(2)}`;
 }
@@ -184,87 +195,6 @@ function inLastNDays(dateISO: string, n: number, todayISO: string): boolean {
   return dateISO >= start && dateISO <= todayISO;
 }
 
-/**
- * ✅ KEY FIX: Containers may live INSIDE work orders
- * This extracts container rows from each work order and normalizes them.
- */
-function extractContainersFromWorkOrders(workOrders: LocalRow[]): LocalRow[] {
-  const out: LocalRow[] = [];
-
-  for (const wo of workOrders) {
-    const woId = String(wo.id ?? wo.workOrderId ?? wo.work_order_id ?? "");
-    const woName = (typeof wo.name === "string" ? wo.name : "") || (typeof wo.title === "string" ? wo.title : "");
-
-    // Common places you may be storing them:
-    const candidates = [
-      wo.containers,
-      wo.containerEntries,
-      wo.container_entries,
-      wo.entries,
-      wo.items,
-    ];
-
-    const list = candidates.find((c) => Array.isArray(c)) as unknown;
-
-    if (!Array.isArray(list)) continue;
-
-    for (const raw of list) {
-      if (!raw || typeof raw !== "object") continue;
-
-      const c = raw as LocalRow;
-
-      // Normalize: inherit building/shift from work order if container missing it
-      const merged: LocalRow = {
-        ...c,
-        workOrderId: (typeof c.workOrderId === "string" ? c.workOrderId : "") || woId,
-        workOrderName: (typeof c.workOrderName === "string" ? c.workOrderName : "") || woName,
-        building: (typeof c.building === "string" ? c.building : "") || (typeof wo.building === "string" ? wo.building : ""),
-        shift: (typeof c.shift === "string" ? c.shift : "") || (typeof wo.shift === "string" ? wo.shift : ""),
-      };
-
-      out.push(merged);
-    }
-  }
-
-  return out;
-}
-
-/**
- * ✅ De-dupe containers so we don't double count if saved in two places.
- * Uses (id) if present, otherwise uses a stable fingerprint.
- */
-function dedupeContainers(rows: LocalRow[]): LocalRow[] {
-  const seen = new Set<string>();
-  const out: LocalRow[] = [];
-
-  for (const r of rows) {
-    const id =
-      (typeof r.id === "string" ? r.id : "") ||
-      (typeof r.containerId === "string" ? r.containerId : "") ||
-      (typeof r.container_id === "string" ? r.container_id : "");
-
-    const created =
-      (typeof r.createdAt === "string" ? r.createdAt : "") ||
-      (typeof r.created_at === "string" ? r.created_at : "") ||
-      (typeof r.timestamp === "string" ? r.timestamp : "");
-
-    const pieces =
-      (typeof r.piecesTotal === "number" ? r.piecesTotal : 0) ||
-      (typeof r.pieces_total === "number" ? r.pieces_total : 0) ||
-      (typeof r.total_pieces === "number" ? r.total_pieces : 0) ||
-      0;
-
-    const woId = (typeof r.workOrderId === "string" ? r.workOrderId : "") || "";
-    const fp = id ? `id:${id}` : `fp:${woId}|${created}|${pieces}`;
-
-    if (seen.has(fp)) continue;
-    seen.add(fp);
-    out.push(r);
-  }
-
-  return out;
-}
-
 export default function Page() {
   const router = useRouter();
   const currentUser = useCurrentUser();
@@ -288,6 +218,27 @@ export default function Page() {
   // ✅ Worker History visible to everyone
   const canSeeWorkerHistory = true;
 
+  // ✅ Payroll for HR / HQ / Admin
+  const canSeePayroll = !!currentUser && hasPermission(currentUser.accessRole, "payroll.read");
+
+  // ✅ Invoicing for HQ / Admin
+  const canSeeInvoices = !!currentUser && hasPermission(currentUser.accessRole, "invoices.read");
+
+  // ✅ Customers for HQ / Admin
+  const canSeeCustomers = !!currentUser && hasPermission(currentUser.accessRole, "customers.manage");
+
+  // ✅ Time clock kiosk for Leads and up
+  const canSeeTimeClock = !!currentUser && hasPermission(currentUser.accessRole, "timeclock.punch");
+
+  // ✅ Minutes vs time clock for Building Managers / HQ / Admin
+  const canReconcileMinutes = !!currentUser && hasPermission(currentUser.accessRole, "minutes.reconcile");
+
+  // ✅ Audit log for HQ / Admin
+  const canSeeAuditLog = !!currentUser && hasPermission(currentUser.accessRole, "audit.read");
+
+  // ✅ OSHA logs and investigations / CAPA for HR / Building Managers / HQ
+  const canSeeOsha = !!currentUser && hasPermission(currentUser.accessRole, "safety.manage");
+
   // ✅ URL Guard (kept)
   useEffect(() => {
     if (!currentUser) return;
@@ -303,10 +254,32 @@ export default function Page() {
 
     const isBlocked =
       NON_SUPER_BLOCKED_ROUTES.some((blocked) => path === blocked || path.startsWith(blocked + "/")) ||
-      (!NON_SUPER_ALLOWED_ROUTES.has(path) && !(canSeeContainers && path === "/containers"));
+      (!NON_SUPER_ALLOWED_ROUTES.has(path) &&
+        !(canSeeContainers && path === "/containers") &&
+        !(canSeePayroll && path === "/payroll") &&
+        !(canSeeInvoices && path === "/invoices") &&
+        !(canSeeCustomers && path === "/customers") &&
+        !(canSeeTimeClock && path === "/time-clock") &&
+        !(canReconcileMinutes && path === "/minutes-reconciliation") &&
+        !(canSeeAuditLog && path === "/audit-log") &&
+        !(canSeeOsha && (path === "/osha" || path === "/investigations")));
 
     if (isBlocked) router.replace("/");
-  }, [currentUser, isSuperAdmin, isLead, isBuildingManager, router, canSeeContainers]);
+  }, [
+    currentUser,
+    isSuperAdmin,
+    isLead,
+    isBuildingManager,
+    router,
+    canSeeContainers,
+    canSeePayroll,
+    canSeeInvoices,
+    canSeeCustomers,
+    canSeeTimeClock,
+    canReconcileMinutes,
+    canSeeAuditLog,
+    canSeeOsha,
+  ]);
 
   // Filters
   const [buildingFilter, setBuildingFilter] = useState<string>(() => {
@@ -314,6 +287,7 @@ export default function Page() {
   });
 
   const [shiftFilter, setShiftFilter] = useState<ShiftOption>("ALL");
+  const [customerFilter, setCustomerFilter] = useState<string>("ALL");
 
   // ✅ Effective scope rules:
   const effectiveBuilding = useMemo(() => {
@@ -330,11 +304,8 @@ export default function Page() {
     return shiftFilter;
   }, [isLead, userShift, shiftFilter]);
 
-  const matchesScope = useCallback(
-    (obj: LocalRow): boolean => {
-      const b = getObjBuilding(obj) || "";
-      const s = getObjShift(obj) || "";
-
+  const inScope = useCallback(
+    (b: string, s: string): boolean => {
       const buildingOk = effectiveBuilding === "ALL" ? true : b === effectiveBuilding;
       const shiftOk = effectiveShift === "ALL" ? true : s === effectiveShift;
 
@@ -343,14 +314,110 @@ export default function Page() {
     [effectiveBuilding, effectiveShift]
   );
 
+  const matchesScope = useCallback(
+    (obj: LocalRow): boolean => inScope(getObjBuilding(obj) || "", getObjShift(obj) || ""),
+    [inScope]
+  );
+
   // ✅ Initialize from localStorage
   const [workforce, setWorkforce] = useState<LocalRow[]>(() => safeReadArray(WORKFORCE_KEY));
   const [terminations, setTerminations] = useState<LocalRow[]>(() => safeReadArray(TERMINATIONS_KEY));
   const [damageReports, setDamageReports] = useState<LocalRow[]>(() => safeReadArray(DAMAGE_KEY));
   const [startupChecklists, setStartupChecklists] = useState<LocalRow[]>(() => safeReadArray(STARTUP_KEY));
   const [chats, setChats] = useState<LocalRow[]>(() => safeReadArray(CHATS_KEY));
-  const [containers, setContainers] = useState<LocalRow[]>(() => safeReadArray(CONTAINERS_KEY));
+  const [containers, setContainers] = useState<ContainerRow[]>(() => readLocalContainers());
   const [workOrders, setWorkOrders] = useState<LocalRow[]>(() => safeReadArray(WORK_ORDERS_KEY));
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [capas, setCapas] = useState<BuildingCapaSummary[] | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+
+    fetchCustomers(supabase).then(({ data, error }) => {
+      if (error) console.error("Error loading customers for dashboard", error);
+      if (!cancelled) setCustomers(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  // ✅ Safety: open corrective actions per building (the API scopes Building Managers)
+  useEffect(() => {
+    if (!canSeeOsha) return;
+    let cancelled = false;
+
+    apiFetch("/api/investigations")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const { capas: rows } = (await res.json()) as { capas: BuildingCapaSummary[] };
+        if (!cancelled) setCapas(rows);
+      })
+      .catch((e) => console.error("Error loading open CAPAs for dashboard", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canSeeOsha]);
+
+  // ✅ Customer scope: a container belongs to its work order's customer
+  const customerByWorkOrder = useMemo(() => customerIdByWorkOrder(workOrders.map(normalizeWorkOrder)), [workOrders]);
+
+  const containerInScope = useCallback(
+    (c: ContainerRow): boolean => {
+      if (!inScope(c.building, c.shift ?? "")) return false;
+      return customerFilter === "ALL" || containerCustomerId(c, customerByWorkOrder) === customerFilter;
+    },
+    [inScope, customerFilter, customerByWorkOrder]
+  );
+
+  const workOrderInScope = useCallback(
+    (wo: LocalRow): boolean => {
+      if (!matchesScope(wo)) return false;
+      return customerFilter === "ALL" || normalizeWorkOrder(wo).customerId === customerFilter;
+    },
+    [matchesScope, customerFilter]
+  );
+
+  // ✅ Live: the dashboard no longer goes stale while other users work
+  const liveBuilding = (isLead || isBuildingManager) && userBuilding ? userBuilding : null;
+  const live = { enabled: !!currentUser, building: liveBuilding };
+
+  useRealtimeTable(CONTAINERS_TABLE, live, (change) =>
+    setContainers((prev) => mergeCached(prev, change, { map: mapContainerRow, position: "start" }, writeLocalContainers))
+  );
+  useRealtimeTable(WORK_ORDERS_TABLE, live, (change) =>
+    setWorkOrders((prev) =>
+      mergeCached<LocalRow>(
+        prev,
+        change,
+        { map: (row) => mapWorkOrderRow(row as WorkOrderRow), position: "start" },
+        writeArray(WORK_ORDERS_KEY)
+      )
+    )
+  );
+  useRealtimeTable(DAMAGE_REPORTS_TABLE, live, (change) =>
+    setDamageReports((prev) =>
+      mergeCached<LocalRow>(
+        prev,
+        change,
+        { map: (row) => mapDamageReportRow(row as DamageReportRow), position: "start" },
+        writeArray(DAMAGE_KEY)
+      )
+    )
+  );
+  useRealtimeTable(CHATS_TABLE, live, (change) =>
+    setChats((prev) =>
+      mergeCached<LocalRow>(
+        prev,
+        change,
+        { map: (row) => mapChatRow(row as ChatRow), position: "end" },
+        writeArray(CHATS_KEY)
+      )
+    )
+  );
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -362,7 +429,7 @@ export default function Page() {
       if (e.key === DAMAGE_KEY) setDamageReports(safeReadArray(DAMAGE_KEY));
       if (e.key === STARTUP_KEY) setStartupChecklists(safeReadArray(STARTUP_KEY));
       if (e.key === CHATS_KEY) setChats(safeReadArray(CHATS_KEY));
-      if (e.key === CONTAINERS_KEY) setContainers(safeReadArray(CONTAINERS_KEY));
+      if (e.key === CONTAINERS_KEY) setContainers(readLocalContainers());
       if (e.key === WORK_ORDERS_KEY) setWorkOrders(safeReadArray(WORK_ORDERS_KEY));
     }
 
@@ -380,13 +447,12 @@ export default function Page() {
    */
   const allContainers = useMemo(() => {
     const fromWO = extractContainersFromWorkOrders(workOrders);
-    const merged = [...containers, ...fromWO];
-    return dedupeContainers(merged);
+    return dedupeContainers([...containers, ...fromWO]);
   }, [containers, workOrders]);
 
   // Trend (30-day arrays) using scoped rows
   const trend = useMemo(() => {
-    const contAll = allContainers.filter(matchesScope);
+    const contAll = allContainers.filter(containerInScope);
 
     const days: { date: string; containers: number; pieces: number; minutes: number; pph: number }[] = [];
     for (let i = 29; i >= 0; i--) {
@@ -397,26 +463,22 @@ export default function Page() {
     days.forEach((d, i) => idx.set(d.date, i));
 
     for (const c of contAll) {
-      const d = getRowDateOnly(c);
+      const d = containerDateNY(c);
       if (!d) continue;
       const i = idx.get(d);
       if (i === undefined) continue;
 
       days[i].containers += 1;
 
-      const pieces =
-        getNumber(c, "piecesTotal") ||
-        getNumber(c, "pieces_total") ||
-        getNumber(c, "total_pieces") ||
-        0;
+      const pieces = c.pieces_total;
       days[i].pieces += pieces;
 
-      const minutes = getWorkersMinutes(c);
+      const minutes = containerMinutes(c);
       days[i].minutes += minutes;
     }
 
     for (const d of days) {
-      d.pph = d.minutes === 0 ? 0 : (d.pieces * 60) / d.minutes;
+      d.pph = calcPPH(d.pieces, d.minutes);
     }
 
     const last7 = days.slice(-7);
@@ -437,14 +499,14 @@ export default function Page() {
       containers: sum(last7, "containers"),
       pieces: sum(last7, "pieces"),
       minutes: sum(last7, "minutes"),
-      pph: sum(last7, "minutes") === 0 ? 0 : (sum(last7, "pieces") * 60) / sum(last7, "minutes"),
+      pph: calcPPH(sum(last7, "pieces"), sum(last7, "minutes")),
     };
 
     const last30Agg = {
       containers: sum(last30, "containers"),
       pieces: sum(last30, "pieces"),
       minutes: sum(last30, "minutes"),
-      pph: sum(last30, "minutes") === 0 ? 0 : (sum(last30, "pieces") * 60) / sum(last30, "minutes"),
+      pph: calcPPH(sum(last30, "pieces"), sum(last30, "minutes")),
     };
 
     const maxContainers = Math.max(1, ...days.map((d) => d.containers));
@@ -457,7 +519,7 @@ export default function Page() {
       days.some((d) => d.minutes > 0);
 
     return { days, todayAgg, last7Agg, last30Agg, maxContainers, maxPieces, maxPPH, anyData };
-  }, [allContainers, matchesScope, todayStr]);
+  }, [allContainers, containerInScope, todayStr]);
 
   const metrics = useMemo(() => {
     const wf = workforce.filter(matchesScope);
@@ -467,9 +529,9 @@ export default function Page() {
     const chatAll = chats.filter(matchesScope);
 
     // ✅ Use merged container source
-    const contAll = allContainers.filter(matchesScope);
+    const contAll = allContainers.filter(containerInScope);
 
-    const wo = workOrders.filter(matchesScope);
+    const wo = workOrders.filter(workOrderInScope);
 
     const totalWorkers = wf.length;
     const activeWorkers = wf.filter((w) => getString(w, "status") === "Active").length;
@@ -517,37 +579,29 @@ export default function Page() {
     }).length;
 
     // Containers today
-    const contToday = contAll.filter((c) => getRowDateOnly(c) === todayStr);
+    const contToday = contAll.filter((c) => containerDateNY(c) === todayStr);
     const containersToday = contToday.length;
 
     const piecesToday = contToday.reduce<number>((sum, c) => {
-      const pieces =
-        getNumber(c, "piecesTotal") ||
-        getNumber(c, "pieces_total") ||
-        getNumber(c, "total_pieces") ||
-        0;
+      const pieces = c.pieces_total;
       return sum + pieces;
     }, 0);
 
-    const minutesToday = contToday.reduce<number>((sum, c) => sum + getWorkersMinutes(c), 0);
-    const pphToday = minutesToday === 0 ? 0 : (piecesToday * 60) / minutesToday;
+    const minutesToday = contToday.reduce<number>((sum, c) => sum + containerMinutes(c), 0);
+    const pphToday = calcPPH(piecesToday, minutesToday);
 
     // Coverage signal (last 7 days)
     const last7 = contAll.filter((c) => {
-      const d = getRowDateOnly(c);
+      const d = containerDateNY(c);
       return inLastNDays(d, 7, todayStr);
     });
-    const uniqueDays = new Set(last7.map((c) => getRowDateOnly(c)).filter(Boolean));
+    const uniqueDays = new Set(last7.map((c) => containerDateNY(c)).filter(Boolean));
     const last7CoverageDays = uniqueDays.size;
 
     // Freshness
     const lastSeen = contAll
       .map((c) => {
-        const t =
-          (typeof c.createdAt === "string" ? c.createdAt : "") ||
-          (typeof c.created_at === "string" ? c.created_at : "") ||
-          (typeof c.timestamp === "string" ? c.timestamp : "");
-        return t;
+        return c.created_at;
       })
       .filter(Boolean)
       .sort()
@@ -584,14 +638,18 @@ export default function Page() {
     workOrders,
     todayStr,
     matchesScope,
+    workOrderInScope,
+    containerInScope,
   ]);
 
   const buildingLabel = effectiveBuilding === "ALL" ? "All Buildings" : effectiveBuilding;
   const shiftLabel = effectiveShift === "ALL" ? "All Shifts" : effectiveShift;
+  const customerLabel =
+    customerFilter === "ALL" ? "" : customers.find((c) => c.id === customerFilter)?.name ?? "Unknown customer";
 
   // Insights (Top Work Orders + Top Workers) last 7 days, scoped
   const insights = useMemo(() => {
-    const contAll = allContainers.filter(matchesScope);
+    const contAll = allContainers.filter(containerInScope);
 
     const woById = new Map<string, string>();
     for (const w of workOrders) {
@@ -603,16 +661,11 @@ export default function Page() {
     const woAgg = new Map<string, { workOrder: string; containers: number; pieces: number; payTotal: number }>();
 
     for (const c of contAll) {
-      const d = getRowDateOnly(c);
+      const d = containerDateNY(c);
       if (!inLastNDays(d, 7, todayStr)) continue;
 
-      const woId =
-        (typeof c.workOrderId === "string" ? c.workOrderId : "") ||
-        (typeof c.work_order_id === "string" ? c.work_order_id : "") ||
-        "";
-
-      const label =
-        woId ? woById.get(woId) || woId : (typeof c.workOrderName === "string" ? c.workOrderName : "") || "Unassigned";
+      const woId = c.work_order_id ?? "";
+      const label = woId ? woById.get(woId) || woId : "Unassigned";
 
       const key = label;
 
@@ -621,19 +674,10 @@ export default function Page() {
       const row = woAgg.get(key)!;
       row.containers += 1;
 
-      const pieces =
-        getNumber(c, "piecesTotal") ||
-        getNumber(c, "pieces_total") ||
-        getNumber(c, "total_pieces") ||
-        0;
+      const pieces = c.pieces_total;
       row.pieces += pieces;
 
-      const pay =
-        getNumber(c, "containerPayTotal") ||
-        getNumber(c, "pay_total") ||
-        getNumber(c, "container_pay_total") ||
-        0;
-      row.payTotal += pay;
+      row.payTotal += c.pay_total;
     }
 
     const topWorkOrders = Array.from(woAgg.values())
@@ -643,39 +687,21 @@ export default function Page() {
     const workerAgg = new Map<string, { worker: string; payout: number; minutes: number; containers: number }>();
 
     for (const c of contAll) {
-      const d = getRowDateOnly(c);
+      const d = containerDateNY(c);
       if (!inLastNDays(d, 7, todayStr)) continue;
 
-      const workersRaw = c.workers;
-      if (!Array.isArray(workersRaw)) continue;
-
       const seenInThisContainer = new Set<string>();
 
-      for (const w of workersRaw) {
-        if (!w || typeof w !== "object") continue;
-        const rec = w as Record<string, unknown>;
-        const name =
-          (typeof rec.name === "string" ? rec.name : "") ||
-          (typeof rec.workerName === "string" ? rec.workerName : "") ||
-          (typeof rec.fullName === "string" ? rec.fullName : "");
-
-        const worker = String(name || "Unknown").trim();
+      for (const w of c.workers) {
+        const worker = (w.name || "Unknown").trim();
         if (!worker) continue;
 
         const key = worker.toLowerCase();
         if (!workerAgg.has(key)) workerAgg.set(key, { worker, payout: 0, minutes: 0, containers: 0 });
 
         const entry = workerAgg.get(key)!;
-
-        const payout =
-          (typeof rec.payout === "number" ? rec.payout : 0) ||
-          (typeof rec.payoutAmount === "number" ? rec.payoutAmount : 0) ||
-          (typeof rec.pay === "number" ? rec.pay : 0);
-
-        const minutes = getWorkerMinutesFromWorkerRecord(rec);
-
-        entry.payout += payout;
-        entry.minutes += minutes;
+        entry.payout += w.payout;
+        entry.minutes += w.minutesWorked;
 
         if (!seenInThisContainer.has(key)) {
           entry.containers += 1;
@@ -688,8 +714,14 @@ export default function Page() {
       .sort((a, b) => b.payout - a.payout)
       .slice(0, 6);
 
-    return { topWorkOrders, topWorkers };
-  }, [allContainers, workOrders, matchesScope, todayStr]);
+    const topCustomers = buildCustomerTotals(
+      contAll.filter((c) => inLastNDays(containerDateNY(c), 7, todayStr)),
+      customerByWorkOrder,
+      customers
+    ).slice(0, 6);
+
+    return { topWorkOrders, topWorkers, topCustomers };
+  }, [allContainers, workOrders, containerInScope, todayStr, customerByWorkOrder, customers]);
 
   async function handleLogout() {
     try {
@@ -849,14 +881,32 @@ export default function Page() {
 
               <NavItem href="/injury-report">Injury Report</NavItem>
 
+              <NavItem href="/hazard-reports">Hazard / Near Miss</NavItem>
+
+              {canSeeOsha && <NavItem href="/osha">OSHA Logs</NavItem>}
+
+              {canSeeOsha && <NavItem href="/investigations">Investigations &amp; CAPA</NavItem>}
+
               {canSeeWorkerHistory && <NavItem href="/worker-history">Worker History</NavItem>}
 
+              {canSeePayroll && <NavItem href="/payroll">Payroll</NavItem>}
+
+              {canSeeInvoices && <NavItem href="/invoices">Invoices</NavItem>}
+
+              {canSeeCustomers && <NavItem href="/customers">Customers</NavItem>}
+
+              {canSeeAuditLog && <NavItem href="/audit-log">Audit Log</NavItem>}
+
               <div className="pt-2 mt-2 border-t border-slate-800/80">
                 <div className="text-[10px] uppercase tracking-wide text-slate-600 mb-2">Operations</div>
                 <NavItem href="/damage-reports">Damage Reports</NavItem>
                 <NavItem href="/startup-checklists">Shift Readiness Reports</NavItem>
+                <NavItem href="/schedule">Schedule</NavItem>
+                {canSeeTimeClock && <NavItem href="/time-clock">Time Clock</NavItem>}
+                {canReconcileMinutes && <NavItem href="/minutes-reconciliation">Minutes vs Time Clock</NavItem>}
                 <NavItem href="/training">Training</NavItem>
                 <NavItem href="/chats">Chats</NavItem>
+                <NavItem href="/notifications">Notifications</NavItem>
               </div>
 
               {isSuperAdmin && (
@@ -867,6 +917,7 @@ export default function Page() {
                   <NavItem href="/hiring">Hiring</NavItem>
                   <NavItem href="/terminations">Terminations</NavItem>
                   <NavItem href="/reports">Reports</NavItem>
+                  <NavItem href="/pay-scales">Pay Scales</NavItem>
                   <NavItem href="/admin">Admin / Backup</NavItem>
                   <NavItem href="/user-accounts" emphasize>
                     User Accounts
@@ -912,6 +963,12 @@ export default function Page() {
                 <p className="text-sm text-slate-400">
                   Live overview • <span className="font-semibold text-sky-300">{buildingLabel}</span> •{" "}
                   <span className="font-semibold text-sky-300">{shiftLabel}</span>
+                  {customerLabel && (
+                    <>
+                      {" "}
+                      • <span className="font-semibold text-sky-300">{customerLabel}</span>
+                    </>
+                  )}
                 </p>
 
                 <div className="mt-3 flex flex-wrap gap-2">
@@ -973,6 +1030,24 @@ export default function Page() {
                     ))}
                   </select>
                 </div>
+
+                {customers.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-[11px] text-slate-500">Customer:</span>
+                    <select
+                      className="rounded-lg bg-slate-900/80 border border-slate-700 px-3 py-1.5 text-xs text-slate-50 shadow-sm shadow-slate-900/50"
+                      value={customerFilter}
+                      onChange={(e) => setCustomerFilter(e.target.value)}
+                    >
+                      <option value="ALL">All Customers</option>
+                      {customers.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -1058,6 +1133,39 @@ export default function Page() {
             />
           </div>
 
+          {/* Safety: open CAPAs per building */}
+          {canSeeOsha && (
+            <Panel className="space-y-3">
+              <div className="flex items-end justify-between">
+                <div>
+                  <h2 className="text-sm font-semibold text-slate-100">Safety • Open CAPAs</h2>
+                  <p className="text-[11px] text-slate-500">Corrective / preventive actions not verified yet, per building</p>
+                </div>
+                <Link href="/investigations" className="text-[11px] text-sky-300 hover:underline">
+                  Open Investigations →
+                </Link>
+              </div>
+              {!capas ? (
+                <p className="text-[11px] text-slate-500">Loading…</p>
+              ) : capas.length === 0 ? (
+                <p className="text-[11px] text-slate-500">No open corrective actions.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+                  {capas.map((c) => (
+                    <MiniCard key={c.building}>
+                      <div className="text-[11px] text-slate-400">{c.building}</div>
+                      <div className="mt-1 text-lg font-semibold text-slate-100">{c.open}</div>
+                      <div className="text-[10px] text-slate-500">
+                        <span className={c.overdue > 0 ? "text-rose-300" : ""}>{c.overdue} overdue</span> •{" "}
+                        {c.awaitingVerification} to verify
+                      </div>
+                    </MiniCard>
+                  ))}
+                </div>
+              )}
+            </Panel>
+          )}
+
           {/* Trends + Highlights */}
           <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
             <Panel className="xl:col-span-2 space-y-4">
@@ -1134,7 +1242,7 @@ export default function Page() {
               <div className="flex items-end justify-between">
                 <div>
                   <h2 className="text-sm font-semibold text-slate-100">Weekly Highlights</h2>
-                  <p className="text-[11px] text-slate-500">Top Work Orders & Workers (7 days)</p>
+                  <p className="text-[11px] text-slate-500">Top Work Orders, Workers & Customers (7 days)</p>
                 </div>
                 <Pill subtle>Last 7</Pill>
               </div>
@@ -1187,6 +1295,32 @@ export default function Page() {
                 </Link>
               </MiniCard>
 
+              {insights.topCustomers.some((c) => c.customerId) && (
+                <MiniCard>
+                  <div className="text-slate-300 mb-2 font-semibold">Top Customers</div>
+                  <div className="space-y-2">
+                    {insights.topCustomers.map((c) => (
+                      <div key={c.customerId ?? "none"} className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className={`text-[12px] truncate ${c.customerId ? "text-slate-100" : "text-slate-500"}`}>
+                            {c.customer}
+                          </div>
+                          <div className="text-[10px] text-slate-500">
+                            {c.containers} containers • {c.piecesTotal.toLocaleString()} pieces
+                          </div>
+                        </div>
+                        <div className="text-[11px] text-emerald-300 shrink-0">{money(c.payTotal)}</div>
+                      </div>
+                    ))}
+                  </div>
+                  {canSeeCustomers && (
+                    <Link href="/customers" className="mt-3 inline-block text-[11px] text-sky-300 hover:underline">
+                      Open Customers →
+                    </Link>
+                  )}
+                </MiniCard>
+              )}
+
               {metrics.last7CoverageDays < 7 && (
                 <div className="rounded-xl border border-amber-700/60 bg-amber-950/30 p-3">
                   <div className="text-[11px] text-amber-200 font-semibold">Coverage warning</div>
@@ -0,0 +1,647 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { BUILDINGS } from "@/lib/buildings";
+import { nyISODate } from "@/lib/time";
+import { fetchCustomers, type Customer } from "@/lib/domain";
+import {
+  DEFAULT_PAY_SCALE,
+  isPayScaleLocked,
+  mapPayScaleRow,
+  PAY_SCALES_TABLE,
+  parsePayScaleInput,
+  payScaleEndError,
+  payScaleStartError,
+  type PayScaleRow,
+  type PayScaleSchedule,
+} from "@/lib/payScale";
+
+type TierDraft = { maxPieces: string; pay: string };
+type SkuDraft = { minSkus: string; addAmount: string };
+
+type ScheduleListItem = PayScaleSchedule & { active: boolean; createdAt: string };
+
+function tiersToDraft(s: PayScaleSchedule): TierDraft[] {
+  return s.tiers.map((t) => ({ maxPieces: String(t.maxPieces), pay: String(t.pay) }));
+}
+
+function money(n: number) {
+  return `$${n.toFixed(2)}`;
+}
+
+export default function PayScalesPage() {
+  const router = useRouter();
+  const currentUser = useCurrentUser();
+
+  const isSuperAdmin = currentUser?.accessRole === "Super Admin";
+
+  // ✅ HARD REDIRECT: pay rates are Super Admin only
+  useEffect(() => {
+    if (!currentUser) return;
+    if (isSuperAdmin) return;
+    router.replace("/");
+  }, [currentUser, isSuperAdmin, router]);
+
+  const today = nyISODate();
+
+  const [schedules, setSchedules] = useState<ScheduleListItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  // Form state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const [effectiveTo, setEffectiveTo] = useState("");
+  const [building, setBuilding] = useState("");
+  const [customerId, setCustomerId] = useState("");
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [tiers, setTiers] = useState<TierDraft[]>(tiersToDraft(DEFAULT_PAY_SCALE));
+  const [overage, setOverage] = useState(String(DEFAULT_PAY_SCALE.overagePerPiece));
+  const [palletizedPay, setPalletizedPay] = useState(String(DEFAULT_PAY_SCALE.palletizedPay ?? ""));
+  const [skuModifiers, setSkuModifiers] = useState<SkuDraft[]>([]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    if (!isSuperAdmin) return;
+    refreshSchedules();
+  }, [currentUser, isSuperAdmin]);
+
+  /** ✅ Customers for overrides (retired ones still label old schedules) */
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+    let cancelled = false;
+
+    fetchCustomers(supabase).then(({ data, error }) => {
+      if (error) console.warn("Error loading customers", error);
+      if (!cancelled) setCustomers(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSuperAdmin]);
+
+  const customerNames = useMemo(() => new Map(customers.map((c) => [c.id, c.name])), [customers]);
+
+  async function refreshSchedules() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from(PAY_SCALES_TABLE)
+        .select("*")
+        .order("effective_from", { ascending: false });
+
+      if (error) {
+        console.error("Error loading pay scales", error);
+        setError("Failed to load pay scales from Supabase.");
+        setSchedules([]);
+        return;
+      }
+
+      setSchedules(
+        ((data || []) as PayScaleRow[]).map((row) => ({
+          ...mapPayScaleRow(row),
+          active: row.active !== false,
+          createdAt: row.created_at,
+        }))
+      );
+    } catch (e) {
+      console.error("Unexpected error loading pay scales", e);
+      setError("Unexpected error loading pay scales.");
+      setSchedules([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setName("");
+    setEffectiveFrom(today);
+    setEffectiveTo("");
+    setBuilding("");
+    setCustomerId("");
+    setTiers(tiersToDraft(DEFAULT_PAY_SCALE));
+    setOverage(String(DEFAULT_PAY_SCALE.overagePerPiece));
+    setPalletizedPay(String(DEFAULT_PAY_SCALE.palletizedPay ?? ""));
+    setSkuModifiers([]);
+  }
+
+  function loadIntoForm(s: PayScaleSchedule, asCopy: boolean) {
+    setEditingId(asCopy ? null : s.id);
+    setName(asCopy ? `${s.name} (copy)` : s.name);
+    setEffectiveFrom(asCopy ? today : s.effectiveFrom);
+    setEffectiveTo(asCopy ? "" : s.effectiveTo || "");
+    setBuilding(s.building || "");
+    setCustomerId(s.customerId || "");
+    setTiers(tiersToDraft(s));
+    setOverage(String(s.overagePerPiece));
+    setPalletizedPay(s.palletizedPay === null ? "" : String(s.palletizedPay));
+    setSkuModifiers(s.skuModifiers.map((m) => ({ minSkus: String(m.minSkus), addAmount: String(m.addAmount) })));
+    setError(null);
+    setInfo(null);
+  }
+
+  function isLocked(s: PayScaleSchedule) {
+    return isPayScaleLocked(s, today);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!isSuperAdmin) return;
+
+    setError(null);
+    setInfo(null);
+
+    const parsed = parsePayScaleInput({
+      name,
+      effectiveFrom,
+      effectiveTo,
+      building,
+      customerId,
+      tiers,
+      overagePerPiece: overage,
+      palletizedPay,
+      skuModifiers,
+    });
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+
+    if (editingId) {
+      const existing = schedules.find((s) => s.id === editingId);
+      if (existing && isLocked(existing)) {
+        setError("This schedule is already in effect. Create a new schedule instead of editing it.");
+        return;
+      }
+    }
+    const startError = payScaleStartError(parsed.value.effectiveFrom, today);
+    if (startError) {
+      setError(startError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = editingId
+        ? await apiFetch(`/api/pay-scales/${editingId}`, { method: "PATCH", body: JSON.stringify(parsed.value) })
+        : await apiFetch("/api/pay-scales", { method: "POST", body: JSON.stringify(parsed.value) });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, editingId ? "Failed to update pay scale." : "Failed to create pay scale."));
+        return;
+      }
+      setInfo(editingId ? "Pay scale updated." : "Pay scale created.");
+
+      resetForm();
+      await refreshSchedules();
+    } catch (e) {
+      console.error("Unexpected error saving pay scale", e);
+      setError("Unexpected error saving pay scale.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleEndSchedule(s: ScheduleListItem) {
+    if (!isSuperAdmin) return;
+    const endOn = window.prompt(`End "${s.name}" on which date? (YYYY-MM-DD, inclusive)`, today);
+    if (!endOn) return;
+    const endError = payScaleEndError(s, endOn, today);
+    if (endError) {
+      setError(endError);
+      return;
+    }
+
+    setError(null);
+    setInfo(null);
+    const res = await apiFetch(`/api/pay-scales/${s.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ effectiveTo: endOn }),
+    });
+    if (!res.ok) {
+      setError(await apiErrorMessage(res, "Failed to end pay scale."));
+      return;
+    }
+    setInfo(`"${s.name}" ends on ${endOn}.`);
+    await refreshSchedules();
+  }
+
+  async function handleDeactivate(s: ScheduleListItem) {
+    if (!isSuperAdmin) return;
+    if (isLocked(s)) {
+      setError("Schedules that are already in effect cannot be deactivated. End them on a date instead.");
+      return;
+    }
+    if (!window.confirm(`Deactivate "${s.name}"? It has not started yet.`)) return;
+
+    setError(null);
+    setInfo(null);
+    const res = await apiFetch(`/api/pay-scales/${s.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ active: false }),
+    });
+    if (!res.ok) {
+      setError(await apiErrorMessage(res, "Failed to deactivate pay scale."));
+      return;
+    }
+    setInfo(`"${s.name}" deactivated.`);
+    if (editingId === s.id) resetForm();
+    await refreshSchedules();
+  }
+
+  const activeSchedules = useMemo(() => schedules.filter((s) => s.active), [schedules]);
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!isSuperAdmin) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to dashboard…
+      </div>
+    );
+  }
+
+  const inputCls =
+    "w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Pay Scales</h1>
+            <p className="text-sm text-slate-400">
+              Container pay schedules. Each container is priced by the schedule in effect on its work date, so
+              new rates never change past pay.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading pay scales…</p>}
+          </div>
+          <Link
+            href="/"
+            className="inline-flex items-center px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-xs text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Form */}
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3">
+            <div className="flex items-center justify-between mb-1">
+              <div className="text-slate-200 text-sm font-semibold">
+                {editingId ? "Edit Upcoming Schedule" : "New Schedule"}
+              </div>
+              {editingId && (
+                <button type="button" onClick={resetForm} className="text-[11px] text-sky-300 hover:underline">
+                  Clear / New
+                </button>
+              )}
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Name</label>
+                <input
+                  className={inputCls}
+                  placeholder="Example: 2027 Standard"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Effective From</label>
+                  <input
+                    type="date"
+                    className={inputCls}
+                    value={effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Effective To (optional)</label>
+                  <input
+                    type="date"
+                    className={inputCls}
+                    value={effectiveTo}
+                    onChange={(e) => setEffectiveTo(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Building Override</label>
+                  <select className={inputCls} value={building} onChange={(e) => setBuilding(e.target.value)}>
+                    <option value="">All Buildings</option>
+                    {BUILDINGS.map((b) => (
+                      <option key={b} value={b}>
+                        {b}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Customer Override</label>
+                  <select className={inputCls} value={customerId} onChange={(e) => setCustomerId(e.target.value)}>
+                    <option value="">All Customers</option>
+                    {customers
+                      .filter((c) => c.active || c.id === customerId)
+                      .map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Tiers */}
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <label className="text-[11px] text-slate-400">Piece Tiers (up to pieces → pay)</label>
+                  <button
+                    type="button"
+                    onClick={() => setTiers((prev) => [...prev, { maxPieces: "", pay: "" }])}
+                    className="text-[11px] text-sky-300 hover:underline"
+                  >
+                    + Add tier
+                  </button>
+                </div>
+                {tiers.map((t, idx) => (
+                  <div key={idx} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                    <input
+                      type="number"
+                      min={1}
+                      className={inputCls}
+                      placeholder="Max pieces"
+                      value={t.maxPieces}
+                      onChange={(e) =>
+                        setTiers((prev) => prev.map((x, i) => (i === idx ? { ...x, maxPieces: e.target.value } : x)))
+                      }
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      className={inputCls}
+                      placeholder="Pay ($)"
+                      value={t.pay}
+                      onChange={(e) =>
+                        setTiers((prev) => prev.map((x, i) => (i === idx ? { ...x, pay: e.target.value } : x)))
+                      }
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setTiers((prev) => prev.filter((_, i) => i !== idx))}
+                      className="text-[11px] text-rose-300 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Overage per Piece ($)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className={inputCls}
+                    value={overage}
+                    onChange={(e) => setOverage(e.target.value)}
+                  />
+                  <p className="mt-1 text-[10px] text-slate-500">Added for each piece above the last tier.</p>
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Palletized Flat Pay ($)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className={inputCls}
+                    placeholder="Blank = price by pieces"
+                    value={palletizedPay}
+                    onChange={(e) => setPalletizedPay(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {/* SKU modifiers */}
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <label className="text-[11px] text-slate-400">SKU Modifiers (at least SKUs → add $)</label>
+                  <button
+                    type="button"
+                    onClick={() => setSkuModifiers((prev) => [...prev, { minSkus: "", addAmount: "" }])}
+                    className="text-[11px] text-sky-300 hover:underline"
+                  >
+                    + Add modifier
+                  </button>
+                </div>
+                {skuModifiers.length === 0 && (
+                  <p className="text-[10px] text-slate-500">No SKU modifiers. The highest matching modifier applies.</p>
+                )}
+                {skuModifiers.map((m, idx) => (
+                  <div key={idx} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                    <input
+                      type="number"
+                      min={1}
+                      className={inputCls}
+                      placeholder="Min SKUs"
+                      value={m.minSkus}
+                      onChange={(e) =>
+                        setSkuModifiers((prev) =>
+                          prev.map((x, i) => (i === idx ? { ...x, minSkus: e.target.value } : x))
+                        )
+                      }
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      className={inputCls}
+                      placeholder="Add ($)"
+                      value={m.addAmount}
+                      onChange={(e) =>
+                        setSkuModifiers((prev) =>
+                          prev.map((x, i) => (i === idx ? { ...x, addAmount: e.target.value } : x))
+                        )
+                      }
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setSkuModifiers((prev) => prev.filter((_, i) => i !== idx))}
+                      className="text-[11px] text-rose-300 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="mt-1 w-full rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-60 text-[11px] font-medium text-white px-4 py-2"
+              >
+                {saving ? "Saving…" : editingId ? "Save Changes" : "Create Schedule"}
+              </button>
+
+              <p className="text-[10px] text-slate-500 mt-1">
+                Schedules already in effect are locked. To change rates, create a new schedule that starts today or
+                later and end the old one.
+              </p>
+            </form>
+          </div>
+
+          {/* List */}
+          <div className="lg:col-span-2 space-y-3">
+            <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs">
+              <div className="text-slate-200 text-sm font-semibold mb-1">Fallback</div>
+              <p className="text-[11px] text-slate-400">
+                When no schedule below covers a container&apos;s work date, the built-in{" "}
+                <span className="font-semibold text-slate-200">{DEFAULT_PAY_SCALE.name}</span> scale is used.
+              </p>
+            </div>
+
+            {activeSchedules.length === 0 && !loading && (
+              <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs text-slate-500">
+                No pay scales saved yet.
+              </div>
+            )}
+
+            {schedules.map((s) => {
+              const locked = isLocked(s);
+              const current = s.active && s.effectiveFrom <= today && (!s.effectiveTo || s.effectiveTo >= today);
+              return (
+                <div
+                  key={s.id}
+                  className={`bg-slate-900 border rounded-2xl p-4 text-xs space-y-2 ${
+                    s.active ? "border-slate-800" : "border-slate-800/50 opacity-60"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <div className="text-sm font-semibold text-slate-100">
+                        {s.name}
+                        {current && (
+                          <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full bg-emerald-900/60 text-emerald-200 border border-emerald-700">
+                            In effect
+                          </span>
+                        )}
+                        {!s.active && (
+                          <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full bg-slate-800 text-slate-400 border border-slate-700">
+                            Inactive
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-[11px] text-slate-400">
+                        {s.effectiveFrom} → {s.effectiveTo || "open-ended"} · {s.building || "All buildings"} ·{" "}
+                        {s.customerId
+                          ? customerNames.get(s.customerId) ?? s.customer
+                          : s.customer
+                            ? `${s.customer} (no matching customer)`
+                            : "All customers"}
+                      </div>
+                    </div>
+                    {s.active && (
+                      <div className="flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={() => loadIntoForm(s, true)}
+                          className="text-[11px] text-sky-300 hover:underline"
+                        >
+                          Copy to new
+                        </button>
+                        {!locked && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => loadIntoForm(s, false)}
+                              className="text-[11px] text-sky-300 hover:underline"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDeactivate(s)}
+                              className="text-[11px] text-rose-300 hover:underline"
+                            >
+                              Deactivate
+                            </button>
+                          </>
+                        )}
+                        {locked && (!s.effectiveTo || s.effectiveTo >= today) && (
+                          <button
+                            type="button"
+                            onClick={() => handleEndSchedule(s)}
+                            className="text-[11px] text-amber-300 hover:underline"
+                          >
+                            End on date
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {s.tiers.map((t) => (
+                      <span
+                        key={t.maxPieces}
+                        className="px-2 py-0.5 rounded-full bg-slate-950 border border-slate-700 text-[11px] text-slate-300"
+                      >
+                        ≤ {t.maxPieces.toLocaleString()} pcs → {money(t.pay)}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-[11px] text-slate-400">
+                    Overage {money(s.overagePerPiece)}/piece · Palletized{" "}
+                    {s.palletizedPay === null ? "by pieces" : money(s.palletizedPay)}
+                    {s.skuModifiers.length > 0 && (
+                      <>
+                        {" "}
+                        · SKU modifiers:{" "}
+                        {s.skuModifiers.map((m) => `≥${m.minSkus} SKUs +${money(m.addAmount)}`).join(", ")}
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,989 @@
+"use client";
+
+import Link from "next/link";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { supabase } from "@/lib/supabaseClient";
+import { downloadCsv } from "@/lib/csv";
+import { fetchWorkforce, type WorkforceWorker } from "@/lib/domain";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission } from "@/lib/roles";
+import { addDaysYMD, nyISODate } from "@/lib/time";
+import {
+  isPayrollPeriodLocked,
+  PAYROLL_TRANSITIONS,
+  payrollWeekFor,
+  payrollWorkerTotals,
+  type PayrollAction,
+  type PayrollAdjustment,
+  type PayrollLine,
+  type PayrollPeriod,
+  type PayrollStatus,
+  type PayrollWorkerTotal,
+} from "@/lib/payroll";
+import {
+  buildPayrollExport,
+  buildPayrollExportLines,
+  defaultExportSettings,
+  isPayrollProvider,
+  PAYROLL_EXPORT_FORMATTERS,
+  PAYROLL_PROVIDERS,
+  payrollExportSummary,
+  validateExportSettings,
+  type PayrollExportSettings,
+  type PayrollProviderId,
+} from "@/lib/payrollExport";
+
+type PeriodDetail = {
+  period: PayrollPeriod;
+  lines: PayrollLine[];
+  adjustments: PayrollAdjustment[];
+};
+
+type AdjustmentDraft = {
+  workerName: string;
+  amount: string;
+  minutes: string;
+  containerId: string;
+  reason: string;
+};
+
+const EMPTY_ADJUSTMENT: AdjustmentDraft = { workerName: "", amount: "", minutes: "", containerId: "", reason: "" };
+
+const APPROVER_ACTIONS: readonly PayrollAction[] = ["approve", "markPaid"];
+
+// Last provider + settings used, so the weekly export is one click
+const EXPORT_SETTINGS_KEY = "precisionpulse_payroll_export";
+
+type StoredExportSettings = { provider: PayrollProviderId; settings: PayrollExportSettings };
+
+function readExportSettings(): StoredExportSettings {
+  const fallback: StoredExportSettings = { provider: "adp", settings: defaultExportSettings("adp") };
+  if (typeof window === "undefined") return fallback;
+  try {
+    const raw = window.localStorage.getItem(EXPORT_SETTINGS_KEY);
+    if (!raw) return fallback;
+    const parsed = JSON.parse(raw) as Partial<StoredExportSettings>;
+    if (!isPayrollProvider(parsed.provider)) return fallback;
+    const defaults = defaultExportSettings(parsed.provider);
+    return {
+      provider: parsed.provider,
+      settings: {
+        companyCode: parsed.settings?.companyCode ?? "",
+        batchId: parsed.settings?.batchId ?? "",
+        earningsCodes: { ...defaults.earningsCodes, ...parsed.settings?.earningsCodes },
+      },
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+function money(n: number) {
+  return `$${Number(n || 0).toFixed(2)}`;
+}
+
+function hours(minutes: number) {
+  return (Number(minutes || 0) / 60).toFixed(2);
+}
+
+/** Make-up pay (Production) or overtime (Hourly) for the worker table. */
+function wageExtra(w: PayrollWorkerTotal): string {
+  if (!w.wages) return "—";
+  if (w.wages.rateType === "Hourly") {
+    return w.wages.overtimeMinutes > 0
+      ? `${hours(w.wages.overtimeMinutes)} h OT · ${money(w.wages.overtimePay)}`
+      : "—";
+  }
+  return w.wages.makeUpPay > 0 ? `${money(w.wages.makeUpPay)} make-up` : "—";
+}
+
+function statusPillClass(status: PayrollStatus): string {
+  if (status === "Paid") return "bg-emerald-950/40 text-emerald-200 border-emerald-700/70";
+  if (status === "Approved") return "bg-sky-950/40 text-sky-200 border-sky-700/70";
+  if (status === "Reviewed") return "bg-amber-950/40 text-amber-200 border-amber-700/70";
+  return "bg-slate-900/80 text-slate-200 border-slate-600/70";
+}
+
+function formatStamp(at: string | null, by: string | null): string {
+  if (!at) return "—";
+  const when = new Date(at).toLocaleString("en-US", { timeZone: "America/New_York" });
+  return by ? `${when} · ${by}` : when;
+}
+
+export default function PayrollPage() {
+  const router = useRouter();
+  const currentUser = useCurrentUser();
+
+  const role = currentUser?.accessRole;
+  const canRead = !!role && hasPermission(role, "payroll.read");
+  const canManage = !!role && hasPermission(role, "payroll.manage");
+  const canApprove = !!role && hasPermission(role, "payroll.approve");
+  const canReconcileMinutes = !!role && hasPermission(role, "minutes.reconcile");
+
+  // ✅ HARD REDIRECT: payroll is HR / HQ / Admin only
+  useEffect(() => {
+    if (!currentUser) return;
+    if (canRead) return;
+    router.replace("/");
+  }, [currentUser, canRead, router]);
+
+  const today = nyISODate();
+
+  const [periods, setPeriods] = useState<PayrollPeriod[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<PeriodDetail | null>(null);
+  const [expandedWorker, setExpandedWorker] = useState<string | null>(null);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  // Default to the last full week
+  const [weekOf, setWeekOf] = useState(() => addDaysYMD(today, -7));
+  const week = useMemo(() => payrollWeekFor(weekOf || today), [weekOf, today]);
+
+  const [adjustment, setAdjustment] = useState<AdjustmentDraft>(EMPTY_ADJUSTMENT);
+
+  const [workforce, setWorkforce] = useState<WorkforceWorker[]>([]);
+  const [exportConfig, setExportConfig] = useState<StoredExportSettings>(readExportSettings);
+  const [showExportPreview, setShowExportPreview] = useState(false);
+
+  const loadPeriods = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch("/api/payroll/periods");
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load payroll periods."));
+        return;
+      }
+      const body = (await res.json()) as { data: PayrollPeriod[] };
+      setPeriods(body.data);
+      setSelectedId((prev) => prev ?? body.data[0]?.id ?? null);
+    } catch (e) {
+      console.error("Unexpected error loading payroll periods", e);
+      setError("Unexpected error loading payroll periods.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/payroll/periods/${id}`);
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load payroll period."));
+        setDetail(null);
+        return;
+      }
+      setDetail((await res.json()) as PeriodDetail);
+    } catch (e) {
+      console.error("Unexpected error loading payroll period", e);
+      setError("Unexpected error loading payroll period.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser || !canRead) return;
+    loadPeriods();
+  }, [currentUser, canRead, loadPeriods]);
+
+  useEffect(() => {
+    if (!currentUser || !canManage) return;
+    let cancelled = false;
+    fetchWorkforce(supabase).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error("Error loading workforce for payroll export", error);
+      setWorkforce(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, canManage]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(exportConfig));
+  }, [exportConfig]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    setExpandedWorker(null);
+    setShowExportPreview(false);
+    setAdjustment(EMPTY_ADJUSTMENT);
+    loadDetail(selectedId);
+  }, [selectedId, loadDetail]);
+
+  const workerTotals = useMemo(
+    () => (detail ? payrollWorkerTotals(detail.lines, detail.adjustments) : []),
+    [detail]
+  );
+
+  const grandTotal = useMemo(
+    () => ({
+      minutes: workerTotals.reduce((sum, w) => sum + w.minutes, 0),
+      payout: workerTotals.reduce((sum, w) => sum + w.grossPay, 0),
+      adjustments: workerTotals.reduce((sum, w) => sum + w.adjustmentPayout, 0),
+      makeUp: workerTotals.reduce((sum, w) => sum + (w.wages?.makeUpPay ?? 0), 0),
+      overtime: workerTotals.reduce((sum, w) => sum + (w.wages?.overtimePay ?? 0), 0),
+    }),
+    [workerTotals]
+  );
+
+  const exportLines = useMemo(
+    () => buildPayrollExportLines(workerTotals, workforce, exportConfig.settings.earningsCodes),
+    [workerTotals, workforce, exportConfig.settings.earningsCodes]
+  );
+
+  const exportSummary = useMemo(() => payrollExportSummary(exportLines), [exportLines]);
+
+  const exportSettingsProblems = useMemo(
+    () => validateExportSettings(exportConfig.provider, exportConfig.settings),
+    [exportConfig]
+  );
+
+  // The snapshot line the typed name picks out (none when it's missing or ambiguous)
+  const adjustmentLine = useMemo(() => {
+    const name = adjustment.workerName.trim().toLowerCase();
+    const matches = detail?.lines.filter((l) => l.workerName.trim().toLowerCase() === name) ?? [];
+    return matches.length === 1 ? matches[0] : null;
+  }, [detail, adjustment.workerName]);
+  const entriesForAdjustmentWorker = adjustmentLine?.entries ?? [];
+
+  async function handleCreatePeriod(e: FormEvent) {
+    e.preventDefault();
+    if (saving) return;
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch("/api/payroll/periods", {
+        method: "POST",
+        body: JSON.stringify({ weekOf }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to create payroll period."));
+        return;
+      }
+      const created = (await res.json()) as PayrollPeriod;
+      setInfo(`Draft payroll created for ${created.periodStart} – ${created.periodEnd}.`);
+      setSelectedId(created.id);
+      await loadPeriods();
+      await loadDetail(created.id);
+    } catch (e) {
+      console.error("Unexpected error creating payroll period", e);
+      setError("Unexpected error creating payroll period.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function runAction(action: PayrollAction | "refresh") {
+    if (!detail || saving) return;
+
+    if (action === "approve" && typeof window !== "undefined") {
+      const ok = window.confirm(
+        "Approve this payroll? Containers and work orders in this week become read-only; later fixes must be adjustments."
+      );
+      if (!ok) return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch(`/api/payroll/periods/${detail.period.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ action }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update payroll period."));
+        return;
+      }
+      setDetail((await res.json()) as PeriodDetail);
+      setInfo(action === "refresh" ? "Snapshot refreshed from current containers." : "Payroll status updated.");
+      await loadPeriods();
+    } catch (e) {
+      console.error("Unexpected error updating payroll period", e);
+      setError("Unexpected error updating payroll period.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAddAdjustment(e: FormEvent) {
+    e.preventDefault();
+    if (!detail || saving) return;
+
+    if (!adjustment.workerName.trim()) return setError("Worker is required.");
+    if (!adjustment.reason.trim()) return setError("Reason is required.");
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch(`/api/payroll/periods/${detail.period.id}/adjustments`, {
+        method: "POST",
+        body: JSON.stringify({
+          workerKey: adjustmentLine?.workerKey ?? null,
+          workerName: adjustment.workerName.trim(),
+          amount: Number(adjustment.amount || 0),
+          minutes: Number(adjustment.minutes || 0),
+          containerId: adjustment.containerId || null,
+          reason: adjustment.reason.trim(),
+        }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to add adjustment."));
+        return;
+      }
+      setAdjustment(EMPTY_ADJUSTMENT);
+      setInfo("Adjustment recorded.");
+      await loadDetail(detail.period.id);
+    } catch (e) {
+      console.error("Unexpected error adding payroll adjustment", e);
+      setError("Unexpected error adding adjustment.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleProviderChange(provider: PayrollProviderId) {
+    setExportConfig((prev) => ({
+      provider,
+      settings: { ...prev.settings, earningsCodes: defaultExportSettings(provider).earningsCodes },
+    }));
+  }
+
+  function updateExportSettings(patch: Partial<PayrollExportSettings>) {
+    setExportConfig((prev) => ({ ...prev, settings: { ...prev.settings, ...patch } }));
+  }
+
+  function handleDownloadExport() {
+    if (!detail) return;
+    setError(null);
+    setInfo(null);
+
+    const result = buildPayrollExport(exportConfig.provider, exportLines, detail.period, exportConfig.settings);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    downloadCsv(result.filename, result.header, result.rows);
+    setInfo(`Exported ${result.rows.length} workers for ${PAYROLL_EXPORT_FORMATTERS[exportConfig.provider].label}.`);
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canRead) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to dashboard…
+      </div>
+    );
+  }
+
+  const inputCls =
+    "w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50";
+
+  const period = detail?.period ?? null;
+  const periodLocked = !!period && isPayrollPeriodLocked(period);
+  const availableActions = period
+    ? (Object.keys(PAYROLL_TRANSITIONS) as PayrollAction[]).filter(
+        (a) =>
+          PAYROLL_TRANSITIONS[a].from === period.status && canManage && (!APPROVER_ACTIONS.includes(a) || canApprove)
+      )
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Payroll</h1>
+            <p className="text-sm text-slate-400">
+              Weekly payroll (Sunday – Saturday, New York time). Approving a week locks its containers and work
+              orders; corrections after that are recorded as adjustments.
+            </p>
+            {canReconcileMinutes && (
+              <Link href="/minutes-reconciliation" className="mt-1 inline-block text-[11px] text-sky-300 hover:underline">
+                Check container minutes against the time clock before approving →
+              </Link>
+            )}
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading payroll…</p>}
+          </div>
+          <Link
+            href="/"
+            className="inline-flex items-center px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-xs text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Periods */}
+          <div className="space-y-4">
+            {canManage && (
+              <form
+                onSubmit={handleCreatePeriod}
+                className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3"
+              >
+                <div className="text-slate-200 text-sm font-semibold">New Payroll Week</div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Any day in the week</label>
+                  <input type="date" className={inputCls} value={weekOf} onChange={(e) => setWeekOf(e.target.value)} />
+                  <div className="mt-1 text-[11px] text-slate-500">
+                    Week: {week.start} – {week.end}
+                  </div>
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving || !weekOf}
+                  className="w-full rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-2 disabled:opacity-50"
+                >
+                  {saving ? "Working…" : "Create Draft & Snapshot"}
+                </button>
+              </form>
+            )}
+
+            <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs">
+              <div className="text-slate-200 text-sm font-semibold mb-2">Payroll Weeks</div>
+              {periods.length === 0 ? (
+                <div className="py-4 text-center text-[11px] text-slate-500">No payroll weeks yet.</div>
+              ) : (
+                <div className="space-y-2">
+                  {periods.map((p) => {
+                    const active = p.id === selectedId;
+                    return (
+                      <button
+                        key={p.id}
+                        type="button"
+                        onClick={() => setSelectedId(p.id)}
+                        className={`w-full text-left rounded-xl border px-3 py-2 ${
+                          active ? "border-sky-600 bg-sky-950/30" : "border-slate-800 bg-slate-950 hover:bg-slate-900"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="text-[12px] text-slate-100 font-medium">
+                            {p.periodStart} – {p.periodEnd}
+                          </div>
+                          <span
+                            className={`inline-flex rounded-full px-2 py-0.5 text-[10px] border ${statusPillClass(p.status)}`}
+                          >
+                            {p.status}
+                          </span>
+                        </div>
+                        <div className="text-[11px] text-slate-500">
+                          {p.workerCount} workers • {money(p.totalGrossPay)}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Detail */}
+          <div className="lg:col-span-2 space-y-4">
+            {!period ? (
+              <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 text-center text-[11px] text-slate-500">
+                Select a payroll week.
+              </div>
+            ) : (
+              <>
+                <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <div className="text-slate-100 text-sm font-semibold">
+                          {period.periodStart} – {period.periodEnd}
+                        </div>
+                        <span
+                          className={`inline-flex rounded-full px-2 py-0.5 text-[10px] border ${statusPillClass(
+                            period.status
+                          )}`}
+                        >
+                          {period.status}
+                        </span>
+                        {periodLocked && <span className="text-[10px] text-amber-300">Containers locked</span>}
+                      </div>
+                      <div className="text-[11px] text-slate-500">
+                        Snapshot: {formatStamp(period.snapshotAt, null)}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      {period.status === "Draft" && canManage && (
+                        <button
+                          type="button"
+                          onClick={() => runAction("refresh")}
+                          disabled={saving}
+                          className="rounded-lg bg-slate-800 hover:bg-slate-700 text-[11px] text-slate-100 px-3 py-1.5 disabled:opacity-50"
+                        >
+                          Refresh Snapshot
+                        </button>
+                      )}
+                      {availableActions.map((a) => (
+                        <button
+                          key={a}
+                          type="button"
+                          onClick={() => runAction(a)}
+                          disabled={saving}
+                          className={`rounded-lg text-[11px] font-medium px-3 py-1.5 disabled:opacity-50 ${
+                            a === "reopen"
+                              ? "bg-slate-800 hover:bg-slate-700 text-slate-100"
+                              : "bg-sky-600 hover:bg-sky-500 text-white"
+                          }`}
+                        >
+                          {PAYROLL_TRANSITIONS[a].label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-[11px]">
+                    <div className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2">
+                      <div className="text-slate-500">Workers</div>
+                      <div className="text-slate-100 text-sm">{workerTotals.length}</div>
+                    </div>
+                    <div className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2">
+                      <div className="text-slate-500">Hours</div>
+                      <div className="text-slate-100 text-sm">{hours(grandTotal.minutes)}</div>
+                    </div>
+                    <div className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2">
+                      <div className="text-slate-500">Adjustments</div>
+                      <div className="text-slate-100 text-sm">{money(grandTotal.adjustments)}</div>
+                    </div>
+                    <div className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2">
+                      <div className="text-slate-500">Make-up / Overtime</div>
+                      <div className="text-slate-100 text-sm">
+                        {money(grandTotal.makeUp)} / {money(grandTotal.overtime)}
+                      </div>
+                    </div>
+                    <div className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2">
+                      <div className="text-slate-500">Total Pay</div>
+                      <div className="text-emerald-300 text-sm">{money(grandTotal.payout)}</div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-[11px] text-slate-500">
+                    <div>Reviewed: {formatStamp(period.reviewedAt, period.reviewedByEmail)}</div>
+                    <div>Approved: {formatStamp(period.approvedAt, period.approvedByEmail)}</div>
+                    <div>Paid: {formatStamp(period.paidAt, period.paidByEmail)}</div>
+                  </div>
+                </div>
+
+                {/* Worker totals */}
+                <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs">
+                  <div className="text-slate-200 text-sm font-semibold mb-2">Workers</div>
+                  {workerTotals.length === 0 ? (
+                    <div className="py-4 text-center text-[11px] text-slate-500">
+                      No container payouts or punched hours in this week.
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full border-collapse">
+                        <thead>
+                          <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                            <th className="text-left py-2 pr-3">Worker</th>
+                            <th className="text-left py-2 pr-3">Buildings</th>
+                            <th className="text-right py-2 pr-3">Containers</th>
+                            <th className="text-right py-2 pr-3">Hours</th>
+                            <th className="text-right py-2 pr-3">Clocked</th>
+                            <th className="text-right py-2 pr-3">Snapshot</th>
+                            <th className="text-right py-2 pr-3">Adjustments</th>
+                            <th className="text-right py-2 pr-3">Make-up / OT</th>
+                            <th className="text-right py-2 pl-3">Total</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {workerTotals.map((w) => {
+                            const line = detail?.lines.find((l) => l.workerKey === w.workerKey);
+                            const open = expandedWorker === w.workerKey;
+                            return (
+                              <React.Fragment key={w.workerKey}>
+                                <tr
+                                  className="border-b border-slate-800/60 hover:bg-slate-900/70 cursor-pointer"
+                                  onClick={() => setExpandedWorker(open ? null : w.workerKey)}
+                                >
+                                  <td className="py-2 pr-3 text-[11px] text-slate-100">
+                                    {open ? "▾" : "▸"} {w.workerName}
+                                  </td>
+                                  <td className="py-2 pr-3 text-[11px] text-slate-400">
+                                    {w.buildings.join(", ") || "—"}
+                                  </td>
+                                  <td className="py-2 pr-3 text-right text-[11px] text-slate-200">{w.containers}</td>
+                                  <td className="py-2 pr-3 text-right text-[11px] text-slate-200">{hours(w.minutes)}</td>
+                                  <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                    {w.wages?.hoursSource === "clock" ? hours(w.wages.minutes) : "—"}
+                                  </td>
+                                  <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                    {money(w.snapshotPayout)}
+                                  </td>
+                                  <td className="py-2 pr-3 text-right text-[11px] text-amber-200">
+                                    {w.adjustmentPayout ? money(w.adjustmentPayout) : "—"}
+                                  </td>
+                                  <td className="py-2 pr-3 text-right text-[11px] text-sky-200">{wageExtra(w)}</td>
+                                  <td className="py-2 pl-3 text-right text-[11px] text-emerald-300">{money(w.grossPay)}</td>
+                                </tr>
+                                {open &&
+                                  (line?.entries ?? []).map((e, i) => (
+                                    <tr key={`${e.containerId}-${i}`} className="text-[11px] text-slate-400">
+                                      <td className="py-1 pr-3 pl-5">{e.workDate}</td>
+                                      <td className="py-1 pr-3">
+                                        {e.building} • {e.shift ?? "—"}
+                                      </td>
+                                      <td className="py-1 pr-3 text-right">{e.containerNo}</td>
+                                      <td className="py-1 pr-3 text-right">{hours(e.minutes)}</td>
+                                      <td />
+                                      <td className="py-1 pr-3 text-right">{money(e.payout)}</td>
+                                      <td className="py-1 pr-3 text-right">{e.percent.toFixed(2)}%</td>
+                                      <td />
+                                      <td />
+                                    </tr>
+                                  ))}
+                              </React.Fragment>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+
+                {/* Adjustments */}
+                <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3">
+                  <div className="text-slate-200 text-sm font-semibold">Adjustments</div>
+
+                  {detail && detail.adjustments.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full border-collapse">
+                        <thead>
+                          <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                            <th className="text-left py-2 pr-3">Worker</th>
+                            <th className="text-right py-2 pr-3">Amount</th>
+                            <th className="text-right py-2 pr-3">Minutes</th>
+                            <th className="text-left py-2 pr-3">Reason</th>
+                            <th className="text-left py-2 pl-3">By</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {detail.adjustments.map((a) => (
+                            <tr key={a.id} className="border-b border-slate-800/60">
+                              <td className="py-2 pr-3 text-[11px] text-slate-100">{a.workerName}</td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-amber-200">{money(a.amount)}</td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-slate-300">{a.minutes || "—"}</td>
+                              <td className="py-2 pr-3 text-[11px] text-slate-300">{a.reason}</td>
+                              <td className="py-2 pl-3 text-[11px] text-slate-500">
+                                {formatStamp(a.createdAt, a.createdByEmail)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <div className="text-[11px] text-slate-500">No adjustments.</div>
+                  )}
+
+                  {!periodLocked ? (
+                    <div className="text-[11px] text-slate-500">
+                      This week is still open — fix containers directly, then refresh the snapshot.
+                    </div>
+                  ) : (
+                    canManage && (
+                      <form onSubmit={handleAddAdjustment} className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end">
+                        <div className="md:col-span-2">
+                          <label className="block text-[11px] text-slate-400 mb-1">Worker</label>
+                          <input
+                            className={inputCls}
+                            list="payroll-workers"
+                            value={adjustment.workerName}
+                            onChange={(e) => setAdjustment((p) => ({ ...p, workerName: e.target.value, containerId: "" }))}
+                          />
+                          <datalist id="payroll-workers">
+                            {workerTotals.map((w) => (
+                              <option key={w.workerKey} value={w.workerName} />
+                            ))}
+                          </datalist>
+                        </div>
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Amount ($)</label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            className={inputCls}
+                            value={adjustment.amount}
+                            onChange={(e) => setAdjustment((p) => ({ ...p, amount: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[11px] text-slate-400 mb-1">Minutes</label>
+                          <input
+                            type="number"
+                            className={inputCls}
+                            value={adjustment.minutes}
+                            onChange={(e) => setAdjustment((p) => ({ ...p, minutes: e.target.value }))}
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <label className="block text-[11px] text-slate-400 mb-1">Container (optional)</label>
+                          <select
+                            className={inputCls}
+                            value={adjustment.containerId}
+                            onChange={(e) => setAdjustment((p) => ({ ...p, containerId: e.target.value }))}
+                          >
+                            <option value="">—</option>
+                            {entriesForAdjustmentWorker.map((e) => (
+                              <option key={e.containerId} value={e.containerId}>
+                                {e.workDate} • {e.containerNo}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="md:col-span-5">
+                          <label className="block text-[11px] text-slate-400 mb-1">Reason</label>
+                          <input
+                            className={inputCls}
+                            placeholder="Example: Container pieces recounted after approval"
+                            value={adjustment.reason}
+                            onChange={(e) => setAdjustment((p) => ({ ...p, reason: e.target.value }))}
+                          />
+                        </div>
+                        <button
+                          type="submit"
+                          disabled={saving}
+                          className="rounded-lg bg-amber-600 hover:bg-amber-500 text-[11px] font-medium text-white px-3 py-2 disabled:opacity-50"
+                        >
+                          Add Adjustment
+                        </button>
+                      </form>
+                    )
+                  )}
+                </div>
+
+                {/* Provider export */}
+                {canManage && (
+                  <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                      <div>
+                        <div className="text-slate-200 text-sm font-semibold">Export to Payroll Provider</div>
+                        <div className="text-[11px] text-slate-500">
+                          One row per worker and earnings code for this week. Employee IDs and rate types come from
+                          Workforce.
+                        </div>
+                      </div>
+                      <select
+                        className="rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                        value={exportConfig.provider}
+                        onChange={(e) => handleProviderChange(e.target.value as PayrollProviderId)}
+                      >
+                        {PAYROLL_PROVIDERS.map((p) => (
+                          <option key={p} value={p}>
+                            {PAYROLL_EXPORT_FORMATTERS[p].label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      {PAYROLL_EXPORT_FORMATTERS[exportConfig.provider].settingsFields.map((f) => (
+                        <div key={f.key}>
+                          <label className="block text-[11px] text-slate-400 mb-1">{f.label}</label>
+                          <input
+                            className={inputCls}
+                            value={exportConfig.settings[f.key]}
+                            onChange={(e) => updateExportSettings({ [f.key]: e.target.value })}
+                          />
+                        </div>
+                      ))}
+                      <div>
+                        <label className="block text-[11px] text-slate-400 mb-1">Production code</label>
+                        <input
+                          className={inputCls}
+                          value={exportConfig.settings.earningsCodes.production}
+                          onChange={(e) =>
+                            updateExportSettings({
+                              earningsCodes: { ...exportConfig.settings.earningsCodes, production: e.target.value },
+                            })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[11px] text-slate-400 mb-1">Hourly code</label>
+                        <input
+                          className={inputCls}
+                          value={exportConfig.settings.earningsCodes.hourly}
+                          onChange={(e) =>
+                            updateExportSettings({
+                              earningsCodes: { ...exportConfig.settings.earningsCodes, hourly: e.target.value },
+                            })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[11px] text-slate-400 mb-1">Overtime code</label>
+                        <input
+                          className={inputCls}
+                          value={exportConfig.settings.earningsCodes.overtime}
+                          onChange={(e) =>
+                            updateExportSettings({
+                              earningsCodes: { ...exportConfig.settings.earningsCodes, overtime: e.target.value },
+                            })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[11px] text-slate-400 mb-1">Make-up pay code</label>
+                        <input
+                          className={inputCls}
+                          value={exportConfig.settings.earningsCodes.makeUp}
+                          onChange={(e) =>
+                            updateExportSettings({
+                              earningsCodes: { ...exportConfig.settings.earningsCodes, makeUp: e.target.value },
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="text-[11px] text-slate-400">
+                        {exportSummary.workers} workers • {money(exportSummary.totalAmount)} production •{" "}
+                        {money(exportSummary.totalMakeUp)} make-up • {exportSummary.totalHours.toFixed(2)} hourly hrs •{" "}
+                        {exportSummary.totalOvertimeHours.toFixed(2)} OT hrs
+                        {exportSummary.totalHourlyAdjustments !== 0 &&
+                          ` • ${money(exportSummary.totalHourlyAdjustments)} hourly adjustments`}
+                        {exportSummary.blocked > 0 && (
+                          <span className="ml-2 text-red-300">{exportSummary.blocked} need fixing</span>
+                        )}
+                        {exportSummary.warnings > 0 && (
+                          <span className="ml-2 text-amber-300">{exportSummary.warnings} warnings</span>
+                        )}
+                        {!periodLocked && <span className="ml-2 text-amber-300">Week not approved yet</span>}
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setShowExportPreview((v) => !v)}
+                          className="rounded-lg bg-slate-800 hover:bg-slate-700 text-[11px] text-slate-100 px-3 py-1.5"
+                        >
+                          {showExportPreview ? "Hide Preview" : "Preview & Validate"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={handleDownloadExport}
+                          disabled={exportSummary.blocked > 0 || exportSettingsProblems.length > 0 || exportLines.length === 0}
+                          title={exportSettingsProblems[0]}
+                          className="rounded-lg bg-sky-600 hover:bg-sky-500 text-[11px] font-medium text-white px-3 py-1.5 disabled:opacity-50"
+                        >
+                          Download CSV
+                        </button>
+                      </div>
+                    </div>
+
+                    {exportSettingsProblems.length > 0 && (
+                      <div className="text-[11px] text-amber-300">{exportSettingsProblems.join(" ")}</div>
+                    )}
+
+                    {showExportPreview && (
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full border-collapse">
+                          <thead>
+                            <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                              <th className="text-left py-2 pr-3">Worker</th>
+                              <th className="text-left py-2 pr-3">Employee #</th>
+                              <th className="text-left py-2 pr-3">Rate</th>
+                              <th className="text-left py-2 pr-3">Code</th>
+                              <th className="text-right py-2 pr-3">Hours</th>
+                              <th className="text-right py-2 pr-3">OT Hours</th>
+                              <th className="text-right py-2 pr-3">Amount</th>
+                              <th className="text-right py-2 pr-3">Make-up</th>
+                              <th className="text-left py-2 pl-3">Issues</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {exportLines.map((l) => (
+                              <tr key={l.workerKey} className="border-b border-slate-800/60 align-top">
+                                <td className="py-2 pr-3 text-[11px] text-slate-100">{l.workerName}</td>
+                                <td className="py-2 pr-3 text-[11px] text-slate-300">{l.employeeNumber ?? "—"}</td>
+                                <td className="py-2 pr-3 text-[11px] text-slate-300">{l.rateType}</td>
+                                <td className="py-2 pr-3 text-[11px] text-slate-300">{l.earningsCode}</td>
+                                <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                  {l.rateType === "Hourly" ? l.hours.toFixed(2) : "—"}
+                                </td>
+                                <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                  {l.rateType === "Hourly" && l.overtimeHours > 0 ? l.overtimeHours.toFixed(2) : "—"}
+                                </td>
+                                <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                  {l.rateType === "Production"
+                                    ? money(l.amount)
+                                    : l.adjustmentAmount !== 0
+                                      ? money(l.adjustmentAmount)
+                                      : "—"}
+                                </td>
+                                <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                  {l.rateType === "Production" && l.makeUpAmount > 0 ? money(l.makeUpAmount) : "—"}
+                                </td>
+                                <td className="py-2 pl-3 text-[11px]">
+                                  {l.issues.length === 0 ? (
+                                    <span className="text-emerald-300">OK</span>
+                                  ) : (
+                                    l.issues.map((i, idx) => (
+                                      <div key={idx} className={i.level === "error" ? "text-red-300" : "text-amber-300"}>
+                                        {i.message}
+                                      </div>
+                                    ))
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {exportSummary.blocked > 0 && (
+                          <div className="mt-2 text-[11px] text-slate-500">
+                            Add the missing employee / file numbers on the{" "}
+                            <Link href="/workforce" className="text-sky-300 hover:underline">
+                              Workforce
+                            </Link>{" "}
+                            page, then come back to export.
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import {
+  AUDIT_ACTION_LABELS,
+  auditFieldChanges,
+  formatAuditValue,
+  type AuditEntry,
+  type AuditedTable,
+} from "@/lib/domain/auditLog";
+import { nyDateTime } from "@/lib/time";
+
+const ACTION_BADGE: Record<AuditEntry["action"], string> = {
+  insert: "bg-emerald-900/60 text-emerald-200 border-emerald-700/70",
+  update: "bg-sky-900/60 text-sky-200 border-sky-700/70",
+  delete: "bg-rose-900/60 text-rose-200 border-rose-700/70",
+};
+
+export function AuditChanges({ entry }: { entry: AuditEntry }) {
+  const changes = auditFieldChanges(entry);
+  if (changes.length === 0) return <p className="text-[11px] text-slate-500">No field values recorded.</p>;
+
+  return (
+    <table className="w-full text-[11px]">
+      <tbody>
+        {changes.map((c) => (
+          <tr key={c.field} className="border-t border-slate-800 align-top">
+            <td className="py-1 pr-3 text-slate-400 whitespace-nowrap">{c.field}</td>
+            {entry.action !== "insert" && (
+              <td className="py-1 pr-3 text-rose-200/80 break-all font-mono">{formatAuditValue(c.before)}</td>
+            )}
+            {entry.action !== "delete" && (
+              <td className="py-1 pr-3 text-emerald-200/90 break-all font-mono">{formatAuditValue(c.after)}</td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function AuditActionBadge({ action }: { action: AuditEntry["action"] }) {
+  return (
+    <span className={`inline-flex rounded-full border px-2 py-0.5 text-[10px] ${ACTION_BADGE[action]}`}>
+      {AUDIT_ACTION_LABELS[action]}
+    </span>
+  );
+}
+
+type Props = {
+  table: AuditedTable; // one of RECORD_HISTORY_TABLES
+  recordId: string;
+};
+
+// History tab on a record's detail page: who changed what and when, newest first,
+// from the audit log (GET /api/audit-log/record).
+export function RecordHistory({ table, recordId }: Props) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      const qs = new URLSearchParams({ table, id: recordId });
+      const res = await apiFetch(`/api/audit-log/record?${qs}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load history."));
+        return;
+      }
+      setEntries((await res.json()) as AuditEntry[]);
+    }
+
+    void load()
+      .catch((e) => {
+        console.error("Error loading record history", e);
+        if (!cancelled) setError("Failed to load history.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [table, recordId]);
+
+  if (loading) return <p className="text-[11px] text-slate-400">Loading history…</p>;
+  if (error) {
+    return <div className="rounded-lg border border-rose-700 bg-rose-950/40 px-3 py-2 text-[11px] text-rose-100">{error}</div>;
+  }
+  if (entries.length === 0) return <p className="text-[11px] text-slate-400">No changes have been logged for this record yet.</p>;
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((e) => (
+        <li key={e.id} className="rounded-lg border border-slate-800 bg-slate-950 p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-[11px]">
+            <AuditActionBadge action={e.action} />
+            <span className="text-slate-200">{e.actorEmail ?? "System"}</span>
+            {e.actorRole && <span className="text-slate-500">({e.actorRole})</span>}
+            <span className="ml-auto text-slate-500">{nyDateTime(new Date(e.occurredAt))}</span>
+          </div>
+          <AuditChanges entry={e} />
+        </li>
+      ))}
+    </ol>
+  );
+}
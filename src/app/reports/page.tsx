@@ -5,61 +5,38 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings";
+import {
+  containerCustomerId,
+  containerDateNY,
+  customerIdByWorkOrder,
+  fetchCustomers,
+  readLocalContainers,
+  readLocalWorkOrders,
+  UNASSIGNED_CUSTOMER,
+  type ContainerRow,
+  type Customer,
+  type WorkOrderRecord,
+} from "@/lib/domain";
+import {
+  buildCustomerTotals,
+  buildLeaderboard,
+  buildShiftPerformance,
+  type CustomerTotalsRow,
+  type LeaderboardRow,
+  type ShiftPerfRow,
+} from "@/lib/reportMetrics";
+import { isYMD, nyISODate, toNYDateOnly } from "@/lib/time";
+import { downloadCsv } from "@/lib/csv";
 
 const BUILDING_OPTIONS = ["ALL", ...BUILDINGS];
 const SHIFT_OPTIONS = ["ALL", "1st", "2nd", "3rd", "4th"] as const;
 
-const WORK_ORDERS_KEY = "precisionpulse_work_orders";
-const CONTAINERS_KEY = "precisionpulse_containers";
+// Customer filter value for containers whose work order has no customer
+const NO_CUSTOMER = "NONE";
 
 const DATE_RANGES = ["Today", "Last 7 days", "Last 30 days", "All time", "Custom"] as const;
 type DateRange = (typeof DATE_RANGES)[number];
 
-type ContainerWorker = {
-  workerId?: string | null;
-  workerName?: string | null;
-  minutesWorked?: number | null;
-  percentContribution?: number | null;
-  payoutAmount?: number | null;
-  // ✅ was `any` (eslint) → use unknown
-  [key: string]: unknown;
-};
-
-type ContainerRow = {
-  id: string;
-  workOrderId?: string | null;
-  work_order_id?: string | null;
-  building?: string | null;
-  shift?: string | null;
-  date?: string | null;
-  work_date?: string | null;
-  workDate?: string | null;
-  created_at?: string | null;
-
-  container_no?: string | null;
-  pieces_total?: number | null;
-  skus_total?: number | null;
-  container_pay_total?: number | null;
-  pay_total?: number | null;
-
-  workers?: ContainerWorker[] | null;
-
-  // ✅ was `any` (eslint) → use unknown
-  [key: string]: unknown;
-};
-
-type WorkOrderRecord = {
-  id: string;
-  name: string;
-  building?: string;
-  shift?: string;
-  status?: string;
-  createdAt?: string;
-  notes?: string;
-  // ✅ was `any` (eslint) → use unknown
-  [key: string]: unknown;
-};
-
 type StaffingRow = {
   id: string;
   building?: string | null;
@@ -85,16 +62,6 @@ type ProductionPayRow = {
   skusTotal: number;
 };
 
-type ShiftPerfRow = {
-  date: string;
-  building: string;
-  shift: string;
-  containers: number;
-  piecesTotal: number;
-  minutesTotal: number;
-  pph: number;
-};
-
 type StaffingViewRow = {
   date: string;
   building: string;
@@ -105,53 +72,10 @@ type StaffingViewRow = {
   status: "Understaffed" | "Balanced" | "Overstaffed";
 };
 
-type LeaderboardRow = {
-  workerName: string;
-  building: string | "Multiple";
-  totalPayout: number;
-  totalPieces: number;
-  totalContainers: number;
-  totalMinutes: number;
-  avgPPH: number;
-};
-
 /**
  * ✅ TIMEZONE + DATE SAFETY (America/New_York)
- * Fixes:
- * - "missing day" caused by UTC slicing / Date parsing differences
- * - stable comparisons using epoch-days (not local timezone Date math)
+ * Stable comparisons using epoch-days (not local timezone Date math)
  */
-function nyISODate(d: Date = new Date()): string {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(d);
-
-  const y = parts.find((p) => p.type === "year")?.value ?? "1970";
-  const m = parts.find((p) => p.type === "month")?.value ?? "01";
-  const day = parts.find((p) => p.type === "day")?.value ?? "01";
-  return `${y}-${m}-${day}`;
-}
-
-function isYMD(value: string): boolean {
-  return /^\d{4}-\d{2}-\d{2}$/.test(value);
-}
-
-function parseDateOnlyNY(value: string | null | undefined): string | null {
-  if (!value) return null;
-
-  const s = String(value);
-  // If already YYYY-MM-DD, trust it
-  if (isYMD(s.slice(0, 10))) return s.slice(0, 10);
-
-  // Otherwise interpret as timestamp and render NY date
-  const d = new Date(s);
-  if (Number.isNaN(d.getTime())) return null;
-  return nyISODate(d);
-}
-
 function ymdToEpochDay(ymd: string): number {
   // ymd = YYYY-MM-DD
   const y = Number(ymd.slice(0, 4));
@@ -193,163 +117,6 @@ function isWithinCustom(dateStr: string | null, start: string | null, end: strin
   return true;
 }
 
-/**
- * Helper readers that try multiple key names.
- */
-function getContainerDate(c: ContainerRow): string | null {
-  return (
-    parseDateOnlyNY(
-      (c.date as string | undefined) ??
-        (c.work_date as string | undefined) ??
-        (c.workDate as string | undefined) ??
-        (c.created_at as string | undefined) ??
-        null
-    ) ?? null
-  );
-}
-
-function getContainerBuilding(c: ContainerRow): string {
-  return (
-    (c.building as string | undefined) ??
-    (c.bldg as string | undefined) ??
-    (c.location as string | undefined) ??
-    ""
-  );
-}
-
-function getContainerShift(c: ContainerRow): string {
-  return (
-    (c.shift as string | undefined) ??
-    (c.shift_name as string | undefined) ??
-    (c.shiftName as string | undefined) ??
-    ""
-  );
-}
-
-function getContainerWorkOrderId(c: ContainerRow): string {
-  const raw =
-    (c.workOrderId as string | undefined) ??
-    (c.work_order_id as string | undefined) ??
-    (c.workOrderID as string | undefined) ??
-    (c.workorder_id as string | undefined) ??
-    "";
-  return raw ? String(raw) : "";
-}
-
-function getContainerNo(c: ContainerRow): string {
-  return (
-    (c.container_no as string | undefined) ??
-    (c.containerNo as string | undefined) ??
-    (c.container_number as string | undefined) ??
-    (c.container_num as string | undefined) ??
-    (c.containerId as string | undefined) ??
-    (c.container_id as string | undefined) ??
-    String(c.id ?? "")
-  );
-}
-
-function getPiecesTotal(c: ContainerRow): number {
-  const possible =
-    (c.pieces_total as number | undefined) ??
-    (c.pieces as number | undefined) ??
-    (c.total_pieces as number | undefined) ??
-    (c.pieceCount as number | undefined) ??
-    (c.piecesTotal as number | undefined) ??
-    (c.totalPieces as number | undefined) ??
-    (c.totalPieceCount as number | undefined) ??
-    (c.piece_count as number | undefined) ??
-    (c.total_piece_count as number | undefined);
-
-  return typeof possible === "number" && !Number.isNaN(possible) ? possible : 0;
-}
-
-function getSkusTotal(c: ContainerRow): number {
-  return (
-    (c.skus_total as number | undefined) ??
-    (c.skuCount as number | undefined) ??
-    (c.total_skus as number | undefined) ??
-    0
-  );
-}
-
-function getContainerPayTotal(c: ContainerRow): number {
-  return (
-    (c.container_pay_total as number | undefined) ??
-    (c.containerPayTotal as number | undefined) ??
-    (c.containerPay as number | undefined) ??
-    (c.totalPay as number | undefined) ??
-    (c.pay_total as number | undefined) ??
-    0
-  );
-}
-
-function getWorkerName(w: ContainerWorker): string {
-  return (
-    (w.workerName as string | undefined) ??
-    (w.name as string | undefined) ??
-    (w.fullName as string | undefined) ??
-    (w.worker_name as string | undefined) ??
-    "Unknown Worker"
-  );
-}
-
-function getWorkerMinutes(w: ContainerWorker): number {
-  return (
-    (w.minutesWorked as number | undefined) ??
-    (w.minutes as number | undefined) ??
-    (w.mins as number | undefined) ??
-    (w.timeMinutes as number | undefined) ??
-    0
-  );
-}
-
-function getWorkerPercent(w: ContainerWorker): number {
-  return (
-    (w.percentContribution as number | undefined) ??
-    (w.percent as number | undefined) ??
-    (w.share as number | undefined) ??
-    (w.sharePercent as number | undefined) ??
-    0
-  );
-}
-
-function getWorkerPayout(w: ContainerWorker): number {
-  return (
-    (w.payoutAmount as number | undefined) ??
-    (w.payout as number | undefined) ??
-    (w.pay as number | undefined) ??
-    (w.payAmount as number | undefined) ??
-    (w.amount as number | undefined) ??
-    0
-  );
-}
-
-function downloadCsv(filename: string, header: string[], rows: (string | number)[][]) {
-  const lines = [
-    header.join(","),
-    ...rows.map((r) =>
-      r
-        .map((cell) => {
-          const value = String(cell ?? "");
-          if (value.includes(",") || value.includes('"') || value.includes("\n")) {
-            return `"${value.replace(/"/g, '""')}"`;
-          }
-          return value;
-        })
-        .join(",")
-    ),
-  ];
-  const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-}
-
 export default function ReportsPage() {
   const currentUser = useCurrentUser();
 
@@ -359,12 +126,14 @@ export default function ReportsPage() {
   const [containers, setContainers] = useState<ContainerRow[]>([]);
   const [workOrders, setWorkOrders] = useState<WorkOrderRecord[]>([]);
   const [staffing, setStaffing] = useState<StaffingRow[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
 
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
   const [buildingFilter, setBuildingFilter] = useState<string>("ALL");
   const [shiftFilter, setShiftFilter] = useState<(typeof SHIFT_OPTIONS)[number]>("ALL");
+  const [customerFilter, setCustomerFilter] = useState<string>("ALL");
 
   // presets + custom range
   const [dateRange, setDateRange] = useState<DateRange>("Last 7 days");
@@ -374,23 +143,8 @@ export default function ReportsPage() {
 
   // Load containers + work orders from localStorage
   useEffect(() => {
-    if (typeof window === "undefined") return;
-
-    try {
-      const contRaw = window.localStorage.getItem(CONTAINERS_KEY);
-      if (contRaw) {
-        const parsed = JSON.parse(contRaw);
-        if (Array.isArray(parsed)) setContainers(parsed as ContainerRow[]);
-      }
-
-      const woRaw = window.localStorage.getItem(WORK_ORDERS_KEY);
-      if (woRaw) {
-        const parsed = JSON.parse(woRaw);
-        if (Array.isArray(parsed)) setWorkOrders(parsed as WorkOrderRecord[]);
-      }
-    } catch (e) {
-      console.error("Error loading containers/work orders from localStorage", e);
-    }
+    setContainers(readLocalContainers());
+    setWorkOrders(readLocalWorkOrders());
   }, []);
 
   // Fetch staffing data from Supabase
@@ -426,6 +180,21 @@ export default function ReportsPage() {
     loadStaffing();
   }, [currentUser, isLead, leadBuilding]);
 
+  // Customers label/filter containers through their work order
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+
+    fetchCustomers(supabase).then(({ data, error }) => {
+      if (error) console.error("Error loading customers for reports", error);
+      if (!cancelled) setCustomers(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
   useEffect(() => {
     if (isLead && leadBuilding) {
       setBuildingFilter(leadBuilding);
@@ -466,21 +235,34 @@ export default function ReportsPage() {
     [dateRange, customStart, customEnd]
   );
 
+  const customerByWorkOrder = useMemo(() => customerIdByWorkOrder(workOrders), [workOrders]);
+  const customerNames = useMemo(() => new Map(customers.map((c) => [c.id, c.name])), [customers]);
+
+  const matchesCustomer = useCallback(
+    (c: ContainerRow): boolean => {
+      if (customerFilter === "ALL") return true;
+      const id = containerCustomerId(c, customerByWorkOrder);
+      return customerFilter === NO_CUSTOMER ? id === null : id === customerFilter;
+    },
+    [customerFilter, customerByWorkOrder]
+  );
+
   // Filtered containers and staffing
   const filteredContainers = useMemo(() => {
     return containers.filter((c) => {
-      if (!matchesBuilding(getContainerBuilding(c))) return false;
-      if (!matchesShift(getContainerShift(c))) return false;
-      const d = getContainerDate(c);
+      if (!matchesBuilding(c.building)) return false;
+      if (!matchesShift(c.shift ?? "")) return false;
+      if (!matchesCustomer(c)) return false;
+      const d = containerDateNY(c) || null;
       return isDateMatch(d);
     });
-  }, [containers, matchesBuilding, matchesShift, isDateMatch]);
+  }, [containers, matchesBuilding, matchesShift, matchesCustomer, isDateMatch]);
 
   const filteredStaffing = useMemo(() => {
     return staffing.filter((s) => {
       if (!matchesBuilding(s.building ?? null)) return false;
       if (!matchesShift(s.shift ?? null)) return false;
-      const d = parseDateOnlyNY(s.date ?? null);
+      const d = toNYDateOnly(s.date ?? null);
       return isDateMatch(d);
     });
   }, [staffing, matchesBuilding, matchesShift, isDateMatch]);
@@ -497,16 +279,16 @@ export default function ReportsPage() {
     const rows: ProductionPayRow[] = [];
 
     for (const c of filteredContainers) {
-      const date = getContainerDate(c) || "";
-      const building = getContainerBuilding(c);
-      const shift = getContainerShift(c);
-      const containerNo = getContainerNo(c);
-      const piecesTotal = getPiecesTotal(c);
-      const skusTotal = getSkusTotal(c);
-      const containerPay = getContainerPayTotal(c);
-      const workersArr = (c.workers || []) as ContainerWorker[];
-
-      const workOrderId = getContainerWorkOrderId(c);
+      const date = containerDateNY(c);
+      const building = c.building;
+      const shift = c.shift ?? "";
+      const containerNo = c.container_no;
+      const piecesTotal = c.pieces_total;
+      const skusTotal = c.skus_total;
+      const containerPay = c.pay_total;
+      const workersArr = c.workers;
+
+      const workOrderId = c.work_order_id ?? "";
       const workOrder = workOrderId ? workOrderMap.get(workOrderId) : undefined;
       const workOrderName = workOrder?.name ?? "";
 
@@ -518,10 +300,10 @@ export default function ReportsPage() {
           workOrderId,
           workOrderName,
           containerNo,
-          workerName: getWorkerName(w),
-          minutesWorked: getWorkerMinutes(w),
-          percentContribution: getWorkerPercent(w),
-          payoutAmount: getWorkerPayout(w),
+          workerName: w.name || "Unknown Worker",
+          minutesWorked: w.minutesWorked,
+          percentContribution: w.percentContribution,
+          payoutAmount: w.payout,
           containerPayTotal: containerPay,
           piecesTotal,
           skusTotal,
@@ -541,42 +323,14 @@ export default function ReportsPage() {
   }, [filteredContainers, workOrderMap]);
 
   // 2) Shift Performance rows
-  const shiftRows: ShiftPerfRow[] = useMemo(() => {
-    const map = new Map<string, ShiftPerfRow>();
-
-    for (const c of filteredContainers) {
-      const date = getContainerDate(c) || "";
-      const building = getContainerBuilding(c);
-      const shift = getContainerShift(c);
-      const key = `${date}|${building}|${shift}`;
-
-      const pieces = getPiecesTotal(c);
-      const workersArr = (c.workers || []) as ContainerWorker[];
-      const minutes = workersArr.reduce((sum, w) => sum + getWorkerMinutes(w), 0);
-
-      if (!map.has(key)) {
-        map.set(key, { date, building, shift, containers: 0, piecesTotal: 0, minutesTotal: 0, pph: 0 });
-      }
-
-      const row = map.get(key)!;
-      row.containers += 1;
-      row.piecesTotal += pieces;
-      row.minutesTotal += minutes;
-    }
-
-    for (const row of map.values()) {
-      row.pph = row.minutesTotal === 0 ? 0 : (row.piecesTotal * 60) / row.minutesTotal;
-    }
-
-    return Array.from(map.values()).sort((a, b) => a.date.localeCompare(b.date));
-  }, [filteredContainers]);
+  const shiftRows: ShiftPerfRow[] = useMemo(() => buildShiftPerformance(filteredContainers), [filteredContainers]);
 
   // 3) Staffing view
   const staffingRows: StaffingViewRow[] = useMemo(() => {
     const rows: StaffingViewRow[] = [];
 
     for (const s of filteredStaffing) {
-      const date = parseDateOnlyNY(s.date ?? null) || "";
+      const date = toNYDateOnly(s.date ?? null) || "";
       const building = s.building || "";
       const shift = s.shift || "";
       const required = s.required_headcount || 0;
@@ -603,90 +357,31 @@ export default function ReportsPage() {
   }, [filteredStaffing]);
 
   // 4) Worker Leaderboard
-  const leaderboardRows: LeaderboardRow[] = useMemo(() => {
-    const map = new Map<
-      string,
-      {
-        workerName: string;
-        buildings: Set<string>;
-        totalPayout: number;
-        totalPieces: number;
-        totalContainers: number;
-        totalMinutes: number;
-      }
-    >();
-
-    for (const c of filteredContainers) {
-      const building = getContainerBuilding(c);
-      const pieces = getPiecesTotal(c);
-      const workersArr = (c.workers || []) as ContainerWorker[];
-
-      const uniqueContainerWorkers = new Set<string>();
-
-      for (const w of workersArr) {
-        const workerName = getWorkerName(w).trim();
-        if (!workerName) continue;
-
-        const key = workerName.toLowerCase();
-
-        if (!map.has(key)) {
-          map.set(key, {
-            workerName,
-            buildings: new Set<string>(),
-            totalPayout: 0,
-            totalPieces: 0,
-            totalContainers: 0,
-            totalMinutes: 0,
-          });
-        }
-
-        const entry = map.get(key)!;
-        if (building) entry.buildings.add(building);
-
-        entry.totalPayout += getWorkerPayout(w);
-        entry.totalMinutes += getWorkerMinutes(w);
-
-        if (!uniqueContainerWorkers.has(key)) {
-          entry.totalContainers += 1;
-          entry.totalPieces += pieces;
-          uniqueContainerWorkers.add(key);
-        }
-      }
-    }
+  const leaderboardRows: LeaderboardRow[] = useMemo(() => buildLeaderboard(filteredContainers), [filteredContainers]);
 
-    const rows: LeaderboardRow[] = [];
-    for (const entry of map.values()) {
-      const buildingsArr = Array.from(entry.buildings);
-      const buildingLabel =
-        buildingsArr.length === 0 ? "Unknown" : buildingsArr.length === 1 ? buildingsArr[0] : "Multiple";
-
-      const avgPPH = entry.totalMinutes === 0 ? 0 : (entry.totalPieces * 60) / entry.totalMinutes;
-
-      rows.push({
-        workerName: entry.workerName,
-        building: buildingLabel,
-        totalPayout: Number(entry.totalPayout.toFixed(2)),
-        totalPieces: entry.totalPieces,
-        totalContainers: entry.totalContainers,
-        totalMinutes: entry.totalMinutes,
-        avgPPH: Number(avgPPH.toFixed(1)),
-      });
-    }
+  // 5) Customer Totals
+  const customerRows: CustomerTotalsRow[] = useMemo(
+    () => buildCustomerTotals(filteredContainers, customerByWorkOrder, customers),
+    [filteredContainers, customerByWorkOrder, customers]
+  );
 
-    rows.sort((a, b) => b.totalPayout - a.totalPayout);
-    return rows.slice(0, 25);
-  }, [filteredContainers]);
+  function customerLabel(id: string): string {
+    if (id === "ALL") return "All Customers";
+    if (id === NO_CUSTOMER) return UNASSIGNED_CUSTOMER;
+    return customerNames.get(id) ?? "Unknown customer";
+  }
 
   function makeFilterLabel() {
     const b = effectiveBuildingFilter === "ALL" ? "all-buildings" : effectiveBuildingFilter.toLowerCase();
     const s = shiftFilter === "ALL" ? "all-shifts" : String(shiftFilter).toLowerCase();
+    const cu = customerFilter === "ALL" ? "" : `${customerLabel(customerFilter).replace(/\W+/g, "-").toLowerCase()}-`;
     let d = dateRange.replace(/\s+/g, "-").toLowerCase();
     if (dateRange === "Custom") {
       const cs = customStart ? customStart : "start";
       const ce = customEnd ? customEnd : "end";
       d = `custom-${cs}-to-${ce}`;
     }
-    return `${b}-${s}-${d}`;
+    return `${cu}${b}-${s}-${d}`;
   }
 
   // CSV handlers
@@ -742,6 +437,19 @@ export default function ReportsPage() {
     downloadCsv(`staffing-coverage-${makeFilterLabel()}.csv`, header, rows);
   }
 
+  function handleDownloadCustomerCsv() {
+    const header = ["Customer", "Containers", "Pieces Total", "Minutes Total", "PPH", "Container Pay Total"];
+    const rows = customerRows.map((r) => [
+      r.customer,
+      r.containers,
+      r.piecesTotal,
+      r.minutesTotal,
+      r.pph.toFixed(1),
+      r.payTotal.toFixed(2),
+    ]);
+    downloadCsv(`customer-totals-${makeFilterLabel()}.csv`, header, rows);
+  }
+
   /**
    * ✅ NEW: Invoicing Export (container-level)
    * “Excel should have work order, container, piece count, date, etc.”
@@ -750,6 +458,7 @@ export default function ReportsPage() {
   function handleDownloadInvoicingCsv() {
     const header = [
       "Date",
+      "Customer",
       "Building",
       "Shift",
       "Work Order ID",
@@ -762,19 +471,32 @@ export default function ReportsPage() {
 
     const rows = filteredContainers
       .map((c) => {
-        const date = getContainerDate(c) || "";
-        const building = getContainerBuilding(c);
-        const shift = getContainerShift(c);
-        const containerNo = getContainerNo(c);
-        const pieces = getPiecesTotal(c);
-        const skus = getSkusTotal(c);
-        const payTotal = getContainerPayTotal(c);
-
-        const workOrderId = getContainerWorkOrderId(c);
+        const date = containerDateNY(c);
+        const building = c.building;
+        const shift = c.shift ?? "";
+        const containerNo = c.container_no;
+        const pieces = c.pieces_total;
+        const skus = c.skus_total;
+        const payTotal = c.pay_total;
+
+        const workOrderId = c.work_order_id ?? "";
         const wo = workOrderId ? workOrderMap.get(workOrderId) : undefined;
         const workOrderName = wo?.name ?? "";
+        const customerId = containerCustomerId(c, customerByWorkOrder);
+        const customer = customerId ? customerNames.get(customerId) ?? "" : "";
 
-        return [date, building, shift, workOrderId, workOrderName, containerNo, pieces, skus, payTotal.toFixed(2)];
+        return [
+          date,
+          customer,
+          building,
+          shift,
+          workOrderId,
+          workOrderName,
+          containerNo,
+          pieces,
+          skus,
+          payTotal.toFixed(2),
+        ];
       })
       // Keep it stable
       .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
@@ -804,6 +526,12 @@ export default function ReportsPage() {
               Live analytics across <span className="font-semibold text-sky-300">{buildingLabel}</span> •{" "}
               <span className="font-semibold text-sky-300">{shiftLabel}</span> •{" "}
               <span className="text-slate-300">{dateRange === "Custom" ? "Custom range" : dateRange}</span>
+              {customerFilter !== "ALL" && (
+                <>
+                  {" "}
+                  • <span className="font-semibold text-sky-300">{customerLabel(customerFilter)}</span>
+                </>
+              )}
             </p>
             {dateRange === "Custom" && (
               <p className="mt-1 text-[11px] text-slate-500">
@@ -832,7 +560,12 @@ export default function ReportsPage() {
               </Link>
             </div>
             <div className="text-[10px] text-slate-500">
-              Invoicing export = 1 row per container (date/building/shift/work order/pieces).
+              Invoicing export = 1 row per container (date/building/shift/work order/pieces). Customer invoices are on
+              the{" "}
+              <Link href="/invoices" className="text-sky-300 hover:underline">
+                Invoices
+              </Link>{" "}
+              page.
             </div>
           </div>
         </div>
@@ -851,7 +584,7 @@ export default function ReportsPage() {
           </div>
 
           {showAdvanced && (
-            <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-3 text-xs">
+            <div className="mt-3 grid grid-cols-1 md:grid-cols-5 gap-3 text-xs">
               <div>
                 <div className="text-[11px] text-slate-400 mb-1">Building</div>
                 <select
@@ -887,6 +620,23 @@ export default function ReportsPage() {
                 </select>
               </div>
 
+              <div>
+                <div className="text-[11px] text-slate-400 mb-1">Customer</div>
+                <select
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-slate-50"
+                  value={customerFilter}
+                  onChange={(e) => setCustomerFilter(e.target.value)}
+                >
+                  <option value="ALL">All Customers</option>
+                  {customers.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                  <option value={NO_CUSTOMER}>{UNASSIGNED_CUSTOMER}</option>
+                </select>
+              </div>
+
               <div>
                 <div className="text-[11px] text-slate-400 mb-1">Date Preset</div>
                 <select
@@ -907,6 +657,7 @@ export default function ReportsPage() {
                   type="button"
                   onClick={() => {
                     setShiftFilter("ALL");
+                    setCustomerFilter("ALL");
                     setDateRange("Last 7 days");
                     setCustomStart("");
                     setCustomEnd("");
@@ -939,7 +690,7 @@ export default function ReportsPage() {
                       onChange={(e) => setCustomEnd(e.target.value)}
                     />
                   </div>
-                  <div className="md:col-span-2 text-[11px] text-slate-500 flex items-center">
+                  <div className="md:col-span-3 text-[11px] text-slate-500 flex items-center">
                     Tip: Custom range uses exact YYYY-MM-DD comparisons (NY timezone safe).
                   </div>
                 </>
@@ -1077,7 +828,9 @@ export default function ReportsPage() {
             <div className="flex items-center justify-between mb-2">
               <div>
                 <h2 className="text-sm font-semibold text-slate-100">Staffing Coverage</h2>
-                <p className="text-[11px] text-slate-500">Required vs actual headcount per building/shift.</p>
+                <p className="text-[11px] text-slate-500">
+                  Required vs actual headcount per building/shift. Actual counts people who clocked in on the time clock.
+                </p>
               </div>
               <button
                 type="button"
@@ -1178,6 +931,55 @@ export default function ReportsPage() {
               )}
             </div>
           </section>
+
+          {/* Customer Totals */}
+          <section className="xl:col-span-2 bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs flex flex-col max-h-[480px]">
+            <div className="flex items-center justify-between mb-2">
+              <div>
+                <h2 className="text-sm font-semibold text-slate-100">Customer Totals</h2>
+                <p className="text-[11px] text-slate-500">
+                  Containers, pieces and pay per customer (from each container&apos;s work order).
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleDownloadCustomerCsv}
+                className="text-[11px] px-3 py-1.5 rounded-lg border border-slate-700 bg-slate-950 hover:bg-slate-800 text-slate-200"
+              >
+                Download CSV
+              </button>
+            </div>
+            <div className="overflow-auto border border-slate-800 rounded-xl flex-1">
+              {customerRows.length === 0 ? (
+                <p className="p-3 text-[11px] text-slate-500">No container volume for this filter.</p>
+              ) : (
+                <table className="min-w-full text-left border-collapse">
+                  <thead>
+                    <tr className="bg-slate-950/70 border-b border-slate-800">
+                      <th className="px-3 py-2">Customer</th>
+                      <th className="px-3 py-2 text-right">Containers</th>
+                      <th className="px-3 py-2 text-right">Pieces</th>
+                      <th className="px-3 py-2 text-right">Minutes</th>
+                      <th className="px-3 py-2 text-right">PPH</th>
+                      <th className="px-3 py-2 text-right">Pay Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {customerRows.map((r) => (
+                      <tr key={r.customerId ?? NO_CUSTOMER} className="border-b border-slate-800/60 hover:bg-slate-900/60">
+                        <td className={`px-3 py-1.5 ${r.customerId ? "" : "text-slate-500"}`}>{r.customer}</td>
+                        <td className="px-3 py-1.5 text-right">{r.containers}</td>
+                        <td className="px-3 py-1.5 text-right">{r.piecesTotal}</td>
+                        <td className="px-3 py-1.5 text-right">{r.minutesTotal}</td>
+                        <td className="px-3 py-1.5 text-right text-sky-300">{r.pph.toFixed(1)}</td>
+                        <td className="px-3 py-1.5 text-right text-emerald-300">${r.payTotal.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </section>
         </div>
       </div>
     </div>
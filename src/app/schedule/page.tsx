@@ -0,0 +1,546 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission, isBuildingScoped } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { addDaysYMD, nyISODate, weekStartYMD } from "@/lib/time";
+import {
+  ON_LEAVE_STATUS,
+  SCHEDULE_ROLES,
+  scheduleRoleForJob,
+  weekDates,
+  workforceForBuilding,
+  type SchedulePublication,
+  type ScheduleRole,
+  type ShiftAssignment,
+  type WorkforceWorker,
+} from "@/lib/domain";
+
+const SHIFTS = ["1st", "2nd", "3rd", "4th"] as const;
+
+type ScheduleResponse = {
+  assignments: ShiftAssignment[];
+  publications: SchedulePublication[];
+  workforce: WorkforceWorker[];
+  myWorkforceIds: string[];
+};
+
+type CopyResponse = {
+  weekStart: string;
+  created: ShiftAssignment[];
+  skipped: { workerName: string; date: string; shift: string; reason: string }[];
+};
+
+const EMPTY_SCHEDULE: ScheduleResponse = { assignments: [], publications: [], workforce: [], myWorkforceIds: [] };
+
+function dayLabel(ymd: string): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function SchedulePage() {
+  const currentUser = useCurrentUser();
+  const canManage = !!currentUser && hasPermission(currentUser.accessRole, "schedules.manage");
+  const scoped = !!currentUser && isBuildingScoped(currentUser.accessRole);
+
+  const [weekStart, setWeekStart] = useState(() => weekStartYMD(nyISODate()));
+  const [building, setBuilding] = useState<string>(BUILDINGS[0]);
+  const [schedule, setSchedule] = useState<ScheduleResponse>(EMPTY_SCHEDULE);
+
+  // Add form
+  const [date, setDate] = useState("");
+  const [shift, setShift] = useState<string>(SHIFTS[0]);
+  const [workforceId, setWorkforceId] = useState("");
+  const [role, setRole] = useState<ScheduleRole>("Lumper");
+  const [notes, setNotes] = useState("");
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState<CopyResponse["skipped"]>([]);
+
+  const days = useMemo(() => weekDates(weekStart), [weekStart]);
+
+  // Leads / Building Managers schedule their own building only
+  const effectiveBuilding = scoped && currentUser?.building ? currentUser.building : building;
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ week_start: weekStart, building: effectiveBuilding });
+      const res = await apiFetch(`/api/schedules?${params}`);
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load schedule."));
+        return;
+      }
+      setSchedule((await res.json()) as ScheduleResponse);
+    } catch (e) {
+      console.error("Unexpected error loading schedule", e);
+      setError("Unexpected error loading schedule.");
+    }
+  }, [weekStart, effectiveBuilding]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    setLoading(true);
+    setError(null);
+    void loadSchedule().finally(() => setLoading(false));
+  }, [currentUser, loadSchedule]);
+
+  const published = schedule.publications.find((p) => p.building === effectiveBuilding && p.weekStart === weekStart);
+
+  const workerById = useMemo(() => new Map(schedule.workforce.map((w) => [w.id, w])), [schedule.workforce]);
+  const pickable = useMemo(
+    () => workforceForBuilding(schedule.workforce, effectiveBuilding),
+    [schedule.workforce, effectiveBuilding]
+  );
+  const onLeave = useMemo(
+    () => schedule.workforce.filter((w) => w.status === ON_LEAVE_STATUS && w.building === effectiveBuilding),
+    [schedule.workforce, effectiveBuilding]
+  );
+
+  const mine = useMemo(() => {
+    const ids = new Set(schedule.myWorkforceIds);
+    return schedule.assignments.filter((a) => ids.has(a.workforceId));
+  }, [schedule]);
+
+  // Already on a shift this day in this building (the server also checks other buildings)
+  const bookedThatDay = date && workforceId
+    ? schedule.assignments.find((a) => a.workforceId === workforceId && a.date === date)
+    : undefined;
+
+  function pickWorker(id: string) {
+    setWorkforceId(id);
+    const worker = workerById.get(id);
+    if (worker) setRole(scheduleRoleForJob(worker.jobRole));
+  }
+
+  async function handleAssign(e: FormEvent) {
+    e.preventDefault();
+    if (saving) return;
+    if (!date || !workforceId) {
+      setError("Pick a day and a worker.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch("/api/schedules", {
+        method: "POST",
+        body: JSON.stringify({ workforce_id: workforceId, building: effectiveBuilding, shift, date, role, notes }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to assign shift."));
+        return;
+      }
+      setWorkforceId("");
+      setNotes("");
+      await loadSchedule();
+    } catch (e) {
+      console.error("Unexpected error assigning shift", e);
+      setError("Unexpected error assigning shift.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRemove(a: ShiftAssignment) {
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch(`/api/schedules/${a.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to remove assignment."));
+        return;
+      }
+      await loadSchedule();
+    } catch (e) {
+      console.error("Unexpected error removing assignment", e);
+      setError("Unexpected error removing assignment.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCopyForward() {
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    setSkipped([]);
+    try {
+      const res = await apiFetch("/api/schedules/copy", {
+        method: "POST",
+        body: JSON.stringify({ building: effectiveBuilding, week_start: weekStart }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to copy week."));
+        return;
+      }
+      const body = (await res.json()) as CopyResponse;
+      setInfo(
+        `Copied ${body.created.length} assignment${body.created.length === 1 ? "" : "s"} to the week of ${body.weekStart}` +
+          (body.skipped.length ? `; ${body.skipped.length} skipped.` : ".")
+      );
+      setSkipped(body.skipped);
+      setWeekStart(body.weekStart);
+    } catch (e) {
+      console.error("Unexpected error copying week", e);
+      setError("Unexpected error copying week.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function togglePublished() {
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch("/api/schedules/publish", {
+        method: published ? "DELETE" : "POST",
+        body: JSON.stringify({ building: effectiveBuilding, week_start: weekStart }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to update roster."));
+        return;
+      }
+      setInfo(published ? "Roster unpublished; workers no longer see this week." : "Roster published to workers.");
+      await loadSchedule();
+    } catch (e) {
+      console.error("Unexpected error publishing roster", e);
+      setError("Unexpected error publishing roster.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-7xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Shift Schedule</h1>
+            <p className="text-sm text-slate-400">
+              {canManage
+                ? "Assign people to shifts by role, copy a week forward, and publish the roster to workers."
+                : "Your published shifts and your building's roster."}
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading schedule…</p>}
+          </div>
+          <Link
+            href="/"
+            className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+            {skipped.length > 0 && (
+              <ul className="mt-1 list-disc pl-4 text-amber-200">
+                {skipped.map((s, i) => (
+                  <li key={i}>
+                    {s.workerName} ({dayLabel(s.date)} · {s.shift}): {s.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Week + building */}
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <button
+            type="button"
+            onClick={() => setWeekStart((w) => addDaysYMD(w, -7))}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800"
+          >
+            ← Prev
+          </button>
+          <div className="text-slate-200 font-medium">
+            Week of {dayLabel(days[0])} – {dayLabel(days[6])}
+          </div>
+          <button
+            type="button"
+            onClick={() => setWeekStart((w) => addDaysYMD(w, 7))}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800"
+          >
+            Next →
+          </button>
+
+          <select
+            value={effectiveBuilding}
+            onChange={(e) => setBuilding(e.target.value)}
+            disabled={scoped}
+            className="rounded-lg bg-slate-950 border border-slate-700 px-3 py-1 text-slate-100"
+          >
+            {BUILDINGS.map((b) => (
+              <option key={b} value={b}>
+                {b}
+              </option>
+            ))}
+          </select>
+
+          <span
+            className={`rounded-full px-2 py-0.5 text-[10px] ${
+              published ? "bg-emerald-900/60 text-emerald-200" : "bg-slate-800 text-slate-300"
+            }`}
+          >
+            {published ? `Published ${new Date(published.publishedAt).toLocaleString()}` : "Not published"}
+          </span>
+
+          {canManage && (
+            <div className="ml-auto flex gap-2">
+              <button
+                type="button"
+                onClick={() => void handleCopyForward()}
+                disabled={saving || schedule.assignments.length === 0}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-50"
+              >
+                Copy to Next Week
+              </button>
+              <button
+                type="button"
+                onClick={() => void togglePublished()}
+                disabled={saving}
+                className={`rounded-lg px-3 py-1 text-white disabled:opacity-50 ${
+                  published ? "bg-slate-700 hover:bg-slate-600" : "bg-sky-600 hover:bg-sky-500"
+                }`}
+              >
+                {published ? "Unpublish" : "Publish Roster"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* My shifts */}
+        {schedule.myWorkforceIds.length > 0 && (
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs">
+            <div className="text-slate-200 text-sm font-semibold mb-2">My Shifts</div>
+            {mine.length === 0 ? (
+              <p className="text-slate-500">No shifts scheduled for you this week{canManage ? "" : " yet"}.</p>
+            ) : (
+              <ul className="space-y-1">
+                {mine.map((a) => (
+                  <li key={a.id} className="text-slate-200">
+                    {dayLabel(a.date)} · {a.building} · {a.shift} shift · {a.role}
+                    {a.notes && <span className="text-slate-500"> — {a.notes}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className={`grid grid-cols-1 gap-6 ${canManage ? "lg:grid-cols-4" : ""}`}>
+          {/* Assign */}
+          {canManage && (
+            <form
+              onSubmit={handleAssign}
+              className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3 lg:col-span-1"
+            >
+              <div className="text-slate-200 text-sm font-semibold">Assign Shift</div>
+
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Day</label>
+                <select
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                >
+                  <option value="">Select day…</option>
+                  {days.map((d) => (
+                    <option key={d} value={d}>
+                      {dayLabel(d)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Shift</label>
+                  <select
+                    value={shift}
+                    onChange={(e) => setShift(e.target.value)}
+                    className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                  >
+                    {SHIFTS.map((s) => (
+                      <option key={s} value={s}>
+                        {s}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Role</label>
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as ScheduleRole)}
+                    className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                  >
+                    {SCHEDULE_ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Worker</label>
+                <select
+                  value={workforceId}
+                  onChange={(e) => pickWorker(e.target.value)}
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                >
+                  <option value="">Select worker…</option>
+                  {pickable.map((w) => (
+                    <option key={w.id} value={w.id}>
+                      {w.name}
+                      {w.jobRole ? ` · ${w.jobRole}` : ""}
+                    </option>
+                  ))}
+                </select>
+                {bookedThatDay && (
+                  <div className="mt-1 text-[11px] text-amber-300">
+                    Already on {bookedThatDay.shift} shift that day.
+                  </div>
+                )}
+                {onLeave.length > 0 && (
+                  <div className="mt-1 text-[10px] text-slate-500">
+                    On leave (not shown): {onLeave.map((w) => w.name).join(", ")}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Notes (optional)</label>
+                <input
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. Door 12, training new hire"
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={saving || !!bookedThatDay}
+                className="w-full rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-60 text-[11px] font-medium text-white px-4 py-2"
+              >
+                {saving ? "Saving…" : "Assign"}
+              </button>
+            </form>
+          )}
+
+          {/* Roster grid */}
+          <div
+            className={`bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs overflow-x-auto ${
+              canManage ? "lg:col-span-3" : ""
+            }`}
+          >
+            {!canManage && !published ? (
+              <p className="text-sm text-slate-500">The roster for this week hasn&apos;t been published yet.</p>
+            ) : (
+              <table className="min-w-full text-left">
+                <thead>
+                  <tr className="border-b border-slate-800">
+                    <th className="px-2 py-2 text-[11px] text-slate-400">Shift</th>
+                    {days.map((d) => (
+                      <th key={d} className="px-2 py-2 text-[11px] text-slate-400 whitespace-nowrap">
+                        {dayLabel(d)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SHIFTS.map((s) => (
+                    <tr key={s} className="border-b border-slate-800/60 align-top">
+                      <td className="px-2 py-2 text-slate-300 font-medium">{s}</td>
+                      {days.map((d) => {
+                        const cell = schedule.assignments.filter((a) => a.date === d && a.shift === s);
+                        return (
+                          <td key={d} className="px-2 py-2 min-w-[120px]">
+                            {cell.length > 0 && <div className="text-[10px] text-slate-500 mb-1">{cell.length} scheduled</div>}
+                            <ul className="space-y-1">
+                              {cell.map((a) => {
+                                const worker = workerById.get(a.workforceId);
+                                const warning =
+                                  worker?.status === ON_LEAVE_STATUS
+                                    ? "on leave"
+                                    : worker && !worker.active
+                                      ? "inactive"
+                                      : null;
+                                const isMine = schedule.myWorkforceIds.includes(a.workforceId);
+                                return (
+                                  <li
+                                    key={a.id}
+                                    className={`rounded-lg border px-2 py-1 ${
+                                      isMine ? "border-sky-700 bg-sky-950/40" : "border-slate-800 bg-slate-950"
+                                    }`}
+                                  >
+                                    <div className="flex items-start justify-between gap-1">
+                                      <span className="text-slate-100">{a.workerName}</span>
+                                      {canManage && (
+                                        <button
+                                          type="button"
+                                          onClick={() => void handleRemove(a)}
+                                          disabled={saving}
+                                          aria-label={`Remove ${a.workerName}`}
+                                          className="text-slate-500 hover:text-rose-300"
+                                        >
+                                          ×
+                                        </button>
+                                      )}
+                                    </div>
+                                    <div className="text-[10px] text-slate-400">{a.role}</div>
+                                    {warning && <div className="text-[10px] text-amber-300">⚠ {warning}</div>}
+                                  </li>
+                                );
+                              })}
+                            </ul>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
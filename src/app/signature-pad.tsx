@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import {
+  SIGNED_DOCUMENTS,
+  SIGNER_ROLE_LABELS,
+  type SignatureStatus,
+  type SignedDocumentType,
+  type SignerRole,
+} from "@/lib/domain/signatures";
+import { nyDateTime } from "@/lib/time";
+
+type PadProps = {
+  onChange: (image: string | null) => void; // PNG data URL once something is drawn
+  disabled?: boolean;
+  height?: number;
+};
+
+// Touch / mouse / pen drawing area. Draws dark ink on white so the PNG prints as-is.
+export function SignaturePad({ onChange, disabled, height = 140 }: PadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  function blank(canvas: HTMLCanvasElement) {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+  }
+
+  // Size the bitmap to the element (and screen density) once it's laid out
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = Math.round(rect.width * ratio);
+    canvas.height = Math.round(rect.height * ratio);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2.2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#0f172a";
+    blank(canvas);
+  }, []);
+
+  function point(e: PointerEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  function handleDown(e: PointerEvent<HTMLCanvasElement>) {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + 0.1, y + 0.1);
+    ctx.stroke();
+  }
+
+  function handleMove(e: PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  }
+
+  function handleUp(e: PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(e.currentTarget.toDataURL("image/png"));
+  }
+
+  function clear() {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    blank(canvas);
+    onChange(null);
+  }
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        style={{ height, touchAction: "none" }}
+        className={`w-full rounded-lg border border-slate-600 bg-white ${disabled ? "opacity-60" : "cursor-crosshair"}`}
+        onPointerDown={handleDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerCancel={handleUp}
+      />
+      <div className="flex items-center justify-between text-[10px] text-slate-500">
+        <span>Sign above with a finger, stylus or mouse.</span>
+        <button type="button" onClick={clear} disabled={disabled} className="text-sky-300 hover:underline">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type Props = {
+  documentType: SignedDocumentType;
+  documentId: string;
+  // Change it after the document is saved so validity is re-checked
+  refreshKey?: string;
+  canSign?: boolean;
+  defaultSignerNames?: Partial<Record<SignerRole, string>>;
+  onChange?: (signatures: SignatureStatus[]) => void;
+  stacked?: boolean; // one signer per row, for narrow columns
+};
+
+// Signature block for one document: each signer role's latest signature, flagged
+// when the document was edited after signing, with a pad to (re-)sign
+// (GET / POST /api/signatures). Signatures cover the document as last saved.
+export function DocumentSignatures({
+  documentType,
+  documentId,
+  refreshKey = "",
+  canSign = true,
+  defaultSignerNames,
+  onChange,
+  stacked,
+}: Props) {
+  const loadKey = `${documentType}:${documentId}:${refreshKey}`;
+  const [loaded, setLoaded] = useState<{ key: string; signatures: SignatureStatus[]; signable: SignerRole[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [names, setNames] = useState<Partial<Record<SignerRole, string>>>({});
+  const [images, setImages] = useState<Partial<Record<SignerRole, string | null>>>({});
+  const [padKeys, setPadKeys] = useState<Partial<Record<SignerRole, number>>>({});
+  const [signing, setSigning] = useState<SignerRole | null>(null);
+
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      const qs = new URLSearchParams({ document_type: documentType, document_id: documentId });
+      const res = await apiFetch(`/api/signatures?${qs}`);
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load signatures."));
+        return;
+      }
+      const { signatures, signableRoles } = (await res.json()) as {
+        signatures: SignatureStatus[];
+        signableRoles: SignerRole[];
+      };
+      if (cancelled) return;
+      setLoaded({ key: loadKey, signatures, signable: signableRoles });
+      onChangeRef.current?.(signatures);
+    }
+
+    void load().catch((e) => {
+      console.error("Error loading signatures", e);
+      if (!cancelled) setError("Failed to load signatures.");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentType, documentId, loadKey]);
+
+  async function sign(role: SignerRole) {
+    const image = images[role];
+    const signerName = (names[role] ?? defaultSignerNames?.[role] ?? "").trim();
+    if (!signerName) return setError(`Enter the ${SIGNER_ROLE_LABELS[role].toLowerCase()}'s name.`);
+    if (!image) return setError("Draw a signature first.");
+
+    setSigning(role);
+    setError(null);
+    try {
+      const res = await apiFetch("/api/signatures", {
+        method: "POST",
+        body: JSON.stringify({
+          document_type: documentType,
+          document_id: documentId,
+          signer_role: role,
+          signer_name: signerName,
+          image_data: image,
+        }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to save signature."));
+        return;
+      }
+      const signature = (await res.json()) as SignatureStatus;
+      const next = [...(loaded?.signatures ?? []).filter((s) => s.signerRole !== role), signature];
+      setLoaded({ key: loadKey, signatures: next, signable: loaded?.signable ?? [] });
+      onChangeRef.current?.(next);
+      setImages((m) => ({ ...m, [role]: null }));
+      setPadKeys((m) => ({ ...m, [role]: (m[role] ?? 0) + 1 }));
+    } catch (e) {
+      console.error("Unexpected error saving signature", e);
+      setError("Unexpected error saving signature.");
+    } finally {
+      setSigning(null);
+    }
+  }
+
+  const signatures = loaded?.key === loadKey ? loaded.signatures : null;
+  const signable = loaded?.key === loadKey ? loaded.signable : [];
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="rounded-lg border border-rose-700 bg-rose-950/40 px-3 py-2 text-[11px] text-rose-100">{error}</div>
+      )}
+      {!signatures ? (
+        <p className="text-[11px] text-slate-400">Loading signatures…</p>
+      ) : (
+        <div className={`grid grid-cols-1 gap-3 ${stacked ? "" : "md:grid-cols-2"}`}>
+          {SIGNED_DOCUMENTS[documentType].roles.map((role) => {
+            const current = signatures.find((s) => s.signerRole === role) ?? null;
+            return (
+              <div key={role} className="rounded-xl border border-slate-800 bg-slate-950 p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-[12px] font-semibold text-slate-100">{SIGNER_ROLE_LABELS[role]}</div>
+                  {current && (
+                    <span
+                      className={`rounded-full border px-2 py-0.5 text-[10px] ${
+                        current.valid
+                          ? "border-emerald-700/70 bg-emerald-900/60 text-emerald-200"
+                          : "border-amber-700/70 bg-amber-900/60 text-amber-200"
+                      }`}
+                    >
+                      {current.valid ? "Signed" : "Invalidated — edited after signing"}
+                    </span>
+                  )}
+                </div>
+
+                {current && (
+                  <div className={current.valid ? "" : "opacity-60"}>
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={current.image} alt={`Signature of ${current.signerName}`} className="h-16 rounded bg-white" />
+                    <div className="mt-1 text-[11px] text-slate-300">{current.signerName}</div>
+                    <div className="text-[10px] text-slate-500">
+                      {nyDateTime(new Date(current.createdAt))} • captured by {current.signedByEmail ?? "—"}
+                      {current.signedByAccessRole ? ` (${current.signedByAccessRole})` : ""}
+                    </div>
+                    <div className="text-[10px] text-slate-600 font-mono break-all">
+                      SHA-256 {current.contentHash.slice(0, 16)}…
+                    </div>
+                  </div>
+                )}
+
+                {canSign && signable.includes(role) && !current?.valid && (
+                  <div className="space-y-2">
+                    <input
+                      className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-[12px] text-slate-50"
+                      placeholder={`${SIGNER_ROLE_LABELS[role]} name`}
+                      value={names[role] ?? defaultSignerNames?.[role] ?? ""}
+                      onChange={(e) => setNames((m) => ({ ...m, [role]: e.target.value }))}
+                    />
+                    <SignaturePad
+                      key={padKeys[role] ?? 0}
+                      disabled={signing !== null}
+                      onChange={(image) => setImages((m) => ({ ...m, [role]: image }))}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => void sign(role)}
+                      disabled={signing !== null || !images[role]}
+                      className="rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-60 text-[12px] font-medium text-white px-4 py-2"
+                    >
+                      {signing === role ? "Saving…" : current ? "Sign Again" : "Sign"}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState, FormEvent } from "react";
+import { useCallback, useEffect, useMemo, useState, FormEvent } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings"; // ✅ shared buildings
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { addDaysYMD } from "@/lib/time";
+import {
+  assignedCountsBySlot,
+  scheduleSlotKey,
+  type ShiftAssignment,
+  type SlotCounts,
+} from "@/lib/domain/schedules";
 
 const SHIFTS = ["1st", "2nd", "3rd", "4th"];
 
@@ -34,16 +42,10 @@ type StaffingPlan = {
   notes?: string;
 };
 
-type WorkforceRow = {
-  id: string;
-  building: string | null;
-  status: string | null;
-};
+// GET /api/schedules returns at most this many days per request
+const SCHEDULE_RANGE_DAYS = 92;
 
-type WorkforceSummary = {
-  building: string;
-  activeCount: number;
-};
+const NO_ASSIGNMENTS: SlotCounts = { total: 0, Lumper: 0, Equipment: 0, Lead: 0 };
 
 function rowToPlan(row: StaffingRow): StaffingPlan {
   return {
@@ -66,8 +68,9 @@ export default function StaffingPage() {
   const leadBuilding = currentUser?.building || "";
 
   const [plans, setPlans] = useState<StaffingPlan[]>([]);
-  const [workforceSummary, setWorkforceSummary] = useState<WorkforceSummary[]>(
-    []
+  // Scheduled people per date / building / shift (from /schedule)
+  const [assignedCounts, setAssignedCounts] = useState<Map<string, SlotCounts>>(
+    () => new Map()
   );
 
   const [loading, setLoading] = useState(true);
@@ -105,7 +108,7 @@ export default function StaffingPage() {
     setNotes("");
   }
 
-  async function loadStaffingPlans() {
+  async function loadStaffingPlans(): Promise<StaffingPlan[]> {
     setError(null);
     try {
       let query = supabase
@@ -125,62 +128,59 @@ export default function StaffingPage() {
       if (error) {
         console.error("Error loading staffing plans", error);
         setError("Failed to load staffing plans from server.");
-        return;
+        return [];
       }
 
       const rows = (data || []) as StaffingRow[];
-      setPlans(rows.map(rowToPlan));
+      const loaded = rows.map(rowToPlan);
+      setPlans(loaded);
+      return loaded;
     } catch (e) {
       console.error("Unexpected error loading staffing plans", e);
       setError("Unexpected error loading staffing plans.");
+      return [];
     }
   }
 
-  async function loadWorkforceSummary() {
-    setError(null);
-    try {
-      let query = supabase
-        .from("workforce")
-        .select("id, building, status");
-
-      // Leads only see workforce counts for their own building
-      if (isLead && leadBuilding) {
-        query = query.eq("building", leadBuilding);
-      }
-
-      const { data, error } = await query;
-
-      if (error) {
-        console.error("Error loading workforce for staffing", error);
-        return;
-      }
-
-      const rows = (data || []) as WorkforceRow[];
-      const map: Record<string, number> = {};
+  // Actual = people assigned on the schedule for each plan's date / building / shift
+  async function loadAssignedCounts(forPlans: StaffingPlan[]) {
+    if (forPlans.length === 0) {
+      setAssignedCounts(new Map());
+      return;
+    }
 
-      for (const row of rows) {
-        const b = row.building ?? "Unknown";
-        const status = row.status ?? "";
-        if (status !== "Active") continue;
-        map[b] = (map[b] ?? 0) + 1;
+    const dates = forPlans.map((p) => p.date).sort();
+    const assignments: ShiftAssignment[] = [];
+    try {
+      for (
+        let from = dates[0];
+        from <= dates[dates.length - 1];
+        from = addDaysYMD(from, SCHEDULE_RANGE_DAYS + 1)
+      ) {
+        const params = new URLSearchParams({
+          from,
+          to: addDaysYMD(from, SCHEDULE_RANGE_DAYS),
+        });
+        const res = await apiFetch(`/api/schedules?${params}`);
+        if (!res.ok) {
+          setError(
+            await apiErrorMessage(res, "Failed to load scheduled headcount.")
+          );
+          return;
+        }
+        const body = (await res.json()) as { assignments: ShiftAssignment[] };
+        assignments.push(...body.assignments);
       }
-
-      const result: WorkforceSummary[] = Object.entries(map).map(
-        ([building, activeCount]) => ({
-          building,
-          activeCount,
-        })
-      );
-      setWorkforceSummary(result);
+      setAssignedCounts(assignedCountsBySlot(assignments));
     } catch (e) {
-      console.error("Unexpected error loading workforce for staffing", e);
-      // ignore; just means "actual" might be 0
+      console.error("Unexpected error loading scheduled headcount", e);
+      // ignore; just means "actual" shows 0
     }
   }
 
   async function refreshAll() {
     setLoading(true);
-    await Promise.all([loadStaffingPlans(), loadWorkforceSummary()]);
+    await loadAssignedCounts(await loadStaffingPlans());
     setLoading(false);
   }
 
@@ -310,13 +310,12 @@ export default function StaffingPage() {
     }
   }
 
-  const actualByBuilding = useMemo(() => {
-    const map: Record<string, number> = {};
-    for (const w of workforceSummary) {
-      map[w.building] = w.activeCount;
-    }
-    return map;
-  }, [workforceSummary]);
+  const actualFor = useCallback(
+    (p: StaffingPlan): SlotCounts =>
+      assignedCounts.get(scheduleSlotKey(p.date, p.building, p.shift)) ??
+      NO_ASSIGNMENTS,
+    [assignedCounts]
+  );
 
   const filteredPlans = useMemo(() => {
     return plans.filter((p) => {
@@ -344,15 +343,14 @@ export default function StaffingPage() {
     let todayPlans = 0;
 
     for (const p of plans) {
-      const actual = actualByBuilding[p.building] ?? 0;
-      const diff = actual - p.requiredTotal;
+      const diff = actualFor(p).total - p.requiredTotal;
       if (diff < 0) under++;
       if (diff > 0) over++;
       if (p.date === todayStr) todayPlans++;
     }
 
     return { total, under, over, todayPlans };
-  }, [plans, actualByBuilding]);
+  }, [plans, actualFor]);
 
   // Protect route after hooks
   if (!currentUser) {
@@ -380,7 +378,7 @@ export default function StaffingPage() {
             </h1>
             <p className="text-sm text-slate-400">
               Plan required headcount by building and shift, and compare
-              against active workers from the workforce roster.
+              against the people assigned on the shift schedule.
             </p>
           </div>
           <Link
@@ -698,7 +696,7 @@ export default function StaffingPage() {
                           Required
                         </th>
                         <th className="px-3 py-2 text-[11px] text-slate-400 text-right">
-                          Actual (Active)
+                          Actual (Scheduled)
                         </th>
                         <th className="px-3 py-2 text-[11px] text-slate-400 text-right">
                           Status
@@ -710,8 +708,8 @@ export default function StaffingPage() {
                     </thead>
                     <tbody>
                       {filteredPlans.map((p) => {
-                        const actual = actualByBuilding[p.building] ?? 0;
-                        const diff = actual - p.requiredTotal;
+                        const actual = actualFor(p);
+                        const diff = actual.total - p.requiredTotal;
 
                         let badgeLabel = "Balanced";
                         let badgeClass =
@@ -750,7 +748,11 @@ export default function StaffingPage() {
                               </span>
                             </td>
                             <td className="px-3 py-2 text-right text-slate-200">
-                              {actual}
+                              {actual.total}
+                              <span className="text-[10px] text-slate-500 ml-1">
+                                (L {actual.Lumper} · E {actual.Equipment} ·
+                                Lead {actual.Lead})
+                              </span>
                             </td>
                             <td className="px-3 py-2 text-right">
                               <span
@@ -5,6 +5,13 @@ import { useEffect, useMemo, useState, FormEvent } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { signedContentJson } from "@/lib/domain";
+import { DocumentSignatures } from "@/app/signature-pad";
+import { saveOrQueue } from "@/lib/offlineQueue";
+import type { StartupChecklistRow } from "@/lib/domain/startupChecklists";
+import { lateOrNoShowSummary, type AttendanceRow } from "@/lib/domain/timeClock";
+import { hasPermission, sanitizeRole } from "@/lib/roles";
 
 const SHIFTS = ["1st", "2nd", "3rd", "4th"] as const;
 
@@ -114,19 +121,10 @@ type StartupChecklist = {
   date: string; // YYYY-MM-DD
   createdAt: string; // ISO
   completedAt?: string; // ISO
+  updatedAt: string | null; // sent back as If-Match so offline edits can't clobber newer ones
   items: ReadinessItems;
 };
 
-type StartupRow = {
-  id: string;
-  created_at: string;
-  completed_at: string | null;
-  building: string | null;
-  shift: string | null;
-  date: string | null;
-  items: unknown; // ✅ no any
-};
-
 // --------------------
 // Helpers
 // --------------------
@@ -241,7 +239,7 @@ function mergeItems(existing: unknown): ReadinessItems {
   return merged;
 }
 
-function rowToStartup(row: StartupRow): StartupChecklist {
+function rowToStartup(row: StartupChecklistRow): StartupChecklist {
   return {
     id: String(row.id),
     building: row.building ?? BUILDINGS[0],
@@ -249,6 +247,7 @@ function rowToStartup(row: StartupRow): StartupChecklist {
     date: row.date ?? new Date().toISOString().slice(0, 10),
     createdAt: row.created_at ?? isoNow(),
     completedAt: row.completed_at ?? undefined,
+    updatedAt: row.updated_at ?? null,
     items: mergeItems(row.items),
   };
 }
@@ -306,6 +305,8 @@ export default function ShiftReadinessReportsPage() {
   const isSuperAdmin = role === "Super Admin";
   const isBuildingManager = role === "Building Manager";
   const isLead = role === "Lead";
+  const canUseTimeClock = hasPermission(sanitizeRole(role), "timeclock.punch");
+  const canInvestigate = hasPermission(sanitizeRole(role), "safety.manage");
 
   const userId = safeString(currentUser?.id || currentUser?.userId || currentUser?.uid);
   const userName = safeString(currentUser?.name || currentUser?.fullName || currentUser?.displayName || currentUser?.email);
@@ -327,6 +328,7 @@ export default function ShiftReadinessReportsPage() {
 
   const [error, setError] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
+  const [signingId, setSigningId] = useState<string | null>(null); // report whose signature block is open
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -403,7 +405,7 @@ export default function ShiftReadinessReportsPage() {
         return;
       }
 
-      const mapped = ((data ?? []) as StartupRow[]).map(rowToStartup);
+      const mapped = ((data ?? []) as StartupChecklistRow[]).map(rowToStartup);
       setRecords(mapped.filter(canViewRecord));
     } catch (e) {
       console.error(e);
@@ -516,14 +518,23 @@ export default function ShiftReadinessReportsPage() {
           return;
         }
 
-        const { error: updateError } = await supabase
-          .from("startup_checklists")
-          .update({ building, shift, date })
-          .eq("id", editingId);
-
-        if (updateError) {
-          console.error(updateError);
-          setError("Failed to update report.");
+        const rec = records.find((r) => r.id === editingId);
+        const saved = await saveOrQueue({
+          kind: "startup_checklist",
+          label: `Readiness report ${building} ${shift} ${date}`,
+          method: "PATCH",
+          url: `/api/startup-checklists/${editingId}`,
+          body: { building, shift, date },
+          baseUpdatedAt: rec?.updatedAt ?? null,
+        });
+
+        if (saved.queued) {
+          setRecords((prev) => prev.map((r) => (r.id === editingId ? { ...r, building, shift, date } : r)));
+          setInfo("Saved on this device. It will sync when the connection returns.");
+          return;
+        }
+        if (!saved.res.ok) {
+          setError(await apiErrorMessage(saved.res, "Failed to update report."));
           return;
         }
 
@@ -552,10 +563,20 @@ export default function ShiftReadinessReportsPage() {
           completed_at: null,
         };
 
-        const { error: insertError } = await supabase.from("startup_checklists").insert(payload);
-        if (insertError) {
-          console.error(insertError);
-          setError("Failed to create report.");
+        const saved = await saveOrQueue({
+          kind: "startup_checklist",
+          label: `Readiness report ${payload.building} ${payload.shift} ${date}`,
+          method: "POST",
+          url: "/api/startup-checklists",
+          body: payload,
+        });
+
+        if (saved.queued) {
+          setInfo("Report saved on this device. It will sync when the connection returns.");
+          return;
+        }
+        if (!saved.res.ok) {
+          setError(await apiErrorMessage(saved.res, "Failed to create report."));
           return;
         }
 
@@ -628,14 +649,26 @@ export default function ShiftReadinessReportsPage() {
       const completedISO = safeString(nextItems.confirmation?.completedAtISO).trim();
       const legacyCompletedAt = completedISO ? completedISO : null;
 
-      const { error: itemError } = await supabase
-        .from("startup_checklists")
-        .update({ items: nextItems, completed_at: legacyCompletedAt })
-        .eq("id", rec.id);
-
-      if (itemError) {
-        console.error(itemError);
-        setError("Failed to update report.");
+      const saved = await saveOrQueue({
+        kind: "startup_checklist",
+        label: `Readiness report ${rec.building} ${rec.shift} ${rec.date}`,
+        method: "PATCH",
+        url: `/api/startup-checklists/${rec.id}`,
+        body: { items: nextItems, completed_at: legacyCompletedAt },
+        baseUpdatedAt: rec.updatedAt,
+      });
+
+      if (saved.queued) {
+        // Keep checking items off while offline; the queue folds them into one edit
+        setRecords((prev) =>
+          prev.map((r) =>
+            r.id === rec.id ? { ...r, items: nextItems, completedAt: legacyCompletedAt ?? undefined } : r
+          )
+        );
+        return;
+      }
+      if (!saved.res.ok) {
+        setError(await apiErrorMessage(saved.res, "Failed to update report."));
         return;
       }
 
@@ -673,6 +706,71 @@ export default function ShiftReadinessReportsPage() {
     patchSection(rec, section, { [field]: !current } as Partial<NonNullable<ReadinessItems[K]>>);
   }
 
+  // Needs a connection: the message goes out from the server now
+  async function sendBroadcast(rec: StartupChecklist) {
+    if (!canEditRecord(rec)) {
+      setError("You do not have permission to edit this report.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const res = await apiFetch(`/api/startup-checklists/${rec.id}/broadcast`, {
+        method: "POST",
+        body: JSON.stringify({ channel: "whatsapp" }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to send broadcast."));
+        return;
+      }
+
+      const result = (await res.json()) as { sent: number; pending: number; failed: number; skipped: number };
+      const parts = [
+        `${result.sent} sent`,
+        result.pending ? `${result.pending} will retry` : null,
+        result.failed ? `${result.failed} failed` : null,
+        result.skipped ? `${result.skipped} already had it` : null,
+      ].filter(Boolean);
+      setInfo(`Shift broadcast: ${parts.join(", ")}.`);
+      await refreshFromSupabase();
+    } catch (e) {
+      console.error(e);
+      setError("Unexpected error sending broadcast.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Fills "Late / No-show details" from the time clock's attendance for this shift
+  async function fillLateOrNoShowFromTimeClock(rec: StartupChecklist) {
+    if (!canEditRecord(rec)) {
+      setError("You do not have permission to edit this report.");
+      return;
+    }
+
+    setError(null);
+    setInfo(null);
+    try {
+      const params = new URLSearchParams({ building: rec.building, shift: rec.shift, date: rec.date });
+      const res = await apiFetch(`/api/time-clock/attendance?${params}`);
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load time clock attendance."));
+        return;
+      }
+
+      const { rows } = (await res.json()) as { rows: AttendanceRow[] };
+      const summary = lateOrNoShowSummary(rows);
+      patchSection(rec, "staffing", { lateOrNoShowDetails: summary || "No late arrivals or no-shows on the time clock." });
+      setInfo("Late / no-show details filled from the time clock.");
+    } catch (e) {
+      console.error(e);
+      setError("Unexpected error loading time clock attendance.");
+    }
+  }
+
   function markShiftStarted(rec: StartupChecklist) {
     const merged = mergeItems(rec.items);
     const started = safeString(merged.confirmation?.shiftStartedAtISO).trim();
@@ -1052,6 +1150,28 @@ export default function ShiftReadinessReportsPage() {
                         >
                           Record Shift Start
                         </button>
+                        <button
+                          type="button"
+                          onClick={() => void sendBroadcast(r)}
+                          disabled={
+                            !canEditRecord(r) || saving || !safeString(r.items.communication?.dailyFocusMessage).trim()
+                          }
+                          title="Sends the daily focus message to opted-in workers on this shift"
+                          className="text-[12px] px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:bg-slate-800 disabled:opacity-60"
+                        >
+                          Send WhatsApp Broadcast
+                        </button>
+                        {canUseTimeClock && (
+                          <button
+                            type="button"
+                            onClick={() => void fillLateOrNoShowFromTimeClock(r)}
+                            disabled={!canEditRecord(r) || saving}
+                            title="Uses clock-ins against the scheduled start time"
+                            className="text-[12px] px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:bg-slate-800 disabled:opacity-60"
+                          >
+                            Fill Late / No-shows from Time Clock
+                          </button>
+                        )}
                         <button
                           type="button"
                           onClick={() => markCompleted(r)}
@@ -1060,8 +1180,45 @@ export default function ShiftReadinessReportsPage() {
                         >
                           Close Report (Completed)
                         </button>
+                        <button
+                          type="button"
+                          onClick={() => setSigningId((id) => (id === r.id ? null : r.id))}
+                          className="text-[12px] px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:bg-slate-800"
+                        >
+                          {signingId === r.id ? "Hide Signature" : "Sign Confirmation"}
+                        </button>
+                        {canInvestigate &&
+                          (safeBool(r.items.safety?.nearMissReported) || safeBool(r.items.safety?.hazardsIdentified)) && (
+                            <Link
+                              href={`/investigations?${new URLSearchParams({ source_type: "startup_checklist", source_id: r.id })}`}
+                              className="text-[12px] px-3 py-1.5 rounded-lg bg-slate-900 border border-amber-700/70 text-amber-200 hover:bg-slate-800"
+                            >
+                              Investigate Near Miss / Hazard
+                            </Link>
+                          )}
                       </div>
 
+                      {signingId === r.id && (
+                        <div className="space-y-2">
+                          <div className="text-[11px] text-slate-400">
+                            The shift lead signs off on the checklist as saved. Changing an item afterwards invalidates
+                            the signature.
+                          </div>
+                          <DocumentSignatures
+                            documentType="startup_checklist"
+                            documentId={r.id}
+                            refreshKey={signedContentJson("startup_checklist", {
+                              building: r.building,
+                              shift: r.shift,
+                              date: r.date,
+                              items: r.items,
+                            })}
+                            canSign={canEditRecord(r)}
+                            defaultSignerNames={{ lead: userName }}
+                          />
+                        </div>
+                      )}
+
                       <div className="text-[11px] text-slate-400">
                         Shift Started:{" "}
                         <span className="text-slate-200">{formatISODate(r.items.confirmation?.shiftStartedAtISO)}</span>{" "}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  listQueuedWrites,
+  QUEUE_CHANGED_EVENT,
+  removeQueuedWrite,
+  replayQueuedWrites,
+  requestBackgroundSync,
+  resolveConflict,
+  retryQueuedWrite,
+  saveSyncToken,
+} from "@/lib/offlineQueue";
+import { queueCounts, type QueuedWrite } from "@/lib/syncProtocol";
+
+function formatQueuedAt(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+// "Pending sync" badge for writes saved offline; opens a panel to sync now
+// or settle conflicts. Renders nothing while online with an empty queue.
+export function SyncStatus() {
+  const [writes, setWrites] = useState<QueuedWrite[]>([]);
+  const [online, setOnline] = useState(true);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setWrites(await listQueuedWrites());
+      setOnline(navigator.onLine);
+    } catch (e) {
+      console.error("Failed to read the offline queue", e);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setBusy(true);
+    try {
+      await replayQueuedWrites();
+    } catch (e) {
+      console.error("Offline queue replay failed", e);
+    } finally {
+      setBusy(false);
+      await refresh();
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    void refresh();
+
+    // The service worker replays with whatever token the page last handed it
+    void supabase.auth.getSession().then(({ data }) => saveSyncToken(data.session?.access_token ?? null));
+    const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
+      void saveSyncToken(session?.access_token ?? null);
+    });
+
+    const onQueueChanged = () => void refresh();
+    const onOnline = () => {
+      setOnline(true);
+      // Background Sync fires by itself where supported; replay from here otherwise
+      void requestBackgroundSync().then((registered) => (registered ? refresh() : syncNow()));
+    };
+    const onOffline = () => setOnline(false);
+    const onWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === QUEUE_CHANGED_EVENT) void refresh();
+    };
+
+    window.addEventListener(QUEUE_CHANGED_EVENT, onQueueChanged);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    navigator.serviceWorker?.addEventListener("message", onWorkerMessage);
+
+    return () => {
+      authListener.subscription.unsubscribe();
+      window.removeEventListener(QUEUE_CHANGED_EVENT, onQueueChanged);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      navigator.serviceWorker?.removeEventListener("message", onWorkerMessage);
+    };
+  }, [refresh, syncNow]);
+
+  const counts = queueCounts(writes);
+  if (online && writes.length === 0) return null;
+
+  async function settle(action: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error("Failed to update the offline queue", e);
+    } finally {
+      setBusy(false);
+      await refresh();
+    }
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2 text-xs">
+      {open && (
+        <div className="w-80 max-h-96 overflow-y-auto rounded-2xl border border-slate-700 bg-slate-900/95 p-3 shadow-xl">
+          <div className="mb-2 flex items-center justify-between">
+            <div className="font-semibold text-slate-100">Offline changes</div>
+            <button
+              type="button"
+              onClick={() => void syncNow()}
+              disabled={busy || !online || counts.pending === 0}
+              className="rounded-lg border border-sky-700 bg-sky-900/60 px-2 py-1 text-[11px] text-sky-100 disabled:opacity-50"
+            >
+              {busy ? "Syncing…" : "Sync now"}
+            </button>
+          </div>
+
+          {!online && (
+            <div className="mb-2 text-[11px] text-amber-200">
+              You are offline. Saves are kept on this device and sync when the connection returns.
+            </div>
+          )}
+
+          {writes.length === 0 ? (
+            <div className="text-[11px] text-slate-400">Nothing waiting to sync.</div>
+          ) : (
+            <ul className="space-y-2">
+              {writes.map((w) => (
+                <li key={w.id} className="rounded-xl border border-slate-800 bg-slate-950/60 p-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-100">
+                      {w.method === "POST" ? "New " : "Edit "}
+                      {w.label}
+                    </span>
+                    <span
+                      className={
+                        w.status === "conflict"
+                          ? "text-rose-300"
+                          : w.status === "failed"
+                          ? "text-orange-300"
+                          : "text-amber-200"
+                      }
+                    >
+                      {w.status === "pending" ? "Pending" : w.status === "conflict" ? "Conflict" : "Failed"}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-slate-500">Saved {formatQueuedAt(w.queuedAt)}</div>
+                  {w.lastError && <div className="mt-1 text-[11px] text-slate-300">{w.lastError}</div>}
+
+                  {w.status === "conflict" && (
+                    <div className="mt-2 flex gap-2">
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => void settle(() => resolveConflict(w, "overwrite"))}
+                        className="rounded-lg border border-rose-700 bg-rose-900/50 px-2 py-1 text-[11px] text-rose-100 disabled:opacity-50"
+                      >
+                        Keep mine
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => void settle(() => resolveConflict(w, "discard"))}
+                        className="rounded-lg border border-slate-700 px-2 py-1 text-[11px] text-slate-200 disabled:opacity-50"
+                      >
+                        Keep theirs
+                      </button>
+                    </div>
+                  )}
+
+                  {w.status === "failed" && (
+                    <div className="mt-2 flex gap-2">
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => void settle(() => retryQueuedWrite(w))}
+                        className="rounded-lg border border-sky-700 bg-sky-900/50 px-2 py-1 text-[11px] text-sky-100 disabled:opacity-50"
+                      >
+                        Retry
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => void settle(() => removeQueuedWrite(w.id))}
+                        className="rounded-lg border border-slate-700 px-2 py-1 text-[11px] text-slate-200 disabled:opacity-50"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="flex items-center gap-2 rounded-full border border-slate-700 bg-slate-900/95 px-3 py-1.5 text-slate-100 shadow-lg"
+      >
+        {!online && <span className="h-2 w-2 rounded-full bg-slate-400" aria-hidden />}
+        {!online && <span>Offline</span>}
+        {counts.pending > 0 && <span className="text-amber-200">{counts.pending} pending sync</span>}
+        {counts.conflict > 0 && <span className="text-rose-300">{counts.conflict} conflict{counts.conflict === 1 ? "" : "s"}</span>}
+        {counts.failed > 0 && <span className="text-orange-300">{counts.failed} failed</span>}
+      </button>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { useEffect, useMemo, useState, FormEvent } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings"; // ✅ shared buildings
+import { signedContentJson } from "@/lib/domain";
+import { DocumentSignatures } from "@/app/signature-pad";
 
 const TERMINATIONS_KEY = "precisionpulse_terminations";
 
@@ -58,6 +60,18 @@ function rowToTermination(row: TerminationRow): TerminationRecord {
   };
 }
 
+// The saved record in row shape, for checking signatures against it
+function terminationSignedContent(r: TerminationRecord): string {
+  return signedContentJson("termination", {
+    employee_name: r.employeeName,
+    role: r.role,
+    building: r.building,
+    reason: r.reason,
+    checklist: r.checklist,
+    notes: r.notes,
+  });
+}
+
 // Default checklist template for new terminations
 function defaultChecklist(): Record<string, boolean> {
   return {
@@ -287,6 +301,8 @@ export default function TerminationsPage() {
     }
   }
 
+  const editingRecord = editingId ? records.find((r) => r.id === editingId) ?? null : null;
+
   const displayedRecords = useMemo(() => {
     let rows = [...records];
 
@@ -563,6 +579,24 @@ export default function TerminationsPage() {
                   : "Create Termination"}
               </button>
             </form>
+
+            {editingRecord && (
+              <div className="mt-4 pt-4 border-t border-slate-800 space-y-2">
+                <div>
+                  <div className="text-slate-200 text-sm font-semibold">Signatures</div>
+                  <div className="text-[11px] text-slate-500">
+                    Signatures cover the saved record; saving changes afterwards invalidates them.
+                  </div>
+                </div>
+                <DocumentSignatures
+                  documentType="termination"
+                  documentId={editingRecord.id}
+                  refreshKey={terminationSignedContent(editingRecord)}
+                  defaultSignerNames={{ employee: editingRecord.employeeName }}
+                  stacked
+                />
+              </div>
+            )}
           </div>
 
           {/* Filters + table */}
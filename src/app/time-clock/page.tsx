@@ -0,0 +1,420 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FormEvent } from "react";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission, isBuildingScoped } from "@/lib/roles";
+import { BUILDINGS } from "@/lib/buildings";
+import { NY_TZ, nyISODate } from "@/lib/time";
+import {
+  PUNCH_KIND_LABELS,
+  lateOrNoShowSummary,
+  type AttendanceRow,
+  type AttendanceStatus,
+  type ClockState,
+  type PunchKind,
+} from "@/lib/domain";
+
+const SHIFTS = ["1st", "2nd", "3rd", "4th"] as const;
+
+// The kiosk clears the last worker after this long
+const KIOSK_RESET_MS = 6000;
+
+type CredentialMode = "badge" | "pin";
+
+type Identified = {
+  worker: { id: string; name: string };
+  state: ClockState;
+  allowed: PunchKind[];
+  openShift: { building: string; shift: string; date: string; clockInAt: string } | null;
+};
+
+type AttendanceResponse = {
+  scheduledStartTime: string | null;
+  headcount: number;
+  rows: AttendanceRow[];
+};
+
+const STATE_LABELS: Record<ClockState, string> = {
+  out: "Clocked out",
+  in: "Clocked in",
+  on_break: "On break",
+};
+
+const STATUS_CLASSES: Record<AttendanceStatus, string> = {
+  "On time": "bg-emerald-900/60 text-emerald-200",
+  Late: "bg-amber-900/60 text-amber-200",
+  "No-show": "bg-red-900/60 text-red-200",
+  "Not in yet": "bg-slate-800 text-slate-300",
+  Unscheduled: "bg-sky-900/60 text-sky-200",
+};
+
+function timeLabel(iso: string | null): string {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit", timeZone: NY_TZ });
+}
+
+export default function TimeClockPage() {
+  const currentUser = useCurrentUser();
+  const canUseKiosk = !!currentUser && hasPermission(currentUser.accessRole, "timeclock.punch");
+  const scoped = !!currentUser && isBuildingScoped(currentUser.accessRole);
+
+  const [building, setBuilding] = useState<string>(BUILDINGS[0]);
+  const [shift, setShift] = useState<string>(SHIFTS[0]);
+  const [date, setDate] = useState(() => nyISODate());
+
+  const [mode, setMode] = useState<CredentialMode>("badge");
+  const [credential, setCredential] = useState("");
+  const [identified, setIdentified] = useState<Identified | null>(null);
+  const [attendance, setAttendance] = useState<AttendanceResponse | null>(null);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const resetTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Leads / Building Managers run the kiosk for their own building only
+  const effectiveBuilding = scoped && currentUser?.building ? currentUser.building : building;
+
+  const loadAttendance = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ building: effectiveBuilding, shift, date });
+      const res = await apiFetch(`/api/time-clock/attendance?${params}`);
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load attendance."));
+        return;
+      }
+      setAttendance((await res.json()) as AttendanceResponse);
+    } catch (e) {
+      console.error("Unexpected error loading attendance", e);
+      setError("Unexpected error loading attendance.");
+    }
+  }, [effectiveBuilding, shift, date]);
+
+  useEffect(() => {
+    if (!canUseKiosk) return;
+    setLoading(true);
+    setError(null);
+    void loadAttendance().finally(() => setLoading(false));
+  }, [canUseKiosk, loadAttendance]);
+
+  useEffect(() => () => {
+    if (resetTimer.current) clearTimeout(resetTimer.current);
+  }, []);
+
+  function clearKiosk() {
+    if (resetTimer.current) clearTimeout(resetTimer.current);
+    resetTimer.current = null;
+    setCredential("");
+    setIdentified(null);
+  }
+
+  function credentialBody() {
+    return mode === "badge" ? { badge: credential.trim() } : { pin: credential.trim() };
+  }
+
+  async function handleIdentify(e?: FormEvent) {
+    e?.preventDefault();
+    if (saving || !credential.trim()) return;
+
+    if (resetTimer.current) clearTimeout(resetTimer.current);
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch("/api/time-clock/identify", {
+        method: "POST",
+        body: JSON.stringify({ building: effectiveBuilding, ...credentialBody() }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Badge / PIN not recognized."));
+        setCredential("");
+        return;
+      }
+      setIdentified((await res.json()) as Identified);
+    } catch (e) {
+      console.error("Unexpected error identifying worker", e);
+      setError("Unexpected error looking up badge / PIN.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePunch(kind: PunchKind) {
+    if (saving || !identified) return;
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch("/api/time-clock/punches", {
+        method: "POST",
+        body: JSON.stringify({ building: effectiveBuilding, shift, date, kind, ...credentialBody() }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to record punch."));
+        clearKiosk();
+        return;
+      }
+      const body = (await res.json()) as { message: string };
+      setInfo(`${body.message} at ${timeLabel(new Date().toISOString())}.`);
+      clearKiosk();
+      resetTimer.current = setTimeout(() => setInfo(null), KIOSK_RESET_MS);
+      await loadAttendance();
+    } catch (e) {
+      console.error("Unexpected error recording punch", e);
+      setError("Unexpected error recording punch.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function pressKey(key: string) {
+    if (key === "clear") setCredential("");
+    else if (key === "back") setCredential((c) => c.slice(0, -1));
+    else setCredential((c) => c + key);
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canUseKiosk) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        The time clock runs on a Lead or manager account.
+      </div>
+    );
+  }
+
+  const summary = attendance ? lateOrNoShowSummary(attendance.rows) : "";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-6xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Time Clock</h1>
+            <p className="text-sm text-slate-400">
+              Scan a badge or enter a PIN to clock in, take a break or clock out. Attendance is checked against the
+              shift&apos;s scheduled start from its readiness report.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading attendance…</p>}
+          </div>
+          <Link
+            href="/"
+            className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {/* Building / shift / date */}
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <select
+            value={effectiveBuilding}
+            onChange={(e) => setBuilding(e.target.value)}
+            disabled={scoped}
+            className="rounded-lg bg-slate-950 border border-slate-700 px-3 py-1 text-slate-100"
+          >
+            {BUILDINGS.map((b) => (
+              <option key={b} value={b}>
+                {b}
+              </option>
+            ))}
+          </select>
+          <select
+            value={shift}
+            onChange={(e) => setShift(e.target.value)}
+            className="rounded-lg bg-slate-950 border border-slate-700 px-3 py-1 text-slate-100"
+          >
+            {SHIFTS.map((s) => (
+              <option key={s} value={s}>
+                {s} shift
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value || nyISODate())}
+            className="rounded-lg bg-slate-950 border border-slate-700 px-3 py-1 text-slate-100"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)] gap-6">
+          {/* Kiosk */}
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
+            {error && (
+              <div className="text-sm text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+            )}
+            {info && (
+              <div className="text-sm text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+                {info}
+              </div>
+            )}
+
+            {identified ? (
+              <div className="space-y-4">
+                <div>
+                  <div className="text-2xl font-semibold text-slate-50">{identified.worker.name}</div>
+                  <div className="text-sm text-slate-400">
+                    {STATE_LABELS[identified.state]}
+                    {identified.openShift &&
+                      ` since ${timeLabel(identified.openShift.clockInAt)} (${identified.openShift.building} · ${identified.openShift.shift} shift)`}
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 gap-3">
+                  {identified.allowed.map((kind) => (
+                    <button
+                      key={kind}
+                      type="button"
+                      onClick={() => void handlePunch(kind)}
+                      disabled={saving}
+                      className={`rounded-xl px-4 py-4 text-lg font-semibold text-white disabled:opacity-60 ${
+                        kind === "clock_out" ? "bg-rose-700 hover:bg-rose-600" : "bg-sky-600 hover:bg-sky-500"
+                      }`}
+                    >
+                      {PUNCH_KIND_LABELS[kind]}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={clearKiosk}
+                  className="w-full rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-300 hover:bg-slate-800"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleIdentify} className="space-y-4">
+                <div className="flex gap-2 text-sm">
+                  {(["badge", "pin"] as const).map((m) => (
+                    <button
+                      key={m}
+                      type="button"
+                      onClick={() => {
+                        setMode(m);
+                        setCredential("");
+                      }}
+                      className={`flex-1 rounded-lg px-3 py-2 border ${
+                        mode === m
+                          ? "border-sky-500 bg-sky-950/60 text-sky-100"
+                          : "border-slate-700 text-slate-300 hover:bg-slate-800"
+                      }`}
+                    >
+                      {m === "badge" ? "Badge" : "PIN"}
+                    </button>
+                  ))}
+                </div>
+
+                <input
+                  autoFocus
+                  type={mode === "pin" ? "password" : "text"}
+                  inputMode={mode === "pin" ? "numeric" : "text"}
+                  autoComplete="off"
+                  value={credential}
+                  onChange={(e) => setCredential(mode === "pin" ? e.target.value.replace(/\D/g, "") : e.target.value)}
+                  placeholder={mode === "pin" ? "Enter PIN" : "Scan or type badge #"}
+                  className="w-full rounded-xl bg-slate-950 border border-slate-700 px-4 py-3 text-2xl text-center tracking-widest text-slate-50"
+                />
+
+                {mode === "pin" && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {["1", "2", "3", "4", "5", "6", "7", "8", "9", "clear", "0", "back"].map((key) => (
+                      <button
+                        key={key}
+                        type="button"
+                        onClick={() => pressKey(key)}
+                        className="rounded-xl border border-slate-700 bg-slate-950 py-3 text-xl text-slate-100 hover:bg-slate-800"
+                      >
+                        {key === "clear" ? "C" : key === "back" ? "⌫" : key}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={saving || !credential.trim()}
+                  className="w-full rounded-xl bg-sky-600 hover:bg-sky-500 disabled:opacity-60 px-4 py-3 text-lg font-semibold text-white"
+                >
+                  {saving ? "Checking…" : "Continue"}
+                </button>
+              </form>
+            )}
+          </div>
+
+          {/* Attendance */}
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-sm font-semibold text-slate-100">
+                Attendance · {effectiveBuilding} · {shift} shift · {date}
+              </h2>
+              <div className="text-[11px] text-slate-400">
+                Scheduled start:{" "}
+                <span className="text-slate-200">{attendance?.scheduledStartTime ?? "not set"}</span> • Clocked in:{" "}
+                <span className="text-slate-200">{attendance?.headcount ?? 0}</span>
+              </div>
+            </div>
+            {attendance && !attendance.scheduledStartTime && (
+              <p className="text-[11px] text-amber-200">
+                Set the scheduled start on this shift&apos;s readiness report to flag late arrivals and no-shows.
+              </p>
+            )}
+
+            {!attendance || attendance.rows.length === 0 ? (
+              <p className="text-[11px] text-slate-500">Nobody is scheduled or clocked in for this shift yet.</p>
+            ) : (
+              <table className="w-full text-[11px]">
+                <thead className="text-slate-400">
+                  <tr className="border-b border-slate-800">
+                    <th className="text-left py-1">Worker</th>
+                    <th className="text-left py-1">Role</th>
+                    <th className="text-left py-1">Status</th>
+                    <th className="text-left py-1">In</th>
+                    <th className="text-left py-1">Out</th>
+                    <th className="text-left py-1">Now</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {attendance.rows.map((r) => (
+                    <tr key={r.workforceId} className="border-b border-slate-800/60">
+                      <td className="py-1 text-slate-100">{r.name}</td>
+                      <td className="py-1 text-slate-300">{r.role ?? "—"}</td>
+                      <td className="py-1">
+                        <span className={`rounded-full px-2 py-0.5 ${STATUS_CLASSES[r.status]}`}>
+                          {r.status}
+                          {r.status === "Late" && ` · ${r.minutesLate} min`}
+                        </span>
+                      </td>
+                      <td className="py-1 text-slate-300">{timeLabel(r.clockInAt)}</td>
+                      <td className="py-1 text-slate-300">{timeLabel(r.clockOutAt)}</td>
+                      <td className="py-1 text-slate-400">{STATE_LABELS[r.state]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {summary && (
+              <div className="rounded-lg border border-amber-800/60 bg-amber-950/20 px-3 py-2 text-[11px] text-amber-100 whitespace-pre-line">
+                {summary}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
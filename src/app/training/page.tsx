@@ -5,6 +5,7 @@ import { useEffect, useMemo, useState, FormEvent } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings";
+import { reportNotificationEvent } from "@/lib/notificationsClient";
 
 const ROLES = [
   "Lumper",
@@ -176,6 +177,8 @@ export default function TrainingPage() {
     }
 
     const effectiveBuilding = isLead && leadBuilding ? leadBuilding : building;
+    // Notify only when a save moves a record into Overdue
+    const editingStatus = records.find((r) => r.id === editingId)?.status;
 
     try {
       if (editingId) {
@@ -204,23 +207,30 @@ export default function TrainingPage() {
           return;
         }
 
+        if (status === "Overdue" && editingStatus !== "Overdue") {
+          void reportNotificationEvent("training.overdue", editingId);
+        }
         setInfo("Training record updated.");
       } else {
         // INSERT
-        const { error } = await supabase.from("training_records").insert({
-          building: effectiveBuilding,
-          role,
-          module_name: moduleName.trim(),
-          required,
-          status,
-          due_date: dueDate || null,
-          completed_at:
-            status === "Completed"
-              ? new Date().toISOString()
-              : null,
-          assignee_name: assigneeName.trim() || null,
-          notes: notes.trim() || null,
-        });
+        const { data, error } = await supabase
+          .from("training_records")
+          .insert({
+            building: effectiveBuilding,
+            role,
+            module_name: moduleName.trim(),
+            required,
+            status,
+            due_date: dueDate || null,
+            completed_at:
+              status === "Completed"
+                ? new Date().toISOString()
+                : null,
+            assignee_name: assigneeName.trim() || null,
+            notes: notes.trim() || null,
+          })
+          .select("id")
+          .single();
 
         if (error) {
           console.error("Error inserting training record", error);
@@ -228,6 +238,10 @@ export default function TrainingPage() {
           return;
         }
 
+        if (status === "Overdue" && data) {
+          void reportNotificationEvent("training.overdue", String(data.id));
+        }
+
         setInfo("Training record created.");
       }
 
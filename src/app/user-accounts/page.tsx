@@ -7,19 +7,8 @@ import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings"; // ✅ shared buildings
-
-const ACCESS_ROLES = [
-  "Worker",
-  "Lead",
-  "Supervisor",
-  "Building Manager",
-  "HR",
-  "HQ",
-  "Admin",
-  "Super Admin",
-] as const;
-
-type AccessRole = (typeof ACCESS_ROLES)[number];
+import { ACCESS_ROLES, type AccessRole } from "@/lib/roles";
+import { apiFetch } from "@/lib/apiClient";
 
 type UserAccountRow = {
   id: string;
@@ -263,7 +252,7 @@ export default function UserAccountsPage() {
     setAuthActionLoading(u.id + "-auth");
 
     try {
-      const res = await fetch("/api/auth-users", {
+      const res = await apiFetch("/api/auth-users", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -309,7 +298,7 @@ export default function UserAccountsPage() {
     setAuthActionLoading(u.id + "-reset");
 
     try {
-      const res = await fetch("/api/password-reset", {
+      const res = await apiFetch("/api/password-reset", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ email: u.email }),
@@ -5,78 +5,15 @@ import Link from "next/link";
 import { useParams } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
-
-type WorkOrderRow = {
-  id: string;
-  created_at: string;
-  building: string;
-  shift_name: string | null;
-  work_order_code: string | null;
-  status: string;
-  notes: string | null;
-
-  created_by_user_id?: string | null;
-  created_by_email?: string | null;
-};
-
-type WorkOrderRecord = {
-  id: string;
-  name: string;
-  building: string;
-  shift: string;
-  status: string;
-  createdAt: string;
-  notes?: string;
-
-  createdByUserId?: string | null;
-  createdByEmail?: string | null;
-};
-
-type WorkerContribution = {
-  name: string;
-  minutesWorked: number;
-  percentContribution: number;
-  payout: number;
-};
-
-type ContainerRow = {
-  id: string;
-  created_at: string;
-  building: string;
-  shift: string | null;
-  work_date: string | null;
-  container_no: string;
-  pieces_total: number;
-  skus_total: number;
-  pay_total: number;
-  workers: WorkerContribution[];
-  damage_pieces: number;
-  rework_pieces: number;
-  work_order_id: string | null;
-  palletized?: boolean | null;
-
-  created_by_user_id?: string | null;
-  created_by_email?: string | null;
-};
-
-function mapRowToRecord(row: WorkOrderRow): WorkOrderRecord {
-  const id = String(row.id);
-  const createdAt = row.created_at ?? new Date().toISOString();
-  const name = row.work_order_code ?? `${row.status ?? "Pending"} Work Order ${id.slice(-4)}`;
-
-  return {
-    id,
-    name,
-    building: row.building ?? "DC1",
-    shift: row.shift_name ?? "1st",
-    status: row.status ?? "Pending",
-    createdAt,
-    notes: row.notes ?? "",
-
-    createdByUserId: row.created_by_user_id ?? null,
-    createdByEmail: row.created_by_email ?? null,
-  };
-}
+import {
+  CONTAINERS_TABLE,
+  fetchCustomer,
+  fetchWorkOrder,
+  mapContainerRow,
+  type ContainerRow,
+  type WorkOrderRecord,
+} from "@/lib/domain";
+import { RecordHistory } from "@/app/record-history";
 
 function displayValue(v: unknown): string {
   if (v === null || v === undefined) return "—";
@@ -118,10 +55,12 @@ export default function WorkOrderDetailPage() {
   }, [currentUser]);
 
   const [workOrder, setWorkOrder] = useState<WorkOrderRecord | null>(null);
+  const [customerName, setCustomerName] = useState<string | null>(null);
   const [containers, setContainers] = useState<ContainerRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingContainers, setLoadingContainers] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<"details" | "history">("details");
 
   useEffect(() => {
     if (!currentUser || !workOrderId) return;
@@ -135,7 +74,7 @@ export default function WorkOrderDetailPage() {
 
       try {
         // 1) Load the work order row
-        const woRes = await supabase.from("work_orders").select("*").eq("id", workOrderId).maybeSingle();
+        const woRes = await fetchWorkOrder(supabase, workOrderId);
 
         if (woRes.error) {
           console.error("Error loading work order detail:", woRes.error);
@@ -148,7 +87,7 @@ export default function WorkOrderDetailPage() {
           return;
         }
 
-        const woRecord = mapRowToRecord(woRes.data as WorkOrderRow);
+        const woRecord = woRes.data;
 
         // 🔒 Authorization guard
         if (isLead || isBuildingManager) {
@@ -168,11 +107,17 @@ export default function WorkOrderDetailPage() {
 
         if (!cancelled) setWorkOrder(woRecord);
 
+        if (woRecord.customerId) {
+          const customerRes = await fetchCustomer(supabase, woRecord.customerId);
+          if (customerRes.error) console.warn("Error loading work order customer:", customerRes.error);
+          if (!cancelled) setCustomerName(customerRes.data?.name ?? null);
+        }
+
         // 2) Load containers from Supabase (NOT localStorage)
         setLoadingContainers(true);
 
         let cq = supabase
-          .from("containers")
+          .from(CONTAINERS_TABLE)
           .select("*")
           .eq("work_order_id", workOrderId)
           .order("created_at", { ascending: false });
@@ -197,7 +142,7 @@ export default function WorkOrderDetailPage() {
           return;
         }
 
-        const rows = ((cRes.data as unknown) as ContainerRow[]) ?? [];
+        const rows = ((cRes.data ?? []) as unknown[]).map(mapContainerRow);
         if (!cancelled) setContainers(rows);
       } catch (e) {
         console.error("Unexpected error loading work order detail:", e);
@@ -287,7 +232,15 @@ export default function WorkOrderDetailPage() {
                 {workOrder.status}
               </span>
             </p>
-            <p className="text-xs text-slate-500 mt-1">Created on {dateShort}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Created on {dateShort}
+              {customerName && (
+                <>
+                  {" "}
+                  · Customer <span className="text-slate-300">{customerName}</span>
+                </>
+              )}
+            </p>
           </div>
 
           <div className="flex flex-col items-end gap-2 text-xs">
@@ -301,8 +254,37 @@ export default function WorkOrderDetailPage() {
           </div>
         </div>
 
+        {/* Tabs */}
+        <div className="flex gap-2 text-xs">
+          {(["details", "history"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={
+                "px-3 py-1 rounded-full border " +
+                (tab === t
+                  ? "border-sky-600 bg-sky-900/50 text-sky-100"
+                  : "border-slate-700 bg-slate-900 text-slate-300 hover:bg-slate-800")
+              }
+            >
+              {t === "details" ? "Details" : "History"}
+            </button>
+          ))}
+        </div>
+
+        {tab === "history" && (
+          <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+            <div>
+              <div className="text-slate-200 text-sm font-semibold">Change History</div>
+              <div className="text-[11px] text-slate-500">Every change to this work order, newest first.</div>
+            </div>
+            <RecordHistory table="work_orders" recordId={workOrder.id} />
+          </div>
+        )}
+
         {/* Notes card */}
-        {workOrder.notes && (
+        {tab === "details" && workOrder.notes && (
           <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs">
             <div className="text-[11px] text-slate-400 mb-1">Work Order Notes</div>
             <div className="text-slate-200 whitespace-pre-wrap">{workOrder.notes}</div>
@@ -310,44 +292,49 @@ export default function WorkOrderDetailPage() {
         )}
 
         {/* Containers section */}
-        <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
-          <div className="flex items-center justify-between mb-1">
-            <div>
-              <div className="text-slate-200 text-sm font-semibold">Containers for this Work Order</div>
-              <div className="text-[11px] text-slate-500">Loaded from the database.</div>
-            </div>
-            <div className="text-[11px] text-slate-400">
-              Total: <span className="font-semibold text-slate-100">{loadingContainers ? "…" : containers.length}</span>
+        {tab === "details" && (
+          <div className="rounded-2xl bg-slate-900 border border-slate-800 p-4 text-xs space-y-3">
+            <div className="flex items-center justify-between mb-1">
+              <div>
+                <div className="text-slate-200 text-sm font-semibold">Containers for this Work Order</div>
+                <div className="text-[11px] text-slate-500">Loaded from the database.</div>
+              </div>
+              <div className="text-[11px] text-slate-400">
+                Total: <span className="font-semibold text-slate-100">{loadingContainers ? "…" : containers.length}</span>
+              </div>
             </div>
-          </div>
-
-          {loadingContainers ? (
-            <p className="text-[11px] text-slate-400">Loading containers…</p>
-          ) : containers.length === 0 ? (
-            <p className="text-[11px] text-slate-400">No containers are linked to this work order yet.</p>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {containers.map((c) => {
-                const entries = Object.entries(c).filter(([key]) => key !== "id");
-
-                return (
-                  <div key={c.id} className="rounded-lg border border-slate-800 bg-slate-950 p-3 space-y-1">
-                    <div className="text-[10px] text-slate-500 mb-1">
-                      Container ID: <span className="font-mono text-slate-200">{c.id}</span>
-                    </div>
 
-                    {entries.slice(0, 12).map(([key, value]) => (
-                      <div key={key} className="flex justify-between gap-2">
-                        <span className="text-[10px] text-slate-400">{key}</span>
-                        <span className="text-[10px] text-slate-200 max-w-[12rem] truncate text-right">{displayValue(value)}</span>
+            {loadingContainers ? (
+              <p className="text-[11px] text-slate-400">Loading containers…</p>
+            ) : containers.length === 0 ? (
+              <p className="text-[11px] text-slate-400">No containers are linked to this work order yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {containers.map((c) => {
+                  const entries = Object.entries(c).filter(([key]) => key !== "id");
+
+                  return (
+                    <div key={c.id} className="rounded-lg border border-slate-800 bg-slate-950 p-3 space-y-1">
+                      <div className="text-[10px] text-slate-500 mb-1">
+                        Container ID:{" "}
+                        <Link href={`/containers/${c.id}`} className="font-mono text-sky-300 hover:underline">
+                          {c.id}
+                        </Link>
                       </div>
-                    ))}
-                  </div>
-                );
-              })}
-            </div>
-          )}
-        </div>
+
+                      {entries.slice(0, 12).map(([key, value]) => (
+                        <div key={key} className="flex justify-between gap-2">
+                          <span className="text-[10px] text-slate-400">{key}</span>
+                          <span className="text-[10px] text-slate-200 max-w-[12rem] truncate text-right">{displayValue(value)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -3,11 +3,54 @@
 import Link from "next/link";
 import React, { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { saveOrQueue } from "@/lib/offlineQueue";
 import { useCurrentUser } from "@/lib/useCurrentUser";
+import { useRealtimeTable } from "@/lib/useRealtimeTable";
+import { applyRealtimeChange } from "@/lib/realtime";
+import { WorkerPicker } from "@/app/worker-picker";
 import { BUILDINGS } from "@/lib/buildings";
-
-const WORK_ORDERS_KEY = "precisionpulse_work_orders";
-const CONTAINERS_KEY = "precisionpulse_containers";
+import {
+  applyWorkerPayouts,
+  calculateContainerPay,
+  describePalletized,
+  loadPayScales,
+  resolvePayScale,
+  type PayScaleSchedule,
+} from "@/lib/payScale";
+import { nyISODate, safeNYISODate, toNYDateOnly } from "@/lib/time";
+import {
+  approxEqual,
+  blankWorker,
+  CONTAINERS_TABLE,
+  containerDateNY,
+  customersForBuilding,
+  fetchContainers,
+  fetchCustomers,
+  fetchWorkOrders,
+  fetchWorkforce,
+  mapContainerRow,
+  mapWorkOrderRow,
+  WORK_ORDERS_TABLE,
+  workforceForBuilding,
+  writeLocalContainers,
+  writeLocalWorkOrders,
+  WORK_ORDER_STATUSES,
+  type ContainerRow,
+  type Customer,
+  type WorkerContribution,
+  type WorkforceWorker,
+  type WorkOrderRecord,
+  type WorkOrderRow,
+  type WorkOrderStatus,
+} from "@/lib/domain";
+import {
+  fetchPayrollPeriods,
+  lockedPeriodMessage,
+  lockingPeriodFor,
+  LOCKED_PAYROLL_STATUSES,
+  type PayrollPeriod,
+} from "@/lib/payroll";
 
 const SHIFTS = ["1st", "2nd", "2nd", "3rd", "4th"] as const;
 // NOTE: you had the shifts correct before; keeping as 1st/2nd/3rd/4th.
@@ -17,65 +60,9 @@ const SHIFT_SET = ["1st", "2nd", "3rd", "4th"] as const;
 
 type ShiftName = (typeof SHIFT_SET)[number];
 
-const STATUS_OPTIONS = ["Pending", "Active", "Completed", "Locked"] as const;
-type WorkOrderStatus = (typeof STATUS_OPTIONS)[number];
-
-/** ---------------- Types (Work Orders) ---------------- */
-type WorkOrderRecord = {
-  id: string;
-  name: string;
-  building: string;
-  shift: string;
-  status: string;
-  createdAt: string;
-  notes?: string;
-
-  createdByUserId?: string | null;
-  createdByEmail?: string | null;
-};
-
-type WorkOrderRow = {
-  id: string;
-  created_at: string;
-  building: string;
-  shift_name: string | null;
-  work_order_code: string | null;
-  status: string;
-  notes: string | null;
-
-  created_by_user_id?: string | null;
-  created_by_email?: string | null;
-};
-
-/** ---------------- Types (Containers) ---------------- */
-type WorkerContribution = {
-  name: string;
-  minutesWorked: number;
-  percentContribution: number; // supports decimals
-  payout: number;
-};
-
-type ContainerRow = {
-  id: string;
-  created_at: string;
-  building: string;
-  shift: string | null;
-  work_date: string | null; // YYYY-MM-DD
-  container_no: string;
-  pieces_total: number;
-  skus_total: number;
-  pay_total: number;
-  workers: WorkerContribution[];
-  damage_pieces: number;
-  rework_pieces: number;
-  work_order_id: string | null;
-
-  palletized?: boolean | null;
-
-  created_by_user_id?: string | null;
-  created_by_email?: string | null;
-};
+const STATUS_OPTIONS = WORK_ORDER_STATUSES;
 
+/** ---------------- Types (Forms) ---------------- */
 type EditContainerFormState = {
   id?: string;
   building: string;
@@ -96,14 +83,6 @@ type WorkOrderOption = {
   status: string;
 };
 
-/** ✅ Workforce schema (matches your table columns exactly) */
-type WorkforceWorker = {
-  id: string;
-  name: string;
-  building: string | null;
-  status: string | null; // "Active", "Inactive", etc.
-};
-
 type UserIdent = {
   id: string;
   email: string;
@@ -113,76 +92,12 @@ type UserIdent = {
 };
 
 /** ---------------- Helpers (NY TIME) ---------------- */
-const NY_TZ = "America/New_York";
-
-/** Returns YYYY-MM-DD in New York time (NOT UTC) */
-function nyISODate(d: Date = new Date()): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: NY_TZ,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(d);
-}
-
-/** Safe YYYY-MM-DD; if invalid, returns today's NY date */
-function safeNYISODate(value: string): string {
-  const s = String(value || "").slice(0, 10);
-  return /^\d{4}-\d{2}-\d{2}$/.test(s) ? s : nyISODate();
-}
-
-/** Convert an ISO-like timestamp (e.g., created_at) to a NY YYYY-MM-DD */
-function nyDateFromISO(isoLike: string): string {
-  const dt = new Date(isoLike);
-  if (Number.isNaN(dt.getTime())) return nyISODate();
-  return nyISODate(dt);
-}
-
-function blankWorker(): WorkerContribution {
-  return { name: "", minutesWorked: 0, percentContribution: 0, payout: 0 };
-}
-
-function approxEqual(a: number, b: number, tolerance = 0.01): boolean {
-  return Math.abs(a - b) <= tolerance;
-}
 
 function generateWorkOrderName(building: string, shift: string, dateISO: string) {
   // Format: DC18 • 1st • 2026-01-31 • Work Order (NY date)
   return `${building} • ${shift} • ${safeNYISODate(dateISO)} • Work Order`;
 }
 
-function mapRowToRecord(row: WorkOrderRow): WorkOrderRecord {
-  const id = String(row.id);
-  const createdAt = row.created_at ?? new Date().toISOString();
-  const name = row.work_order_code ?? `Work Order ${id.slice(-4)}`;
-
-  return {
-    id,
-    name,
-    building: row.building ?? "DC1",
-    shift: row.shift_name ?? "1st",
-    status: row.status ?? "Pending",
-    createdAt,
-    notes: row.notes ?? "",
-
-    createdByUserId: row.created_by_user_id ?? null,
-    createdByEmail: row.created_by_email ?? null,
-  };
-}
-
-function calculateContainerPay(pieces: number, palletized: boolean): number {
-  if (palletized) return 100;
-
-  if (pieces <= 0) return 0;
-  if (pieces <= 500) return 100;
-  if (pieces <= 1500) return 130;
-  if (pieces <= 3500) return 180;
-  if (pieces <= 5500) return 230;
-  if (pieces <= 7500) return 280;
-  const extra = pieces - 7500;
-  return 280 + extra * 0.05;
-}
-
 /** ---- Supabase error helpers ---- */
 function extractSupabaseError(err: unknown): Record<string, unknown> {
   const extracted: Record<string, unknown> = { type: typeof err, string: String(err) };
@@ -222,37 +137,6 @@ function isMissingOwnershipColumnError(err: unknown): boolean {
   return msg.includes("does not exist") && (msg.includes("created_by_user_id") || msg.includes("created_by_email"));
 }
 
-/** ✅ Workforce mapper for YOUR schema */
-function mapWorkforceRow(row: Record<string, unknown>): WorkforceWorker {
-  const id =
-    (typeof row.id === "string" ? row.id : null) ??
-    (typeof row.id === "number" ? String(row.id) : null) ??
-    (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : String(Date.now()));
-
-  const name =
-    (typeof row.name === "string" ? row.name : null) ??
-    (typeof row.full_name === "string" ? row.full_name : null) ??
-    (typeof row.worker_name === "string" ? row.worker_name : null) ??
-    "Unknown";
-
-  const building =
-    (typeof row.building === "string" ? row.building : null) ??
-    (typeof row.dc === "string" ? row.dc : null) ??
-    null;
-
-  const status =
-    (typeof row.status === "string" ? row.status : null) ??
-    (typeof row.employment_status === "string" ? row.employment_status : null) ??
-    null;
-
-  return {
-    id: String(id),
-    name: String(name).trim(),
-    building,
-    status,
-  };
-}
-
 export default function WorkOrdersPage() {
   const currentUser = useCurrentUser();
 
@@ -343,6 +227,7 @@ export default function WorkOrdersPage() {
   const [shift, setShift] = useState<ShiftName>("1st");
   const [status, setStatus] = useState<WorkOrderStatus>("Pending");
   const [notes, setNotes] = useState("");
+  const [customerId, setCustomerId] = useState("");
 
   const generatedName = useMemo(() => {
     const b = (isScopedToOneBuilding ? scopedBuilding : building) || "DC18";
@@ -351,6 +236,7 @@ export default function WorkOrdersPage() {
 
   const [filterBuilding, setFilterBuilding] = useState<string>("ALL");
   const [filterStatus, setFilterStatus] = useState<string>("ALL");
+  const [filterCustomer, setFilterCustomer] = useState<string>("ALL");
 
   const [loadingWorkOrders, setLoadingWorkOrders] = useState(true);
   const [savingWorkOrders, setSavingWorkOrders] = useState(false);
@@ -370,6 +256,9 @@ export default function WorkOrdersPage() {
   const [workOrderOptions, setWorkOrderOptions] = useState<WorkOrderOption[]>([]);
   const [workforce, setWorkforce] = useState<WorkforceWorker[]>([]);
   const [workforceLoading, setWorkforceLoading] = useState(false);
+  const [payScales, setPayScales] = useState<PayScaleSchedule[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [lockedPeriods, setLockedPeriods] = useState<PayrollPeriod[]>([]);
 
   const [error, setError] = useState<string | null>(null);
 
@@ -389,29 +278,13 @@ export default function WorkOrdersPage() {
   const persistWorkOrders = useCallback((next: WorkOrderRecord[]) => {
     setWorkOrders(next);
     if (typeof window !== "undefined") {
-      window.localStorage.setItem(WORK_ORDERS_KEY, JSON.stringify(next));
+      writeLocalWorkOrders(next);
     }
   }, []);
 
   const persistContainersLocal = useCallback((rows: ContainerRow[]) => {
     try {
-      const mappedForLocal = rows.map((row) => ({
-        id: row.id,
-        building: row.building,
-        shift: row.shift ?? "",
-        date: row.work_date ?? row.created_at,
-        createdAt: row.created_at,
-        containerNo: row.container_no,
-        piecesTotal: row.pieces_total,
-        skusTotal: row.skus_total,
-        containerPayTotal: row.pay_total,
-        workOrderId: row.work_order_id,
-        workers: row.workers || [],
-        palletized: !!row.palletized,
-      }));
-      if (typeof window !== "undefined") {
-        window.localStorage.setItem(CONTAINERS_KEY, JSON.stringify(mappedForLocal));
-      }
+      writeLocalContainers(rows);
     } catch (e) {
       logSupabaseError("Failed to write containers to localStorage", e, "warn");
     }
@@ -445,6 +318,29 @@ export default function WorkOrdersPage() {
     };
   }, [isAuthed]);
 
+  /** ✅ Approved/Paid payroll weeks are read-only (server enforces this too) */
+  useEffect(() => {
+    if (!isAuthed) return;
+    let cancelled = false;
+
+    fetchPayrollPeriods(supabase, { statuses: LOCKED_PAYROLL_STATUSES }).then(({ data, error }) => {
+      if (error) logSupabaseError("Error loading payroll periods", error, "warn");
+      if (!cancelled) setLockedPeriods(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthed]);
+
+  const payrollLockFor = useCallback(
+    (ymd: string | null): string | null => {
+      const period = ymd ? lockingPeriodFor(lockedPeriods, ymd) : null;
+      return period ? lockedPeriodMessage(period) : null;
+    },
+    [lockedPeriods]
+  );
+
   useEffect(() => {
     if (!isAuthed) return;
     let cancelled = false;
@@ -479,29 +375,22 @@ export default function WorkOrdersPage() {
     setError(null);
 
     try {
-      let query = supabase.from("work_orders").select("*").order("created_at", { ascending: false });
-
-      // Building scoped for Leads + Building Managers
-      if (isScopedToOneBuilding) query = query.eq("building", scopedBuilding);
-
       /**
        * ✅ CHANGE:
        * Leads should SEE all work orders for their building + shift (so past entries appear),
        * but they can still only EDIT their own.
        */
-      if (isLead) {
-        query = query.eq("shift_name", scopedShift || shift);
-      }
-
-      const { data, error } = await query;
+      const { data: mapped, error } = await fetchWorkOrders(supabase, {
+        // Building scoped for Leads + Building Managers
+        building: isScopedToOneBuilding ? scopedBuilding : null,
+        shift: isLead ? scopedShift || shift : null,
+      });
       if (error) {
         logSupabaseError("Error loading work orders", error, "error");
         setError("Failed to load work orders from server.");
         return;
       }
 
-      const rows = (data || []) as WorkOrderRow[];
-      const mapped = rows.map(mapRowToRecord);
       persistWorkOrders(mapped);
     } catch (e) {
       logSupabaseError("Unexpected error loading work orders", e, "error");
@@ -517,39 +406,22 @@ export default function WorkOrdersPage() {
     setError(null);
 
     try {
-      let query = supabase.from("containers").select("*").order("created_at", { ascending: false });
-
-      // Building scoped for Leads + Building Managers
-      if (isScopedToOneBuilding) query = query.eq("building", scopedBuilding);
-
       /**
        * ✅ CHANGE:
        * Leads should SEE all containers for their building + shift (so past entries appear),
        * but can only EDIT their own entries.
        */
-      if (isLead) {
-        query = query.eq("shift", scopedShift || shift);
-      }
-
-      const { data, error } = await query;
+      const { data: rows, error } = await fetchContainers(supabase, {
+        // Building scoped for Leads + Building Managers
+        building: isScopedToOneBuilding ? scopedBuilding : null,
+        shift: isLead ? scopedShift || shift : null,
+      });
       if (error) {
         logSupabaseError("Error loading containers", error, "error");
         setError("Failed to load containers from server.");
         return;
       }
 
-      const rows: ContainerRow[] =
-        (data as unknown as ContainerRow[])?.map((row) => ({
-          ...row,
-          workers: (row.workers || []) as WorkerContribution[],
-          work_order_id: row.work_order_id ?? null,
-          shift: (row.shift ?? null) as string | null,
-          work_date: (row.work_date ?? null) as string | null,
-          palletized: (row as unknown as { palletized?: boolean | null }).palletized ?? null,
-          created_by_user_id: (row as unknown as { created_by_user_id?: string | null }).created_by_user_id ?? null,
-          created_by_email: (row as unknown as { created_by_email?: string | null }).created_by_email ?? null,
-        })) ?? [];
-
       setContainers(rows);
       persistContainersLocal(rows);
     } catch (e) {
@@ -566,6 +438,34 @@ export default function WorkOrdersPage() {
     loadContainers();
   }, [isAuthed, refreshWorkOrders, loadContainers]);
 
+  /** ---------------- Live updates (same building / shift scope as the loaders) ---------------- */
+  const liveBuilding = isScopedToOneBuilding ? scopedBuilding : null;
+  const liveShift = isLead ? scopedShift || shift : null;
+
+  useRealtimeTable(WORK_ORDERS_TABLE, { enabled: isAuthed, building: liveBuilding }, (change) =>
+    setWorkOrders((prev) => {
+      const next = applyRealtimeChange(prev, change, {
+        map: (row) => mapWorkOrderRow(row as WorkOrderRow),
+        match: (wo) => !liveShift || wo.shift === liveShift,
+        position: "start",
+      });
+      if (next !== prev) writeLocalWorkOrders(next);
+      return next;
+    })
+  );
+
+  useRealtimeTable(CONTAINERS_TABLE, { enabled: isAuthed, building: liveBuilding }, (change) =>
+    setContainers((prev) => {
+      const next = applyRealtimeChange(prev, change, {
+        map: mapContainerRow,
+        match: (c) => !liveShift || c.shift === liveShift,
+        position: "start",
+      });
+      if (next !== prev) persistContainersLocal(next);
+      return next;
+    })
+  );
+
   // Lock building defaults for scoped users
   useEffect(() => {
     if (!isAuthed) return;
@@ -634,21 +534,17 @@ export default function WorkOrdersPage() {
     async function loadWorkforce() {
       setWorkforceLoading(true);
       try {
-        let q = supabase.from("workforce").select("id,name,building,status").order("created_at", { ascending: false });
-
         // scoped building filter (keeps list relevant)
-        if (isScopedToOneBuilding) q = q.eq("building", scopedBuilding);
-
-        const { data, error } = await q;
+        const { data, error } = await fetchWorkforce(supabase, {
+          building: isScopedToOneBuilding ? scopedBuilding : null,
+        });
         if (error) {
           logSupabaseError("Error loading workforce", error, "warn");
           setWorkforce([]);
           return;
         }
 
-        const mapped: WorkforceWorker[] = ((data as unknown[] | null | undefined) ?? [])
-          .map((r) => mapWorkforceRow(r as Record<string, unknown>))
-          .filter((w) => w.name && w.name !== "Unknown");
+        const mapped = data.filter((w) => w.name && w.name !== "Unknown");
 
         setWorkforce(mapped);
       } catch (e) {
@@ -662,6 +558,45 @@ export default function WorkOrdersPage() {
     loadWorkforce();
   }, [isAuthed, isScopedToOneBuilding, scopedBuilding]);
 
+  /** ✅ Pay schedules (containers are priced by the schedule in effect on work_date) */
+  useEffect(() => {
+    if (!isAuthed) return;
+    let cancelled = false;
+
+    loadPayScales(supabase).then(({ data, error }) => {
+      if (error) logSupabaseError("Error loading pay scales (previewing the default scale)", error, "warn");
+      if (!cancelled) setPayScales(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthed]);
+
+  /** ✅ Customers (work orders link to one; retired customers still label old work orders) */
+  useEffect(() => {
+    if (!isAuthed) return;
+    let cancelled = false;
+
+    fetchCustomers(supabase).then(({ data, error }) => {
+      if (error) logSupabaseError("Error loading customers", error, "warn");
+      if (!cancelled) setCustomers(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthed]);
+
+  const customerNames = useMemo(() => new Map(customers.map((c) => [c.id, c.name])), [customers]);
+
+  const customerOptions = useMemo(() => {
+    const options = customersForBuilding(customers, isScopedToOneBuilding ? scopedBuilding : building);
+    // Keep the current (possibly retired / other-building) customer selectable while editing
+    const current = customers.find((c) => c.id === customerId);
+    return current && !options.includes(current) ? [current, ...options] : options;
+  }, [customers, isScopedToOneBuilding, scopedBuilding, building, customerId]);
+
   /** ---------------- Work Orders actions ---------------- */
   function resetWorkOrderForm() {
     setEditingId(null);
@@ -672,6 +607,7 @@ export default function WorkOrdersPage() {
     setBuilding(isScopedToOneBuilding ? scopedBuilding : BUILDINGS[0] || "DC18");
     setStatus("Pending");
     setNotes("");
+    setCustomerId("");
   }
 
   function handleEditWorkOrder(order: WorkOrderRecord) {
@@ -680,12 +616,19 @@ export default function WorkOrdersPage() {
       return;
     }
 
+    const locked = payrollLockFor(toNYDateOnly(order.createdAt));
+    if (locked) {
+      setError(locked);
+      return;
+    }
+
     setEditingId(order.id);
 
     setBuilding(order.building);
     setShift((order.shift as ShiftName) || "1st");
     setStatus(order.status as WorkOrderStatus);
     setNotes(order.notes ?? "");
+    setCustomerId(order.customerId ?? "");
     setWoDate(nyISODate());
   }
 
@@ -695,6 +638,12 @@ export default function WorkOrdersPage() {
       return;
     }
 
+    const locked = payrollLockFor(toNYDateOnly(order.createdAt));
+    if (locked) {
+      setError(locked);
+      return;
+    }
+
     if (typeof window !== "undefined") {
       const ok = window.confirm("Delete this work order? Any containers linked to it will stay, but will become unassigned.");
       if (!ok) return;
@@ -742,6 +691,7 @@ export default function WorkOrdersPage() {
         work_order_code: computedName,
         status,
         notes: notes.trim() || null,
+        customer_id: customerId || null,
       };
 
       if (editingId) {
@@ -836,13 +786,19 @@ export default function WorkOrdersPage() {
       return;
     }
 
+    const locked = payrollLockFor(containerDateNY(row));
+    if (locked) {
+      setError(locked);
+      return;
+    }
+
     const existingWorkers = (row.workers || []).length > 0 ? row.workers || [] : [blankWorker()];
 
     setContainerForm({
       id: row.id,
       building: row.building,
       shift: ((row.shift as ShiftName) || "1st") as ShiftName,
-      workDate: row.work_date ? safeNYISODate(String(row.work_date)) : nyDateFromISO(row.created_at),
+      workDate: containerDateNY(row),
       containerNo: row.container_no,
       piecesTotal: row.pieces_total,
       skusTotal: row.skus_total,
@@ -850,6 +806,7 @@ export default function WorkOrdersPage() {
       palletized: !!row.palletized,
       workers: existingWorkers.map((w) => ({
         name: w.name ?? "",
+        workforceId: w.workforceId ?? null,
         minutesWorked: Number(w.minutesWorked ?? 0),
         percentContribution: Number(w.percentContribution ?? 0),
         payout: Number(w.payout ?? 0),
@@ -884,18 +841,45 @@ export default function WorkOrdersPage() {
     });
   }
 
-  const { payForForm, workersWithPayout, percentSum } = useMemo(() => {
-    const pieces = containerForm.piecesTotal || 0;
-    const pay = calculateContainerPay(pieces, !!containerForm.palletized);
+  function handleWorkerPick(index: number, pick: Pick<WorkerContribution, "name" | "workforceId">) {
+    setContainerForm((prev) => {
+      const workers = [...prev.workers];
+      workers[index] = { ...workers[index], ...pick };
+      return { ...prev, workers };
+    });
+  }
+
+  const { payForForm, workersWithPayout, percentSum, scheduleForForm } = useMemo(() => {
+    const order = workOrders.find((wo) => wo.id === containerForm.workOrderId);
+    const schedule = resolvePayScale(payScales, {
+      workDate: safeNYISODate(containerForm.workDate),
+      building: isScopedToOneBuilding ? scopedBuilding : containerForm.building,
+      customerId: order?.customerId ?? null,
+    });
 
-    const workers = (containerForm.workers || []).map((w) => {
-      const pct = Number(w.percentContribution || 0);
-      return { ...w, payout: (pay * pct) / 100 };
+    const pay = calculateContainerPay(containerForm.piecesTotal || 0, {
+      palletized: !!containerForm.palletized,
+      skusTotal: containerForm.skusTotal,
+      schedule,
     });
 
+    const workers = applyWorkerPayouts(pay, containerForm.workers || []);
+
     const sumPct = workers.reduce((sum, w) => sum + (Number(w.percentContribution) || 0), 0);
-    return { payForForm: pay, workersWithPayout: workers, percentSum: sumPct };
-  }, [containerForm.piecesTotal, containerForm.workers, containerForm.palletized]);
+    return { payForForm: pay, workersWithPayout: workers, percentSum: sumPct, scheduleForForm: schedule };
+  }, [
+    payScales,
+    workOrders,
+    containerForm.workOrderId,
+    containerForm.workDate,
+    containerForm.building,
+    containerForm.piecesTotal,
+    containerForm.skusTotal,
+    containerForm.workers,
+    containerForm.palletized,
+    isScopedToOneBuilding,
+    scopedBuilding,
+  ]);
 
   const isPercentValid = approxEqual(percentSum, 100, 0.02) || approxEqual(percentSum, 0, 0.0001);
 
@@ -909,7 +893,9 @@ export default function WorkOrdersPage() {
     if (!containerForm.containerNo.trim()) return setError("Container number is required.");
     if (containerForm.piecesTotal <= 0) return setError("Pieces total must be greater than 0.");
 
-    const finalWorkers = workersWithPayout.filter((w) => w.name.trim() && Number(w.percentContribution) > 0);
+    const finalWorkers = workersWithPayout.filter(
+      (w) => (w.workforceId || w.name.trim()) && Number(w.percentContribution) > 0
+    );
 
     if (finalWorkers.length > 0 && !approxEqual(percentSum, 100, 0.02)) {
       setError("Worker contribution percentages must total 100% (decimals allowed).");
@@ -921,64 +907,51 @@ export default function WorkOrdersPage() {
     try {
       const effectiveBuilding = isScopedToOneBuilding ? scopedBuilding : containerForm.building;
 
-      const basePayload: Record<string, unknown> = {
+      // ✅ Server re-prices the container and payouts from these inputs
+      const payload = {
         building: effectiveBuilding,
         shift: containerForm.shift,
-        work_date: safeNYISODate(containerForm.workDate),
-        container_no: containerForm.containerNo.trim(),
-        pieces_total: containerForm.piecesTotal,
-        skus_total: containerForm.skusTotal,
-        pay_total: payForForm,
-        damage_pieces: 0,
-        rework_pieces: 0,
-        workers: finalWorkers,
-        work_order_id: containerForm.workOrderId || null,
+        workDate: safeNYISODate(containerForm.workDate),
+        containerNo: containerForm.containerNo.trim(),
+        piecesTotal: containerForm.piecesTotal,
+        skusTotal: containerForm.skusTotal,
+        workOrderId: containerForm.workOrderId || null,
         palletized: !!containerForm.palletized,
+        workers: finalWorkers.map((w) => ({
+          name: w.name,
+          workforceId: w.workforceId,
+          minutesWorked: w.minutesWorked,
+          percentContribution: w.percentContribution,
+        })),
       };
 
-      if (containerForm.id) {
-        const existing = containers.find((c) => c.id === containerForm.id);
-        if (!existing || !canEditContainer(existing)) {
-          setError(isLead ? "Leads can only edit their own container entries." : "Not allowed.");
-          return;
-        }
-
-        const { error } = await supabase.from("containers").update(basePayload).eq("id", containerForm.id);
-        if (error) {
-          logSupabaseError("Error updating container", error, "error");
-          setError("Failed to update container.");
-          return;
-        }
-      } else {
-        const payloadWithOwnership: Record<string, unknown> =
-          cOwnershipColsSupported
-            ? {
-                ...basePayload,
-                created_by_user_id: userIdent.id,
-                created_by_email: userIdent.email,
-              }
-            : { ...basePayload };
-
-        const first = await supabase.from("containers").insert(payloadWithOwnership).select("id").single();
-
-        if (first.error && cOwnershipColsSupported && isMissingOwnershipColumnError(first.error)) {
-          logSupabaseError("Container insert failed (ownership cols missing) — retrying without ownership", first.error, "warn");
-          setCOwnershipColsSupported(false);
+      const existing = containerForm.id ? containers.find((c) => c.id === containerForm.id) : null;
+      if (containerForm.id && (!existing || !canEditContainer(existing))) {
+        setError(isLead ? "Leads can only edit their own container entries." : "Not allowed.");
+        return;
+      }
 
-          const second = await supabase.from("containers").insert(basePayload).select("id").single();
-          if (second.error) {
-            logSupabaseError("Error creating container", second.error, "error");
-            setError("Failed to create container.");
-            return;
-          }
-        } else if (first.error) {
-          logSupabaseError("Error creating container", first.error, "error");
-          setError("Failed to create container.");
-          return;
-        }
+      // ✅ Queued on this device when the dock has no signal; the sync badge tracks it
+      const saved = await saveOrQueue({
+        kind: "container",
+        label: `Container ${payload.containerNo}`,
+        method: containerForm.id ? "PATCH" : "POST",
+        url: containerForm.id ? `/api/containers/${containerForm.id}` : "/api/containers",
+        body: payload,
+        baseUpdatedAt: existing?.updated_at ?? null,
+      });
+
+      if (!saved.queued && !saved.res.ok) {
+        const message = await apiErrorMessage(
+          saved.res,
+          containerForm.id ? "Failed to update container." : "Failed to create container."
+        );
+        logSupabaseError(containerForm.id ? "Error updating container" : "Error creating container", message, "error");
+        setError(message);
+        return;
       }
 
-      await loadContainers();
+      if (!saved.queued) await loadContainers();
       setShowContainerForm(false);
       resetContainerForm();
     } catch (e) {
@@ -998,16 +971,23 @@ export default function WorkOrdersPage() {
     const row = containers.find((c) => c.id === id);
     if (!row) return;
 
+    const locked = payrollLockFor(containerDateNY(row));
+    if (locked) {
+      setError(locked);
+      return;
+    }
+
     if (!confirm("Delete this container? This cannot be undone.")) return;
 
     setSavingContainer(true);
     setError(null);
 
     try {
-      const { error } = await supabase.from("containers").delete().eq("id", id);
-      if (error) {
-        logSupabaseError("Failed to delete container", error, "error");
-        setError("Failed to delete container.");
+      const res = await apiFetch(`/api/containers/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const message = await apiErrorMessage(res, "Failed to delete container.");
+        logSupabaseError("Failed to delete container", message, "error");
+        setError(message);
         return;
       }
       await loadContainers();
@@ -1034,11 +1014,22 @@ export default function WorkOrdersPage() {
         // HQ / Super Admin filter
         if (!isScopedToOneBuilding && filterBuilding !== "ALL" && wo.building !== filterBuilding) return false;
         if (filterStatus !== "ALL" && wo.status !== filterStatus) return false;
+        if (filterCustomer !== "ALL" && (wo.customerId ?? "") !== filterCustomer) return false;
 
         return true;
       })
       .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
-  }, [workOrders, filterBuilding, filterStatus, isScopedToOneBuilding, scopedBuilding, isLead, scopedShift, shift]);
+  }, [
+    workOrders,
+    filterBuilding,
+    filterStatus,
+    filterCustomer,
+    isScopedToOneBuilding,
+    scopedBuilding,
+    isLead,
+    scopedShift,
+    shift,
+  ]);
 
   const containersForWorkOrder = useCallback(
     (workOrderId: string) =>
@@ -1053,29 +1044,11 @@ export default function WorkOrdersPage() {
     return workOrderOptions.filter((wo) => wo.building === b);
   }, [workOrderOptions, containerForm.building]);
 
-  /**
-   * ✅ Dropdown list:
-   * Uses workforce.name from your schema.
-   * Filters by building only (shift doesn't exist in table).
-   */
-  const workforceOptionsForForm = useMemo(() => {
-    const b = (isScopedToOneBuilding ? scopedBuilding : containerForm.building) || "";
-
-    const list = workforce
-      .filter((w) => {
-        // If status exists, treat "active" as preferred but don't hard-block unknowns
-        if (!w.status) return true;
-        return String(w.status).toLowerCase().includes("active");
-      })
-      .filter((w) => {
-        if (w.building && b && w.building !== b) return false;
-        return true;
-      })
-      .map((w) => w.name)
-      .filter(Boolean);
-
-    return Array.from(new Set(list)).sort((a, b2) => a.localeCompare(b2));
-  }, [workforce, containerForm.building, isScopedToOneBuilding, scopedBuilding]);
+  /** ✅ Worker picker: active roster for the form's building (unassigned workers included) */
+  const workforceOptionsForForm = useMemo(
+    () => workforceForBuilding(workforce, (isScopedToOneBuilding ? scopedBuilding : containerForm.building) || null),
+    [workforce, containerForm.building, isScopedToOneBuilding, scopedBuilding]
+  );
 
   function renderContainerTable(rows: ContainerRow[]) {
     return (
@@ -1097,8 +1070,9 @@ export default function WorkOrdersPage() {
           </thead>
           <tbody>
             {rows.map((c) => {
-              const blocked = !canEditContainer(c);
-              const displayDate = c.work_date ? safeNYISODate(String(c.work_date)) : nyDateFromISO(c.created_at);
+              const displayDate = containerDateNY(c);
+              const locked = payrollLockFor(displayDate);
+              const blocked = !canEditContainer(c) || !!locked;
 
               return (
                 <tr key={c.id} className="border-b border-slate-800/60 hover:bg-slate-900/70">
@@ -1122,7 +1096,9 @@ export default function WorkOrdersPage() {
                         className="px-3 py-1 rounded-lg bg-slate-800 text-[11px] text-slate-100 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
                         onClick={() => openEditContainer(c)}
                         disabled={blocked}
-                        title={blocked ? (isLead ? "Leads can only edit their own entries." : "Not allowed.") : "Edit"}
+                        title={
+                          locked ?? (blocked ? (isLead ? "Leads can only edit their own entries." : "Not allowed.") : "Edit")
+                        }
                         type="button"
                       >
                         Edit
@@ -1131,8 +1107,8 @@ export default function WorkOrdersPage() {
                       <button
                         className="px-3 py-1 rounded-lg bg-rose-700 text-[11px] text-white hover:bg-rose-600 disabled:opacity-50 disabled:cursor-not-allowed"
                         onClick={() => handleDeleteContainer(c.id)}
-                        disabled={savingContainer || !canDeleteContainer()}
-                        title={!canDeleteContainer() ? "Only Super Admin can delete." : "Delete"}
+                        disabled={savingContainer || !canDeleteContainer() || !!locked}
+                        title={locked ?? (!canDeleteContainer() ? "Only Super Admin can delete." : "Delete")}
                         type="button"
                       >
                         Delete
@@ -1259,6 +1235,24 @@ export default function WorkOrdersPage() {
                 <div className="mt-1 text-[10px] text-slate-500">Defaults to today (New York time). Adjust if you’re preparing a future shift.</div>
               </div>
 
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Customer</label>
+                <select
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                  value={customerId}
+                  onChange={(e) => setCustomerId(e.target.value)}
+                >
+                  <option value="">— No customer —</option>
+                  {customerOptions.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                      {c.active ? "" : " (retired)"}
+                    </option>
+                  ))}
+                </select>
+                <div className="mt-1 text-[10px] text-slate-500">Containers on this work order are reported and invoiced under this customer.</div>
+              </div>
+
               <div>
                 <label className="block text-[11px] text-slate-400 mb-1">Status</label>
                 <select
@@ -1309,12 +1303,13 @@ export default function WorkOrdersPage() {
               <div className="flex items-center justify-between mb-3">
                 <div>
                   <div className="text-slate-200 text-sm font-semibold">Filters</div>
-                  <div className="text-[11px] text-slate-500">Narrow down work orders by building and status.</div>
+                  <div className="text-[11px] text-slate-500">Narrow down work orders by building, status and customer.</div>
                 </div>
                 <button
                   type="button"
                   onClick={() => {
                     setFilterStatus("ALL");
+                    setFilterCustomer("ALL");
                     setFilterBuilding(isScopedToOneBuilding ? scopedBuilding : "ALL");
                   }}
                   className="text-[11px] text-sky-300 hover:underline"
@@ -1323,7 +1318,7 @@ export default function WorkOrdersPage() {
                 </button>
               </div>
 
-              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                 <div>
                   <label className="block text-[11px] text-slate-400 mb-1">Building</label>
                   <select
@@ -1360,6 +1355,23 @@ export default function WorkOrdersPage() {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Customer</label>
+                  <select
+                    className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                    value={filterCustomer}
+                    onChange={(e) => setFilterCustomer(e.target.value)}
+                  >
+                    <option value="ALL">All Customers</option>
+                    <option value="">No customer</option>
+                    {customers.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="hidden md:block">
                   <div className="text-[11px] text-slate-400 mb-1">Summary</div>
                   <div className="text-[11px] text-slate-300">
@@ -1389,12 +1401,13 @@ export default function WorkOrdersPage() {
                   {displayedOrders.map((wo) => {
                     const rows = containersForWorkOrder(wo.id);
                     const isOpen = expandedWorkOrderId === wo.id;
-                    const dateShort = nyDateFromISO(wo.createdAt);
+                    const dateShort = toNYDateOnly(wo.createdAt) ?? nyISODate();
 
                     const piecesSum = rows.reduce((sum, c) => sum + (c.pieces_total || 0), 0);
                     const paySum = rows.reduce((sum, c) => sum + (Number(c.pay_total) || 0), 0);
 
-                    const blockedWO = !canEditWorkOrder(wo);
+                    const woLocked = payrollLockFor(dateShort);
+                    const blockedWO = !canEditWorkOrder(wo) || !!woLocked;
 
                     return (
                       <div key={wo.id} className="rounded-xl border border-slate-800 bg-slate-950">
@@ -1412,6 +1425,16 @@ export default function WorkOrdersPage() {
                               <span className="text-[10px] text-slate-500">
                                 {wo.building} • {wo.shift} • {dateShort}
                               </span>
+                              {wo.customerId && (
+                                <span className="inline-flex rounded-full px-2 py-0.5 text-[10px] border bg-sky-950/40 text-sky-200 border-sky-700/70">
+                                  {customerNames.get(wo.customerId) ?? "Unknown customer"}
+                                </span>
+                              )}
+                              {woLocked && (
+                                <span className="inline-flex rounded-full px-2 py-0.5 text-[10px] border bg-amber-950/40 text-amber-200 border-amber-700/70">
+                                  Payroll locked
+                                </span>
+                              )}
 
                               {wo.createdByEmail && (
                                 <span className="text-[10px] text-slate-500">
@@ -1460,7 +1483,14 @@ export default function WorkOrdersPage() {
                                   onClick={() => handleEditWorkOrder(wo)}
                                   className="text-[11px] text-sky-300 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
                                   disabled={blockedWO}
-                                  title={blockedWO ? (isLead ? "Leads can only edit their own work orders." : "Not allowed.") : "Edit Work Order"}
+                                  title={
+                                    woLocked ??
+                                    (blockedWO
+                                      ? isLead
+                                        ? "Leads can only edit their own work orders."
+                                        : "Not allowed."
+                                      : "Edit Work Order")
+                                  }
                                 >
                                   Edit WO
                                 </button>
@@ -1469,8 +1499,8 @@ export default function WorkOrdersPage() {
                                   type="button"
                                   onClick={() => handleDeleteWorkOrder(wo)}
                                   className="text-[11px] text-rose-300 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
-                                  disabled={savingWorkOrders || !canDeleteWorkOrder()}
-                                  title={!canDeleteWorkOrder() ? "Only Super Admin can delete." : "Delete Work Order"}
+                                  disabled={savingWorkOrders || !canDeleteWorkOrder() || !!woLocked}
+                                  title={woLocked ?? (!canDeleteWorkOrder() ? "Only Super Admin can delete." : "Delete Work Order")}
                                 >
                                   Delete WO
                                 </button>
@@ -1577,7 +1607,7 @@ export default function WorkOrdersPage() {
                       onChange={(e) => setContainerForm((prev) => ({ ...prev, palletized: e.target.checked }))}
                     />
                     <label htmlFor="palletized" className="text-[11px] text-slate-200">
-                      Palletized (flat $100 — overrides payscale)
+                      Palletized ({describePalletized(scheduleForForm)})
                     </label>
 
                     <div className="ml-auto text-[11px] text-slate-400">
@@ -1630,7 +1660,9 @@ export default function WorkOrdersPage() {
 
                 <div className="rounded-xl border border-slate-800 bg-slate-900/30 px-3 py-2">
                   <div className="flex items-center justify-between">
-                    <div className="text-[11px] text-slate-400">Calculated Container Pay</div>
+                    <div className="text-[11px] text-slate-400">
+                      Calculated Container Pay · <span className="text-slate-300">{scheduleForForm.name}</span> schedule
+                    </div>
                     <div className="text-[12px] font-semibold text-emerald-300">${payForForm.toFixed(2)}</div>
                   </div>
                   <div className="mt-1 text-[10px] text-slate-500">
@@ -1648,25 +1680,17 @@ export default function WorkOrdersPage() {
                     </button>
                   </div>
 
-                  {/* ✅ Dropdown source */}
-                  <datalist id="workforceNames">
-                    {workforceOptionsForForm.slice(0, 300).map((n) => (
-                      <option key={n} value={n} />
-                    ))}
-                  </datalist>
-
                   {workersWithPayout.map((w, idx) => {
                     const showRemove = workersWithPayout.length > 1;
                     return (
                       <div key={idx} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end">
                         <div className="md:col-span-5">
-                          <label className="block text-[10px] text-slate-500 mb-1">Worker Name</label>
-                          <input
-                            list="workforceNames"
+                          <label className="block text-[10px] text-slate-500 mb-1">Worker</label>
+                          <WorkerPicker
                             className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
-                            value={w.name}
-                            onChange={(e) => handleWorkerChange(idx, "name", e.target.value)}
-                            placeholder="Start typing…"
+                            value={w}
+                            options={workforceOptionsForForm}
+                            onChange={(pick) => handleWorkerPick(idx, pick)}
                           />
                         </div>
 
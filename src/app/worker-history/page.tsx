@@ -3,8 +3,20 @@
 import Link from "next/link";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings";
+import {
+  containerDateNY,
+  contributionMatchesWorker,
+  fetchContainers,
+  fetchWorkforce,
+  type ContainerRow,
+  type WorkforceWorker,
+} from "@/lib/domain";
+import { addDaysYMD, nyISODate } from "@/lib/time";
+import { downloadCsv } from "@/lib/csv";
+import type { WorkerWeekPay } from "@/lib/payroll";
 
 const SHIFT_OPTIONS = ["ALL", "1st", "2nd", "3rd", "4th"] as const;
 type ShiftFilter = (typeof SHIFT_OPTIONS)[number];
@@ -12,91 +24,6 @@ type ShiftFilter = (typeof SHIFT_OPTIONS)[number];
 const DATE_RANGES = ["Today", "Last 7 days", "Last 30 days", "All time", "Custom"] as const;
 type DateRange = (typeof DATE_RANGES)[number];
 
-type WorkerContribution = {
-  name: string;
-  minutesWorked: number;
-  percentContribution: number;
-  payout: number;
-};
-
-type ContainerRow = {
-  id: string;
-  created_at: string;
-  building: string;
-  shift: string | null;
-  work_date: string | null;
-  container_no: string;
-  pieces_total: number;
-  skus_total: number;
-  pay_total: number;
-  workers: WorkerContribution[];
-  work_order_id: string | null;
-  palletized?: boolean | null;
-};
-
-type WorkforceWorker = {
-  id: string;
-  fullName: string;
-  building: string | null;
-  shift: string | null;
-  active: boolean;
-};
-
-type WorkforceRow = Record<string, unknown>;
-
-function mapWorkforceRow(row: WorkforceRow): WorkforceWorker {
-  const fullName =
-    (typeof row.full_name === "string" ? row.full_name : null) ??
-    (typeof row.fullName === "string" ? row.fullName : null) ??
-    (typeof row.name === "string" ? row.name : null) ??
-    (typeof row.worker_name === "string" ? row.worker_name : null) ??
-    "Unknown";
-
-  const building =
-    (typeof row.building === "string" ? row.building : null) ??
-    (typeof row.dc === "string" ? row.dc : null) ??
-    (typeof row.location === "string" ? row.location : null) ??
-    null;
-
-  const shift =
-    (typeof row.shift === "string" ? row.shift : null) ??
-    (typeof row.shift_name === "string" ? row.shift_name : null) ??
-    (typeof row.shiftName === "string" ? row.shiftName : null) ??
-    null;
-
-  const activeRaw =
-    (typeof row.active === "boolean" ? row.active : null) ??
-    (typeof row.is_active === "boolean" ? row.is_active : null) ??
-    null;
-
-  const statusRaw =
-    (typeof row.status === "string" ? row.status : null) ??
-    (typeof row.employment_status === "string" ? row.employment_status : null) ??
-    null;
-
-  const active =
-    typeof activeRaw === "boolean"
-      ? activeRaw
-      : statusRaw
-      ? String(statusRaw).toLowerCase().includes("active")
-      : true;
-
-  const idValue =
-    (typeof row.id === "string" ? row.id : null) ??
-    (typeof row.id === "number" ? String(row.id) : null) ??
-    (typeof row.worker_id === "string" ? row.worker_id : null) ??
-    (typeof row.worker_id === "number" ? String(row.worker_id) : null) ??
-    (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : String(Date.now()));
-
-  return {
-    id: String(idValue),
-    fullName: String(fullName).trim(),
-    building,
-    shift,
-    active,
-  };
-}
-
 function money(n: number) {
   return `$${Number(n || 0).toFixed(2)}`;
 }
@@ -112,53 +39,6 @@ function getErrorMessage(e: unknown): string {
   return "Unknown error";
 }
 
-function toUnknownArray(data: unknown): unknown[] {
-  return Array.isArray(data) ? data : [];
-}
-
-/** --- Date helpers (NY-safe) --- */
-function parseDateOnly(value: string | null | undefined): string | null {
-  if (!value) return null;
-  return String(value).slice(0, 10);
-}
-
-/**
- * Converts ISO timestamp → YYYY-MM-DD in America/New_York to avoid “missing day” issues.
- * If input is already date-only, it just returns it.
- */
-function toNYDateOnly(value: string | null | undefined): string | null {
-  if (!value) return null;
-
-  const s = String(value);
-
-  // Already looks like YYYY-MM-DD
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-
-  const d = new Date(s);
-  if (Number.isNaN(d.getTime())) return s.slice(0, 10);
-
-  // en-CA gives YYYY-MM-DD format
-  const fmt = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  });
-
-  return fmt.format(d);
-}
-
-/** Pull “best” container date */
-function getContainerDateNY(c: ContainerRow): string {
-  return (
-    toNYDateOnly(c.work_date) ||
-    toNYDateOnly(c.created_at) ||
-    parseDateOnly(c.work_date) ||
-    parseDateOnly(c.created_at) ||
-    ""
-  );
-}
-
 /** --- Date range logic --- */
 function isWithinPreset(dateStr: string | null, range: DateRange): boolean {
   if (!dateStr) return range === "All time";
@@ -169,7 +49,7 @@ function isWithinPreset(dateStr: string | null, range: DateRange): boolean {
   const d = new Date(`${only}T00:00:00`);
   if (Number.isNaN(d.getTime())) return false;
 
-  const todayNY = toNYDateOnly(new Date().toISOString()) || new Date().toISOString().slice(0, 10);
+  const todayNY = nyISODate();
   const today = new Date(`${todayNY}T00:00:00`);
   const diffMs = today.getTime() - d.getTime();
   const diffDays = diffMs / (1000 * 60 * 60 * 24);
@@ -181,6 +61,21 @@ function isWithinPreset(dateStr: string | null, range: DateRange): boolean {
   return true;
 }
 
+/** Dates the weekly pay table covers; "All time" is the last 26 weeks. */
+function payRange(range: DateRange, start: string, end: string): { from: string; to: string } | null {
+  const today = nyISODate();
+  if (range === "Today") return { from: today, to: today };
+  if (range === "Last 7 days") return { from: addDaysYMD(today, -7), to: today };
+  if (range === "Last 30 days") return { from: addDaysYMD(today, -30), to: today };
+  if (range === "All time") return { from: addDaysYMD(today, -26 * 7), to: today };
+  if (!start || !end || end < start) return null;
+  return { from: start, to: end };
+}
+
+function hoursLabel(minutes: number) {
+  return (Number(minutes || 0) / 60).toFixed(2);
+}
+
 function isWithinCustom(dateStr: string | null, start: string | null, end: string | null): boolean {
   if (!dateStr) return false;
   const only = dateStr.slice(0, 10);
@@ -191,33 +86,6 @@ function isWithinCustom(dateStr: string | null, start: string | null, end: strin
   return true;
 }
 
-/** --- CSV --- */
-function downloadCsv(filename: string, header: string[], rows: (string | number)[][]) {
-  const lines = [
-    header.join(","),
-    ...rows.map((r) =>
-      r
-        .map((cell) => {
-          const value = String(cell ?? "");
-          if (value.includes(",") || value.includes('"') || value.includes("\n")) {
-            return `"${value.replace(/"/g, '""')}"`;
-          }
-          return value;
-        })
-        .join(",")
-    ),
-  ];
-  const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-}
-
 export default function WorkerHistoryPage() {
   const currentUser = useCurrentUser();
 
@@ -238,7 +106,11 @@ export default function WorkerHistoryPage() {
   const [containers, setContainers] = useState<ContainerRow[]>([]);
   const [loadingContainers, setLoadingContainers] = useState(false);
 
-  const [selectedWorkerName, setSelectedWorkerName] = useState<string | null>(null);
+  const [selectedWorker, setSelectedWorker] = useState<WorkforceWorker | null>(null);
+
+  const [weeklyPay, setWeeklyPay] = useState<WorkerWeekPay[]>([]);
+  const [loadingPay, setLoadingPay] = useState(false);
+  const [payError, setPayError] = useState<string | null>(null);
 
   const [search, setSearch] = useState("");
 
@@ -274,16 +146,10 @@ export default function WorkerHistoryPage() {
     setError(null);
 
     try {
-      let q = supabase.from("workforce").select("*").order("created_at", { ascending: false });
-      if (isScoped) q = q.eq("building", scopedBuilding);
-
-      const { data, error } = await q;
+      const { data, error } = await fetchWorkforce(supabase, { building: isScoped ? scopedBuilding : null });
       if (error) throw error;
 
-      const raw = toUnknownArray(data);
-      const mapped = raw
-        .map((r) => mapWorkforceRow(r as WorkforceRow))
-        .filter((w) => w.fullName && w.fullName !== "Unknown" && w.active !== false);
+      const mapped = data.filter((w) => w.name && w.name !== "Unknown" && w.active !== false);
 
       setWorkforce(mapped);
     } catch (e: unknown) {
@@ -300,43 +166,12 @@ export default function WorkerHistoryPage() {
     setError(null);
 
     try {
-      let q = supabase.from("containers").select("*").order("created_at", { ascending: false });
-
-      // scope for leads/building managers
-      if (isScoped) q = q.eq("building", scopedBuilding);
+      // scope for leads/building managers; for HQ users a picked building is scoped server-side for speed
+      const building = isScoped ? scopedBuilding : buildingFilter !== "ALL" ? buildingFilter : null;
 
-      // for HQ users: if they picked a building, scope server-side for speed
-      if (!isScoped && buildingFilter !== "ALL") q = q.eq("building", buildingFilter);
-
-      const { data, error } = await q;
+      const { data: rows, error } = await fetchContainers(supabase, { building });
       if (error) throw error;
 
-      const raw = toUnknownArray(data);
-
-      const rows: ContainerRow[] = raw.map((rowU) => {
-        const row = rowU as Record<string, unknown>;
-
-        const workersRaw = row.workers;
-        const workers: WorkerContribution[] = Array.isArray(workersRaw)
-          ? (workersRaw as WorkerContribution[])
-          : [];
-
-        return {
-          id: String(row.id ?? ""),
-          created_at: String(row.created_at ?? ""),
-          building: String(row.building ?? ""),
-          shift: (row.shift ?? null) as string | null,
-          work_date: (row.work_date ?? null) as string | null,
-          container_no: String(row.container_no ?? ""),
-          pieces_total: Number(row.pieces_total ?? 0),
-          skus_total: Number(row.skus_total ?? 0),
-          pay_total: Number(row.pay_total ?? 0),
-          workers,
-          work_order_id: (row.work_order_id ?? null) as string | null,
-          palletized: (row.palletized ?? null) as boolean | null,
-        };
-      });
-
       setContainers(rows);
     } catch (e: unknown) {
       setError(`Failed to load containers: ${getErrorMessage(e)}`);
@@ -355,6 +190,38 @@ export default function WorkerHistoryPage() {
     loadContainers();
   }, [currentUser, loadContainers]);
 
+  const selectedPayRange = useMemo(
+    () => payRange(dateRange, customStart.trim(), customEnd.trim()),
+    [dateRange, customStart, customEnd]
+  );
+
+  // --- Load weekly pay (hours, overtime, make-up) for the selected worker ---
+  const loadWeeklyPay = useCallback(async () => {
+    if (!selectedWorker || !selectedPayRange) {
+      setWeeklyPay([]);
+      return;
+    }
+    try {
+      const params = new URLSearchParams({ workforce_id: selectedWorker.id, ...selectedPayRange });
+      const res = await apiFetch(`/api/worker-history/pay?${params}`);
+      if (!res.ok) {
+        setPayError(await apiErrorMessage(res, "Failed to load weekly pay."));
+        setWeeklyPay([]);
+        return;
+      }
+      setWeeklyPay((await res.json()) as WorkerWeekPay[]);
+    } catch (e: unknown) {
+      setPayError(`Failed to load weekly pay: ${getErrorMessage(e)}`);
+    }
+  }, [selectedWorker, selectedPayRange]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    setLoadingPay(true);
+    setPayError(null);
+    void loadWeeklyPay().finally(() => setLoadingPay(false));
+  }, [currentUser, loadWeeklyPay]);
+
   // Keep building filter locked for scoped users
   useEffect(() => {
     if (!currentUser) return;
@@ -372,7 +239,7 @@ export default function WorkerHistoryPage() {
     }
 
     if (!q) return list.slice(0, 200);
-    return list.filter((w) => w.fullName.toLowerCase().includes(q)).slice(0, 200);
+    return list.filter((w) => w.name.toLowerCase().includes(q)).slice(0, 200);
   }, [workforce, search, isScoped, effectiveBuildingFilter]);
 
   // Build “ledger” for the selected worker
@@ -393,16 +260,16 @@ export default function WorkerHistoryPage() {
   };
 
   const selectedWorkerLines = useMemo((): WorkerContainerLine[] => {
-    if (!selectedWorkerName) return [];
+    if (!selectedWorker) return [];
 
-    const target = selectedWorkerName.trim().toLowerCase();
     const lines: WorkerContainerLine[] = [];
 
     for (const c of containers) {
-      const match = (c.workers || []).find((w) => String(w.name || "").trim().toLowerCase() === target);
+      // By workforce id; entries saved before linking still match by name
+      const match = (c.workers || []).find((w) => contributionMatchesWorker(w, selectedWorker));
       if (!match) continue;
 
-      const d = getContainerDateNY(c);
+      const d = containerDateNY(c);
       if (!isDateMatch(d)) continue;
 
       // building filter
@@ -432,7 +299,7 @@ export default function WorkerHistoryPage() {
     // newest first
     lines.sort((a, b) => b.date.localeCompare(a.date));
     return lines;
-  }, [containers, selectedWorkerName, effectiveBuildingFilter, shiftFilter, isDateMatch]);
+  }, [containers, selectedWorker, effectiveBuildingFilter, shiftFilter, isDateMatch]);
 
   const selectedTotals = useMemo(() => {
     const totalContainers = selectedWorkerLines.length;
@@ -467,7 +334,7 @@ export default function WorkerHistoryPage() {
       if (shiftFilter !== "ALL" && shift !== shiftFilter) continue;
 
       // date filter
-      const d = getContainerDateNY(c);
+      const d = containerDateNY(c);
       if (!isDateMatch(d)) continue;
 
       const containerNo = String(c.container_no || "") || String(c.id || "");
@@ -537,6 +404,44 @@ export default function WorkerHistoryPage() {
     downloadCsv(`payroll-export-${makeFilterLabel()}.csv`, header, rows);
   }
 
+  function handleExportWeeklyPayCsv() {
+    if (!selectedWorker) return;
+    const header = [
+      "Week Start",
+      "Week End",
+      "Worker Name",
+      "Rate Type",
+      "Rate",
+      "Hours Source",
+      "Regular Hours",
+      "Overtime Hours",
+      "Container Pay",
+      "Guarantee",
+      "Make-up Pay",
+      "Hourly Pay",
+      "Overtime Pay",
+      "Total Pay",
+    ];
+    const rows = weeklyPay.map((w) => [
+      w.weekStart,
+      w.weekEnd,
+      selectedWorker.name,
+      w.wages.rateType,
+      w.wages.hourlyRate.toFixed(2),
+      w.wages.hoursSource === "clock" ? "Time clock" : "Container minutes",
+      hoursLabel(w.wages.regularMinutes),
+      hoursLabel(w.wages.overtimeMinutes),
+      w.wages.productionPay.toFixed(2),
+      w.wages.guaranteePay.toFixed(2),
+      w.wages.makeUpPay.toFixed(2),
+      w.wages.regularPay.toFixed(2),
+      w.wages.overtimePay.toFixed(2),
+      w.wages.totalPay.toFixed(2),
+    ]);
+    const slug = selectedWorker.name.trim().replace(/\s+/g, "-").toLowerCase();
+    downloadCsv(`weekly-pay-${slug}-${makeFilterLabel()}.csv`, header, rows);
+  }
+
   function handleResetFilters() {
     setShiftFilter("ALL");
     setDateRange("Last 7 days");
@@ -692,6 +597,13 @@ export default function WorkerHistoryPage() {
                   <div className="text-[10px] text-slate-500 text-right max-w-sm">
                     Export includes: Date, DC, Shift, Worker Name, Container #, Pieces, Worker Payout (plus minutes/% split).
                   </div>
+                  <div className="text-[10px] text-slate-500 text-right max-w-sm">
+                    ADP / Paychex / Gusto import files are on the{" "}
+                    <Link href="/payroll" className="text-sky-300 hover:underline">
+                      Payroll
+                    </Link>{" "}
+                    page.
+                  </div>
                   <div className="text-[10px] text-slate-500 text-right">
                     Rows in export: <span className="text-sky-300 font-semibold">{payrollExportLines.length}</span>
                   </div>
@@ -731,17 +643,17 @@ export default function WorkerHistoryPage() {
                     <div className="px-3 py-3 text-[11px] text-slate-500">No matches.</div>
                   ) : (
                     filteredWorkers.map((w) => {
-                      const active = selectedWorkerName === w.fullName;
+                      const active = selectedWorker?.id === w.id;
                       return (
                         <button
                           key={w.id}
                           type="button"
-                          onClick={() => setSelectedWorkerName(w.fullName)}
+                          onClick={() => setSelectedWorker(w)}
                           className={`w-full text-left px-3 py-2 border-b border-slate-800 hover:bg-slate-900 ${
                             active ? "bg-sky-950/20" : ""
                           }`}
                         >
-                          <div className="text-[12px] text-slate-100 font-medium">{w.fullName}</div>
+                          <div className="text-[12px] text-slate-100 font-medium">{w.name}</div>
                           <div className="text-[11px] text-slate-500">
                             {w.building ?? "—"} • {w.shift ?? "—"}
                           </div>
@@ -761,13 +673,13 @@ export default function WorkerHistoryPage() {
           {/* RIGHT: selected worker detail */}
           <div className="lg:col-span-8 space-y-4">
             <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
-              {!selectedWorkerName ? (
+              {!selectedWorker ? (
                 <div className="text-[12px] text-slate-400">Select a worker on the left to view their container history.</div>
               ) : (
                 <>
                   <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
                     <div>
-                      <div className="text-sm font-semibold text-slate-100">{selectedWorkerName}</div>
+                      <div className="text-sm font-semibold text-slate-100">{selectedWorker.name}</div>
                       <div className="text-[11px] text-slate-400">
                         Filters apply above (Building / Shift / Date). Dates are normalized to{" "}
                         <span className="text-slate-200">America/New_York</span> to prevent missing days.
@@ -844,6 +756,104 @@ export default function WorkerHistoryPage() {
                   <div className="mt-3 text-[10px] text-slate-500">
                     Note: This is read-only. Earnings are pulled from each container’s worker payout entry.
                   </div>
+
+                  {/* Weekly pay: guarantee / minimum-wage make-up and overtime */}
+                  <div className="mt-6 flex flex-col md:flex-row md:items-end md:justify-between gap-2">
+                    <div>
+                      <div className="text-sm font-semibold text-slate-100">Weekly Pay</div>
+                      <div className="text-[11px] text-slate-400">
+                        Payroll weeks (Sun–Sat) in the date filter, across all buildings. Hours come from the time
+                        clock (container minutes if never clocked in).{" "}
+                        {selectedWorker.rateType === "Hourly"
+                          ? "Hourly: time over 40 h is paid at 1.5×."
+                          : "Production: container pay is topped up to hours × the guaranteed rate / minimum wage."}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleExportWeeklyPayCsv}
+                      disabled={weeklyPay.length === 0}
+                      className="text-[11px] px-3 py-2 rounded-lg border border-slate-700 bg-slate-950 hover:bg-slate-800 text-slate-200 disabled:opacity-50"
+                    >
+                      Export Weekly Pay CSV
+                    </button>
+                  </div>
+
+                  {payError && <div className="mt-2 text-[11px] text-rose-300">{payError}</div>}
+
+                  <div className="mt-3 overflow-x-auto">
+                    <table className="min-w-full border-collapse text-xs">
+                      <thead>
+                        <tr className="border-b border-slate-800 text-[11px] text-slate-400">
+                          <th className="text-left py-2 pr-3">Week</th>
+                          <th className="text-left py-2 pr-3">Rate</th>
+                          <th className="text-right py-2 pr-3">Hours</th>
+                          <th className="text-right py-2 pr-3">OT Hours</th>
+                          <th className="text-right py-2 pr-3">Container Pay</th>
+                          <th className="text-right py-2 pr-3">Guarantee</th>
+                          <th className="text-right py-2 pr-3">Make-up</th>
+                          <th className="text-right py-2 pr-3">Hourly + OT</th>
+                          <th className="text-right py-2 pr-3">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {!selectedPayRange ? (
+                          <tr>
+                            <td className="py-4 text-[11px] text-slate-500" colSpan={9}>
+                              Pick a start and end date to see weekly pay.
+                            </td>
+                          </tr>
+                        ) : weeklyPay.length === 0 ? (
+                          <tr>
+                            <td className="py-4 text-[11px] text-slate-500" colSpan={9}>
+                              {loadingPay ? "Loading weekly pay…" : "No containers or punches in these weeks."}
+                            </td>
+                          </tr>
+                        ) : (
+                          weeklyPay.map((w) => (
+                            <tr key={w.weekStart} className="border-b border-slate-800/60 hover:bg-slate-900/60">
+                              <td className="py-2 pr-3 text-[11px] text-slate-400">
+                                {w.weekStart} – {w.weekEnd}
+                              </td>
+                              <td className="py-2 pr-3 text-[11px] text-slate-200">
+                                {w.wages.rateType} {money(w.wages.hourlyRate)}/h
+                                {w.wages.belowMinimum && <span className="ml-1 text-amber-300">(min wage)</span>}
+                              </td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                {hoursLabel(w.wages.minutes)}
+                                {w.wages.hoursSource === "containers" && <span className="ml-1 text-slate-500">*</span>}
+                              </td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                {w.wages.overtimeMinutes > 0 ? hoursLabel(w.wages.overtimeMinutes) : "—"}
+                              </td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                {w.wages.rateType === "Production" ? money(w.wages.productionPay) : "—"}
+                              </td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                {w.wages.rateType === "Production" ? money(w.wages.guaranteePay) : "—"}
+                              </td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-amber-200">
+                                {w.wages.makeUpPay > 0 ? money(w.wages.makeUpPay) : "—"}
+                              </td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-slate-200">
+                                {w.wages.rateType === "Hourly"
+                                  ? money(w.wages.regularPay + w.wages.overtimePay)
+                                  : "—"}
+                              </td>
+                              <td className="py-2 pr-3 text-right text-[11px] text-emerald-300 font-semibold">
+                                {money(w.wages.totalPay)}
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="mt-3 text-[10px] text-slate-500">
+                    * No time clock punches that week; hours are the container minutes. Payroll adjustments are on
+                    the Payroll page.
+                  </div>
                 </>
               )}
             </div>
@@ -0,0 +1,46 @@
+"use client";
+
+import type { WorkerContribution } from "@/lib/domain/containers";
+import type { WorkforceWorker } from "@/lib/domain/workforce";
+
+type WorkerPick = Pick<WorkerContribution, "name" | "workforceId">;
+
+// Stands in for a contribution saved by name before it was linked
+const UNLINKED_VALUE = "__unlinked__";
+
+type Props = {
+  value: WorkerPick;
+  options: WorkforceWorker[]; // usually workforceForBuilding(...)
+  onChange: (next: WorkerPick) => void;
+  className?: string;
+};
+
+// Container worker select: contributions are saved against a workforce id.
+// An older entry keeps its typed name, shown "(not linked)", until it is
+// re-picked here or linked from /workforce/reconcile.
+export function WorkerPicker({ value, options, onChange, className }: Props) {
+  const selected = value.workforceId ?? (value.name.trim() ? UNLINKED_VALUE : "");
+  const missing = !!value.workforceId && !options.some((w) => w.id === value.workforceId);
+
+  function handleChange(id: string) {
+    if (id === UNLINKED_VALUE) return;
+    if (!id) return onChange({ name: "", workforceId: null });
+    const person = options.find((w) => w.id === id);
+    onChange({ name: person?.name ?? value.name, workforceId: id });
+  }
+
+  return (
+    <select className={className} value={selected} onChange={(e) => handleChange(e.target.value)}>
+      <option value="">Select worker…</option>
+      {selected === UNLINKED_VALUE && <option value={UNLINKED_VALUE}>{value.name} (not linked)</option>}
+      {/* Linked to someone no longer on this building's active list */}
+      {missing && <option value={value.workforceId ?? ""}>{value.name || "Unknown worker"}</option>}
+      {options.map((w) => (
+        <option key={w.id} value={w.id}>
+          {w.name}
+          {w.shift ? ` · ${w.shift}` : ""}
+        </option>
+      ))}
+    </select>
+  );
+}
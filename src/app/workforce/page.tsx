@@ -5,6 +5,8 @@ import { useEffect, useMemo, useState, FormEvent, useCallback } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useCurrentUser } from "@/lib/useCurrentUser";
 import { BUILDINGS } from "@/lib/buildings";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { WORK_STATUS_LABELS, fetchOpenCasesByWorker, type WorkerInjuryCase } from "@/lib/domain";
 
 const WORKFORCE_KEY = "precisionpulse_workforce";
 
@@ -32,6 +34,12 @@ type WorkforcePerson = {
   status: string;
   rateType?: "Hourly" | "Production" | "";
   rateValue?: number | null;
+  employeeNumber?: string;
+  phone?: string;
+  email?: string;
+  whatsappOptIn?: boolean;
+  badgeNumber?: string;
+  hasKioskPin?: boolean;
   notes?: string;
   createdAt: string;
 };
@@ -46,6 +54,12 @@ type WorkforceRow = {
   status: string | null;
   rate_type: string | null;
   rate_value: number | null;
+  employee_number: string | null;
+  phone: string | null;
+  email: string | null;
+  whatsapp_opt_in: boolean | null;
+  badge_number: string | null;
+  kiosk_pin_hash: string | null;
   notes: string | null;
 };
 
@@ -64,6 +78,12 @@ function rowToPerson(row: WorkforceRow): WorkforcePerson {
     status: row.status ?? "Active",
     rateType,
     rateValue: row.rate_value,
+    employeeNumber: row.employee_number ?? "",
+    phone: row.phone ?? "",
+    email: row.email ?? "",
+    whatsappOptIn: row.whatsapp_opt_in === true,
+    badgeNumber: row.badge_number ?? "",
+    hasKioskPin: !!row.kiosk_pin_hash,
     notes: row.notes ?? "",
     createdAt,
   };
@@ -95,6 +115,12 @@ export default function WorkforcePage() {
   const [status, setStatus] = useState<(typeof STATUS_OPTIONS)[number]>("Active");
   const [rateType, setRateType] = useState<"Hourly" | "Production" | "">("");
   const [rateValue, setRateValue] = useState<string>("");
+  const [employeeNumber, setEmployeeNumber] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [whatsappOptIn, setWhatsappOptIn] = useState(false);
+  const [badgeNumber, setBadgeNumber] = useState("");
+  const [kioskPin, setKioskPin] = useState(""); // only sent when changed; never loaded back
   const [notes, setNotes] = useState("");
 
   // filters
@@ -106,6 +132,9 @@ export default function WorkforcePage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Open injury cases by workforce id (work status / return to work)
+  const [injuryCases, setInjuryCases] = useState<Map<string, WorkerInjuryCase>>(new Map());
+
   // Persist into localStorage so dashboard/reports keep working
   const persist = useCallback((next: WorkforcePerson[]) => {
     setPeople(next);
@@ -153,6 +182,25 @@ export default function WorkforcePage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentUser, isScopedToOneBuilding, scopedBuilding]);
 
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+
+    async function load() {
+      const { data, error } = await fetchOpenCasesByWorker(supabase, isScopedToOneBuilding ? scopedBuilding : null);
+      if (error) {
+        console.error("Error loading open injury cases", error);
+        return;
+      }
+      if (!cancelled) setInjuryCases(data);
+    }
+
+    void load().catch((e) => console.error("Unexpected error loading open injury cases", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, isScopedToOneBuilding, scopedBuilding]);
+
   // ✅ Lock building defaults + filters for Building Managers
   useEffect(() => {
     if (isScopedToOneBuilding) {
@@ -171,6 +219,12 @@ export default function WorkforcePage() {
     setStatus("Active");
     setRateType("");
     setRateValue("");
+    setEmployeeNumber("");
+    setPhone("");
+    setEmail("");
+    setWhatsappOptIn(false);
+    setBadgeNumber("");
+    setKioskPin("");
     setNotes("");
   }
 
@@ -201,6 +255,12 @@ export default function WorkforcePage() {
     setStatus(person.status as (typeof STATUS_OPTIONS)[number]);
     setRateType(person.rateType ?? "");
     setRateValue(person.rateValue != null ? String(person.rateValue) : "");
+    setEmployeeNumber(person.employeeNumber ?? "");
+    setPhone(person.phone ?? "");
+    setEmail(person.email ?? "");
+    setWhatsappOptIn(person.whatsappOptIn ?? false);
+    setBadgeNumber(person.badgeNumber ?? "");
+    setKioskPin("");
     setNotes(person.notes ?? "");
   }
 
@@ -257,6 +317,11 @@ export default function WorkforcePage() {
       return;
     }
 
+    if (kioskPin.trim() && !/^\d{4,8}$/.test(kioskPin.trim())) {
+      if (typeof window !== "undefined") window.alert("Kiosk PIN must be 4–8 digits (or leave blank).");
+      return;
+    }
+
     const parsedRate = rateValue.trim() === "" ? null : Number(rateValue);
     if (rateValue.trim() !== "" && Number.isNaN(parsedRate)) {
       if (typeof window !== "undefined") window.alert("Rate must be a valid number (or leave blank).");
@@ -278,8 +343,14 @@ export default function WorkforcePage() {
         status,
         rate_type: rateType || null,
         rate_value: parsedRate,
+        employee_number: employeeNumber.trim() || null,
+        phone: phone.trim() || null,
+        email: email.trim().toLowerCase() || null,
+        whatsapp_opt_in: whatsappOptIn && !!phone.trim(),
+        badge_number: badgeNumber.trim() || null,
         notes: notes.trim() || null,
       };
+      let savedId = editingId;
 
       if (editingId) {
         const existing = people.find((p) => p.id === editingId);
@@ -301,12 +372,26 @@ export default function WorkforcePage() {
         }
       } else {
         // ✅ If BM, the insert is already forced into their building
-        const { error } = await supabase.from("workforce").insert(payload);
+        const { data, error } = await supabase.from("workforce").insert(payload).select("id").single();
         if (error) {
           console.error("Error inserting workforce record", error);
           setError("Failed to add worker.");
           return;
         }
+        savedId = data ? String((data as { id: string }).id) : null;
+      }
+
+      // The PIN is hashed server-side, so it goes through the API
+      if (kioskPin.trim() && savedId) {
+        const res = await apiFetch(`/api/workforce/${savedId}/pin`, {
+          method: "PUT",
+          body: JSON.stringify({ pin: kioskPin.trim() }),
+        });
+        if (!res.ok) {
+          setError(await apiErrorMessage(res, "Worker saved, but the kiosk PIN was not set."));
+          await refreshFromSupabase();
+          return;
+        }
       }
 
       await refreshFromSupabase();
@@ -394,12 +479,20 @@ export default function WorkforcePage() {
               </p>
             )}
           </div>
-          <Link
-            href="/"
-            className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
-          >
-            ← Back to Dashboard
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/workforce/reconcile"
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+            >
+              Link container names →
+            </Link>
+            <Link
+              href="/"
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-slate-200 hover:bg-slate-800"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
         </div>
 
         {/* Summary row */}
@@ -544,6 +637,72 @@ export default function WorkforcePage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Employee / File # (payroll)</label>
+                <input
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                  placeholder="ID in ADP / Paychex / Gusto"
+                  value={employeeNumber}
+                  onChange={(e) => setEmployeeNumber(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Mobile phone (optional)</label>
+                <input
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                  placeholder="e.g. (555) 123-4567"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                />
+                <label className="mt-1 flex items-center gap-2 text-[11px] text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={whatsappOptIn}
+                    disabled={!phone.trim()}
+                    onChange={(e) => setWhatsappOptIn(e.target.checked)}
+                  />
+                  Agreed to get shift-start broadcasts on WhatsApp
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-[11px] text-slate-400 mb-1">Login email (optional)</label>
+                <input
+                  type="email"
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                  placeholder="Shows them their shifts on the schedule"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">Badge # (time clock)</label>
+                  <input
+                    className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                    placeholder="Scanned or typed at the kiosk"
+                    value={badgeNumber}
+                    onChange={(e) => setBadgeNumber(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[11px] text-slate-400 mb-1">
+                    Kiosk PIN {editingId && people.find((p) => p.id === editingId)?.hasKioskPin ? "(set)" : ""}
+                  </label>
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-1.5 text-[11px] text-slate-50"
+                    placeholder={editingId ? "Leave blank to keep" : "4–8 digits"}
+                    value={kioskPin}
+                    onChange={(e) => setKioskPin(e.target.value.replace(/\D/g, ""))}
+                  />
+                </div>
+              </div>
+
               <div>
                 <label className="block text-[11px] text-slate-400 mb-1">Notes (optional)</label>
                 <textarea
@@ -677,11 +836,15 @@ export default function WorkforcePage() {
                           !p.rateType ? "—" : p.rateValue != null ? `${p.rateType} $${p.rateValue.toFixed(2)}` : p.rateType;
 
                         const blocked = !canEditPerson(p);
+                        const injuryCase = injuryCases.get(p.id);
 
                         return (
                           <tr key={p.id} className="border-b border-slate-800/60 hover:bg-slate-900/60">
                             <td className="px-3 py-2 text-slate-100">
                               <div className="text-xs font-medium">{p.name}</div>
+                              {p.employeeNumber && (
+                                <div className="text-[10px] text-slate-500">Emp # {p.employeeNumber}</div>
+                              )}
                               {p.notes && <div className="text-[11px] text-slate-500 line-clamp-1">{p.notes}</div>}
                             </td>
                             <td className="px-3 py-2 text-slate-300">{p.role || "—"}</td>
@@ -691,6 +854,20 @@ export default function WorkforcePage() {
                               <span className={"inline-flex rounded-full px-2 py-0.5 text-[10px] " + badgeClass}>
                                 {p.status}
                               </span>
+                              {injuryCase && (
+                                <div
+                                  className="mt-1 text-[10px] text-rose-200"
+                                  title={
+                                    injuryCase.incidentDate
+                                      ? `Injury case open since ${injuryCase.incidentDate.slice(0, 10)}`
+                                      : "Injury case open"
+                                  }
+                                >
+                                  Injury case ·{" "}
+                                  {injuryCase.workStatus ? WORK_STATUS_LABELS[injuryCase.workStatus] : "status pending"}
+                                  {injuryCase.returnToWorkDate ? ` · RTW ${injuryCase.returnToWorkDate}` : ""}
+                                </div>
+                              )}
                             </td>
                             <td className="px-3 py-2 text-right text-slate-200">{rateLabel}</td>
                             <td className="px-3 py-2 text-right">
@@ -0,0 +1,271 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import { useCurrentUser } from "@/lib/useCurrentUser";
+import { hasPermission } from "@/lib/roles";
+import type { WorkforceWorker } from "@/lib/domain/workforce";
+import type { ReconcileLink, ReconcileSuggestion } from "@/lib/workerReconciliation";
+
+// Preselect the top candidate only when it's this close
+const AUTO_SELECT_SCORE = 0.9;
+
+type Choice = { workforceId: string; confirmed: boolean };
+
+function initialChoices(suggestions: ReconcileSuggestion[]): Record<string, Choice> {
+  const next: Record<string, Choice> = {};
+  for (const s of suggestions) {
+    const best = s.candidates[0];
+    next[s.key] = { workforceId: best && best.score >= AUTO_SELECT_SCORE ? best.workforceId : "", confirmed: false };
+  }
+  return next;
+}
+
+function scoreLabel(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+export default function WorkforceReconcilePage() {
+  const router = useRouter();
+  const currentUser = useCurrentUser();
+
+  const role = currentUser?.accessRole;
+  const canManage = !!role && hasPermission(role, "workforce.manage");
+
+  // ✅ HARD REDIRECT: linking names is a manager task
+  useEffect(() => {
+    if (!currentUser) return;
+    if (canManage) return;
+    router.replace("/");
+  }, [currentUser, canManage, router]);
+
+  const [suggestions, setSuggestions] = useState<ReconcileSuggestion[]>([]);
+  const [workforce, setWorkforce] = useState<WorkforceWorker[]>([]);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const loadSuggestions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch("/api/workforce/reconcile");
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to load unlinked workers."));
+        return;
+      }
+      const body = (await res.json()) as { suggestions: ReconcileSuggestion[]; workforce: WorkforceWorker[] };
+      setSuggestions(body.suggestions);
+      setWorkforce(body.workforce);
+      setChoices(initialChoices(body.suggestions));
+    } catch (e) {
+      console.error("Unexpected error loading unlinked workers", e);
+      setError("Unexpected error loading unlinked workers.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser || !canManage) return;
+    loadSuggestions();
+  }, [currentUser, canManage, loadSuggestions]);
+
+  function updateChoice(key: string, patch: Partial<Choice>) {
+    setChoices((prev) => {
+      const current = prev[key] ?? { workforceId: "", confirmed: false };
+      const next = { ...current, ...patch };
+      if (!next.workforceId) next.confirmed = false;
+      return { ...prev, [key]: next };
+    });
+  }
+
+  const links: ReconcileLink[] = suggestions
+    .filter((s) => choices[s.key]?.confirmed && choices[s.key]?.workforceId)
+    .map((s) => ({ name: s.name, workforceId: choices[s.key].workforceId }));
+
+  async function applyLinks() {
+    if (saving || links.length === 0) return;
+    if (typeof window !== "undefined") {
+      const ok = window.confirm(
+        `Link ${links.length} name${links.length === 1 ? "" : "s"} to the roster? Matching container entries take the roster name.`
+      );
+      if (!ok) return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const res = await apiFetch("/api/workforce/reconcile", {
+        method: "POST",
+        body: JSON.stringify({ links }),
+      });
+      if (!res.ok) {
+        setError(await apiErrorMessage(res, "Failed to link workers."));
+        return;
+      }
+      const { updated, skippedLocked } = (await res.json()) as { updated: number; skippedLocked: number };
+      setInfo(
+        `Linked on ${updated} container${updated === 1 ? "" : "s"}.` +
+          (skippedLocked > 0
+            ? ` ${skippedLocked} in approved or paid payroll weeks were left as they are.`
+            : "")
+      );
+      await loadSuggestions();
+    } catch (e) {
+      console.error("Unexpected error linking workers", e);
+      setError("Unexpected error linking workers.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to login…
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center text-sm">
+        Redirecting to dashboard…
+      </div>
+    );
+  }
+
+  const selectCls = "w-full rounded-lg bg-slate-950 border border-slate-700 px-2 py-1 text-[11px] text-slate-50";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-950 to-slate-900 text-slate-50">
+      <div className="mx-auto max-w-6xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-50">Link Container Names</h1>
+            <p className="text-sm text-slate-400">
+              Older containers list workers by typed name. Confirm which roster worker each name is so pay, reports and
+              worker history follow the person.
+            </p>
+            {loading && <p className="mt-1 text-[11px] text-slate-500">Loading unlinked names…</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/workforce"
+              className="inline-flex items-center px-3 py-1 rounded-full border border-slate-700 bg-slate-900 text-xs text-slate-200 hover:bg-slate-800"
+            >
+              ← Workforce Roster
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-950/40 border border-red-800 rounded px-3 py-2">{error}</div>
+        )}
+        {info && (
+          <div className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-800 rounded px-3 py-2">
+            {info}
+          </div>
+        )}
+
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 text-xs space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-slate-200 text-sm font-semibold">Unlinked names</div>
+              <div className="text-[11px] text-slate-500">
+                {suggestions.length} name{suggestions.length === 1 ? "" : "s"} · {links.length} confirmed
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={applyLinks}
+              disabled={saving || links.length === 0}
+              className="rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-50 px-3 py-1.5 text-[11px] font-medium text-white"
+            >
+              {saving ? "Linking…" : `Link ${links.length} confirmed`}
+            </button>
+          </div>
+
+          {suggestions.length === 0 && !loading ? (
+            <div className="text-[11px] text-slate-500">Every container worker is linked to the roster.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-[11px]">
+                <thead>
+                  <tr className="border-b border-slate-800 text-slate-400">
+                    <th className="text-left py-2 pr-3">Name on containers</th>
+                    <th className="text-right py-2 pr-3">Containers</th>
+                    <th className="text-left py-2 pr-3">Buildings</th>
+                    <th className="text-left py-2 pr-3">Last worked</th>
+                    <th className="text-left py-2 pr-3">Roster worker</th>
+                    <th className="text-center py-2">Confirm</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suggestions.map((s) => {
+                    const choice = choices[s.key] ?? { workforceId: "", confirmed: false };
+                    const suggested = new Set(s.candidates.map((c) => c.workforceId));
+                    return (
+                      <tr key={s.key} className="border-b border-slate-800/60">
+                        <td className="py-2 pr-3 text-slate-100">{s.name}</td>
+                        <td className="py-2 pr-3 text-right text-slate-300">{s.containers}</td>
+                        <td className="py-2 pr-3 text-slate-400">{s.buildings.join(", ") || "—"}</td>
+                        <td className="py-2 pr-3 text-slate-400">{s.lastWorkDate ?? "—"}</td>
+                        <td className="py-2 pr-3 min-w-[220px]">
+                          <select
+                            className={selectCls}
+                            value={choice.workforceId}
+                            onChange={(e) => updateChoice(s.key, { workforceId: e.target.value })}
+                          >
+                            <option value="">Leave unlinked</option>
+                            {s.candidates.length > 0 && (
+                              <optgroup label="Suggested">
+                                {s.candidates.map((c) => (
+                                  <option key={c.workforceId} value={c.workforceId}>
+                                    {c.name}
+                                    {c.building ? ` (${c.building})` : ""} · {scoreLabel(c.score)}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            )}
+                            <optgroup label="Roster">
+                              {workforce
+                                .filter((w) => !suggested.has(w.id))
+                                .map((w) => (
+                                  <option key={w.id} value={w.id}>
+                                    {w.name}
+                                    {w.building ? ` (${w.building})` : ""}
+                                    {w.active ? "" : " · inactive"}
+                                  </option>
+                                ))}
+                            </optgroup>
+                          </select>
+                        </td>
+                        <td className="py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={choice.confirmed}
+                            disabled={!choice.workforceId}
+                            onChange={(e) => updateChoice(s.key, { confirmed: e.target.checked })}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
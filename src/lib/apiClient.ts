@@ -0,0 +1,28 @@
+// src/lib/apiClient.ts
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * fetch() for our own /api routes with the current session's access token
+ * attached, so the server can tell who is calling.
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session?.access_token) headers.set("Authorization", `Bearer ${session.access_token}`);
+  if (init.body && !headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+
+  return fetch(path, { ...init, headers });
+}
+
+/** Reads `{ error }` from a failed API response, falling back to a generic message. */
+export async function apiErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await res.json()) as { error?: unknown };
+    return typeof data.error === "string" && data.error ? data.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,131 @@
+// src/lib/authz.ts
+// Server-only authorization for /api routes and the proxy.
+// DO NOT import this into client components.
+
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  hasPermission,
+  isBuildingScoped,
+  OWN_ROWS_ONLY_ROLES,
+  sanitizeRole,
+  type AccessRole,
+  type Permission,
+} from "@/lib/roles";
+
+export type AuthUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  accessRole: AccessRole;
+  building: string | null;
+  active: boolean;
+};
+
+export type AuthResult = { ok: true; user: AuthUser } | { ok: false; response: NextResponse };
+
+type OwnedRow = {
+  building?: string | null;
+  created_by_user_id?: string | null;
+  created_by_email?: string | null;
+};
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function deny(status: 401 | 403, error: string): AuthResult {
+  return { ok: false, response: NextResponse.json({ error }, { status }) };
+}
+
+/**
+ * Resolve the caller's Supabase JWT to their user_accounts row.
+ * Like useCurrentUser, the role ALWAYS comes from user_accounts (never from metadata).
+ */
+export async function getAuthUser(request: Request): Promise<AuthUser | null> {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data?.user) return null;
+
+  const email = (data.user.email || "").toLowerCase();
+
+  const { data: rows, error: dbError } = await supabaseAdmin
+    .from("user_accounts")
+    .select("name, access_role, building, active")
+    .eq("email", email)
+    .limit(1);
+
+  if (dbError) {
+    console.error("Error loading user_accounts for API caller", dbError);
+  }
+
+  const row = rows?.[0] as
+    | { name: string | null; access_role: string | null; building: string | null; active: boolean | null }
+    | undefined;
+
+  return {
+    id: data.user.id,
+    email,
+    name: row?.name ?? null,
+    accessRole: sanitizeRole(row?.access_role),
+    building: row?.building ?? null,
+    active: row?.active ?? true,
+  };
+}
+
+/**
+ * Authenticate the request and (optionally) check a permission.
+ *
+ *   const auth = await authorize(request, "containers.write");
+ *   if (!auth.ok) return auth.response;
+ */
+export async function authorize(request: Request, permission?: Permission): Promise<AuthResult> {
+  const user = await getAuthUser(request);
+  if (!user) return deny(401, "Not signed in");
+  if (!user.active) return deny(403, "Account is inactive");
+  if (permission && !hasPermission(user.accessRole, permission)) {
+    return deny(403, "You do not have permission to do that");
+  }
+  return { ok: true, user };
+}
+
+/** Scheduled jobs (vercel.json crons), which authenticate with CRON_SECRET instead of a user. */
+export const CRON_API_ROUTES: readonly string[] = [
+  "/api/notifications/sweep",
+  "/api/messages/retry",
+  "/api/investigations/escalate",
+];
+
+/** True when the request carries `Authorization: Bearer $CRON_SECRET`. Never true while the secret is unset. */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET || "";
+  const token = bearerToken(request);
+  if (!secret || !token) return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Building-scoped roles (Lead, Building Manager) only reach their own building. */
+export function canAccessBuilding(user: AuthUser, building: string | null | undefined): boolean {
+  if (!isBuildingScoped(user.accessRole)) return true;
+  return !!user.building && building === user.building;
+}
+
+export function isRowOwner(user: AuthUser, row: OwnedRow): boolean {
+  const byId = !!row.created_by_user_id && row.created_by_user_id === user.id;
+  const byEmail = !!row.created_by_email && row.created_by_email.toLowerCase() === user.email;
+  return byId || byEmail;
+}
+
+/** Building scope + ownership check for changing an existing row. */
+export function canModifyRow(user: AuthUser, row: OwnedRow): boolean {
+  if (!canAccessBuilding(user, row.building)) return false;
+  if (OWN_ROWS_ONLY_ROLES.includes(user.accessRole)) return isRowOwner(user, row);
+  return true;
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  containerRowToInput,
+  linkedWorkforceIds,
+  linkWorkersToRoster,
+  parseContainerInput,
+  priceContainer,
+} from "@/lib/containerPricing";
+import { mapContainerRow } from "@/lib/domain/containers";
+import { mapWorkforceRow } from "@/lib/domain/workforce";
+import { mapPayScaleRow } from "@/lib/payScale";
+import { containerRows, payScaleRows } from "@/test/fixtures";
+
+const schedules = payScaleRows.map(mapPayScaleRow);
+
+const body = {
+  building: "DC1",
+  shift: "1st",
+  workDate: "2026-03-08",
+  containerNo: "MSCU1234567",
+  piecesTotal: 1200,
+  skusTotal: 12,
+  palletized: false,
+  workers: [
+    { name: "Ana Lopez", minutesWorked: 120, percentContribution: 60 },
+    { name: "Ben Cole", minutesWorked: 90, percentContribution: 40 },
+    { name: "", minutesWorked: 0, percentContribution: 0 },
+  ],
+};
+
+describe("parseContainerInput", () => {
+  it("accepts a valid body and drops blank worker rows", () => {
+    const result = parseContainerInput(body);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value.workers).toHaveLength(2);
+  });
+
+  it.each([
+    [{ building: "" }, "building is required"],
+    [{ workDate: "03/08/2026" }, "workDate must be YYYY-MM-DD"],
+    [{ piecesTotal: 0 }, "piecesTotal must be greater than 0"],
+    [{ skusTotal: -1 }, "skusTotal must be 0 or more"],
+    [{ workers: [{ name: "A", percentContribution: 101 }] }, "percentContribution must be between 0 and 100"],
+    [{ workers: [{ name: "A", percentContribution: 90 }] }, "Worker contribution percentages must total 100%"],
+  ])("rejects %o", (patch, error) => {
+    expect(parseContainerInput({ ...body, ...patch })).toEqual({ ok: false, error });
+  });
+
+  it("allows decimal splits within tolerance", () => {
+    const workers = [
+      { name: "A", percentContribution: 33.33 },
+      { name: "B", percentContribution: 33.33 },
+      { name: "C", percentContribution: 33.33 },
+    ];
+    expect(parseContainerInput({ ...body, workers }).ok).toBe(true);
+  });
+
+  it("merges a partial update over the existing row", () => {
+    const base = containerRowToInput(mapContainerRow(containerRows[0]));
+    const result = parseContainerInput({ piecesTotal: 2000 }, base);
+    expect(result.ok && result.value).toMatchObject({ piecesTotal: 2000, containerNo: "MSCU1234567" });
+    expect(result.ok && result.value.workers).toHaveLength(2);
+  });
+
+  it("dates legacy rows without a work_date by the NY day they were created", () => {
+    const row = mapContainerRow({ ...containerRows[0], work_date: null, created_at: "2026-03-08T02:30:00Z" });
+    expect(containerRowToInput(row).workDate).toBe("2026-03-07");
+  });
+});
+
+describe("linkWorkersToRoster", () => {
+  const roster = [
+    { id: "w-1", name: "Ana Lopez", building: "DC1" },
+    { id: "w-2", name: "Ben Cole", building: "DC1" },
+  ].map(mapWorkforceRow);
+
+  function parsed(workers: unknown[]) {
+    const result = parseContainerInput({ ...body, workers });
+    if (!result.ok) throw new Error(result.error);
+    return result.value;
+  }
+
+  it("takes the roster name for linked workers and keeps unlinked names", () => {
+    const input = parsed([
+      { name: "ana", workforceId: "w-1", percentContribution: 60 },
+      { name: "Temp Worker", percentContribution: 40 },
+    ]);
+    expect(linkedWorkforceIds(input)).toEqual(["w-1"]);
+
+    const result = linkWorkersToRoster(input, roster);
+    expect(result.ok && result.value.workers).toMatchObject([
+      { name: "Ana Lopez", workforceId: "w-1" },
+      { name: "Temp Worker", workforceId: null },
+    ]);
+  });
+
+  it("keeps a worker picked by id alone", () => {
+    const result = linkWorkersToRoster(parsed([{ workforceId: "w-2", percentContribution: 100 }]), roster);
+    expect(result.ok && result.value.workers[0].name).toBe("Ben Cole");
+  });
+
+  it("rejects unknown and repeated workforce ids", () => {
+    const unknown = parsed([{ name: "Zed", workforceId: "w-9", percentContribution: 100 }]);
+    expect(linkWorkersToRoster(unknown, roster)).toEqual({
+      ok: false,
+      error: "Worker Zed is not on the workforce roster",
+    });
+
+    const twice = parsed([
+      { workforceId: "w-1", percentContribution: 50 },
+      { workforceId: "w-1", percentContribution: 50 },
+    ]);
+    expect(linkWorkersToRoster(twice, roster).ok).toBe(false);
+  });
+
+  it("keeps workers already linked on the stored container, even once off the roster", () => {
+    const stored = parsed([
+      { name: "Gone Worker", workforceId: "w-9", percentContribution: 50 },
+      { name: "Ana Lopez", workforceId: "w-1", percentContribution: 50 },
+    ]).workers;
+    const edit = parsed([
+      { name: "renamed", workforceId: "w-9", percentContribution: 50 },
+      { workforceId: "w-2", percentContribution: 50 },
+    ]);
+    expect(linkedWorkforceIds(edit, stored)).toEqual(["w-2"]);
+
+    const result = linkWorkersToRoster(edit, roster, stored);
+    expect(result.ok && result.value.workers.map((w) => w.name)).toEqual(["Gone Worker", "Ben Cole"]);
+
+    const added = parsed([{ name: "Zed", workforceId: "w-8", percentContribution: 100 }]);
+    expect(linkWorkersToRoster(added, roster, stored).ok).toBe(false);
+  });
+});
+
+describe("priceContainer", () => {
+  it("prices from the schedule in effect and ignores client pay", () => {
+    const result = parseContainerInput({ ...body, payTotal: 9999 });
+    if (!result.ok) throw new Error(result.error);
+
+    const row = priceContainer(result.value, schedules);
+    expect(row.pay_scale_id).toBe("ps-2026");
+    expect(row.pay_total).toBe(205); // 1000–3000 tier + 10-SKU modifier
+    expect(row.workers.map((w) => w.payout)).toEqual([123, 82]);
+  });
+
+  it("applies the work order customer's override", () => {
+    const result = parseContainerInput(body);
+    if (!result.ok) throw new Error(result.error);
+
+    const acme = {
+      ...schedules[0],
+      id: "ps-acme",
+      customerId: "cu-acme",
+      customer: "Acme",
+      tiers: [{ maxPieces: 5000, pay: 300 }],
+    };
+    expect(priceContainer(result.value, [...schedules, acme], "cu-acme").pay_scale_id).toBe("ps-acme");
+    expect(priceContainer(result.value, [...schedules, acme]).pay_scale_id).toBe("ps-2026");
+  });
+
+  it("records no pay_scale_id when the default scale applies", () => {
+    const result = parseContainerInput({ ...body, workDate: "2025-06-01" });
+    if (!result.ok) throw new Error(result.error);
+
+    const row = priceContainer(result.value, schedules);
+    expect(row.pay_scale_id).toBeNull();
+    expect(row.pay_total).toBe(130);
+  });
+});
@@ -0,0 +1,232 @@
+// src/lib/containerPricing.ts
+import {
+  applyWorkerPayouts,
+  calculateContainerPay,
+  DEFAULT_PAY_SCALE_ID,
+  resolvePayScale,
+  type PayScaleSchedule,
+} from "@/lib/payScale";
+import { approxEqual, containerDateNY, percentTotal, type ContainerRow } from "@/lib/domain/containers";
+import type { WorkforceWorker } from "@/lib/domain/workforce";
+
+/**
+ * Validation + pricing for container writes coming through /api/containers.
+ * Pay is always recomputed here from pieces/palletized/SKUs and the schedule in
+ * effect on work_date; any pay_total or payout sent by the client is ignored.
+ */
+
+export type ContainerWorkerInput = {
+  name: string;
+  workforceId: string | null;
+  minutesWorked: number;
+  percentContribution: number;
+};
+
+export type ContainerInput = {
+  building: string;
+  shift: string | null;
+  workDate: string; // YYYY-MM-DD
+  containerNo: string;
+  piecesTotal: number;
+  skusTotal: number;
+  workOrderId: string | null;
+  palletized: boolean;
+  damagePieces: number;
+  reworkPieces: number;
+  workers: ContainerWorkerInput[];
+};
+
+export type ParseResult = { ok: true; value: ContainerInput } | { ok: false; error: string };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Same tolerance the entry forms use (decimals allowed).
+const PERCENT_TOLERANCE = 0.02;
+
+function num(v: unknown): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+/** Existing row → input shape, so PATCH can merge a partial body over it. */
+export function containerRowToInput(row: ContainerRow): ContainerInput {
+  return {
+    building: row.building,
+    shift: row.shift,
+    workDate: containerDateNY(row),
+    containerNo: row.container_no,
+    piecesTotal: row.pieces_total,
+    skusTotal: row.skus_total,
+    workOrderId: row.work_order_id,
+    palletized: !!row.palletized,
+    damagePieces: row.damage_pieces,
+    reworkPieces: row.rework_pieces,
+    workers: row.workers.map((w) => ({
+      name: w.name,
+      workforceId: w.workforceId,
+      minutesWorked: w.minutesWorked,
+      percentContribution: w.percentContribution,
+    })),
+  };
+}
+
+/**
+ * Validate a request body. Pass `base` to treat the body as a partial update
+ * (only the keys present in the body override the base).
+ */
+export function parseContainerInput(body: unknown, base?: ContainerInput): ParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+  const has = (k: string) => Object.prototype.hasOwnProperty.call(b, k);
+
+  const building = has("building") ? str(b.building) : base?.building ?? "";
+  const shiftRaw = has("shift") ? str(b.shift) : base?.shift ?? "";
+  const workDate = has("workDate") ? str(b.workDate) : base?.workDate ?? "";
+  const containerNo = has("containerNo") ? str(b.containerNo) : base?.containerNo ?? "";
+  const piecesTotal = has("piecesTotal") ? num(b.piecesTotal) : base?.piecesTotal ?? NaN;
+  const skusTotal = has("skusTotal") ? num(b.skusTotal ?? 0) : base?.skusTotal ?? 0;
+  const damagePieces = has("damagePieces") ? num(b.damagePieces ?? 0) : base?.damagePieces ?? 0;
+  const reworkPieces = has("reworkPieces") ? num(b.reworkPieces ?? 0) : base?.reworkPieces ?? 0;
+  const workOrderId = has("workOrderId") ? str(b.workOrderId) || null : base?.workOrderId ?? null;
+  const palletized = has("palletized") ? b.palletized === true : base?.palletized ?? false;
+
+  if (!building) return { ok: false, error: "building is required" };
+  if (!ISO_DATE.test(workDate)) return { ok: false, error: "workDate must be YYYY-MM-DD" };
+  if (!containerNo) return { ok: false, error: "containerNo is required" };
+  if (!Number.isFinite(piecesTotal) || piecesTotal <= 0) {
+    return { ok: false, error: "piecesTotal must be greater than 0" };
+  }
+  if (!Number.isFinite(skusTotal) || skusTotal < 0) return { ok: false, error: "skusTotal must be 0 or more" };
+  if (!Number.isFinite(damagePieces) || damagePieces < 0 || !Number.isFinite(reworkPieces) || reworkPieces < 0) {
+    return { ok: false, error: "damagePieces and reworkPieces must be 0 or more" };
+  }
+
+  let workers: ContainerWorkerInput[] = base?.workers ?? [];
+  if (has("workers")) {
+    if (!Array.isArray(b.workers)) return { ok: false, error: "workers must be an array" };
+    workers = [];
+    for (const raw of b.workers) {
+      if (!raw || typeof raw !== "object") return { ok: false, error: "Invalid worker entry" };
+      const w = raw as Record<string, unknown>;
+      const name = str(w.name);
+      const workforceId = str(w.workforceId) || null;
+      const minutesWorked = num(w.minutesWorked ?? 0);
+      const percentContribution = num(w.percentContribution ?? 0);
+      if (!Number.isFinite(minutesWorked) || minutesWorked < 0) {
+        return { ok: false, error: "minutesWorked must be 0 or more" };
+      }
+      if (!Number.isFinite(percentContribution) || percentContribution < 0 || percentContribution > 100) {
+        return { ok: false, error: "percentContribution must be between 0 and 100" };
+      }
+      // Blank rows from the entry form are dropped, same as the client did.
+      if ((!name && !workforceId) || percentContribution <= 0) continue;
+      workers.push({ name, workforceId, minutesWorked, percentContribution });
+    }
+  }
+
+  if (workers.length > 0) {
+    if (!approxEqual(percentTotal(workers), 100, PERCENT_TOLERANCE)) {
+      return { ok: false, error: "Worker contribution percentages must total 100%" };
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      building,
+      shift: shiftRaw || null,
+      workDate,
+      containerNo,
+      piecesTotal,
+      skusTotal,
+      workOrderId,
+      palletized,
+      damagePieces,
+      reworkPieces,
+      workers,
+    },
+  };
+}
+
+/**
+ * Linked workers must exist on the roster (`roster` = the workforce rows for
+ * their ids); their name is taken from the roster so renames don't fork history.
+ * Ids already linked on the stored container (`stored`, when editing) keep their
+ * stored name and aren't re-checked, so removing someone from the roster
+ * doesn't lock every container they worked.
+ */
+export function linkWorkersToRoster(
+  input: ContainerInput,
+  roster: WorkforceWorker[],
+  stored: ContainerWorkerInput[] = []
+): ParseResult {
+  const byId = new Map(roster.map((w) => [w.id, w]));
+  const storedNames = new Map(stored.filter((w) => w.workforceId).map((w) => [w.workforceId, w.name]));
+  const workers: ContainerWorkerInput[] = [];
+
+  for (const w of input.workers) {
+    if (!w.workforceId) {
+      if (!w.name) return { ok: false, error: "Each worker needs a name or a workforceId" };
+      workers.push(w);
+      continue;
+    }
+    const storedName = storedNames.get(w.workforceId);
+    if (storedName !== undefined) {
+      workers.push({ ...w, name: storedName });
+      continue;
+    }
+    const person = byId.get(w.workforceId);
+    if (!person) return { ok: false, error: `Worker ${w.name || w.workforceId} is not on the workforce roster` };
+    workers.push({ ...w, name: person.name });
+  }
+
+  const ids = workers.map((w) => w.workforceId).filter(Boolean);
+  if (new Set(ids).size !== ids.length) return { ok: false, error: "A worker is listed more than once" };
+
+  return { ok: true, value: { ...input, workers } };
+}
+
+/** Workforce ids referenced by the input's workers, less any already linked on `stored`. */
+export function linkedWorkforceIds(input: ContainerInput, stored: ContainerWorkerInput[] = []): string[] {
+  const known = new Set(stored.map((w) => w.workforceId));
+  return Array.from(
+    new Set(input.workers.map((w) => w.workforceId).filter((id): id is string => !!id && !known.has(id)))
+  );
+}
+
+/**
+ * Price a validated input and return the columns to write to `containers`.
+ * `customerId` is the customer of the input's work order, for customer overrides.
+ */
+export function priceContainer(
+  input: ContainerInput,
+  schedules: PayScaleSchedule[],
+  customerId: string | null = null
+) {
+  const schedule = resolvePayScale(schedules, { workDate: input.workDate, building: input.building, customerId });
+  const payTotal = calculateContainerPay(input.piecesTotal, {
+    palletized: input.palletized,
+    skusTotal: input.skusTotal,
+    schedule,
+  });
+
+  return {
+    building: input.building,
+    shift: input.shift,
+    work_date: input.workDate,
+    container_no: input.containerNo,
+    pieces_total: input.piecesTotal,
+    skus_total: input.skusTotal,
+    pay_total: payTotal,
+    damage_pieces: input.damagePieces,
+    rework_pieces: input.reworkPieces,
+    workers: applyWorkerPayouts(payTotal, input.workers),
+    work_order_id: input.workOrderId,
+    palletized: input.palletized,
+    pay_scale_id: schedule.id === DEFAULT_PAY_SCALE_ID ? null : schedule.id,
+  };
+}
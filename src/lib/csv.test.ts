@@ -0,0 +1,10 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "@/lib/csv";
+
+describe("toCsv", () => {
+  it("quotes only cells with commas, quotes or newlines", () => {
+    expect(toCsv(["Name", "Note"], [["Lopez, Ana", 'said "hi"'], ["Ben", "line\nbreak"], [null, 3]])).toBe(
+      'Name,Note\n"Lopez, Ana","said ""hi"""\nBen,"line\nbreak"\n,3'
+    );
+  });
+});
@@ -0,0 +1,29 @@
+// src/lib/csv.ts
+
+export type CsvCell = string | number | null | undefined;
+
+function escapeCell(cell: CsvCell): string {
+  const value = String(cell ?? "");
+  if (value.includes(",") || value.includes('"') || value.includes("\n")) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/** RFC 4180-style CSV text (quotes only the cells that need it). */
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return [header.map(escapeCell).join(","), ...rows.map((r) => r.map(escapeCell).join(","))].join("\n");
+}
+
+/** Browser-only: save the CSV as a file download. */
+export function downloadCsv(filename: string, header: string[], rows: CsvCell[][]) {
+  const blob = new Blob([toCsv(header, rows)], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  auditActorHeaders,
+  auditFieldChanges,
+  fetchAuditLog,
+  formatAuditValue,
+  mapAuditEntryRow,
+  type AuditEntryRow,
+} from "@/lib/domain/auditLog";
+import { createSupabaseStub } from "@/test/supabaseStub";
+
+function row(overrides: Partial<AuditEntryRow> = {}): AuditEntryRow {
+  return {
+    id: 1,
+    occurred_at: "2026-10-19T14:00:00.000Z",
+    actor_id: "u-1",
+    actor_email: "manager@example.com",
+    actor_role: "Building Manager",
+    table_name: "containers",
+    record_id: "c-1",
+    action: "update",
+    building: "DC1",
+    before: { pieces_total: 900 },
+    after: { pieces_total: 1000 },
+    changed_fields: ["pieces_total"],
+    ...overrides,
+  };
+}
+
+describe("mapAuditEntryRow", () => {
+  it("maps a stored row", () => {
+    expect(mapAuditEntryRow(row())).toEqual({
+      id: "1",
+      occurredAt: "2026-10-19T14:00:00.000Z",
+      actorId: "u-1",
+      actorEmail: "manager@example.com",
+      actorRole: "Building Manager",
+      tableName: "containers",
+      recordId: "c-1",
+      action: "update",
+      building: "DC1",
+      before: { pieces_total: 900 },
+      after: { pieces_total: 1000 },
+      changedFields: ["pieces_total"],
+    });
+  });
+
+  it("tolerates missing or malformed values", () => {
+    const entry = mapAuditEntryRow(row({ before: "oops", after: [1], changed_fields: null, action: "truncate" }));
+    expect(entry).toMatchObject({ before: null, after: null, changedFields: [], action: "update" });
+  });
+});
+
+describe("auditFieldChanges", () => {
+  it("lists only the changed fields of an update", () => {
+    const entry = mapAuditEntryRow(
+      row({
+        before: { pieces_total: 900, shift: "1st" },
+        after: { pieces_total: 1000, shift: null },
+        changed_fields: ["pieces_total", "shift"],
+      })
+    );
+    expect(auditFieldChanges(entry)).toEqual([
+      { field: "pieces_total", before: 900, after: 1000 },
+      { field: "shift", before: "1st", after: null },
+    ]);
+  });
+
+  it("lists every field of a created or deleted row", () => {
+    const created = mapAuditEntryRow(row({ action: "insert", before: null, after: { skus_total: 4, building: "DC1" } }));
+    expect(auditFieldChanges(created)).toEqual([
+      { field: "building", before: null, after: "DC1" },
+      { field: "skus_total", before: null, after: 4 },
+    ]);
+
+    const deleted = mapAuditEntryRow(row({ action: "delete", before: { id: "c-1" }, after: null }));
+    expect(auditFieldChanges(deleted)).toEqual([{ field: "id", before: "c-1", after: null }]);
+  });
+});
+
+describe("formatAuditValue", () => {
+  it("renders scalars, blanks and objects", () => {
+    expect(formatAuditValue(null)).toBe("—");
+    expect(formatAuditValue("")).toBe("—");
+    expect(formatAuditValue(false)).toBe("false");
+    expect(formatAuditValue([{ name: "Ana" }])).toBe('[{"name":"Ana"}]');
+  });
+});
+
+describe("auditActorHeaders", () => {
+  it("names the caller", () => {
+    expect(auditActorHeaders({ id: "u-1", email: "hq@example.com", accessRole: "HQ" })).toEqual({
+      "x-audit-actor-id": "u-1",
+      "x-audit-actor-email": "hq@example.com",
+      "x-audit-actor-role": "HQ",
+    });
+  });
+});
+
+describe("fetchAuditLog", () => {
+  const rows = [
+    row({ id: 1, occurred_at: "2026-10-18T03:30:00.000Z" }), // Oct 17 in New York
+    row({ id: 2, occurred_at: "2026-10-18T14:00:00.000Z", table_name: "work_orders", record_id: "wo-1" }),
+    row({ id: 3, occurred_at: "2026-10-19T03:59:00.000Z", actor_email: "hq@example.com", building: "DC5" }),
+    row({ id: 4, occurred_at: "2026-10-19T04:00:00.000Z" }), // Oct 19 in New York
+  ];
+
+  it("returns newest first within New York days", async () => {
+    const stub = createSupabaseStub({ audit_log: rows });
+    const { data, error } = await fetchAuditLog(stub.client, { from: "2026-10-18", to: "2026-10-18" });
+    expect(error).toBeNull();
+    expect(data.map((e) => e.id)).toEqual(["3", "2"]);
+  });
+
+  it("filters by actor, table, record and building", async () => {
+    const stub = createSupabaseStub({ audit_log: rows });
+    expect((await fetchAuditLog(stub.client, { actor: " HQ@" })).data.map((e) => e.id)).toEqual(["3"]);
+    expect((await fetchAuditLog(stub.client, { table: "work_orders", recordId: "wo-1" })).data.map((e) => e.id)).toEqual([
+      "2",
+    ]);
+    expect((await fetchAuditLog(stub.client, { building: "DC5" })).data.map((e) => e.id)).toEqual(["3"]);
+  });
+
+  it("caps the page size", async () => {
+    const stub = createSupabaseStub({ audit_log: rows });
+    expect((await fetchAuditLog(stub.client, { limit: 2 })).data).toHaveLength(2);
+    expect(stub.calls).toContainEqual({ table: "audit_log", method: "limit", args: [2] });
+  });
+});
@@ -0,0 +1,210 @@
+// src/lib/domain/auditLog.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AccessRole } from "@/lib/roles";
+import { addDaysYMD, nyWallTimeToDate } from "@/lib/time";
+
+/**
+ * Append-only audit log. A trigger on each audited table writes one row per
+ * insert / update / delete (see the audit_log migration), so writes are
+ * recorded whether they come from a page or an API route. The actor is the
+ * signed-in user's JWT; API routes writing with the service role pass the
+ * caller along in AUDIT_ACTOR_HEADERS (see supabaseAdminAs). Updates keep only
+ * the fields that changed.
+ */
+
+export const AUDIT_LOG_TABLE = "audit_log";
+
+export const AUDITED_TABLES = [
+  "containers",
+  "work_orders",
+  "workforce",
+  "user_accounts",
+  "profiles",
+  "injury_reports",
+  "damage_reports",
+  "startup_checklists",
+  "injury_case_events",
+  "injury_case_tasks",
+  "investigations",
+  "corrective_actions",
+  "hazard_reports",
+  "payroll_adjustments",
+  "pay_scales",
+  "time_punches",
+  "shift_assignments",
+  "customers",
+  "invoices",
+] as const;
+export type AuditedTable = (typeof AUDITED_TABLES)[number];
+
+export const AUDITED_TABLE_LABELS: Record<AuditedTable, string> = {
+  containers: "Containers",
+  work_orders: "Work Orders",
+  workforce: "Workforce",
+  user_accounts: "User Accounts",
+  profiles: "User Profiles",
+  injury_reports: "Injury Reports",
+  damage_reports: "Damage Reports",
+  startup_checklists: "Shift Readiness",
+  injury_case_events: "Injury Case Timeline",
+  injury_case_tasks: "Injury Case Tasks",
+  investigations: "Investigations",
+  corrective_actions: "Corrective Actions",
+  hazard_reports: "Hazard Reports",
+  payroll_adjustments: "Payroll Adjustments",
+  pay_scales: "Pay Scales",
+  time_punches: "Time Punches",
+  shift_assignments: "Shift Schedules",
+  customers: "Customers",
+  invoices: "Invoices",
+};
+
+/** Tables whose detail pages show a record's history to anyone who can see the record. */
+export const RECORD_HISTORY_TABLES: readonly AuditedTable[] = ["containers", "work_orders"];
+
+export const AUDIT_ACTIONS = ["insert", "update", "delete"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+// Read by the trigger only for service-role requests, so a browser can't spoof them
+export const AUDIT_ACTOR_HEADERS = {
+  id: "x-audit-actor-id",
+  email: "x-audit-actor-email",
+  role: "x-audit-actor-role",
+} as const;
+
+export const AUDIT_LOG_PAGE_SIZE = 200;
+
+export type AuditEntry = {
+  id: string;
+  occurredAt: string;
+  actorId: string | null;
+  actorEmail: string | null; // null for system writes (cron, migrations)
+  actorRole: string | null;
+  tableName: string;
+  recordId: string;
+  action: AuditAction;
+  building: string | null;
+  before: Record<string, unknown> | null; // delete: the row; update: changed fields only
+  after: Record<string, unknown> | null; // insert: the row; update: changed fields only
+  changedFields: string[];
+};
+
+/** One row of the `audit_log` table. */
+export type AuditEntryRow = {
+  id: string | number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  table_name: string;
+  record_id: string;
+  action: string;
+  building: string | null;
+  before: unknown;
+  after: unknown;
+  changed_fields: string[] | null;
+};
+
+export type AuditLogFilters = {
+  actor?: string | null; // substring of the actor's email
+  table?: AuditedTable | null;
+  recordId?: string | null;
+  building?: string | null;
+  from?: string | null; // YYYY-MM-DD (New York), inclusive
+  to?: string | null; // YYYY-MM-DD (New York), inclusive
+  limit?: number;
+};
+
+export type AuditFieldChange = { field: string; before: unknown; after: unknown };
+
+export function isAuditedTable(v: unknown): v is AuditedTable {
+  return typeof v === "string" && (AUDITED_TABLES as readonly string[]).includes(v);
+}
+
+function isAuditAction(v: unknown): v is AuditAction {
+  return typeof v === "string" && (AUDIT_ACTIONS as readonly string[]).includes(v);
+}
+
+function asObject(v: unknown): Record<string, unknown> | null {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+}
+
+export function mapAuditEntryRow(row: AuditEntryRow): AuditEntry {
+  return {
+    id: String(row.id),
+    occurredAt: row.occurred_at,
+    actorId: row.actor_id,
+    actorEmail: row.actor_email,
+    actorRole: row.actor_role,
+    tableName: row.table_name,
+    recordId: String(row.record_id),
+    action: isAuditAction(row.action) ? row.action : "update",
+    building: row.building,
+    before: asObject(row.before),
+    after: asObject(row.after),
+    changedFields: Array.isArray(row.changed_fields) ? row.changed_fields : [],
+  };
+}
+
+/** Field-by-field view of an entry: what changed on update, every field on insert / delete. */
+export function auditFieldChanges(entry: AuditEntry): AuditFieldChange[] {
+  const fields =
+    entry.action === "update"
+      ? entry.changedFields
+      : Object.keys((entry.action === "insert" ? entry.after : entry.before) ?? {}).sort();
+  return fields.map((field) => ({
+    field,
+    before: entry.before?.[field] ?? null,
+    after: entry.after?.[field] ?? null,
+  }));
+}
+
+/** One-line display of a logged value; objects / arrays as compact JSON. */
+export function formatAuditValue(v: unknown): string {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "string") return v;
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  try {
+    return JSON.stringify(v);
+  } catch {
+    return String(v);
+  }
+}
+
+/** Headers naming the caller on a service-role client. */
+export function auditActorHeaders(actor: { id: string; email: string; accessRole: AccessRole }): Record<string, string> {
+  return {
+    [AUDIT_ACTOR_HEADERS.id]: actor.id,
+    [AUDIT_ACTOR_HEADERS.email]: actor.email,
+    [AUDIT_ACTOR_HEADERS.role]: actor.accessRole,
+  };
+}
+
+/** Newest first, at most `limit` (AUDIT_LOG_PAGE_SIZE) entries. */
+export async function fetchAuditLog(
+  client: SupabaseClient,
+  filters: AuditLogFilters = {}
+): Promise<{ data: AuditEntry[]; error: unknown }> {
+  let query = client
+    .from(AUDIT_LOG_TABLE)
+    .select("*")
+    .order("occurred_at", { ascending: false })
+    .limit(filters.limit ?? AUDIT_LOG_PAGE_SIZE);
+
+  if (filters.table) query = query.eq("table_name", filters.table);
+  if (filters.recordId) query = query.eq("record_id", filters.recordId);
+  if (filters.building) query = query.eq("building", filters.building);
+  if (filters.actor?.trim()) query = query.ilike("actor_email", `%${filters.actor.trim().toLowerCase()}%`);
+  if (filters.from) query = query.gte("occurred_at", nyWallTimeToDate(filters.from, "00:00").toISOString());
+  if (filters.to) query = query.lt("occurred_at", nyWallTimeToDate(addDaysYMD(filters.to, 1), "00:00").toISOString());
+
+  const { data, error } = await query;
+  if (error) return { data: [], error };
+  return { data: ((data || []) as AuditEntryRow[]).map(mapAuditEntryRow), error: null };
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  canSeeChatMessage,
+  chatNotifications,
+  chatRepliesByParent,
+  chatReplyFields,
+  chatUnreadCounts,
+  findChatMentions,
+  mapChatRow,
+  markChatChannelsRead,
+  parseChatMessageInput,
+  splitChatMentions,
+  type ChatPerson,
+  type ChatRow,
+} from "@/lib/domain/chats";
+
+function row(partial: Partial<ChatRow>): ChatRow {
+  return {
+    id: "m-1",
+    created_at: "2026-10-19T12:00:00.000000+00:00",
+    building: "DC1",
+    shift: "1st",
+    channel: "General",
+    message: "Dock 4 is clear",
+    author_name: "Ana Lopez",
+    author_email: "ana@example.com",
+    author_role: "Lead",
+    ...partial,
+  };
+}
+
+describe("mapChatRow", () => {
+  it("fills defaults for missing columns", () => {
+    const m = mapChatRow(row({ id: "7", shift: null, channel: null, author_role: null }));
+    expect(m).toMatchObject({ id: "7", shift: "1st", channel: "General", authorRole: undefined });
+  });
+});
+
+describe("chatUnreadCounts", () => {
+  const messages = [
+    row({ id: "1", created_at: "2026-10-19T11:00:00Z" }),
+    row({ id: "2", created_at: "2026-10-19T13:00:00.5+00:00" }),
+    row({ id: "3", channel: "Safety", created_at: "2026-10-19T13:00:00Z" }),
+    row({ id: "4", channel: "Safety", created_at: "2026-10-19T14:00:00Z", author_email: "ME@example.com" }),
+  ].map(mapChatRow);
+
+  it("counts messages after each channel's mark, skipping the user's own", () => {
+    const counts = chatUnreadCounts(messages, { General: "2026-10-19T12:00:00.000Z" }, "me@example.com");
+    expect(counts).toEqual({ General: 1, "Shift Ops": 0, HR: 0, Safety: 1, Other: 0 });
+  });
+});
+
+describe("markChatChannelsRead", () => {
+  it("moves marks forward only", () => {
+    const lastRead = { General: "2026-10-19T12:00:00Z", HR: "2026-10-19T15:00:00Z" };
+    expect(markChatChannelsRead(lastRead, ["General", "HR", "Safety"], "2026-10-19T14:00:00Z")).toEqual({
+      General: "2026-10-19T14:00:00Z",
+      HR: "2026-10-19T15:00:00Z",
+      Safety: "2026-10-19T14:00:00Z",
+    });
+  });
+});
+
+const people: ChatPerson[] = [
+  { email: "ana@example.com", name: "Ana Lopez", building: "DC1", role: "Lead" },
+  { email: "ana.b@example.com", name: "Ana", building: "DC5", role: "Worker" },
+  { email: "ben.cole@example.com", name: "Ben Cole", building: "DC1", role: "Supervisor" },
+];
+
+describe("parseChatMessageInput", () => {
+  it("accepts channel messages, direct messages and replies", () => {
+    expect(parseChatMessageInput({ message: " Dock 4 ", building: "DC1", channel: "Safety" })).toEqual({
+      ok: true,
+      value: { message: "Dock 4", building: "DC1", shift: "1st", channel: "Safety", parentId: null, recipientEmail: null },
+    });
+    expect(parseChatMessageInput({ message: "hi", recipient_email: "Ana@Example.com" })).toMatchObject({
+      ok: true,
+      value: { channel: "Direct", recipientEmail: "ana@example.com" },
+    });
+    expect(parseChatMessageInput({ message: "ok", parent_id: "m-1" })).toMatchObject({
+      ok: true,
+      value: { parentId: "m-1" },
+    });
+  });
+
+  it("rejects empty messages, missing buildings and unknown channels", () => {
+    expect(parseChatMessageInput({ message: "  ", building: "DC1" })).toEqual({ ok: false, error: "message is required" });
+    expect(parseChatMessageInput({ message: "hi" }).ok).toBe(false);
+    expect(parseChatMessageInput({ message: "hi", building: "DC1", channel: "Gossip" }).ok).toBe(false);
+  });
+});
+
+describe("findChatMentions / splitChatMentions", () => {
+  it("prefers the longest name and accepts email handles", () => {
+    expect(findChatMentions("@ana lopez and @Ana, ask @ben.cole", people)).toEqual([
+      "ana@example.com",
+      "ana.b@example.com",
+      "ben.cole@example.com",
+    ]);
+  });
+
+  it("ignores email addresses and partial words", () => {
+    expect(findChatMentions("mail ana@example.com or @Anabel", people)).toEqual([]);
+  });
+
+  it("splits a message around its mentions", () => {
+    const parts = splitChatMentions("Thanks @Ben Cole!", people);
+    expect(parts.map((p) => [p.text, p.mention?.email ?? null])).toEqual([
+      ["Thanks ", null],
+      ["@Ben Cole", "ben.cole@example.com"],
+      ["!", null],
+    ]);
+  });
+});
+
+describe("direct messages and threads", () => {
+  const dm = mapChatRow(row({ id: "d-1", channel: "Direct", recipient_email: "Ben.Cole@example.com" }));
+
+  it("shows direct messages to their participants only", () => {
+    expect(canSeeChatMessage(dm, "ben.cole@example.com")).toBe(true);
+    expect(canSeeChatMessage(dm, "ANA@example.com")).toBe(true);
+    expect(canSeeChatMessage(dm, "cara@example.com")).toBe(false);
+    expect(canSeeChatMessage(mapChatRow(row({})), null)).toBe(true);
+  });
+
+  it("hangs replies off the top-level message and addresses the other participant", () => {
+    const reply = mapChatRow(row({
+        id: "d-2",
+        parent_id: "d-1",
+        channel: "Direct",
+        author_email: "ben.cole@example.com",
+        recipient_email: "ana@example.com",
+      }));
+    expect(chatReplyFields(reply, "ana@example.com")).toMatchObject({ parentId: "d-1", recipientEmail: "ben.cole@example.com" });
+    expect(chatReplyFields(dm, "ben.cole@example.com")).toMatchObject({ parentId: "d-1", recipientEmail: "ana@example.com" });
+  });
+
+  it("groups replies by parent, oldest first", () => {
+    const replies = [
+      row({ id: "r-2", parent_id: "m-1", created_at: "2026-10-19T13:00:00Z" }),
+      row({ id: "r-1", parent_id: "m-1", created_at: "2026-10-19T12:30:00Z" }),
+      row({ id: "m-2" }),
+    ].map(mapChatRow);
+    const byParent = chatRepliesByParent(replies);
+    expect(byParent.get("m-1")?.map((m) => m.id)).toEqual(["r-1", "r-2"]);
+    expect(byParent.has("m-2")).toBe(false);
+  });
+});
+
+describe("chatNotifications", () => {
+  it("notifies the DM recipient and mentioned users once, never the author", () => {
+    const m = mapChatRow(
+      row({
+        id: "d-1",
+        channel: "Direct",
+        recipient_email: "ben.cole@example.com",
+        mentions: ["ben.cole@example.com", "ana@example.com", "cara@example.com"],
+      })
+    );
+    const out = chatNotifications(m);
+    expect(out.map((n) => [n.user_email, n.type])).toEqual([
+      ["ben.cole@example.com", "chat.dm"],
+      ["cara@example.com", "chat.mention"],
+    ]);
+    expect(out[0]).toMatchObject({ title: "Ana Lopez sent you a direct message", source_table: "chats", source_id: "d-1" });
+  });
+});
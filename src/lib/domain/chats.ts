@@ -0,0 +1,355 @@
+// src/lib/domain/chats.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BUILDINGS } from "@/lib/buildings";
+import type { NotificationInput } from "@/lib/domain/notifications";
+
+/**
+ * Building / shift chat messages, threaded replies and direct messages.
+ * Written through /api/chats (which resolves @mentions and raises
+ * notifications); the list stays current through Supabase Realtime.
+ */
+
+export const CHATS_TABLE = "chats";
+
+// localStorage cache read by the dashboard
+export const CHATS_KEY = "precisionpulse_chats";
+
+// Per-channel "read up to" timestamps for the unread badges, per user on this
+// device (dock tablets are shared): `${CHAT_LAST_READ_KEY}:${email}`
+export const CHAT_LAST_READ_KEY = "precisionpulse_chat_last_read";
+
+export const CHAT_CHANNELS = ["General", "Shift Ops", "HR", "Safety", "Other"] as const;
+
+// Channel stored on direct messages; they are never listed under a building channel
+export const DIRECT_CHANNEL = "Direct";
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+export type ChatMessage = {
+  id: string;
+  building: string;
+  shift: string;
+  channel: string;
+  message: string;
+  createdAt: string; // ISO
+  authorName?: string;
+  authorEmail?: string;
+  authorRole?: string;
+  parentId: string | null; // set on replies: the top-level message of the thread
+  recipientEmail: string | null; // set on direct messages
+  mentions: string[]; // lower-cased emails
+};
+
+/** One row of the `chats` table. */
+export type ChatRow = {
+  id: string;
+  created_at: string;
+  building: string | null;
+  shift: string | null;
+  channel: string | null;
+  message: string | null;
+  author_name: string | null;
+  author_email: string | null;
+  author_role: string | null;
+  parent_id?: string | null;
+  recipient_email?: string | null;
+  mentions?: string[] | null;
+};
+
+/** Someone who can be messaged or @mentioned (an active user_accounts row). */
+export type ChatPerson = {
+  email: string; // lower-cased
+  name: string;
+  building: string | null;
+  role: string | null;
+};
+
+/** A validated POST /api/chats body, before a reply inherits its thread. */
+export type ChatMessageInput = {
+  message: string;
+  building: string;
+  shift: string;
+  channel: string;
+  parentId: string | null;
+  recipientEmail: string | null;
+};
+
+export type ChatMessageParseResult = { ok: true; value: ChatMessageInput } | { ok: false; error: string };
+
+/** A run of message text, or an @mention of someone. */
+export type ChatMessagePart = { text: string; mention: ChatPerson | null };
+
+/** channel → ISO timestamp of the newest message the user has seen there. */
+export type ChatLastRead = Record<string, string>;
+
+export function mapChatRow(row: ChatRow): ChatMessage {
+  return {
+    id: String(row.id),
+    building: row.building ?? (BUILDINGS[0] ?? "DC18"),
+    shift: row.shift ?? "1st",
+    channel: row.channel ?? "General",
+    message: row.message ?? "",
+    createdAt: row.created_at ?? new Date().toISOString(),
+    authorName: row.author_name ?? undefined,
+    authorEmail: row.author_email ?? undefined,
+    authorRole: row.author_role ?? undefined,
+    parentId: row.parent_id ? String(row.parent_id) : null,
+    recipientEmail: row.recipient_email ? row.recipient_email.toLowerCase() : null,
+    mentions: (row.mentions ?? []).map((e) => e.toLowerCase()),
+  };
+}
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+/**
+ * Validate a chat body from the API. A reply only needs `message` and
+ * `parent_id`; a direct message needs `recipient_email` instead of a channel.
+ */
+export function parseChatMessageInput(body: unknown): ChatMessageParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const message = text(b.message);
+  if (!message) return { ok: false, error: "message is required" };
+  if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return { ok: false, error: `message must be ${MAX_CHAT_MESSAGE_LENGTH} characters or fewer` };
+  }
+
+  const parentId = text(b.parent_id) || null;
+  const recipientEmail = text(b.recipient_email).toLowerCase() || null;
+  const building = text(b.building);
+  const shift = text(b.shift) || "1st";
+
+  if (parentId) {
+    return { ok: true, value: { message, building, shift, channel: "", parentId, recipientEmail: null } };
+  }
+  if (recipientEmail) {
+    return { ok: true, value: { message, building, shift, channel: DIRECT_CHANNEL, parentId: null, recipientEmail } };
+  }
+
+  if (!building) return { ok: false, error: "building is required" };
+  const channel = text(b.channel) || "General";
+  if (!(CHAT_CHANNELS as readonly string[]).includes(channel)) {
+    return { ok: false, error: `channel must be one of: ${CHAT_CHANNELS.join(", ")}` };
+  }
+  return { ok: true, value: { message, building, shift, channel, parentId: null, recipientEmail: null } };
+}
+
+export function isDirectMessage(m: Pick<ChatMessage, "recipientEmail">): boolean {
+  return !!m.recipientEmail;
+}
+
+/** Channel messages are visible to everyone in scope; direct messages only to their two participants. */
+export function canSeeChatMessage(m: ChatMessage, email: string | null | undefined): boolean {
+  if (!m.recipientEmail) return true;
+  const me = (email || "").toLowerCase();
+  return !!me && (m.recipientEmail === me || (m.authorEmail || "").toLowerCase() === me);
+}
+
+/** The other participant of a direct message, seen from `selfEmail`. */
+export function directMessagePartner(m: ChatMessage, selfEmail: string | null | undefined): string {
+  const me = (selfEmail || "").toLowerCase();
+  const author = (m.authorEmail || "").toLowerCase();
+  return author === me ? m.recipientEmail ?? "" : author;
+}
+
+/**
+ * Thread placement for a reply: replies always hang off the top-level message
+ * and keep its building / shift / channel. A reply in a direct thread goes to
+ * the other participant.
+ */
+export function chatReplyFields(
+  parent: ChatMessage,
+  authorEmail: string
+): Pick<ChatMessageInput, "building" | "shift" | "channel" | "parentId" | "recipientEmail"> {
+  return {
+    building: parent.building,
+    shift: parent.shift,
+    channel: parent.channel,
+    parentId: parent.parentId ?? parent.id,
+    recipientEmail: parent.recipientEmail ? directMessagePartner(parent, authorEmail) || null : null,
+  };
+}
+
+/** Replies grouped under their top-level message id, oldest first. */
+export function chatRepliesByParent(messages: ChatMessage[]): Map<string, ChatMessage[]> {
+  const map = new Map<string, ChatMessage[]>();
+  for (const m of messages) {
+    if (!m.parentId) continue;
+    const list = map.get(m.parentId) ?? [];
+    list.push(m);
+    map.set(m.parentId, list);
+  }
+  for (const list of map.values()) list.sort((a, b) => time(a.createdAt) - time(b.createdAt));
+  return map;
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return !!ch && /[\p{L}\p{N}_]/u.test(ch);
+}
+
+/**
+ * `@Full Name` or `@handle` (the part of the email before "@"), matched
+ * case-insensitively at a word boundary. Longer names win, so "@Ana Lopez"
+ * isn't read as "@Ana" when both exist; a name beats a handle of the same length.
+ */
+function scanChatMentions(message: string, people: ChatPerson[]): { start: number; end: number; person: ChatPerson }[] {
+  const labels = people
+    .flatMap((p) => [
+      { label: p.name.trim().toLowerCase(), person: p, handle: 0 },
+      { label: p.email.split("@")[0].toLowerCase(), person: p, handle: 1 },
+    ])
+    .filter((l) => l.label)
+    .sort((a, b) => b.label.length - a.label.length || a.handle - b.handle);
+
+  const lower = message.toLowerCase();
+  const found: { start: number; end: number; person: ChatPerson }[] = [];
+  for (let i = lower.indexOf("@"); i !== -1; i = lower.indexOf("@", i + 1)) {
+    if (isWordChar(lower[i - 1])) continue; // part of an email address
+    const hit = labels.find((l) => lower.startsWith(l.label, i + 1) && !isWordChar(lower[i + 1 + l.label.length]));
+    if (!hit) continue;
+    const end = i + 1 + hit.label.length;
+    found.push({ start: i, end, person: hit.person });
+    i = end - 1;
+  }
+  return found;
+}
+
+/** Emails of the people @mentioned in a message, in order, without repeats. */
+export function findChatMentions(message: string, people: ChatPerson[]): string[] {
+  return Array.from(new Set(scanChatMentions(message, people).map((m) => m.person.email.toLowerCase())));
+}
+
+/** Split a message into text and @mention parts for highlighting. */
+export function splitChatMentions(message: string, people: ChatPerson[]): ChatMessagePart[] {
+  const parts: ChatMessagePart[] = [];
+  let at = 0;
+  for (const m of scanChatMentions(message, people)) {
+    if (m.start > at) parts.push({ text: message.slice(at, m.start), mention: null });
+    parts.push({ text: message.slice(m.start, m.end), mention: m.person });
+    at = m.end;
+  }
+  if (at < message.length) parts.push({ text: message.slice(at), mention: null });
+  return parts;
+}
+
+const NOTIFICATION_PREVIEW_LENGTH = 140;
+
+/**
+ * In-app notifications for a new message: the recipient of a direct message,
+ * and everyone @mentioned. The author is never notified, and nobody twice.
+ */
+export function chatNotifications(m: ChatMessage): NotificationInput[] {
+  const author = m.authorName || m.authorEmail || "Someone";
+  const self = (m.authorEmail || "").toLowerCase();
+  const body =
+    m.message.length > NOTIFICATION_PREVIEW_LENGTH ? `${m.message.slice(0, NOTIFICATION_PREVIEW_LENGTH - 1)}…` : m.message;
+  const base = { body, link: "/chats", building: m.building || null, source_table: CHATS_TABLE, source_id: m.id };
+
+  const out: NotificationInput[] = [];
+  const notified = new Set<string>([self]);
+
+  if (m.recipientEmail && !notified.has(m.recipientEmail)) {
+    notified.add(m.recipientEmail);
+    out.push({ ...base, user_email: m.recipientEmail, type: "chat.dm", title: `${author} sent you a direct message` });
+  }
+  for (const email of m.mentions) {
+    if (notified.has(email)) continue;
+    notified.add(email);
+    out.push({
+      ...base,
+      user_email: email,
+      type: "chat.mention",
+      title: `${author} mentioned you in ${m.building} · ${m.channel}`,
+    });
+  }
+  return out;
+}
+
+function time(iso: string | undefined): number {
+  const t = iso ? Date.parse(iso) : NaN;
+  return Number.isNaN(t) ? 0 : t;
+}
+
+/**
+ * Unread messages per channel: newer than the channel's last-read mark and
+ * not written by the user. Pass messages already narrowed to the building /
+ * shift being viewed.
+ */
+export function chatUnreadCounts(
+  messages: ChatMessage[],
+  lastRead: ChatLastRead,
+  selfEmail: string | null | undefined
+): Record<string, number> {
+  const me = (selfEmail || "").toLowerCase();
+  const counts: Record<string, number> = Object.fromEntries(CHAT_CHANNELS.map((c) => [c, 0]));
+
+  for (const m of messages) {
+    if (me && (m.authorEmail || "").toLowerCase() === me) continue;
+    if (time(m.createdAt) <= time(lastRead[m.channel])) continue;
+    counts[m.channel] = (counts[m.channel] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** Mark channels read up to `at`; never moves a mark backwards. */
+export function markChatChannelsRead(lastRead: ChatLastRead, channels: readonly string[], at: string): ChatLastRead {
+  const next = { ...lastRead };
+  for (const c of channels) {
+    if (time(at) > time(next[c])) next[c] = at;
+  }
+  return next;
+}
+
+/** Active user accounts, by name: who can be messaged directly or @mentioned. */
+export async function fetchChatPeople(client: SupabaseClient): Promise<{ data: ChatPerson[]; error: unknown }> {
+  const { data, error } = await client
+    .from("user_accounts")
+    .select("email, name, building, access_role, active")
+    .order("name", { ascending: true });
+
+  const rows = (data || []) as {
+    email: string | null;
+    name: string | null;
+    building: string | null;
+    access_role: string | null;
+    active: boolean | null;
+  }[];
+  return {
+    data: error
+      ? []
+      : rows
+          .filter((r) => r.email && r.active !== false)
+          .map((r) => ({
+            email: (r.email as string).toLowerCase(),
+            name: (r.name || "").trim() || (r.email as string),
+            building: r.building ?? null,
+            role: r.access_role ?? null,
+          })),
+    error,
+  };
+}
+
+function lastReadKey(email: string): string {
+  return `${CHAT_LAST_READ_KEY}:${email.toLowerCase()}`;
+}
+
+export function readChatLastRead(email: string): ChatLastRead {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(lastReadKey(email)) || "{}") as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, unknown>).filter((e): e is [string, string] => typeof e[1] === "string")
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function writeChatLastRead(email: string, lastRead: ChatLastRead): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(lastReadKey(email), JSON.stringify(lastRead));
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  containerDateNY,
+  containerMinutes,
+  dedupeContainers,
+  extractContainersFromWorkOrders,
+  fetchAllContainers,
+  fetchContainer,
+  fetchContainers,
+  mapContainerRow,
+} from "@/lib/domain/containers";
+import { createSupabaseStub } from "@/test/supabaseStub";
+import { containerRows, legacyContainer, workOrderWithNestedContainers } from "@/test/fixtures";
+
+describe("mapContainerRow", () => {
+  it("maps a Supabase row and coerces numeric strings", () => {
+    const c = mapContainerRow(containerRows[1]);
+    expect(c.pieces_total).toBe(400);
+    expect(c.pay_total).toBe(100);
+    expect(c.palletized).toBe(true);
+    expect(c.work_date).toBeNull();
+    expect(c.damage_pieces).toBe(0);
+  });
+
+  it("maps the legacy localStorage shape onto the canonical keys", () => {
+    const c = mapContainerRow(legacyContainer);
+    expect(c).toMatchObject({
+      id: "legacy-1",
+      created_at: "2026-03-07T15:00:00.000Z",
+      work_date: "2026-03-07",
+      container_no: "OOLU1111111",
+      pieces_total: 800,
+      pay_total: 130,
+      work_order_id: "wo-9",
+    });
+    expect(c.workers).toEqual([
+      { name: "Dee Park", workforceId: null, minutesWorked: 45, percentContribution: 100, payout: 130 },
+    ]);
+  });
+
+  it("never throws on junk", () => {
+    expect(mapContainerRow(null).workers).toEqual([]);
+    expect(mapContainerRow({ workers: [null, 3, { name: "X" }] }).workers).toHaveLength(1);
+  });
+});
+
+describe("containerDateNY", () => {
+  it("prefers work_date", () => {
+    expect(containerDateNY(mapContainerRow(containerRows[0]))).toBe("2026-03-08");
+  });
+
+  it("falls back to the New York date of created_at", () => {
+    expect(containerDateNY(mapContainerRow(containerRows[1]))).toBe("2026-03-08");
+  });
+});
+
+describe("containerMinutes", () => {
+  it("sums worker minutes", () => {
+    expect(containerMinutes(mapContainerRow(containerRows[0]))).toBe(210);
+  });
+});
+
+describe("extractContainersFromWorkOrders", () => {
+  it("pulls nested containers and inherits building, shift and work order id", () => {
+    const out = extractContainersFromWorkOrders([workOrderWithNestedContainers, { id: "wo-empty" }, null]);
+    expect(out).toHaveLength(2);
+    expect(out[0]).toMatchObject({ id: "legacy-1", building: "DC18", shift: "3rd", work_order_id: "wo-9" });
+    expect(out[1]).toMatchObject({ id: "", building: "DC18", work_order_id: "wo-9", pieces_total: 300 });
+  });
+
+  it("finds containers under any of the legacy list keys", () => {
+    const wo = { id: "wo-3", building: "DC1", entries: [{ id: "e-1", piecesTotal: 10 }] };
+    expect(extractContainersFromWorkOrders([wo]).map((c) => c.id)).toEqual(["e-1"]);
+  });
+});
+
+describe("dedupeContainers", () => {
+  it("drops a container saved both standalone and inside its work order", () => {
+    const standalone = [mapContainerRow(legacyContainer)];
+    const nested = extractContainersFromWorkOrders([workOrderWithNestedContainers]);
+    const merged = dedupeContainers([...standalone, ...nested]);
+    expect(merged.map((c) => c.id)).toEqual(["legacy-1", ""]);
+  });
+
+  it("fingerprints rows without an id by work order, created_at and pieces", () => {
+    const a = mapContainerRow({ workOrderId: "wo-1", createdAt: "2026-03-07T16:00:00Z", piecesTotal: 5 });
+    const b = mapContainerRow({ workOrderId: "wo-1", createdAt: "2026-03-07T16:00:00Z", piecesTotal: 6 });
+    expect(dedupeContainers([a, a, b])).toHaveLength(2);
+  });
+});
+
+describe("fetchContainers", () => {
+  it("applies filters and maps rows, newest first", async () => {
+    const stub = createSupabaseStub({ containers: containerRows });
+    const { data, error } = await fetchContainers(stub.client, { building: "DC1" });
+
+    expect(error).toBeNull();
+    expect(data.map((c) => c.id)).toEqual(["c-2", "c-1"]);
+    expect(stub.calls).toContainEqual({ table: "containers", method: "eq", args: ["building", "DC1"] });
+  });
+
+  it("filters on work_date for date ranges", async () => {
+    const stub = createSupabaseStub({ containers: containerRows });
+    const { data } = await fetchContainers(stub.client, { from: "2026-03-09", to: "2026-03-31" });
+    expect(data.map((c) => c.id)).toEqual(["c-3"]);
+  });
+
+  it("returns an empty list with the error when the query fails", async () => {
+    const stub = createSupabaseStub({ containers: containerRows }, { errors: { containers: { message: "boom" } } });
+    const { data, error } = await fetchContainers(stub.client);
+    expect(data).toEqual([]);
+    expect(error).toEqual({ message: "boom" });
+  });
+});
+
+describe("fetchAllContainers", () => {
+  it("pages past the 1000-row cap and keeps containers without a work date", async () => {
+    const rows = Array.from({ length: 1001 }, (_, i) => ({
+      ...containerRows[0],
+      id: `c-${String(i).padStart(4, "0")}`,
+      work_date: i === 1000 ? null : "2026-03-01",
+    }));
+    const stub = createSupabaseStub({ containers: rows });
+    const { data, error } = await fetchAllContainers(stub.client, { building: "DC1" });
+
+    expect(error).toBeNull();
+    expect(data).toHaveLength(1001);
+    expect(data[1000].work_date).toBeNull();
+    expect(stub.calls.filter((c) => c.method === "range").map((c) => c.args)).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+  });
+
+  it("dates containers without a work_date by their NY creation day", async () => {
+    const stub = createSupabaseStub({ containers: containerRows });
+    const march8 = await fetchAllContainers(stub.client, { from: "2026-03-08", to: "2026-03-08" });
+    expect(march8.data.map((c) => c.id)).toEqual(["c-2", "c-1"]);
+
+    const later = await fetchAllContainers(stub.client, { from: "2026-03-09", to: "2026-03-10" });
+    expect(later.data.map((c) => c.id)).toEqual(["c-3"]);
+  });
+});
+
+describe("fetchContainer", () => {
+  it("returns null when the id does not exist", async () => {
+    const stub = createSupabaseStub({ containers: containerRows });
+    expect((await fetchContainer(stub.client, "c-3")).data?.container_no).toBe("CMAU0000001");
+    expect((await fetchContainer(stub.client, "missing")).data).toBeNull();
+  });
+});
@@ -0,0 +1,352 @@
+// src/lib/domain/containers.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDaysYMD, toNYDateOnly } from "@/lib/time";
+
+export const CONTAINERS_TABLE = "containers";
+
+// localStorage cache read by the dashboard, reports and shifts pages
+export const CONTAINERS_KEY = "precisionpulse_containers";
+
+export type WorkerContribution = {
+  name: string;
+  workforceId: string | null; // workforce row; null on entries made before linking
+  minutesWorked: number;
+  percentContribution: number; // supports decimals
+  payout: number;
+};
+
+/** One row of the `containers` table, after mapping. */
+export type ContainerRow = {
+  id: string;
+  created_at: string;
+  building: string;
+  shift: string | null;
+  work_date: string | null; // YYYY-MM-DD
+  container_no: string;
+  pieces_total: number;
+  skus_total: number;
+  pay_total: number;
+  workers: WorkerContribution[];
+  damage_pieces: number;
+  rework_pieces: number;
+  work_order_id: string | null;
+  palletized: boolean | null;
+  pay_scale_id: string | null;
+  created_by_user_id: string | null;
+  created_by_email: string | null;
+  updated_at: string | null; // sent back as If-Match when an edit is queued offline
+};
+
+/** Shape written to CONTAINERS_KEY. */
+export type LocalContainer = {
+  id: string;
+  building: string;
+  shift: string;
+  date: string;
+  createdAt: string;
+  containerNo: string;
+  piecesTotal: number;
+  skusTotal: number;
+  containerPayTotal: number;
+  workOrderId: string | null;
+  workers: WorkerContribution[];
+  palletized: boolean;
+};
+
+export type ContainerFilters = {
+  building?: string | null;
+  shift?: string | null;
+  workOrderId?: string | null;
+  from?: string | null; // work_date >= (YYYY-MM-DD)
+  to?: string | null; // work_date <= (YYYY-MM-DD)
+};
+
+type Rec = Record<string, unknown>;
+
+function isRecord(v: unknown): v is Rec {
+  return typeof v === "object" && v !== null;
+}
+
+/** First key holding a finite number (numeric strings allowed). */
+function pickNumber(rec: Rec, keys: string[]): number | null {
+  for (const k of keys) {
+    const v = rec[k];
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+    if (typeof v === "string" && v.trim() !== "" && Number.isFinite(Number(v))) return Number(v);
+  }
+  return null;
+}
+
+function pickString(rec: Rec, keys: string[]): string | null {
+  for (const k of keys) {
+    const v = rec[k];
+    if (typeof v === "string" && v.trim() !== "") return v;
+    if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  }
+  return null;
+}
+
+/**
+ * Older entries stored workers as workerName/payoutAmount/minutes/etc.
+ * Everything is read through here so pages only ever see the canonical keys.
+ */
+export function mapWorkerContribution(raw: unknown): WorkerContribution | null {
+  if (!isRecord(raw)) return null;
+  return {
+    name: (pickString(raw, ["name", "workerName", "fullName", "worker_name"]) ?? "").trim(),
+    workforceId: pickString(raw, ["workforceId", "workforce_id", "workerId", "worker_id"]),
+    minutesWorked:
+      pickNumber(raw, ["minutesWorked", "minutes", "mins", "timeMinutes", "totalMinutes", "minutes_worked"]) ?? 0,
+    percentContribution: pickNumber(raw, ["percentContribution", "percent", "share", "sharePercent"]) ?? 0,
+    payout: pickNumber(raw, ["payout", "payoutAmount", "pay", "payAmount", "amount"]) ?? 0,
+  };
+}
+
+export function mapWorkers(raw: unknown): WorkerContribution[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(mapWorkerContribution).filter((w): w is WorkerContribution => w !== null);
+}
+
+/**
+ * Map a Supabase row OR a legacy/localStorage container object to a ContainerRow.
+ */
+export function mapContainerRow(raw: unknown): ContainerRow {
+  const r: Rec = isRecord(raw) ? raw : {};
+  const workDate = pickString(r, ["work_date", "workDate", "date"]);
+
+  return {
+    id: pickString(r, ["id", "containerId", "container_id"]) ?? "",
+    created_at: pickString(r, ["created_at", "createdAt", "timestamp", "savedAt"]) ?? "",
+    building: pickString(r, ["building", "bldg", "location"]) ?? "",
+    shift: pickString(r, ["shift", "shift_name", "shiftName"]),
+    work_date: workDate ? toNYDateOnly(workDate) : null,
+    container_no:
+      pickString(r, ["container_no", "containerNo", "container_number", "container_num"]) ??
+      pickString(r, ["id"]) ??
+      "",
+    pieces_total:
+      pickNumber(r, [
+        "pieces_total",
+        "piecesTotal",
+        "pieces",
+        "total_pieces",
+        "totalPieces",
+        "pieceCount",
+        "piece_count",
+      ]) ?? 0,
+    skus_total: pickNumber(r, ["skus_total", "skusTotal", "skuCount", "total_skus"]) ?? 0,
+    pay_total:
+      pickNumber(r, ["pay_total", "container_pay_total", "containerPayTotal", "containerPay", "totalPay"]) ?? 0,
+    workers: mapWorkers(r.workers),
+    damage_pieces: pickNumber(r, ["damage_pieces", "damagePieces"]) ?? 0,
+    rework_pieces: pickNumber(r, ["rework_pieces", "reworkPieces"]) ?? 0,
+    work_order_id: pickString(r, ["work_order_id", "workOrderId", "workOrderID", "workorder_id"]),
+    palletized: typeof r.palletized === "boolean" ? r.palletized : null,
+    pay_scale_id: pickString(r, ["pay_scale_id", "payScaleId"]),
+    created_by_user_id: pickString(r, ["created_by_user_id", "createdByUserId"]),
+    created_by_email: pickString(r, ["created_by_email", "createdByEmail"]),
+    updated_at: pickString(r, ["updated_at", "updatedAt"]),
+  };
+}
+
+/** Work date, falling back to the NY calendar date of created_at. */
+export function containerDateNY(c: ContainerRow): string {
+  return toNYDateOnly(c.work_date) || toNYDateOnly(c.created_at) || "";
+}
+
+export function containerMinutes(c: ContainerRow): number {
+  return c.workers.reduce((sum, w) => sum + w.minutesWorked, 0);
+}
+
+export function blankWorker(): WorkerContribution {
+  return { name: "", workforceId: null, minutesWorked: 0, percentContribution: 0, payout: 0 };
+}
+
+// Per-worker totals key linked contributions by workforce id ("wf:<id>") and
+// unlinked ones by lower-cased name, so a renamed roster row keeps its history.
+const WORKFORCE_KEY_PREFIX = "wf:";
+
+export function contributionKey(w: Pick<WorkerContribution, "name" | "workforceId">): string {
+  return w.workforceId ? WORKFORCE_KEY_PREFIX + w.workforceId : w.name.trim().toLowerCase();
+}
+
+/** Workforce id from a contributionKey(), or null for a name key. */
+export function workforceIdFromKey(key: string): string | null {
+  return key.startsWith(WORKFORCE_KEY_PREFIX) ? key.slice(WORKFORCE_KEY_PREFIX.length) || null : null;
+}
+
+export function approxEqual(a: number, b: number, tolerance = 0.01): boolean {
+  return Math.abs(a - b) <= tolerance;
+}
+
+export function percentTotal(workers: { percentContribution: number }[]): number {
+  return workers.reduce((sum, w) => sum + (Number(w.percentContribution) || 0), 0);
+}
+
+export function toLocalContainer(c: ContainerRow): LocalContainer {
+  return {
+    id: c.id,
+    building: c.building,
+    shift: c.shift ?? "",
+    date: c.work_date ?? c.created_at,
+    createdAt: c.created_at,
+    containerNo: c.container_no,
+    piecesTotal: c.pieces_total,
+    skusTotal: c.skus_total,
+    containerPayTotal: c.pay_total,
+    workOrderId: c.work_order_id,
+    workers: c.workers,
+    palletized: !!c.palletized,
+  };
+}
+
+export function writeLocalContainers(rows: ContainerRow[]): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(CONTAINERS_KEY, JSON.stringify(rows.map(toLocalContainer)));
+}
+
+export function readLocalContainers(): ContainerRow[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(CONTAINERS_KEY) || "[]") as unknown;
+    return Array.isArray(parsed) ? parsed.map(mapContainerRow) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * ✅ Containers may live INSIDE cached work orders.
+ * Pulls them out and inherits building/shift/work order id from the parent.
+ */
+export function extractContainersFromWorkOrders(workOrders: unknown[]): ContainerRow[] {
+  const out: ContainerRow[] = [];
+
+  for (const wo of workOrders) {
+    if (!isRecord(wo)) continue;
+    const woId = pickString(wo, ["id", "workOrderId", "work_order_id"]);
+
+    const list = [wo.containers, wo.containerEntries, wo.container_entries, wo.entries, wo.items].find((c) =>
+      Array.isArray(c)
+    );
+    if (!Array.isArray(list)) continue;
+
+    for (const raw of list) {
+      if (!isRecord(raw)) continue;
+      const c = mapContainerRow(raw);
+      out.push({
+        ...c,
+        work_order_id: c.work_order_id || woId,
+        building: c.building || pickString(wo, ["building"]) || "",
+        shift: c.shift || pickString(wo, ["shift", "shift_name"]),
+      });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * ✅ De-dupe containers so we don't double count if saved in two places.
+ * Uses id if present, otherwise a work order | created_at | pieces fingerprint.
+ */
+export function dedupeContainers(rows: ContainerRow[]): ContainerRow[] {
+  const seen = new Set<string>();
+  const out: ContainerRow[] = [];
+
+  for (const r of rows) {
+    const fp = r.id ? `id:${r.id}` : `fp:${r.work_order_id ?? ""}|${r.created_at}|${r.pieces_total}`;
+    if (seen.has(fp)) continue;
+    seen.add(fp);
+    out.push(r);
+  }
+
+  return out;
+}
+
+/** Newest first. */
+export async function fetchContainers(
+  client: SupabaseClient,
+  filters: ContainerFilters = {}
+): Promise<{ data: ContainerRow[]; error: unknown }> {
+  let query = client.from(CONTAINERS_TABLE).select("*").order("created_at", { ascending: false });
+
+  if (filters.building) query = query.eq("building", filters.building);
+  if (filters.shift) query = query.eq("shift", filters.shift);
+  if (filters.workOrderId) query = query.eq("work_order_id", filters.workOrderId);
+  if (filters.from) query = query.gte("work_date", filters.from);
+  if (filters.to) query = query.lte("work_date", filters.to);
+
+  const { data, error } = await query;
+  return { data: error ? [] : ((data || []) as unknown[]).map(mapContainerRow), error };
+}
+
+// PostgREST caps a response at 1000 rows, so whole-table scans go page by page.
+const CONTAINER_SCAN_PAGE_SIZE = 1000;
+
+// One paged pass. `undated` scans rows without a work_date, narrowed by a
+// created_at window a day wider than the range (NY vs UTC).
+async function scanContainers(
+  client: SupabaseClient,
+  filters: ContainerFilters,
+  undated: boolean
+): Promise<{ data: ContainerRow[]; error: unknown }> {
+  const out: ContainerRow[] = [];
+  for (let offset = 0; ; offset += CONTAINER_SCAN_PAGE_SIZE) {
+    let query = client
+      .from(CONTAINERS_TABLE)
+      .select("*")
+      .order("id", { ascending: true })
+      .range(offset, offset + CONTAINER_SCAN_PAGE_SIZE - 1);
+    if (filters.building) query = query.eq("building", filters.building);
+    if (filters.shift) query = query.eq("shift", filters.shift);
+    if (filters.workOrderId) query = query.eq("work_order_id", filters.workOrderId);
+    if (undated) {
+      query = query.is("work_date", null);
+      if (filters.from) query = query.gte("created_at", addDaysYMD(filters.from, -1));
+      if (filters.to) query = query.lt("created_at", addDaysYMD(filters.to, 2));
+    } else {
+      if (filters.from) query = query.gte("work_date", filters.from);
+      if (filters.to) query = query.lte("work_date", filters.to);
+    }
+
+    const { data, error } = await query;
+    if (error) return { data: [], error };
+    out.push(...((data || []) as unknown[]).map(mapContainerRow));
+    if (!data || data.length < CONTAINER_SCAN_PAGE_SIZE) return { data: out, error: null };
+  }
+}
+
+/**
+ * Every matching container (no row cap), newest first, for scans that must
+ * see them all. A date range matches containerDateNY(), so containers without
+ * a work_date count on the NY day they were created.
+ */
+export async function fetchAllContainers(
+  client: SupabaseClient,
+  filters: ContainerFilters = {}
+): Promise<{ data: ContainerRow[]; error: unknown }> {
+  const dated = await scanContainers(client, filters, false);
+  if (dated.error) return dated;
+
+  let undated: ContainerRow[] = [];
+  if (filters.from || filters.to) {
+    const scanned = await scanContainers(client, filters, true);
+    if (scanned.error) return scanned;
+    undated = scanned.data.filter((c) => {
+      const d = containerDateNY(c);
+      return (!filters.from || d >= filters.from) && (!filters.to || d <= filters.to);
+    });
+  }
+
+  const data = [...dated.data, ...undated].sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+  return { data, error: null };
+}
+
+export async function fetchContainer(
+  client: SupabaseClient,
+  id: string
+): Promise<{ data: ContainerRow | null; error: unknown }> {
+  const { data, error } = await client.from(CONTAINERS_TABLE).select("*").eq("id", id).maybeSingle();
+  return { data: data ? mapContainerRow(data) : null, error };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { mapContainerRow } from "@/lib/domain/containers";
+import {
+  containerCustomerId,
+  customerIdByWorkOrder,
+  customersForBuilding,
+  fetchCustomers,
+  mapCustomerRow,
+  parseCustomerInput,
+  type Customer,
+} from "@/lib/domain/customers";
+import { normalizeWorkOrder } from "@/lib/domain/workOrders";
+import { createSupabaseStub } from "@/test/supabaseStub";
+import { containerRows } from "@/test/fixtures";
+
+function customer(partial: Partial<Customer>): Customer {
+  return {
+    id: "cu",
+    createdAt: "",
+    name: "Customer",
+    buildings: [],
+    contacts: [],
+    billingTerms: "Net 30",
+    billingEmail: null,
+    billingAddress: "",
+    defaultRateCardId: null,
+    notes: "",
+    active: true,
+    ...partial,
+  };
+}
+
+describe("parseCustomerInput", () => {
+  it("trims fields, drops empty contacts and defaults the terms", () => {
+    const parsed = parseCustomerInput({
+      name: " Acme ",
+      buildings: ["DC1", "DC1", ""],
+      contacts: [{ name: "Jo", email: "jo@acme.com", role: "Billing" }, { name: " ", email: "" }],
+      billingEmail: "",
+    });
+    expect(parsed).toEqual({
+      ok: true,
+      value: expect.objectContaining({
+        name: "Acme",
+        buildings: ["DC1"],
+        contacts: [{ name: "Jo", email: "jo@acme.com", phone: "", role: "Billing" }],
+        billingTerms: "Net 30",
+        billingEmail: null,
+        defaultRateCardId: null,
+      }),
+    });
+  });
+
+  it("rejects a missing name, unknown terms and bad emails", () => {
+    expect(parseCustomerInput({ billingTerms: "Net 30" })).toEqual({ ok: false, error: "name is required" });
+    expect(parseCustomerInput({ name: "X", billingTerms: "Net 90" }).ok).toBe(false);
+    expect(parseCustomerInput({ name: "X", billingEmail: "nope" })).toEqual({
+      ok: false,
+      error: "billingEmail is not a valid email",
+    });
+    expect(parseCustomerInput({ name: "X", contacts: [{ email: "a@b" }] }).ok).toBe(false);
+  });
+});
+
+describe("mapCustomerRow", () => {
+  it("tolerates null columns", () => {
+    const c = mapCustomerRow({
+      id: "cu-1",
+      created_at: "2026-03-01T00:00:00Z",
+      name: "Acme",
+      buildings: null,
+      contacts: "not json",
+      billing_terms: "bogus",
+      billing_email: "",
+      billing_address: null,
+      default_rate_card_id: null,
+      notes: null,
+      active: null,
+    });
+    expect(c).toMatchObject({ buildings: [], contacts: [], billingTerms: "Net 30", billingEmail: null, active: true });
+  });
+});
+
+describe("customer scope", () => {
+  it("lists active customers that work in the building", () => {
+    const list = [
+      customer({ id: "any" }),
+      customer({ id: "dc1", buildings: ["DC1"] }),
+      customer({ id: "dc5", buildings: ["DC5"] }),
+      customer({ id: "retired", active: false }),
+    ];
+    expect(customersForBuilding(list, "DC1").map((c) => c.id)).toEqual(["any", "dc1"]);
+    expect(customersForBuilding(list, null).map((c) => c.id)).toEqual(["any", "dc1", "dc5"]);
+  });
+
+  it("resolves a container's customer through its work order", () => {
+    const byWorkOrder = customerIdByWorkOrder([
+      normalizeWorkOrder({ id: "wo-1", customer_id: "cu-1" }),
+      normalizeWorkOrder({ id: "wo-2" }),
+    ]);
+    const [c1, c2, c3] = containerRows.map(mapContainerRow);
+    expect(containerCustomerId(c1, byWorkOrder)).toBe("cu-1");
+    expect(containerCustomerId(c2, byWorkOrder)).toBeNull(); // no work order
+    expect(containerCustomerId(c3, byWorkOrder)).toBeNull(); // work order without customer
+  });
+});
+
+describe("fetchCustomers", () => {
+  it("can limit to active customers", async () => {
+    const { client } = createSupabaseStub({
+      customers: [
+        { id: "cu-1", name: "Acme", active: true },
+        { id: "cu-2", name: "Globex", active: false },
+      ],
+    });
+    const { data } = await fetchCustomers(client, { activeOnly: true });
+    expect(data.map((c) => c.name)).toEqual(["Acme"]);
+  });
+});
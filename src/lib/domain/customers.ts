@@ -0,0 +1,198 @@
+// src/lib/domain/customers.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ContainerRow } from "@/lib/domain/containers";
+import { WORK_ORDERS_TABLE, type WorkOrderRecord } from "@/lib/domain/workOrders";
+
+/**
+ * Who the work is done for. A work order carries customer_id, and a container
+ * belongs to the customer of its work order, so reports and invoices group
+ * containers through customerIdByWorkOrder(). Customers are retired
+ * (active = false) rather than deleted so old work orders keep their link.
+ */
+
+export const CUSTOMERS_TABLE = "customers";
+
+export const BILLING_TERMS = ["Due on receipt", "Net 15", "Net 30", "Net 45", "Net 60"] as const;
+export type BillingTerms = (typeof BILLING_TERMS)[number];
+
+export const DEFAULT_BILLING_TERMS: BillingTerms = "Net 30";
+
+// Label for containers whose work order has no customer
+export const UNASSIGNED_CUSTOMER = "Unassigned";
+
+export type CustomerContact = {
+  name: string;
+  email: string;
+  phone: string;
+  role: string; // "Billing", "Receiving", ...
+};
+
+export type Customer = {
+  id: string;
+  createdAt: string;
+  name: string;
+  buildings: string[]; // buildings that work for this customer; empty = any
+  contacts: CustomerContact[];
+  billingTerms: BillingTerms;
+  billingEmail: string | null;
+  billingAddress: string;
+  defaultRateCardId: string | null;
+  notes: string;
+  active: boolean;
+};
+
+/** One row of the `customers` table. */
+export type CustomerRow = {
+  id: string;
+  created_at: string;
+  name: string;
+  buildings: string[] | null;
+  contacts: unknown;
+  billing_terms: string | null;
+  billing_email: string | null;
+  billing_address: string | null;
+  default_rate_card_id: string | null;
+  notes: string | null;
+  active: boolean | null;
+};
+
+export type CustomerInput = Omit<Customer, "id" | "createdAt">;
+
+export type CustomerParseResult = { ok: true; value: CustomerInput } | { ok: false; error: string };
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+export function isBillingTerms(v: unknown): v is BillingTerms {
+  return typeof v === "string" && (BILLING_TERMS as readonly string[]).includes(v);
+}
+
+/** Contacts are stored as a jsonb array; anything without a name or email is dropped. */
+export function mapCustomerContacts(raw: unknown): CustomerContact[] {
+  if (!Array.isArray(raw)) return [];
+  const out: CustomerContact[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const r = item as Record<string, unknown>;
+    const contact = { name: text(r.name), email: text(r.email), phone: text(r.phone), role: text(r.role) };
+    if (contact.name || contact.email) out.push(contact);
+  }
+  return out;
+}
+
+export function mapCustomerRow(row: CustomerRow): Customer {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    name: row.name,
+    buildings: Array.isArray(row.buildings) ? row.buildings.filter((b) => typeof b === "string" && b) : [],
+    contacts: mapCustomerContacts(row.contacts),
+    billingTerms: isBillingTerms(row.billing_terms) ? row.billing_terms : DEFAULT_BILLING_TERMS,
+    billingEmail: row.billing_email || null,
+    billingAddress: row.billing_address ?? "",
+    defaultRateCardId: row.default_rate_card_id || null,
+    notes: row.notes ?? "",
+    active: row.active !== false,
+  };
+}
+
+export function customerToRow(customer: CustomerInput) {
+  return {
+    name: customer.name,
+    buildings: customer.buildings,
+    contacts: customer.contacts,
+    billing_terms: customer.billingTerms,
+    billing_email: customer.billingEmail,
+    billing_address: customer.billingAddress || null,
+    default_rate_card_id: customer.defaultRateCardId,
+    notes: customer.notes || null,
+    active: customer.active,
+  };
+}
+
+/** Validate a customer body from the API. */
+export function parseCustomerInput(body: unknown): CustomerParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const name = text(b.name);
+  if (!name) return { ok: false, error: "name is required" };
+
+  const billingTerms = b.billingTerms === undefined || b.billingTerms === "" ? DEFAULT_BILLING_TERMS : b.billingTerms;
+  if (!isBillingTerms(billingTerms)) {
+    return { ok: false, error: `billingTerms must be one of: ${BILLING_TERMS.join(", ")}` };
+  }
+
+  const billingEmail = text(b.billingEmail) || null;
+  if (billingEmail && !EMAIL_RE.test(billingEmail)) return { ok: false, error: "billingEmail is not a valid email" };
+
+  const contacts = mapCustomerContacts(b.contacts);
+  const badContact = contacts.find((c) => c.email && !EMAIL_RE.test(c.email));
+  if (badContact) return { ok: false, error: `Contact email "${badContact.email}" is not valid` };
+
+  const buildings = Array.isArray(b.buildings) ? b.buildings.map(text).filter(Boolean) : [];
+
+  return {
+    ok: true,
+    value: {
+      name,
+      buildings: Array.from(new Set(buildings)),
+      contacts,
+      billingTerms,
+      billingEmail,
+      billingAddress: text(b.billingAddress),
+      defaultRateCardId: text(b.defaultRateCardId) || null,
+      notes: text(b.notes),
+      active: b.active !== false,
+    },
+  };
+}
+
+/** Active customers that work in this building (or in any building). */
+export function customersForBuilding(customers: Customer[], building: string | null | undefined): Customer[] {
+  return customers.filter((c) => c.active && (!building || c.buildings.length === 0 || c.buildings.includes(building)));
+}
+
+export function customerIdByWorkOrder(workOrders: WorkOrderRecord[]): Map<string, string | null> {
+  const map = new Map<string, string | null>();
+  for (const wo of workOrders) map.set(String(wo.id), wo.customerId ?? null);
+  return map;
+}
+
+/** A container's customer comes from its work order; null when either is missing. */
+export function containerCustomerId(c: ContainerRow, byWorkOrder: Map<string, string | null>): string | null {
+  return c.work_order_id ? byWorkOrder.get(c.work_order_id) ?? null : null;
+}
+
+/** Name order; pass activeOnly for pickers. */
+export async function fetchCustomers(
+  client: SupabaseClient,
+  filters: { activeOnly?: boolean } = {}
+): Promise<{ data: Customer[]; error: unknown }> {
+  let query = client.from(CUSTOMERS_TABLE).select("*").order("name", { ascending: true });
+  if (filters.activeOnly) query = query.eq("active", true);
+
+  const { data, error } = await query;
+  return { data: error ? [] : ((data || []) as CustomerRow[]).map(mapCustomerRow), error };
+}
+
+export async function fetchCustomer(
+  client: SupabaseClient,
+  id: string
+): Promise<{ data: Customer | null; error: unknown }> {
+  const { data, error } = await client.from(CUSTOMERS_TABLE).select("*").eq("id", id).maybeSingle();
+  return { data: data ? mapCustomerRow(data as CustomerRow) : null, error };
+}
+
+/** The customer behind a work order (what pay scale overrides match on); null when unlinked. */
+export async function fetchWorkOrderCustomerId(
+  client: SupabaseClient,
+  workOrderId: string | null
+): Promise<{ data: string | null; error: unknown }> {
+  if (!workOrderId) return { data: null, error: null };
+  const { data, error } = await client.from(WORK_ORDERS_TABLE).select("customer_id").eq("id", workOrderId).maybeSingle();
+  return { data: (data as { customer_id?: string | null } | null)?.customer_id ?? null, error };
+}
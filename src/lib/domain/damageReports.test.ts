@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { damageReportRowToInput, mapDamageReportRow, parseDamageReportInput } from "@/lib/domain/damageReports";
+
+const row = {
+  id: "d-1",
+  created_at: "2026-03-08T12:00:00Z",
+  updated_at: "2026-03-08T13:00:00Z",
+  building: "DC1",
+  shift: "1st",
+  container_no: "MSCU1234567",
+  pieces_total: 1200,
+  pieces_damaged: 12,
+  status: "In Review",
+  reporter_name: null,
+  notes: null,
+};
+
+describe("damage reports", () => {
+  it("maps a row", () => {
+    expect(mapDamageReportRow(row)).toMatchObject({
+      id: "d-1",
+      containerNo: "MSCU1234567",
+      piecesDamaged: 12,
+      reporterName: "",
+      updatedAt: "2026-03-08T13:00:00Z",
+    });
+  });
+
+  it("validates a new report", () => {
+    expect(
+      parseDamageReportInput({ building: "DC1", container_no: " MSCU1 ", pieces_total: "10", pieces_damaged: "" })
+    ).toEqual({
+      ok: true,
+      value: {
+        building: "DC1",
+        shift: "1st",
+        container_no: "MSCU1",
+        pieces_total: 10,
+        pieces_damaged: 0,
+        status: "Open",
+        reporter_name: null,
+        notes: null,
+      },
+    });
+    expect(parseDamageReportInput({ building: "DC1" })).toEqual({ ok: false, error: "container_no is required" });
+    expect(parseDamageReportInput({ building: "DC1", container_no: "X", pieces_total: -1 }).ok).toBe(false);
+    expect(parseDamageReportInput({ building: "DC1", container_no: "X", status: "Lost" }).ok).toBe(false);
+  });
+
+  it("merges a partial edit over the stored report", () => {
+    const parsed = parseDamageReportInput({ status: "Closed" }, damageReportRowToInput(row));
+    expect(parsed).toMatchObject({ ok: true, value: { status: "Closed", pieces_damaged: 12, building: "DC1" } });
+  });
+});
@@ -0,0 +1,139 @@
+// src/lib/domain/damageReports.ts
+import { BUILDINGS } from "@/lib/buildings";
+
+/**
+ * Damage found while unloading a container. Written through
+ * /api/damage-reports so the offline queue can replay them.
+ */
+
+export const DAMAGE_REPORTS_TABLE = "damage_reports";
+
+// localStorage cache of the last loaded list
+export const DAMAGE_REPORTS_KEY = "precisionpulse_damage_reports";
+
+export const DAMAGE_REPORT_STATUSES = ["Open", "In Review", "Closed"] as const;
+export type DamageReportStatus = (typeof DAMAGE_REPORT_STATUSES)[number];
+
+export type DamageReport = {
+  id: string;
+  building: string;
+  shift: string;
+  containerNo: string;
+  piecesTotal: number;
+  piecesDamaged: number;
+  status: string;
+  reporterName?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string | null;
+};
+
+/** One row of the `damage_reports` table. */
+export type DamageReportRow = {
+  id: string;
+  created_at: string;
+  updated_at?: string | null;
+  building: string | null;
+  shift: string | null;
+  container_no: string | null;
+  pieces_total: number | null;
+  pieces_damaged: number | null;
+  status: string | null;
+  reporter_name: string | null;
+  notes: string | null;
+};
+
+/** Columns written by create/update. */
+export type DamageReportInput = {
+  building: string;
+  shift: string;
+  container_no: string;
+  pieces_total: number;
+  pieces_damaged: number;
+  status: DamageReportStatus;
+  reporter_name: string | null;
+  notes: string | null;
+};
+
+export type DamageReportParseResult = { ok: true; value: DamageReportInput } | { ok: false; error: string };
+
+export function mapDamageReportRow(row: DamageReportRow): DamageReport {
+  return {
+    id: String(row.id),
+    building: row.building ?? (BUILDINGS[0] || "DC18"),
+    shift: row.shift ?? "1st",
+    containerNo: row.container_no ?? "",
+    piecesTotal: row.pieces_total ?? 0,
+    piecesDamaged: row.pieces_damaged ?? 0,
+    status: row.status ?? "Open",
+    reporterName: row.reporter_name ?? "",
+    notes: row.notes ?? "",
+    createdAt: row.created_at ?? new Date().toISOString(),
+    updatedAt: row.updated_at ?? null,
+  };
+}
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function count(v: unknown): number | null {
+  if (v === undefined || v === null || v === "") return 0;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/**
+ * Validate a damage report body from the API. Pass `base` (the stored row,
+ * mapped to input) to merge a partial edit over it.
+ */
+export function parseDamageReportInput(body: unknown, base?: DamageReportInput): DamageReportParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = { ...(base ?? {}), ...(body as Record<string, unknown>) } as Record<string, unknown>;
+
+  const building = text(b.building);
+  if (!building) return { ok: false, error: "building is required" };
+
+  const containerNo = text(b.container_no);
+  if (!containerNo) return { ok: false, error: "container_no is required" };
+
+  const piecesTotal = count(b.pieces_total);
+  const piecesDamaged = count(b.pieces_damaged);
+  if (piecesTotal === null || piecesDamaged === null) {
+    return { ok: false, error: "pieces_total and pieces_damaged must be numbers of 0 or more" };
+  }
+
+  const status = b.status === undefined || b.status === "" ? "Open" : b.status;
+  if (!(DAMAGE_REPORT_STATUSES as readonly unknown[]).includes(status)) {
+    return { ok: false, error: `status must be one of: ${DAMAGE_REPORT_STATUSES.join(", ")}` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      building,
+      shift: text(b.shift) || "1st",
+      container_no: containerNo,
+      pieces_total: piecesTotal,
+      pieces_damaged: piecesDamaged,
+      status: status as DamageReportStatus,
+      reporter_name: text(b.reporter_name) || null,
+      notes: text(b.notes) || null,
+    },
+  };
+}
+
+export function damageReportRowToInput(row: DamageReportRow): DamageReportInput {
+  return {
+    building: row.building ?? "",
+    shift: row.shift ?? "1st",
+    container_no: row.container_no ?? "",
+    pieces_total: row.pieces_total ?? 0,
+    pieces_damaged: row.pieces_damaged ?? 0,
+    status: (DAMAGE_REPORT_STATUSES as readonly string[]).includes(row.status ?? "")
+      ? (row.status as DamageReportStatus)
+      : "Open",
+    reporter_name: row.reporter_name,
+    notes: row.notes,
+  };
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+  HAZARD_TREND_WEEKS,
+  hazardTrends,
+  mapHazardReportRow,
+  mergeHazardReports,
+  parseHazardPhoto,
+  parseHazardReportInput,
+  parseHazardTriageInput,
+  sortHazardQueue,
+  type HazardReport,
+  type HazardReportRow,
+} from "@/lib/domain/hazardReports";
+import { investigationSourceDetails } from "@/lib/domain/investigations";
+import { hazardReportedEvent } from "@/lib/notificationEvents";
+
+const TODAY = "2026-10-19"; // a Monday
+
+function report(overrides: Partial<HazardReportRow>): HazardReport {
+  return mapHazardReportRow({
+    id: "h1",
+    created_at: "2026-10-15T14:00:00Z",
+    updated_at: null,
+    building: "DC1",
+    shift: "1st",
+    report_type: "near_miss",
+    category: "falling_load",
+    severity: "high",
+    dock_area: "racking",
+    location: "Aisle C",
+    description: "Carton fell from top shelf",
+    occurred_at: null,
+    photo_path: null,
+    anonymous: false,
+    reporter_user_id: "u1",
+    reporter_email: "worker@example.com",
+    reporter_name: "Ana",
+    status: "new",
+    triage_notes: null,
+    triaged_at: null,
+    triaged_by_email: null,
+    ...overrides,
+  });
+}
+
+const valid = {
+  building: " DC1 ",
+  report_type: "hazard",
+  category: "trailer_dock",
+  severity: "critical",
+  dock_area: "dock_doors",
+  location: " Door 14 ",
+  description: "Dock plate lip cracked",
+};
+
+describe("parsing", () => {
+  it("validates a report and keeps anonymous only when explicitly true", () => {
+    const parsed = parseHazardReportInput({ ...valid, anonymous: "yes" });
+    expect(parsed).toEqual({
+      ok: true,
+      value: {
+        building: "DC1",
+        shift: null,
+        report_type: "hazard",
+        category: "trailer_dock",
+        severity: "critical",
+        dock_area: "dock_doors",
+        location: "Door 14",
+        description: "Dock plate lip cracked",
+        occurred_at: null,
+        anonymous: false,
+        photo: null,
+      },
+    });
+    expect(parseHazardReportInput({ ...valid, anonymous: true })).toMatchObject({ ok: true, value: { anonymous: true } });
+    expect(parseHazardReportInput({ ...valid, dock_area: "roof" }).ok).toBe(false);
+    expect(parseHazardReportInput({ ...valid, location: " " }).ok).toBe(false);
+    expect(parseHazardReportInput({ ...valid, occurred_at: "yesterday" }).ok).toBe(false);
+  });
+
+  it("only takes image data URLs for the photo", () => {
+    expect(parseHazardPhoto("data:image/jpeg;base64,/9j/4AAQ")).toEqual({
+      ok: true,
+      value: { contentType: "image/jpeg", extension: "jpg", base64: "/9j/4AAQ" },
+    });
+    expect(parseHazardPhoto("data:image/svg+xml;base64,PHN2Zz4=").ok).toBe(false);
+    expect(parseHazardPhoto("https://example.com/a.jpg").ok).toBe(false);
+    expect(parseHazardReportInput({ ...valid, photo: "data:text/html;base64,PGI+" }).ok).toBe(false);
+  });
+
+  it("only triages the fields that were sent", () => {
+    expect(parseHazardTriageInput({ status: "in_review", triage_notes: " " })).toEqual({
+      ok: true,
+      value: { status: "in_review", triage_notes: null },
+    });
+    expect(parseHazardTriageInput({ status: "closed" }).ok).toBe(false);
+    expect(parseHazardTriageInput({}).ok).toBe(false);
+  });
+});
+
+describe("anonymous reports", () => {
+  it("never expose a reporter", () => {
+    const r = report({ anonymous: true, reporter_email: "leaked@example.com", reporter_name: "Leaked" });
+    expect([r.reporterEmail, r.reporterName]).toEqual([null, null]);
+    expect(hazardReportedEvent(r, "leaked@example.com")).toMatchObject({
+      type: "hazard.reported",
+      title: "Near miss reported: Falling or shifting load",
+      dedupe_key: "hazard.reported:h1",
+      actorEmail: null,
+    });
+  });
+});
+
+describe("queue and trends", () => {
+  it("sorts the open queue by severity, then oldest first", () => {
+    const sorted = sortHazardQueue([
+      report({ id: "low", severity: "low" }),
+      report({ id: "done", severity: "critical", status: "resolved" }),
+      report({ id: "high-new", created_at: "2026-10-18T00:00:00Z" }),
+      report({ id: "high-old", status: "in_review", created_at: "2026-10-01T00:00:00Z" }),
+    ]);
+    expect(sorted.map((r) => r.id)).toEqual(["high-old", "high-new", "low"]);
+  });
+
+  it("merges open reports older than the window into the recent ones, once each", () => {
+    const stale = report({ id: "stale", status: "in_review", created_at: "2026-03-01T12:00:00Z" });
+    const recent = [report({ id: "new", created_at: "2026-10-18T12:00:00Z" }), report({ id: "h1" })];
+    const merged = mergeHazardReports([stale, report({ id: "h1" })], recent);
+    expect(merged.map((r) => r.id)).toEqual(["new", "h1", "stale"]);
+    expect(sortHazardQueue(merged).map((r) => r.id)).toEqual(["stale", "h1", "new"]);
+  });
+
+  it("counts by area, category and week, leaving out dismissed reports", () => {
+    const trends = hazardTrends(
+      [
+        report({ id: "1" }),
+        report({ id: "2", report_type: "hazard", dock_area: "dock_doors", category: "trailer_dock" }),
+        report({ id: "3", occurred_at: "2026-10-19T13:00:00Z" }),
+        report({ id: "4", status: "dismissed" }),
+        report({ id: "5", created_at: "2025-01-01T12:00:00Z" }),
+      ],
+      TODAY
+    );
+    expect(trends.total).toBe(4);
+    expect(trends.byArea).toEqual([
+      { key: "racking", label: "Racking", count: 3 },
+      { key: "dock_doors", label: "Dock doors / plates", count: 1 },
+    ]);
+    expect(trends.byCategory[0]).toEqual({ key: "falling_load", label: "Falling or shifting load", count: 3 });
+    expect(trends.byWeek).toHaveLength(HAZARD_TREND_WEEKS);
+    expect(trends.byWeek.slice(-2)).toEqual([
+      { weekStart: "2026-10-12", nearMiss: 1, hazard: 1 },
+      { weekStart: "2026-10-19", nearMiss: 1, hazard: 0 },
+    ]);
+  });
+});
+
+describe("investigating a hazard report", () => {
+  it("describes it by type, category and location", () => {
+    expect(
+      investigationSourceDetails("hazard_report", {
+        building: "DC1",
+        report_type: "near_miss",
+        category: "falling_load",
+        location: "Aisle C",
+        occurred_at: null,
+        created_at: "2026-10-15T14:00:00Z",
+      })
+    ).toEqual({
+      ok: true,
+      value: { building: "DC1", label: "Near miss: Falling or shifting load · Aisle C", incidentDate: "2026-10-15" },
+    });
+  });
+});
@@ -0,0 +1,419 @@
+// src/lib/domain/hazardReports.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDaysYMD, toNYDateOnly, weekStartYMD } from "@/lib/time";
+
+/**
+ * Near-miss and hazard reports. Any signed-in user, Workers included, can
+ * file one (location, dock area, category, severity, an optional photo),
+ * optionally anonymously — then no reporter is stored and the row is written
+ * as System, so not even the audit log names them. Building Managers triage
+ * the queue (new → in review → resolved / dismissed), the page charts them by
+ * area and category, and a report can be investigated (investigations.ts).
+ * Written and read through /api/hazard-reports; photos live in the private
+ * HAZARD_PHOTOS_BUCKET and are shown through short-lived signed URLs.
+ */
+
+export const HAZARD_REPORTS_TABLE = "hazard_reports";
+export const HAZARD_PHOTOS_BUCKET = "hazard-photos";
+
+// A phone photo after the page scales it down; the API refuses anything bigger
+export const MAX_HAZARD_PHOTO_CHARS = 2_000_000;
+// Trend charts look back this far by default
+export const HAZARD_TREND_DAYS = 90;
+export const HAZARD_TREND_WEEKS = 12;
+
+export const HAZARD_REPORT_TYPES = ["near_miss", "hazard"] as const;
+export type HazardReportType = (typeof HAZARD_REPORT_TYPES)[number];
+
+export const HAZARD_REPORT_TYPE_LABELS: Record<HazardReportType, string> = {
+  near_miss: "Near miss",
+  hazard: "Hazard",
+};
+
+export const HAZARD_CATEGORIES = [
+  "slip_trip_fall",
+  "struck_by",
+  "caught_between",
+  "lifting",
+  "powered_equipment",
+  "falling_load",
+  "trailer_dock",
+  "electrical",
+  "chemical_fire",
+  "housekeeping",
+  "ppe",
+  "other",
+] as const;
+export type HazardCategory = (typeof HAZARD_CATEGORIES)[number];
+
+export const HAZARD_CATEGORY_LABELS: Record<HazardCategory, string> = {
+  slip_trip_fall: "Slip / trip / fall",
+  struck_by: "Struck by",
+  caught_between: "Caught in / between",
+  lifting: "Lifting / ergonomics",
+  powered_equipment: "Forklift / powered equipment",
+  falling_load: "Falling or shifting load",
+  trailer_dock: "Trailer / dock plate",
+  electrical: "Electrical",
+  chemical_fire: "Chemical / fire",
+  housekeeping: "Housekeeping",
+  ppe: "PPE",
+  other: "Other",
+};
+
+export const HAZARD_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+export type HazardSeverity = (typeof HAZARD_SEVERITIES)[number];
+
+export const HAZARD_SEVERITY_LABELS: Record<HazardSeverity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+export const DOCK_AREAS = [
+  "dock_doors",
+  "trailer",
+  "staging",
+  "racking",
+  "aisles",
+  "charging",
+  "yard",
+  "office_breakroom",
+  "other",
+] as const;
+export type DockArea = (typeof DOCK_AREAS)[number];
+
+export const DOCK_AREA_LABELS: Record<DockArea, string> = {
+  dock_doors: "Dock doors / plates",
+  trailer: "Inside trailer / container",
+  staging: "Staging",
+  racking: "Racking",
+  aisles: "Aisles / walkways",
+  charging: "Battery charging",
+  yard: "Yard / parking",
+  office_breakroom: "Office / break room",
+  other: "Other",
+};
+
+export const HAZARD_STATUSES = ["new", "in_review", "resolved", "dismissed"] as const;
+export type HazardStatus = (typeof HAZARD_STATUSES)[number];
+
+export const HAZARD_STATUS_LABELS: Record<HazardStatus, string> = {
+  new: "New",
+  in_review: "In review",
+  resolved: "Resolved",
+  dismissed: "Dismissed",
+};
+
+/** Still waiting on a Building Manager. */
+export const HAZARD_QUEUE_STATUSES: readonly HazardStatus[] = ["new", "in_review"];
+
+export type HazardReport = {
+  id: string;
+  createdAt: string;
+  updatedAt: string | null;
+  building: string;
+  shift: string | null;
+  reportType: HazardReportType;
+  category: HazardCategory;
+  severity: HazardSeverity;
+  dockArea: DockArea;
+  location: string;
+  description: string;
+  occurredAt: string | null;
+  hasPhoto: boolean;
+  anonymous: boolean;
+  reporterName: string | null;
+  reporterEmail: string | null;
+  status: HazardStatus;
+  triageNotes: string | null;
+  triagedAt: string | null;
+  triagedByEmail: string | null;
+};
+
+/** One row of the `hazard_reports` table. */
+export type HazardReportRow = {
+  id: string;
+  created_at: string;
+  updated_at: string | null;
+  building: string;
+  shift: string | null;
+  report_type: string;
+  category: string;
+  severity: string;
+  dock_area: string;
+  location: string;
+  description: string;
+  occurred_at: string | null;
+  photo_path: string | null;
+  anonymous: boolean | null;
+  reporter_user_id: string | null;
+  reporter_email: string | null;
+  reporter_name: string | null;
+  status: string;
+  triage_notes: string | null;
+  triaged_at: string | null;
+  triaged_by_email: string | null;
+};
+
+/** Body of POST /api/hazard-reports; the route adds the reporter and the stored photo path. */
+export type HazardReportInput = {
+  building: string;
+  shift: string | null;
+  report_type: HazardReportType;
+  category: HazardCategory;
+  severity: HazardSeverity;
+  dock_area: DockArea;
+  location: string;
+  description: string;
+  occurred_at: string | null;
+  anonymous: boolean;
+  photo: HazardPhoto | null;
+};
+
+/** A photo sent as a data URL, split for upload. */
+export type HazardPhoto = { contentType: "image/jpeg" | "image/png" | "image/webp"; extension: string; base64: string };
+
+/** Triage fields, as PATCHed; only the keys sent are changed. */
+export type HazardTriageInput = Partial<{
+  status: HazardStatus;
+  severity: HazardSeverity;
+  category: HazardCategory;
+  dock_area: DockArea;
+  triage_notes: string | null;
+}>;
+
+export type HazardReportParseResult = { ok: true; value: HazardReportInput } | { ok: false; error: string };
+export type HazardTriageParseResult = { ok: true; value: HazardTriageInput } | { ok: false; error: string };
+
+export type HazardTrendBucket = { key: string; label: string; count: number };
+
+export type HazardTrends = {
+  total: number;
+  byCategory: HazardTrendBucket[];
+  byArea: HazardTrendBucket[];
+  byWeek: { weekStart: string; nearMiss: number; hazard: number }[]; // oldest first
+};
+
+function isOneOf<T extends string>(list: readonly T[], v: unknown): v is T {
+  return typeof v === "string" && (list as readonly string[]).includes(v);
+}
+
+export function isHazardStatus(v: unknown): v is HazardStatus {
+  return isOneOf(HAZARD_STATUSES, v);
+}
+
+export function mapHazardReportRow(row: HazardReportRow): HazardReport {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    building: row.building,
+    shift: row.shift,
+    reportType: isOneOf(HAZARD_REPORT_TYPES, row.report_type) ? row.report_type : "hazard",
+    category: isOneOf(HAZARD_CATEGORIES, row.category) ? row.category : "other",
+    severity: isOneOf(HAZARD_SEVERITIES, row.severity) ? row.severity : "medium",
+    dockArea: isOneOf(DOCK_AREAS, row.dock_area) ? row.dock_area : "other",
+    location: row.location,
+    description: row.description,
+    occurredAt: row.occurred_at,
+    hasPhoto: !!row.photo_path,
+    anonymous: !!row.anonymous,
+    reporterName: row.anonymous ? null : row.reporter_name,
+    reporterEmail: row.anonymous ? null : row.reporter_email,
+    status: isHazardStatus(row.status) ? row.status : "new",
+    triageNotes: row.triage_notes,
+    triagedAt: row.triaged_at,
+    triagedByEmail: row.triaged_by_email,
+  };
+}
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+const PHOTO_DATA_URL_RE = /^data:(image\/(jpeg|png|webp));base64,([A-Za-z0-9+/]+=*)$/;
+
+/** Split a JPEG / PNG / WebP data URL, or explain why it's refused. */
+export function parseHazardPhoto(v: unknown): { ok: true; value: HazardPhoto } | { ok: false; error: string } {
+  const s = text(v);
+  const m = PHOTO_DATA_URL_RE.exec(s);
+  if (!m) return { ok: false, error: "photo must be a JPEG, PNG or WebP data URL" };
+  if (s.length > MAX_HAZARD_PHOTO_CHARS) return { ok: false, error: "Photo is too large" };
+  return {
+    ok: true,
+    value: {
+      contentType: m[1] as HazardPhoto["contentType"],
+      extension: m[2] === "jpeg" ? "jpg" : m[2],
+      base64: m[3],
+    },
+  };
+}
+
+export function parseHazardReportInput(body: unknown): HazardReportParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const building = text(b.building);
+  if (!building) return { ok: false, error: "building is required" };
+  if (!isOneOf(HAZARD_REPORT_TYPES, b.report_type)) {
+    return { ok: false, error: `report_type must be one of: ${HAZARD_REPORT_TYPES.join(", ")}` };
+  }
+  if (!isOneOf(HAZARD_CATEGORIES, b.category)) {
+    return { ok: false, error: `category must be one of: ${HAZARD_CATEGORIES.join(", ")}` };
+  }
+  if (!isOneOf(HAZARD_SEVERITIES, b.severity)) {
+    return { ok: false, error: `severity must be one of: ${HAZARD_SEVERITIES.join(", ")}` };
+  }
+  if (!isOneOf(DOCK_AREAS, b.dock_area)) {
+    return { ok: false, error: `dock_area must be one of: ${DOCK_AREAS.join(", ")}` };
+  }
+  const location = text(b.location);
+  if (!location) return { ok: false, error: "location is required" };
+  const description = text(b.description);
+  if (!description) return { ok: false, error: "description is required" };
+
+  let occurredAt: string | null = null;
+  if (text(b.occurred_at)) {
+    const d = new Date(text(b.occurred_at));
+    if (Number.isNaN(d.getTime())) return { ok: false, error: "occurred_at must be a date and time" };
+    occurredAt = d.toISOString();
+  }
+
+  let photo: HazardPhoto | null = null;
+  if (text(b.photo)) {
+    const parsed = parseHazardPhoto(b.photo);
+    if (!parsed.ok) return parsed;
+    photo = parsed.value;
+  }
+
+  return {
+    ok: true,
+    value: {
+      building,
+      shift: text(b.shift) || null,
+      report_type: b.report_type,
+      category: b.category,
+      severity: b.severity,
+      dock_area: b.dock_area,
+      location,
+      description,
+      occurred_at: occurredAt,
+      anonymous: b.anonymous === true,
+      photo,
+    },
+  };
+}
+
+export function parseHazardTriageInput(body: unknown): HazardTriageParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+  const value: HazardTriageInput = {};
+
+  if ("status" in b) {
+    if (!isHazardStatus(b.status)) return { ok: false, error: `status must be one of: ${HAZARD_STATUSES.join(", ")}` };
+    value.status = b.status;
+  }
+  if ("severity" in b) {
+    if (!isOneOf(HAZARD_SEVERITIES, b.severity)) {
+      return { ok: false, error: `severity must be one of: ${HAZARD_SEVERITIES.join(", ")}` };
+    }
+    value.severity = b.severity;
+  }
+  if ("category" in b) {
+    if (!isOneOf(HAZARD_CATEGORIES, b.category)) {
+      return { ok: false, error: `category must be one of: ${HAZARD_CATEGORIES.join(", ")}` };
+    }
+    value.category = b.category;
+  }
+  if ("dock_area" in b) {
+    if (!isOneOf(DOCK_AREAS, b.dock_area)) return { ok: false, error: `dock_area must be one of: ${DOCK_AREAS.join(", ")}` };
+    value.dock_area = b.dock_area;
+  }
+  if ("triage_notes" in b) value.triage_notes = text(b.triage_notes) || null;
+
+  if (Object.keys(value).length === 0) return { ok: false, error: "Nothing to update" };
+  return { ok: true, value };
+}
+
+/** Queue order: most severe first, then oldest first. */
+export function sortHazardQueue(reports: HazardReport[]): HazardReport[] {
+  return reports
+    .filter((r) => HAZARD_QUEUE_STATUSES.includes(r.status))
+    .sort(
+      (a, b) =>
+        HAZARD_SEVERITIES.indexOf(b.severity) - HAZARD_SEVERITIES.indexOf(a.severity) ||
+        a.createdAt.localeCompare(b.createdAt)
+    );
+}
+
+/**
+ * One list from several fetches (e.g. recent reports plus every open one),
+ * each report once, newest first.
+ */
+export function mergeHazardReports(...lists: HazardReport[][]): HazardReport[] {
+  const byId = new Map<string, HazardReport>();
+  for (const list of lists) for (const r of list) byId.set(r.id, r);
+  return Array.from(byId.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function buckets<T extends string>(keys: readonly T[], labels: Record<T, string>, values: T[]): HazardTrendBucket[] {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return keys
+    .filter((k) => counts.has(k))
+    .map((k) => ({ key: k, label: labels[k], count: counts.get(k) ?? 0 }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Counts by category and dock area (most first), and near misses vs hazards
+ * per Monday-start week for the HAZARD_TREND_WEEKS weeks ending `todayYMD`.
+ * Dismissed reports are left out.
+ */
+export function hazardTrends(reports: HazardReport[], todayYMD: string): HazardTrends {
+  const counted = reports.filter((r) => r.status !== "dismissed");
+
+  const lastWeek = weekStartYMD(todayYMD);
+  const weeks = Array.from({ length: HAZARD_TREND_WEEKS }, (_, i) => ({
+    weekStart: addDaysYMD(lastWeek, -7 * (HAZARD_TREND_WEEKS - 1 - i)),
+    nearMiss: 0,
+    hazard: 0,
+  }));
+  const byWeekStart = new Map(weeks.map((w) => [w.weekStart, w]));
+  for (const r of counted) {
+    const day = toNYDateOnly(r.occurredAt ?? r.createdAt);
+    const week = day ? byWeekStart.get(weekStartYMD(day)) : undefined;
+    if (!week) continue;
+    if (r.reportType === "near_miss") week.nearMiss += 1;
+    else week.hazard += 1;
+  }
+
+  return {
+    total: counted.length,
+    byCategory: buckets(HAZARD_CATEGORIES, HAZARD_CATEGORY_LABELS, counted.map((r) => r.category)),
+    byArea: buckets(DOCK_AREAS, DOCK_AREA_LABELS, counted.map((r) => r.dockArea)),
+    byWeek: weeks,
+  };
+}
+
+/**
+ * Reports filed since `since` (YYYY-MM-DD), newest first, optionally for one
+ * building or one reporter. An empty building (a Building Manager with none
+ * assigned) matches nothing rather than everything.
+ */
+export async function fetchHazardReports(
+  client: SupabaseClient,
+  filters: { building?: string | null; since?: string; statuses?: readonly HazardStatus[]; reporterUserId?: string }
+): Promise<{ data: HazardReport[]; error: unknown }> {
+  let query = client.from(HAZARD_REPORTS_TABLE).select("*");
+  if (filters.since) query = query.gte("created_at", filters.since);
+  if (filters.statuses) query = query.in("status", [...filters.statuses]);
+  if (filters.building != null) query = query.eq("building", filters.building);
+  if (filters.reporterUserId) query = query.eq("reporter_user_id", filters.reporterUserId);
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+  if (error) return { data: [], error };
+  return { data: ((data || []) as HazardReportRow[]).map(mapHazardReportRow), error: null };
+}
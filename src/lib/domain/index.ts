@@ -0,0 +1,20 @@
+// src/lib/domain/index.ts
+// Canonical types, row mappers and queries for the core tables.
+// Pages import from "@/lib/domain" instead of redeclaring row shapes.
+
+export * from "@/lib/domain/auditLog";
+export * from "@/lib/domain/chats";
+export * from "@/lib/domain/containers";
+export * from "@/lib/domain/customers";
+export * from "@/lib/domain/damageReports";
+export * from "@/lib/domain/hazardReports";
+export * from "@/lib/domain/injuryCases";
+export * from "@/lib/domain/investigations";
+export * from "@/lib/domain/messageDeliveries";
+export * from "@/lib/domain/notifications";
+export * from "@/lib/domain/schedules";
+export * from "@/lib/domain/signatures";
+export * from "@/lib/domain/startupChecklists";
+export * from "@/lib/domain/timeClock";
+export * from "@/lib/domain/workOrders";
+export * from "@/lib/domain/workforce";
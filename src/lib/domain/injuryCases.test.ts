@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  caseCloseBlocker,
+  fetchOpenCasesByWorker,
+  isCaseTaskOverdue,
+  mapInjuryCaseEventRow,
+  mapInjuryCaseTaskRow,
+  parseCaseEventInput,
+  parseCaseTaskInput,
+  sortCaseTasks,
+  summarizeCase,
+  type InjuryCaseEvent,
+  type InjuryCaseEventRow,
+} from "@/lib/domain/injuryCases";
+import { createSupabaseStub } from "@/test/supabaseStub";
+
+let seq = 0;
+function event(overrides: Partial<InjuryCaseEventRow>): InjuryCaseEvent {
+  seq += 1;
+  return mapInjuryCaseEventRow({
+    id: `e${seq}`,
+    created_at: `2026-03-01T00:00:${String(seq).padStart(2, "0")}Z`,
+    created_by_email: "hr@example.com",
+    report_id: "r1",
+    building: "DC1",
+    event_type: "note",
+    event_date: "2026-03-10",
+    work_status: null,
+    provider: null,
+    assignment: null,
+    restrictions: null,
+    ends_on: null,
+    claim_number: null,
+    carrier: null,
+    notes: null,
+    ...overrides,
+  });
+}
+
+function task(id: string, due_date: string, completed_at: string | null = null) {
+  return mapInjuryCaseTaskRow({
+    id,
+    created_at: "2026-03-01T00:00:00Z",
+    created_by_email: null,
+    report_id: "r1",
+    building: "DC1",
+    title: `Task ${id}`,
+    due_date,
+    completed_at,
+    completed_by_email: null,
+  });
+}
+
+describe("parseCaseEventInput", () => {
+  it("requires the field each entry type is about", () => {
+    expect(parseCaseEventInput({ event_type: "clinic_visit", event_date: "2026-03-10" })).toEqual({
+      ok: false,
+      error: "provider is required for a clinic visit",
+    });
+    expect(parseCaseEventInput({ event_type: "work_status", event_date: "2026-03-10", work_status: "light" }).ok).toBe(
+      false
+    );
+    expect(parseCaseEventInput({ event_type: "claim", event_date: "2026-03-10", claim_number: "WC-1" }).ok).toBe(false);
+    expect(parseCaseEventInput({ event_type: "note", event_date: "2026-03-10", notes: "  " }).ok).toBe(false);
+    expect(parseCaseEventInput({ event_type: "note", event_date: "03/10/2026", notes: "x" }).ok).toBe(false);
+    expect(parseCaseEventInput({ event_type: "call", event_date: "2026-03-10" }).ok).toBe(false);
+  });
+
+  it("puts a restricted-duty assignment on restricted status", () => {
+    expect(
+      parseCaseEventInput({
+        event_type: "restricted_duty",
+        event_date: "2026-03-12",
+        assignment: " Dock office scanning ",
+        restrictions: "No lifting over 15 lbs",
+        ends_on: "2026-03-26",
+        work_status: "full_duty",
+      })
+    ).toEqual({
+      ok: true,
+      value: {
+        event_type: "restricted_duty",
+        event_date: "2026-03-12",
+        work_status: "restricted",
+        provider: null,
+        assignment: "Dock office scanning",
+        restrictions: "No lifting over 15 lbs",
+        ends_on: "2026-03-26",
+        claim_number: null,
+        carrier: null,
+        notes: null,
+      },
+    });
+    expect(
+      parseCaseEventInput({ event_type: "restricted_duty", event_date: "2026-03-12", assignment: "x", ends_on: "2026-03-01" })
+    ).toEqual({ ok: false, error: "ends_on can't be before event_date" });
+  });
+});
+
+describe("parseCaseTaskInput", () => {
+  it("needs a title and due date", () => {
+    expect(parseCaseTaskInput({ title: " Call clinic ", due_date: "2026-03-15" })).toEqual({
+      ok: true,
+      value: { title: "Call clinic", due_date: "2026-03-15" },
+    });
+    expect(parseCaseTaskInput({ title: "", due_date: "2026-03-15" }).ok).toBe(false);
+    expect(parseCaseTaskInput({ title: "Call clinic" }).ok).toBe(false);
+  });
+});
+
+describe("summarizeCase", () => {
+  it("tracks work status and the return from the latest time off", () => {
+    const state = summarizeCase([
+      event({ event_type: "restricted_duty", event_date: "2026-03-20", work_status: "restricted", assignment: "Office" }),
+      event({ event_type: "work_status", event_date: "2026-03-10", work_status: "off_work" }),
+      event({ event_type: "clinic_visit", event_date: "2026-03-11", provider: "Concentra" }),
+      event({ event_type: "claim", event_date: "2026-03-12", claim_number: "WC-1", carrier: "Acme Mutual" }),
+    ]);
+    expect(state).toEqual({
+      work_status: "restricted",
+      return_to_work_date: "2026-03-20",
+      comp_claim_number: "WC-1",
+      comp_carrier: "Acme Mutual",
+    });
+  });
+
+  it("clears the return date when the employee goes back off work", () => {
+    const state = summarizeCase([
+      event({ event_type: "work_status", event_date: "2026-03-10", work_status: "off_work" }),
+      event({ event_type: "work_status", event_date: "2026-03-15", work_status: "full_duty" }),
+      event({ event_type: "work_status", event_date: "2026-04-01", work_status: "off_work" }),
+    ]);
+    expect(state.work_status).toBe("off_work");
+    expect(state.return_to_work_date).toBeNull();
+  });
+
+  it("has no status until one is recorded", () => {
+    expect(summarizeCase([event({ event_type: "note", notes: "Called employee" })]).work_status).toBeNull();
+  });
+});
+
+describe("caseCloseBlocker", () => {
+  it("keeps the case open until full duty", () => {
+    expect(caseCloseBlocker({ work_status: "restricted" })).toMatch(/restricted duty/);
+    expect(caseCloseBlocker({ work_status: "off_work" })).toMatch(/off work/);
+    expect(caseCloseBlocker({ work_status: "full_duty" })).toBeNull();
+    expect(caseCloseBlocker({ work_status: null })).toBeNull();
+  });
+});
+
+describe("case tasks", () => {
+  it("flags open tasks past their due date", () => {
+    expect(isCaseTaskOverdue(task("a", "2026-03-09"), "2026-03-10")).toBe(true);
+    expect(isCaseTaskOverdue(task("b", "2026-03-10"), "2026-03-10")).toBe(false);
+    expect(isCaseTaskOverdue(task("c", "2026-03-01", "2026-03-02T12:00:00Z"), "2026-03-10")).toBe(false);
+  });
+
+  it("lists open tasks by due date before completed ones", () => {
+    const sorted = sortCaseTasks([
+      task("done", "2026-03-01", "2026-03-02T12:00:00Z"),
+      task("later", "2026-03-20"),
+      task("sooner", "2026-03-05"),
+    ]);
+    expect(sorted.map((t) => t.id)).toEqual(["sooner", "later", "done"]);
+  });
+});
+
+describe("fetchOpenCasesByWorker", () => {
+  it("keys submitted reports by workforce id, newest incident first", async () => {
+    const stub = createSupabaseStub({
+      injury_reports: [
+        { id: "old", employee_id: "w1", building: "DC1", status: "Submitted", incident_datetime: "2026-01-05T12:00:00Z", work_status: "full_duty", return_to_work_date: null },
+        { id: "new", employee_id: "w1", building: "DC1", status: "Submitted", incident_datetime: "2026-03-05T12:00:00Z", work_status: "restricted", return_to_work_date: "2026-03-09" },
+        { id: "closed", employee_id: "w2", building: "DC1", status: "Closed", incident_datetime: "2026-03-05T12:00:00Z", work_status: "full_duty", return_to_work_date: null },
+        { id: "elsewhere", employee_id: "w3", building: "DC5", status: "Submitted", incident_datetime: "2026-03-05T12:00:00Z", work_status: null, return_to_work_date: null },
+        { id: "typed-in", employee_id: null, building: "DC1", status: "Submitted", incident_datetime: "2026-03-05T12:00:00Z", work_status: null, return_to_work_date: null },
+      ],
+    });
+
+    const { data, error } = await fetchOpenCasesByWorker(stub.client, "DC1");
+    expect(error).toBeNull();
+    expect([...data.keys()]).toEqual(["w1"]);
+    expect(data.get("w1")).toEqual({
+      reportId: "new",
+      workforceId: "w1",
+      incidentDate: "2026-03-05T12:00:00Z",
+      workStatus: "restricted",
+      returnToWorkDate: "2026-03-09",
+    });
+  });
+});
@@ -0,0 +1,393 @@
+// src/lib/domain/injuryCases.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { INJURY_REPORTS_TABLE } from "@/lib/notificationEvents";
+import { isYMD } from "@/lib/time";
+
+/**
+ * Injury case management. Once a report is submitted, HR keeps a timeline on
+ * it (clinic visits, work-status changes, restricted-duty assignments,
+ * workers' comp claim details, notes) and follow-up tasks with due dates. The
+ * report itself carries the case's current state (CASE_COLUMNS, recomputed
+ * from the timeline on every entry) so the workforce page can show it, and a
+ * trigger keeps the report from closing until the employee is back at full
+ * duty. Written through /api/injury-reports/:id/case only.
+ */
+
+export const INJURY_CASE_EVENTS_TABLE = "injury_case_events";
+export const INJURY_CASE_TASKS_TABLE = "injury_case_tasks";
+
+// Only submitted reports have a case; Closed ends it
+export const OPEN_CASE_STATUS = "Submitted";
+export const CLOSED_CASE_STATUS = "Closed";
+
+export const WORK_STATUSES = ["full_duty", "restricted", "off_work"] as const;
+export type WorkStatus = (typeof WORK_STATUSES)[number];
+
+export const WORK_STATUS_LABELS: Record<WorkStatus, string> = {
+  full_duty: "Full duty",
+  restricted: "Restricted duty",
+  off_work: "Off work",
+};
+
+export const CASE_EVENT_TYPES = ["clinic_visit", "work_status", "restricted_duty", "claim", "note"] as const;
+export type CaseEventType = (typeof CASE_EVENT_TYPES)[number];
+
+export const CASE_EVENT_TYPE_LABELS: Record<CaseEventType, string> = {
+  clinic_visit: "Clinic visit",
+  work_status: "Work status",
+  restricted_duty: "Restricted-duty assignment",
+  claim: "Workers' comp claim",
+  note: "Note",
+};
+
+/** The `injury_reports` columns derived from the case timeline, never set by the report form. */
+export const CASE_COLUMNS = ["work_status", "return_to_work_date", "comp_claim_number", "comp_carrier"] as const;
+
+export type InjuryCaseState = {
+  work_status: WorkStatus | null; // null until HR records one
+  return_to_work_date: string | null; // YYYY-MM-DD back from off work, restricted or full
+  comp_claim_number: string | null;
+  comp_carrier: string | null;
+};
+
+export type InjuryCaseEvent = {
+  id: string;
+  createdAt: string;
+  createdByEmail: string | null;
+  reportId: string;
+  building: string;
+  eventType: CaseEventType;
+  eventDate: string; // YYYY-MM-DD
+  workStatus: WorkStatus | null;
+  provider: string | null;
+  assignment: string | null;
+  restrictions: string | null;
+  endsOn: string | null;
+  claimNumber: string | null;
+  carrier: string | null;
+  notes: string | null;
+};
+
+/** One row of the `injury_case_events` table. */
+export type InjuryCaseEventRow = {
+  id: string;
+  created_at: string;
+  created_by_email: string | null;
+  report_id: string;
+  building: string;
+  event_type: string;
+  event_date: string;
+  work_status: string | null;
+  provider: string | null;
+  assignment: string | null;
+  restrictions: string | null;
+  ends_on: string | null;
+  claim_number: string | null;
+  carrier: string | null;
+  notes: string | null;
+};
+
+export type InjuryCaseTask = {
+  id: string;
+  createdAt: string;
+  createdByEmail: string | null;
+  reportId: string;
+  building: string;
+  title: string;
+  dueDate: string; // YYYY-MM-DD
+  completedAt: string | null;
+  completedByEmail: string | null;
+};
+
+/** One row of the `injury_case_tasks` table. */
+export type InjuryCaseTaskRow = {
+  id: string;
+  created_at: string;
+  created_by_email: string | null;
+  report_id: string;
+  building: string;
+  title: string;
+  due_date: string;
+  completed_at: string | null;
+  completed_by_email: string | null;
+};
+
+/** Columns written when an entry is added (the route adds report_id, building, created_by_email). */
+export type CaseEventInput = {
+  event_type: CaseEventType;
+  event_date: string;
+  work_status: WorkStatus | null;
+  provider: string | null;
+  assignment: string | null;
+  restrictions: string | null;
+  ends_on: string | null;
+  claim_number: string | null;
+  carrier: string | null;
+  notes: string | null;
+};
+
+export type CaseTaskInput = { title: string; due_date: string };
+
+export type CaseEventParseResult = { ok: true; value: CaseEventInput } | { ok: false; error: string };
+export type CaseTaskParseResult = { ok: true; value: CaseTaskInput } | { ok: false; error: string };
+
+/** An open case as the workforce page shows it. */
+export type WorkerInjuryCase = {
+  reportId: string;
+  workforceId: string;
+  incidentDate: string | null;
+  workStatus: WorkStatus | null;
+  returnToWorkDate: string | null;
+};
+
+export function isWorkStatus(v: unknown): v is WorkStatus {
+  return typeof v === "string" && (WORK_STATUSES as readonly string[]).includes(v);
+}
+
+export function isCaseEventType(v: unknown): v is CaseEventType {
+  return typeof v === "string" && (CASE_EVENT_TYPES as readonly string[]).includes(v);
+}
+
+export function mapInjuryCaseEventRow(row: InjuryCaseEventRow): InjuryCaseEvent {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email,
+    reportId: String(row.report_id),
+    building: row.building,
+    eventType: isCaseEventType(row.event_type) ? row.event_type : "note",
+    eventDate: String(row.event_date).slice(0, 10),
+    workStatus: isWorkStatus(row.work_status) ? row.work_status : null,
+    provider: row.provider,
+    assignment: row.assignment,
+    restrictions: row.restrictions,
+    endsOn: row.ends_on ? String(row.ends_on).slice(0, 10) : null,
+    claimNumber: row.claim_number,
+    carrier: row.carrier,
+    notes: row.notes,
+  };
+}
+
+export function mapInjuryCaseTaskRow(row: InjuryCaseTaskRow): InjuryCaseTask {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email,
+    reportId: String(row.report_id),
+    building: row.building,
+    title: row.title,
+    dueDate: String(row.due_date).slice(0, 10),
+    completedAt: row.completed_at,
+    completedByEmail: row.completed_by_email,
+  };
+}
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+/**
+ * Validate a timeline entry. Each type has its required field: provider for a
+ * clinic visit, work_status for a status change, assignment for restricted
+ * duty, claim_number and carrier for a claim, notes for a note.
+ */
+export function parseCaseEventInput(body: unknown): CaseEventParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  if (!isCaseEventType(b.event_type)) {
+    return { ok: false, error: `event_type must be one of: ${CASE_EVENT_TYPES.join(", ")}` };
+  }
+  const eventDate = text(b.event_date);
+  if (!isYMD(eventDate)) return { ok: false, error: "event_date must be YYYY-MM-DD" };
+
+  const value: CaseEventInput = {
+    event_type: b.event_type,
+    event_date: eventDate,
+    work_status: null,
+    provider: null,
+    assignment: null,
+    restrictions: null,
+    ends_on: null,
+    claim_number: null,
+    carrier: null,
+    notes: text(b.notes) || null,
+  };
+
+  switch (b.event_type) {
+    case "clinic_visit":
+      value.provider = text(b.provider) || null;
+      if (!value.provider) return { ok: false, error: "provider is required for a clinic visit" };
+      break;
+    case "work_status":
+      if (!isWorkStatus(b.work_status)) {
+        return { ok: false, error: `work_status must be one of: ${WORK_STATUSES.join(", ")}` };
+      }
+      value.work_status = b.work_status;
+      break;
+    case "restricted_duty": {
+      value.assignment = text(b.assignment) || null;
+      if (!value.assignment) return { ok: false, error: "assignment is required for restricted duty" };
+      value.restrictions = text(b.restrictions) || null;
+      const endsOn = text(b.ends_on);
+      if (endsOn) {
+        if (!isYMD(endsOn)) return { ok: false, error: "ends_on must be YYYY-MM-DD" };
+        if (endsOn < eventDate) return { ok: false, error: "ends_on can't be before event_date" };
+        value.ends_on = endsOn;
+      }
+      value.work_status = "restricted";
+      break;
+    }
+    case "claim":
+      value.claim_number = text(b.claim_number) || null;
+      value.carrier = text(b.carrier) || null;
+      if (!value.claim_number || !value.carrier) {
+        return { ok: false, error: "claim_number and carrier are required for a claim" };
+      }
+      break;
+    case "note":
+      if (!value.notes) return { ok: false, error: "notes is required for a note" };
+      break;
+  }
+
+  return { ok: true, value };
+}
+
+export function parseCaseTaskInput(body: unknown): CaseTaskParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const title = text(b.title);
+  if (!title) return { ok: false, error: "title is required" };
+  const dueDate = text(b.due_date);
+  if (!isYMD(dueDate)) return { ok: false, error: "due_date must be YYYY-MM-DD" };
+
+  return { ok: true, value: { title, due_date: dueDate } };
+}
+
+/** Oldest first: by date, then entry order within a day. */
+export function sortCaseEvents(events: InjuryCaseEvent[]): InjuryCaseEvent[] {
+  return [...events].sort((a, b) => a.eventDate.localeCompare(b.eventDate) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The case's current state from its timeline. Work status is the latest
+ * status change or restricted-duty assignment; the return-to-work date is
+ * when the employee came back from their most recent stretch off work; the
+ * claim is the latest one entered.
+ */
+export function summarizeCase(events: InjuryCaseEvent[]): InjuryCaseState {
+  const state: InjuryCaseState = {
+    work_status: null,
+    return_to_work_date: null,
+    comp_claim_number: null,
+    comp_carrier: null,
+  };
+
+  for (const e of sortCaseEvents(events)) {
+    if (e.eventType === "claim") {
+      state.comp_claim_number = e.claimNumber;
+      state.comp_carrier = e.carrier;
+    }
+    if (!e.workStatus || (e.eventType !== "work_status" && e.eventType !== "restricted_duty")) continue;
+
+    if (e.workStatus === "off_work") state.return_to_work_date = null;
+    else if (state.work_status === "off_work") state.return_to_work_date = e.eventDate;
+    state.work_status = e.workStatus;
+  }
+
+  return state;
+}
+
+/** Why the case can't be closed yet, or null when it can. */
+export function caseCloseBlocker(state: Pick<InjuryCaseState, "work_status">): string | null {
+  if (state.work_status && state.work_status !== "full_duty") {
+    return `The employee is on ${WORK_STATUS_LABELS[state.work_status].toLowerCase()}; the case stays open until they're back at full duty.`;
+  }
+  return null;
+}
+
+export function isCaseTaskOverdue(task: InjuryCaseTask, todayYMD: string): boolean {
+  return !task.completedAt && task.dueDate < todayYMD;
+}
+
+/** Open tasks first (soonest due), then completed ones. */
+export function sortCaseTasks(tasks: InjuryCaseTask[]): InjuryCaseTask[] {
+  return [...tasks].sort((a, b) => {
+    if (!a.completedAt !== !b.completedAt) return a.completedAt ? 1 : -1;
+    return a.dueDate.localeCompare(b.dueDate) || a.createdAt.localeCompare(b.createdAt);
+  });
+}
+
+/** The report fields the case routes check before reading or writing. */
+export async function fetchCaseReport(
+  client: SupabaseClient,
+  reportId: string
+): Promise<{ data: { id: string; building: string | null; status: string | null } | null; error: unknown }> {
+  const { data, error } = await client
+    .from(INJURY_REPORTS_TABLE)
+    .select("id, building, status")
+    .eq("id", reportId)
+    .maybeSingle();
+  if (error) return { data: null, error };
+  return { data: (data as { id: string; building: string | null; status: string | null } | null) ?? null, error: null };
+}
+
+export async function fetchInjuryCase(
+  client: SupabaseClient,
+  reportId: string
+): Promise<{ data: { events: InjuryCaseEvent[]; tasks: InjuryCaseTask[] }; error: unknown }> {
+  const [events, tasks] = await Promise.all([
+    client.from(INJURY_CASE_EVENTS_TABLE).select("*").eq("report_id", reportId),
+    client.from(INJURY_CASE_TASKS_TABLE).select("*").eq("report_id", reportId),
+  ]);
+  const error = events.error ?? tasks.error;
+  if (error) return { data: { events: [], tasks: [] }, error };
+
+  return {
+    data: {
+      events: sortCaseEvents(((events.data || []) as InjuryCaseEventRow[]).map(mapInjuryCaseEventRow)),
+      tasks: sortCaseTasks(((tasks.data || []) as InjuryCaseTaskRow[]).map(mapInjuryCaseTaskRow)),
+    },
+    error: null,
+  };
+}
+
+/** Open cases keyed by workforce id (the newest incident when a worker has several). */
+export async function fetchOpenCasesByWorker(
+  client: SupabaseClient,
+  building?: string | null
+): Promise<{ data: Map<string, WorkerInjuryCase>; error: unknown }> {
+  let query = client
+    .from(INJURY_REPORTS_TABLE)
+    .select("id, employee_id, building, incident_datetime, work_status, return_to_work_date")
+    .eq("status", OPEN_CASE_STATUS);
+  if (building) query = query.eq("building", building);
+
+  const { data, error } = await query;
+  if (error) return { data: new Map(), error };
+
+  type Row = {
+    id: string;
+    employee_id: string | null;
+    incident_datetime: string | null;
+    work_status: string | null;
+    return_to_work_date: string | null;
+  };
+  const byWorker = new Map<string, WorkerInjuryCase>();
+  for (const row of (data || []) as Row[]) {
+    if (!row.employee_id) continue;
+    const workforceId = String(row.employee_id);
+    const incidentDate = row.incident_datetime ? String(row.incident_datetime) : null;
+    const existing = byWorker.get(workforceId);
+    if (existing && (existing.incidentDate ?? "") >= (incidentDate ?? "")) continue;
+    byWorker.set(workforceId, {
+      reportId: String(row.id),
+      workforceId,
+      incidentDate,
+      workStatus: isWorkStatus(row.work_status) ? row.work_status : null,
+      returnToWorkDate: row.return_to_work_date ? String(row.return_to_work_date).slice(0, 10) : null,
+    });
+  }
+  return { data: byWorker, error: null };
+}
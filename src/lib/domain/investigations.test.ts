@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+import {
+  capaDaysOverdue,
+  capaNeedsEscalation,
+  capaStatus,
+  correctiveActionStepUpdate,
+  investigationCloseBlocker,
+  investigationSourceDetails,
+  mapCorrectiveActionRow,
+  parseCorrectiveActionInput,
+  parseCorrectiveActionStep,
+  parseInvestigationUpdateInput,
+  sortCorrectiveActions,
+  summarizeInvestigations,
+  summarizeOpenCapas,
+  type CorrectiveAction,
+  type CorrectiveActionRow,
+  type Investigation,
+} from "@/lib/domain/investigations";
+import { capaEscalatedEvent, capaOverdueEvent } from "@/lib/notificationEvents";
+
+const TODAY = "2026-10-19";
+
+function action(overrides: Partial<CorrectiveActionRow>): CorrectiveAction {
+  return mapCorrectiveActionRow({
+    id: "a1",
+    created_at: "2026-10-01T12:00:00Z",
+    created_by_email: "bm@example.com",
+    investigation_id: "i1",
+    building: "DC1",
+    action_type: "corrective",
+    description: "Add dock plate guard",
+    owner_name: "Sam",
+    owner_email: null,
+    due_date: "2026-10-25",
+    completed_at: null,
+    completed_by_email: null,
+    completion_notes: null,
+    verified_at: null,
+    verified_by_email: null,
+    verification_notes: null,
+    escalated_at: null,
+    ...overrides,
+  });
+}
+
+const investigation: Investigation = {
+  id: "i1",
+  createdAt: "2026-10-01T12:00:00Z",
+  createdByEmail: "bm@example.com",
+  updatedAt: null,
+  building: "DC1",
+  sourceType: "injury_report",
+  sourceId: "r1",
+  sourceLabel: "Ana Lopez · Strain / Sprain · Back",
+  incidentDate: "2026-09-30",
+  title: "Back strain at dock 4",
+  whys: [],
+  rootCauseCategory: null,
+  rootCause: null,
+  contributingFactors: [],
+  status: "open",
+  closedAt: null,
+  closedByEmail: null,
+};
+
+describe("parsing", () => {
+  it("validates an action and defaults it to corrective", () => {
+    expect(
+      parseCorrectiveActionInput({ description: " Guard ", owner_name: "Sam", owner_email: "SAM@x.com ", due_date: TODAY })
+    ).toEqual({
+      ok: true,
+      value: { action_type: "corrective", description: "Guard", owner_name: "Sam", owner_email: "sam@x.com", due_date: TODAY },
+    });
+    expect(parseCorrectiveActionInput({ description: "Guard", owner_name: "", due_date: TODAY }).ok).toBe(false);
+    expect(parseCorrectiveActionInput({ description: "Guard", owner_name: "Sam", due_date: "10/19" }).ok).toBe(false);
+    expect(parseCorrectiveActionInput({ description: "Guard", owner_name: "Sam", due_date: TODAY, action_type: "x" }).ok).toBe(
+      false
+    );
+  });
+
+  it("only updates the root-cause fields that were sent", () => {
+    expect(parseInvestigationUpdateInput({ whys: ["Slipped", " ", "Wet floor"], root_cause_category: "environment" })).toEqual({
+      ok: true,
+      value: { whys: ["Slipped", "Wet floor"], root_cause_category: "environment" },
+    });
+    expect(parseInvestigationUpdateInput({ whys: ["1", "2", "3", "4", "5", "6"] }).ok).toBe(false);
+    expect(parseInvestigationUpdateInput({ root_cause_category: "luck" }).ok).toBe(false);
+    expect(parseInvestigationUpdateInput({}).ok).toBe(false);
+  });
+
+  it("takes one action step at a time", () => {
+    expect(parseCorrectiveActionStep({ step: "verify", notes: " Checked " })).toEqual({
+      ok: true,
+      value: { step: "verify", notes: "Checked" },
+    });
+    expect(parseCorrectiveActionStep({ step: "reschedule", due_date: "soon" }).ok).toBe(false);
+    expect(parseCorrectiveActionStep({ step: "delete" }).ok).toBe(false);
+  });
+});
+
+describe("action lifecycle", () => {
+  const now = new Date("2026-10-19T15:00:00Z");
+
+  it("verifies only after completion and reschedules only open actions", () => {
+    expect(correctiveActionStepUpdate(action({}), { step: "verify", notes: null }, "hr@x.com", now)).toEqual({
+      ok: false,
+      error: "Complete the action before verifying it",
+    });
+    const done = action({ completed_at: "2026-10-18T12:00:00Z" });
+    expect(correctiveActionStepUpdate(done, { step: "verify", notes: "Guard in place" }, "hr@x.com", now)).toEqual({
+      ok: true,
+      value: { verified_at: now.toISOString(), verified_by_email: "hr@x.com", verification_notes: "Guard in place" },
+    });
+    expect(correctiveActionStepUpdate(done, { step: "reschedule", due_date: "2026-11-01" }, null, now).ok).toBe(false);
+    expect(
+      correctiveActionStepUpdate(action({ escalated_at: "2026-10-18T00:00:00Z" }), { step: "reschedule", due_date: "2026-11-01" }, null)
+    ).toEqual({ ok: true, value: { due_date: "2026-11-01", escalated_at: null } });
+  });
+
+  it("is overdue past its due date until completed, and escalates after a week", () => {
+    const late = action({ due_date: "2026-10-12" });
+    expect(capaStatus(late, TODAY)).toBe("overdue");
+    expect(capaDaysOverdue(late, TODAY)).toBe(7);
+    expect(capaNeedsEscalation(late, TODAY)).toBe(true);
+    expect(capaNeedsEscalation(action({ due_date: "2026-10-13" }), TODAY)).toBe(false);
+    expect(capaNeedsEscalation(action({ due_date: "2026-10-12", escalated_at: "2026-10-19T10:00:00Z" }), TODAY)).toBe(false);
+
+    expect(capaStatus(action({ due_date: TODAY }), TODAY)).toBe("open");
+    expect(capaStatus(action({ due_date: "2026-10-12", completed_at: "2026-10-18T00:00:00Z" }), TODAY)).toBe(
+      "awaiting_verification"
+    );
+    expect(capaDaysOverdue(action({ due_date: "2026-10-12", completed_at: "2026-10-18T00:00:00Z" }), TODAY)).toBe(0);
+  });
+
+  it("sorts overdue first, then by due date", () => {
+    const sorted = sortCorrectiveActions(
+      [
+        action({ id: "verified", completed_at: "x", verified_at: "y" }),
+        action({ id: "later", due_date: "2026-11-01" }),
+        action({ id: "late", due_date: "2026-10-01" }),
+        action({ id: "soon", due_date: "2026-10-20" }),
+      ],
+      TODAY
+    );
+    expect(sorted.map((a) => a.id)).toEqual(["late", "soon", "later", "verified"]);
+  });
+});
+
+describe("closing", () => {
+  it("needs a root cause, at least one action and every action verified", () => {
+    expect(investigationCloseBlocker(investigation, [])).toMatch(/root cause/);
+    const withCause = { ...investigation, rootCauseCategory: "environment" as const, rootCause: "Wet dock plate" };
+    expect(investigationCloseBlocker(withCause, [])).toMatch(/at least one/);
+    expect(investigationCloseBlocker(withCause, [action({}), action({ verified_at: "x", completed_at: "x" })])).toBe(
+      "1 corrective action is not verified yet."
+    );
+    expect(investigationCloseBlocker(withCause, [action({ verified_at: "x", completed_at: "x" })])).toBeNull();
+  });
+});
+
+describe("summaries", () => {
+  it("counts open CAPAs per building in building order", () => {
+    const actions = [
+      action({ id: "1", building: "DC5", due_date: "2026-10-01" }),
+      action({ id: "2", building: "DC1" }),
+      action({ id: "3", building: "DC1", completed_at: "x" }),
+      action({ id: "4", building: "DC1", completed_at: "x", verified_at: "y" }),
+    ];
+    expect(summarizeOpenCapas(actions, TODAY)).toEqual([
+      { building: "DC1", open: 2, overdue: 0, awaitingVerification: 1 },
+      { building: "DC5", open: 1, overdue: 1, awaitingVerification: 0 },
+    ]);
+
+    const [summary] = summarizeInvestigations([investigation], [...actions.slice(1), action({ id: "5", due_date: "2026-10-01" })], TODAY);
+    expect([summary.actionCount, summary.openActionCount, summary.overdueActionCount]).toEqual([4, 3, 1]);
+  });
+});
+
+describe("investigationSourceDetails", () => {
+  it("describes each kind of source", () => {
+    expect(
+      investigationSourceDetails("injury_report", {
+        building: "DC1",
+        employee_name: "Ana Lopez",
+        incident_type: "Strain / Sprain",
+        body_part: "Back",
+        incident_datetime: "2026-09-30T14:00:00Z",
+      })
+    ).toEqual({ ok: true, value: { building: "DC1", label: "Ana Lopez · Strain / Sprain · Back", incidentDate: "2026-09-30" } });
+
+    expect(
+      investigationSourceDetails("damage_report", {
+        building: "DC5",
+        container_no: "MSCU123",
+        pieces_total: 400,
+        pieces_damaged: 12,
+        created_at: "2026-10-02T16:00:00Z",
+      })
+    ).toEqual({
+      ok: true,
+      value: { building: "DC5", label: "Container MSCU123 · 12 of 400 pieces damaged", incidentDate: "2026-10-02" },
+    });
+  });
+
+  it("only takes readiness reports that recorded a near miss or hazard", () => {
+    const row = { id: "s1", building: "DC1", shift: "1st", date: "2026-10-18", created_at: "x", completed_at: null };
+    expect(investigationSourceDetails("startup_checklist", { ...row, items: { safety: { nearMissReported: false } } })).toEqual({
+      ok: false,
+      error: "That readiness report has no near miss or hazard recorded",
+    });
+    expect(
+      investigationSourceDetails("startup_checklist", {
+        ...row,
+        items: { safety: { nearMissReported: true, nearMissDetails: "Pallet fell from rack" } },
+      })
+    ).toEqual({ ok: true, value: { building: "DC1", label: "Near miss: Pallet fell from rack", incidentDate: "2026-10-18" } });
+  });
+});
+
+describe("escalation notifications", () => {
+  it("keys overdue and escalation notices by due date", () => {
+    const late = action({ due_date: "2026-10-12" });
+    expect(capaOverdueEvent(late)).toMatchObject({
+      type: "capa.overdue",
+      building: "DC1",
+      link: "/investigations?id=i1",
+      dedupe_key: "capa.overdue:a1:2026-10-12",
+    });
+    expect(capaEscalatedEvent(late, 7)).toMatchObject({
+      type: "capa.escalated",
+      title: "Escalated: corrective action 7 days overdue",
+      dedupe_key: "capa.escalated:a1:2026-10-12",
+    });
+  });
+});
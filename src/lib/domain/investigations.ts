@@ -0,0 +1,612 @@
+// src/lib/domain/investigations.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BUILDINGS } from "@/lib/buildings";
+import { CORRECTIVE_ACTIONS_TABLE, INJURY_REPORTS_TABLE } from "@/lib/notificationEvents";
+import { DAMAGE_REPORTS_TABLE } from "@/lib/domain/damageReports";
+import {
+  HAZARD_REPORTS_TABLE,
+  HAZARD_REPORT_TYPE_LABELS,
+  HAZARD_CATEGORY_LABELS,
+  type HazardCategory,
+  type HazardReportType,
+} from "@/lib/domain/hazardReports";
+import {
+  STARTUP_CHECKLISTS_TABLE,
+  startupChecklistSafetyFindings,
+  type StartupChecklistRow,
+} from "@/lib/domain/startupChecklists";
+import { isYMD, toNYDateOnly } from "@/lib/time";
+
+/**
+ * Incident investigations and corrective / preventive actions (CAPA). An
+ * investigation follows up one injury report, damage report, hazard /
+ * near-miss report, or readiness report that recorded a near miss or hazard: the 5 whys, a root-cause
+ * category, contributing factors, and actions with an owner and due date
+ * that are completed and then verified. It closes once the root cause is in
+ * and every action is verified (a trigger enforces the same). Overdue actions
+ * notify the building and, after CAPA_ESCALATION_DAYS, HQ (the hourly
+ * /api/investigations/escalate job). Written through /api/investigations only.
+ */
+
+export const INVESTIGATIONS_TABLE = "investigations";
+
+// Overdue this many days → escalated beyond the building
+export const CAPA_ESCALATION_DAYS = 7;
+
+export const MAX_WHYS = 5;
+export const MAX_CONTRIBUTING_FACTORS = 10;
+
+export const INVESTIGATION_SOURCE_TYPES = ["injury_report", "damage_report", "startup_checklist", "hazard_report"] as const;
+export type InvestigationSourceType = (typeof INVESTIGATION_SOURCE_TYPES)[number];
+
+export const INVESTIGATION_SOURCES: Record<InvestigationSourceType, { table: string; label: string }> = {
+  injury_report: { table: INJURY_REPORTS_TABLE, label: "Injury report" },
+  damage_report: { table: DAMAGE_REPORTS_TABLE, label: "Damage report" },
+  startup_checklist: { table: STARTUP_CHECKLISTS_TABLE, label: "Near miss / hazard" },
+  hazard_report: { table: HAZARD_REPORTS_TABLE, label: "Hazard / near-miss report" },
+};
+
+export const INVESTIGATION_STATUSES = ["open", "closed"] as const;
+export type InvestigationStatus = (typeof INVESTIGATION_STATUSES)[number];
+
+export const ROOT_CAUSE_CATEGORIES = ["people", "procedure", "equipment", "environment", "training", "supervision"] as const;
+export type RootCauseCategory = (typeof ROOT_CAUSE_CATEGORIES)[number];
+
+export const ROOT_CAUSE_CATEGORY_LABELS: Record<RootCauseCategory, string> = {
+  people: "People / behavior",
+  procedure: "Procedure / method",
+  equipment: "Equipment / tools",
+  environment: "Work environment",
+  training: "Training",
+  supervision: "Supervision / planning",
+};
+
+export const CORRECTIVE_ACTION_TYPES = ["corrective", "preventive"] as const;
+export type CorrectiveActionType = (typeof CORRECTIVE_ACTION_TYPES)[number];
+
+export const CORRECTIVE_ACTION_TYPE_LABELS: Record<CorrectiveActionType, string> = {
+  corrective: "Corrective",
+  preventive: "Preventive",
+};
+
+/** Where an action stands; overdue = past due and not completed. */
+export type CapaStatus = "open" | "overdue" | "awaiting_verification" | "verified";
+
+export const CAPA_STATUS_LABELS: Record<CapaStatus, string> = {
+  open: "Open",
+  overdue: "Overdue",
+  awaiting_verification: "Awaiting verification",
+  verified: "Verified",
+};
+
+export type Investigation = {
+  id: string;
+  createdAt: string;
+  createdByEmail: string | null;
+  updatedAt: string | null;
+  building: string;
+  sourceType: InvestigationSourceType;
+  sourceId: string;
+  sourceLabel: string | null;
+  incidentDate: string | null; // YYYY-MM-DD
+  title: string;
+  whys: string[];
+  rootCauseCategory: RootCauseCategory | null;
+  rootCause: string | null;
+  contributingFactors: string[];
+  status: InvestigationStatus;
+  closedAt: string | null;
+  closedByEmail: string | null;
+};
+
+/** One row of the `investigations` table. */
+export type InvestigationRow = {
+  id: string;
+  created_at: string;
+  created_by_email: string | null;
+  updated_at: string | null;
+  building: string;
+  source_type: string;
+  source_id: string;
+  source_label: string | null;
+  incident_date: string | null;
+  title: string;
+  whys: string[] | null;
+  root_cause_category: string | null;
+  root_cause: string | null;
+  contributing_factors: string[] | null;
+  status: string;
+  closed_at: string | null;
+  closed_by_email: string | null;
+};
+
+export type CorrectiveAction = {
+  id: string;
+  createdAt: string;
+  createdByEmail: string | null;
+  investigationId: string;
+  building: string;
+  actionType: CorrectiveActionType;
+  description: string;
+  ownerName: string;
+  ownerEmail: string | null;
+  dueDate: string; // YYYY-MM-DD
+  completedAt: string | null;
+  completedByEmail: string | null;
+  completionNotes: string | null;
+  verifiedAt: string | null;
+  verifiedByEmail: string | null;
+  verificationNotes: string | null;
+  escalatedAt: string | null;
+};
+
+/** One row of the `corrective_actions` table. */
+export type CorrectiveActionRow = {
+  id: string;
+  created_at: string;
+  created_by_email: string | null;
+  investigation_id: string;
+  building: string;
+  action_type: string;
+  description: string;
+  owner_name: string;
+  owner_email: string | null;
+  due_date: string;
+  completed_at: string | null;
+  completed_by_email: string | null;
+  completion_notes: string | null;
+  verified_at: string | null;
+  verified_by_email: string | null;
+  verification_notes: string | null;
+  escalated_at: string | null;
+};
+
+/** An investigation in the list, with its action counts. */
+export type InvestigationSummary = Investigation & {
+  actionCount: number;
+  openActionCount: number; // not verified yet
+  overdueActionCount: number;
+};
+
+/** Open CAPAs (actions not verified yet) in one building, for the dashboard. */
+export type BuildingCapaSummary = {
+  building: string;
+  open: number;
+  overdue: number;
+  awaitingVerification: number;
+};
+
+/** Body of POST /api/investigations. */
+export type InvestigationCreateInput = {
+  source_type: InvestigationSourceType;
+  source_id: string;
+  title: string | null; // defaults to the source's description
+};
+
+/** Root-cause fields and status, as PATCHed; only the keys sent are changed. */
+export type InvestigationUpdateInput = Partial<{
+  title: string;
+  whys: string[];
+  root_cause_category: RootCauseCategory | null;
+  root_cause: string | null;
+  contributing_factors: string[];
+  status: InvestigationStatus;
+}>;
+
+/** Columns written when an action is added (the route adds investigation_id, building, created_by_email). */
+export type CorrectiveActionInput = {
+  action_type: CorrectiveActionType;
+  description: string;
+  owner_name: string;
+  owner_email: string | null;
+  due_date: string;
+};
+
+/** PATCH /api/investigations/:id/actions/:actionId — one step at a time. */
+export type CorrectiveActionStep =
+  | { step: "complete"; notes: string | null }
+  | { step: "reopen" }
+  | { step: "verify"; notes: string | null }
+  | { step: "reschedule"; due_date: string };
+
+/** What an investigation shows about the row it follows up. */
+export type InvestigationSourceDetails = {
+  building: string;
+  label: string;
+  incidentDate: string | null;
+};
+
+export type InvestigationCreateParseResult = { ok: true; value: InvestigationCreateInput } | { ok: false; error: string };
+export type InvestigationUpdateParseResult = { ok: true; value: InvestigationUpdateInput } | { ok: false; error: string };
+export type CorrectiveActionParseResult = { ok: true; value: CorrectiveActionInput } | { ok: false; error: string };
+export type CorrectiveActionStepParseResult = { ok: true; value: CorrectiveActionStep } | { ok: false; error: string };
+export type InvestigationSourceResult = { ok: true; value: InvestigationSourceDetails } | { ok: false; error: string };
+
+export function isInvestigationSourceType(v: unknown): v is InvestigationSourceType {
+  return typeof v === "string" && (INVESTIGATION_SOURCE_TYPES as readonly string[]).includes(v);
+}
+
+export function isRootCauseCategory(v: unknown): v is RootCauseCategory {
+  return typeof v === "string" && (ROOT_CAUSE_CATEGORIES as readonly string[]).includes(v);
+}
+
+function isCorrectiveActionType(v: unknown): v is CorrectiveActionType {
+  return typeof v === "string" && (CORRECTIVE_ACTION_TYPES as readonly string[]).includes(v);
+}
+
+function textList(v: string[] | null): string[] {
+  return Array.isArray(v) ? v.filter((s) => typeof s === "string") : [];
+}
+
+export function mapInvestigationRow(row: InvestigationRow): Investigation {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email,
+    updatedAt: row.updated_at,
+    building: row.building,
+    sourceType: isInvestigationSourceType(row.source_type) ? row.source_type : "injury_report",
+    sourceId: String(row.source_id),
+    sourceLabel: row.source_label,
+    incidentDate: row.incident_date ? String(row.incident_date).slice(0, 10) : null,
+    title: row.title,
+    whys: textList(row.whys),
+    rootCauseCategory: isRootCauseCategory(row.root_cause_category) ? row.root_cause_category : null,
+    rootCause: row.root_cause,
+    contributingFactors: textList(row.contributing_factors),
+    status: row.status === "closed" ? "closed" : "open",
+    closedAt: row.closed_at,
+    closedByEmail: row.closed_by_email,
+  };
+}
+
+export function mapCorrectiveActionRow(row: CorrectiveActionRow): CorrectiveAction {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email,
+    investigationId: String(row.investigation_id),
+    building: row.building,
+    actionType: isCorrectiveActionType(row.action_type) ? row.action_type : "corrective",
+    description: row.description,
+    ownerName: row.owner_name,
+    ownerEmail: row.owner_email,
+    dueDate: String(row.due_date).slice(0, 10),
+    completedAt: row.completed_at,
+    completedByEmail: row.completed_by_email,
+    completionNotes: row.completion_notes,
+    verifiedAt: row.verified_at,
+    verifiedByEmail: row.verified_by_email,
+    verificationNotes: row.verification_notes,
+    escalatedAt: row.escalated_at,
+  };
+}
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+// A list of short texts: blanks dropped, at most `max`
+function lines(v: unknown, field: string, max: number): { ok: true; value: string[] } | { ok: false; error: string } {
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) {
+    return { ok: false, error: `${field} must be a list of text` };
+  }
+  const value = (v as string[]).map((s) => s.trim()).filter(Boolean);
+  if (value.length > max) return { ok: false, error: `${field} can have at most ${max} entries` };
+  return { ok: true, value };
+}
+
+export function parseInvestigationCreateInput(body: unknown): InvestigationCreateParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  if (!isInvestigationSourceType(b.source_type)) {
+    return { ok: false, error: `source_type must be one of: ${INVESTIGATION_SOURCE_TYPES.join(", ")}` };
+  }
+  const sourceId = text(b.source_id);
+  if (!sourceId) return { ok: false, error: "source_id is required" };
+
+  return { ok: true, value: { source_type: b.source_type, source_id: sourceId, title: text(b.title) || null } };
+}
+
+export function parseInvestigationUpdateInput(body: unknown): InvestigationUpdateParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+  const value: InvestigationUpdateInput = {};
+
+  if ("title" in b) {
+    const title = text(b.title);
+    if (!title) return { ok: false, error: "title can't be blank" };
+    value.title = title;
+  }
+  if ("whys" in b) {
+    const whys = lines(b.whys, "whys", MAX_WHYS);
+    if (!whys.ok) return whys;
+    value.whys = whys.value;
+  }
+  if ("root_cause_category" in b) {
+    if (b.root_cause_category !== null && !isRootCauseCategory(b.root_cause_category)) {
+      return { ok: false, error: `root_cause_category must be one of: ${ROOT_CAUSE_CATEGORIES.join(", ")}` };
+    }
+    value.root_cause_category = b.root_cause_category;
+  }
+  if ("root_cause" in b) value.root_cause = text(b.root_cause) || null;
+  if ("contributing_factors" in b) {
+    const factors = lines(b.contributing_factors, "contributing_factors", MAX_CONTRIBUTING_FACTORS);
+    if (!factors.ok) return factors;
+    value.contributing_factors = factors.value;
+  }
+  if ("status" in b) {
+    if (!(INVESTIGATION_STATUSES as readonly unknown[]).includes(b.status)) {
+      return { ok: false, error: `status must be one of: ${INVESTIGATION_STATUSES.join(", ")}` };
+    }
+    value.status = b.status as InvestigationStatus;
+  }
+
+  if (Object.keys(value).length === 0) return { ok: false, error: "Nothing to update" };
+  return { ok: true, value };
+}
+
+export function parseCorrectiveActionInput(body: unknown): CorrectiveActionParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const actionType = b.action_type === undefined ? "corrective" : b.action_type;
+  if (!isCorrectiveActionType(actionType)) {
+    return { ok: false, error: `action_type must be one of: ${CORRECTIVE_ACTION_TYPES.join(", ")}` };
+  }
+  const description = text(b.description);
+  if (!description) return { ok: false, error: "description is required" };
+  const ownerName = text(b.owner_name);
+  if (!ownerName) return { ok: false, error: "owner_name is required" };
+  const ownerEmail = text(b.owner_email).toLowerCase() || null;
+  if (ownerEmail && !/^[^\s@]+@[^\s@]+$/.test(ownerEmail)) return { ok: false, error: "owner_email is not an email" };
+  const dueDate = text(b.due_date);
+  if (!isYMD(dueDate)) return { ok: false, error: "due_date must be YYYY-MM-DD" };
+
+  return {
+    ok: true,
+    value: { action_type: actionType, description, owner_name: ownerName, owner_email: ownerEmail, due_date: dueDate },
+  };
+}
+
+export function parseCorrectiveActionStep(body: unknown): CorrectiveActionStepParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  switch (b.step) {
+    case "complete":
+    case "verify":
+      return { ok: true, value: { step: b.step, notes: text(b.notes) || null } };
+    case "reopen":
+      return { ok: true, value: { step: "reopen" } };
+    case "reschedule": {
+      const dueDate = text(b.due_date);
+      if (!isYMD(dueDate)) return { ok: false, error: "due_date must be YYYY-MM-DD" };
+      return { ok: true, value: { step: "reschedule", due_date: dueDate } };
+    }
+    default:
+      return { ok: false, error: "step must be one of: complete, reopen, verify, reschedule" };
+  }
+}
+
+/**
+ * The columns a step writes, or why it can't be taken. Completing marks the
+ * action done; verifying confirms it worked and needs it completed first;
+ * reopening clears both; a new due date clears the escalation.
+ */
+export function correctiveActionStepUpdate(
+  action: CorrectiveAction,
+  step: CorrectiveActionStep,
+  actorEmail: string | null,
+  now: Date = new Date()
+): { ok: true; value: Partial<CorrectiveActionRow> } | { ok: false; error: string } {
+  switch (step.step) {
+    case "complete":
+      if (action.completedAt) return { ok: false, error: "The action is already completed" };
+      return {
+        ok: true,
+        value: { completed_at: now.toISOString(), completed_by_email: actorEmail, completion_notes: step.notes },
+      };
+    case "verify":
+      if (!action.completedAt) return { ok: false, error: "Complete the action before verifying it" };
+      if (action.verifiedAt) return { ok: false, error: "The action is already verified" };
+      return {
+        ok: true,
+        value: { verified_at: now.toISOString(), verified_by_email: actorEmail, verification_notes: step.notes },
+      };
+    case "reopen":
+      return {
+        ok: true,
+        value: {
+          completed_at: null,
+          completed_by_email: null,
+          completion_notes: null,
+          verified_at: null,
+          verified_by_email: null,
+          verification_notes: null,
+        },
+      };
+    case "reschedule":
+      if (action.completedAt) return { ok: false, error: "Only open actions can be rescheduled" };
+      return { ok: true, value: { due_date: step.due_date, escalated_at: null } };
+  }
+}
+
+export function capaStatus(action: Pick<CorrectiveAction, "dueDate" | "completedAt" | "verifiedAt">, todayYMD: string): CapaStatus {
+  if (action.verifiedAt) return "verified";
+  if (action.completedAt) return "awaiting_verification";
+  return action.dueDate < todayYMD ? "overdue" : "open";
+}
+
+/** Whole days past due (0 when not overdue). */
+export function capaDaysOverdue(action: Pick<CorrectiveAction, "dueDate" | "completedAt" | "verifiedAt">, todayYMD: string): number {
+  if (capaStatus(action, todayYMD) !== "overdue") return 0;
+  return Math.round((Date.parse(`${todayYMD}T00:00:00Z`) - Date.parse(`${action.dueDate}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Overdue long enough to escalate beyond the building, and not escalated yet. */
+export function capaNeedsEscalation(action: CorrectiveAction, todayYMD: string): boolean {
+  return !action.escalatedAt && capaDaysOverdue(action, todayYMD) >= CAPA_ESCALATION_DAYS;
+}
+
+/** Overdue first, then open by due date, awaiting verification, verified. */
+export function sortCorrectiveActions(actions: CorrectiveAction[], todayYMD: string): CorrectiveAction[] {
+  const order: CapaStatus[] = ["overdue", "open", "awaiting_verification", "verified"];
+  return [...actions].sort(
+    (a, b) =>
+      order.indexOf(capaStatus(a, todayYMD)) - order.indexOf(capaStatus(b, todayYMD)) ||
+      a.dueDate.localeCompare(b.dueDate) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/** Why the investigation can't be closed yet, or null when it can. Mirrors the database trigger. */
+export function investigationCloseBlocker(
+  investigation: Pick<Investigation, "rootCauseCategory" | "rootCause">,
+  actions: Pick<CorrectiveAction, "verifiedAt">[]
+): string | null {
+  if (!investigation.rootCauseCategory || !investigation.rootCause?.trim()) {
+    return "Record the root cause before closing the investigation.";
+  }
+  if (actions.length === 0) return "Add at least one corrective action before closing the investigation.";
+  const unverified = actions.filter((a) => !a.verifiedAt).length;
+  if (unverified > 0) {
+    return `${unverified} corrective action${unverified === 1 ? " is" : "s are"} not verified yet.`;
+  }
+  return null;
+}
+
+/** Attach action counts to each investigation. */
+export function summarizeInvestigations(
+  investigations: Investigation[],
+  actions: CorrectiveAction[],
+  todayYMD: string
+): InvestigationSummary[] {
+  const byInvestigation = new Map<string, CorrectiveAction[]>();
+  for (const a of actions) byInvestigation.set(a.investigationId, [...(byInvestigation.get(a.investigationId) ?? []), a]);
+
+  return investigations.map((inv) => {
+    const mine = byInvestigation.get(inv.id) ?? [];
+    return {
+      ...inv,
+      actionCount: mine.length,
+      openActionCount: mine.filter((a) => !a.verifiedAt).length,
+      overdueActionCount: mine.filter((a) => capaStatus(a, todayYMD) === "overdue").length,
+    };
+  });
+}
+
+/** Open CAPAs per building, in BUILDINGS order (other buildings after, by name). */
+export function summarizeOpenCapas(actions: CorrectiveAction[], todayYMD: string): BuildingCapaSummary[] {
+  const byBuilding = new Map<string, BuildingCapaSummary>();
+  for (const a of actions) {
+    const status = capaStatus(a, todayYMD);
+    if (status === "verified") continue;
+    const row = byBuilding.get(a.building) ?? { building: a.building, open: 0, overdue: 0, awaitingVerification: 0 };
+    row.open += 1;
+    if (status === "overdue") row.overdue += 1;
+    if (status === "awaiting_verification") row.awaitingVerification += 1;
+    byBuilding.set(a.building, row);
+  }
+
+  const rank = (b: string) => {
+    const i = (BUILDINGS as readonly string[]).indexOf(b);
+    return i === -1 ? BUILDINGS.length : i;
+  };
+  return [...byBuilding.values()].sort((a, b) => rank(a.building) - rank(b.building) || a.building.localeCompare(b.building));
+}
+
+/**
+ * The building, a one-line description and the date of the row being
+ * investigated. A readiness report only qualifies when it recorded a near
+ * miss or hazard.
+ */
+export function investigationSourceDetails(
+  type: InvestigationSourceType,
+  row: Record<string, unknown>
+): InvestigationSourceResult {
+  const building = text(row.building);
+  if (!building) return { ok: false, error: "The source record has no building" };
+
+  switch (type) {
+    case "injury_report": {
+      const label = [text(row.employee_name) || "Unnamed employee", text(row.incident_type), text(row.body_part)]
+        .filter(Boolean)
+        .join(" · ");
+      const incidentDate =
+        toNYDateOnly(typeof row.incident_datetime === "string" ? row.incident_datetime : null) ??
+        (text(row.work_date).slice(0, 10) || null);
+      return { ok: true, value: { building, label, incidentDate } };
+    }
+    case "damage_report": {
+      const label = `Container ${text(row.container_no) || "—"} · ${Number(row.pieces_damaged) || 0} of ${
+        Number(row.pieces_total) || 0
+      } pieces damaged`;
+      return {
+        ok: true,
+        value: { building, label, incidentDate: toNYDateOnly(typeof row.created_at === "string" ? row.created_at : null) },
+      };
+    }
+    case "startup_checklist": {
+      const { nearMiss, hazards } = startupChecklistSafetyFindings(row as StartupChecklistRow);
+      if (!nearMiss && !hazards) return { ok: false, error: "That readiness report has no near miss or hazard recorded" };
+      const label = nearMiss ? `Near miss: ${nearMiss}` : `Hazard: ${hazards}`;
+      const date = text(row.date);
+      return { ok: true, value: { building, label, incidentDate: isYMD(date) ? date : null } };
+    }
+    case "hazard_report": {
+      const type = HAZARD_REPORT_TYPE_LABELS[text(row.report_type) as HazardReportType] ?? "Hazard";
+      const category = HAZARD_CATEGORY_LABELS[text(row.category) as HazardCategory];
+      const label = `${type}: ${[category, text(row.location)].filter(Boolean).join(" · ")}`;
+      const when = text(row.occurred_at) || text(row.created_at);
+      return { ok: true, value: { building, label, incidentDate: toNYDateOnly(when || null) } };
+    }
+  }
+}
+
+export async function fetchInvestigation(
+  client: SupabaseClient,
+  id: string
+): Promise<{ data: { investigation: Investigation; actions: CorrectiveAction[] } | null; error: unknown }> {
+  const [investigation, actions] = await Promise.all([
+    client.from(INVESTIGATIONS_TABLE).select("*").eq("id", id).maybeSingle(),
+    client.from(CORRECTIVE_ACTIONS_TABLE).select("*").eq("investigation_id", id),
+  ]);
+  const error = investigation.error ?? actions.error;
+  if (error) return { data: null, error };
+  if (!investigation.data) return { data: null, error: null };
+
+  return {
+    data: {
+      investigation: mapInvestigationRow(investigation.data as InvestigationRow),
+      actions: ((actions.data || []) as CorrectiveActionRow[]).map(mapCorrectiveActionRow),
+    },
+    error: null,
+  };
+}
+
+/** Investigations (newest first) and every action on them, optionally for one building. */
+export async function fetchInvestigations(
+  client: SupabaseClient,
+  building?: string | null
+): Promise<{ data: { investigations: Investigation[]; actions: CorrectiveAction[] }; error: unknown }> {
+  let investigations = client.from(INVESTIGATIONS_TABLE).select("*").order("created_at", { ascending: false });
+  let actions = client.from(CORRECTIVE_ACTIONS_TABLE).select("*");
+  if (building) {
+    investigations = investigations.eq("building", building);
+    actions = actions.eq("building", building);
+  }
+
+  const [inv, act] = await Promise.all([investigations, actions]);
+  const error = inv.error ?? act.error;
+  if (error) return { data: { investigations: [], actions: [] }, error };
+
+  return {
+    data: {
+      investigations: ((inv.data || []) as InvestigationRow[]).map(mapInvestigationRow),
+      actions: ((act.data || []) as CorrectiveActionRow[]).map(mapCorrectiveActionRow),
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  fetchDueMessageDeliveries,
+  mapMessageDeliveryRow,
+  nextDeliveryAttemptAt,
+  type MessageDeliveryRow,
+} from "@/lib/domain/messageDeliveries";
+import { createSupabaseStub } from "@/test/supabaseStub";
+
+function row(overrides: Partial<MessageDeliveryRow>): MessageDeliveryRow {
+  return {
+    id: "m-1",
+    created_at: "2026-10-19T06:00:00.000Z",
+    updated_at: "2026-10-19T06:00:00.000Z",
+    channel: "whatsapp",
+    transport: "whatsapp",
+    template: "shift.broadcast",
+    recipient: "+15551234567",
+    subject: null,
+    body: "Shift start",
+    status: "pending",
+    attempts: 1,
+    last_error: "503: Service Unavailable",
+    next_attempt_at: "2026-10-19T06:01:00.000Z",
+    sent_at: null,
+    provider_message_id: null,
+    source_table: "startup_checklists",
+    source_id: "s-1",
+    dedupe_key: "shift.broadcast:s-1",
+    created_by: "lead@example.com",
+    ...overrides,
+  };
+}
+
+describe("nextDeliveryAttemptAt", () => {
+  const now = new Date("2026-10-19T06:00:00.000Z");
+
+  it("backs off after each failed attempt", () => {
+    expect(nextDeliveryAttemptAt(1, now)).toBe("2026-10-19T06:01:00.000Z");
+    expect(nextDeliveryAttemptAt(2, now)).toBe("2026-10-19T06:05:00.000Z");
+    expect(nextDeliveryAttemptAt(4, now)).toBe("2026-10-19T08:00:00.000Z");
+  });
+
+  it("gives up after the last attempt", () => {
+    expect(nextDeliveryAttemptAt(MAX_DELIVERY_ATTEMPTS, now)).toBeNull();
+  });
+});
+
+describe("mapMessageDeliveryRow", () => {
+  it("maps columns and falls back to pending for unknown statuses", () => {
+    expect(mapMessageDeliveryRow(row({ status: "queued", attempts: null }))).toMatchObject({
+      channel: "whatsapp",
+      recipient: "+15551234567",
+      status: "pending",
+      attempts: 0,
+      lastError: "503: Service Unavailable",
+      sourceId: "s-1",
+    });
+  });
+});
+
+describe("fetchDueMessageDeliveries", () => {
+  it("returns pending deliveries whose retry time has passed, oldest first", async () => {
+    const { client } = createSupabaseStub({
+      message_deliveries: [
+        row({ id: "later", next_attempt_at: "2026-10-19T07:00:00.000Z" }),
+        row({ id: "due-2", next_attempt_at: "2026-10-19T06:05:00.000Z" }),
+        row({ id: "due-1", next_attempt_at: "2026-10-19T06:01:00.000Z" }),
+        row({ id: "sent", status: "sent", next_attempt_at: null }),
+      ],
+    });
+
+    const { data, error } = await fetchDueMessageDeliveries(client, new Date("2026-10-19T06:30:00.000Z"));
+    expect(error).toBeNull();
+    expect(data.map((d) => d.id)).toEqual(["due-1", "due-2"]);
+  });
+});
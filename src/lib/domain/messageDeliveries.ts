@@ -0,0 +1,151 @@
+// src/lib/domain/messageDeliveries.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Delivery log for outbound email / SMS / WhatsApp, one row per recipient.
+ * Written server-side by src/lib/messaging.ts: a row starts "pending", becomes
+ * "sent" once the transport accepts it, or "failed" after the last retry (or
+ * straight away for errors a retry can't fix, like a bad address).
+ */
+
+export const MESSAGE_DELIVERIES_TABLE = "message_deliveries";
+
+export const MESSAGE_CHANNELS = ["email", "sms", "whatsapp"] as const;
+export type MessageChannel = (typeof MESSAGE_CHANNELS)[number];
+
+export type MessageDeliveryStatus = "pending" | "sent" | "failed";
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+// Wait after the 1st, 2nd, 3rd and 4th failed attempt
+export const DELIVERY_RETRY_MINUTES = [1, 5, 30, 120] as const;
+// Newest shown by GET /api/messages
+export const MESSAGE_DELIVERY_LOG_LIMIT = 200;
+
+export type MessageDelivery = {
+  id: string;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  channel: MessageChannel;
+  transport: string; // "smtp", "twilio", "whatsapp", "console", "file"
+  template: string;
+  recipient: string; // email address or E.164 phone number
+  subject: string | null;
+  body: string;
+  status: MessageDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  providerMessageId: string | null;
+  sourceTable: string | null;
+  sourceId: string | null;
+  createdBy: string | null;
+};
+
+/** One row of the `message_deliveries` table. */
+export type MessageDeliveryRow = {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  channel: string;
+  transport: string;
+  template: string;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  status: string;
+  attempts: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  sent_at: string | null;
+  provider_message_id: string | null;
+  source_table: string | null;
+  source_id: string | null;
+  dedupe_key: string | null;
+  created_by: string | null;
+};
+
+export type MessageDeliveryFilters = {
+  status?: MessageDeliveryStatus | null;
+  sourceTable?: string | null;
+  sourceId?: string | null;
+};
+
+export function isMessageChannel(v: unknown): v is MessageChannel {
+  return typeof v === "string" && (MESSAGE_CHANNELS as readonly string[]).includes(v);
+}
+
+function deliveryStatus(v: string): MessageDeliveryStatus {
+  return v === "sent" || v === "failed" ? v : "pending";
+}
+
+export function mapMessageDeliveryRow(row: MessageDeliveryRow): MessageDelivery {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    channel: isMessageChannel(row.channel) ? row.channel : "email",
+    transport: row.transport,
+    template: row.template,
+    recipient: row.recipient,
+    subject: row.subject,
+    body: row.body ?? "",
+    status: deliveryStatus(row.status),
+    attempts: Number(row.attempts ?? 0),
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    sentAt: row.sent_at,
+    providerMessageId: row.provider_message_id,
+    sourceTable: row.source_table,
+    sourceId: row.source_id,
+    createdBy: row.created_by,
+  };
+}
+
+/**
+ * When to try again after `attempts` failed attempts, or null once
+ * MAX_DELIVERY_ATTEMPTS is used up and the delivery should be marked failed.
+ */
+export function nextDeliveryAttemptAt(attempts: number, now: Date = new Date()): string | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+  const i = Math.min(Math.max(attempts, 1), DELIVERY_RETRY_MINUTES.length) - 1;
+  return new Date(now.getTime() + DELIVERY_RETRY_MINUTES[i] * 60 * 1000).toISOString();
+}
+
+/** Newest first. */
+export async function fetchMessageDeliveries(
+  client: SupabaseClient,
+  filters: MessageDeliveryFilters = {}
+): Promise<{ data: MessageDelivery[]; error: unknown }> {
+  let query = client
+    .from(MESSAGE_DELIVERIES_TABLE)
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(MESSAGE_DELIVERY_LOG_LIMIT);
+
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.sourceTable) query = query.eq("source_table", filters.sourceTable);
+  if (filters.sourceId) query = query.eq("source_id", filters.sourceId);
+
+  const { data, error } = await query;
+  if (error) return { data: [], error };
+  return { data: ((data || []) as MessageDeliveryRow[]).map(mapMessageDeliveryRow), error: null };
+}
+
+/** Pending deliveries whose retry time has come, oldest first. */
+export async function fetchDueMessageDeliveries(
+  client: SupabaseClient,
+  now: Date = new Date(),
+  limit = 50
+): Promise<{ data: MessageDelivery[]; error: unknown }> {
+  const { data, error } = await client
+    .from(MESSAGE_DELIVERIES_TABLE)
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) return { data: [], error };
+  return { data: ((data || []) as MessageDeliveryRow[]).map(mapMessageDeliveryRow), error: null };
+}
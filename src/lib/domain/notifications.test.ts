@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  notificationsForEvent,
+  parseNotificationPreferences,
+  wantsNotification,
+  type BuildingNotificationEvent,
+  type NotificationPreferences,
+  type NotificationRecipient,
+} from "@/lib/domain/notifications";
+
+const recipients: NotificationRecipient[] = [
+  { email: "lead.dc1@example.com", accessRole: "Lead", building: "DC1" },
+  { email: "lead.dc5@example.com", accessRole: "Lead", building: "DC5" },
+  { email: "super@example.com", accessRole: "Supervisor", building: "DC5" },
+  { email: "bm.dc1@example.com", accessRole: "Building Manager", building: "DC1" },
+  { email: "hr@example.com", accessRole: "HR", building: null },
+  { email: "worker@example.com", accessRole: "Worker", building: "DC1" },
+];
+
+const event: BuildingNotificationEvent = {
+  type: "training.overdue",
+  title: "Training overdue: Forklift",
+  body: null,
+  link: "/training",
+  building: "DC1",
+  source_table: "training_records",
+  source_id: "t-1",
+  dedupe_key: "training.overdue:t-1:2026-10-01",
+  actorEmail: "hr@example.com",
+};
+
+describe("parseNotificationPreferences", () => {
+  it("accepts known types and trims buildings", () => {
+    expect(parseNotificationPreferences({ mutedTypes: ["chat.mention"], buildings: [" DC1 ", "DC1"] })).toEqual({
+      ok: true,
+      value: { mutedTypes: ["chat.mention"], buildings: ["DC1"] },
+    });
+    expect(parseNotificationPreferences({})).toEqual({ ok: true, value: { mutedTypes: [], buildings: [] } });
+  });
+
+  it("rejects unknown types and non-lists", () => {
+    expect(parseNotificationPreferences({ mutedTypes: ["pizza"] })).toEqual({
+      ok: false,
+      error: "Unknown notification type: pizza",
+    });
+    expect(parseNotificationPreferences({ buildings: "DC1" }).ok).toBe(false);
+  });
+});
+
+describe("wantsNotification", () => {
+  const prefs: NotificationPreferences = { mutedTypes: ["damage.reported"], buildings: ["DC5"] };
+
+  it("drops muted types and other buildings", () => {
+    expect(wantsNotification(prefs, "damage.reported", "DC5")).toBe(false);
+    expect(wantsNotification(prefs, "injury.submitted", "DC1")).toBe(false);
+    expect(wantsNotification(prefs, "injury.submitted", "DC5")).toBe(true);
+    expect(wantsNotification(undefined, "injury.submitted", "DC1")).toBe(true);
+  });
+
+  it("never narrows direct messages and mentions by building", () => {
+    expect(wantsNotification(prefs, "chat.dm", "DC1")).toBe(true);
+    expect(wantsNotification({ ...prefs, mutedTypes: ["chat.dm"] }, "chat.dm", "DC1")).toBe(false);
+  });
+});
+
+describe("notificationsForEvent", () => {
+  it("addresses the audience roles, scoped roles only in their building, never the actor", () => {
+    const out = notificationsForEvent(event, recipients, new Map());
+    expect(out.map((n) => n.user_email)).toEqual(["lead.dc1@example.com", "super@example.com", "bm.dc1@example.com"]);
+    expect(out[0]).toMatchObject({
+      type: "training.overdue",
+      source_id: "t-1",
+      dedupe_key: "training.overdue:t-1:2026-10-01",
+    });
+    expect(out[0]).not.toHaveProperty("actorEmail");
+  });
+
+  it("respects each recipient's preferences", () => {
+    const prefs = new Map<string, NotificationPreferences>([
+      ["super@example.com", { mutedTypes: [], buildings: ["DC5"] }],
+      ["bm.dc1@example.com", { mutedTypes: ["training.overdue"], buildings: [] }],
+    ]);
+    expect(notificationsForEvent(event, recipients, prefs).map((n) => n.user_email)).toEqual([
+      "lead.dc1@example.com",
+    ]);
+  });
+});
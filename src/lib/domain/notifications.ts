@@ -0,0 +1,314 @@
+// src/lib/domain/notifications.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isBuildingScoped, sanitizeRole, type AccessRole } from "@/lib/roles";
+
+/**
+ * In-app notifications, one row per recipient, and each user's preferences.
+ * Created server-side (service role): chat messages address people directly;
+ * building events (injuries, hazards, damage, training, hiring, checklists, CAPAs) go to the
+ * roles that handle them in that building, minus anyone who muted the type or
+ * narrowed their buildings. Read through /api/notifications and the bell.
+ */
+
+export const NOTIFICATIONS_TABLE = "notifications";
+export const NOTIFICATION_PREFERENCES_TABLE = "notification_preferences";
+
+export const NOTIFICATION_TYPES = [
+  "chat.dm",
+  "chat.mention",
+  "injury.submitted",
+  "hazard.reported",
+  "damage.reported",
+  "training.overdue",
+  "hiring.stage_changed",
+  "checklist.unfinished",
+  "capa.overdue",
+  "capa.escalated",
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  "chat.dm": "Direct messages",
+  "chat.mention": "Chat @mentions",
+  "injury.submitted": "Injury reports submitted",
+  "hazard.reported": "Hazard / near-miss reports",
+  "damage.reported": "Damage reports",
+  "training.overdue": "Training overdue",
+  "hiring.stage_changed": "Hiring stage changes",
+  "checklist.unfinished": "Unfinished startup checklists",
+  "capa.overdue": "Corrective actions overdue",
+  "capa.escalated": "Corrective actions escalated",
+};
+
+/** Types sent to everyone in a role for the building, rather than to named people. */
+export type BuildingNotificationType = Exclude<NotificationType, "chat.dm" | "chat.mention">;
+
+// Who hears about each building event (building-scoped roles only for their own building)
+export const NOTIFICATION_AUDIENCE: Record<BuildingNotificationType, readonly AccessRole[]> = {
+  "injury.submitted": ["Supervisor", "Building Manager", "HR", "HQ", "Admin", "Super Admin"],
+  "hazard.reported": ["Supervisor", "Building Manager", "HR"],
+  "damage.reported": ["Supervisor", "Building Manager", "HQ", "Admin", "Super Admin"],
+  "training.overdue": ["Lead", "Supervisor", "Building Manager", "HR"],
+  "hiring.stage_changed": ["Building Manager", "HR", "HQ"],
+  "checklist.unfinished": ["Lead", "Supervisor", "Building Manager"],
+  "capa.overdue": ["Supervisor", "Building Manager", "HR"],
+  "capa.escalated": ["Building Manager", "HQ", "Admin", "Super Admin"],
+};
+
+// Newest shown in the bell / inbox
+export const NOTIFICATION_INBOX_LIMIT = 50;
+
+export type AppNotification = {
+  id: string;
+  createdAt: string; // ISO
+  userEmail: string;
+  type: string;
+  title: string;
+  body: string;
+  link: string | null;
+  building: string | null;
+  sourceTable: string | null;
+  sourceId: string | null;
+  readAt: string | null;
+};
+
+/** One row of the `notifications` table. */
+export type NotificationRow = {
+  id: string;
+  created_at: string;
+  user_email: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  building: string | null;
+  source_table: string | null;
+  source_id: string | null;
+  read_at: string | null;
+  dedupe_key?: string | null;
+};
+
+/** Columns written when raising a notification. */
+export type NotificationInput = {
+  user_email: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  building: string | null;
+  source_table: string | null;
+  source_id: string | null;
+  dedupe_key?: string | null; // one notification per recipient per key
+};
+
+/** A building event, before it is addressed to anyone. */
+export type BuildingNotificationEvent = Omit<NotificationInput, "user_email" | "type"> & {
+  type: BuildingNotificationType;
+  building: string | null;
+  actorEmail?: string | null; // whoever caused it isn't notified
+};
+
+export type NotificationPreferences = {
+  mutedTypes: NotificationType[];
+  buildings: string[]; // empty = every building the user can see
+};
+
+export type NotificationPreferencesParseResult =
+  | { ok: true; value: NotificationPreferences }
+  | { ok: false; error: string };
+
+/** An active account that can receive notifications. */
+export type NotificationRecipient = {
+  email: string; // lower-cased
+  accessRole: AccessRole;
+  building: string | null;
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = { mutedTypes: [], buildings: [] };
+
+export function mapNotificationRow(row: NotificationRow): AppNotification {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at ?? new Date().toISOString(),
+    userEmail: row.user_email ?? "",
+    type: row.type ?? "",
+    title: row.title ?? "",
+    body: row.body ?? "",
+    link: row.link ?? null,
+    building: row.building ?? null,
+    sourceTable: row.source_table ?? null,
+    sourceId: row.source_id ?? null,
+    readAt: row.read_at ?? null,
+  };
+}
+
+function isNotificationType(v: unknown): v is NotificationType {
+  return (NOTIFICATION_TYPES as readonly unknown[]).includes(v);
+}
+
+export function isBuildingNotificationType(type: NotificationType): type is BuildingNotificationType {
+  return type in NOTIFICATION_AUDIENCE;
+}
+
+function stringList(v: unknown): string[] | null {
+  if (v === undefined || v === null) return [];
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) return null;
+  return Array.from(new Set((v as string[]).map((s) => s.trim()).filter(Boolean)));
+}
+
+/** Validate `{ mutedTypes, buildings }` from the preferences form. */
+export function parseNotificationPreferences(body: unknown): NotificationPreferencesParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const muted = stringList(b.mutedTypes);
+  if (!muted) return { ok: false, error: "mutedTypes must be a list of notification types" };
+  const unknown = muted.find((t) => !isNotificationType(t));
+  if (unknown) return { ok: false, error: `Unknown notification type: ${unknown}` };
+
+  const buildings = stringList(b.buildings);
+  if (!buildings) return { ok: false, error: "buildings must be a list of buildings" };
+
+  return { ok: true, value: { mutedTypes: muted as NotificationType[], buildings } };
+}
+
+/**
+ * Whether a user's preferences let a notification through. The building
+ * filter only narrows building events; direct messages and mentions always
+ * reach the person addressed unless the type is muted.
+ */
+export function wantsNotification(
+  prefs: NotificationPreferences | undefined,
+  type: NotificationType,
+  building: string | null
+): boolean {
+  const p = prefs ?? DEFAULT_NOTIFICATION_PREFERENCES;
+  if (p.mutedTypes.includes(type)) return false;
+  if (!isBuildingNotificationType(type) || !building || p.buildings.length === 0) return true;
+  return p.buildings.includes(building);
+}
+
+/** Address a building event to everyone in its audience who wants it. */
+export function notificationsForEvent(
+  event: BuildingNotificationEvent,
+  recipients: NotificationRecipient[],
+  prefs: Map<string, NotificationPreferences>
+): NotificationInput[] {
+  const roles = NOTIFICATION_AUDIENCE[event.type];
+  const { actorEmail, ...columns } = event;
+  const actor = (actorEmail || "").toLowerCase();
+
+  const seen = new Set<string>();
+  const out: NotificationInput[] = [];
+  for (const r of recipients) {
+    if (!roles.includes(r.accessRole) || r.email === actor || seen.has(r.email)) continue;
+    if (isBuildingScoped(r.accessRole) && (!r.building || r.building !== event.building)) continue;
+    if (!wantsNotification(prefs.get(r.email), event.type, event.building)) continue;
+    seen.add(r.email);
+    out.push({ ...columns, user_email: r.email });
+  }
+  return out;
+}
+
+export function unreadNotificationCount(notifications: AppNotification[]): number {
+  return notifications.filter((n) => !n.readAt).length;
+}
+
+/** Preferences by recipient; users who never saved any are missing (defaults apply). */
+export async function fetchNotificationPreferences(
+  client: SupabaseClient,
+  emails?: string[]
+): Promise<{ data: Map<string, NotificationPreferences>; error: unknown }> {
+  if (emails && emails.length === 0) return { data: new Map(), error: null };
+
+  let query = client.from(NOTIFICATION_PREFERENCES_TABLE).select("*");
+  if (emails) query = query.in("user_email", emails.map((e) => e.toLowerCase()));
+
+  const { data, error } = await query;
+  const rows = (data || []) as { user_email: string; muted_types: string[] | null; buildings: string[] | null }[];
+  return {
+    data: error
+      ? new Map()
+      : new Map(
+          rows.map((r) => [
+            r.user_email.toLowerCase(),
+            { mutedTypes: (r.muted_types ?? []).filter(isNotificationType), buildings: r.buildings ?? [] },
+          ])
+        ),
+    error,
+  };
+}
+
+/** Active accounts that can be notified. */
+export async function fetchNotificationRecipients(
+  client: SupabaseClient
+): Promise<{ data: NotificationRecipient[]; error: unknown }> {
+  const { data, error } = await client.from("user_accounts").select("email, access_role, building, active");
+  const rows = (data || []) as {
+    email: string | null;
+    access_role: string | null;
+    building: string | null;
+    active: boolean | null;
+  }[];
+  return {
+    data: error
+      ? []
+      : rows
+          .filter((r) => r.email && r.active !== false)
+          .map((r) => ({
+            email: (r.email as string).toLowerCase(),
+            accessRole: sanitizeRole(r.access_role),
+            building: r.building ?? null,
+          })),
+    error,
+  };
+}
+
+/**
+ * Insert notifications; recipients are lower-cased. A row whose dedupe_key
+ * the recipient already has is skipped. No-op for an empty list.
+ */
+export async function insertNotifications(
+  client: SupabaseClient,
+  inputs: NotificationInput[]
+): Promise<{ error: unknown }> {
+  if (inputs.length === 0) return { error: null };
+  const rows = inputs.map((n) => ({ ...n, user_email: n.user_email.toLowerCase(), dedupe_key: n.dedupe_key ?? null }));
+  const { error } = await client
+    .from(NOTIFICATIONS_TABLE)
+    .upsert(rows, { onConflict: "user_email,dedupe_key", ignoreDuplicates: true });
+  return { error };
+}
+
+/** Notify the people a notification is addressed to, respecting their preferences. */
+export async function deliverNotifications(
+  client: SupabaseClient,
+  inputs: NotificationInput[]
+): Promise<{ count: number; error: unknown }> {
+  if (inputs.length === 0) return { count: 0, error: null };
+
+  const prefs = await fetchNotificationPreferences(client, inputs.map((n) => n.user_email));
+  if (prefs.error) return { count: 0, error: prefs.error };
+
+  const wanted = inputs.filter((n) => wantsNotification(prefs.data.get(n.user_email.toLowerCase()), n.type, n.building));
+  const { error } = await insertNotifications(client, wanted);
+  return { count: error ? 0 : wanted.length, error };
+}
+
+/** Notify each building event's audience (see NOTIFICATION_AUDIENCE). */
+export async function raiseBuildingNotifications(
+  client: SupabaseClient,
+  events: BuildingNotificationEvent[]
+): Promise<{ count: number; error: unknown }> {
+  if (events.length === 0) return { count: 0, error: null };
+
+  const [recipients, prefs] = await Promise.all([
+    fetchNotificationRecipients(client),
+    fetchNotificationPreferences(client),
+  ]);
+  if (recipients.error || prefs.error) return { count: 0, error: recipients.error || prefs.error };
+
+  const inputs = events.flatMap((e) => notificationsForEvent(e, recipients.data, prefs.data));
+  const { error } = await insertNotifications(client, inputs);
+  return { count: error ? 0 : inputs.length, error };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignedCountsBySlot,
+  assignmentConflicts,
+  copyWeekAssignments,
+  parseShiftAssignmentInput,
+  publishedAssignments,
+  scheduleRoleForJob,
+  scheduleSlotKey,
+  type ShiftAssignment,
+} from "@/lib/domain/schedules";
+import { mapWorkforceRow } from "@/lib/domain/workforce";
+
+const workforce = [
+  { id: "w-ana", name: "Ana Lopez", building: "DC1", status: "Active", job_role: "Lumper" },
+  { id: "w-ben", name: "Ben Cole", building: "DC1", status: "Active", job_role: "Forklift Operator" },
+  { id: "w-cara", name: "Cara Diaz", building: "DC1", status: "On Leave" },
+  { id: "w-dee", name: "Dee Park", building: "DC1", status: "Terminated" },
+].map(mapWorkforceRow);
+
+function assignment(overrides: Partial<ShiftAssignment>): ShiftAssignment {
+  return {
+    id: "a-1",
+    createdAt: "2026-10-12T12:00:00Z",
+    updatedAt: "2026-10-12T12:00:00Z",
+    createdByEmail: "bm@example.com",
+    workforceId: "w-ana",
+    workerName: "Ana Lopez",
+    building: "DC1",
+    shift: "1st",
+    date: "2026-10-12",
+    role: "Lumper",
+    notes: "",
+    ...overrides,
+  };
+}
+
+describe("parseShiftAssignmentInput", () => {
+  it("requires a worker, slot and known role", () => {
+    expect(
+      parseShiftAssignmentInput({ workforce_id: "w-ana", building: "DC1", shift: "1st", date: "2026-10-19", role: "Lead" })
+    ).toEqual({
+      ok: true,
+      value: { workforce_id: "w-ana", building: "DC1", shift: "1st", date: "2026-10-19", role: "Lead", notes: null },
+    });
+    expect(parseShiftAssignmentInput({ workforce_id: "w-ana", building: "DC1", shift: "1st", date: "2026-10-19", role: "Boss" }).ok).toBe(false);
+    expect(parseShiftAssignmentInput({ building: "DC1", shift: "1st", date: "2026-10-19", role: "Lead" }).ok).toBe(false);
+  });
+});
+
+describe("scheduleRoleForJob", () => {
+  it("maps job titles onto the staffing plan roles", () => {
+    expect(scheduleRoleForJob("Forklift Operator")).toBe("Equipment");
+    expect(scheduleRoleForJob("Shift Lead")).toBe("Lead");
+    expect(scheduleRoleForJob("Leadership trainee")).toBe("Lumper");
+    expect(scheduleRoleForJob(null)).toBe("Lumper");
+  });
+});
+
+describe("assignmentConflicts", () => {
+  it("flags leave, inactive workers and double-booking", () => {
+    const booked = [assignment({ building: "DC5", shift: "2nd", date: "2026-10-19" })];
+
+    expect(assignmentConflicts({ workforceId: "w-ana", date: "2026-10-20" }, workforce, booked)).toEqual([]);
+    expect(assignmentConflicts({ workforceId: "w-ana", date: "2026-10-19" }, workforce, booked)).toEqual([
+      { kind: "double_booked", message: "Ana Lopez is already on DC5 2nd shift on 2026-10-19" },
+    ]);
+    expect(assignmentConflicts({ workforceId: "w-cara", date: "2026-10-19" }, workforce, [])[0].kind).toBe("on_leave");
+    expect(assignmentConflicts({ workforceId: "w-dee", date: "2026-10-19" }, workforce, [])[0].kind).toBe("inactive");
+    expect(assignmentConflicts({ workforceId: "w-zed", date: "2026-10-19" }, workforce, [])[0].kind).toBe("not_on_roster");
+  });
+});
+
+describe("copyWeekAssignments", () => {
+  it("moves each assignment to the same weekday and skips people who can't work it", () => {
+    const source = [
+      assignment({ id: "a-1", workforceId: "w-ana", date: "2026-10-12" }), // Monday
+      assignment({ id: "a-2", workforceId: "w-ben", workerName: "Ben Cole", date: "2026-10-18", role: "Equipment" }), // Sunday
+      assignment({ id: "a-3", workforceId: "w-cara", workerName: "Cara Diaz", date: "2026-10-13" }),
+    ];
+    const existingTarget = [assignment({ id: "t-1", workforceId: "w-ben", building: "DC5", date: "2026-10-25" })];
+
+    const { toCreate, skipped } = copyWeekAssignments(source, "2026-10-19", workforce, existingTarget);
+
+    expect(toCreate).toEqual([
+      { workforce_id: "w-ana", building: "DC1", shift: "1st", date: "2026-10-19", role: "Lumper", notes: null },
+    ]);
+    expect(skipped.map((s) => [s.assignment.id, s.reason])).toEqual([
+      ["a-3", "Cara Diaz is on leave"],
+      ["a-2", "Ben Cole is already on DC5 1st shift on 2026-10-25"],
+    ]);
+  });
+});
+
+describe("assignedCountsBySlot", () => {
+  it("counts people per slot and role", () => {
+    const counts = assignedCountsBySlot([
+      assignment({ id: "a-1", role: "Lumper" }),
+      assignment({ id: "a-2", workforceId: "w-ben", role: "Equipment" }),
+      assignment({ id: "a-3", shift: "2nd" }),
+    ]);
+    expect(counts.get(scheduleSlotKey("2026-10-12", "DC1", "1st"))).toEqual({ total: 2, Lumper: 1, Equipment: 1, Lead: 0 });
+    expect(counts.get(scheduleSlotKey("2026-10-12", "DC1", "2nd"))?.total).toBe(1);
+  });
+});
+
+describe("publishedAssignments", () => {
+  it("keeps only weeks published for the assignment's building", () => {
+    const rows = [
+      assignment({ id: "pub", date: "2026-10-14" }),
+      assignment({ id: "other-week", date: "2026-10-20" }),
+      assignment({ id: "other-building", building: "DC5", date: "2026-10-14" }),
+    ];
+    const publications = [
+      { building: "DC1", weekStart: "2026-10-12", publishedAt: "2026-10-10T12:00:00Z", publishedByEmail: null },
+    ];
+    expect(publishedAssignments(rows, publications).map((a) => a.id)).toEqual(["pub"]);
+  });
+});
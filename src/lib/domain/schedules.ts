@@ -0,0 +1,291 @@
+// src/lib/domain/schedules.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { WorkforceWorker } from "@/lib/domain/workforce";
+import { addDaysYMD, isYMD, weekdayOfYMD, weekStartYMD } from "@/lib/time";
+
+/**
+ * Shift schedule: workforce people assigned to a building / shift / date slot
+ * in one of the staffing plan's roles. Weeks run Monday–Sunday and are
+ * published per building; workers only see published weeks. Assigned counts
+ * per slot are the staffing plan's "actual" numbers.
+ */
+
+export const SHIFT_ASSIGNMENTS_TABLE = "shift_assignments";
+export const SCHEDULE_PUBLICATIONS_TABLE = "schedule_publications";
+
+// The staffing plan's required_lumpers / required_equipment / required_leads
+export const SCHEDULE_ROLES = ["Lumper", "Equipment", "Lead"] as const;
+export type ScheduleRole = (typeof SCHEDULE_ROLES)[number];
+
+export const ON_LEAVE_STATUS = "On Leave";
+
+export type ShiftAssignment = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  createdByEmail: string | null;
+  workforceId: string;
+  workerName: string;
+  building: string;
+  shift: string;
+  date: string; // YYYY-MM-DD
+  role: ScheduleRole;
+  notes: string;
+};
+
+/** One row of the `shift_assignments` table. */
+export type ShiftAssignmentRow = {
+  id: string;
+  created_at: string;
+  updated_at: string | null;
+  created_by_email: string | null;
+  workforce_id: string;
+  worker_name: string;
+  building: string;
+  shift: string;
+  date: string;
+  role: string;
+  notes: string | null;
+};
+
+/** Columns written by create. */
+export type ShiftAssignmentInput = {
+  workforce_id: string;
+  building: string;
+  shift: string;
+  date: string;
+  role: ScheduleRole;
+  notes: string | null;
+};
+
+export type ShiftAssignmentParseResult = { ok: true; value: ShiftAssignmentInput } | { ok: false; error: string };
+
+export type SchedulePublication = {
+  building: string;
+  weekStart: string; // Monday, YYYY-MM-DD
+  publishedAt: string;
+  publishedByEmail: string | null;
+};
+
+/** One row of the `schedule_publications` table. */
+export type SchedulePublicationRow = {
+  building: string;
+  week_start: string;
+  published_at: string;
+  published_by_email: string | null;
+};
+
+export type ScheduleConflictKind = "not_on_roster" | "inactive" | "on_leave" | "double_booked";
+
+export type ScheduleConflict = { kind: ScheduleConflictKind; message: string };
+
+export type SkippedAssignment = { assignment: ShiftAssignment; reason: string };
+
+export type SlotCounts = Record<ScheduleRole, number> & { total: number };
+
+export type ScheduleFilters = {
+  building?: string | null;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+};
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+export function isScheduleRole(v: unknown): v is ScheduleRole {
+  return typeof v === "string" && (SCHEDULE_ROLES as readonly string[]).includes(v);
+}
+
+export function mapShiftAssignmentRow(row: ShiftAssignmentRow): ShiftAssignment {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? row.created_at,
+    createdByEmail: row.created_by_email,
+    workforceId: String(row.workforce_id),
+    workerName: row.worker_name,
+    building: row.building,
+    shift: row.shift,
+    date: String(row.date).slice(0, 10),
+    role: isScheduleRole(row.role) ? row.role : "Lumper",
+    notes: row.notes ?? "",
+  };
+}
+
+export function mapSchedulePublicationRow(row: SchedulePublicationRow): SchedulePublication {
+  return {
+    building: row.building,
+    weekStart: String(row.week_start).slice(0, 10),
+    publishedAt: row.published_at,
+    publishedByEmail: row.published_by_email,
+  };
+}
+
+/** Validate an assignment body from the API. */
+export function parseShiftAssignmentInput(body: unknown): ShiftAssignmentParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const workforceId = text(b.workforce_id) || (typeof b.workforce_id === "number" ? String(b.workforce_id) : "");
+  if (!workforceId) return { ok: false, error: "workforce_id is required" };
+
+  const building = text(b.building);
+  if (!building) return { ok: false, error: "building is required" };
+
+  const shift = text(b.shift);
+  if (!shift) return { ok: false, error: "shift is required" };
+
+  const date = text(b.date);
+  if (!isYMD(date)) return { ok: false, error: "date must be YYYY-MM-DD" };
+
+  if (!isScheduleRole(b.role)) return { ok: false, error: `role must be one of: ${SCHEDULE_ROLES.join(", ")}` };
+
+  return { ok: true, value: { workforce_id: workforceId, building, shift, date, role: b.role, notes: text(b.notes) || null } };
+}
+
+/** Best guess at the slot role from a workforce job title. */
+export function scheduleRoleForJob(jobRole: string | null | undefined): ScheduleRole {
+  const job = (jobRole ?? "").toLowerCase();
+  if (/\blead\b|supervisor/.test(job)) return "Lead";
+  if (/forklift|equipment|operator|driver|reach|jack/.test(job)) return "Equipment";
+  return "Lumper";
+}
+
+/** Monday…Sunday of the week starting `weekStart`. */
+export function weekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => addDaysYMD(weekStart, i));
+}
+
+/**
+ * Why `workforceId` can't work `date`: not on the roster, not active, on
+ * leave, or already scheduled that day. Empty when they're free.
+ */
+export function assignmentConflicts(
+  slot: { workforceId: string; date: string },
+  workforce: WorkforceWorker[],
+  assignments: ShiftAssignment[]
+): ScheduleConflict[] {
+  const worker = workforce.find((w) => w.id === slot.workforceId);
+  if (!worker) return [{ kind: "not_on_roster", message: "Not on the workforce roster" }];
+
+  const conflicts: ScheduleConflict[] = [];
+  if (worker.status === ON_LEAVE_STATUS) {
+    conflicts.push({ kind: "on_leave", message: `${worker.name} is on leave` });
+  } else if (!worker.active) {
+    conflicts.push({ kind: "inactive", message: `${worker.name} is not active (${worker.status || "inactive"})` });
+  }
+
+  const booked = assignments.find(
+    (a) => a.workforceId === slot.workforceId && a.date === slot.date
+  );
+  if (booked) {
+    conflicts.push({
+      kind: "double_booked",
+      message: `${worker.name} is already on ${booked.building} ${booked.shift} shift on ${booked.date}`,
+    });
+  }
+  return conflicts;
+}
+
+/**
+ * Copy a building's week of assignments to another week, day for day.
+ * Anyone who is now on leave, inactive, gone from the roster or already booked
+ * that day (including by an earlier copy in this batch) is skipped with a reason.
+ */
+export function copyWeekAssignments(
+  source: ShiftAssignment[],
+  targetWeekStart: string,
+  workforce: WorkforceWorker[],
+  existingTarget: ShiftAssignment[]
+): { toCreate: ShiftAssignmentInput[]; skipped: SkippedAssignment[] } {
+  const toCreate: ShiftAssignmentInput[] = [];
+  const skipped: SkippedAssignment[] = [];
+  const booked = [...existingTarget];
+
+  for (const a of [...source].sort((x, y) => x.date.localeCompare(y.date) || x.shift.localeCompare(y.shift))) {
+    // Same weekday in the target week (Monday = 0)
+    const date = addDaysYMD(targetWeekStart, (weekdayOfYMD(a.date) + 6) % 7);
+
+    const conflicts = assignmentConflicts({ workforceId: a.workforceId, date }, workforce, booked);
+    if (conflicts.length > 0) {
+      skipped.push({ assignment: a, reason: conflicts.map((c) => c.message).join("; ") });
+      continue;
+    }
+
+    const input: ShiftAssignmentInput = {
+      workforce_id: a.workforceId,
+      building: a.building,
+      shift: a.shift,
+      date,
+      role: a.role,
+      notes: a.notes || null,
+    };
+    toCreate.push(input);
+    booked.push({ ...a, id: `copy-${toCreate.length}`, date });
+  }
+
+  return { toCreate, skipped };
+}
+
+export function scheduleSlotKey(date: string, building: string, shift: string): string {
+  return `${date}|${building}|${shift}`;
+}
+
+/** Assigned headcount by slot (see scheduleSlotKey) and role. */
+export function assignedCountsBySlot(assignments: ShiftAssignment[]): Map<string, SlotCounts> {
+  const map = new Map<string, SlotCounts>();
+  for (const a of assignments) {
+    const key = scheduleSlotKey(a.date, a.building, a.shift);
+    const counts = map.get(key) ?? { total: 0, Lumper: 0, Equipment: 0, Lead: 0 };
+    counts.total += 1;
+    counts[a.role] += 1;
+    map.set(key, counts);
+  }
+  return map;
+}
+
+/** Only assignments in weeks published for their building. */
+export function publishedAssignments(
+  assignments: ShiftAssignment[],
+  publications: SchedulePublication[]
+): ShiftAssignment[] {
+  const published = new Set(publications.map((p) => `${p.building}|${p.weekStart}`));
+  return assignments.filter((a) => published.has(`${a.building}|${weekStartYMD(a.date)}`));
+}
+
+/** Oldest date first, then shift. */
+export async function fetchShiftAssignments(
+  client: SupabaseClient,
+  filters: ScheduleFilters
+): Promise<{ data: ShiftAssignment[]; error: unknown }> {
+  let query = client
+    .from(SHIFT_ASSIGNMENTS_TABLE)
+    .select("*")
+    .gte("date", filters.from)
+    .lte("date", filters.to)
+    .order("date", { ascending: true })
+    .order("shift", { ascending: true });
+  if (filters.building) query = query.eq("building", filters.building);
+
+  const { data, error } = await query;
+  if (error) return { data: [], error };
+  return { data: ((data || []) as ShiftAssignmentRow[]).map(mapShiftAssignmentRow), error: null };
+}
+
+/** Publications for weeks starting within the range. */
+export async function fetchSchedulePublications(
+  client: SupabaseClient,
+  filters: ScheduleFilters
+): Promise<{ data: SchedulePublication[]; error: unknown }> {
+  let query = client
+    .from(SCHEDULE_PUBLICATIONS_TABLE)
+    .select("*")
+    .gte("week_start", weekStartYMD(filters.from))
+    .lte("week_start", filters.to);
+  if (filters.building) query = query.eq("building", filters.building);
+
+  const { data, error } = await query;
+  if (error) return { data: [], error };
+  return { data: ((data || []) as SchedulePublicationRow[]).map(mapSchedulePublicationRow), error: null };
+}
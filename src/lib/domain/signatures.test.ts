@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import {
+  canReadSignatures,
+  currentSignatures,
+  mapSignatureRow,
+  parseSignatureInput,
+  signableRoles,
+  signatureContentHash,
+  signatureSigningError,
+  signedContentJson,
+  type SignatureRow,
+} from "@/lib/domain/signatures";
+
+const PNG = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+const storedReport = {
+  id: "r1",
+  building: "DC1",
+  shift: "1st",
+  work_date: "2026-03-10",
+  employee_name: "Ana Lopez",
+  employee_phone: null,
+  employee_dob: "1990-04-02",
+  employee_job_title: "Unloader",
+  incident_datetime: "2026-03-10T15:30:00+00:00",
+  incident_location: "Dock 4",
+  incident_area: null,
+  incident_type: "Strain / Sprain",
+  body_part: "Back",
+  injury_description: "Lifted a carton",
+  immediate_actions: "Rested",
+  first_aid_given: true,
+  first_aid_by: null,
+  ems_called: false,
+  sent_to_clinic: false,
+  clinic_name: null,
+  medical_refused: false,
+  refusal_reason: null,
+  supervisor_on_duty: "Sam",
+  witnesses: [{ name: "Lee", phone: "" }],
+  employee_statement: null,
+  status: "Draft",
+  hr_notes: null,
+  employee_signed: true,
+};
+
+function signatureRow(overrides: Partial<SignatureRow>): SignatureRow {
+  return {
+    id: "s1",
+    created_at: "2026-03-10T16:00:00Z",
+    document_type: "injury_report",
+    document_id: "r1",
+    building: "DC1",
+    signer_role: "employee",
+    signer_name: "Ana Lopez",
+    signed_by_user_id: "u1",
+    signed_by_email: "lead@example.com",
+    signed_by_access_role: "Lead",
+    content_hash: "abc",
+    image_data: PNG,
+    ...overrides,
+  };
+}
+
+describe("parseSignatureInput", () => {
+  const body = {
+    document_type: "injury_report",
+    document_id: "r1",
+    signer_role: "employee",
+    signer_name: " Ana Lopez ",
+    image_data: PNG,
+  };
+
+  it("accepts a drawn signature", () => {
+    expect(parseSignatureInput(body)).toEqual({ ok: true, value: { ...body, signer_name: "Ana Lopez" } });
+  });
+
+  it("checks the role against the document and the image format", () => {
+    expect(parseSignatureInput({ ...body, signer_role: "lead" })).toEqual({
+      ok: false,
+      error: "signer_role must be one of: employee, manager",
+    });
+    expect(parseSignatureInput({ ...body, document_type: "startup_checklist", signer_role: "lead" }).ok).toBe(true);
+    expect(parseSignatureInput({ ...body, image_data: "data:image/svg+xml;base64,PHN2Zz4=" }).ok).toBe(false);
+    expect(parseSignatureInput({ ...body, image_data: `${PNG.slice(0, -2)}${"A".repeat(300_000)}==` }).ok).toBe(false);
+    expect(parseSignatureInput({ ...body, signer_name: "" }).ok).toBe(false);
+    expect(parseSignatureInput({ ...body, document_type: "invoice" }).ok).toBe(false);
+  });
+});
+
+describe("signed content", () => {
+  it("reads the same from the database row and the saved form", () => {
+    const fromForm = {
+      ...storedReport,
+      incident_datetime: "2026-03-10T15:30:00.000Z",
+      employee_phone: "",
+      incident_area: "  ",
+      witnesses: [{ phone: "", name: "Lee " }],
+      status: "Submitted",
+      hr_notes: "Called clinic",
+      employee_signed: false,
+    };
+    expect(signedContentJson("injury_report", fromForm)).toBe(signedContentJson("injury_report", storedReport));
+  });
+
+  it("changes when a signed field is edited", async () => {
+    const before = await signatureContentHash("injury_report", "r1", storedReport);
+    expect(before).toMatch(/^[0-9a-f]{64}$/);
+    expect(await signatureContentHash("injury_report", "r1", { ...storedReport })).toBe(before);
+    expect(await signatureContentHash("injury_report", "r1", { ...storedReport, body_part: "Knee" })).not.toBe(before);
+    expect(await signatureContentHash("injury_report", "r2", storedReport)).not.toBe(before);
+  });
+
+  it("ignores a readiness report's edit stamp and start / close times", () => {
+    const checklist = {
+      building: "DC1",
+      shift: "1st",
+      date: "2026-03-10",
+      items: { staffing: { headcountConfirmed: true }, confirmation: { readyToStart: true } },
+    };
+    const later = {
+      ...checklist,
+      items: {
+        ...checklist.items,
+        _meta: { updatedByName: "Sam", updatedAtISO: "2026-03-10T12:00:00Z" },
+        confirmation: { readyToStart: true, shiftStartedAtISO: "2026-03-10T11:00:00Z", completedAtISO: "2026-03-10T19:00:00Z" },
+      },
+    };
+    expect(signedContentJson("startup_checklist", later)).toBe(signedContentJson("startup_checklist", checklist));
+
+    const unchecked = { ...checklist, items: { ...checklist.items, staffing: { headcountConfirmed: false } } };
+    expect(signedContentJson("startup_checklist", unchecked)).not.toBe(signedContentJson("startup_checklist", checklist));
+  });
+});
+
+describe("currentSignatures", () => {
+  it("keeps the latest per role and checks it against the current hash", () => {
+    const signatures = [
+      signatureRow({ id: "old", content_hash: "h1" }),
+      signatureRow({ id: "mgr", signer_role: "manager", signer_name: "Sam", content_hash: "h1" }),
+      signatureRow({ id: "new", created_at: "2026-03-11T09:00:00Z", content_hash: "h2" }),
+    ].map(mapSignatureRow);
+
+    expect(currentSignatures(signatures, "h2").map((s) => [s.id, s.valid])).toEqual([
+      ["new", true],
+      ["mgr", false],
+    ]);
+    expect(currentSignatures(signatures, null).every((s) => !s.valid)).toBe(true);
+  });
+});
+
+describe("who may sign", () => {
+  const worker = { name: "Lee Park", accessRole: "Worker" as const };
+  const injured = { name: " ana  lopez ", accessRole: "Worker" as const };
+  const manager = { name: "Sam", accessRole: "Building Manager" as const };
+
+  it("keeps manager signatures and private documents to permission holders", () => {
+    expect(signatureSigningError(worker, "injury_report", "manager", "Lee Park", storedReport)).toMatch(/permission/);
+    expect(signatureSigningError(manager, "injury_report", "manager", "Sam", storedReport)).toBeNull();
+    expect(signatureSigningError(worker, "termination", "manager", "Lee Park", storedReport)).toMatch(/permission/);
+
+    expect(canReadSignatures(worker, "injury_report", storedReport)).toBe(false);
+    expect(canReadSignatures(injured, "injury_report", storedReport)).toBe(true);
+    expect(canReadSignatures(manager, "injury_report", storedReport)).toBe(true);
+    expect(canReadSignatures(worker, "startup_checklist", { building: "DC1" })).toBe(true);
+  });
+
+  it("only takes the employee signature from that employee or a witness, in their name", () => {
+    expect(signatureSigningError(worker, "injury_report", "employee", "Ana Lopez", storedReport)).toMatch(/named/);
+    expect(signatureSigningError(injured, "injury_report", "employee", "Ana Lopez", storedReport)).toBeNull();
+    expect(signatureSigningError(manager, "injury_report", "employee", "Ana Lopez", storedReport)).toBeNull();
+    expect(signatureSigningError(manager, "injury_report", "employee", "Someone Else", storedReport)).toMatch(/Ana Lopez/);
+
+    expect(signableRoles(injured, "injury_report", storedReport)).toEqual(["employee"]);
+    expect(signableRoles(manager, "injury_report", storedReport)).toEqual(["employee", "manager"]);
+    expect(signableRoles(worker, "injury_report", storedReport)).toEqual([]);
+  });
+});
@@ -0,0 +1,359 @@
+// src/lib/domain/signatures.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { INJURY_REPORTS_TABLE } from "@/lib/notificationEvents";
+import { STARTUP_CHECKLISTS_TABLE } from "@/lib/domain/startupChecklists";
+import { hasPermission, type AccessRole, type Permission } from "@/lib/roles";
+
+/**
+ * Electronic signatures on injury reports, termination checklists and shift
+ * readiness confirmations. Each signature keeps the drawn image (PNG data
+ * URL), the signer's name and role on the document, who captured it, when,
+ * and a SHA-256 hash of the document's signed content at that moment. A
+ * signature is valid only while the document still hashes the same, so any
+ * edit to the signed content invalidates it. Written through /api/signatures,
+ * which hashes the stored row rather than anything the browser sends and
+ * checks who may sign for each role (signatureSigningError).
+ */
+
+export const SIGNATURES_TABLE = "signatures";
+export const TERMINATIONS_TABLE = "terminations";
+
+export const SIGNED_DOCUMENT_TYPES = ["injury_report", "termination", "startup_checklist"] as const;
+export type SignedDocumentType = (typeof SIGNED_DOCUMENT_TYPES)[number];
+
+export const SIGNER_ROLES = ["employee", "manager", "lead"] as const;
+export type SignerRole = (typeof SIGNER_ROLES)[number];
+
+export const SIGNER_ROLE_LABELS: Record<SignerRole, string> = {
+  employee: "Employee",
+  manager: "Manager / Supervisor",
+  lead: "Shift Lead",
+};
+
+/**
+ * The table behind each document type, who signs it, and the permission
+ * needed to sign as manager / lead or to witness the employee's signature.
+ * `private` documents' signatures are only shown to holders of that
+ * permission and the employee the document names.
+ */
+export const SIGNED_DOCUMENTS: Record<
+  SignedDocumentType,
+  { table: string; label: string; roles: readonly SignerRole[]; permission: Permission; private: boolean }
+> = {
+  injury_report: {
+    table: INJURY_REPORTS_TABLE,
+    label: "Injury report",
+    roles: ["employee", "manager"],
+    permission: "safety.manage",
+    private: true,
+  },
+  termination: {
+    table: TERMINATIONS_TABLE,
+    label: "Termination checklist",
+    roles: ["employee", "manager"],
+    permission: "workforce.manage",
+    private: true,
+  },
+  startup_checklist: {
+    table: STARTUP_CHECKLISTS_TABLE,
+    label: "Shift readiness confirmation",
+    roles: ["lead"],
+    permission: "containers.write",
+    private: false,
+  },
+};
+
+// The injury_reports columns an employee / manager attests to. Status, HR
+// notes, OSHA classification and case management can change after signing.
+const INJURY_SIGNED_FIELDS = [
+  "building",
+  "shift",
+  "work_date",
+  "employee_name",
+  "employee_phone",
+  "employee_dob",
+  "employee_job_title",
+  "incident_datetime",
+  "incident_location",
+  "incident_area",
+  "incident_type",
+  "body_part",
+  "injury_description",
+  "immediate_actions",
+  "first_aid_given",
+  "first_aid_by",
+  "ems_called",
+  "sent_to_clinic",
+  "clinic_name",
+  "medical_refused",
+  "refusal_reason",
+  "supervisor_on_duty",
+  "witnesses",
+  "employee_statement",
+] as const;
+
+const TERMINATION_SIGNED_FIELDS = ["employee_name", "role", "building", "reason", "checklist", "notes"] as const;
+
+// Keeps the report's drawn image small enough to live in the row
+export const MAX_SIGNATURE_IMAGE_CHARS = 300_000;
+const PNG_DATA_URL_RE = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+
+export type Signature = {
+  id: string;
+  createdAt: string;
+  documentType: SignedDocumentType;
+  documentId: string;
+  building: string | null;
+  signerRole: SignerRole;
+  signerName: string;
+  signedByEmail: string | null;
+  signedByAccessRole: string | null;
+  contentHash: string;
+  image: string; // data:image/png;base64,…
+};
+
+/** A signature with whether the document still matches what was signed. */
+export type SignatureStatus = Signature & { valid: boolean };
+
+/** One row of the `signatures` table. */
+export type SignatureRow = {
+  id: string;
+  created_at: string;
+  document_type: string;
+  document_id: string;
+  building: string | null;
+  signer_role: string;
+  signer_name: string;
+  signed_by_user_id: string | null;
+  signed_by_email: string | null;
+  signed_by_access_role: string | null;
+  content_hash: string;
+  image_data: string;
+};
+
+export type SignatureInput = {
+  document_type: SignedDocumentType;
+  document_id: string;
+  signer_role: SignerRole;
+  signer_name: string;
+  image_data: string;
+};
+
+export type SignatureParseResult = { ok: true; value: SignatureInput } | { ok: false; error: string };
+
+export function isSignedDocumentType(v: unknown): v is SignedDocumentType {
+  return typeof v === "string" && (SIGNED_DOCUMENT_TYPES as readonly string[]).includes(v);
+}
+
+function isSignerRole(v: unknown): v is SignerRole {
+  return typeof v === "string" && (SIGNER_ROLES as readonly string[]).includes(v);
+}
+
+export function mapSignatureRow(row: SignatureRow): Signature {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    documentType: isSignedDocumentType(row.document_type) ? row.document_type : "injury_report",
+    documentId: String(row.document_id),
+    building: row.building,
+    signerRole: isSignerRole(row.signer_role) ? row.signer_role : "employee",
+    signerName: row.signer_name,
+    signedByEmail: row.signed_by_email,
+    signedByAccessRole: row.signed_by_access_role,
+    contentHash: row.content_hash,
+    image: row.image_data,
+  };
+}
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+export function parseSignatureInput(body: unknown): SignatureParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  if (!isSignedDocumentType(b.document_type)) {
+    return { ok: false, error: `document_type must be one of: ${SIGNED_DOCUMENT_TYPES.join(", ")}` };
+  }
+  const documentId = text(b.document_id);
+  if (!documentId) return { ok: false, error: "document_id is required" };
+
+  const roles = SIGNED_DOCUMENTS[b.document_type].roles;
+  if (!isSignerRole(b.signer_role) || !roles.includes(b.signer_role)) {
+    return { ok: false, error: `signer_role must be one of: ${roles.join(", ")}` };
+  }
+  const signerName = text(b.signer_name);
+  if (!signerName) return { ok: false, error: "signer_name is required" };
+
+  const image = text(b.image_data);
+  if (!PNG_DATA_URL_RE.test(image)) return { ok: false, error: "image_data must be a PNG data URL" };
+  if (image.length > MAX_SIGNATURE_IMAGE_CHARS) return { ok: false, error: "Signature image is too large" };
+
+  return {
+    ok: true,
+    value: {
+      document_type: b.document_type,
+      document_id: documentId,
+      signer_role: b.signer_role,
+      signer_name: signerName,
+      image_data: image,
+    },
+  };
+}
+
+// Same value whether it came from the database or a form: trimmed strings,
+// blanks as null, timestamps as ISO UTC, object keys in order.
+function normalize(v: unknown): unknown {
+  if (v === undefined || v === null) return null;
+  if (typeof v === "string") {
+    const s = v.trim();
+    return s === "" ? null : s;
+  }
+  if (Array.isArray(v)) return v.map(normalize);
+  if (typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(o)
+        .sort()
+        .map((k) => [k, normalize(o[k])])
+        .filter(([, value]) => value !== null)
+    );
+  }
+  return v;
+}
+
+function isoOrNull(v: unknown): string | null {
+  const d = typeof v === "string" && v.trim() ? new Date(v) : null;
+  return d && !Number.isNaN(d.getTime()) ? d.toISOString() : null;
+}
+
+function pick(row: Record<string, unknown>, fields: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((f) => [f, row[f]]));
+}
+
+/**
+ * The part of a document a signature covers, normalized so an unchanged
+ * document always serializes the same. For a readiness report that's the
+ * header and checklist, without the edit stamp or the start / close times
+ * recorded after the lead confirms.
+ */
+export function signedContent(type: SignedDocumentType, row: Record<string, unknown>): unknown {
+  switch (type) {
+    case "injury_report":
+      return normalize({
+        ...pick(row, INJURY_SIGNED_FIELDS),
+        work_date: typeof row.work_date === "string" ? row.work_date.slice(0, 10) : row.work_date,
+        incident_datetime: isoOrNull(row.incident_datetime),
+        first_aid_given: !!row.first_aid_given,
+        ems_called: !!row.ems_called,
+        sent_to_clinic: !!row.sent_to_clinic,
+        medical_refused: !!row.medical_refused,
+        witnesses: Array.isArray(row.witnesses) ? row.witnesses : [],
+      });
+    case "termination":
+      return normalize(pick(row, TERMINATION_SIGNED_FIELDS));
+    case "startup_checklist": {
+      const items = row.items && typeof row.items === "object" ? { ...(row.items as Record<string, unknown>) } : {};
+      delete items._meta;
+      const confirmation = items.confirmation as Record<string, unknown> | undefined;
+      if (confirmation && typeof confirmation === "object") {
+        items.confirmation = { readyToStart: !!confirmation.readyToStart, finalNotes: confirmation.finalNotes };
+      }
+      return normalize({ building: row.building, shift: row.shift, date: row.date, items });
+    }
+  }
+}
+
+/** Stable JSON of a document's signed content (compare two to see if an edit touched it). */
+export function signedContentJson(type: SignedDocumentType, row: Record<string, unknown>): string {
+  return JSON.stringify(signedContent(type, row));
+}
+
+/** SHA-256 (hex) of the document's identity and signed content. */
+export async function signatureContentHash(
+  type: SignedDocumentType,
+  documentId: string,
+  row: Record<string, unknown>
+): Promise<string> {
+  const payload = JSON.stringify({ type, id: documentId, content: signedContent(type, row) });
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Who is asking: enough of the API caller to decide what they may sign. */
+export type SignatureActor = { name: string | null; accessRole: AccessRole };
+
+function sameName(a: unknown, b: unknown): boolean {
+  const norm = (v: unknown) => text(v).toLowerCase().replace(/\s+/g, " ");
+  return norm(a) !== "" && norm(a) === norm(b);
+}
+
+/** True when the caller is the employee the document names. */
+export function isNamedEmployee(actor: SignatureActor, row: Record<string, unknown>): boolean {
+  return sameName(actor.name, row.employee_name);
+}
+
+/** Whether the caller may see the document's signatures (building access is checked separately). */
+export function canReadSignatures(actor: SignatureActor, type: SignedDocumentType, row: Record<string, unknown>): boolean {
+  const doc = SIGNED_DOCUMENTS[type];
+  return !doc.private || hasPermission(actor.accessRole, doc.permission) || isNamedEmployee(actor, row);
+}
+
+/**
+ * Why the caller can't sign the document in this role, or null. Manager and
+ * lead signatures need the document's permission. The employee signs as
+ * themselves, or in front of a witness holding that permission; either way
+ * the name must be the employee the document names.
+ */
+export function signatureSigningError(
+  actor: SignatureActor,
+  type: SignedDocumentType,
+  role: SignerRole,
+  signerName: string,
+  row: Record<string, unknown>
+): string | null {
+  const doc = SIGNED_DOCUMENTS[type];
+  const permitted = hasPermission(actor.accessRole, doc.permission);
+  if (role !== "employee") {
+    return permitted ? null : `You do not have permission to sign as ${SIGNER_ROLE_LABELS[role].toLowerCase()}`;
+  }
+  if (!permitted && !isNamedEmployee(actor, row)) {
+    return "Only the employee named on the document, or a manager witnessing it, can sign for the employee";
+  }
+  if (text(row.employee_name) && !sameName(signerName, row.employee_name)) {
+    return `The employee signature must be in the name of ${text(row.employee_name)}`;
+  }
+  return null;
+}
+
+/** The roles the caller may sign in, so the page only offers those pads. */
+export function signableRoles(actor: SignatureActor, type: SignedDocumentType, row: Record<string, unknown>): SignerRole[] {
+  return SIGNED_DOCUMENTS[type].roles.filter(
+    (role) => signatureSigningError(actor, type, role, text(row.employee_name), row) === null
+  );
+}
+
+/** Latest signature per role, marked valid when it matches the document's current hash. */
+export function currentSignatures(signatures: Signature[], currentHash: string | null): SignatureStatus[] {
+  const latest = new Map<SignerRole, Signature>();
+  for (const s of [...signatures].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) latest.set(s.signerRole, s);
+  return [...latest.values()]
+    .sort((a, b) => SIGNER_ROLES.indexOf(a.signerRole) - SIGNER_ROLES.indexOf(b.signerRole))
+    .map((s) => ({ ...s, valid: currentHash !== null && s.contentHash === currentHash }));
+}
+
+export async function fetchSignatures(
+  client: SupabaseClient,
+  type: SignedDocumentType,
+  documentId: string
+): Promise<{ data: Signature[]; error: unknown }> {
+  const { data, error } = await client
+    .from(SIGNATURES_TABLE)
+    .select("*")
+    .eq("document_type", type)
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: true });
+  if (error) return { data: [], error };
+  return { data: ((data || []) as SignatureRow[]).map(mapSignatureRow), error: null };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseStartupChecklistInput,
+  startupChecklistBroadcast,
+  startupChecklistRowToInput,
+} from "@/lib/domain/startupChecklists";
+
+describe("parseStartupChecklistInput", () => {
+  it("checks the header and keeps items as sent", () => {
+    const items = { staffing: { allArrived: true } };
+    expect(parseStartupChecklistInput({ building: "DC1", shift: "1st", date: "2026-03-08", items })).toEqual({
+      ok: true,
+      value: { building: "DC1", shift: "1st", date: "2026-03-08", items, completed_at: null },
+    });
+    expect(parseStartupChecklistInput({ building: "DC1", shift: "1st", date: "03/08/2026" }).ok).toBe(false);
+    expect(parseStartupChecklistInput({ building: "DC1", shift: "1st", date: "2026-03-08", items: [] }).ok).toBe(false);
+  });
+
+  it("merges an items-only edit over the stored report", () => {
+    const base = startupChecklistRowToInput({
+      id: "s-1",
+      created_at: "2026-03-08T10:00:00Z",
+      completed_at: null,
+      building: "DC5",
+      shift: "2nd",
+      date: "2026-03-08",
+      items: { staffing: { allArrived: false } },
+    });
+    const parsed = parseStartupChecklistInput(
+      { items: { staffing: { allArrived: true } }, completed_at: "2026-03-08T14:00:00Z" },
+      base
+    );
+    expect(parsed).toEqual({
+      ok: true,
+      value: {
+        building: "DC5",
+        shift: "2nd",
+        date: "2026-03-08",
+        items: { staffing: { allArrived: true } },
+        completed_at: "2026-03-08T14:00:00Z",
+      },
+    });
+  });
+});
+
+describe("startupChecklistBroadcast", () => {
+  const row = {
+    id: "s-2",
+    created_at: "2026-03-08T10:00:00Z",
+    completed_at: null,
+    building: "DC1",
+    shift: "1st",
+    date: "2026-03-08",
+    items: { shiftDetails: { scheduledStartTime: "06:00" }, communication: { dailyFocusMessage: " Dock 4 is closed " } },
+  };
+
+  it("builds the broadcast from the communication section", () => {
+    expect(startupChecklistBroadcast(row, "Lee Lead")).toEqual({
+      building: "DC1",
+      shift: "1st",
+      date: "2026-03-08",
+      scheduledStartTime: "06:00",
+      summary: "",
+      focus: "Dock 4 is closed",
+      senderName: "Lee Lead",
+    });
+  });
+
+  it("is null until there is something to say", () => {
+    expect(startupChecklistBroadcast({ ...row, items: { communication: { dailyFocusMessage: "  " } } }, null)).toBeNull();
+    expect(startupChecklistBroadcast({ ...row, items: null }, null)).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+// src/lib/domain/startupChecklists.ts
+import type { ShiftBroadcastData } from "@/lib/messageTemplates";
+
+/**
+ * Shift readiness (startup checklist) reports. The checklist itself lives in
+ * the `items` jsonb column and is shaped by the startup-checklists page; the
+ * server only checks the header. Written through /api/startup-checklists so
+ * the offline queue can replay them.
+ */
+
+export const STARTUP_CHECKLISTS_TABLE = "startup_checklists";
+
+/** One row of the `startup_checklists` table. */
+export type StartupChecklistRow = {
+  id: string;
+  created_at: string;
+  updated_at?: string | null;
+  completed_at: string | null;
+  building: string | null;
+  shift: string | null;
+  date: string | null; // YYYY-MM-DD
+  items: unknown;
+};
+
+/** Columns written by create/update. */
+export type StartupChecklistInput = {
+  building: string;
+  shift: string;
+  date: string;
+  items: Record<string, unknown>;
+  completed_at: string | null;
+};
+
+export type StartupChecklistParseResult = { ok: true; value: StartupChecklistInput } | { ok: false; error: string };
+
+const YMD_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+/**
+ * Validate a startup checklist body from the API. Pass `base` (the stored
+ * row, mapped to input) to merge a partial edit — e.g. only `items` — over it.
+ */
+export function parseStartupChecklistInput(body: unknown, base?: StartupChecklistInput): StartupChecklistParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = { ...(base ?? {}), ...(body as Record<string, unknown>) } as Record<string, unknown>;
+
+  const building = text(b.building);
+  if (!building) return { ok: false, error: "building is required" };
+
+  const shift = text(b.shift);
+  if (!shift) return { ok: false, error: "shift is required" };
+
+  const date = text(b.date);
+  if (!YMD_RE.test(date)) return { ok: false, error: "date must be YYYY-MM-DD" };
+
+  if (b.items !== undefined && (typeof b.items !== "object" || b.items === null || Array.isArray(b.items))) {
+    return { ok: false, error: "items must be an object" };
+  }
+
+  const completedAt = text(b.completed_at);
+  if (completedAt && Number.isNaN(Date.parse(completedAt))) {
+    return { ok: false, error: "completed_at must be an ISO timestamp" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      building,
+      shift,
+      date,
+      items: (b.items as Record<string, unknown> | undefined) ?? {},
+      completed_at: completedAt || null,
+    },
+  };
+}
+
+export function startupChecklistRowToInput(row: StartupChecklistRow): StartupChecklistInput {
+  return {
+    building: row.building ?? "",
+    shift: row.shift ?? "",
+    date: row.date ?? "",
+    items: row.items && typeof row.items === "object" ? (row.items as Record<string, unknown>) : {},
+    completed_at: row.completed_at,
+  };
+}
+
+function section(items: Record<string, unknown>, key: string): Record<string, unknown> {
+  const v = items[key];
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : {};
+}
+
+/** The report's scheduled start ("06:00"), or null when not filled in. */
+export function startupChecklistScheduledStart(row: StartupChecklistRow): string | null {
+  const { items } = startupChecklistRowToInput(row);
+  return text(section(items, "shiftDetails").scheduledStartTime) || null;
+}
+
+/** The near miss and hazards the lead recorded in the safety section (null when not reported). */
+export function startupChecklistSafetyFindings(row: StartupChecklistRow): { nearMiss: string | null; hazards: string | null } {
+  const safety = section(startupChecklistRowToInput(row).items, "safety");
+  return {
+    nearMiss: safety.nearMissReported === true ? text(safety.nearMissDetails) || "Near miss reported" : null,
+    hazards: safety.hazardsIdentified === true ? text(safety.hazardsDetails) || "Hazards identified" : null,
+  };
+}
+
+/**
+ * The shift-start broadcast for a report, from its communication section
+ * (broadcast summary + daily focus). Null while both are empty.
+ */
+export function startupChecklistBroadcast(row: StartupChecklistRow, senderName: string | null): ShiftBroadcastData | null {
+  const { building, shift, date, items } = startupChecklistRowToInput(row);
+  const communication = section(items, "communication");
+  const summary = text(communication.broadcastSummary);
+  const focus = text(communication.dailyFocusMessage);
+  if (!summary && !focus) return null;
+
+  return {
+    building,
+    shift,
+    date,
+    scheduledStartTime: startupChecklistScheduledStart(row),
+    summary,
+    focus,
+    senderName,
+  };
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  allowedPunchKinds,
+  clockState,
+  clockedInHeadcount,
+  lateOrNoShowSummary,
+  openClockIn,
+  punchError,
+  shiftAttendance,
+  workedMinutes,
+  type PunchKind,
+  type TimePunch,
+} from "@/lib/domain/timeClock";
+import type { ShiftAssignment } from "@/lib/domain/schedules";
+
+let seq = 0;
+function punch(kind: PunchKind, punchedAt: string, overrides: Partial<TimePunch> = {}): TimePunch {
+  seq += 1;
+  return {
+    id: `p-${seq}`,
+    createdAt: punchedAt,
+    createdByEmail: "lead@example.com",
+    workforceId: "w-ana",
+    workerName: "Ana Lopez",
+    building: "DC1",
+    shift: "1st",
+    date: "2026-10-19",
+    kind,
+    punchedAt,
+    source: "kiosk",
+    ...overrides,
+  };
+}
+
+function assignment(workforceId: string, workerName: string): ShiftAssignment {
+  return {
+    id: `a-${workforceId}`,
+    createdAt: "2026-10-12T12:00:00Z",
+    updatedAt: "2026-10-12T12:00:00Z",
+    createdByEmail: null,
+    workforceId,
+    workerName,
+    building: "DC1",
+    shift: "1st",
+    date: "2026-10-19",
+    role: "Lumper",
+    notes: "",
+  };
+}
+
+// 06:00 New York on 2026-10-19 (EDT)
+const START = "2026-10-19T10:00:00.000Z";
+
+describe("clockState", () => {
+  const now = new Date("2026-10-19T14:00:00Z");
+
+  it("follows the latest punch of the open session", () => {
+    expect(clockState([], now)).toBe("out");
+    expect(clockState([punch("clock_in", START)], now)).toBe("in");
+    expect(clockState([punch("clock_in", START), punch("break_start", "2026-10-19T13:00:00Z")], now)).toBe("on_break");
+    expect(clockState([punch("clock_in", START), punch("clock_out", "2026-10-19T13:00:00Z")], now)).toBe("out");
+  });
+
+  it("treats a forgotten clock-out as closed after a day", () => {
+    const yesterday = punch("clock_in", "2026-10-18T10:00:00Z");
+    expect(openClockIn([yesterday], now)).toBeNull();
+    expect(clockState([yesterday], now)).toBe("out");
+  });
+});
+
+describe("punchError", () => {
+  it("only allows the punches that fit the worker's state", () => {
+    expect(allowedPunchKinds("out")).toEqual(["clock_in"]);
+    expect(punchError("out", "clock_in")).toBeNull();
+    expect(punchError("out", "clock_out")).toBe("Not clocked in");
+    expect(punchError("in", "clock_in")).toBe("Already clocked in");
+    expect(punchError("in", "break_end")).toBe("Not on break");
+    expect(punchError("on_break", "break_start")).toBe("Already on break");
+    expect(punchError("on_break", "clock_out")).toBeNull();
+  });
+});
+
+describe("workedMinutes", () => {
+  it("subtracts breaks, including one still open at clock-out", () => {
+    const day = [
+      punch("clock_in", START),
+      punch("break_start", "2026-10-19T14:00:00Z"),
+      punch("break_end", "2026-10-19T14:30:00Z"),
+      punch("clock_out", "2026-10-19T18:30:00Z"),
+    ];
+    expect(workedMinutes(day)).toBe(8 * 60);
+
+    const outDuringBreak = [
+      punch("clock_in", START),
+      punch("break_start", "2026-10-19T14:00:00Z"),
+      punch("clock_out", "2026-10-19T14:30:00Z"),
+    ];
+    expect(workedMinutes(outDuringBreak)).toBe(4 * 60);
+  });
+
+  it("counts an open session up to now", () => {
+    expect(workedMinutes([punch("clock_in", START)], new Date("2026-10-19T11:15:00Z"))).toBe(75);
+  });
+});
+
+describe("shiftAttendance", () => {
+  const assignments = [assignment("w-ana", "Ana Lopez"), assignment("w-ben", "Ben Cole"), assignment("w-cara", "Cara Diaz")];
+  const punches = [
+    punch("clock_in", "2026-10-19T10:03:00Z"),
+    punch("clock_in", "2026-10-19T10:20:00Z", { workforceId: "w-ben", workerName: "Ben Cole" }),
+    punch("clock_in", "2026-10-19T10:10:00Z", { workforceId: "w-dee", workerName: "Dee Park" }),
+  ];
+
+  it("compares clock-ins to the scheduled start", () => {
+    const rows = shiftAttendance({
+      date: "2026-10-19",
+      scheduledStartTime: "06:00",
+      assignments,
+      punches,
+      now: new Date("2026-10-19T11:30:00Z"),
+    });
+
+    expect(rows.map((r) => [r.name, r.status, r.minutesLate])).toEqual([
+      ["Cara Diaz", "No-show", null],
+      ["Ben Cole", "Late", 20],
+      ["Ana Lopez", "On time", 3],
+      ["Dee Park", "Unscheduled", 10],
+    ]);
+    expect(lateOrNoShowSummary(rows)).toBe("Late: Ben Cole (20 min)\nNo-show: Cara Diaz");
+    expect(clockedInHeadcount(punches)).toBe(3);
+  });
+
+  it("waits before calling a no-show, and can't without a start time", () => {
+    const early = shiftAttendance({
+      date: "2026-10-19",
+      scheduledStartTime: "06:00",
+      assignments,
+      punches: [],
+      now: new Date("2026-10-19T10:30:00Z"),
+    });
+    expect(early.every((r) => r.status === "Not in yet")).toBe(true);
+
+    const noStart = shiftAttendance({ date: "2026-10-19", scheduledStartTime: null, assignments, punches });
+    expect(noStart.find((r) => r.name === "Ben Cole")).toMatchObject({ status: "On time", minutesLate: null });
+    expect(lateOrNoShowSummary(noStart)).toBe("");
+  });
+});
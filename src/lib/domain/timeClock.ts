@@ -0,0 +1,277 @@
+// src/lib/domain/timeClock.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScheduleRole, ShiftAssignment } from "@/lib/domain/schedules";
+import { isHHMM, nyWallTimeToDate } from "@/lib/time";
+
+/**
+ * Time clock punches: clock-in / break / clock-out per workforce member,
+ * recorded from the kiosk page through /api/time-clock. A punch carries the
+ * shift it belongs to (building, shift, date), so a 3rd shift that clocks out
+ * after midnight stays on its start date. Attendance compares the first
+ * clock-in to the startup checklist's scheduled start and the schedule.
+ */
+
+export const TIME_PUNCHES_TABLE = "time_punches";
+
+export const PUNCH_KINDS = ["clock_in", "break_start", "break_end", "clock_out"] as const;
+export type PunchKind = (typeof PUNCH_KINDS)[number];
+
+export const PUNCH_KIND_LABELS: Record<PunchKind, string> = {
+  clock_in: "Clock In",
+  break_start: "Start Break",
+  break_end: "End Break",
+  clock_out: "Clock Out",
+};
+
+export type PunchSource = "kiosk" | "manual";
+
+// Clock-in this many minutes after the scheduled start still counts as on time
+export const LATE_GRACE_MINUTES = 5;
+// Scheduled and not clocked in this long after the start → no-show
+export const NO_SHOW_AFTER_MINUTES = 60;
+// A clock-in with no clock-out after this long is a missed punch, not an open shift
+export const STALE_CLOCK_IN_HOURS = 18;
+
+export type TimePunch = {
+  id: string;
+  createdAt: string;
+  createdByEmail: string | null;
+  workforceId: string;
+  workerName: string;
+  building: string;
+  shift: string;
+  date: string; // YYYY-MM-DD, the shift's date
+  kind: PunchKind;
+  punchedAt: string; // ISO
+  source: PunchSource;
+};
+
+/** One row of the `time_punches` table. */
+export type TimePunchRow = {
+  id: string;
+  created_at: string;
+  created_by_email: string | null;
+  workforce_id: string;
+  worker_name: string;
+  building: string;
+  shift: string;
+  date: string;
+  kind: string;
+  punched_at: string;
+  source: string | null;
+};
+
+export type ClockState = "out" | "in" | "on_break";
+
+export type AttendanceStatus = "On time" | "Late" | "No-show" | "Not in yet" | "Unscheduled";
+
+export type AttendanceRow = {
+  workforceId: string;
+  name: string;
+  role: ScheduleRole | null; // null when not on the schedule
+  status: AttendanceStatus;
+  state: ClockState;
+  clockInAt: string | null; // first clock-in
+  clockOutAt: string | null; // last clock-out
+  minutesLate: number | null;
+};
+
+export type TimePunchFilters = {
+  building?: string | null;
+  shift?: string | null;
+  workforceId?: string | null;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+};
+
+export function isPunchKind(v: unknown): v is PunchKind {
+  return typeof v === "string" && (PUNCH_KINDS as readonly string[]).includes(v);
+}
+
+export function mapTimePunchRow(row: TimePunchRow): TimePunch {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email,
+    workforceId: String(row.workforce_id),
+    workerName: row.worker_name,
+    building: row.building,
+    shift: row.shift,
+    date: String(row.date).slice(0, 10),
+    kind: isPunchKind(row.kind) ? row.kind : "clock_in",
+    punchedAt: row.punched_at,
+    source: row.source === "manual" ? "manual" : "kiosk",
+  };
+}
+
+function byPunchedAt(punches: TimePunch[]): TimePunch[] {
+  return [...punches].sort((a, b) => a.punchedAt.localeCompare(b.punchedAt));
+}
+
+/**
+ * The clock-in of the worker's open session: their latest clock-in with no
+ * clock-out after it. Null when clocked out, or when that clock-in is older
+ * than STALE_CLOCK_IN_HOURS (a forgotten clock-out shouldn't block tomorrow).
+ */
+export function openClockIn(punches: TimePunch[], now: Date = new Date()): TimePunch | null {
+  const sorted = byPunchedAt(punches);
+  let open: TimePunch | null = null;
+  for (const p of sorted) {
+    if (p.kind === "clock_in") open = p;
+    else if (p.kind === "clock_out") open = null;
+  }
+  if (!open) return null;
+  const ageHours = (now.getTime() - Date.parse(open.punchedAt)) / 3600000;
+  return ageHours > STALE_CLOCK_IN_HOURS ? null : open;
+}
+
+/** Where a worker stands after their punches. */
+export function clockState(punches: TimePunch[], now: Date = new Date()): ClockState {
+  const open = openClockIn(punches, now);
+  if (!open) return "out";
+  const since = byPunchedAt(punches).filter((p) => p.punchedAt >= open.punchedAt);
+  return since[since.length - 1].kind === "break_start" ? "on_break" : "in";
+}
+
+/** Punches the kiosk offers next (clocking out during a break ends the break). */
+export function allowedPunchKinds(state: ClockState): PunchKind[] {
+  if (state === "in") return ["break_start", "clock_out"];
+  if (state === "on_break") return ["break_end", "clock_out"];
+  return ["clock_in"];
+}
+
+/** Why `kind` can't be punched now, or null when it can. */
+export function punchError(state: ClockState, kind: PunchKind): string | null {
+  if (allowedPunchKinds(state).includes(kind)) return null;
+  if (state === "out") return "Not clocked in";
+  if (kind === "clock_in") return "Already clocked in";
+  return state === "on_break" ? "Already on break" : "Not on break";
+}
+
+/**
+ * Minutes worked from one worker's punches: clock-in to clock-out, less
+ * breaks. An open session (or break) counts up to `now`.
+ */
+export function workedMinutes(punches: TimePunch[], now: Date = new Date()): number {
+  let total = 0;
+  let inAt: number | null = null;
+  let breakAt: number | null = null;
+
+  for (const p of byPunchedAt(punches)) {
+    const t = Date.parse(p.punchedAt);
+    if (p.kind === "clock_in") {
+      if (inAt === null) inAt = t;
+    } else if (p.kind === "break_start") {
+      if (inAt !== null && breakAt === null) breakAt = t;
+    } else if (p.kind === "break_end") {
+      if (inAt !== null && breakAt !== null) {
+        total -= t - breakAt;
+        breakAt = null;
+      }
+    } else if (inAt !== null) {
+      total += t - inAt - (breakAt !== null ? t - breakAt : 0);
+      inAt = null;
+      breakAt = null;
+    }
+  }
+  if (inAt !== null) {
+    const t = now.getTime();
+    total += t - inAt - (breakAt !== null ? t - breakAt : 0);
+  }
+  return Math.max(0, Math.round(total / 60000));
+}
+
+/** Distinct people who clocked in — the slot's actual headcount. */
+export function clockedInHeadcount(punches: TimePunch[]): number {
+  return new Set(punches.filter((p) => p.kind === "clock_in").map((p) => p.workforceId)).size;
+}
+
+const STATUS_ORDER: AttendanceStatus[] = ["No-show", "Late", "Not in yet", "On time", "Unscheduled"];
+
+/**
+ * Attendance for one building / shift / date: everyone scheduled plus anyone
+ * who punched in without being scheduled. Without a scheduled start nobody is
+ * late or a no-show yet.
+ */
+export function shiftAttendance(input: {
+  date: string;
+  scheduledStartTime: string | null; // "06:00"
+  assignments: ShiftAssignment[]; // the slot's assignments
+  punches: TimePunch[]; // the slot's punches
+  now?: Date;
+}): AttendanceRow[] {
+  const now = input.now ?? new Date();
+  const start =
+    input.scheduledStartTime && isHHMM(input.scheduledStartTime)
+      ? nyWallTimeToDate(input.date, input.scheduledStartTime).getTime()
+      : null;
+
+  const people = new Map<string, { name: string; role: ScheduleRole | null }>();
+  for (const a of input.assignments) people.set(a.workforceId, { name: a.workerName, role: a.role });
+  for (const p of input.punches) {
+    if (!people.has(p.workforceId)) people.set(p.workforceId, { name: p.workerName, role: null });
+  }
+
+  const rows: AttendanceRow[] = [];
+  for (const [workforceId, person] of people) {
+    const mine = byPunchedAt(input.punches.filter((p) => p.workforceId === workforceId));
+    const clockIn = mine.find((p) => p.kind === "clock_in") ?? null;
+    const clockOut = [...mine].reverse().find((p) => p.kind === "clock_out") ?? null;
+
+    const minutesLate =
+      clockIn && start !== null ? Math.max(0, Math.floor((Date.parse(clockIn.punchedAt) - start) / 60000)) : null;
+
+    let status: AttendanceStatus;
+    if (!person.role) status = "Unscheduled";
+    else if (clockIn) status = (minutesLate ?? 0) > LATE_GRACE_MINUTES ? "Late" : "On time";
+    else if (start !== null && now.getTime() >= start + NO_SHOW_AFTER_MINUTES * 60000) status = "No-show";
+    else status = "Not in yet";
+
+    rows.push({
+      workforceId,
+      name: person.name,
+      role: person.role,
+      status,
+      state: clockState(mine, now),
+      clockInAt: clockIn?.punchedAt ?? null,
+      clockOutAt: clockOut?.punchedAt ?? null,
+      minutesLate,
+    });
+  }
+
+  return rows.sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.name.localeCompare(b.name)
+  );
+}
+
+/** Text for the startup checklist's "Late / No-show details" field. */
+export function lateOrNoShowSummary(rows: AttendanceRow[]): string {
+  const late = rows.filter((r) => r.status === "Late").map((r) => `${r.name} (${r.minutesLate} min)`);
+  const noShow = rows.filter((r) => r.status === "No-show").map((r) => r.name);
+  return [
+    late.length ? `Late: ${late.join(", ")}` : null,
+    noShow.length ? `No-show: ${noShow.join(", ")}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Oldest first. */
+export async function fetchTimePunches(
+  client: SupabaseClient,
+  filters: TimePunchFilters
+): Promise<{ data: TimePunch[]; error: unknown }> {
+  let query = client
+    .from(TIME_PUNCHES_TABLE)
+    .select("*")
+    .gte("date", filters.from)
+    .lte("date", filters.to)
+    .order("punched_at", { ascending: true });
+  if (filters.building) query = query.eq("building", filters.building);
+  if (filters.shift) query = query.eq("shift", filters.shift);
+  if (filters.workforceId) query = query.eq("workforce_id", filters.workforceId);
+
+  const { data, error } = await query;
+  if (error) return { data: [], error };
+  return { data: ((data || []) as TimePunchRow[]).map(mapTimePunchRow), error: null };
+}
@@ -0,0 +1,133 @@
+// src/lib/domain/workOrders.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const WORK_ORDERS_TABLE = "work_orders";
+
+// localStorage cache read by the dashboard, reports and shifts pages
+export const WORK_ORDERS_KEY = "precisionpulse_work_orders";
+
+export const WORK_ORDER_STATUSES = ["Pending", "Active", "Completed", "Locked"] as const;
+export type WorkOrderStatus = (typeof WORK_ORDER_STATUSES)[number];
+
+/** One row of the `work_orders` table. */
+export type WorkOrderRow = {
+  id: string;
+  created_at: string;
+  building: string;
+  shift_name: string | null;
+  work_order_code: string | null;
+  status: string;
+  notes: string | null;
+  customer_id?: string | null;
+
+  created_by_user_id?: string | null;
+  created_by_email?: string | null;
+};
+
+/** What pages render (and what WORK_ORDERS_KEY stores). */
+export type WorkOrderRecord = {
+  id: string;
+  name: string;
+  building: string;
+  shift: string;
+  status: string;
+  createdAt: string;
+  notes?: string;
+  customerId?: string | null;
+
+  createdByUserId?: string | null;
+  createdByEmail?: string | null;
+};
+
+export type WorkOrderFilters = {
+  building?: string | null;
+  shift?: string | null;
+  customerId?: string | null;
+};
+
+type Rec = Record<string, unknown>;
+
+function str(rec: Rec, keys: string[]): string | null {
+  for (const k of keys) {
+    const v = rec[k];
+    if (typeof v === "string" && v.trim() !== "") return v;
+    if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  }
+  return null;
+}
+
+export function mapWorkOrderRow(row: WorkOrderRow): WorkOrderRecord {
+  const id = String(row.id);
+
+  return {
+    id,
+    name: row.work_order_code ?? `Work Order ${id.slice(-4)}`,
+    building: row.building ?? "DC1",
+    shift: row.shift_name ?? "1st",
+    status: row.status ?? "Pending",
+    createdAt: row.created_at ?? new Date().toISOString(),
+    notes: row.notes ?? "",
+    customerId: row.customer_id ?? null,
+
+    createdByUserId: row.created_by_user_id ?? null,
+    createdByEmail: row.created_by_email ?? null,
+  };
+}
+
+/** Map a cached/legacy work order object (either naming style) to a WorkOrderRecord. */
+export function normalizeWorkOrder(raw: unknown): WorkOrderRecord {
+  const r: Rec = typeof raw === "object" && raw !== null ? (raw as Rec) : {};
+  const id = str(r, ["id", "workOrderId", "work_order_id"]) ?? "";
+
+  return {
+    id,
+    name: str(r, ["name", "title", "work_order_code"]) ?? (id ? `Work Order ${id.slice(-4)}` : "Work Order"),
+    building: str(r, ["building"]) ?? "",
+    shift: str(r, ["shift", "shift_name", "shiftName"]) ?? "",
+    status: str(r, ["status"]) ?? "Pending",
+    createdAt: str(r, ["createdAt", "created_at"]) ?? "",
+    notes: str(r, ["notes"]) ?? "",
+    customerId: str(r, ["customerId", "customer_id"]),
+
+    createdByUserId: str(r, ["createdByUserId", "created_by_user_id"]),
+    createdByEmail: str(r, ["createdByEmail", "created_by_email"]),
+  };
+}
+
+export function writeLocalWorkOrders(records: WorkOrderRecord[]): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(WORK_ORDERS_KEY, JSON.stringify(records));
+}
+
+export function readLocalWorkOrders(): WorkOrderRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(WORK_ORDERS_KEY) || "[]") as unknown;
+    return Array.isArray(parsed) ? parsed.map(normalizeWorkOrder) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Newest first. */
+export async function fetchWorkOrders(
+  client: SupabaseClient,
+  filters: WorkOrderFilters = {}
+): Promise<{ data: WorkOrderRecord[]; error: unknown }> {
+  let query = client.from(WORK_ORDERS_TABLE).select("*").order("created_at", { ascending: false });
+
+  if (filters.building) query = query.eq("building", filters.building);
+  if (filters.shift) query = query.eq("shift_name", filters.shift);
+  if (filters.customerId) query = query.eq("customer_id", filters.customerId);
+
+  const { data, error } = await query;
+  return { data: error ? [] : ((data || []) as WorkOrderRow[]).map(mapWorkOrderRow), error };
+}
+
+export async function fetchWorkOrder(
+  client: SupabaseClient,
+  id: string
+): Promise<{ data: WorkOrderRecord | null; error: unknown }> {
+  const { data, error } = await client.from(WORK_ORDERS_TABLE).select("*").eq("id", id).maybeSingle();
+  return { data: data ? mapWorkOrderRow(data as WorkOrderRow) : null, error };
+}
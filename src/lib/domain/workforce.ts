@@ -0,0 +1,150 @@
+// src/lib/domain/workforce.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { WorkerContribution } from "@/lib/domain/containers";
+
+export const WORKFORCE_TABLE = "workforce";
+
+export type WorkforceRateType = "Hourly" | "Production" | "";
+
+export type WorkforceWorker = {
+  id: string;
+  name: string;
+  building: string | null;
+  shift: string | null;
+  jobRole: string | null; // position, e.g. "Forklift Operator"
+  status: string | null; // "Active", "On Leave", etc.
+  active: boolean;
+  rateType: WorkforceRateType;
+  rateValue: number | null;
+  employeeNumber: string | null; // payroll provider employee / file number
+  phone: string | null;
+  email: string | null; // links the worker to their user account (e.g. "My shifts")
+  whatsappOptIn: boolean; // receives shift-start broadcasts
+  badgeNumber: string | null; // scanned or typed at the time clock kiosk
+  hasKioskPin: boolean; // the PIN itself is only stored hashed
+};
+
+export type WorkforceFilters = {
+  building?: string | null;
+};
+
+function firstString(row: Record<string, unknown>, keys: string[]): string | null {
+  for (const k of keys) {
+    const v = row[k];
+    if (typeof v === "string") return v;
+  }
+  return null;
+}
+
+/** Tolerates the older full_name/dc/employment_status columns. */
+export function mapWorkforceRow(row: Record<string, unknown>): WorkforceWorker {
+  const id =
+    (typeof row.id === "string" ? row.id : null) ??
+    (typeof row.id === "number" ? String(row.id) : null) ??
+    (typeof row.worker_id === "string" ? row.worker_id : null) ??
+    (typeof row.worker_id === "number" ? String(row.worker_id) : null) ??
+    (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : String(Date.now()));
+
+  const name = firstString(row, ["name", "full_name", "fullName", "worker_name"]) ?? "Unknown";
+  const status = firstString(row, ["status", "employment_status"]);
+
+  const activeRaw =
+    (typeof row.active === "boolean" ? row.active : null) ??
+    (typeof row.is_active === "boolean" ? row.is_active : null);
+
+  const rateTypeRaw = firstString(row, ["rate_type", "rateType"]);
+  const rateValueRaw = row.rate_value ?? row.rateValue;
+  const rateValue = rateValueRaw == null || rateValueRaw === "" ? NaN : Number(rateValueRaw);
+  const employeeNumberRaw = row.employee_number ?? row.employeeNumber;
+  const employeeNumber =
+    typeof employeeNumberRaw === "number" ? String(employeeNumberRaw) : firstString(row, ["employee_number", "employeeNumber"]);
+
+  return {
+    id: String(id),
+    name: String(name).trim(),
+    building: firstString(row, ["building", "dc", "location"]),
+    shift: firstString(row, ["shift", "shift_name", "shiftName"]),
+    jobRole: firstString(row, ["job_role", "jobRole", "role"])?.trim() || null,
+    status,
+    active: activeRaw ?? (status ? status.toLowerCase() === "active" : true),
+    rateType: rateTypeRaw === "Hourly" || rateTypeRaw === "Production" ? rateTypeRaw : "",
+    rateValue: Number.isFinite(rateValue) ? rateValue : null,
+    employeeNumber: employeeNumber?.trim() || null,
+    phone: firstString(row, ["phone", "phone_number"])?.trim() || null,
+    email: firstString(row, ["email"])?.trim().toLowerCase() || null,
+    whatsappOptIn: row.whatsapp_opt_in === true,
+    badgeNumber: firstString(row, ["badge_number", "badgeNumber"])?.trim() || null,
+    hasKioskPin: typeof row.kiosk_pin_hash === "string" && row.kiosk_pin_hash !== "",
+  };
+}
+
+/**
+ * A container contribution belongs to a worker by workforce id; entries made
+ * before contributions were linked fall back to a case-insensitive name match.
+ */
+export function contributionMatchesWorker(
+  w: Pick<WorkerContribution, "name" | "workforceId">,
+  worker: Pick<WorkforceWorker, "id" | "name">
+): boolean {
+  if (w.workforceId) return w.workforceId === worker.id;
+  return !!w.name.trim() && w.name.trim().toLowerCase() === worker.name.trim().toLowerCase();
+}
+
+/** Active workers for a building's picker (unassigned workers included), by name. */
+export function workforceForBuilding(workforce: WorkforceWorker[], building: string | null | undefined): WorkforceWorker[] {
+  return workforce
+    .filter((w) => w.active && w.name && w.name !== "Unknown")
+    .filter((w) => !building || !w.building || w.building === building)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Opted-in active workers with a phone number on the building's shift (or no shift set). */
+export function shiftBroadcastRecipients(
+  workforce: WorkforceWorker[],
+  building: string,
+  shift: string
+): WorkforceWorker[] {
+  return workforce.filter(
+    (w) => w.active && w.whatsappOptIn && !!w.phone && w.building === building && (!w.shift || w.shift === shift)
+  );
+}
+
+/** Newest first. */
+export async function fetchWorkforce(
+  client: SupabaseClient,
+  filters: WorkforceFilters = {}
+): Promise<{ data: WorkforceWorker[]; error: unknown }> {
+  let query = client.from(WORKFORCE_TABLE).select("*").order("created_at", { ascending: false });
+  if (filters.building) query = query.eq("building", filters.building);
+
+  const { data, error } = await query;
+  return {
+    data: error ? [] : ((data || []) as Record<string, unknown>[]).map(mapWorkforceRow),
+    error,
+  };
+}
+
+export async function fetchWorkforceByIds(
+  client: SupabaseClient,
+  ids: string[]
+): Promise<{ data: WorkforceWorker[]; error: unknown }> {
+  if (ids.length === 0) return { data: [], error: null };
+  const { data, error } = await client.from(WORKFORCE_TABLE).select("*").in("id", ids);
+  return {
+    data: error ? [] : ((data || []) as Record<string, unknown>[]).map(mapWorkforceRow),
+    error,
+  };
+}
+
+/** The worker holding a kiosk credential: a badge number, or a PIN's hash (see src/lib/timeClockKiosk.ts). */
+export async function fetchWorkforceByKioskCredential(
+  client: SupabaseClient,
+  credential: { badgeNumber: string } | { pinHash: string }
+): Promise<{ data: WorkforceWorker | null; error: unknown }> {
+  const [column, value] =
+    "badgeNumber" in credential ? ["badge_number", credential.badgeNumber] : ["kiosk_pin_hash", credential.pinHash];
+  const { data, error } = await client.from(WORKFORCE_TABLE).select("*").eq(column, value).limit(1);
+  if (error) return { data: null, error };
+  const row = ((data || []) as Record<string, unknown>[])[0];
+  return { data: row ? mapWorkforceRow(row) : null, error: null };
+}
@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { mapContainerRow } from "@/lib/domain/containers";
+import {
+  buildInvoiceLines,
+  fetchBilledContainerIds,
+  formatInvoiceNumber,
+  mapInvoiceRow,
+  nextInvoiceStatus,
+  parseRateCardInput,
+  priceInvoiceLine,
+  rateCardAllowedFor,
+  rateCardForCustomer,
+  resolveRateCard,
+  summarizeInvoiceLines,
+  type RateCard,
+  type RateCardTerms,
+} from "@/lib/invoicing";
+import { createSupabaseStub } from "@/test/supabaseStub";
+import { containerRows } from "@/test/fixtures";
+
+const containers = containerRows.map(mapContainerRow);
+
+const terms: RateCardTerms = {
+  perContainer: 50,
+  perPiece: 0.1,
+  palletizedPerContainer: 25,
+  damageCreditPerPiece: 0.5,
+  reworkCreditPerPiece: 0.25,
+};
+
+function card(partial: Partial<RateCard>): RateCard {
+  return {
+    id: "rc",
+    createdAt: "",
+    name: "Card",
+    customerId: null,
+    customer: null,
+    building: null,
+    notes: "",
+    active: true,
+    ...terms,
+    ...partial,
+  };
+}
+
+describe("priceInvoiceLine", () => {
+  it("charges per container and per piece", () => {
+    const line = priceInvoiceLine(containers[0], terms);
+    expect(line).toMatchObject({
+      containerId: "c-1",
+      workDate: "2026-03-08",
+      containerCharge: 50,
+      pieceCharge: 120,
+      palletizedCharge: 0,
+      credit: 0,
+      amount: 170,
+    });
+  });
+
+  it("adds the palletized surcharge", () => {
+    expect(priceInvoiceLine(containers[1], terms)).toMatchObject({ pieceCharge: 40, palletizedCharge: 25, amount: 115 });
+  });
+
+  it("credits damage and rework pieces, never below zero", () => {
+    const damaged = { ...containers[0], damage_pieces: 20, rework_pieces: 8 };
+    expect(priceInvoiceLine(damaged, terms)).toMatchObject({ credit: 12, amount: 158 });
+
+    const wrecked = { ...containers[0], damage_pieces: 1000 };
+    expect(priceInvoiceLine(wrecked, terms)).toMatchObject({ credit: 170, amount: 0 });
+  });
+});
+
+describe("buildInvoiceLines", () => {
+  it("keeps containers in range and skips ones already billed", () => {
+    const lines = buildInvoiceLines(containers, terms, {
+      from: "2026-03-08",
+      to: "2026-03-09",
+      billedContainerIds: new Set(["c-2"]),
+    });
+    expect(lines.map((l) => l.containerId)).toEqual(["c-1"]);
+  });
+
+  it("only bills the customer's work orders when given", () => {
+    const lines = buildInvoiceLines(containers, terms, {
+      from: "2026-03-01",
+      to: "2026-03-31",
+      workOrderIds: new Set(["wo-2"]),
+    });
+    expect(lines.map((l) => l.containerId)).toEqual(["c-3"]);
+  });
+
+  it("totals subtotal, credits and total", () => {
+    const damaged = containers.map((c) => (c.id === "c-3" ? { ...c, damage_pieces: 10 } : c));
+    const lines = buildInvoiceLines(damaged, terms, { from: "2026-03-01", to: "2026-03-31" });
+    expect(summarizeInvoiceLines(lines)).toEqual({ containerCount: 3, subtotal: 935, credits: 5, total: 930 });
+  });
+});
+
+describe("resolveRateCard", () => {
+  const cards = [
+    card({ id: "general" }),
+    card({ id: "dc1", building: "DC1" }),
+    card({ id: "acme", customerId: "cu-acme", customer: "Acme" }),
+    card({ id: "acme-dc1", customerId: "cu-acme", customer: "Acme", building: "DC1" }),
+    card({ id: "retired", customerId: "cu-globex", customer: "Globex", active: false }),
+  ];
+
+  it("prefers customer + building, then customer, then building", () => {
+    expect(resolveRateCard(cards, { customerId: "cu-acme", building: "DC1" })?.id).toBe("acme-dc1");
+    expect(resolveRateCard(cards, { customerId: "cu-acme", building: "DC5" })?.id).toBe("acme");
+    expect(resolveRateCard(cards, { customerId: "cu-initech", building: "DC1" })?.id).toBe("dc1");
+    expect(resolveRateCard(cards, { customerId: "cu-globex" })?.id).toBe("general");
+  });
+
+  it("returns null when nothing applies", () => {
+    expect(resolveRateCard([card({ customerId: "cu-acme" })], { customerId: "cu-initech" })).toBeNull();
+  });
+
+  it("never applies a card whose customer name didn't link to a customer", () => {
+    const unlinked = card({ id: "unlinked", customer: "Acme" });
+    expect(resolveRateCard([unlinked], { customerId: null })).toBeNull();
+    expect(resolveRateCard([unlinked], { customerId: "cu-acme" })).toBeNull();
+  });
+
+  it("uses the customer's default card while it is active", () => {
+    expect(rateCardForCustomer(cards, { id: "cu-acme", defaultRateCardId: "dc1" }, "DC5")?.id).toBe("dc1");
+    expect(rateCardForCustomer(cards, { id: "cu-acme", defaultRateCardId: "retired" }, "DC1")?.id).toBe("acme-dc1");
+    expect(rateCardForCustomer(cards, { id: "cu-initech", defaultRateCardId: null })?.id).toBe("general");
+  });
+
+  it("only lets a hand-picked card bill its own customer while active", () => {
+    const [general, , acme, , retired] = cards;
+    expect(rateCardAllowedFor(general, "cu-initech")).toBe(true);
+    expect(rateCardAllowedFor(acme, "cu-acme")).toBe(true);
+    expect(rateCardAllowedFor(acme, "cu-initech")).toBe(false);
+    expect(rateCardAllowedFor(retired, "cu-globex")).toBe(false);
+    expect(rateCardAllowedFor(card({ customer: "Acme" }), "cu-acme")).toBe(false);
+  });
+});
+
+describe("parseRateCardInput", () => {
+  it("accepts numeric strings and blank scope", () => {
+    const parsed = parseRateCardInput({ name: " Acme ", customerId: "", perContainer: "45", perPiece: "" });
+    expect(parsed).toEqual({
+      ok: true,
+      value: expect.objectContaining({ name: "Acme", customerId: null, perContainer: 45, perPiece: 0 }),
+    });
+  });
+
+  it("rejects negative or missing rates", () => {
+    expect(parseRateCardInput({ name: "X", perContainer: -1 })).toEqual({
+      ok: false,
+      error: "perContainer must be 0 or more",
+    });
+    expect(parseRateCardInput({ name: "X" }).ok).toBe(false);
+    expect(parseRateCardInput({ perContainer: 5 }).ok).toBe(false);
+  });
+});
+
+describe("invoice status and mapping", () => {
+  it("moves Draft → Sent → Paid only", () => {
+    expect(nextInvoiceStatus("Draft", "send")).toEqual({ ok: true, status: "Sent" });
+    expect(nextInvoiceStatus("Sent", "markPaid")).toEqual({ ok: true, status: "Paid" });
+    expect(nextInvoiceStatus("Draft", "markPaid").ok).toBe(false);
+  });
+
+  it("formats invoice numbers and maps stored terms", () => {
+    expect(formatInvoiceNumber(42)).toBe("INV-00042");
+    const inv = mapInvoiceRow({
+      id: "i-1",
+      invoice_number: "7",
+      created_at: "2026-03-15T12:00:00Z",
+      created_by_email: null,
+      customer_id: "cu-1",
+      customer: "Acme",
+      building: "",
+      period_start: "2026-03-08",
+      period_end: "2026-03-14",
+      status: "bogus",
+      rate_card_id: null,
+      rate_card: { name: "Acme", perContainer: "50" },
+      container_count: 3,
+      subtotal: "100.5",
+      credits: null,
+      total: "100.5",
+      notes: null,
+      sent_at: null,
+      sent_by_email: null,
+      paid_at: null,
+      paid_by_email: null,
+    });
+    expect(inv).toMatchObject({ invoiceNumber: "INV-00007", customerId: "cu-1", building: null, status: "Draft", subtotal: 100.5, credits: 0 });
+    expect(inv.rateCard).toMatchObject({ name: "Acme", perContainer: 50, perPiece: 0 });
+  });
+});
+
+describe("fetchBilledContainerIds", () => {
+  it("returns the ids already on invoice lines", async () => {
+    const { client } = createSupabaseStub({
+      invoice_lines: [{ container_id: "c-1" }, { container_id: "c-9" }],
+    });
+    const { data } = await fetchBilledContainerIds(client, ["c-1", "c-2"]);
+    expect(Array.from(data)).toEqual(["c-1"]);
+  });
+
+  it("looks ids up in chunks so a long billing period fits in the request", async () => {
+    const ids = Array.from({ length: 320 }, (_, i) => `c-${i}`);
+    const { client, calls } = createSupabaseStub({
+      invoice_lines: [{ container_id: "c-3" }, { container_id: "c-310" }],
+    });
+    const { data } = await fetchBilledContainerIds(client, ids);
+    expect(Array.from(data).sort()).toEqual(["c-3", "c-310"]);
+    expect(calls.filter((c) => c.method === "in").map((c) => (c.args[1] as string[]).length)).toEqual([150, 150, 20]);
+  });
+});
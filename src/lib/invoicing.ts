@@ -0,0 +1,509 @@
+// src/lib/invoicing.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { containerDateNY, type ContainerRow } from "@/lib/domain/containers";
+import type { Customer } from "@/lib/domain/customers";
+import { roundMoney, toNumber } from "@/lib/money";
+
+/**
+ * Customer invoices built from containers.
+ * A rate card (per container, per piece, palletized surcharge, damage/rework
+ * credits) prices each container into one invoice line. The terms are copied
+ * onto the invoice, and invoice_lines.container_id is unique so a container is
+ * billed at most once. Deleting a Draft releases its containers.
+ * An invoice is for one customer and only bills containers on that
+ * customer's work orders.
+ */
+
+export const RATE_CARDS_TABLE = "rate_cards";
+export const INVOICES_TABLE = "invoices";
+export const INVOICE_LINES_TABLE = "invoice_lines";
+
+export const INVOICE_STATUSES = ["Draft", "Sent", "Paid"] as const;
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+export const INVOICE_ACTIONS = ["send", "markPaid"] as const;
+export type InvoiceAction = (typeof INVOICE_ACTIONS)[number];
+
+// ✅ Draft → Sent → Paid
+export const INVOICE_TRANSITIONS: Record<InvoiceAction, { from: InvoiceStatus; to: InvoiceStatus; label: string }> = {
+  send: { from: "Draft", to: "Sent", label: "Mark Sent" },
+  markPaid: { from: "Sent", to: "Paid", label: "Mark Paid" },
+};
+
+/** The pricing terms of a rate card (what gets copied onto an invoice). */
+export type RateCardTerms = {
+  perContainer: number;
+  perPiece: number;
+  palletizedPerContainer: number; // added on top for palletized containers
+  damageCreditPerPiece: number;
+  reworkCreditPerPiece: number;
+};
+
+export type RateCard = RateCardTerms & {
+  id: string;
+  createdAt: string;
+  name: string;
+  customerId: string | null; // null = any customer
+  customer: string | null; // that customer's name, for display
+  building: string | null; // null = all buildings
+  notes: string;
+  active: boolean;
+};
+
+export type RateCardRow = {
+  id: string;
+  created_at: string;
+  name: string;
+  customer_id?: string | null;
+  customer: string | null;
+  building: string | null;
+  per_container: number | string | null;
+  per_piece: number | string | null;
+  palletized_per_container: number | string | null;
+  damage_credit_per_piece: number | string | null;
+  rework_credit_per_piece: number | string | null;
+  notes: string | null;
+  active: boolean | null;
+};
+
+export type Invoice = {
+  id: string;
+  invoiceNumber: string; // INV-00001
+  createdAt: string;
+  createdByEmail: string | null;
+  customerId: string | null; // null on invoices created before customers existed
+  customer: string; // name as billed
+  building: string | null; // null = all buildings
+  periodStart: string;
+  periodEnd: string;
+  status: InvoiceStatus;
+  rateCardId: string | null;
+  rateCard: RateCardTerms & { name: string };
+  containerCount: number;
+  subtotal: number;
+  credits: number;
+  total: number;
+  notes: string;
+  sentAt: string | null;
+  sentByEmail: string | null;
+  paidAt: string | null;
+  paidByEmail: string | null;
+};
+
+export type InvoiceRow = {
+  id: string;
+  invoice_number: number | string;
+  created_at: string;
+  created_by_email: string | null;
+  customer_id: string | null;
+  customer: string;
+  building: string | null;
+  period_start: string;
+  period_end: string;
+  status: string | null;
+  rate_card_id: string | null;
+  rate_card: unknown;
+  container_count: number | null;
+  subtotal: number | string | null;
+  credits: number | string | null;
+  total: number | string | null;
+  notes: string | null;
+  sent_at: string | null;
+  sent_by_email: string | null;
+  paid_at: string | null;
+  paid_by_email: string | null;
+};
+
+export type InvoiceLine = {
+  containerId: string;
+  containerNo: string;
+  workDate: string;
+  building: string;
+  shift: string | null;
+  workOrderId: string | null;
+  pieces: number;
+  palletized: boolean;
+  damagePieces: number;
+  reworkPieces: number;
+  containerCharge: number;
+  pieceCharge: number;
+  palletizedCharge: number;
+  credit: number;
+  amount: number;
+};
+
+export type InvoiceLineRow = {
+  id?: string;
+  invoice_id: string;
+  container_id: string;
+  container_no: string;
+  work_date: string;
+  building: string;
+  shift: string | null;
+  work_order_id: string | null;
+  pieces: number;
+  palletized: boolean;
+  damage_pieces: number;
+  rework_pieces: number;
+  container_charge: number | string;
+  piece_charge: number | string;
+  palletized_charge: number | string;
+  credit: number | string;
+  amount: number | string;
+};
+
+export type RateCardParseResult = { ok: true; value: Omit<RateCard, "id" | "createdAt"> } | { ok: false; error: string };
+
+export function isInvoiceStatus(v: unknown): v is InvoiceStatus {
+  return typeof v === "string" && (INVOICE_STATUSES as readonly string[]).includes(v);
+}
+
+export function isInvoiceAction(v: unknown): v is InvoiceAction {
+  return typeof v === "string" && (INVOICE_ACTIONS as readonly string[]).includes(v);
+}
+
+export function formatInvoiceNumber(n: number | string): string {
+  return `INV-${String(n).padStart(5, "0")}`;
+}
+
+export function rateCardTerms(card: RateCardTerms): RateCardTerms {
+  return {
+    perContainer: card.perContainer,
+    perPiece: card.perPiece,
+    palletizedPerContainer: card.palletizedPerContainer,
+    damageCreditPerPiece: card.damageCreditPerPiece,
+    reworkCreditPerPiece: card.reworkCreditPerPiece,
+  };
+}
+
+export function mapRateCardRow(row: RateCardRow): RateCard {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    name: row.name,
+    customerId: row.customer_id ?? null,
+    customer: row.customer || null,
+    building: row.building || null,
+    perContainer: toNumber(row.per_container),
+    perPiece: toNumber(row.per_piece),
+    palletizedPerContainer: toNumber(row.palletized_per_container),
+    damageCreditPerPiece: toNumber(row.damage_credit_per_piece),
+    reworkCreditPerPiece: toNumber(row.rework_credit_per_piece),
+    notes: row.notes ?? "",
+    active: row.active !== false,
+  };
+}
+
+export function rateCardToRow(card: Omit<RateCard, "id" | "createdAt">) {
+  return {
+    name: card.name,
+    customer_id: card.customerId,
+    customer: card.customer,
+    building: card.building,
+    per_container: card.perContainer,
+    per_piece: card.perPiece,
+    palletized_per_container: card.palletizedPerContainer,
+    damage_credit_per_piece: card.damageCreditPerPiece,
+    rework_credit_per_piece: card.reworkCreditPerPiece,
+    notes: card.notes || null,
+    active: card.active,
+  };
+}
+
+function mapInvoiceTerms(raw: unknown): RateCardTerms & { name: string } {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    name: typeof r.name === "string" ? r.name : "",
+    perContainer: toNumber(r.perContainer),
+    perPiece: toNumber(r.perPiece),
+    palletizedPerContainer: toNumber(r.palletizedPerContainer),
+    damageCreditPerPiece: toNumber(r.damageCreditPerPiece),
+    reworkCreditPerPiece: toNumber(r.reworkCreditPerPiece),
+  };
+}
+
+export function mapInvoiceRow(row: InvoiceRow): Invoice {
+  return {
+    id: String(row.id),
+    invoiceNumber: formatInvoiceNumber(row.invoice_number),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email ?? null,
+    customerId: row.customer_id ?? null,
+    customer: row.customer,
+    building: row.building || null,
+    periodStart: String(row.period_start).slice(0, 10),
+    periodEnd: String(row.period_end).slice(0, 10),
+    status: isInvoiceStatus(row.status) ? row.status : "Draft",
+    rateCardId: row.rate_card_id ?? null,
+    rateCard: mapInvoiceTerms(row.rate_card),
+    containerCount: toNumber(row.container_count),
+    subtotal: toNumber(row.subtotal),
+    credits: toNumber(row.credits),
+    total: toNumber(row.total),
+    notes: row.notes ?? "",
+    sentAt: row.sent_at ?? null,
+    sentByEmail: row.sent_by_email ?? null,
+    paidAt: row.paid_at ?? null,
+    paidByEmail: row.paid_by_email ?? null,
+  };
+}
+
+export function mapInvoiceLineRow(row: InvoiceLineRow): InvoiceLine {
+  return {
+    containerId: String(row.container_id),
+    containerNo: row.container_no,
+    workDate: String(row.work_date).slice(0, 10),
+    building: row.building,
+    shift: row.shift ?? null,
+    workOrderId: row.work_order_id ?? null,
+    pieces: toNumber(row.pieces),
+    palletized: !!row.palletized,
+    damagePieces: toNumber(row.damage_pieces),
+    reworkPieces: toNumber(row.rework_pieces),
+    containerCharge: toNumber(row.container_charge),
+    pieceCharge: toNumber(row.piece_charge),
+    palletizedCharge: toNumber(row.palletized_charge),
+    credit: toNumber(row.credit),
+    amount: toNumber(row.amount),
+  };
+}
+
+export function invoiceLineToRow(invoiceId: string, line: InvoiceLine): InvoiceLineRow {
+  return {
+    invoice_id: invoiceId,
+    container_id: line.containerId,
+    container_no: line.containerNo,
+    work_date: line.workDate,
+    building: line.building,
+    shift: line.shift,
+    work_order_id: line.workOrderId,
+    pieces: line.pieces,
+    palletized: line.palletized,
+    damage_pieces: line.damagePieces,
+    rework_pieces: line.reworkPieces,
+    container_charge: line.containerCharge,
+    piece_charge: line.pieceCharge,
+    palletized_charge: line.palletizedCharge,
+    credit: line.credit,
+    amount: line.amount,
+  };
+}
+
+/** Validate a rate card body from the API. */
+export function parseRateCardInput(body: unknown): RateCardParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const money = (v: unknown) => (v === undefined || v === null || v === "" ? 0 : Number(v));
+
+  const name = str(b.name);
+  if (!name) return { ok: false, error: "name is required" };
+
+  const terms = {
+    perContainer: money(b.perContainer),
+    perPiece: money(b.perPiece),
+    palletizedPerContainer: money(b.palletizedPerContainer),
+    damageCreditPerPiece: money(b.damageCreditPerPiece),
+    reworkCreditPerPiece: money(b.reworkCreditPerPiece),
+  };
+  for (const [key, value] of Object.entries(terms)) {
+    if (!Number.isFinite(value) || value < 0) return { ok: false, error: `${key} must be 0 or more` };
+  }
+  if (terms.perContainer === 0 && terms.perPiece === 0) {
+    return { ok: false, error: "Set a per-container or per-piece rate" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name,
+      customerId: str(b.customerId) || null,
+      customer: null, // the route fills in the customer's name
+      building: str(b.building) || null,
+      ...terms,
+      notes: str(b.notes),
+      active: b.active !== false,
+    },
+  };
+}
+
+/**
+ * Pick the rate card for a customer/building: customer + building beats
+ * customer-only, which beats building-only, which beats the general card.
+ * Customers match by id; a card that never linked to a customer row applies
+ * to no one. Returns null when no active card applies.
+ */
+export function resolveRateCard(
+  cards: RateCard[],
+  ctx: { customerId?: string | null; building?: string | null }
+): RateCard | null {
+  let best: RateCard | null = null;
+  let bestScore = -1;
+
+  for (const c of cards) {
+    if (!c.active) continue;
+    const forCustomer = !!(c.customerId || c.customer);
+    if (forCustomer && (!c.customerId || c.customerId !== ctx.customerId)) continue;
+    if (c.building && c.building !== (ctx.building ?? null)) continue;
+
+    const score = (forCustomer ? 2 : 0) + (c.building ? 1 : 0);
+    if (score > bestScore) {
+      best = c;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/** The customer's default rate card if it is still active, otherwise the best match by customer/building. */
+export function rateCardForCustomer(
+  cards: RateCard[],
+  customer: Pick<Customer, "id" | "defaultRateCardId">,
+  building?: string | null
+): RateCard | null {
+  const preferred = cards.find((c) => c.id === customer.defaultRateCardId && c.active);
+  return preferred ?? resolveRateCard(cards, { customerId: customer.id, building });
+}
+
+/** True when a card picked by hand may bill this customer: active, and for any customer or this one. */
+export function rateCardAllowedFor(card: RateCard, customerId: string): boolean {
+  if (!card.active) return false;
+  return card.customerId ? card.customerId === customerId : !card.customer;
+}
+
+/** One container → one invoice line. Credits never take a line below zero. */
+export function priceInvoiceLine(container: ContainerRow, terms: RateCardTerms): InvoiceLine {
+  const containerCharge = roundMoney(terms.perContainer);
+  const pieceCharge = roundMoney(container.pieces_total * terms.perPiece);
+  const palletizedCharge = container.palletized ? roundMoney(terms.palletizedPerContainer) : 0;
+  const gross = containerCharge + pieceCharge + palletizedCharge;
+  const credit = Math.min(
+    roundMoney(
+      container.damage_pieces * terms.damageCreditPerPiece + container.rework_pieces * terms.reworkCreditPerPiece
+    ),
+    roundMoney(gross)
+  );
+
+  return {
+    containerId: container.id,
+    containerNo: container.container_no,
+    workDate: containerDateNY(container),
+    building: container.building,
+    shift: container.shift,
+    workOrderId: container.work_order_id,
+    pieces: container.pieces_total,
+    palletized: !!container.palletized,
+    damagePieces: container.damage_pieces,
+    reworkPieces: container.rework_pieces,
+    containerCharge,
+    pieceCharge,
+    palletizedCharge,
+    credit,
+    amount: roundMoney(gross - credit),
+  };
+}
+
+/**
+ * Price every container in the range that has not been billed yet, oldest first.
+ * With workOrderIds, only containers on those work orders (the customer's) are billed.
+ */
+export function buildInvoiceLines(
+  containers: ContainerRow[],
+  terms: RateCardTerms,
+  opts: { from: string; to: string; billedContainerIds?: Set<string>; workOrderIds?: Set<string> }
+): InvoiceLine[] {
+  return containers
+    .filter((c) => {
+      const d = containerDateNY(c);
+      if (d < opts.from || d > opts.to || opts.billedContainerIds?.has(c.id)) return false;
+      return !opts.workOrderIds || (!!c.work_order_id && opts.workOrderIds.has(c.work_order_id));
+    })
+    .map((c) => priceInvoiceLine(c, terms))
+    .sort((a, b) => a.workDate.localeCompare(b.workDate) || a.containerNo.localeCompare(b.containerNo));
+}
+
+export function summarizeInvoiceLines(lines: InvoiceLine[]): {
+  containerCount: number;
+  subtotal: number;
+  credits: number;
+  total: number;
+} {
+  const subtotal = roundMoney(
+    lines.reduce((sum, l) => sum + l.containerCharge + l.pieceCharge + l.palletizedCharge, 0)
+  );
+  const credits = roundMoney(lines.reduce((sum, l) => sum + l.credit, 0));
+  return { containerCount: lines.length, subtotal, credits, total: roundMoney(subtotal - credits) };
+}
+
+/** Validate a status change; returns the new status or an error message. */
+export function nextInvoiceStatus(
+  current: InvoiceStatus,
+  action: InvoiceAction
+): { ok: true; status: InvoiceStatus } | { ok: false; error: string } {
+  const t = INVOICE_TRANSITIONS[action];
+  if (current !== t.from) {
+    return { ok: false, error: `Only ${t.from} invoices can be moved to ${t.to} (this one is ${current})` };
+  }
+  return { ok: true, status: t.to };
+}
+
+export async function fetchRateCards(client: SupabaseClient): Promise<{ data: RateCard[]; error: unknown }> {
+  const { data, error } = await client.from(RATE_CARDS_TABLE).select("*").order("name", { ascending: true });
+  return { data: error ? [] : ((data || []) as RateCardRow[]).map(mapRateCardRow), error };
+}
+
+/** Newest first. */
+export async function fetchInvoices(
+  client: SupabaseClient,
+  filters: { statuses?: readonly InvoiceStatus[] } = {}
+): Promise<{ data: Invoice[]; error: unknown }> {
+  let query = client.from(INVOICES_TABLE).select("*").order("invoice_number", { ascending: false });
+  if (filters.statuses?.length) query = query.in("status", [...filters.statuses]);
+
+  const { data, error } = await query;
+  return { data: error ? [] : ((data || []) as InvoiceRow[]).map(mapInvoiceRow), error };
+}
+
+export async function fetchInvoice(
+  client: SupabaseClient,
+  id: string
+): Promise<{ data: { invoice: Invoice; lines: InvoiceLine[] } | null; error: unknown }> {
+  const { data, error } = await client.from(INVOICES_TABLE).select("*").eq("id", id).maybeSingle();
+  if (error || !data) return { data: null, error };
+
+  const lines = await client
+    .from(INVOICE_LINES_TABLE)
+    .select("*")
+    .eq("invoice_id", id)
+    .order("work_date", { ascending: true });
+  if (lines.error) return { data: null, error: lines.error };
+
+  return {
+    data: {
+      invoice: mapInvoiceRow(data as InvoiceRow),
+      lines: ((lines.data || []) as InvoiceLineRow[]).map(mapInvoiceLineRow),
+    },
+    error: null,
+  };
+}
+
+// Ids per `.in()` lookup: a month of containers would overflow the request URL in one go.
+const BILLED_LOOKUP_CHUNK = 150;
+
+/** Which of these containers are already on an invoice. */
+export async function fetchBilledContainerIds(
+  client: SupabaseClient,
+  containerIds: string[]
+): Promise<{ data: Set<string>; error: unknown }> {
+  const billed = new Set<string>();
+  for (let i = 0; i < containerIds.length; i += BILLED_LOOKUP_CHUNK) {
+    const { data, error } = await client
+      .from(INVOICE_LINES_TABLE)
+      .select("container_id")
+      .in("container_id", containerIds.slice(i, i + BILLED_LOOKUP_CHUNK));
+    if (error) return { data: new Set(), error };
+    for (const r of (data || []) as { container_id: string }[]) billed.add(String(r.container_id));
+  }
+  return { data: billed, error: null };
+}
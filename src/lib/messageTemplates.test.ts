@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { renderMessageTemplate, type InjuryReportEmailData } from "@/lib/messageTemplates";
+
+const report: InjuryReportEmailData["report"] = {
+  id: "ir-1",
+  building: "DC1",
+  shift: "2nd",
+  employee_name: "Ana Lopez",
+  incident_datetime: "2026-10-18T21:15:00Z",
+  incident_location: "Dock 4",
+  incident_type: "Slip / Trip / Fall",
+  body_part: "Knee",
+  injury_description: "Slipped on wrap",
+  immediate_actions: "",
+  reported_by_name: "Lee Lead",
+  reported_by_email: "lead@example.com",
+};
+
+describe("renderMessageTemplate", () => {
+  it("renders the injury report email and leaves out empty fields", () => {
+    const { subject, text } = renderMessageTemplate("injury.report", {
+      event: "submitted",
+      report,
+      link: "https://pulse.example.com/injury-report",
+    });
+    expect(subject).toBe("Injury report submitted: Ana Lopez — DC1 · 2nd shift");
+    expect(text).toContain("Where: Dock 4");
+    expect(text).toContain("Reported by: Lee Lead — lead@example.com");
+    expect(text).not.toContain("Immediate actions");
+    expect(text.endsWith("Open the report: https://pulse.example.com/injury-report")).toBe(true);
+  });
+
+  it("marks draft emails as drafts", () => {
+    const { subject, text } = renderMessageTemplate("injury.report", {
+      event: "draft",
+      report: { ...report, employee_name: null },
+      link: null,
+    });
+    expect(subject).toBe("New injury report (draft): Unnamed employee — DC1 · 2nd shift");
+    expect(text).not.toContain("Open the report");
+  });
+
+  it("renders the shift-start broadcast", () => {
+    const { text } = renderMessageTemplate("shift.broadcast", {
+      building: "DC1",
+      shift: "1st",
+      date: "2026-10-19",
+      scheduledStartTime: "06:00",
+      summary: "",
+      focus: "Dock 4 is closed",
+      senderName: "Lee Lead",
+    });
+    expect(text).toBe(
+      "Shift start — DC1 · 1st shift · 2026-10-19\nStart time: 06:00\nToday's focus: Dock 4 is closed\n— Lee Lead"
+    );
+  });
+});
@@ -0,0 +1,107 @@
+// src/lib/messageTemplates.ts
+// Outbound message templates. Pure — rendered on the server by src/lib/messaging.ts.
+
+export const MESSAGE_TEMPLATES = ["injury.report", "shift.broadcast"] as const;
+export type MessageTemplateId = (typeof MESSAGE_TEMPLATES)[number];
+
+export type InjuryEmailEvent = "draft" | "submitted";
+
+/** The `injury_reports` columns the email needs. */
+export type InjuryReportEmailData = {
+  event: InjuryEmailEvent;
+  report: {
+    id: string;
+    building: string | null;
+    shift: string | null;
+    employee_name: string | null;
+    incident_datetime: string | null;
+    incident_location: string | null;
+    incident_type: string | null;
+    body_part: string | null;
+    injury_description: string | null;
+    immediate_actions: string | null;
+    reported_by_name: string | null;
+    reported_by_email: string | null;
+  };
+  /** Absolute link to the injury report page, when the app URL is known. */
+  link: string | null;
+};
+
+export type ShiftBroadcastData = {
+  building: string;
+  shift: string;
+  date: string; // YYYY-MM-DD
+  scheduledStartTime: string | null; // "06:00"
+  summary: string;
+  focus: string;
+  senderName: string | null;
+};
+
+export type MessageTemplateData = {
+  "injury.report": InjuryReportEmailData;
+  "shift.broadcast": ShiftBroadcastData;
+};
+
+/** Email uses the subject; SMS and WhatsApp send the text only. */
+export type RenderedMessage = { subject: string; text: string };
+
+function line(label: string, value: string | null | undefined): string | null {
+  const v = (value ?? "").trim();
+  return v ? `${label}: ${v}` : null;
+}
+
+function lines(parts: (string | null)[]): string {
+  return parts.filter((p): p is string => p !== null).join("\n");
+}
+
+function renderInjuryReport({ event, report, link }: InjuryReportEmailData): RenderedMessage {
+  const who = report.employee_name?.trim() || "Unnamed employee";
+  const where = [report.building, report.shift ? `${report.shift} shift` : null].filter(Boolean).join(" · ");
+  const heading = event === "submitted" ? "Injury report submitted" : "New injury report (draft)";
+
+  return {
+    subject: `${heading}: ${who}${where ? ` — ${where}` : ""}`,
+    text: lines([
+      `${heading} for ${who}.`,
+      "",
+      line("Building / shift", where),
+      line("When", report.incident_datetime),
+      line("Where", report.incident_location),
+      line("Type", report.incident_type),
+      line("Body part", report.body_part),
+      line("What happened", report.injury_description),
+      line("Immediate actions", report.immediate_actions),
+      line("Reported by", [report.reported_by_name, report.reported_by_email].filter(Boolean).join(" — ")),
+      link ? "" : null,
+      link ? `Open the report: ${link}` : null,
+    ]),
+  };
+}
+
+function renderShiftBroadcast(data: ShiftBroadcastData): RenderedMessage {
+  const heading = `${data.building} · ${data.shift} shift · ${data.date}`;
+  return {
+    subject: `Shift start: ${heading}`,
+    text: lines([
+      `Shift start — ${heading}`,
+      line("Start time", data.scheduledStartTime),
+      data.summary.trim() || null,
+      line("Today's focus", data.focus),
+      data.senderName ? `— ${data.senderName}` : null,
+    ]),
+  };
+}
+
+export function renderMessageTemplate<T extends MessageTemplateId>(
+  template: T,
+  data: MessageTemplateData[T]
+): RenderedMessage {
+  switch (template) {
+    case "injury.report":
+      return renderInjuryReport(data as InjuryReportEmailData);
+    case "shift.broadcast":
+      return renderShiftBroadcast(data as ShiftBroadcastData);
+    default:
+      throw new Error(`Unknown message template: ${template}`);
+  }
+}
@@ -0,0 +1,102 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  MAX_SMS_LENGTH,
+  fileTransport,
+  messagingConfigFromEnv,
+  normalizePhoneNumber,
+  normalizeRecipient,
+  transportFor,
+  twilioSmsTransport,
+  whatsAppTransport,
+} from "@/lib/messaging";
+
+const message = { channel: "sms" as const, to: "+15551234567", subject: "", text: "Shift starts at 06:00" };
+
+function fakeFetch(status: number, body: unknown) {
+  return vi.fn(async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+}
+
+describe("messagingConfigFromEnv", () => {
+  it("prints messages outside production unless told otherwise", () => {
+    expect(messagingConfigFromEnv({ NODE_ENV: "development" }).mode).toBe("console");
+    expect(messagingConfigFromEnv({ NODE_ENV: "production" }).mode).toBe("live");
+    expect(messagingConfigFromEnv({ NODE_ENV: "production", MESSAGING_TRANSPORT: "File" }).mode).toBe("file");
+  });
+
+  it("only configures providers whose required settings are all set", () => {
+    const config = messagingConfigFromEnv({
+      SMTP_HOST: "smtp.example.com",
+      SMTP_PORT: "465",
+      SMTP_FROM: "Pulse <pulse@example.com>",
+      TWILIO_ACCOUNT_SID: "AC123",
+      TWILIO_FROM: "+15550000000",
+    });
+    expect(config.smtp).toMatchObject({ host: "smtp.example.com", port: 465, secure: true, user: null });
+    expect(config.twilio).toBeNull();
+    expect(config.whatsapp).toBeNull();
+  });
+});
+
+describe("normalizeRecipient", () => {
+  it("normalizes US and international phone numbers to E.164", () => {
+    expect(normalizePhoneNumber("(555) 123-4567")).toBe("+15551234567");
+    expect(normalizePhoneNumber("1 555 123 4567")).toBe("+15551234567");
+    expect(normalizePhoneNumber("+52 55 1234 5678")).toBe("+525512345678");
+    expect(normalizePhoneNumber("123-4567")).toBeNull();
+  });
+
+  it("lower-cases emails and rejects anything else", () => {
+    expect(normalizeRecipient("email", " HR@Example.com ")).toBe("hr@example.com");
+    expect(normalizeRecipient("email", "not an email")).toBeNull();
+    expect(normalizeRecipient("whatsapp", "555.123.4567")).toBe("+15551234567");
+  });
+});
+
+describe("provider transports", () => {
+  it("posts SMS to Twilio and keeps the message sid", async () => {
+    const fetchImpl = fakeFetch(201, { sid: "SM1" });
+    const result = await twilioSmsTransport({ accountSid: "AC1", authToken: "t", from: "+15550000000" }, fetchImpl).send(
+      { ...message, text: "x".repeat(MAX_SMS_LENGTH + 10) }
+    );
+
+    expect(result).toEqual({ ok: true, providerMessageId: "SM1" });
+    const [url, init] = vi.mocked(fetchImpl).mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.twilio.com/2010-04-01/Accounts/AC1/Messages.json");
+    expect(new URLSearchParams(String(init.body)).get("Body")).toHaveLength(MAX_SMS_LENGTH);
+  });
+
+  it("retries rate limits and outages but not rejected requests", async () => {
+    const config = { phoneNumberId: "PN1", accessToken: "t", apiVersion: "v21.0" };
+    const limited = await whatsAppTransport(config, fakeFetch(429, { error: { message: "Too many" } })).send(message);
+    const rejected = await whatsAppTransport(config, fakeFetch(400, { error: { message: "Bad number" } })).send(message);
+
+    expect(limited).toEqual({ ok: false, error: "429: Too many", retryable: true });
+    expect(rejected).toEqual({ ok: false, error: "400: Bad number", retryable: false });
+  });
+
+  it("fails without retrying when the live provider isn't configured", async () => {
+    const transport = transportFor("email", messagingConfigFromEnv({ MESSAGING_TRANSPORT: "live" }));
+    expect(await transport.send({ ...message, channel: "email" })).toMatchObject({ ok: false, retryable: false });
+  });
+});
+
+describe("fileTransport", () => {
+  it("appends one JSON line per message", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "outbox-"));
+    try {
+      const file = path.join(dir, "nested", "messages.jsonl");
+      const transport = fileTransport(file);
+      await transport.send(message);
+      await transport.send({ ...message, to: "+15557654321" });
+
+      const lines = (await readFile(file, "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+      expect(lines.map((l) => l.to)).toEqual(["+15551234567", "+15557654321"]);
+      expect(lines[0]).toMatchObject({ channel: "sms", text: "Shift starts at 06:00" });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,439 @@
+// src/lib/messaging.ts
+// Server-only outbound messaging (email / SMS / WhatsApp). DO NOT import this into client components.
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  MESSAGE_DELIVERIES_TABLE,
+  fetchDueMessageDeliveries,
+  mapMessageDeliveryRow,
+  nextDeliveryAttemptAt,
+  type MessageChannel,
+  type MessageDelivery,
+  type MessageDeliveryRow,
+} from "@/lib/domain/messageDeliveries";
+import { renderMessageTemplate, type MessageTemplateData, type MessageTemplateId } from "@/lib/messageTemplates";
+
+/**
+ * Renders a template, logs one `message_deliveries` row per recipient and
+ * hands each to the transport for its channel. Failed attempts are retried
+ * with backoff by retryDueMessageDeliveries (run every minute by /api/messages/retry).
+ *
+ * MESSAGING_TRANSPORT picks where messages go:
+ *   console — print them (default outside production)
+ *   file    — append JSON lines to MESSAGING_OUTBOX_FILE (default .outbox/messages.jsonl)
+ *   live    — SMTP_*, TWILIO_* and WHATSAPP_* providers (default in production)
+ */
+
+export type MessagingMode = "console" | "file" | "live";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+};
+
+export type TwilioConfig = { accountSid: string; authToken: string; from: string };
+
+export type WhatsAppConfig = { phoneNumberId: string; accessToken: string; apiVersion: string };
+
+export type MessagingConfig = {
+  mode: MessagingMode;
+  outboxFile: string;
+  smtp: SmtpConfig | null;
+  twilio: TwilioConfig | null;
+  whatsapp: WhatsAppConfig | null;
+};
+
+export type OutboundMessage = { channel: MessageChannel; to: string; subject: string; text: string };
+
+export type TransportResult =
+  | { ok: true; providerMessageId: string | null }
+  | { ok: false; error: string; retryable: boolean };
+
+export type MessageTransport = {
+  name: string;
+  send(message: OutboundMessage): Promise<TransportResult>;
+};
+
+export type SendMessageInput<T extends MessageTemplateId> = {
+  channel: MessageChannel;
+  to: string[];
+  template: T;
+  data: MessageTemplateData[T];
+  sourceTable?: string | null;
+  sourceId?: string | null;
+  // Same key + channel + recipient is only ever sent once
+  dedupeKey?: string | null;
+  createdBy?: string | null;
+};
+
+type Env = Record<string, string | undefined>;
+
+// Twilio concatenates up to 10 segments; WhatsApp text bodies cap at 4096
+export const MAX_SMS_LENGTH = 1600;
+export const MAX_WHATSAPP_LENGTH = 4096;
+
+// A delivery being attempted isn't picked up by the sweep for this long
+const ATTEMPT_LEASE_MS = 5 * 60 * 1000;
+
+function env(e: Env, key: string): string | null {
+  const v = e[key]?.trim();
+  return v ? v : null;
+}
+
+export function messagingConfigFromEnv(e: Env = process.env): MessagingConfig {
+  const rawMode = env(e, "MESSAGING_TRANSPORT")?.toLowerCase();
+  const mode: MessagingMode =
+    rawMode === "console" || rawMode === "file" || rawMode === "live"
+      ? rawMode
+      : e.NODE_ENV === "production"
+        ? "live"
+        : "console";
+
+  const smtpHost = env(e, "SMTP_HOST");
+  const smtpFrom = env(e, "SMTP_FROM");
+  const smtpPort = Number(env(e, "SMTP_PORT") ?? 587);
+
+  const twilioSid = env(e, "TWILIO_ACCOUNT_SID");
+  const twilioToken = env(e, "TWILIO_AUTH_TOKEN");
+  const twilioFrom = env(e, "TWILIO_FROM");
+
+  const waPhoneId = env(e, "WHATSAPP_PHONE_NUMBER_ID");
+  const waToken = env(e, "WHATSAPP_ACCESS_TOKEN");
+
+  return {
+    mode,
+    outboxFile: env(e, "MESSAGING_OUTBOX_FILE") ?? path.join(".outbox", "messages.jsonl"),
+    smtp:
+      smtpHost && smtpFrom
+        ? {
+            host: smtpHost,
+            port: Number.isFinite(smtpPort) ? smtpPort : 587,
+            secure: env(e, "SMTP_SECURE") ? env(e, "SMTP_SECURE") === "true" : smtpPort === 465,
+            user: env(e, "SMTP_USER"),
+            pass: env(e, "SMTP_PASS"),
+            from: smtpFrom,
+          }
+        : null,
+    twilio: twilioSid && twilioToken && twilioFrom ? { accountSid: twilioSid, authToken: twilioToken, from: twilioFrom } : null,
+    whatsapp:
+      waPhoneId && waToken
+        ? { phoneNumberId: waPhoneId, accessToken: waToken, apiVersion: env(e, "WHATSAPP_API_VERSION") ?? "v21.0" }
+        : null,
+  };
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** E.164 ("+15551234567"); bare 10-digit numbers are taken as US. Null when it can't be a phone number. */
+export function normalizePhoneNumber(raw: string): string | null {
+  const trimmed = raw.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+")) return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return null;
+}
+
+/** The address as stored in the log, or null if it isn't valid for the channel. */
+export function normalizeRecipient(channel: MessageChannel, raw: string): string | null {
+  if (channel === "email") {
+    const email = raw.trim().toLowerCase();
+    return EMAIL_RE.test(email) ? email : null;
+  }
+  return normalizePhoneNumber(raw);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// Rate limits and provider outages are worth retrying; a rejected request isn't
+function retryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export function consoleTransport(): MessageTransport {
+  return {
+    name: "console",
+    async send(m) {
+      console.info(`[messaging] ${m.channel} → ${m.to}${m.channel === "email" ? ` | ${m.subject}` : ""}\n${m.text}`);
+      return { ok: true, providerMessageId: null };
+    },
+  };
+}
+
+export function fileTransport(file: string): MessageTransport {
+  return {
+    name: "file",
+    async send(m) {
+      try {
+        await mkdir(path.dirname(file), { recursive: true });
+        await appendFile(file, `${JSON.stringify({ at: new Date().toISOString(), ...m })}\n`, "utf8");
+        return { ok: true, providerMessageId: null };
+      } catch (e) {
+        return { ok: false, error: errorMessage(e), retryable: true };
+      }
+    },
+  };
+}
+
+export function smtpTransport(config: SmtpConfig): MessageTransport {
+  const mailer = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass ?? "" } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(m) {
+      try {
+        const info = await mailer.sendMail({ from: config.from, to: m.to, subject: m.subject, text: m.text });
+        return { ok: true, providerMessageId: info.messageId ?? null };
+      } catch (e) {
+        // 5xx replies are permanent (unknown mailbox, rejected sender)
+        const code = (e as { responseCode?: number }).responseCode;
+        return { ok: false, error: errorMessage(e), retryable: !(typeof code === "number" && code >= 500) };
+      }
+    },
+  };
+}
+
+async function postProvider(
+  fetchImpl: typeof fetch,
+  url: string,
+  init: RequestInit,
+  idOf: (body: Record<string, unknown>) => unknown
+): Promise<TransportResult> {
+  try {
+    const res = await fetchImpl(url, init);
+    const body = (await res.json().catch(() => ({}))) as Record<string, unknown>;
+    if (!res.ok) {
+      const detail = body.message ?? (body.error as { message?: unknown } | undefined)?.message ?? res.statusText;
+      return { ok: false, error: `${res.status}: ${String(detail)}`, retryable: retryableStatus(res.status) };
+    }
+    const id = idOf(body);
+    return { ok: true, providerMessageId: typeof id === "string" ? id : null };
+  } catch (e) {
+    // Network errors never reached the provider
+    return { ok: false, error: errorMessage(e), retryable: true };
+  }
+}
+
+/** Twilio Programmable Messaging (or any API with the same Messages.json shape). */
+export function twilioSmsTransport(config: TwilioConfig, fetchImpl: typeof fetch = fetch): MessageTransport {
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`;
+  const authorization = `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64")}`;
+
+  return {
+    name: "twilio",
+    send: (m) =>
+      postProvider(
+        fetchImpl,
+        url,
+        {
+          method: "POST",
+          headers: { Authorization: authorization, "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({ To: m.to, From: config.from, Body: truncate(m.text, MAX_SMS_LENGTH) }),
+        },
+        (body) => body.sid
+      ),
+  };
+}
+
+/** WhatsApp Business Cloud API text message. */
+export function whatsAppTransport(config: WhatsAppConfig, fetchImpl: typeof fetch = fetch): MessageTransport {
+  const url = `https://graph.facebook.com/${config.apiVersion}/${encodeURIComponent(config.phoneNumberId)}/messages`;
+
+  return {
+    name: "whatsapp",
+    send: (m) =>
+      postProvider(
+        fetchImpl,
+        url,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${config.accessToken}`, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            messaging_product: "whatsapp",
+            to: m.to.replace(/^\+/, ""),
+            type: "text",
+            text: { preview_url: false, body: truncate(m.text, MAX_WHATSAPP_LENGTH) },
+          }),
+        },
+        (body) => (body.messages as { id?: unknown }[] | undefined)?.[0]?.id
+      ),
+  };
+}
+
+function unconfiguredTransport(name: string, settings: string): MessageTransport {
+  return {
+    name,
+    async send() {
+      return { ok: false, error: `${name} is not configured (set ${settings})`, retryable: false };
+    },
+  };
+}
+
+export function transportFor(channel: MessageChannel, config: MessagingConfig = messagingConfigFromEnv()): MessageTransport {
+  if (config.mode === "console") return consoleTransport();
+  if (config.mode === "file") return fileTransport(config.outboxFile);
+
+  switch (channel) {
+    case "email":
+      return config.smtp ? smtpTransport(config.smtp) : unconfiguredTransport("smtp", "SMTP_HOST and SMTP_FROM");
+    case "sms":
+      return config.twilio
+        ? twilioSmsTransport(config.twilio)
+        : unconfiguredTransport("twilio", "TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM");
+    case "whatsapp":
+      return config.whatsapp
+        ? whatsAppTransport(config.whatsapp)
+        : unconfiguredTransport("whatsapp", "WHATSAPP_PHONE_NUMBER_ID and WHATSAPP_ACCESS_TOKEN");
+  }
+}
+
+/** One attempt; the row is left sent, pending with the next retry time, or failed. */
+async function attemptDelivery(
+  client: SupabaseClient,
+  delivery: MessageDelivery,
+  transport: MessageTransport
+): Promise<{ data: MessageDelivery | null; error: unknown }> {
+  const result = await transport.send({
+    channel: delivery.channel,
+    to: delivery.recipient,
+    subject: delivery.subject ?? "",
+    text: delivery.body,
+  });
+
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+  const retryAt = !result.ok && result.retryable ? nextDeliveryAttemptAt(attempts, now) : null;
+
+  const { data, error } = await client
+    .from(MESSAGE_DELIVERIES_TABLE)
+    .update({
+      transport: transport.name,
+      attempts,
+      updated_at: now.toISOString(),
+      ...(result.ok
+        ? {
+            status: "sent",
+            sent_at: now.toISOString(),
+            provider_message_id: result.providerMessageId,
+            last_error: null,
+            next_attempt_at: null,
+          }
+        : { status: retryAt ? "pending" : "failed", last_error: result.error, next_attempt_at: retryAt }),
+    })
+    .eq("id", delivery.id)
+    .select("*")
+    .single();
+
+  if (error || !data) return { data: null, error };
+  return { data: mapMessageDeliveryRow(data as MessageDeliveryRow), error: null };
+}
+
+/**
+ * Send a templated message to each recipient now, logging every delivery.
+ * Invalid addresses are logged as failed rather than rejected, so one bad
+ * phone number doesn't stop a broadcast. Returns the new deliveries
+ * (recipients already sent this dedupe key are left out).
+ */
+export async function sendMessage<T extends MessageTemplateId>(
+  client: SupabaseClient,
+  input: SendMessageInput<T>,
+  config: MessagingConfig = messagingConfigFromEnv()
+): Promise<{ data: MessageDelivery[]; error: unknown }> {
+  const rendered = renderMessageTemplate(input.template, input.data);
+  const transport = transportFor(input.channel, config);
+  const now = new Date();
+
+  const seen = new Set<string>();
+  const rows = input.to.flatMap((raw) => {
+    const recipient = normalizeRecipient(input.channel, raw);
+    const key = recipient ?? raw.trim();
+    if (!key || seen.has(key)) return [];
+    seen.add(key);
+
+    return [
+      {
+        channel: input.channel,
+        transport: transport.name,
+        template: input.template,
+        recipient: key,
+        subject: input.channel === "email" ? rendered.subject : null,
+        body: rendered.text,
+        status: recipient ? "pending" : "failed",
+        attempts: 0,
+        last_error: recipient ? null : `Not a valid ${input.channel === "email" ? "email address" : "phone number"}`,
+        next_attempt_at: recipient ? new Date(now.getTime() + ATTEMPT_LEASE_MS).toISOString() : null,
+        source_table: input.sourceTable ?? null,
+        source_id: input.sourceId ?? null,
+        dedupe_key: input.dedupeKey ?? null,
+        created_by: input.createdBy ?? null,
+      },
+    ];
+  });
+  if (rows.length === 0) return { data: [], error: null };
+
+  const { data, error } = await client
+    .from(MESSAGE_DELIVERIES_TABLE)
+    .upsert(rows, { onConflict: "channel,recipient,dedupe_key", ignoreDuplicates: true })
+    .select("*");
+  if (error) return { data: [], error };
+
+  const created = ((data || []) as MessageDeliveryRow[]).map(mapMessageDeliveryRow);
+  const results = await Promise.all(
+    created.map((d) => (d.status === "pending" ? attemptDelivery(client, d, transport) : { data: d, error: null }))
+  );
+
+  const failed = results.find((r) => r.error);
+  return {
+    data: results.map((r, i) => r.data ?? created[i]),
+    error: failed ? failed.error : null,
+  };
+}
+
+/** Retry pending deliveries whose backoff has passed. */
+export async function retryDueMessageDeliveries(
+  client: SupabaseClient,
+  now: Date = new Date(),
+  config: MessagingConfig = messagingConfigFromEnv()
+): Promise<{ data: { attempted: number; sent: number }; error: unknown }> {
+  const due = await fetchDueMessageDeliveries(client, now);
+  if (due.error) return { data: { attempted: 0, sent: 0 }, error: due.error };
+
+  let attempted = 0;
+  let sent = 0;
+  for (const delivery of due.data) {
+    // Claim it first so an overlapping sweep doesn't send it twice
+    const claim = await client
+      .from(MESSAGE_DELIVERIES_TABLE)
+      .update({ next_attempt_at: new Date(now.getTime() + ATTEMPT_LEASE_MS).toISOString() })
+      .eq("id", delivery.id)
+      .eq("status", "pending")
+      .eq("next_attempt_at", delivery.nextAttemptAt)
+      .select("id");
+    if (claim.error) return { data: { attempted, sent }, error: claim.error };
+    if (!claim.data || claim.data.length === 0) continue;
+
+    const result = await attemptDelivery(client, delivery, transportFor(delivery.channel, config));
+    if (result.error) return { data: { attempted, sent }, error: result.error };
+    attempted += 1;
+    if (result.data?.status === "sent") sent += 1;
+  }
+
+  return { data: { attempted, sent }, error: null };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { ContainerRow, WorkerContribution } from "@/lib/domain/containers";
+import type { TimePunch } from "@/lib/domain/timeClock";
+import type { ContainerInput } from "@/lib/containerPricing";
+import {
+  applyMinuteCorrection,
+  buildMinutesReconciliation,
+  parseMinuteCorrectionInput,
+} from "@/lib/minutesReconciliation";
+
+function worker(name: string, workforceId: string | null, minutesWorked: number): WorkerContribution {
+  return { name, workforceId, minutesWorked, percentContribution: 50, payout: 0 };
+}
+
+function container(id: string, workers: WorkerContribution[]): ContainerRow {
+  return {
+    id,
+    created_at: "2026-10-19T14:00:00Z",
+    building: "DC1",
+    shift: "1st",
+    work_date: "2026-10-19",
+    container_no: `C-${id}`,
+    pieces_total: 1000,
+    skus_total: 10,
+    pay_total: 100,
+    workers,
+    damage_pieces: 0,
+    rework_pieces: 0,
+    work_order_id: null,
+    palletized: false,
+    pay_scale_id: null,
+    created_by_user_id: null,
+    created_by_email: null,
+    updated_at: null,
+  };
+}
+
+let seq = 0;
+function punch(workforceId: string, kind: TimePunch["kind"], punchedAt: string): TimePunch {
+  seq += 1;
+  return {
+    id: `p${seq}`,
+    createdAt: punchedAt,
+    createdByEmail: null,
+    workforceId,
+    workerName: workforceId,
+    building: "DC1",
+    shift: "1st",
+    date: "2026-10-19",
+    kind,
+    punchedAt,
+    source: "kiosk",
+  };
+}
+
+// 8h on the clock: 10:00 → 18:00 UTC
+const shift = (id: string) => [punch(id, "clock_in", "2026-10-19T10:00:00Z"), punch(id, "clock_out", "2026-10-19T18:00:00Z")];
+
+describe("buildMinutesReconciliation", () => {
+  const now = new Date("2026-10-20T12:00:00Z");
+
+  it("flags each worker-day against punched time", () => {
+    const rows = buildMinutesReconciliation(
+      [
+        container("1", [worker("Ana", "w-ana", 300), worker("Ben", "w-ben", 480)]),
+        container("2", [worker("Ana", "w-ana", 240), worker("Cara", "w-cara", 200), worker("Dee", null, 100)]),
+      ],
+      [...shift("w-ana"), ...shift("w-ben"), ...shift("w-eli")],
+      now
+    );
+    const byName = Object.fromEntries(rows.map((r) => [r.workerName, r]));
+
+    expect(byName.Ana).toMatchObject({ containerMinutes: 540, clockedMinutes: 480, differenceMinutes: 60 });
+    expect(byName.Ana.flag).toBe("over_allocated");
+    expect(byName.Ana.entries.map((e) => e.containerNo)).toEqual(["C-1", "C-2"]);
+    expect(byName.Ben.flag).toBe("ok");
+    expect(byName.Cara).toMatchObject({ clockedMinutes: null, flag: "no_punches" });
+    expect(byName.Dee.flag).toBe("unlinked");
+    expect(byName["w-eli"]).toMatchObject({ containerMinutes: 0, clockedMinutes: 480, flag: "clock_only" });
+  });
+
+  it("flags idle gaps past the threshold", () => {
+    const [row] = buildMinutesReconciliation([container("1", [worker("Ana", "w-ana", 400)])], shift("w-ana"), now);
+    expect(row).toMatchObject({ differenceMinutes: -80, flag: "idle_gap" });
+  });
+
+  it("counts an open clock-in up to now", () => {
+    const [row] = buildMinutesReconciliation(
+      [container("1", [worker("Ana", "w-ana", 60)])],
+      [punch("w-ana", "clock_in", "2026-10-19T10:00:00Z")],
+      new Date("2026-10-19T11:00:00Z")
+    );
+    expect(row).toMatchObject({ clockedMinutes: 60, clockOpen: true, flag: "ok" });
+  });
+});
+
+describe("parseMinuteCorrectionInput", () => {
+  const body = { container_id: "c1", worker_key: "wf:w-ana", expected_minutes: 300, minutes: 240, reason: "Left at 2pm" };
+
+  it("accepts a complete body", () => {
+    expect(parseMinuteCorrectionInput(body)).toEqual({
+      ok: true,
+      value: { containerId: "c1", workerKey: "wf:w-ana", expectedMinutes: 300, minutes: 240, reason: "Left at 2pm" },
+    });
+  });
+
+  it("requires a reason and sane minutes", () => {
+    expect(parseMinuteCorrectionInput({ ...body, reason: "  " })).toEqual({
+      ok: false,
+      error: "A reason is required for the audit trail",
+    });
+    expect(parseMinuteCorrectionInput({ ...body, minutes: -1 }).ok).toBe(false);
+    expect(parseMinuteCorrectionInput({ ...body, minutes: 2000 }).ok).toBe(false);
+    expect(parseMinuteCorrectionInput({ ...body, container_id: "" }).ok).toBe(false);
+  });
+});
+
+describe("applyMinuteCorrection", () => {
+  const input: ContainerInput = {
+    building: "DC1",
+    shift: "1st",
+    workDate: "2026-10-19",
+    containerNo: "C-1",
+    piecesTotal: 1000,
+    skusTotal: 10,
+    workOrderId: null,
+    palletized: false,
+    damagePieces: 0,
+    reworkPieces: 0,
+    workers: [
+      { name: "Ana", workforceId: "w-ana", minutesWorked: 300, percentContribution: 50 },
+      { name: "Dee", workforceId: null, minutesWorked: 100, percentContribution: 50 },
+    ],
+  };
+
+  it("changes only the matching worker's minutes", () => {
+    const result = applyMinuteCorrection(input, { workerKey: "dee", expectedMinutes: 100, minutes: 90 });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.value.workers.map((w) => w.minutesWorked)).toEqual([300, 90]);
+    expect(result.value.workers.map((w) => w.percentContribution)).toEqual([50, 50]);
+    expect(result.worker).toEqual({ name: "Dee", workforceId: null, oldMinutes: 100 });
+  });
+
+  it("refuses stale or unknown workers", () => {
+    const ana = applyMinuteCorrection(input, { workerKey: "wf:w-ana", expectedMinutes: 250, minutes: 240 });
+    expect(ana).toEqual({ ok: false, error: "Ana's minutes on this container changed to 300 since you loaded the report" });
+    expect(applyMinuteCorrection(input, { workerKey: "nobody", expectedMinutes: 0, minutes: 0 }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,272 @@
+// src/lib/minutesReconciliation.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { containerDateNY, contributionKey, type ContainerRow } from "@/lib/domain/containers";
+import { openClockIn, workedMinutes, type TimePunch } from "@/lib/domain/timeClock";
+import type { ContainerInput } from "@/lib/containerPricing";
+
+/**
+ * Container minutes vs the time clock, per worker per day. Production pay
+ * splits trust the `minutesWorked` leads type on each container; this lines
+ * them up with punched time so a manager can fix entries (each fix logged in
+ * `container_minute_corrections`) before the payroll week is approved.
+ */
+
+export const MINUTE_CORRECTIONS_TABLE = "container_minute_corrections";
+
+// More container minutes than this over clocked time is over-allocation
+export const OVER_ALLOCATION_TOLERANCE_MINUTES = 5;
+// More clocked time than this not on any container is an idle gap
+export const IDLE_GAP_MINUTES = 30;
+// One contribution can't claim more than a day
+export const MAX_CONTRIBUTION_MINUTES = 24 * 60;
+
+export type MinutesFlag =
+  | "ok"
+  | "over_allocated" // container minutes > clocked time
+  | "idle_gap" // clocked time not on any container
+  | "no_punches" // container minutes, never clocked in
+  | "unlinked" // contribution has no workforce id, so no punches to compare
+  | "clock_only"; // clocked in, no containers (e.g. hourly work)
+
+/** Flags a manager should look at before payroll is approved. */
+export const ACTIONABLE_MINUTES_FLAGS: readonly MinutesFlag[] = ["over_allocated", "idle_gap", "no_punches"];
+
+export type MinutesEntry = {
+  containerId: string;
+  containerNo: string;
+  building: string;
+  shift: string | null;
+  minutes: number;
+};
+
+export type MinutesReconciliationRow = {
+  key: string; // workerKey|date
+  workerKey: string; // contributionKey()
+  workforceId: string | null;
+  workerName: string;
+  date: string; // YYYY-MM-DD
+  buildings: string[];
+  containerMinutes: number;
+  clockedMinutes: number | null; // null without punches
+  differenceMinutes: number | null; // container − clocked
+  clockOpen: boolean; // still clocked in; clocked minutes count up to now
+  flag: MinutesFlag;
+  entries: MinutesEntry[];
+};
+
+export type MinuteCorrection = {
+  id: string;
+  createdAt: string;
+  createdByEmail: string | null;
+  containerId: string;
+  containerNo: string;
+  workDate: string;
+  building: string;
+  workerKey: string;
+  workerName: string;
+  workforceId: string | null;
+  oldMinutes: number;
+  newMinutes: number;
+  reason: string;
+};
+
+/** One row of the `container_minute_corrections` table. */
+export type MinuteCorrectionRow = {
+  id: string;
+  created_at: string;
+  created_by_email: string | null;
+  container_id: string;
+  container_no: string;
+  work_date: string;
+  building: string;
+  worker_key: string;
+  worker_name: string;
+  workforce_id: string | null;
+  old_minutes: number | string;
+  new_minutes: number | string;
+  reason: string;
+};
+
+export type MinuteCorrectionInput = {
+  containerId: string;
+  workerKey: string;
+  expectedMinutes: number; // what the manager saw; a mismatch means someone else edited it
+  minutes: number;
+  reason: string;
+};
+
+export type MinuteCorrectionParseResult = { ok: true; value: MinuteCorrectionInput } | { ok: false; error: string };
+
+export function mapMinuteCorrectionRow(row: MinuteCorrectionRow): MinuteCorrection {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email,
+    containerId: String(row.container_id),
+    containerNo: row.container_no,
+    workDate: String(row.work_date).slice(0, 10),
+    building: row.building,
+    workerKey: row.worker_key,
+    workerName: row.worker_name,
+    workforceId: row.workforce_id,
+    oldMinutes: Number(row.old_minutes) || 0,
+    newMinutes: Number(row.new_minutes) || 0,
+    reason: row.reason ?? "",
+  };
+}
+
+function flagFor(row: Omit<MinutesReconciliationRow, "flag">): MinutesFlag {
+  if (row.containerMinutes === 0) return "clock_only";
+  if (!row.workforceId) return "unlinked";
+  if (row.clockedMinutes === null) return "no_punches";
+  if (row.containerMinutes - row.clockedMinutes > OVER_ALLOCATION_TOLERANCE_MINUTES) return "over_allocated";
+  if (row.clockedMinutes - row.containerMinutes > IDLE_GAP_MINUTES) return "idle_gap";
+  return "ok";
+}
+
+/**
+ * One row per worker per day from container contributions and punches.
+ * Containers match punches by workforce id and date (a punch's date is its
+ * shift's date, like a container's work date).
+ */
+export function buildMinutesReconciliation(
+  containers: ContainerRow[],
+  punches: TimePunch[],
+  now: Date = new Date()
+): MinutesReconciliationRow[] {
+  type Draft = Omit<MinutesReconciliationRow, "flag" | "buildings"> & { buildingSet: Set<string> };
+  const rows = new Map<string, Draft>();
+
+  const draftFor = (workerKey: string, workforceId: string | null, workerName: string, date: string): Draft => {
+    const key = `${workerKey}|${date}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        workerKey,
+        workforceId,
+        workerName,
+        date,
+        buildingSet: new Set<string>(),
+        containerMinutes: 0,
+        clockedMinutes: null,
+        differenceMinutes: null,
+        clockOpen: false,
+        entries: [],
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const c of containers) {
+    const date = containerDateNY(c);
+    for (const w of c.workers) {
+      if (!w.name.trim() && !w.workforceId) continue;
+      const row = draftFor(contributionKey(w), w.workforceId, w.name.trim() || "Unknown worker", date);
+      if (c.building) row.buildingSet.add(c.building);
+      row.containerMinutes += w.minutesWorked;
+      row.entries.push({
+        containerId: c.id,
+        containerNo: c.container_no,
+        building: c.building,
+        shift: c.shift,
+        minutes: w.minutesWorked,
+      });
+    }
+  }
+
+  const punchesByWorkerDay = new Map<string, TimePunch[]>();
+  for (const p of punches) {
+    const key = `${p.workforceId}|${p.date}`;
+    punchesByWorkerDay.set(key, [...(punchesByWorkerDay.get(key) ?? []), p]);
+  }
+  for (const mine of punchesByWorkerDay.values()) {
+    const first = mine[0];
+    const workerKey = contributionKey({ name: first.workerName, workforceId: first.workforceId });
+    const row = draftFor(workerKey, first.workforceId, first.workerName, first.date);
+    row.buildingSet.add(first.building);
+    row.clockedMinutes = workedMinutes(mine, now);
+    row.clockOpen = openClockIn(mine, now) !== null;
+  }
+
+  return Array.from(rows.values())
+    .map(({ buildingSet, ...row }) => {
+      const differenceMinutes = row.clockedMinutes === null ? null : row.containerMinutes - row.clockedMinutes;
+      const full = { ...row, buildings: Array.from(buildingSet).sort(), differenceMinutes };
+      return { ...full, flag: flagFor(full) };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.workerName.localeCompare(b.workerName));
+}
+
+/** Validate a correction body from the API. */
+export function parseMinuteCorrectionInput(body: unknown): MinuteCorrectionParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const containerId = typeof b.container_id === "string" ? b.container_id.trim() : "";
+  if (!containerId) return { ok: false, error: "container_id is required" };
+
+  const workerKey = typeof b.worker_key === "string" ? b.worker_key.trim() : "";
+  if (!workerKey) return { ok: false, error: "worker_key is required" };
+
+  const expectedMinutes = Number(b.expected_minutes);
+  const minutes = Number(b.minutes);
+  if (!Number.isFinite(expectedMinutes)) return { ok: false, error: "expected_minutes is required" };
+  if (!Number.isFinite(minutes) || minutes < 0 || minutes > MAX_CONTRIBUTION_MINUTES) {
+    return { ok: false, error: `minutes must be between 0 and ${MAX_CONTRIBUTION_MINUTES}` };
+  }
+
+  const reason = typeof b.reason === "string" ? b.reason.trim() : "";
+  if (!reason) return { ok: false, error: "A reason is required for the audit trail" };
+
+  return { ok: true, value: { containerId, workerKey, expectedMinutes, minutes, reason } };
+}
+
+/**
+ * Set one contribution's minutes on a container (percentages and pay are
+ * untouched). Fails when the worker isn't on the container or their minutes
+ * changed since the manager loaded the report.
+ */
+export function applyMinuteCorrection(
+  input: ContainerInput,
+  correction: Pick<MinuteCorrectionInput, "workerKey" | "expectedMinutes" | "minutes">
+):
+  | { ok: true; value: ContainerInput; worker: { name: string; workforceId: string | null; oldMinutes: number } }
+  | { ok: false; error: string } {
+  const index = input.workers.findIndex((w) => contributionKey(w) === correction.workerKey);
+  if (index < 0) return { ok: false, error: "That worker is not on this container" };
+
+  const worker = input.workers[index];
+  if (Math.abs(worker.minutesWorked - correction.expectedMinutes) > 0.01) {
+    return {
+      ok: false,
+      error: `${worker.name}'s minutes on this container changed to ${worker.minutesWorked} since you loaded the report`,
+    };
+  }
+
+  const workers = input.workers.map((w, i) => (i === index ? { ...w, minutesWorked: correction.minutes } : w));
+  return {
+    ok: true,
+    value: { ...input, workers },
+    worker: { name: worker.name, workforceId: worker.workforceId, oldMinutes: worker.minutesWorked },
+  };
+}
+
+/** Newest first, for work dates in the range. */
+export async function fetchMinuteCorrections(
+  client: SupabaseClient,
+  filters: { from: string; to: string; building?: string | null }
+): Promise<{ data: MinuteCorrection[]; error: unknown }> {
+  let query = client
+    .from(MINUTE_CORRECTIONS_TABLE)
+    .select("*")
+    .gte("work_date", filters.from)
+    .lte("work_date", filters.to)
+    .order("created_at", { ascending: false });
+  if (filters.building) query = query.eq("building", filters.building);
+
+  const { data, error } = await query;
+  if (error) return { data: [], error };
+  return { data: ((data || []) as MinuteCorrectionRow[]).map(mapMinuteCorrectionRow), error: null };
+}
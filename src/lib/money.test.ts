@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { roundMoney, toNumber } from "@/lib/money";
+
+describe("money helpers", () => {
+  it("rounds to cents", () => {
+    expect(roundMoney(10.005 + 0.001)).toBe(10.01);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+
+  it("reads numeric strings and falls back on junk", () => {
+    expect(toNumber("12.50")).toBe(12.5);
+    expect(toNumber(null)).toBe(0);
+    expect(toNumber("n/a", 7)).toBe(7);
+  });
+});
@@ -0,0 +1,12 @@
+// src/lib/money.ts
+
+/** Round to whole cents. */
+export function roundMoney(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Numeric column values arrive as numbers or strings; anything unparseable becomes `fallback`. */
+export function toNumber(v: unknown, fallback = 0): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
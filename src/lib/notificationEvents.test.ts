@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { StartupChecklistRow } from "@/lib/domain/startupChecklists";
+import {
+  hiringStageEvent,
+  injurySubmittedEvent,
+  parseClientNotificationEvent,
+  trainingOverdueEvent,
+  trainingRecordsGoingOverdue,
+  unfinishedStartupChecklists,
+  type TrainingRecordSummary,
+} from "@/lib/notificationEvents";
+
+function training(partial: Partial<TrainingRecordSummary>): TrainingRecordSummary {
+  return {
+    id: "t-1",
+    building: "DC1",
+    role: "Lumper",
+    module_name: "Forklift Safety",
+    assignee_name: "Ana Lopez",
+    status: "Assigned",
+    due_date: "2026-10-15",
+    ...partial,
+  };
+}
+
+function checklist(partial: Partial<StartupChecklistRow>): StartupChecklistRow {
+  return {
+    id: "s-1",
+    created_at: "2026-10-19T06:00:00Z",
+    completed_at: null,
+    building: "DC1",
+    shift: "1st",
+    date: "2026-10-19",
+    items: {},
+    ...partial,
+  };
+}
+
+describe("parseClientNotificationEvent", () => {
+  it("accepts the events pages can raise", () => {
+    expect(parseClientNotificationEvent({ type: "injury.submitted", id: " r-1 " })).toEqual({
+      ok: true,
+      value: { type: "injury.submitted", id: "r-1", from: null },
+    });
+  });
+
+  it("rejects server-only types and stage moves without a from", () => {
+    expect(parseClientNotificationEvent({ type: "damage.reported", id: "d-1" }).ok).toBe(false);
+    expect(parseClientNotificationEvent({ type: "hiring.stage_changed", id: "c-1" })).toEqual({
+      ok: false,
+      error: "from is required for a stage change",
+    });
+  });
+});
+
+describe("event builders", () => {
+  it("describes an injury report and keys it by report", () => {
+    const e = injurySubmittedEvent(
+      {
+        id: "r-1",
+        building: "DC1",
+        shift: "2nd",
+        status: "Submitted",
+        employee_name: "Ben Cole",
+        incident_type: "Slip / Trip / Fall",
+      },
+      "lead@example.com"
+    );
+    expect(e).toMatchObject({
+      type: "injury.submitted",
+      title: "Injury report submitted: Ben Cole",
+      body: "Slip / Trip / Fall · DC1 · 2nd shift",
+      dedupe_key: "injury.submitted:r-1",
+      actorEmail: "lead@example.com",
+    });
+  });
+
+  it("keys overdue training by due date and stage moves by both stages", () => {
+    expect(trainingOverdueEvent(training({}), null).dedupe_key).toBe("training.overdue:t-1:2026-10-15");
+    const moved = hiringStageEvent({ id: "c-1", name: "Dee Park", building: "DC5", stage: "Offer" }, "Onsite Interview", null);
+    expect(moved).toMatchObject({
+      title: "Dee Park moved to Offer",
+      body: "Onsite Interview → Offer · DC5",
+      dedupe_key: "hiring.stage_changed:c-1:Onsite Interview:Offer",
+    });
+  });
+});
+
+describe("sweep checks", () => {
+  it("finds open training past its due date", () => {
+    const rows = [
+      training({ id: "t-1" }),
+      training({ id: "t-2", due_date: "2026-10-19" }),
+      training({ id: "t-3", status: "Completed" }),
+      training({ id: "t-4", status: "Overdue" }),
+      training({ id: "t-5", due_date: null }),
+      training({ id: "t-6", status: null }),
+    ];
+    expect(trainingRecordsGoingOverdue(rows, "2026-10-19").map((r) => r.id)).toEqual(["t-1", "t-6"]);
+  });
+
+  it("finds checklists still open after the grace period", () => {
+    const rows = [
+      checklist({ id: "s-1" }),
+      checklist({ id: "s-2", created_at: "2026-10-19T09:00:00Z" }),
+      checklist({ id: "s-3", completed_at: "2026-10-19T07:00:00Z" }),
+    ];
+    expect(unfinishedStartupChecklists(rows, new Date("2026-10-19T11:00:00Z")).map((r) => r.id)).toEqual(["s-1"]);
+  });
+});
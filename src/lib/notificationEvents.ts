@@ -0,0 +1,233 @@
+// src/lib/notificationEvents.ts
+import { DAMAGE_REPORTS_TABLE, type DamageReport } from "@/lib/domain/damageReports";
+import {
+  HAZARD_CATEGORY_LABELS,
+  HAZARD_REPORTS_TABLE,
+  HAZARD_REPORT_TYPE_LABELS,
+  HAZARD_SEVERITY_LABELS,
+  type HazardReport,
+} from "@/lib/domain/hazardReports";
+import type { CorrectiveAction } from "@/lib/domain/investigations";
+import type { BuildingNotificationEvent } from "@/lib/domain/notifications";
+import { STARTUP_CHECKLISTS_TABLE, type StartupChecklistRow } from "@/lib/domain/startupChecklists";
+
+/**
+ * Building notifications raised from the rest of the app, and the checks the
+ * sweep (/api/notifications/sweep) uses to find training that has gone
+ * overdue, startup checklists left open and corrective actions past due. Each event carries a dedupe key,
+ * so raising it again (a re-submit, the next sweep) notifies nobody twice.
+ */
+
+export const INJURY_REPORTS_TABLE = "injury_reports";
+export const TRAINING_RECORDS_TABLE = "training_records";
+export const HIRING_PIPELINE_TABLE = "hiring_pipeline";
+export const CORRECTIVE_ACTIONS_TABLE = "corrective_actions";
+
+// A checklist still open this long after it was started counts as unfinished
+export const CHECKLIST_GRACE_HOURS = 4;
+// The sweep only looks this far back
+export const SWEEP_LOOKBACK_DAYS = 7;
+
+/** Events a page can ask the server to raise after writing the row itself. */
+export const CLIENT_NOTIFICATION_EVENTS = ["injury.submitted", "training.overdue", "hiring.stage_changed"] as const;
+export type ClientNotificationEvent = (typeof CLIENT_NOTIFICATION_EVENTS)[number];
+
+export type ClientNotificationEventInput = { type: ClientNotificationEvent; id: string; from: string | null };
+
+export type ClientNotificationEventParseResult =
+  | { ok: true; value: ClientNotificationEventInput }
+  | { ok: false; error: string };
+
+/** The `injury_reports` columns the notification needs. */
+export type InjuryReportSummary = {
+  id: string;
+  building: string | null;
+  shift: string | null;
+  status: string | null;
+  employee_name: string | null;
+  incident_type: string | null;
+};
+
+/** The `training_records` columns the notification needs. */
+export type TrainingRecordSummary = {
+  id: string;
+  building: string | null;
+  role: string | null;
+  module_name: string | null;
+  assignee_name: string | null;
+  status: string | null;
+  due_date: string | null; // YYYY-MM-DD
+};
+
+/** The `hiring_pipeline` columns the notification needs. */
+export type HiringCandidateSummary = {
+  id: string;
+  name: string | null;
+  building: string | null;
+  stage: string | null;
+};
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+/** Validate `{ type, id, from? }`; `from` (the previous stage) is required for hiring moves. */
+export function parseClientNotificationEvent(body: unknown): ClientNotificationEventParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+
+  const type = text(b.type);
+  if (!(CLIENT_NOTIFICATION_EVENTS as readonly string[]).includes(type)) {
+    return { ok: false, error: `type must be one of: ${CLIENT_NOTIFICATION_EVENTS.join(", ")}` };
+  }
+  const id = text(b.id);
+  if (!id) return { ok: false, error: "id is required" };
+
+  const from = text(b.from) || null;
+  if (type === "hiring.stage_changed" && !from) return { ok: false, error: "from is required for a stage change" };
+
+  return { ok: true, value: { type: type as ClientNotificationEvent, id, from } };
+}
+
+function shiftLabel(building: string | null, shift: string | null): string {
+  return [building, shift ? `${shift} shift` : null].filter(Boolean).join(" · ");
+}
+
+export function injurySubmittedEvent(report: InjuryReportSummary, actorEmail: string | null): BuildingNotificationEvent {
+  return {
+    type: "injury.submitted",
+    title: `Injury report submitted: ${report.employee_name || "Unnamed employee"}`,
+    body: [report.incident_type, shiftLabel(report.building, report.shift)].filter(Boolean).join(" · ") || null,
+    link: "/injury-report",
+    building: report.building,
+    source_table: INJURY_REPORTS_TABLE,
+    source_id: report.id,
+    dedupe_key: `injury.submitted:${report.id}`,
+    actorEmail,
+  };
+}
+
+export function damageReportedEvent(report: DamageReport, actorEmail: string | null): BuildingNotificationEvent {
+  return {
+    type: "damage.reported",
+    title: `Damage reported on container ${report.containerNo}`,
+    body: `${report.piecesDamaged} of ${report.piecesTotal} pieces damaged · ${shiftLabel(report.building, report.shift)}`,
+    link: "/damage-reports",
+    building: report.building,
+    source_table: DAMAGE_REPORTS_TABLE,
+    source_id: report.id,
+    dedupe_key: `damage.reported:${report.id}`,
+    actorEmail,
+  };
+}
+
+// An anonymous report passes no actor: the reporter's email doesn't leave the route
+export function hazardReportedEvent(report: HazardReport, actorEmail: string | null): BuildingNotificationEvent {
+  return {
+    type: "hazard.reported",
+    title: `${HAZARD_REPORT_TYPE_LABELS[report.reportType]} reported: ${HAZARD_CATEGORY_LABELS[report.category]}`,
+    body: [`${HAZARD_SEVERITY_LABELS[report.severity]} severity`, report.location, shiftLabel(report.building, report.shift)]
+      .filter(Boolean)
+      .join(" · "),
+    link: "/hazard-reports",
+    building: report.building,
+    source_table: HAZARD_REPORTS_TABLE,
+    source_id: report.id,
+    dedupe_key: `hazard.reported:${report.id}`,
+    actorEmail: report.anonymous ? null : actorEmail,
+  };
+}
+
+// Keyed by due date: moved out and missed again → notified again
+export function trainingOverdueEvent(record: TrainingRecordSummary, actorEmail: string | null): BuildingNotificationEvent {
+  return {
+    type: "training.overdue",
+    title: `Training overdue: ${record.module_name || "Training"}${record.assignee_name ? ` — ${record.assignee_name}` : ""}`,
+    body: [record.due_date ? `Due ${record.due_date}` : null, record.role, record.building].filter(Boolean).join(" · ") || null,
+    link: "/training",
+    building: record.building,
+    source_table: TRAINING_RECORDS_TABLE,
+    source_id: record.id,
+    dedupe_key: `training.overdue:${record.id}:${record.due_date ?? ""}`,
+    actorEmail,
+  };
+}
+
+export function hiringStageEvent(
+  candidate: HiringCandidateSummary,
+  from: string,
+  actorEmail: string | null
+): BuildingNotificationEvent {
+  const stage = candidate.stage || "Applied";
+  return {
+    type: "hiring.stage_changed",
+    title: `${candidate.name || "Candidate"} moved to ${stage}`,
+    body: [`${from} → ${stage}`, candidate.building].filter(Boolean).join(" · "),
+    link: "/hiring",
+    building: candidate.building,
+    source_table: HIRING_PIPELINE_TABLE,
+    source_id: candidate.id,
+    dedupe_key: `hiring.stage_changed:${candidate.id}:${from}:${stage}`,
+    actorEmail,
+  };
+}
+
+export function checklistUnfinishedEvent(row: StartupChecklistRow): BuildingNotificationEvent {
+  return {
+    type: "checklist.unfinished",
+    title: `Startup checklist not finished: ${shiftLabel(row.building, row.shift)}`,
+    body: row.date ? `Started for ${row.date} and still open` : "Started and still open",
+    link: "/startup-checklists",
+    building: row.building,
+    source_table: STARTUP_CHECKLISTS_TABLE,
+    source_id: row.id,
+    dedupe_key: `checklist.unfinished:${row.id}`,
+    actorEmail: null,
+  };
+}
+
+// Keyed by due date, like training: a new due date that's missed notifies again
+export function capaOverdueEvent(action: CorrectiveAction): BuildingNotificationEvent {
+  return {
+    type: "capa.overdue",
+    title: `Corrective action overdue: ${action.description}`,
+    body: [`Owner ${action.ownerName}`, `Due ${action.dueDate}`, action.building].join(" · "),
+    link: `/investigations?id=${action.investigationId}`,
+    building: action.building,
+    source_table: CORRECTIVE_ACTIONS_TABLE,
+    source_id: action.id,
+    dedupe_key: `capa.overdue:${action.id}:${action.dueDate}`,
+    actorEmail: null,
+  };
+}
+
+export function capaEscalatedEvent(action: CorrectiveAction, daysOverdue: number): BuildingNotificationEvent {
+  return {
+    type: "capa.escalated",
+    title: `Escalated: corrective action ${daysOverdue} days overdue`,
+    body: [action.description, `Owner ${action.ownerName}`, `Due ${action.dueDate}`, action.building].join(" · "),
+    link: `/investigations?id=${action.investigationId}`,
+    building: action.building,
+    source_table: CORRECTIVE_ACTIONS_TABLE,
+    source_id: action.id,
+    dedupe_key: `capa.escalated:${action.id}:${action.dueDate}`,
+    actorEmail: null,
+  };
+}
+
+/** Not completed and past the due date, but not marked Overdue yet. `today` is YYYY-MM-DD. */
+export function trainingRecordsGoingOverdue(rows: TrainingRecordSummary[], today: string): TrainingRecordSummary[] {
+  return rows.filter(
+    (r) => !!r.due_date && r.due_date < today && r.status !== "Completed" && r.status !== "Overdue"
+  );
+}
+
+/** Started more than CHECKLIST_GRACE_HOURS ago and never completed. */
+export function unfinishedStartupChecklists(rows: StartupChecklistRow[], now: Date = new Date()): StartupChecklistRow[] {
+  const cutoff = now.getTime() - CHECKLIST_GRACE_HOURS * 60 * 60 * 1000;
+  return rows.filter((r) => {
+    if (r.completed_at) return false;
+    const started = Date.parse(r.created_at);
+    return !Number.isNaN(started) && started <= cutoff;
+  });
+}
@@ -0,0 +1,21 @@
+// src/lib/notificationsClient.ts
+// Browser-only helpers for raising notifications from pages that write rows directly.
+import { apiErrorMessage, apiFetch } from "@/lib/apiClient";
+import type { ClientNotificationEvent } from "@/lib/notificationEvents";
+
+/**
+ * Ask the server to notify about a row this page just saved (an injury report
+ * submitted, training marked Overdue, a candidate moved). Like the injury
+ * email, it never blocks the page; failures are only logged.
+ */
+export async function reportNotificationEvent(type: ClientNotificationEvent, id: string, from?: string): Promise<void> {
+  try {
+    const res = await apiFetch("/api/notifications/events", {
+      method: "POST",
+      body: JSON.stringify({ type, id, ...(from ? { from } : {}) }),
+    });
+    if (!res.ok) console.warn(`${type} notification failed:`, await apiErrorMessage(res, res.statusText));
+  } catch (e) {
+    console.warn(`${type} notification failed:`, e);
+  }
+}
@@ -0,0 +1,236 @@
+// src/lib/offlineQueue.ts
+// Browser-only: IndexedDB queue of writes made while the dock has no signal.
+import { apiFetch } from "@/lib/apiClient";
+import {
+  applyReplayResult,
+  coalesceWrite,
+  replayHeaders,
+  type QueuedWrite,
+  type QueuedWriteKind,
+} from "@/lib/syncProtocol";
+
+/**
+ * Pages save through saveOrQueue(). Online it is a plain apiFetch; when the
+ * browser is offline or the request never reaches the server, the write is
+ * stored here and replayed later — by public/sw.js on Background Sync, or by
+ * replayQueuedWrites() when the page sees the connection come back.
+ *
+ * The database layout below is shared with public/sw.js.
+ */
+
+export const OFFLINE_DB_NAME = "precisionpulse_offline";
+const OFFLINE_DB_VERSION = 1;
+const WRITES_STORE = "writes";
+const META_STORE = "meta";
+
+// The service worker replays with the last access token the page saw
+const ACCESS_TOKEN_META_KEY = "accessToken";
+
+export const SYNC_TAG = "precisionpulse-sync";
+
+// Window event (and service worker message type) whenever the queue changes
+export const QUEUE_CHANGED_EVENT = "precisionpulse:queue-changed";
+
+export type SaveResult = { queued: false; res: Response } | { queued: true; write: QueuedWrite };
+
+export type WriteRequest = {
+  kind: QueuedWriteKind;
+  label: string;
+  method: "POST" | "PATCH";
+  url: string;
+  body: unknown;
+  baseUpdatedAt?: string | null;
+};
+
+function offlineSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openOfflineDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(WRITES_STORE)) db.createObjectStore(WRITES_STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "key" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  run: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openOfflineDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(store, mode);
+      const req = run(tx.objectStore(store));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifyQueueChanged(): void {
+  if (typeof window !== "undefined") window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+}
+
+/** Oldest first, which is the order they replay in. */
+export async function listQueuedWrites(): Promise<QueuedWrite[]> {
+  if (!offlineSupported()) return [];
+  const rows = await withStore<QueuedWrite[]>(WRITES_STORE, "readonly", (s) => s.getAll());
+  return rows.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+async function putQueuedWrite(write: QueuedWrite): Promise<void> {
+  await withStore(WRITES_STORE, "readwrite", (s) => s.put(write));
+}
+
+export async function removeQueuedWrite(id: string): Promise<void> {
+  await withStore(WRITES_STORE, "readwrite", (s) => s.delete(id));
+  notifyQueueChanged();
+}
+
+/** Keep the service worker's copy of the access token current (null on sign-out). */
+export async function saveSyncToken(token: string | null): Promise<void> {
+  if (!offlineSupported()) return;
+  await withStore(META_STORE, "readwrite", (s) => s.put({ key: ACCESS_TOKEN_META_KEY, value: token }));
+}
+
+/** Ask the service worker for a Background Sync; false when the browser has none. */
+export async function requestBackgroundSync(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return false;
+  try {
+    const reg = (await navigator.serviceWorker.ready) as ServiceWorkerRegistration & {
+      sync?: { register(tag: string): Promise<void> };
+    };
+    if (!reg.sync) return false;
+    await reg.sync.register(SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function enqueue(request: WriteRequest, id: string): Promise<QueuedWrite> {
+  const next: QueuedWrite = {
+    id,
+    kind: request.kind,
+    label: request.label,
+    method: request.method,
+    url: request.url,
+    body: request.body,
+    baseUpdatedAt: request.baseUpdatedAt ?? null,
+    queuedAt: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    serverRecord: null,
+  };
+
+  const write = coalesceWrite(await listQueuedWrites(), next);
+  await putQueuedWrite(write);
+  notifyQueueChanged();
+
+  if (!(await requestBackgroundSync()) && navigator.onLine) void replayQueuedWrites();
+  return write;
+}
+
+/**
+ * apiFetch(), or queue the write when it can't reach the server. A create's
+ * Idempotency-Key is fixed up front, so a request that did land before the
+ * connection dropped isn't inserted twice when the queue replays it.
+ */
+export async function saveOrQueue(request: WriteRequest): Promise<SaveResult> {
+  const id = crypto.randomUUID();
+  const headers = replayHeaders({ id, method: request.method, baseUpdatedAt: request.baseUpdatedAt ?? null });
+
+  if (offlineSupported() && !navigator.onLine) {
+    return { queued: true, write: await enqueue(request, id) };
+  }
+
+  try {
+    const res = await apiFetch(request.url, { method: request.method, headers, body: JSON.stringify(request.body) });
+    return { queued: false, res };
+  } catch (e) {
+    // fetch() only rejects when the request never got a response
+    if (!offlineSupported()) throw e;
+    console.warn("Write failed to reach the server — queued for sync", e);
+    return { queued: true, write: await enqueue(request, id) };
+  }
+}
+
+async function replayOnce(): Promise<void> {
+  for (const write of await listQueuedWrites()) {
+    if (write.status !== "pending") continue;
+
+    let res: Response;
+    try {
+      res = await apiFetch(write.url, {
+        method: write.method,
+        headers: replayHeaders(write),
+        body: JSON.stringify(write.body),
+      });
+    } catch {
+      return; // still offline — try again later
+    }
+
+    const next = applyReplayResult(write, res.status, res.ok ? null : await res.json().catch(() => null));
+
+    if (next) await putQueuedWrite(next);
+    else await withStore(WRITES_STORE, "readwrite", (s) => s.delete(write.id));
+    notifyQueueChanged();
+
+    // Keep order: later writes may depend on this one
+    if (next?.status === "pending") return;
+  }
+}
+
+/**
+ * Replay pending writes from the page (browsers without Background Sync, or
+ * "Sync now"). Shares a Web Lock with the service worker so a write is never
+ * sent by both at once.
+ */
+export async function replayQueuedWrites(): Promise<void> {
+  if (!offlineSupported()) return;
+  const locks = (navigator as Navigator & { locks?: LockManager }).locks;
+  if (locks) await locks.request(SYNC_TAG, replayOnce);
+  else await replayOnce();
+}
+
+/**
+ * Conflicts: "discard" drops the queued write; "overwrite" sends it again
+ * against the server's current version, replacing the other change.
+ */
+export async function resolveConflict(write: QueuedWrite, resolution: "discard" | "overwrite"): Promise<void> {
+  if (resolution === "discard") {
+    await removeQueuedWrite(write.id);
+    return;
+  }
+
+  const current = (write.serverRecord ?? {}) as { updated_at?: unknown; updatedAt?: unknown };
+  const version = current.updated_at ?? current.updatedAt;
+  await putQueuedWrite({
+    ...write,
+    status: "pending",
+    lastError: null,
+    serverRecord: null,
+    baseUpdatedAt: typeof version === "string" ? version : write.baseUpdatedAt,
+  });
+  notifyQueueChanged();
+  await replayQueuedWrites();
+}
+
+/** Send a failed write again as it is (e.g. after fixing access or a payroll lock). */
+export async function retryQueuedWrite(write: QueuedWrite): Promise<void> {
+  await putQueuedWrite({ ...write, status: "pending", lastError: null });
+  notifyQueueChanged();
+  await replayQueuedWrites();
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildOsha300ASummary,
+  buildOshaLog,
+  countedDays,
+  fetchOshaReports,
+  osha300ACsv,
+  osha300Csv,
+  oshaOutcome,
+  parseRecordabilityInput,
+  suggestRecordability,
+  type InjuryRecordkeepingRow,
+} from "@/lib/osha";
+import { createSupabaseStub } from "@/test/supabaseStub";
+
+let seq = 0;
+function report(overrides: Partial<InjuryRecordkeepingRow> = {}): InjuryRecordkeepingRow {
+  seq += 1;
+  return {
+    id: `r${seq}`,
+    building: "DC1",
+    shift: "1st",
+    status: "Submitted",
+    employee_name: "Ana Lopez",
+    employee_job_title: "Unloader",
+    employee_dob: "1990-04-02",
+    incident_datetime: "2026-03-10T15:30:00.000Z",
+    incident_location: "Dock 4",
+    incident_area: "Trailer",
+    incident_type: "Strain / Sprain",
+    body_part: "Back",
+    injury_description: "Lifted a carton",
+    immediate_actions: "Rested",
+    first_aid_given: true,
+    ems_called: false,
+    sent_to_clinic: false,
+    clinic_name: null,
+    medical_refused: false,
+    employee_statement: null,
+    reported_by_name: "Lead One",
+    recordability: null,
+    osha_injury_type: "injury",
+    days_away: 0,
+    days_restricted: 0,
+    fatality: false,
+    privacy_case: false,
+    ...overrides,
+  };
+}
+
+describe("suggestRecordability", () => {
+  it("reads treatment and time lost from the report", () => {
+    expect(suggestRecordability(report())).toBe("first_aid");
+    expect(suggestRecordability(report({ sent_to_clinic: true }))).toBe("recordable");
+    expect(suggestRecordability(report({ sent_to_clinic: true, medical_refused: true }))).toBe("first_aid");
+    expect(suggestRecordability(report({ days_restricted: 3 }))).toBe("recordable");
+    expect(suggestRecordability(report({ days_away: 2 }))).toBe("lost_time");
+  });
+});
+
+describe("oshaOutcome", () => {
+  it("picks one of columns G–J for recordable cases only", () => {
+    expect(oshaOutcome(report({ recordability: "first_aid" }))).toBeNull();
+    expect(oshaOutcome(report())).toBeNull();
+    expect(oshaOutcome(report({ recordability: "recordable" }))).toBe("other_recordable");
+    expect(oshaOutcome(report({ recordability: "recordable", days_restricted: 4 }))).toBe("job_transfer");
+    expect(oshaOutcome(report({ recordability: "lost_time", days_restricted: 4 }))).toBe("days_away");
+    expect(oshaOutcome(report({ recordability: "recordable", fatality: true }))).toBe("death");
+  });
+});
+
+describe("countedDays", () => {
+  it("stops counting at 180 days combined", () => {
+    expect(countedDays(10, 5)).toEqual({ daysAway: 10, daysRestricted: 5 });
+    expect(countedDays(150, 60)).toEqual({ daysAway: 150, daysRestricted: 30 });
+    expect(countedDays(200, 10)).toEqual({ daysAway: 180, daysRestricted: 0 });
+  });
+});
+
+describe("parseRecordabilityInput", () => {
+  it("accepts a classification", () => {
+    expect(parseRecordabilityInput({ recordability: "lost_time", days_away: 3, privacy_case: true })).toEqual({
+      ok: true,
+      value: {
+        recordability: "lost_time",
+        osha_injury_type: "injury",
+        days_away: 3,
+        days_restricted: 0,
+        fatality: false,
+        privacy_case: true,
+      },
+    });
+  });
+
+  it("rejects unknown values and contradictions", () => {
+    expect(parseRecordabilityInput({ recordability: "maybe" }).ok).toBe(false);
+    expect(parseRecordabilityInput({ recordability: "recordable", osha_injury_type: "flu" }).ok).toBe(false);
+    expect(parseRecordabilityInput({ recordability: "recordable", days_away: -1 }).ok).toBe(false);
+    expect(parseRecordabilityInput({ recordability: "recordable", days_away: 1.5 }).ok).toBe(false);
+    expect(parseRecordabilityInput({ recordability: "first_aid", days_away: 2 })).toEqual({
+      ok: false,
+      error: "A first-aid-only case can't have days away, restricted days or a fatality",
+    });
+  });
+});
+
+describe("buildOshaLog", () => {
+  const rows = [
+    report({ id: "late", recordability: "recordable", incident_datetime: "2026-06-01T12:00:00.000Z", days_restricted: 5 }),
+    report({ id: "early", recordability: "lost_time", incident_datetime: "2026-02-01T12:00:00.000Z", days_away: 12 }),
+    report({ id: "private", recordability: "recordable", privacy_case: true, osha_injury_type: "skin_disorder" }),
+    report({ id: "first-aid", recordability: "first_aid" }),
+    report({ id: "pending", recordability: null }),
+    // New Year's Eve in New York is still 2025
+    report({ id: "last-year", recordability: "recordable", incident_datetime: "2026-01-01T03:00:00.000Z" }),
+    report({ id: "other-building", recordability: "recordable", building: "DC5" }),
+  ];
+
+  it("numbers recordable cases in incident order", () => {
+    const log = buildOshaLog(rows, "DC1", 2026);
+    expect(log.cases.map((c) => [c.caseNo, c.reportId, c.outcome])).toEqual([
+      ["2026-001", "early", "days_away"],
+      ["2026-002", "private", "other_recordable"],
+      ["2026-003", "late", "job_transfer"],
+    ]);
+    expect(log.unclassified).toBe(1);
+  });
+
+  it("withholds privacy case names on the 300 but not the 301", () => {
+    const log = buildOshaLog(rows, "DC1", 2026);
+    expect(log.cases[1]).toMatchObject({ employeeName: "Privacy case", injuryType: "skin_disorder" });
+    expect(log.incidents[1]).toMatchObject({ employeeName: "Ana Lopez", incidentDate: "2026-03-10", incidentTime: "11:30" });
+    expect(log.cases[0].description).toBe("Strain / Sprain, Back: Lifted a carton");
+    expect(log.cases[0].location).toBe("Dock 4 — Trailer");
+  });
+});
+
+describe("buildOsha300ASummary", () => {
+  const { cases } = buildOshaLog(
+    [
+      report({ recordability: "lost_time", days_away: 10 }),
+      report({ recordability: "recordable", days_restricted: 4 }),
+      report({ recordability: "recordable", osha_injury_type: "hearing_loss" }),
+    ],
+    "DC1",
+    2026
+  );
+
+  it("totals the columns and incidence rates", () => {
+    const summary = buildOsha300ASummary(cases, { building: "DC1", year: 2026, averageEmployees: 50, hoursWorked: 100_000 });
+    expect(summary).toMatchObject({
+      deaths: 0,
+      daysAwayCases: 1,
+      jobTransferCases: 1,
+      otherRecordableCases: 1,
+      totalDaysAway: 10,
+      totalDaysRestricted: 4,
+      totalRecordableRate: 6,
+      dartRate: 4,
+    });
+    expect(summary.injuryTypes).toMatchObject({ injury: 2, hearing_loss: 1, respiratory: 0 });
+  });
+
+  it("leaves rates blank without hours worked", () => {
+    const summary = buildOsha300ASummary(cases, { building: "DC1", year: 2026, averageEmployees: null, hoursWorked: null });
+    expect(summary.totalRecordableRate).toBeNull();
+    expect(osha300ACsv(summary).rows).toContainEqual(["Total hours worked by all employees", ""]);
+  });
+});
+
+describe("osha300Csv", () => {
+  it("checks one outcome column and one type column per case", () => {
+    const { cases } = buildOshaLog([report({ recordability: "recordable", days_restricted: 2 })], "DC1", 2026);
+    const csv = osha300Csv(cases, "DC1", 2026);
+    expect(csv.filename).toBe("osha-300-DC1-2026.csv");
+    expect(csv.header).toHaveLength(18);
+    expect(csv.rows[0].slice(6)).toEqual(["", "", "X", "", 0, 2, "X", "", "", "", "", ""]);
+  });
+});
+
+describe("fetchOshaReports", () => {
+  it("limits to the building and New York calendar year", async () => {
+    const stub = createSupabaseStub({
+      injury_reports: [
+        report({ id: "in", incident_datetime: "2026-01-01T06:00:00.000Z" }),
+        report({ id: "before", incident_datetime: "2026-01-01T04:00:00.000Z" }),
+        report({ id: "after", incident_datetime: "2027-01-01T05:00:00.000Z" }),
+        report({ id: "elsewhere", building: "DC5" }),
+      ],
+    });
+    const { data, error } = await fetchOshaReports(stub.client, "DC1", 2026);
+    expect(error).toBeNull();
+    expect(data.map((r) => r.id)).toEqual(["in"]);
+  });
+});
@@ -0,0 +1,476 @@
+// src/lib/osha.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CsvCell } from "@/lib/csv";
+import { INJURY_REPORTS_TABLE } from "@/lib/notificationEvents";
+import { nyDateTime, nyWallTimeToDate, toNYDateOnly } from "@/lib/time";
+
+/**
+ * OSHA injury and illness recordkeeping built from injury reports. HR / safety
+ * classify each report (first aid only, recordable, lost time) and track days
+ * away and on restricted duty; recordable cases for a building (the
+ * establishment) and calendar year make up the OSHA 300 log, the 300A annual
+ * summary and the 301 incident detail. Reports nobody has classified yet are
+ * counted so they don't go missing from the year's log.
+ */
+
+export const RECORDABILITY = ["first_aid", "recordable", "lost_time"] as const;
+export type Recordability = (typeof RECORDABILITY)[number];
+
+export const RECORDABILITY_LABELS: Record<Recordability, string> = {
+  first_aid: "First aid only",
+  recordable: "Recordable",
+  lost_time: "Lost time",
+};
+
+// Column M of the 300 log
+export const OSHA_INJURY_TYPES = [
+  "injury",
+  "skin_disorder",
+  "respiratory",
+  "poisoning",
+  "hearing_loss",
+  "other_illness",
+] as const;
+export type OshaInjuryType = (typeof OSHA_INJURY_TYPES)[number];
+
+export const OSHA_INJURY_TYPE_LABELS: Record<OshaInjuryType, string> = {
+  injury: "Injury",
+  skin_disorder: "Skin disorder",
+  respiratory: "Respiratory condition",
+  poisoning: "Poisoning",
+  hearing_loss: "Hearing loss",
+  other_illness: "All other illnesses",
+};
+
+// Columns G–J of the 300 log; a case is checked in exactly one
+export type OshaOutcome = "death" | "days_away" | "job_transfer" | "other_recordable";
+
+export const OSHA_OUTCOME_LABELS: Record<OshaOutcome, string> = {
+  death: "Death",
+  days_away: "Days away from work",
+  job_transfer: "Job transfer or restriction",
+  other_recordable: "Other recordable case",
+};
+
+// OSHA lets you stop counting once days away + restricted reach 180
+export const OSHA_MAX_COUNTED_DAYS = 180;
+
+// Hours 100 full-time workers put in over a year, the base for incidence rates
+export const OSHA_RATE_BASE_HOURS = 200_000;
+
+/** The `injury_reports` columns set by classification, never by the report form. */
+export const RECORDKEEPING_COLUMNS = [
+  "recordability",
+  "osha_injury_type",
+  "days_away",
+  "days_restricted",
+  "fatality",
+  "privacy_case",
+  "recordability_set_by_email",
+  "recordability_set_at",
+] as const;
+
+/** The `injury_reports` columns recordkeeping reads. */
+export type InjuryRecordkeepingRow = {
+  id: string;
+  building: string;
+  shift: string | null;
+  status: string | null;
+  employee_name: string;
+  employee_job_title: string | null;
+  employee_dob: string | null;
+  incident_datetime: string;
+  incident_location: string;
+  incident_area: string | null;
+  incident_type: string;
+  body_part: string;
+  injury_description: string;
+  immediate_actions: string | null;
+  first_aid_given: boolean | null;
+  ems_called: boolean | null;
+  sent_to_clinic: boolean | null;
+  clinic_name: string | null;
+  medical_refused: boolean | null;
+  employee_statement: string | null;
+  reported_by_name: string | null;
+  recordability?: string | null;
+  osha_injury_type?: string | null;
+  days_away?: number | null;
+  days_restricted?: number | null;
+  fatality?: boolean | null;
+  privacy_case?: boolean | null;
+};
+
+/** Columns written when a report is classified. */
+export type RecordabilityInput = {
+  recordability: Recordability;
+  osha_injury_type: OshaInjuryType;
+  days_away: number;
+  days_restricted: number;
+  fatality: boolean;
+  privacy_case: boolean;
+};
+
+export type RecordabilityParseResult = { ok: true; value: RecordabilityInput } | { ok: false; error: string };
+
+/** One line of the OSHA 300 log. */
+export type Osha300Case = {
+  caseNo: string;
+  reportId: string;
+  employeeName: string; // "Privacy case" when withheld
+  jobTitle: string;
+  incidentDate: string; // YYYY-MM-DD (New York)
+  location: string;
+  description: string; // injury, body part, and what caused it
+  outcome: OshaOutcome;
+  daysAway: number;
+  daysRestricted: number;
+  injuryType: OshaInjuryType;
+};
+
+/** The 301-equivalent incident detail for one case (never withholds the name). */
+export type Osha301Incident = {
+  caseNo: string;
+  reportId: string;
+  employeeName: string;
+  jobTitle: string;
+  dateOfBirth: string;
+  incidentDate: string;
+  incidentTime: string; // HH:mm (New York)
+  location: string;
+  whatHappened: string;
+  injury: string;
+  bodyPart: string;
+  firstAid: boolean;
+  treatmentFacility: string;
+  emergencyServices: boolean;
+  employeeStatement: string;
+  preparedBy: string;
+  outcome: OshaOutcome;
+  daysAway: number;
+  daysRestricted: number;
+};
+
+/** Establishment figures the 300A asks for that the app doesn't track. */
+export type OshaEstablishment = {
+  building: string;
+  year: number;
+  averageEmployees: number | null;
+  hoursWorked: number | null;
+};
+
+/** The OSHA 300A annual summary. */
+export type Osha300ASummary = OshaEstablishment & {
+  deaths: number;
+  daysAwayCases: number;
+  jobTransferCases: number;
+  otherRecordableCases: number;
+  totalDaysAway: number;
+  totalDaysRestricted: number;
+  injuryTypes: Record<OshaInjuryType, number>;
+  totalRecordableRate: number | null; // cases per 100 full-time workers
+  dartRate: number | null; // days away / restricted / transferred cases per 100
+};
+
+export type OshaLog = {
+  cases: Osha300Case[];
+  incidents: Osha301Incident[];
+  unclassified: number; // reports in the year nobody has classified yet
+};
+
+export type OshaCsv = { filename: string; header: string[]; rows: CsvCell[][] };
+
+export function isRecordability(v: unknown): v is Recordability {
+  return typeof v === "string" && (RECORDABILITY as readonly string[]).includes(v);
+}
+
+export function isOshaInjuryType(v: unknown): v is OshaInjuryType {
+  return typeof v === "string" && (OSHA_INJURY_TYPES as readonly string[]).includes(v);
+}
+
+function wholeDays(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+/** Days away and restricted as logged: together never past OSHA_MAX_COUNTED_DAYS. */
+export function countedDays(daysAway: number, daysRestricted: number): { daysAway: number; daysRestricted: number } {
+  const away = Math.min(wholeDays(daysAway), OSHA_MAX_COUNTED_DAYS);
+  return { daysAway: away, daysRestricted: Math.min(wholeDays(daysRestricted), OSHA_MAX_COUNTED_DAYS - away) };
+}
+
+/**
+ * A starting point for HR, from what the reporter captured: treatment at a
+ * clinic or by EMS usually goes beyond first aid. The classification itself
+ * is always a person's call.
+ */
+export function suggestRecordability(row: InjuryRecordkeepingRow): Recordability {
+  if (wholeDays(row.days_away) > 0) return "lost_time";
+  if (row.fatality || wholeDays(row.days_restricted) > 0) return "recordable";
+  if ((row.sent_to_clinic || row.ems_called) && !row.medical_refused) return "recordable";
+  return "first_aid";
+}
+
+/** Which of columns G–J the case goes in; null when it isn't on the 300 log. */
+export function oshaOutcome(row: InjuryRecordkeepingRow): OshaOutcome | null {
+  if (row.recordability !== "recordable" && row.recordability !== "lost_time") return null;
+  if (row.fatality) return "death";
+  if (row.recordability === "lost_time" || wholeDays(row.days_away) > 0) return "days_away";
+  if (wholeDays(row.days_restricted) > 0) return "job_transfer";
+  return "other_recordable";
+}
+
+export function parseRecordabilityInput(body: unknown): RecordabilityParseResult {
+  const b = body && typeof body === "object" ? (body as Record<string, unknown>) : null;
+  if (!b) return { ok: false, error: "Invalid JSON body" };
+
+  if (!isRecordability(b.recordability)) {
+    return { ok: false, error: `recordability must be one of: ${RECORDABILITY.join(", ")}` };
+  }
+  const injuryType = b.osha_injury_type ?? "injury";
+  if (!isOshaInjuryType(injuryType)) {
+    return { ok: false, error: `osha_injury_type must be one of: ${OSHA_INJURY_TYPES.join(", ")}` };
+  }
+
+  const days: Record<"days_away" | "days_restricted", number> = { days_away: 0, days_restricted: 0 };
+  for (const key of ["days_away", "days_restricted"] as const) {
+    const raw = b[key] ?? 0;
+    const n = Number(raw);
+    if (raw === "" || !Number.isInteger(n) || n < 0) return { ok: false, error: `${key} must be a whole number, 0 or more` };
+    days[key] = n;
+  }
+
+  const fatality = b.fatality === true;
+  if (b.recordability === "first_aid" && (days.days_away > 0 || days.days_restricted > 0 || fatality)) {
+    return { ok: false, error: "A first-aid-only case can't have days away, restricted days or a fatality" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      recordability: b.recordability,
+      osha_injury_type: injuryType,
+      ...days,
+      fatality,
+      privacy_case: b.privacy_case === true,
+    },
+  };
+}
+
+function incidentDate(row: InjuryRecordkeepingRow): string {
+  return toNYDateOnly(row.incident_datetime) ?? "";
+}
+
+function incidentTime(row: InjuryRecordkeepingRow): string {
+  const d = new Date(row.incident_datetime);
+  return Number.isNaN(d.getTime()) ? "" : nyDateTime(d).slice(11, 16);
+}
+
+function place(row: InjuryRecordkeepingRow): string {
+  return [row.incident_location, row.incident_area].filter((s) => s && s.trim()).join(" — ");
+}
+
+/**
+ * The year's 300 log and 301 detail for one establishment. Cases are numbered
+ * in incident order; `rows` should already be limited to the building and year
+ * (see fetchOshaReports), anything else is ignored.
+ */
+export function buildOshaLog(rows: InjuryRecordkeepingRow[], building: string, year: number): OshaLog {
+  const inYear = rows.filter((r) => r.building === building && incidentDate(r).startsWith(`${year}-`));
+  const onLog = inYear
+    .map((row) => ({ row, outcome: oshaOutcome(row) }))
+    .filter((x): x is { row: InjuryRecordkeepingRow; outcome: OshaOutcome } => x.outcome !== null)
+    .sort((a, b) => a.row.incident_datetime.localeCompare(b.row.incident_datetime) || a.row.id.localeCompare(b.row.id));
+
+  const cases: Osha300Case[] = [];
+  const incidents: Osha301Incident[] = [];
+  onLog.forEach(({ row, outcome }, i) => {
+    const caseNo = `${year}-${String(i + 1).padStart(3, "0")}`;
+    const { daysAway, daysRestricted } = countedDays(row.days_away ?? 0, row.days_restricted ?? 0);
+    const injuryType = isOshaInjuryType(row.osha_injury_type) ? row.osha_injury_type : "injury";
+
+    cases.push({
+      caseNo,
+      reportId: row.id,
+      employeeName: row.privacy_case ? "Privacy case" : row.employee_name,
+      jobTitle: row.employee_job_title ?? "",
+      incidentDate: incidentDate(row),
+      location: place(row),
+      description: `${row.incident_type}, ${row.body_part}: ${row.injury_description}`.trim(),
+      outcome,
+      daysAway,
+      daysRestricted,
+      injuryType,
+    });
+
+    incidents.push({
+      caseNo,
+      reportId: row.id,
+      employeeName: row.employee_name,
+      jobTitle: row.employee_job_title ?? "",
+      dateOfBirth: row.employee_dob ?? "",
+      incidentDate: incidentDate(row),
+      incidentTime: incidentTime(row),
+      location: place(row),
+      whatHappened: row.injury_description,
+      injury: row.incident_type,
+      bodyPart: row.body_part,
+      firstAid: !!row.first_aid_given,
+      treatmentFacility: row.sent_to_clinic ? row.clinic_name ?? "" : "",
+      emergencyServices: !!row.ems_called,
+      employeeStatement: row.employee_statement ?? "",
+      preparedBy: row.reported_by_name ?? "",
+      outcome,
+      daysAway,
+      daysRestricted,
+    });
+  });
+
+  return { cases, incidents, unclassified: inYear.filter((r) => !isRecordability(r.recordability)).length };
+}
+
+function rate(cases: number, hoursWorked: number | null): number | null {
+  if (!hoursWorked || hoursWorked <= 0) return null;
+  return Math.round(((cases * OSHA_RATE_BASE_HOURS) / hoursWorked) * 100) / 100;
+}
+
+export function buildOsha300ASummary(cases: Osha300Case[], establishment: OshaEstablishment): Osha300ASummary {
+  const count = (outcome: OshaOutcome) => cases.filter((c) => c.outcome === outcome).length;
+  const injuryTypes = Object.fromEntries(
+    OSHA_INJURY_TYPES.map((t) => [t, cases.filter((c) => c.injuryType === t).length])
+  ) as Record<OshaInjuryType, number>;
+
+  const daysAwayCases = count("days_away");
+  const jobTransferCases = count("job_transfer");
+  return {
+    ...establishment,
+    deaths: count("death"),
+    daysAwayCases,
+    jobTransferCases,
+    otherRecordableCases: count("other_recordable"),
+    totalDaysAway: cases.reduce((s, c) => s + c.daysAway, 0),
+    totalDaysRestricted: cases.reduce((s, c) => s + c.daysRestricted, 0),
+    injuryTypes,
+    totalRecordableRate: rate(cases.length, establishment.hoursWorked),
+    dartRate: rate(daysAwayCases + jobTransferCases, establishment.hoursWorked),
+  };
+}
+
+const check = (on: boolean) => (on ? "X" : "");
+
+export function osha300Csv(cases: Osha300Case[], building: string, year: number): OshaCsv {
+  return {
+    filename: `osha-300-${building}-${year}.csv`,
+    header: [
+      "(A) Case No.",
+      "(B) Employee Name",
+      "(C) Job Title",
+      "(D) Date of Injury or Onset of Illness",
+      "(E) Where the Event Occurred",
+      "(F) Describe Injury or Illness",
+      "(G) Death",
+      "(H) Days Away From Work",
+      "(I) Job Transfer or Restriction",
+      "(J) Other Recordable Case",
+      "(K) Days Away",
+      "(L) Days on Job Transfer or Restriction",
+      ...OSHA_INJURY_TYPES.map((t, i) => `(M${i + 1}) ${OSHA_INJURY_TYPE_LABELS[t]}`),
+    ],
+    rows: cases.map((c) => [
+      c.caseNo,
+      c.employeeName,
+      c.jobTitle,
+      c.incidentDate,
+      c.location,
+      c.description,
+      check(c.outcome === "death"),
+      check(c.outcome === "days_away"),
+      check(c.outcome === "job_transfer"),
+      check(c.outcome === "other_recordable"),
+      c.daysAway,
+      c.daysRestricted,
+      ...OSHA_INJURY_TYPES.map((t) => check(c.injuryType === t)),
+    ]),
+  };
+}
+
+export function osha300ACsv(summary: Osha300ASummary): OshaCsv {
+  const rows: CsvCell[][] = [
+    ["Establishment", summary.building],
+    ["Year", summary.year],
+    ["Annual average number of employees", summary.averageEmployees ?? ""],
+    ["Total hours worked by all employees", summary.hoursWorked ?? ""],
+    ["(G) Total number of deaths", summary.deaths],
+    ["(H) Total number of cases with days away from work", summary.daysAwayCases],
+    ["(I) Total number of cases with job transfer or restriction", summary.jobTransferCases],
+    ["(J) Total number of other recordable cases", summary.otherRecordableCases],
+    ["(K) Total number of days away from work", summary.totalDaysAway],
+    ["(L) Total number of days of job transfer or restriction", summary.totalDaysRestricted],
+    ...OSHA_INJURY_TYPES.map((t, i): CsvCell[] => [`(M${i + 1}) ${OSHA_INJURY_TYPE_LABELS[t]}`, summary.injuryTypes[t]]),
+    ["Total recordable incident rate", summary.totalRecordableRate ?? ""],
+    ["DART rate", summary.dartRate ?? ""],
+  ];
+  return { filename: `osha-300a-${summary.building}-${summary.year}.csv`, header: ["Item", "Value"], rows };
+}
+
+export function osha301Csv(incidents: Osha301Incident[], building: string, year: number): OshaCsv {
+  return {
+    filename: `osha-301-${building}-${year}.csv`,
+    header: [
+      "Case No.",
+      "Employee Name",
+      "Job Title",
+      "Date of Birth",
+      "Date of Injury",
+      "Time of Event",
+      "Where",
+      "What Happened",
+      "Injury or Illness",
+      "Body Part",
+      "First Aid Given",
+      "Treated At",
+      "EMS Called",
+      "Employee Statement",
+      "Outcome",
+      "Days Away",
+      "Days Restricted",
+      "Prepared By",
+    ],
+    rows: incidents.map((i) => [
+      i.caseNo,
+      i.employeeName,
+      i.jobTitle,
+      i.dateOfBirth,
+      i.incidentDate,
+      i.incidentTime,
+      i.location,
+      i.whatHappened,
+      i.injury,
+      i.bodyPart,
+      i.firstAid ? "Yes" : "No",
+      i.treatmentFacility,
+      i.emergencyServices ? "Yes" : "No",
+      i.employeeStatement,
+      OSHA_OUTCOME_LABELS[i.outcome],
+      i.daysAway,
+      i.daysRestricted,
+      i.preparedBy,
+    ]),
+  };
+}
+
+/** Every report for one building with an incident in the calendar year (New York time). */
+export async function fetchOshaReports(
+  client: SupabaseClient,
+  building: string,
+  year: number
+): Promise<{ data: InjuryRecordkeepingRow[]; error: unknown }> {
+  const { data, error } = await client
+    .from(INJURY_REPORTS_TABLE)
+    .select("*")
+    .eq("building", building)
+    .gte("incident_datetime", nyWallTimeToDate(`${year}-01-01`, "00:00").toISOString())
+    .lt("incident_datetime", nyWallTimeToDate(`${year + 1}-01-01`, "00:00").toISOString())
+    .order("incident_datetime", { ascending: true });
+  return { data: error ? [] : ((data || []) as InjuryRecordkeepingRow[]), error };
+}
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyWorkerPayouts,
+  calculateContainerPay,
+  DEFAULT_PAY_SCALE,
+  isPayScaleLocked,
+  isScheduleInEffect,
+  loadPayScales,
+  mapPayScaleRow,
+  parsePayScaleInput,
+  payScaleEndError,
+  payScaleStartError,
+  resolvePayScale,
+} from "@/lib/payScale";
+import { payScaleRows } from "@/test/fixtures";
+import { createSupabaseStub } from "@/test/supabaseStub";
+
+const schedules = payScaleRows.map(mapPayScaleRow);
+const [rates2026, dc5Override] = schedules;
+
+describe("calculateContainerPay (default scale)", () => {
+  it.each([
+    [1, 100],
+    [500, 100],
+    [501, 130],
+    [1500, 130],
+    [1501, 180],
+    [3500, 180],
+    [5500, 230],
+    [7500, 280],
+  ])("%i pieces pays %d", (pieces, pay) => {
+    expect(calculateContainerPay(pieces)).toBe(pay);
+  });
+
+  it("adds the overage rate for every piece above the last tier", () => {
+    expect(calculateContainerPay(7501)).toBe(280.05);
+    expect(calculateContainerPay(8000)).toBe(305);
+  });
+
+  it("pays nothing for zero, negative or non-numeric pieces", () => {
+    expect(calculateContainerPay(0)).toBe(0);
+    expect(calculateContainerPay(-10)).toBe(0);
+    expect(calculateContainerPay(Number.NaN)).toBe(0);
+  });
+
+  it("pays the flat palletized rate regardless of pieces", () => {
+    expect(calculateContainerPay(9000, { palletized: true })).toBe(100);
+    expect(calculateContainerPay(0, { palletized: true })).toBe(100);
+  });
+});
+
+describe("calculateContainerPay (stored schedule)", () => {
+  it("uses the schedule's own tiers and overage", () => {
+    expect(calculateContainerPay(1000, { schedule: rates2026 })).toBe(120);
+    expect(calculateContainerPay(3100, { schedule: rates2026 })).toBe(210);
+  });
+
+  it("applies the highest SKU modifier reached", () => {
+    expect(calculateContainerPay(500, { schedule: rates2026, skusTotal: 9 })).toBe(120);
+    expect(calculateContainerPay(500, { schedule: rates2026, skusTotal: 10 })).toBe(125);
+    expect(calculateContainerPay(500, { schedule: rates2026, skusTotal: 40 })).toBe(135);
+  });
+
+  it("prices palletized containers by pieces when the schedule has no flat rate", () => {
+    expect(calculateContainerPay(6000, { schedule: dc5Override, palletized: true })).toBe(300);
+  });
+});
+
+describe("resolvePayScale", () => {
+  it("falls back to the default scale before any schedule starts", () => {
+    expect(resolvePayScale(schedules, { workDate: "2025-12-31" })).toBe(DEFAULT_PAY_SCALE);
+  });
+
+  it("prefers a building override while it is in effect", () => {
+    expect(resolvePayScale(schedules, { workDate: "2026-03-10", building: "DC5" }).id).toBe("ps-dc5");
+    expect(resolvePayScale(schedules, { workDate: "2026-03-10", building: "DC1" }).id).toBe("ps-2026");
+    expect(resolvePayScale(schedules, { workDate: "2026-07-01", building: "DC5" }).id).toBe("ps-2026");
+  });
+
+  it("prefers a customer override, matching the customer id", () => {
+    const acme = { ...rates2026, id: "ps-acme", customerId: "cu-acme", customer: "Acme Foods" };
+    const ctx = { workDate: "2026-03-10", building: "DC5", customerId: "cu-acme" };
+    expect(resolvePayScale([rates2026, acme, dc5Override], ctx).id).toBe("ps-acme");
+    expect(resolvePayScale([rates2026, acme], { workDate: "2026-03-10", customerId: "cu-other" }).id).toBe("ps-2026");
+    expect(resolvePayScale([rates2026, acme], { workDate: "2026-03-10" }).id).toBe("ps-2026");
+  });
+
+  it("never applies a customer override that didn't link to a customer", () => {
+    const unlinked = { ...rates2026, id: "ps-unlinked", customer: "Acme Foods" };
+    expect(resolvePayScale([unlinked], { workDate: "2026-03-10" })).toBe(DEFAULT_PAY_SCALE);
+  });
+
+  it("picks the latest start date among equally specific schedules", () => {
+    const later = { ...rates2026, id: "ps-2026-h2", effectiveFrom: "2026-07-01" };
+    expect(resolvePayScale([rates2026, later], { workDate: "2026-06-30" }).id).toBe("ps-2026");
+    expect(resolvePayScale([rates2026, later], { workDate: "2026-07-01" }).id).toBe("ps-2026-h2");
+  });
+
+  it("treats both ends of the effective range as inclusive", () => {
+    expect(isScheduleInEffect(dc5Override, "2026-02-01")).toBe(true);
+    expect(isScheduleInEffect(dc5Override, "2026-06-30")).toBe(true);
+    expect(isScheduleInEffect(dc5Override, "2026-07-01")).toBe(false);
+  });
+});
+
+describe("applyWorkerPayouts", () => {
+  it("splits container pay by percent contribution, rounded to cents", () => {
+    const out = applyWorkerPayouts(130, [
+      { name: "A", percentContribution: 33.33 },
+      { name: "B", percentContribution: 33.33 },
+      { name: "C", percentContribution: 33.34 },
+    ]);
+    expect(out.map((w) => w.payout)).toEqual([43.33, 43.33, 43.34]);
+    expect(out.reduce((sum, w) => sum + w.payout, 0)).toBeCloseTo(130, 2);
+  });
+
+  it("keeps the other worker fields", () => {
+    const [w] = applyWorkerPayouts(100, [{ name: "A", minutesWorked: 30, percentContribution: 100 }]);
+    expect(w).toEqual({ name: "A", minutesWorked: 30, percentContribution: 100, payout: 100 });
+  });
+});
+
+describe("parsePayScaleInput", () => {
+  const form = {
+    name: " 2027 Standard ",
+    effectiveFrom: "2027-01-01",
+    effectiveTo: "",
+    building: "",
+    customerId: " cu-acme ",
+    tiers: [
+      { maxPieces: "1500", pay: "140" },
+      { maxPieces: "", pay: "" },
+      { maxPieces: "500", pay: "110" },
+    ],
+    overagePerPiece: "0.06",
+    palletizedPay: "",
+    skuModifiers: [{ minSkus: "20", addAmount: "15" }],
+  };
+
+  it("reads form strings, drops blank rows and sorts tiers", () => {
+    expect(parsePayScaleInput(form)).toEqual({
+      ok: true,
+      value: {
+        name: "2027 Standard",
+        effectiveFrom: "2027-01-01",
+        effectiveTo: null,
+        building: null,
+        customerId: "cu-acme",
+        customer: null,
+        tiers: [
+          { maxPieces: 500, pay: 110 },
+          { maxPieces: 1500, pay: 140 },
+        ],
+        overagePerPiece: 0.06,
+        palletizedPay: null,
+        skuModifiers: [{ minSkus: 20, addAmount: 15 }],
+      },
+    });
+  });
+
+  it("rejects bad dates, tiers and amounts", () => {
+    expect(parsePayScaleInput({ ...form, name: " " }).ok).toBe(false);
+    expect(parsePayScaleInput({ ...form, effectiveTo: "2026-12-31" }).ok).toBe(false);
+    expect(parsePayScaleInput({ ...form, tiers: [] }).ok).toBe(false);
+    expect(parsePayScaleInput({ ...form, tiers: [{ maxPieces: 500, pay: 1 }, { maxPieces: "500", pay: 2 }] }).ok).toBe(
+      false
+    );
+    expect(parsePayScaleInput({ ...form, palletizedPay: "-1" }).ok).toBe(false);
+    expect(parsePayScaleInput(null).ok).toBe(false);
+  });
+});
+
+describe("pay scale locks", () => {
+  const today = "2026-10-19";
+
+  it("locks schedules that already priced work", () => {
+    expect(isPayScaleLocked({ effectiveFrom: today }, today)).toBe(true);
+    expect(isPayScaleLocked({ effectiveFrom: "2026-10-20" }, today)).toBe(false);
+  });
+
+  it("only starts or ends schedules today or later", () => {
+    expect(payScaleStartError("2026-10-18", today)).not.toBeNull();
+    expect(payScaleStartError(today, today)).toBeNull();
+    expect(payScaleEndError({ effectiveFrom: "2026-01-01" }, "2026-10-18", today)).not.toBeNull();
+    expect(payScaleEndError({ effectiveFrom: "2026-01-01" }, "10/31/2026", today)).not.toBeNull();
+    expect(payScaleEndError({ effectiveFrom: "2026-01-01" }, today, today)).toBeNull();
+  });
+});
+
+describe("loadPayScales", () => {
+  it("loads active schedules, newest first", async () => {
+    const { client } = createSupabaseStub({ pay_scales: [...payScaleRows, { ...payScaleRows[1], id: "ps-old", active: false }] });
+    const { data, error } = await loadPayScales(client);
+    expect(error).toBeNull();
+    expect(data.map((s) => s.id)).toEqual(["ps-dc5", payScaleRows[0].id]);
+  });
+
+  it("reports a failed read instead of falling back to the default scale", async () => {
+    const { client } = createSupabaseStub({ pay_scales: payScaleRows }, { errors: { pay_scales: { message: "timeout" } } });
+    const { data, error } = await loadPayScales(client);
+    expect(data).toEqual([]);
+    expect(error).toEqual({ message: "timeout" });
+  });
+});
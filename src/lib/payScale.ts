@@ -1,16 +1,318 @@
 // src/lib/payScale.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { roundMoney, toNumber } from "@/lib/money";
+
+/**
+ * Pay scales are stored as data (table: pay_scales) so rate changes never
+ * rewrite history: every container is priced by the schedule that was in
+ * effect on its work_date.
+ */
+
+export const PAY_SCALES_TABLE = "pay_scales";
+
+export type PayTier = {
+  maxPieces: number; // inclusive upper bound
+  pay: number;
+};
+
+export type SkuModifier = {
+  minSkus: number; // applies when skus_total >= minSkus
+  addAmount: number;
+};
+
+export type PayScaleSchedule = {
+  id: string;
+  name: string;
+  effectiveFrom: string; // YYYY-MM-DD (inclusive)
+  effectiveTo: string | null; // YYYY-MM-DD (inclusive), null = open-ended
+  building: string | null; // null = all buildings
+  customerId: string | null; // null = all customers
+  customer: string | null; // that customer's name, for display
+  tiers: PayTier[]; // ascending by maxPieces
+  overagePerPiece: number; // per piece above the last tier
+  palletizedPay: number | null; // flat pay when palletized, null = price by pieces
+  skuModifiers: SkuModifier[];
+};
+
+export type PayScaleRow = {
+  id: string;
+  created_at: string;
+  name: string;
+  effective_from: string;
+  effective_to: string | null;
+  building: string | null;
+  customer_id?: string | null;
+  customer: string | null;
+  tiers: unknown;
+  overage_per_piece: number | null;
+  palletized_pay: number | null;
+  sku_modifiers: unknown;
+  active: boolean | null;
+};
+
+export const DEFAULT_PAY_SCALE_ID = "default";
+
+// ✅ The original hard-coded scale. Used when no stored schedule applies.
+export const DEFAULT_PAY_SCALE: PayScaleSchedule = {
+  id: DEFAULT_PAY_SCALE_ID,
+  name: "Standard",
+  effectiveFrom: "1970-01-01",
+  effectiveTo: null,
+  building: null,
+  customerId: null,
+  customer: null,
+  tiers: [
+    { maxPieces: 500, pay: 100 },
+    { maxPieces: 1500, pay: 130 },
+    { maxPieces: 3500, pay: 180 },
+    { maxPieces: 5500, pay: 230 },
+    { maxPieces: 7500, pay: 280 },
+  ],
+  overagePerPiece: 0.05,
+  palletizedPay: 100,
+  skuModifiers: [],
+};
+
+function parseTiers(raw: unknown): PayTier[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((t): t is Record<string, unknown> => !!t && typeof t === "object")
+    .map((t) => ({ maxPieces: toNumber(t.maxPieces), pay: toNumber(t.pay) }))
+    .filter((t) => t.maxPieces > 0)
+    .sort((a, b) => a.maxPieces - b.maxPieces);
+}
+
+function parseSkuModifiers(raw: unknown): SkuModifier[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((m): m is Record<string, unknown> => !!m && typeof m === "object")
+    .map((m) => ({ minSkus: toNumber(m.minSkus), addAmount: toNumber(m.addAmount) }))
+    .filter((m) => m.minSkus > 0)
+    .sort((a, b) => a.minSkus - b.minSkus);
+}
+
+export function mapPayScaleRow(row: PayScaleRow): PayScaleSchedule {
+  return {
+    id: String(row.id),
+    name: row.name || "Untitled",
+    effectiveFrom: String(row.effective_from || "1970-01-01").slice(0, 10),
+    effectiveTo: row.effective_to ? String(row.effective_to).slice(0, 10) : null,
+    building: row.building || null,
+    customerId: row.customer_id ?? null,
+    customer: row.customer || null,
+    tiers: parseTiers(row.tiers),
+    overagePerPiece: toNumber(row.overage_per_piece),
+    palletizedPay: row.palletized_pay === null || row.palletized_pay === undefined ? null : toNumber(row.palletized_pay),
+    skuModifiers: parseSkuModifiers(row.sku_modifiers),
+  };
+}
+
+export function payScaleToRow(s: PayScaleSchedule): Omit<PayScaleRow, "id" | "created_at" | "active"> {
+  return {
+    name: s.name.trim(),
+    effective_from: s.effectiveFrom,
+    effective_to: s.effectiveTo,
+    building: s.building,
+    customer_id: s.customerId,
+    customer: s.customer,
+    tiers: s.tiers,
+    overage_per_piece: s.overagePerPiece,
+    palletized_pay: s.palletizedPay,
+    sku_modifiers: s.skuModifiers,
+  };
+}
+
+export type PayScaleParseResult = { ok: true; value: Omit<PayScaleSchedule, "id"> } | { ok: false; error: string };
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+function isBlank(v: unknown): boolean {
+  return v === undefined || v === null || String(v).trim() === "";
+}
+
+/**
+ * Validate a schedule body (same shape as PayScaleSchedule, numbers may be
+ * strings). Blank tier and SKU rows are dropped; tiers and modifiers come
+ * back sorted. The customer override is a customerId; the route looks up
+ * the customer and fills in `customer` (its name).
+ */
+export function parsePayScaleInput(body: unknown): PayScaleParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const b = body as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const rows = (v: unknown) =>
+    (Array.isArray(v) ? v : []).filter((r): r is Record<string, unknown> => !!r && typeof r === "object");
+
+  const name = str(b.name);
+  if (!name) return { ok: false, error: "Name is required." };
+  const effectiveFrom = str(b.effectiveFrom);
+  if (!YMD.test(effectiveFrom)) return { ok: false, error: "Effective from date is required." };
+  const effectiveTo = str(b.effectiveTo) || null;
+  if (effectiveTo && (!YMD.test(effectiveTo) || effectiveTo < effectiveFrom)) {
+    return { ok: false, error: "Effective to must be on or after effective from." };
+  }
+
+  const tiers = rows(b.tiers)
+    .filter((t) => !isBlank(t.maxPieces) || !isBlank(t.pay))
+    .map((t) => ({ maxPieces: Number(t.maxPieces), pay: Number(t.pay) }));
+  if (tiers.length === 0) return { ok: false, error: "At least one tier is required." };
+  if (tiers.some((t) => !Number.isFinite(t.maxPieces) || t.maxPieces <= 0 || !Number.isFinite(t.pay) || t.pay < 0)) {
+    return { ok: false, error: "Each tier needs a positive max pieces and a non-negative pay." };
+  }
+  tiers.sort((a, b) => a.maxPieces - b.maxPieces);
+  if (new Set(tiers.map((t) => t.maxPieces)).size !== tiers.length) {
+    return { ok: false, error: "Tier max pieces must be unique." };
+  }
+
+  const overagePerPiece = isBlank(b.overagePerPiece) ? 0 : Number(b.overagePerPiece);
+  if (!Number.isFinite(overagePerPiece) || overagePerPiece < 0) {
+    return { ok: false, error: "Overage per piece must be 0 or more." };
+  }
+
+  const palletizedPay = isBlank(b.palletizedPay) ? null : Number(b.palletizedPay);
+  if (palletizedPay !== null && (!Number.isFinite(palletizedPay) || palletizedPay < 0)) {
+    return { ok: false, error: "Palletized pay must be 0 or more." };
+  }
+
+  const skuModifiers = rows(b.skuModifiers)
+    .filter((m) => !isBlank(m.minSkus) || !isBlank(m.addAmount))
+    .map((m) => ({ minSkus: Number(m.minSkus), addAmount: Number(m.addAmount) }));
+  if (skuModifiers.some((m) => !Number.isFinite(m.minSkus) || m.minSkus <= 0 || !Number.isFinite(m.addAmount))) {
+    return { ok: false, error: "Each SKU modifier needs a positive min SKUs and an amount." };
+  }
+  skuModifiers.sort((a, b) => a.minSkus - b.minSkus);
+
+  return {
+    ok: true,
+    value: {
+      name,
+      effectiveFrom,
+      effectiveTo,
+      building: str(b.building) || null,
+      customerId: str(b.customerId) || null,
+      customer: null,
+      tiers,
+      overagePerPiece,
+      palletizedPay,
+      skuModifiers,
+    },
+  };
+}
+
+// Schedules that already priced work are locked; only future-dated ones can be edited.
+export function isPayScaleLocked(s: Pick<PayScaleSchedule, "effectiveFrom">, today: string): boolean {
+  return s.effectiveFrom <= today;
+}
+
+/** Why a schedule starting on effectiveFrom can't be saved, or null. */
+export function payScaleStartError(effectiveFrom: string, today: string): string | null {
+  return effectiveFrom < today
+    ? "New schedules cannot start in the past — that would reprice existing containers."
+    : null;
+}
+
+/** Why the schedule can't be ended on endOn, or null. */
+export function payScaleEndError(s: Pick<PayScaleSchedule, "effectiveFrom">, endOn: string, today: string): string | null {
+  if (!YMD.test(endOn) || endOn < s.effectiveFrom) return "Enter a valid end date on or after the schedule start.";
+  if (endOn < today) return "End date cannot be in the past — containers already priced by this schedule would change.";
+  return null;
+}
+
+/** True when the schedule covers the given YYYY-MM-DD date. */
+export function isScheduleInEffect(s: PayScaleSchedule, workDate: string): boolean {
+  const d = String(workDate || "").slice(0, 10);
+  if (!d) return false;
+  if (d < s.effectiveFrom) return false;
+  if (s.effectiveTo && d > s.effectiveTo) return false;
+  return true;
+}
+
+/**
+ * Pick the schedule in effect on workDate.
+ * - Building/customer overrides beat the general schedule (customer > building).
+ *   Customers match by id; an override that never linked to a customer row
+ *   (customer name only) applies to no one.
+ * - Among equally specific schedules, the latest effectiveFrom wins.
+ * - Falls back to DEFAULT_PAY_SCALE when nothing matches.
+ */
+export function resolvePayScale(
+  schedules: PayScaleSchedule[],
+  ctx: { workDate: string; building?: string | null; customerId?: string | null }
+): PayScaleSchedule {
+  let best: PayScaleSchedule | null = null;
+  let bestScore = -1;
+
+  for (const s of schedules) {
+    if (!isScheduleInEffect(s, ctx.workDate)) continue;
+    if (s.building && s.building !== (ctx.building ?? null)) continue;
+    const forCustomer = !!(s.customerId || s.customer);
+    if (forCustomer && (!s.customerId || s.customerId !== ctx.customerId)) continue;
+
+    const score = (forCustomer ? 2 : 0) + (s.building ? 1 : 0);
+    if (score > bestScore || (score === bestScore && best && s.effectiveFrom > best.effectiveFrom)) {
+      best = s;
+      bestScore = score;
+    }
+  }
+
+  return best ?? DEFAULT_PAY_SCALE;
+}
+
 export function calculateContainerPay(
   piecesTotal: number,
-  opts?: { palletized?: boolean }
+  opts?: { palletized?: boolean; skusTotal?: number; schedule?: PayScaleSchedule }
 ): number {
-  // ✅ Palletized overrides everything
-  if (opts?.palletized) return 100;
-
-  if (piecesTotal <= 0) return 0;
-  if (piecesTotal <= 500) return 100;
-  if (piecesTotal <= 1500) return 130;
-  if (piecesTotal <= 3500) return 180;
-  if (piecesTotal <= 5500) return 230;
-  if (piecesTotal <= 7500) return 280;
-  return 280 + 0.05 * (piecesTotal - 7500);
+  const schedule = opts?.schedule ?? DEFAULT_PAY_SCALE;
+
+  // ✅ Palletized overrides everything (when the schedule defines a flat rate)
+  if (opts?.palletized && schedule.palletizedPay !== null) return roundMoney(schedule.palletizedPay);
+
+  const pieces = Number(piecesTotal) || 0;
+  if (pieces <= 0 || schedule.tiers.length === 0) return 0;
+
+  const tier = schedule.tiers.find((t) => pieces <= t.maxPieces);
+  let pay: number;
+  if (tier) {
+    pay = tier.pay;
+  } else {
+    const last = schedule.tiers[schedule.tiers.length - 1];
+    pay = last.pay + schedule.overagePerPiece * (pieces - last.maxPieces);
+  }
+
+  const skus = Number(opts?.skusTotal) || 0;
+  let skuBonus = 0;
+  for (const m of schedule.skuModifiers) {
+    if (skus >= m.minSkus) skuBonus = m.addAmount;
+  }
+
+  return roundMoney(pay + skuBonus);
+}
+
+/** Payout per worker = container pay × percentContribution / 100. */
+export function applyWorkerPayouts<T extends { percentContribution: number }>(
+  payTotal: number,
+  workers: T[]
+): (T & { payout: number })[] {
+  return workers.map((w) => ({
+    ...w,
+    payout: roundMoney((payTotal * (Number(w.percentContribution) || 0)) / 100),
+  }));
+}
+
+/** Short human label, e.g. "Palletized pays a flat $100." */
+export function describePalletized(schedule: PayScaleSchedule): string {
+  return schedule.palletizedPay === null
+    ? "Palletized containers are priced by pieces."
+    : `Palletized pays a flat $${schedule.palletizedPay.toFixed(2).replace(/\.00$/, "")}.`;
+}
+
+/** Loads active pay schedules. No matching schedule falls back to DEFAULT_PAY_SCALE; a failed read is an error. */
+export async function loadPayScales(client: SupabaseClient): Promise<{ data: PayScaleSchedule[]; error: unknown }> {
+  const { data, error } = await client
+    .from(PAY_SCALES_TABLE)
+    .select("*")
+    .eq("active", true)
+    .order("effective_from", { ascending: false });
+  if (error) return { data: [], error };
+  return { data: ((data || []) as PayScaleRow[]).map(mapPayScaleRow), error: null };
 }
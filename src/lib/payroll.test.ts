@@ -0,0 +1,313 @@
+import { describe, expect, it } from "vitest";
+import { mapContainerRow } from "@/lib/domain/containers";
+import { mapTimePunchRow } from "@/lib/domain/timeClock";
+import { mapWorkforceRow } from "@/lib/domain/workforce";
+import {
+  buildPayrollLines,
+  buildWorkerWeeklyPay,
+  findLockingPeriod,
+  lockingPeriodFor,
+  nextPayrollStatus,
+  payrollLinesMatch,
+  payrollLockError,
+  payrollWeekFor,
+  payrollWorkerTotals,
+  summarizePayrollLines,
+  type PayrollAdjustment,
+} from "@/lib/payroll";
+import { createSupabaseStub } from "@/test/supabaseStub";
+import { containerRows } from "@/test/fixtures";
+
+const containers = containerRows.map(mapContainerRow);
+const week = { periodStart: "2026-03-08", periodEnd: "2026-03-14" };
+
+function adjustment(partial: Partial<PayrollAdjustment>): PayrollAdjustment {
+  return {
+    id: "adj-1",
+    periodId: "p-1",
+    createdAt: "2026-03-20T12:00:00.000Z",
+    createdByEmail: "hr@example.com",
+    workerKey: null,
+    workerName: "Ana Lopez",
+    containerId: null,
+    amount: 0,
+    minutes: 0,
+    reason: "Recount",
+    ...partial,
+  };
+}
+
+describe("payrollWeekFor", () => {
+  it("returns the Sunday–Saturday week containing the date", () => {
+    expect(payrollWeekFor("2026-03-11")).toEqual({ start: "2026-03-08", end: "2026-03-14" });
+  });
+
+  it("handles the first and last day of the week", () => {
+    expect(payrollWeekFor("2026-03-08")).toEqual({ start: "2026-03-08", end: "2026-03-14" });
+    expect(payrollWeekFor("2026-03-14")).toEqual({ start: "2026-03-08", end: "2026-03-14" });
+  });
+
+  it("crosses month and year boundaries", () => {
+    expect(payrollWeekFor("2026-01-01")).toEqual({ start: "2025-12-28", end: "2026-01-03" });
+  });
+});
+
+describe("buildPayrollLines", () => {
+  it("merges workers case-insensitively and counts each container once", () => {
+    const lines = buildPayrollLines(containers, week);
+    expect(lines.map((l) => l.workerName)).toEqual(["Ana Lopez", "Ben Cole", "Cara Diaz"]);
+
+    const ana = lines[0];
+    expect(ana).toMatchObject({ workerKey: "ana lopez", containers: 2, minutes: 180, payout: 178, buildings: ["DC1"] });
+    expect(ana.entries.map((e) => e.containerId)).toEqual(["c-1", "c-2"]);
+    expect(ana.entries[1].workDate).toBe("2026-03-08");
+  });
+
+  it("keys linked workers by workforce id, apart from same-named unlinked entries", () => {
+    const linked = mapContainerRow({
+      ...containerRows[0],
+      workers: [
+        { name: "Ana Lopez", workforceId: "w-1", minutesWorked: 120, percentContribution: 60, payout: 78 },
+        { name: "Ben Cole", minutesWorked: 90, percentContribution: 40, payout: 52 },
+      ],
+    });
+    const lines = buildPayrollLines([linked, containers[1]], week);
+
+    expect(lines.map((l) => [l.workerKey, l.payout])).toEqual([
+      ["ana lopez", 100],
+      ["wf:w-1", 78],
+      ["ben cole", 52],
+    ]);
+  });
+
+  it("ignores containers outside the period", () => {
+    const lines = buildPayrollLines(containers, { periodStart: "2026-03-09", periodEnd: "2026-03-15" });
+    expect(lines.map((l) => l.workerName)).toEqual(["Cara Diaz"]);
+  });
+
+  it("summarizes totals", () => {
+    expect(summarizePayrollLines(buildPayrollLines(containers, week))).toEqual({
+      totalPayout: 485,
+      totalGrossPay: 485,
+      totalMinutes: 270,
+      workerCount: 3,
+    });
+  });
+});
+
+describe("buildPayrollLines wage pay", () => {
+  const workforce = [
+    { id: "w-1", name: "Ana Lopez", rate_type: "Production", rate_value: 20 },
+    { id: "w-2", name: "Ben Cole", rate_type: "Hourly", rate_value: 18 },
+    { id: "w-4", name: "Dee Park", rate_type: "Hourly", rate_value: 16 },
+  ].map(mapWorkforceRow);
+  const punch = (workforce_id: string, kind: string, punched_at: string) =>
+    mapTimePunchRow({
+      id: `${workforce_id}-${punched_at}`,
+      created_at: punched_at,
+      created_by_email: null,
+      workforce_id,
+      worker_name: workforce_id,
+      building: "DC1",
+      shift: "1st",
+      date: punched_at.slice(0, 10),
+      kind,
+      punched_at,
+      source: "kiosk",
+    });
+  const punches = [
+    // Ana: 5 hours
+    punch("w-1", "clock_in", "2026-03-09T12:00:00Z"),
+    punch("w-1", "clock_out", "2026-03-09T17:00:00Z"),
+    // Dee never touched a container: 2 hours
+    punch("w-4", "clock_in", "2026-03-10T12:00:00Z"),
+    punch("w-4", "clock_out", "2026-03-10T14:00:00Z"),
+  ];
+  const context = { workforce, punches, minimumWage: 15, now: new Date("2026-03-20T00:00:00Z") };
+
+  it("adds make-up pay, hourly pay and clock-only workers", () => {
+    const lines = buildPayrollLines(containers, week, context);
+    expect(lines.map((l) => l.workerName)).toEqual(["Ana Lopez", "Ben Cole", "Cara Diaz", "Dee Park"]);
+
+    const [ana, ben, cara, dee] = lines;
+    // 5h × $20 guarantee vs $178 of containers
+    expect(ana.wages).toMatchObject({ hoursSource: "clock", minutes: 300, guaranteePay: 100, makeUpPay: 0 });
+    // no punches → 1.5h of container minutes at $18
+    expect(ben.wages).toMatchObject({ rateType: "Hourly", hoursSource: "containers", totalPay: 27 });
+    expect(cara.wages).toBeNull(); // not on the roster
+    expect(dee).toMatchObject({ workerKey: "wf:w-4", containers: 0, payout: 0, buildings: ["DC1"] });
+    expect(dee.wages).toMatchObject({ totalPay: 32 });
+
+    // The period total pays wages, not Ben's container payout, and includes Dee
+    const totals = summarizePayrollLines(lines);
+    expect(totals.totalGrossPay).toBe(ana.payout + 27 + cara.payout + 32);
+    expect(totals.totalPayout).toBe(485);
+  });
+
+  it("recomputes make-up pay against adjustments and pays hourly wages as gross", () => {
+    const lines = buildPayrollLines(containers, week, context);
+    const totals = payrollWorkerTotals(lines, [adjustment({ workerName: "Ana Lopez", amount: -100 })]);
+
+    const ana = totals.find((t) => t.workerName === "Ana Lopez")!;
+    expect(ana).toMatchObject({ payout: 78, grossPay: 100 });
+    expect(ana.wages).toMatchObject({ productionPay: 78, makeUpPay: 22 });
+
+    expect(totals.find((t) => t.workerName === "Ben Cole")).toMatchObject({ payout: 52, grossPay: 27 });
+    expect(totals.find((t) => t.workerName === "Cara Diaz")).toMatchObject({ grossPay: 255 });
+  });
+
+  it("folds a worker's name-only pay into their linked line before make-up pay", () => {
+    const rows = [
+      { ...containerRows[0], workers: [{ name: "Ana Lopez", workforceId: "w-1", minutesWorked: 60, percentContribution: 100, payout: 100 }] },
+      { ...containerRows[1], workers: [{ name: "ana lopez", minutesWorked: 60, percentContribution: 100, payout: 100 }] },
+    ].map(mapContainerRow);
+    const tenHours = [punch("w-1", "clock_in", "2026-03-09T12:00:00Z"), punch("w-1", "clock_out", "2026-03-09T22:00:00Z")];
+    const lines = buildPayrollLines(rows, week, {
+      ...context,
+      workforce: [mapWorkforceRow({ id: "w-1", name: "Ana Lopez", rate_type: "Production", rate_value: 15 })],
+      punches: tenHours,
+    });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ workerKey: "wf:w-1", containers: 2, minutes: 120, payout: 200 });
+    expect(lines[0].wages).toMatchObject({ guaranteePay: 150, makeUpPay: 0, totalPay: 200 });
+    expect(summarizePayrollLines(lines).totalGrossPay).toBe(200);
+  });
+
+  it("counts a forgotten clock-out as nothing past the last punch", () => {
+    const forgotten = [
+      punch("w-2", "clock_in", "2026-03-09T12:00:00Z"),
+      punch("w-2", "break_start", "2026-03-09T15:00:00Z"),
+    ];
+    const lines = buildPayrollLines(containers, week, { ...context, punches: forgotten });
+    expect(lines.find((l) => l.workerName === "Ben Cole")?.wages).toMatchObject({ minutes: 180, totalPay: 54 });
+  });
+
+  it("builds a worker's weekly pay history", () => {
+    const weeks = buildWorkerWeeklyPay(workforce[2], containers, punches, { from: "2026-03-01", to: "2026-03-21" }, 15);
+    expect(weeks).toHaveLength(1);
+    expect(weeks[0]).toMatchObject({ weekStart: "2026-03-08", weekEnd: "2026-03-14", containers: 0 });
+    expect(weeks[0].wages.totalPay).toBe(32);
+  });
+});
+
+describe("payrollLinesMatch", () => {
+  it("is true for identical snapshots and false once a payout changes", () => {
+    const a = buildPayrollLines(containers, week);
+    const b = buildPayrollLines(containers, week);
+    expect(payrollLinesMatch(a, b)).toBe(true);
+
+    b[1] = { ...b[1], payout: b[1].payout + 1 };
+    expect(payrollLinesMatch(a, b)).toBe(false);
+    expect(payrollLinesMatch(a, a.slice(1))).toBe(false);
+  });
+});
+
+describe("payrollWorkerTotals", () => {
+  it("adds adjustments to the snapshot, including workers with no containers", () => {
+    const lines = buildPayrollLines(containers, week);
+    const totals = payrollWorkerTotals(lines, [
+      adjustment({ workerName: "ANA LOPEZ ", amount: -8.5, minutes: -10 }),
+      adjustment({ id: "adj-2", workerName: "Eli Grant", amount: 20, reason: "Missed container" }),
+    ]);
+
+    const ana = totals.find((t) => t.workerKey === "ana lopez")!;
+    expect(ana).toMatchObject({ snapshotPayout: 178, adjustmentPayout: -8.5, payout: 169.5, minutes: 170 });
+
+    const eli = totals.find((t) => t.workerKey === "eli grant")!;
+    expect(eli).toMatchObject({ containers: 0, snapshotPayout: 0, payout: 20 });
+  });
+
+  it("attaches name-based adjustments to a workforce-linked line", () => {
+    const linked = mapContainerRow({
+      ...containerRows[2],
+      workers: [{ name: "Cara Diaz", workforceId: "w-3", percentContribution: 100, payout: 255 }],
+    });
+    const totals = payrollWorkerTotals(buildPayrollLines([linked], week), [
+      adjustment({ workerName: "cara diaz", amount: 10 }),
+    ]);
+
+    expect(totals).toHaveLength(1);
+    expect(totals[0]).toMatchObject({ workerKey: "wf:w-3", snapshotPayout: 255, adjustmentPayout: 10, payout: 265 });
+  });
+
+  it("attaches keyed adjustments to their line, not a same-named worker", () => {
+    const linked = mapContainerRow({
+      ...containerRows[2],
+      workers: [
+        { name: "Cara Diaz", workforceId: "w-3", percentContribution: 50, payout: 127.5 },
+        { name: "Cara Diaz", percentContribution: 50, payout: 127.5 },
+      ],
+    });
+    const totals = payrollWorkerTotals(buildPayrollLines([linked], week), [
+      adjustment({ workerKey: "wf:w-3", workerName: "Cara Diaz", amount: 10 }),
+    ]);
+
+    expect(Object.fromEntries(totals.map((t) => [t.workerKey, t.adjustmentPayout]))).toEqual({
+      "cara diaz": 0,
+      "wf:w-3": 10,
+    });
+  });
+});
+
+describe("nextPayrollStatus", () => {
+  it("follows Draft → Reviewed → Approved → Paid", () => {
+    expect(nextPayrollStatus("Draft", "review")).toEqual({ ok: true, status: "Reviewed" });
+    expect(nextPayrollStatus("Reviewed", "reopen")).toEqual({ ok: true, status: "Draft" });
+    expect(nextPayrollStatus("Reviewed", "approve")).toEqual({ ok: true, status: "Approved" });
+    expect(nextPayrollStatus("Approved", "markPaid")).toEqual({ ok: true, status: "Paid" });
+  });
+
+  it("rejects skipped or backwards steps", () => {
+    expect(nextPayrollStatus("Draft", "approve").ok).toBe(false);
+    expect(nextPayrollStatus("Approved", "reopen").ok).toBe(false);
+    expect(nextPayrollStatus("Paid", "markPaid").ok).toBe(false);
+  });
+});
+
+describe("period locking", () => {
+  const periods = [
+    { periodStart: "2026-03-01", periodEnd: "2026-03-07", status: "Paid" as const },
+    { periodStart: "2026-03-08", periodEnd: "2026-03-14", status: "Reviewed" as const },
+  ];
+
+  it("only Approved/Paid periods lock their dates", () => {
+    expect(lockingPeriodFor(periods, "2026-03-07")?.status).toBe("Paid");
+    expect(lockingPeriodFor(periods, "2026-03-10")).toBeNull();
+    expect(lockingPeriodFor(periods, "")).toBeNull();
+  });
+
+  const rows = [
+    { id: "p-1", created_at: "", period_start: "2026-03-01", period_end: "2026-03-07", status: "Approved" },
+    { id: "p-2", created_at: "", period_start: "2026-03-08", period_end: "2026-03-14", status: "Draft" },
+  ];
+
+  it("findLockingPeriod queries the covering locked period", async () => {
+    const { client, calls } = createSupabaseStub({ payroll_periods: rows });
+    const { data } = await findLockingPeriod(client, "2026-03-03");
+    expect(data?.id).toBe("p-1");
+    expect(calls).toContainEqual({ table: "payroll_periods", method: "in", args: ["status", ["Approved", "Paid"]] });
+
+    expect((await findLockingPeriod(client, "2026-03-10")).data).toBeNull();
+  });
+
+  it("payrollLockError reports the first locked date", async () => {
+    const { client } = createSupabaseStub({ payroll_periods: rows });
+    expect(await payrollLockError(client, ["2026-03-10", null])).toBeNull();
+    expect(await payrollLockError(client, ["2026-03-10", "2026-03-02"])).toEqual({
+      error: "Payroll for 2026-03-01 – 2026-03-07 is Approved. Record a payroll adjustment instead.",
+      status: 409,
+    });
+  });
+
+  it("payrollLockError allows writes only when the periods table is missing", async () => {
+    const missing = createSupabaseStub(
+      {},
+      { errors: { payroll_periods: { message: 'relation "payroll_periods" does not exist', code: "42P01" } } }
+    );
+    expect(await payrollLockError(missing.client, ["2026-03-02"])).toBeNull();
+
+    const down = createSupabaseStub({}, { errors: { payroll_periods: { message: "timeout", code: "57014" } } });
+    expect(await payrollLockError(down.client, ["2026-03-02"])).toMatchObject({ status: 500 });
+  });
+});
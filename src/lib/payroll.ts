@@ -0,0 +1,784 @@
+// src/lib/payroll.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  containerDateNY,
+  contributionKey,
+  fetchAllContainers,
+  workforceIdFromKey,
+  type ContainerRow,
+} from "@/lib/domain/containers";
+import { fetchTimePunches, openClockIn, workedMinutes, type TimePunch } from "@/lib/domain/timeClock";
+import { contributionMatchesWorker, fetchWorkforce, type WorkforceWorker } from "@/lib/domain/workforce";
+import { roundMoney, toNumber } from "@/lib/money";
+import { addDaysYMD, weekdayOfYMD } from "@/lib/time";
+import { mapWagePay, stateMinimumWage, weeklyWagePay, withProductionPay, type WagePay } from "@/lib/wagePay";
+
+/**
+ * Weekly payroll periods (Sun–Sat, America/New_York).
+ * A period snapshots every worker's container payouts and minutes, plus their
+ * wage pay for the week (see src/lib/wagePay.ts); once it is Approved,
+ * containers and work orders dated inside it are read-only and any correction
+ * goes in as an adjustment on the period.
+ */
+
+export const PAYROLL_PERIODS_TABLE = "payroll_periods";
+export const PAYROLL_LINES_TABLE = "payroll_period_lines";
+export const PAYROLL_ADJUSTMENTS_TABLE = "payroll_adjustments";
+
+export const PAYROLL_STATUSES = ["Draft", "Reviewed", "Approved", "Paid"] as const;
+export type PayrollStatus = (typeof PAYROLL_STATUSES)[number];
+
+/** Statuses that freeze the containers/work orders in the period. */
+export const LOCKED_PAYROLL_STATUSES: readonly PayrollStatus[] = ["Approved", "Paid"];
+
+export const PAYROLL_ACTIONS = ["review", "reopen", "approve", "markPaid"] as const;
+export type PayrollAction = (typeof PAYROLL_ACTIONS)[number];
+
+// ✅ Draft → Reviewed → Approved → Paid (Reviewed can be sent back to Draft)
+export const PAYROLL_TRANSITIONS: Record<PayrollAction, { from: PayrollStatus; to: PayrollStatus; label: string }> = {
+  review: { from: "Draft", to: "Reviewed", label: "Mark Reviewed" },
+  reopen: { from: "Reviewed", to: "Draft", label: "Send Back to Draft" },
+  approve: { from: "Reviewed", to: "Approved", label: "Approve" },
+  markPaid: { from: "Approved", to: "Paid", label: "Mark Paid" },
+};
+
+export type PayrollPeriod = {
+  id: string;
+  createdAt: string;
+  periodStart: string; // YYYY-MM-DD (Sunday)
+  periodEnd: string; // YYYY-MM-DD (Saturday)
+  status: PayrollStatus;
+  snapshotAt: string | null;
+  totalPayout: number; // container pay
+  totalGrossPay: number; // what the snapshot pays: wages and make-up pay included
+  totalMinutes: number;
+  workerCount: number;
+  notes: string;
+  createdByEmail: string | null;
+  reviewedAt: string | null;
+  reviewedByEmail: string | null;
+  approvedAt: string | null;
+  approvedByEmail: string | null;
+  paidAt: string | null;
+  paidByEmail: string | null;
+};
+
+export type PayrollPeriodRow = {
+  id: string;
+  created_at: string;
+  period_start: string;
+  period_end: string;
+  status: string | null;
+  snapshot_at: string | null;
+  total_payout: number | string | null;
+  total_gross_pay?: number | string | null;
+  total_minutes: number | string | null;
+  worker_count: number | null;
+  notes: string | null;
+  created_by_email: string | null;
+  reviewed_at: string | null;
+  reviewed_by_email: string | null;
+  approved_at: string | null;
+  approved_by_email: string | null;
+  paid_at: string | null;
+  paid_by_email: string | null;
+};
+
+/** One container a worker was paid on, as it stood when the snapshot was taken. */
+export type PayrollContainerEntry = {
+  containerId: string;
+  containerNo: string;
+  workDate: string;
+  building: string;
+  shift: string | null;
+  minutes: number;
+  percent: number;
+  payout: number;
+};
+
+export type PayrollLine = {
+  workerKey: string; // contributionKey(): "wf:<workforce id>", or the lower-cased name if unlinked
+  workerName: string;
+  buildings: string[];
+  containers: number;
+  minutes: number;
+  payout: number;
+  entries: PayrollContainerEntry[];
+  wages: WagePay | null; // null for workers not on the roster, or snapshots from before wage pay
+};
+
+export type PayrollLineRow = {
+  id?: string;
+  period_id: string;
+  worker_key: string;
+  worker_name: string;
+  buildings: string[] | null;
+  containers: number;
+  minutes: number | string;
+  payout: number | string;
+  entries: unknown;
+  wages?: unknown;
+};
+
+export type PayrollAdjustment = {
+  id: string;
+  periodId: string;
+  createdAt: string;
+  createdByEmail: string | null;
+  workerKey: string | null; // the snapshot line it adjusts; null on older rows (matched by name)
+  workerName: string;
+  containerId: string | null;
+  amount: number;
+  minutes: number;
+  reason: string;
+};
+
+export type PayrollAdjustmentRow = {
+  id: string;
+  period_id: string;
+  created_at: string;
+  created_by_email: string | null;
+  worker_key?: string | null;
+  worker_name: string;
+  container_id: string | null;
+  amount: number | string;
+  minutes: number | string | null;
+  reason: string;
+};
+
+/** Snapshot line plus any adjustments for the same worker. */
+export type PayrollWorkerTotal = {
+  workerKey: string;
+  workerName: string;
+  buildings: string[];
+  containers: number;
+  snapshotMinutes: number;
+  snapshotPayout: number;
+  adjustmentMinutes: number;
+  adjustmentPayout: number;
+  minutes: number;
+  payout: number;
+  wages: WagePay | null; // make-up pay recomputed against the adjusted payout
+  grossPay: number; // what the worker is paid: wages when known, else payout
+};
+
+/** What buildPayrollLines needs to add wage pay to each line. */
+export type PayrollWageContext = {
+  workforce: WorkforceWorker[];
+  punches: TimePunch[]; // the period's punches
+  minimumWage: number;
+  now?: Date; // open clock-ins count up to now
+};
+
+/** One week of a worker's pay, for their history. */
+export type WorkerWeekPay = {
+  weekStart: string;
+  weekEnd: string;
+  containers: number;
+  containerMinutes: number;
+  wages: WagePay;
+};
+
+export function workerKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function isPayrollStatus(v: unknown): v is PayrollStatus {
+  return typeof v === "string" && (PAYROLL_STATUSES as readonly string[]).includes(v);
+}
+
+export function isPayrollAction(v: unknown): v is PayrollAction {
+  return typeof v === "string" && (PAYROLL_ACTIONS as readonly string[]).includes(v);
+}
+
+/** The Sun–Sat week containing the given NY date. */
+export function payrollWeekFor(ymd: string): { start: string; end: string } {
+  const start = addDaysYMD(ymd, -weekdayOfYMD(ymd));
+  return { start, end: addDaysYMD(start, 6) };
+}
+
+export function isPayrollPeriodLocked(period: Pick<PayrollPeriod, "status">): boolean {
+  return LOCKED_PAYROLL_STATUSES.includes(period.status);
+}
+
+export function periodCovers(period: Pick<PayrollPeriod, "periodStart" | "periodEnd">, ymd: string): boolean {
+  return !!ymd && ymd >= period.periodStart && ymd <= period.periodEnd;
+}
+
+/** First locked period covering the date, if any. */
+export function lockingPeriodFor<T extends Pick<PayrollPeriod, "periodStart" | "periodEnd" | "status">>(
+  periods: T[],
+  ymd: string
+): T | null {
+  return periods.find((p) => isPayrollPeriodLocked(p) && periodCovers(p, ymd)) ?? null;
+}
+
+export function lockedPeriodMessage(period: Pick<PayrollPeriod, "periodStart" | "periodEnd" | "status">): string {
+  return `Payroll for ${period.periodStart} – ${period.periodEnd} is ${period.status}. Record a payroll adjustment instead.`;
+}
+
+export function mapPayrollPeriodRow(row: PayrollPeriodRow): PayrollPeriod {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    periodStart: String(row.period_start).slice(0, 10),
+    periodEnd: String(row.period_end).slice(0, 10),
+    status: isPayrollStatus(row.status) ? row.status : "Draft",
+    snapshotAt: row.snapshot_at ?? null,
+    totalPayout: toNumber(row.total_payout),
+    // Periods snapshotted before gross pay was stored paid container pay only
+    totalGrossPay: row.total_gross_pay == null ? toNumber(row.total_payout) : toNumber(row.total_gross_pay),
+    totalMinutes: toNumber(row.total_minutes),
+    workerCount: toNumber(row.worker_count),
+    notes: row.notes ?? "",
+    createdByEmail: row.created_by_email ?? null,
+    reviewedAt: row.reviewed_at ?? null,
+    reviewedByEmail: row.reviewed_by_email ?? null,
+    approvedAt: row.approved_at ?? null,
+    approvedByEmail: row.approved_by_email ?? null,
+    paidAt: row.paid_at ?? null,
+    paidByEmail: row.paid_by_email ?? null,
+  };
+}
+
+function mapEntries(raw: unknown): PayrollContainerEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((e): e is Record<string, unknown> => !!e && typeof e === "object")
+    .map((e) => ({
+      containerId: String(e.containerId ?? ""),
+      containerNo: String(e.containerNo ?? ""),
+      workDate: String(e.workDate ?? ""),
+      building: String(e.building ?? ""),
+      shift: typeof e.shift === "string" ? e.shift : null,
+      minutes: toNumber(e.minutes),
+      percent: toNumber(e.percent),
+      payout: toNumber(e.payout),
+    }));
+}
+
+export function mapPayrollLineRow(row: PayrollLineRow): PayrollLine {
+  return {
+    workerKey: row.worker_key,
+    workerName: row.worker_name,
+    buildings: Array.isArray(row.buildings) ? row.buildings : [],
+    containers: toNumber(row.containers),
+    minutes: toNumber(row.minutes),
+    payout: toNumber(row.payout),
+    entries: mapEntries(row.entries),
+    wages: mapWagePay(row.wages),
+  };
+}
+
+export function payrollLineToRow(periodId: string, line: PayrollLine): PayrollLineRow {
+  return {
+    period_id: periodId,
+    worker_key: line.workerKey,
+    worker_name: line.workerName,
+    buildings: line.buildings,
+    containers: line.containers,
+    minutes: line.minutes,
+    payout: line.payout,
+    entries: line.entries,
+    wages: line.wages,
+  };
+}
+
+export function mapPayrollAdjustmentRow(row: PayrollAdjustmentRow): PayrollAdjustment {
+  return {
+    id: String(row.id),
+    periodId: String(row.period_id),
+    createdAt: row.created_at,
+    createdByEmail: row.created_by_email ?? null,
+    workerKey: row.worker_key ?? null,
+    workerName: row.worker_name,
+    containerId: row.container_id ?? null,
+    amount: toNumber(row.amount),
+    minutes: toNumber(row.minutes),
+    reason: row.reason ?? "",
+  };
+}
+
+/**
+ * Aggregate container payouts per worker for the period: by workforce id for
+ * linked contributions, by case-insensitive name otherwise. Containers dated
+ * outside the period are ignored.
+ *
+ * With a wage context, each line also gets the worker's wage pay and workers
+ * who only punched the clock (hourly work) get a line of their own. Unlinked
+ * lines use the roster entry with that name, unless that worker already has a
+ * linked line — their hours are only counted once.
+ */
+export function buildPayrollLines(
+  containers: ContainerRow[],
+  period: Pick<PayrollPeriod, "periodStart" | "periodEnd">,
+  wageContext?: PayrollWageContext
+): PayrollLine[] {
+  const map = new Map<string, PayrollLine & { buildingSet: Set<string> }>();
+
+  for (const c of containers) {
+    const workDate = containerDateNY(c);
+    if (!periodCovers(period, workDate)) continue;
+
+    for (const w of c.workers) {
+      const name = w.name.trim();
+      if (!name && !w.workforceId) continue;
+      const key = contributionKey(w);
+
+      if (!map.has(key)) {
+        map.set(key, {
+          workerKey: key,
+          workerName: name || "Unknown worker",
+          buildings: [],
+          buildingSet: new Set<string>(),
+          containers: 0,
+          minutes: 0,
+          payout: 0,
+          entries: [],
+          wages: null,
+        });
+      }
+
+      const line = map.get(key)!;
+      if (c.building) line.buildingSet.add(c.building);
+      line.minutes += w.minutesWorked;
+      line.payout += w.payout;
+      if (!line.entries.some((e) => e.containerId === c.id)) line.containers += 1;
+      line.entries.push({
+        containerId: c.id,
+        containerNo: c.container_no,
+        workDate,
+        building: c.building,
+        shift: c.shift,
+        minutes: w.minutesWorked,
+        percent: w.percentContribution,
+        payout: w.payout,
+      });
+    }
+  }
+
+  if (wageContext) addWagePay(map, period, wageContext);
+
+  return Array.from(map.values())
+    .map(({ buildingSet, ...line }) => ({
+      ...line,
+      buildings: Array.from(buildingSet).sort(),
+      payout: roundMoney(line.payout),
+      entries: line.entries.sort((a, b) => a.workDate.localeCompare(b.workDate) || a.containerNo.localeCompare(b.containerNo)),
+    }))
+    .sort((a, b) => a.workerName.localeCompare(b.workerName));
+}
+
+// A forgotten clock-out counts nothing past the worker's last punch
+function paidClockMinutes(punches: TimePunch[], now: Date): number {
+  if (openClockIn(punches, now)) return workedMinutes(punches, now);
+  const last = Math.max(...punches.map((p) => Date.parse(p.punchedAt)));
+  return workedMinutes(punches, new Date(last));
+}
+
+function addWagePay(
+  map: Map<string, PayrollLine & { buildingSet: Set<string> }>,
+  period: Pick<PayrollPeriod, "periodStart" | "periodEnd">,
+  { workforce, punches, minimumWage, now = new Date() }: PayrollWageContext
+) {
+  const byId = new Map(workforce.map((w) => [w.id, w]));
+  const byName = new Map<string, WorkforceWorker[]>();
+  for (const w of workforce) {
+    const key = workerKey(w.name);
+    if (key) byName.set(key, [...(byName.get(key) ?? []), w]);
+  }
+
+  // A name-only line for a worker who also has a linked line is the same
+  // person: fold it in, so wages and the guarantee see all of their pay.
+  for (const [key, line] of map) {
+    if (workforceIdFromKey(key)) continue;
+    const named = byName.get(key) ?? [];
+    const linked = named.length === 1 ? map.get(contributionKey({ name: "", workforceId: named[0].id })) : undefined;
+    if (!linked) continue;
+
+    for (const b of line.buildingSet) linked.buildingSet.add(b);
+    linked.minutes += line.minutes;
+    linked.payout += line.payout;
+    for (const e of line.entries) {
+      if (!linked.entries.some((x) => x.containerId === e.containerId)) linked.containers += 1;
+      linked.entries.push(e);
+    }
+    map.delete(key);
+  }
+
+  const punchesById = new Map<string, TimePunch[]>();
+  for (const p of punches) {
+    if (!periodCovers(period, p.date)) continue;
+    punchesById.set(p.workforceId, [...(punchesById.get(p.workforceId) ?? []), p]);
+  }
+
+  // Clock-only workers
+  for (const [id, mine] of punchesById) {
+    const key = contributionKey({ name: "", workforceId: id });
+    if (map.has(key)) continue;
+    const unlinked = map.get(workerKey(byId.get(id)?.name ?? ""));
+    if (unlinked && byName.get(unlinked.workerKey)?.length === 1) continue; // paid on their name line
+    map.set(key, {
+      workerKey: key,
+      workerName: byId.get(id)?.name ?? mine[0].workerName,
+      buildings: [],
+      buildingSet: new Set(mine.map((p) => p.building)),
+      containers: 0,
+      minutes: 0,
+      payout: 0,
+      entries: [],
+      wages: null,
+    });
+  }
+
+  for (const line of map.values()) {
+    let worker: WorkforceWorker | undefined;
+    const linkedId = workforceIdFromKey(line.workerKey);
+    if (linkedId) {
+      worker = byId.get(linkedId);
+    } else {
+      const named = byName.get(line.workerKey) ?? [];
+      if (named.length === 1 && !map.has(contributionKey({ name: "", workforceId: named[0].id }))) worker = named[0];
+    }
+    if (!worker) continue;
+
+    const mine = punchesById.get(worker.id);
+    line.wages = weeklyWagePay({
+      rateType: worker.rateType,
+      rateValue: worker.rateValue,
+      minimumWage,
+      productionPay: line.payout,
+      clockedMinutes: mine ? paidClockMinutes(mine, now) : null,
+      containerMinutes: line.minutes,
+    });
+  }
+}
+
+/**
+ * A worker's pay for each payroll week from `from` to `to` that they worked
+ * (containers or punches), newest first.
+ */
+export function buildWorkerWeeklyPay(
+  worker: WorkforceWorker,
+  containers: ContainerRow[],
+  punches: TimePunch[],
+  range: { from: string; to: string },
+  minimumWage: number,
+  now: Date = new Date()
+): WorkerWeekPay[] {
+  const weeks: WorkerWeekPay[] = [];
+  const mine = punches.filter((p) => p.workforceId === worker.id);
+
+  for (let start = payrollWeekFor(range.from).start; start <= range.to; start = addDaysYMD(start, 7)) {
+    const week = { periodStart: start, periodEnd: addDaysYMD(start, 6) };
+    let containerCount = 0;
+    let containerMinutes = 0;
+    let productionPay = 0;
+    for (const c of containers) {
+      if (!periodCovers(week, containerDateNY(c))) continue;
+      const contributions = c.workers.filter((w) => contributionMatchesWorker(w, worker));
+      if (contributions.length === 0) continue;
+      containerCount += 1;
+      for (const w of contributions) {
+        containerMinutes += w.minutesWorked;
+        productionPay += w.payout;
+      }
+    }
+    const weekPunches = mine.filter((p) => periodCovers(week, p.date));
+    if (containerCount === 0 && weekPunches.length === 0) continue;
+
+    weeks.push({
+      weekStart: week.periodStart,
+      weekEnd: week.periodEnd,
+      containers: containerCount,
+      containerMinutes,
+      wages: weeklyWagePay({
+        rateType: worker.rateType,
+        rateValue: worker.rateValue,
+        minimumWage,
+        productionPay,
+        clockedMinutes: weekPunches.length > 0 ? paidClockMinutes(weekPunches, now) : null,
+        containerMinutes,
+      }),
+    });
+  }
+
+  return weeks.reverse();
+}
+
+export function summarizePayrollLines(lines: PayrollLine[]): {
+  totalPayout: number;
+  totalGrossPay: number;
+  totalMinutes: number;
+  workerCount: number;
+} {
+  return {
+    totalPayout: roundMoney(lines.reduce((sum, l) => sum + l.payout, 0)),
+    totalGrossPay: roundMoney(lines.reduce((sum, l) => sum + (l.wages ? l.wages.totalPay : l.payout), 0)),
+    totalMinutes: lines.reduce((sum, l) => sum + l.minutes, 0),
+    workerCount: lines.length,
+  };
+}
+
+/** True when two snapshots pay every worker the same amount for the same minutes. */
+export function payrollLinesMatch(a: PayrollLine[], b: PayrollLine[]): boolean {
+  if (a.length !== b.length) return false;
+  const byKey = new Map(b.map((l) => [l.workerKey, l]));
+  return a.every((l) => {
+    const other = byKey.get(l.workerKey);
+    return (
+      !!other &&
+      other.containers === l.containers &&
+      Math.abs(other.minutes - l.minutes) < 0.001 &&
+      Math.abs(other.payout - l.payout) < 0.005 &&
+      Math.abs((other.wages?.totalPay ?? 0) - (l.wages?.totalPay ?? 0)) < 0.005
+    );
+  });
+}
+
+/**
+ * Snapshot + adjustments per worker (workers that only have adjustments are
+ * included). Adjustments attach to the line they were recorded against; older
+ * ones without a workerKey attach by name, including to a workforce-linked line.
+ */
+export function payrollWorkerTotals(lines: PayrollLine[], adjustments: PayrollAdjustment[]): PayrollWorkerTotal[] {
+  const map = new Map<string, PayrollWorkerTotal>();
+  const keyByName = new Map<string, string>();
+
+  for (const l of lines) {
+    const nameKey = workerKey(l.workerName);
+    if (!keyByName.has(nameKey) || nameKey === l.workerKey) keyByName.set(nameKey, l.workerKey);
+
+    map.set(l.workerKey, {
+      workerKey: l.workerKey,
+      workerName: l.workerName,
+      buildings: l.buildings,
+      containers: l.containers,
+      snapshotMinutes: l.minutes,
+      snapshotPayout: l.payout,
+      adjustmentMinutes: 0,
+      adjustmentPayout: 0,
+      minutes: l.minutes,
+      payout: l.payout,
+      wages: l.wages,
+      grossPay: l.wages ? l.wages.totalPay : l.payout,
+    });
+  }
+
+  for (const a of adjustments) {
+    const nameKey = workerKey(a.workerName);
+    const key = a.workerKey || keyByName.get(nameKey) || nameKey;
+    if (!key) continue;
+    if (!map.has(key)) {
+      map.set(key, {
+        workerKey: key,
+        workerName: a.workerName.trim(),
+        buildings: [],
+        containers: 0,
+        snapshotMinutes: 0,
+        snapshotPayout: 0,
+        adjustmentMinutes: 0,
+        adjustmentPayout: 0,
+        minutes: 0,
+        payout: 0,
+        wages: null,
+        grossPay: 0,
+      });
+    }
+    const t = map.get(key)!;
+    t.adjustmentMinutes += a.minutes;
+    t.adjustmentPayout = roundMoney(t.adjustmentPayout + a.amount);
+    t.minutes = t.snapshotMinutes + t.adjustmentMinutes;
+    t.payout = roundMoney(t.snapshotPayout + t.adjustmentPayout);
+  }
+
+  // Adjustments are container pay: they change a Production worker's make-up
+  // pay, and are paid on top of an Hourly worker's wages
+  for (const t of map.values()) {
+    if (!t.wages) {
+      t.grossPay = t.payout;
+    } else if (t.wages.rateType === "Hourly") {
+      t.grossPay = roundMoney(t.wages.totalPay + t.adjustmentPayout);
+    } else {
+      t.wages = withProductionPay(t.wages, t.payout);
+      t.grossPay = t.wages.totalPay;
+    }
+  }
+
+  return Array.from(map.values()).sort((a, b) => a.workerName.localeCompare(b.workerName));
+}
+
+/** Validate a status change; returns the new status or an error message. */
+export function nextPayrollStatus(
+  current: PayrollStatus,
+  action: PayrollAction
+): { ok: true; status: PayrollStatus } | { ok: false; error: string } {
+  const t = PAYROLL_TRANSITIONS[action];
+  if (current !== t.from) {
+    return { ok: false, error: `Only ${t.from} payroll periods can be moved to ${t.to} (this one is ${current})` };
+  }
+  return { ok: true, status: t.to };
+}
+
+/** Newest first. */
+export async function fetchPayrollPeriods(
+  client: SupabaseClient,
+  filters: { statuses?: readonly PayrollStatus[] } = {}
+): Promise<{ data: PayrollPeriod[]; error: unknown }> {
+  let query = client.from(PAYROLL_PERIODS_TABLE).select("*").order("period_start", { ascending: false });
+  if (filters.statuses?.length) query = query.in("status", [...filters.statuses]);
+
+  const { data, error } = await query;
+  return { data: error ? [] : ((data || []) as PayrollPeriodRow[]).map(mapPayrollPeriodRow), error };
+}
+
+export async function fetchPayrollPeriod(
+  client: SupabaseClient,
+  id: string
+): Promise<{
+  data: { period: PayrollPeriod; lines: PayrollLine[]; adjustments: PayrollAdjustment[] } | null;
+  error: unknown;
+}> {
+  const { data, error } = await client.from(PAYROLL_PERIODS_TABLE).select("*").eq("id", id).maybeSingle();
+  if (error || !data) return { data: null, error };
+
+  const [lines, adjustments] = await Promise.all([
+    client.from(PAYROLL_LINES_TABLE).select("*").eq("period_id", id).order("worker_name", { ascending: true }),
+    client.from(PAYROLL_ADJUSTMENTS_TABLE).select("*").eq("period_id", id).order("created_at", { ascending: true }),
+  ]);
+  if (lines.error || adjustments.error) return { data: null, error: lines.error || adjustments.error };
+
+  return {
+    data: {
+      period: mapPayrollPeriodRow(data as PayrollPeriodRow),
+      lines: ((lines.data || []) as PayrollLineRow[]).map(mapPayrollLineRow),
+      adjustments: ((adjustments.data || []) as PayrollAdjustmentRow[]).map(mapPayrollAdjustmentRow),
+    },
+    error: null,
+  };
+}
+
+/** The Approved/Paid period covering a date, or null if the date is open for edits. */
+export async function findLockingPeriod(
+  client: SupabaseClient,
+  ymd: string
+): Promise<{ data: PayrollPeriod | null; error: unknown }> {
+  const { data, error } = await client
+    .from(PAYROLL_PERIODS_TABLE)
+    .select("*")
+    .lte("period_start", ymd)
+    .gte("period_end", ymd)
+    .in("status", [...LOCKED_PAYROLL_STATUSES])
+    .limit(1);
+
+  const rows = (data || []) as PayrollPeriodRow[];
+  return { data: error || rows.length === 0 ? null : mapPayrollPeriodRow(rows[0]), error };
+}
+
+/** True when the error says the table doesn't exist (migration not applied yet). */
+export function isMissingTableError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === "42P01" || code === "PGRST205";
+}
+
+/**
+ * For write routes: why the write can't go ahead — 409 with the lock message
+ * for the first date that falls in an Approved/Paid period, or 500 when the
+ * check itself failed — or null when every date is open.
+ */
+export async function payrollLockError(
+  client: SupabaseClient,
+  dates: (string | null)[]
+): Promise<{ error: string; status: 409 | 500 } | null> {
+  for (const d of new Set(dates.filter((x): x is string => !!x))) {
+    const { data, error } = await findLockingPeriod(client, d);
+    if (error) {
+      // Table missing (migration not applied yet) → nothing can be locked
+      if (isMissingTableError(error)) {
+        console.warn("Payroll periods table missing; allowing write", error);
+        return null;
+      }
+      console.error("Payroll lock check failed", error);
+      return { error: "Could not check whether payroll is locked for that date", status: 500 };
+    }
+    if (data) return { error: lockedPeriodMessage(data), status: 409 };
+  }
+  return null;
+}
+
+/**
+ * Current per-worker lines for the period, computed from the containers,
+ * time punches and workforce tables. Reads every container in the period
+ * (paged, undated ones by NY created_at), so no worker drops off a big week.
+ */
+export async function computePayrollLines(
+  client: SupabaseClient,
+  period: Pick<PayrollPeriod, "periodStart" | "periodEnd">
+): Promise<{ data: PayrollLine[]; error: unknown }> {
+  const range = { from: period.periodStart, to: period.periodEnd };
+  const [containers, punches, workforce] = await Promise.all([
+    fetchAllContainers(client, range),
+    fetchTimePunches(client, range),
+    fetchWorkforce(client),
+  ]);
+  const error = containers.error || punches.error || workforce.error;
+  if (error) return { data: [], error };
+
+  return {
+    data: buildPayrollLines(containers.data, period, {
+      workforce: workforce.data,
+      punches: punches.data,
+      minimumWage: stateMinimumWage(),
+    }),
+    error: null,
+  };
+}
+
+/** Replace the period's stored lines and totals with `lines`. */
+export async function savePayrollSnapshot(
+  client: SupabaseClient,
+  periodId: string,
+  lines: PayrollLine[]
+): Promise<{ error: unknown }> {
+  const del = await client.from(PAYROLL_LINES_TABLE).delete().eq("period_id", periodId);
+  if (del.error) return { error: del.error };
+
+  if (lines.length > 0) {
+    const ins = await client.from(PAYROLL_LINES_TABLE).insert(lines.map((l) => payrollLineToRow(periodId, l)));
+    if (ins.error) return { error: ins.error };
+  }
+
+  const totals = summarizePayrollLines(lines);
+  const upd = await client
+    .from(PAYROLL_PERIODS_TABLE)
+    .update({
+      snapshot_at: new Date().toISOString(),
+      total_payout: totals.totalPayout,
+      total_gross_pay: totals.totalGrossPay,
+      total_minutes: totals.totalMinutes,
+      worker_count: totals.workerCount,
+    })
+    .eq("id", periodId);
+  return { error: upd.error };
+}
+
+/** A worker's weekly pay over a date range, from the containers and time punches tables. */
+export async function computeWorkerWeeklyPay(
+  client: SupabaseClient,
+  worker: WorkforceWorker,
+  range: { from: string; to: string }
+): Promise<{ data: WorkerWeekPay[]; error: unknown }> {
+  // Whole payroll weeks, so overtime and the guarantee see every day of them
+  const weeks = { from: payrollWeekFor(range.from).start, to: payrollWeekFor(range.to).end };
+  const [containers, punches] = await Promise.all([
+    fetchAllContainers(client, weeks),
+    fetchTimePunches(client, { ...weeks, workforceId: worker.id }),
+  ]);
+  const error = containers.error || punches.error;
+  if (error) return { data: [], error };
+
+  return {
+    data: buildWorkerWeeklyPay(worker, containers.data, punches.data, weeks, stateMinimumWage()),
+    error: null,
+  };
+}
@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import { mapWorkforceRow } from "@/lib/domain/workforce";
+import type { PayrollWorkerTotal } from "@/lib/payroll";
+import {
+  buildPayrollExport,
+  buildPayrollExportLines,
+  defaultExportSettings,
+  payrollExportSummary,
+  splitWorkerName,
+  validateExportSettings,
+} from "@/lib/payrollExport";
+import { weeklyWagePay } from "@/lib/wagePay";
+
+const period = { periodStart: "2026-03-08", periodEnd: "2026-03-14" };
+
+function total(workerName: string, payout: number, minutes: number): PayrollWorkerTotal {
+  return {
+    workerKey: workerName.trim().toLowerCase(),
+    workerName,
+    buildings: ["DC1"],
+    containers: 1,
+    snapshotMinutes: minutes,
+    snapshotPayout: payout,
+    adjustmentMinutes: 0,
+    adjustmentPayout: 0,
+    minutes,
+    payout,
+    wages: null,
+    grossPay: payout,
+  };
+}
+
+const workforce = [
+  { id: "w-1", name: "Ana Lopez", rate_type: "Production", employee_number: "100231" },
+  { id: "w-2", name: "Ben Cole", rate_type: "Hourly", rate_value: "18.5", employee_number: 100232 },
+  { id: "w-3", name: "Cara Diaz", rate_type: null, employee_number: "100233" },
+  { id: "w-4", name: "Dee Park", rate_type: "Production", employee_number: "" },
+].map(mapWorkforceRow);
+
+const codes = defaultExportSettings("adp").earningsCodes;
+
+describe("mapWorkforceRow payroll fields", () => {
+  it("reads rate type, rate value and employee number", () => {
+    expect(workforce[1]).toMatchObject({ rateType: "Hourly", rateValue: 18.5, employeeNumber: "100232" });
+    expect(workforce[2]).toMatchObject({ rateType: "", rateValue: null });
+    expect(workforce[3].employeeNumber).toBeNull();
+  });
+});
+
+describe("buildPayrollExportLines", () => {
+  it("maps employee numbers and earnings codes by rate type", () => {
+    const lines = buildPayrollExportLines([total("ana lopez", 178, 180), total("Ben Cole", 52, 90)], workforce, codes);
+
+    expect(lines[0]).toMatchObject({
+      workforceId: "w-1",
+      employeeNumber: "100231",
+      rateType: "Production",
+      earningsCode: "PCS",
+      amount: 178,
+      issues: [],
+    });
+    expect(lines[1]).toMatchObject({ employeeNumber: "100232", rateType: "Hourly", earningsCode: "REG", hours: 1.5 });
+  });
+
+  it("flags workers with no employee ID", () => {
+    const lines = buildPayrollExportLines([total("Dee Park", 40, 30), total("Eli Grant", 20, 0)], workforce, codes);
+    expect(lines[0].issues).toEqual([{ level: "error", message: "Workforce record has no employee / file number." }]);
+    expect(lines[1].issues[0]).toMatchObject({ level: "error" });
+    expect(lines[1].workforceId).toBeNull();
+  });
+
+  it("flags duplicate roster names with different employee numbers", () => {
+    const dupes = [...workforce, mapWorkforceRow({ id: "w-9", name: "ANA LOPEZ", employee_number: "999" })];
+    const [line] = buildPayrollExportLines([total("Ana Lopez", 10, 10)], dupes, codes);
+    expect(line.employeeNumber).toBeNull();
+    expect(line.issues[0].message).toContain("2 workforce records");
+  });
+
+  it("matches a workforce-linked total by id, even when names collide", () => {
+    const dupes = [...workforce, mapWorkforceRow({ id: "w-9", name: "ANA LOPEZ", employee_number: "999" })];
+    const linked = { ...total("Ana Lopez", 10, 10), workerKey: "wf:w-9" };
+    const [line] = buildPayrollExportLines([linked], dupes, codes);
+    expect(line).toMatchObject({ workforceId: "w-9", employeeNumber: "999", issues: [{ level: "warning" }] });
+  });
+
+  it("warns on a missing rate type and skips empty workers", () => {
+    const lines = buildPayrollExportLines([total("Cara Diaz", 255, 0), total("Ana Lopez", 0, 0)], workforce, codes);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ rateType: "Production", issues: [{ level: "warning" }] });
+  });
+});
+
+describe("buildPayrollExport", () => {
+  const lines = buildPayrollExportLines([total("Ana Lopez", 178, 180), total("Ben Cole", 52, 90)], workforce, codes);
+
+  it("writes the ADP paydata layout", () => {
+    const settings = { ...defaultExportSettings("adp"), companyCode: " XYZ ", batchId: "W11" };
+    const result = buildPayrollExport("adp", lines, period, settings);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.filename).toBe("adp-payroll-2026-03-08-to-2026-03-14.csv");
+    expect(result.header[2]).toBe("File #");
+    expect(result.rows).toEqual([
+      ["XYZ", "W11", "100231", "Ana Lopez", "", "", "PCS", "178.00"],
+      ["XYZ", "W11", "100232", "Ben Cole", "REG", "1.50", "", ""],
+    ]);
+  });
+
+  it("writes the Paychex and Gusto layouts", () => {
+    const paychex = buildPayrollExport("paychex", lines, period, { ...defaultExportSettings("paychex"), companyCode: "7" });
+    expect(paychex.ok && paychex.rows[1]).toEqual(["7", "100232", "Ben Cole", "Hourly", "1.50", "", "2026-03-14"]);
+
+    const gusto = buildPayrollExport("gusto", lines, period, defaultExportSettings("gusto"));
+    expect(gusto.ok && gusto.rows[0]).toEqual([
+      "100231",
+      "Lopez",
+      "Ana",
+      "Piece Rate",
+      "",
+      "178.00",
+      "2026-03-08",
+      "2026-03-14",
+    ]);
+  });
+
+  it("refuses to export while settings or workers have errors", () => {
+    expect(validateExportSettings("adp", defaultExportSettings("adp"))).toEqual([
+      "Co Code is required.",
+      "Batch ID is required.",
+    ]);
+    expect(buildPayrollExport("gusto", lines, period, defaultExportSettings("gusto")).ok).toBe(true);
+
+    const blocked = buildPayrollExportLines([total("Eli Grant", 20, 0)], workforce, codes);
+    expect(payrollExportSummary(blocked).blocked).toBe(1);
+    expect(buildPayrollExport("gusto", blocked, period, defaultExportSettings("gusto"))).toEqual({
+      ok: false,
+      error: "1 worker(s) need fixing before export.",
+    });
+  });
+});
+
+describe("wage pay in exports", () => {
+  const ben = {
+    ...total("Ben Cole", 52, 2700),
+    wages: weeklyWagePay({
+      rateType: "Hourly",
+      rateValue: 18.5,
+      minimumWage: 15,
+      productionPay: 0,
+      clockedMinutes: 2700,
+      containerMinutes: 2700,
+    }),
+  };
+  const ana = {
+    ...total("Ana Lopez", 178, 180),
+    wages: weeklyWagePay({
+      rateType: "Production",
+      rateValue: 20,
+      minimumWage: 15,
+      productionPay: 178,
+      clockedMinutes: 600,
+      containerMinutes: 180,
+    }),
+  };
+
+  it("splits hourly overtime and production make-up onto their own codes", () => {
+    const lines = buildPayrollExportLines([ana, ben], workforce, codes);
+    expect(lines[0]).toMatchObject({ amount: 178, makeUpAmount: 22, issues: [] });
+    expect(lines[1]).toMatchObject({ hours: 40, overtimeHours: 5, issues: [] });
+    expect(payrollExportSummary(lines)).toMatchObject({ totalMakeUp: 22, totalOvertimeHours: 5 });
+
+    const settings = { ...defaultExportSettings("adp"), companyCode: "XYZ", batchId: "W11" };
+    const result = buildPayrollExport("adp", lines, period, settings);
+    expect(result.ok && result.rows).toEqual([
+      ["XYZ", "W11", "100231", "Ana Lopez", "", "", "PCS", "178.00"],
+      ["XYZ", "W11", "100231", "Ana Lopez", "", "", "MUP", "22.00"],
+      ["XYZ", "W11", "100232", "Ben Cole", "REG", "40.00", "", ""],
+      ["XYZ", "W11", "100232", "Ben Cole", "OT", "5.00", "", ""],
+    ]);
+  });
+
+  it("warns about sub-minimum rates and hourly weeks without punches", () => {
+    const low = {
+      ...ben,
+      wages: weeklyWagePay({
+        rateType: "Hourly",
+        rateValue: 10,
+        minimumWage: 15,
+        productionPay: 0,
+        clockedMinutes: null,
+        containerMinutes: 90,
+      }),
+    };
+    const [line] = buildPayrollExportLines([low], workforce, codes);
+    expect(line.issues.map((i) => i.message)).toEqual([
+      "Workforce rate is below the $15.00/h minimum wage.",
+      "No time clock punches this week; hours are container minutes.",
+    ]);
+  });
+});
+
+describe("splitWorkerName", () => {
+  it("uses the last word as the last name", () => {
+    expect(splitWorkerName(" Ana  Maria Lopez ")).toEqual({ first: "Ana Maria", last: "Lopez" });
+    expect(splitWorkerName("Cher")).toEqual({ first: "Cher", last: "" });
+  });
+
+  it("exports clock-only workers and hourly adjustment dollars", () => {
+    const clockOnly = {
+      ...total("Ben Cole", 0, 0),
+      containers: 0,
+      grossPay: 740,
+      wages: weeklyWagePay({
+        rateType: "Hourly",
+        rateValue: 18.5,
+        minimumWage: 15,
+        productionPay: 0,
+        clockedMinutes: 2400,
+        containerMinutes: 0,
+      }),
+    };
+    const [line] = buildPayrollExportLines([clockOnly], workforce, codes);
+    expect(line).toMatchObject({ employeeNumber: "100232", hours: 40, overtimeHours: 0, adjustmentAmount: 0, issues: [] });
+
+    const adjusted = { ...clockOnly, adjustmentPayout: 25, payout: 25, grossPay: 765 };
+    const lines = buildPayrollExportLines([adjusted], workforce, codes);
+    expect(payrollExportSummary(lines)).toMatchObject({ totalHours: 40, totalHourlyAdjustments: 25 });
+    const settings = { ...defaultExportSettings("adp"), companyCode: "XYZ", batchId: "W11" };
+    const result = buildPayrollExport("adp", lines, period, settings);
+    expect(result.ok && result.rows).toEqual([
+      ["XYZ", "W11", "100232", "Ben Cole", "REG", "40.00", "", ""],
+      ["XYZ", "W11", "100232", "Ben Cole", "", "", "PCS", "25.00"],
+    ]);
+
+    expect(buildPayrollExportLines([{ ...total("Ben Cole", 0, 0), containers: 0 }], workforce, codes)).toEqual([]);
+  });
+});
@@ -0,0 +1,347 @@
+// src/lib/payrollExport.ts
+import type { CsvCell } from "@/lib/csv";
+import { workforceIdFromKey } from "@/lib/domain/containers";
+import type { WorkforceWorker } from "@/lib/domain/workforce";
+import { workerKey, type PayrollPeriod, type PayrollWorkerTotal } from "@/lib/payroll";
+
+/**
+ * Payroll provider import files, one row per worker per payroll period.
+ * Workers are matched to the workforce roster by name to pick up their
+ * employee / file number and rate type: Production workers are sent as a
+ * dollar amount under the production earnings code (plus any minimum-wage
+ * make-up pay under its own code), Hourly workers as regular and overtime
+ * hours under the hourly and overtime codes (the provider applies their rate),
+ * with any dollar payroll adjustments as an amount under the production code.
+ * A worker can take more than one row, one per earnings code.
+ * Each provider is a formatter in PAYROLL_EXPORT_FORMATTERS.
+ */
+
+export const PAYROLL_PROVIDERS = ["adp", "paychex", "gusto"] as const;
+export type PayrollProviderId = (typeof PAYROLL_PROVIDERS)[number];
+
+export type EarningsCodes = { production: string; hourly: string; overtime: string; makeUp: string };
+
+export type PayrollExportSettings = {
+  companyCode: string; // ADP "Co Code" / Paychex "Client ID"
+  batchId: string; // ADP only
+  earningsCodes: EarningsCodes;
+};
+
+export type PayrollExportIssue = { level: "error" | "warning"; message: string };
+
+export type PayrollExportLine = {
+  workerKey: string;
+  workerName: string;
+  workforceId: string | null;
+  employeeNumber: string | null;
+  rateType: "Hourly" | "Production";
+  earningsCode: string;
+  hours: number; // Hourly: regular hours
+  overtimeHours: number; // Hourly only
+  amount: number; // Production: container pay
+  makeUpAmount: number; // Production only
+  adjustmentAmount: number; // Hourly only: dollar adjustments paid on top of wages
+  issues: PayrollExportIssue[];
+};
+
+/** One earnings code on a worker's export: hours or a dollar amount. */
+export type PayrollExportEarning = { code: string; hours: number | null; amount: number | null };
+
+type SettingsField = { key: "companyCode" | "batchId"; label: string };
+
+export type PayrollExportFormatter = {
+  id: PayrollProviderId;
+  label: string;
+  defaultEarningsCodes: EarningsCodes;
+  settingsFields: SettingsField[];
+  header: string[];
+  formatRow(
+    line: PayrollExportLine,
+    earning: PayrollExportEarning,
+    period: Pick<PayrollPeriod, "periodStart" | "periodEnd">,
+    settings: PayrollExportSettings
+  ): CsvCell[];
+};
+
+function hoursCell(earning: PayrollExportEarning): CsvCell {
+  return earning.hours !== null ? earning.hours.toFixed(2) : "";
+}
+
+function amountCell(earning: PayrollExportEarning): CsvCell {
+  return earning.amount !== null ? earning.amount.toFixed(2) : "";
+}
+
+/** "Ana M Lopez" → { first: "Ana M", last: "Lopez" } */
+export function splitWorkerName(name: string): { first: string; last: string } {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return { first: parts[0] ?? "", last: "" };
+  return { first: parts.slice(0, -1).join(" "), last: parts[parts.length - 1] };
+}
+
+export const PAYROLL_EXPORT_FORMATTERS: Record<PayrollProviderId, PayrollExportFormatter> = {
+  // ADP Workforce Now paydata (EPI) import
+  adp: {
+    id: "adp",
+    label: "ADP (Workforce Now paydata)",
+    defaultEarningsCodes: { production: "PCS", hourly: "REG", overtime: "OT", makeUp: "MUP" },
+    settingsFields: [
+      { key: "companyCode", label: "Co Code" },
+      { key: "batchId", label: "Batch ID" },
+    ],
+    header: [
+      "Co Code",
+      "Batch ID",
+      "File #",
+      "Employee Name",
+      "Hours 3 Code",
+      "Hours 3 Amount",
+      "Earnings 3 Code",
+      "Earnings 3 Amount",
+    ],
+    formatRow: (line, earning, _period, settings) => [
+      settings.companyCode,
+      settings.batchId,
+      line.employeeNumber,
+      line.workerName,
+      earning.hours !== null ? earning.code : "",
+      hoursCell(earning),
+      earning.amount !== null ? earning.code : "",
+      amountCell(earning),
+    ],
+  },
+
+  // Paychex Flex payroll import
+  paychex: {
+    id: "paychex",
+    label: "Paychex Flex",
+    defaultEarningsCodes: { production: "Piecework", hourly: "Hourly", overtime: "Overtime", makeUp: "Piecework Makeup" },
+    settingsFields: [{ key: "companyCode", label: "Client ID" }],
+    header: ["Client ID", "Worker ID", "Worker Name", "Pay Component", "Hours", "Amount", "Line Date"],
+    formatRow: (line, earning, period, settings) => [
+      settings.companyCode,
+      line.employeeNumber,
+      line.workerName,
+      earning.code,
+      hoursCell(earning),
+      amountCell(earning),
+      period.periodEnd,
+    ],
+  },
+
+  // Gusto hours & earnings import
+  gusto: {
+    id: "gusto",
+    label: "Gusto",
+    defaultEarningsCodes: {
+      production: "Piece Rate",
+      hourly: "Regular Hours",
+      overtime: "Overtime Hours",
+      makeUp: "Minimum Wage Makeup",
+    },
+    settingsFields: [],
+    header: [
+      "Employee ID",
+      "Last Name",
+      "First Name",
+      "Earning Type",
+      "Hours",
+      "Amount",
+      "Pay Period Start",
+      "Pay Period End",
+    ],
+    formatRow: (line, earning, period) => {
+      const { first, last } = splitWorkerName(line.workerName);
+      return [
+        line.employeeNumber,
+        last,
+        first,
+        earning.code,
+        hoursCell(earning),
+        amountCell(earning),
+        period.periodStart,
+        period.periodEnd,
+      ];
+    },
+  },
+};
+
+export function isPayrollProvider(v: unknown): v is PayrollProviderId {
+  return typeof v === "string" && (PAYROLL_PROVIDERS as readonly string[]).includes(v);
+}
+
+export function defaultExportSettings(provider: PayrollProviderId): PayrollExportSettings {
+  return {
+    companyCode: "",
+    batchId: "",
+    earningsCodes: { ...PAYROLL_EXPORT_FORMATTERS[provider].defaultEarningsCodes },
+  };
+}
+
+/**
+ * One export line per worker with pay, minutes or adjustments in the period
+ * (clock-only Hourly workers and Production workers owed only make-up pay
+ * included), with the
+ * problems that would make the provider reject (error) or mis-pay (warning) it.
+ */
+export function buildPayrollExportLines(
+  totals: PayrollWorkerTotal[],
+  workforce: WorkforceWorker[],
+  codes: EarningsCodes
+): PayrollExportLine[] {
+  const byId = new Map(workforce.map((w) => [w.id, w]));
+  const byName = new Map<string, WorkforceWorker[]>();
+  for (const w of workforce) {
+    const key = workerKey(w.name);
+    if (!key) continue;
+    byName.set(key, [...(byName.get(key) ?? []), w]);
+  }
+
+  const lines: PayrollExportLine[] = [];
+
+  for (const t of totals) {
+    const wageMinutes = t.wages ? t.wages.regularMinutes + t.wages.overtimeMinutes : 0;
+    const adjusted = t.adjustmentPayout !== 0 || t.adjustmentMinutes !== 0;
+    if (t.grossPay === 0 && t.payout === 0 && t.minutes === 0 && wageMinutes === 0 && !adjusted) continue;
+
+    const issues: PayrollExportIssue[] = [];
+    // Linked contributions name their workforce row; older ones match by name
+    const linkedId = workforceIdFromKey(t.workerKey);
+    const linked = linkedId ? byId.get(linkedId) : undefined;
+    const matches = linkedId ? (linked ? [linked] : []) : byName.get(t.workerKey) ?? [];
+    const numbered = matches.filter((m) => !!m.employeeNumber);
+    const employeeNumbers = new Set(numbered.map((m) => m.employeeNumber));
+    const person = numbered[0] ?? matches[0] ?? null;
+
+    if (matches.length === 0) {
+      issues.push({ level: "error", message: "Not on the workforce roster, so there is no employee ID." });
+    } else if (employeeNumbers.size === 0) {
+      issues.push({ level: "error", message: "Workforce record has no employee / file number." });
+    } else if (employeeNumbers.size > 1) {
+      issues.push({
+        level: "error",
+        message: `Name matches ${employeeNumbers.size} workforce records with different employee IDs.`,
+      });
+    }
+
+    let rateType: "Hourly" | "Production" = "Production";
+    if (person?.rateType) {
+      rateType = person.rateType;
+    } else if (person) {
+      issues.push({ level: "warning", message: "No rate type on the workforce record; exported as Production." });
+    }
+
+    // Snapshot wage pay splits hours into regular/overtime and adds make-up pay
+    const wages = t.wages?.rateType === rateType ? t.wages : null;
+    const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+    const hours = toHours(wages ? wages.regularMinutes : t.minutes);
+    const overtimeHours = wages ? toHours(wages.overtimeMinutes) : 0;
+
+    if (t.payout < 0) issues.push({ level: "error", message: "Total pay is negative after adjustments." });
+    if (rateType === "Hourly" && hours + overtimeHours <= 0) {
+      issues.push({ level: "warning", message: "Hourly worker has no minutes recorded." });
+    }
+    if (wages?.belowMinimum) {
+      issues.push({
+        level: "warning",
+        message: `Workforce rate is below the $${wages.hourlyRate.toFixed(2)}/h minimum wage.`,
+      });
+    }
+    if (rateType === "Hourly" && wages?.hoursSource === "containers") {
+      issues.push({ level: "warning", message: "No time clock punches this week; hours are container minutes." });
+    }
+
+    lines.push({
+      workerKey: t.workerKey,
+      workerName: t.workerName,
+      workforceId: person?.id ?? null,
+      employeeNumber: employeeNumbers.size === 1 ? (numbered[0].employeeNumber as string) : null,
+      rateType,
+      earningsCode: rateType === "Hourly" ? codes.hourly : codes.production,
+      hours,
+      overtimeHours,
+      amount: t.payout,
+      makeUpAmount: wages?.rateType === "Production" ? wages.makeUpPay : 0,
+      adjustmentAmount: rateType === "Hourly" ? t.adjustmentPayout : 0,
+      issues,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * The earnings codes a line is sent under: hours for Hourly (plus adjustment
+ * dollars under the production code), dollars for Production.
+ */
+export function exportEarnings(line: PayrollExportLine, codes: EarningsCodes): PayrollExportEarning[] {
+  if (line.rateType === "Hourly") {
+    const earnings: PayrollExportEarning[] = [{ code: codes.hourly, hours: line.hours, amount: null }];
+    if (line.overtimeHours > 0) earnings.push({ code: codes.overtime, hours: line.overtimeHours, amount: null });
+    if (line.adjustmentAmount !== 0) earnings.push({ code: codes.production, hours: null, amount: line.adjustmentAmount });
+    return earnings;
+  }
+  const earnings: PayrollExportEarning[] = [{ code: codes.production, hours: null, amount: line.amount }];
+  if (line.makeUpAmount > 0) earnings.push({ code: codes.makeUp, hours: null, amount: line.makeUpAmount });
+  return earnings;
+}
+
+/** Problems with the export as a whole (missing company code, blank earnings codes). */
+export function validateExportSettings(provider: PayrollProviderId, settings: PayrollExportSettings): string[] {
+  const problems: string[] = [];
+  for (const field of PAYROLL_EXPORT_FORMATTERS[provider].settingsFields) {
+    if (!settings[field.key].trim()) problems.push(`${field.label} is required.`);
+  }
+  if (!settings.earningsCodes.production.trim()) problems.push("Production earnings code is required.");
+  if (!settings.earningsCodes.hourly.trim()) problems.push("Hourly earnings code is required.");
+  if (!settings.earningsCodes.overtime.trim()) problems.push("Overtime earnings code is required.");
+  if (!settings.earningsCodes.makeUp.trim()) problems.push("Make-up pay earnings code is required.");
+  return problems;
+}
+
+export function payrollExportSummary(lines: PayrollExportLine[]) {
+  const blocked = lines.filter((l) => l.issues.some((i) => i.level === "error"));
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    workers: lines.length,
+    blocked: blocked.length,
+    warnings: lines.filter((l) => l.issues.some((i) => i.level === "warning")).length,
+    totalAmount: round(lines.reduce((sum, l) => sum + (l.rateType === "Production" ? l.amount : 0), 0)),
+    totalHours: round(lines.reduce((sum, l) => sum + (l.rateType === "Hourly" ? l.hours : 0), 0)),
+    totalOvertimeHours: round(lines.reduce((sum, l) => sum + (l.rateType === "Hourly" ? l.overtimeHours : 0), 0)),
+    totalMakeUp: round(lines.reduce((sum, l) => sum + (l.rateType === "Production" ? l.makeUpAmount : 0), 0)),
+    totalHourlyAdjustments: round(lines.reduce((sum, l) => sum + (l.rateType === "Hourly" ? l.adjustmentAmount : 0), 0)),
+  };
+}
+
+/**
+ * The CSV for a provider. Refuses (returns an error) while any line or the
+ * settings have errors, so a partial file never reaches the provider.
+ */
+export function buildPayrollExport(
+  provider: PayrollProviderId,
+  lines: PayrollExportLine[],
+  period: Pick<PayrollPeriod, "periodStart" | "periodEnd">,
+  settings: PayrollExportSettings
+): { ok: true; filename: string; header: string[]; rows: CsvCell[][] } | { ok: false; error: string } {
+  const settingsProblems = validateExportSettings(provider, settings);
+  if (settingsProblems.length > 0) return { ok: false, error: settingsProblems[0] };
+
+  const { blocked } = payrollExportSummary(lines);
+  if (blocked > 0) return { ok: false, error: `${blocked} worker(s) need fixing before export.` };
+
+  const formatter = PAYROLL_EXPORT_FORMATTERS[provider];
+  const resolved: PayrollExportSettings = {
+    ...settings,
+    companyCode: settings.companyCode.trim(),
+    batchId: settings.batchId.trim(),
+  };
+
+  return {
+    ok: true,
+    filename: `${provider}-payroll-${period.periodStart}-to-${period.periodEnd}.csv`,
+    header: formatter.header,
+    rows: lines.flatMap((l) =>
+      exportEarnings(l, settings.earningsCodes).map((earning) => formatter.formatRow(l, earning, period, resolved))
+    ),
+  };
+}
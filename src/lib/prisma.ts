@@ -1,5 +0,0 @@
-// src/lib/prisma.ts
-// Prisma is NOT used in this version of Precision Pulse.
-// We keep this stub so that any old imports compile without errors.
-
-export const prisma: any = {};
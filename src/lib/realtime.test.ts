@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { applyRealtimeChange, realtimeFilter, type RealtimeChange } from "@/lib/realtime";
+
+type Row = { id: string; building: string; label: string };
+
+const map = (row: Record<string, unknown>): Row => ({
+  id: String(row.id),
+  building: String(row.building ?? ""),
+  label: String(row.label ?? ""),
+});
+
+const rows: Row[] = [
+  { id: "1", building: "DC1", label: "first" },
+  { id: "2", building: "DC1", label: "second" },
+];
+
+function change(eventType: RealtimeChange["eventType"], row: Record<string, unknown>): RealtimeChange {
+  return eventType === "DELETE" ? { eventType, new: {}, old: row } : { eventType, new: row, old: { id: row.id } };
+}
+
+describe("realtimeFilter", () => {
+  it("filters by building unless every building is in view", () => {
+    expect(realtimeFilter("DC1")).toBe("building=eq.DC1");
+    expect(realtimeFilter("ALL")).toBeUndefined();
+    expect(realtimeFilter(null)).toBeUndefined();
+    expect(realtimeFilter("  ")).toBeUndefined();
+  });
+});
+
+describe("applyRealtimeChange", () => {
+  it("adds inserts at the start or end", () => {
+    const row = { id: "3", building: "DC1", label: "third" };
+    expect(applyRealtimeChange(rows, change("INSERT", row), { map }).map((r) => r.id)).toEqual(["3", "1", "2"]);
+    expect(applyRealtimeChange(rows, change("INSERT", row), { map, position: "end" }).map((r) => r.id)).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+  });
+
+  it("replaces updates in place and treats a repeated insert as an update", () => {
+    const updated = applyRealtimeChange(rows, change("UPDATE", { id: 2, building: "DC1", label: "edited" }), { map });
+    expect(updated).toEqual([rows[0], { id: "2", building: "DC1", label: "edited" }]);
+
+    const again = applyRealtimeChange(rows, change("INSERT", { id: "1", building: "DC1", label: "same" }), { map });
+    expect(again).toHaveLength(2);
+    expect(again[0].label).toBe("same");
+  });
+
+  it("removes deletes and rows that leave the page's scope", () => {
+    expect(applyRealtimeChange(rows, change("DELETE", { id: "1" }), { map })).toEqual([rows[1]]);
+
+    const match = (r: Row) => r.building === "DC1";
+    const moved = applyRealtimeChange(rows, change("UPDATE", { id: "2", building: "DC5" }), { map, match });
+    expect(moved).toEqual([rows[0]]);
+  });
+
+  it("returns the same array when nothing changes", () => {
+    const match = (r: Row) => r.building === "DC1";
+    expect(applyRealtimeChange(rows, change("DELETE", { id: "9" }), { map })).toBe(rows);
+    expect(applyRealtimeChange(rows, change("INSERT", { id: "9", building: "DC5" }), { map, match })).toBe(rows);
+    expect(applyRealtimeChange(rows, change("INSERT", { building: "DC1" }), { map })).toBe(rows);
+  });
+});
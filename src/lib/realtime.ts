@@ -0,0 +1,67 @@
+// src/lib/realtime.ts
+// Shared by useRealtimeTable() and the pages that merge its changes — keep
+// this free of browser/server-only imports.
+
+/**
+ * Supabase Realtime row changes for the live lists (chats, containers, work
+ * orders, damage reports). Inserts and updates are narrowed to a building on
+ * the server (deletes can't be filtered, and only match rows already listed);
+ * anything finer (shift, filters) is a `match` on the mapped row.
+ */
+
+export type RealtimeEvent = "INSERT" | "UPDATE" | "DELETE";
+
+export type RealtimeChange = {
+  eventType: RealtimeEvent;
+  new: Record<string, unknown>; // empty on DELETE
+  old: Record<string, unknown>; // only the primary key on UPDATE/DELETE
+};
+
+export type RealtimeMergeOptions<T> = {
+  map: (row: Record<string, unknown>) => T;
+  /** Rows outside the page's scope are dropped (and removed if already listed). */
+  match?: (item: T) => boolean;
+  /** Where a new row goes: "start" for newest-first lists, "end" for oldest-first. */
+  position?: "start" | "end";
+  getId?: (item: T) => unknown;
+};
+
+/** postgres_changes filter for a building, or undefined for every building. */
+export function realtimeFilter(building: string | null | undefined): string | undefined {
+  const b = (building || "").trim();
+  return b && b !== "ALL" ? `building=eq.${b}` : undefined;
+}
+
+function changeId(change: RealtimeChange): string | null {
+  const raw = change.eventType === "DELETE" ? change.old.id : change.new.id ?? change.old.id;
+  return raw == null || raw === "" ? null : String(raw);
+}
+
+/**
+ * Merge one change into a list: inserts are added, updates replaced in place
+ * (or added when the row just moved into scope), deletes removed. Returns the
+ * same array when nothing changed, so React can skip the render.
+ */
+export function applyRealtimeChange<T>(rows: T[], change: RealtimeChange, options: RealtimeMergeOptions<T>): T[] {
+  const id = changeId(change);
+  if (!id) return rows;
+
+  const getId = options.getId ?? ((item: T) => (item as { id?: unknown }).id);
+  const index = rows.findIndex((r) => String(getId(r)) === id);
+
+  if (change.eventType === "DELETE") {
+    return index === -1 ? rows : rows.filter((_, i) => i !== index);
+  }
+
+  const item = options.map(change.new);
+  if (options.match && !options.match(item)) {
+    return index === -1 ? rows : rows.filter((_, i) => i !== index);
+  }
+
+  if (index !== -1) {
+    const next = [...rows];
+    next[index] = item;
+    return next;
+  }
+  return options.position === "end" ? [...rows, item] : [item, ...rows];
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { mapContainerRow } from "@/lib/domain/containers";
+import { buildCustomerTotals, buildLeaderboard, buildShiftPerformance, calcPPH } from "@/lib/reportMetrics";
+import { containerRows } from "@/test/fixtures";
+
+const containers = containerRows.map(mapContainerRow);
+
+describe("calcPPH", () => {
+  it("is pieces per hour of recorded minutes", () => {
+    expect(calcPPH(1200, 210)).toBeCloseTo(342.857, 3);
+  });
+
+  it("is 0 when no minutes were recorded", () => {
+    expect(calcPPH(6000, 0)).toBe(0);
+  });
+});
+
+describe("buildShiftPerformance", () => {
+  it("groups by New York date, building and shift", () => {
+    const rows = buildShiftPerformance(containers);
+
+    expect(rows.map((r) => [r.date, r.building, r.shift])).toEqual([
+      ["2026-03-08", "DC1", "1st"],
+      ["2026-03-08", "DC1", "2nd"],
+      ["2026-03-10", "DC5", "1st"],
+    ]);
+    expect(rows[1]).toMatchObject({ containers: 1, piecesTotal: 400, minutesTotal: 60, pph: 400 });
+    expect(rows[2].pph).toBe(0);
+  });
+
+  it("adds up containers in the same group", () => {
+    const twice = [containers[0], { ...containers[0], id: "c-1b" }];
+    const [row] = buildShiftPerformance(twice);
+    expect(row).toMatchObject({ containers: 2, piecesTotal: 2400, minutesTotal: 420 });
+    expect(row.pph).toBeCloseTo(342.857, 3);
+  });
+});
+
+describe("buildLeaderboard", () => {
+  it("merges workers case-insensitively and ranks by payout", () => {
+    const rows = buildLeaderboard(containers);
+
+    expect(rows.map((r) => r.workerName)).toEqual(["Cara Diaz", "Ana Lopez", "Ben Cole"]);
+    expect(rows[1]).toEqual({
+      workerName: "Ana Lopez",
+      building: "DC1",
+      totalPayout: 178,
+      totalPieces: 1600,
+      totalContainers: 2,
+      totalMinutes: 180,
+      avgPPH: 533.3,
+    });
+  });
+
+  it("labels workers seen in more than one building", () => {
+    const moved = { ...containers[2], workers: [{ ...containers[2].workers[0], name: "Ben Cole" }] };
+    const ben = buildLeaderboard([containers[0], moved]).find((r) => r.workerName === "Ben Cole");
+    expect(ben?.building).toBe("Multiple");
+  });
+
+  it("counts a container's pieces once per worker", () => {
+    const dup = {
+      ...containers[0],
+      workers: [
+        { name: "Ana Lopez", workforceId: null, minutesWorked: 30, percentContribution: 50, payout: 65 },
+        { name: "ANA LOPEZ", workforceId: null, minutesWorked: 30, percentContribution: 50, payout: 65 },
+      ],
+    };
+    const [row] = buildLeaderboard([dup]);
+    expect(row).toMatchObject({ totalContainers: 1, totalPieces: 1200, totalMinutes: 60, totalPayout: 130 });
+  });
+
+  it("skips blank names and respects the limit", () => {
+    const blank = {
+      ...containers[0],
+      workers: [{ name: "  ", workforceId: null, minutesWorked: 1, percentContribution: 100, payout: 1 }],
+    };
+    expect(buildLeaderboard([blank])).toEqual([]);
+    expect(buildLeaderboard(containers, 1)).toHaveLength(1);
+  });
+});
+
+describe("buildCustomerTotals", () => {
+  it("totals containers by their work order's customer", () => {
+    const byWorkOrder = new Map([
+      ["wo-1", "cu-acme"],
+      ["wo-2", "cu-acme"],
+    ]);
+    const rows = buildCustomerTotals(containers, byWorkOrder, [{ id: "cu-acme", name: "Acme" }]);
+
+    expect(rows.map((r) => [r.customer, r.containers, r.piecesTotal, r.minutesTotal, r.payTotal])).toEqual([
+      ["Acme", 2, 7200, 210, 385],
+      ["Unassigned", 1, 400, 60, 100],
+    ]);
+    expect(rows[1]).toMatchObject({ customerId: null, pph: 400 });
+  });
+
+  it("labels customers missing from the list", () => {
+    const [row] = buildCustomerTotals([containers[0]], new Map([["wo-1", "cu-gone"]]), []);
+    expect(row).toMatchObject({ customerId: "cu-gone", customer: "Unknown customer" });
+  });
+});
@@ -0,0 +1,188 @@
+// src/lib/reportMetrics.ts
+import { containerDateNY, containerMinutes, contributionKey, type ContainerRow } from "@/lib/domain/containers";
+import { containerCustomerId, UNASSIGNED_CUSTOMER, type Customer } from "@/lib/domain/customers";
+
+/**
+ * Aggregations behind the Reports page (and the dashboard PPH numbers).
+ * Pure functions over mapped container rows, so they can be unit tested.
+ */
+
+export type ShiftPerfRow = {
+  date: string;
+  building: string;
+  shift: string;
+  containers: number;
+  piecesTotal: number;
+  minutesTotal: number;
+  pph: number;
+};
+
+export type LeaderboardRow = {
+  workerName: string;
+  building: string | "Multiple";
+  totalPayout: number;
+  totalPieces: number;
+  totalContainers: number;
+  totalMinutes: number;
+  avgPPH: number;
+};
+
+export type CustomerTotalsRow = {
+  customerId: string | null; // null = work order has no customer
+  customer: string;
+  containers: number;
+  piecesTotal: number;
+  minutesTotal: number;
+  payTotal: number;
+  pph: number;
+};
+
+export const LEADERBOARD_SIZE = 25;
+
+/** Pieces per hour; 0 when no minutes were recorded. */
+export function calcPPH(pieces: number, minutes: number): number {
+  return minutes === 0 ? 0 : (pieces * 60) / minutes;
+}
+
+/** One row per date × building × shift, oldest first. */
+export function buildShiftPerformance(containers: ContainerRow[]): ShiftPerfRow[] {
+  const map = new Map<string, ShiftPerfRow>();
+
+  for (const c of containers) {
+    const date = containerDateNY(c);
+    const building = c.building;
+    const shift = c.shift ?? "";
+    const key = `${date}|${building}|${shift}`;
+
+    if (!map.has(key)) {
+      map.set(key, { date, building, shift, containers: 0, piecesTotal: 0, minutesTotal: 0, pph: 0 });
+    }
+
+    const row = map.get(key)!;
+    row.containers += 1;
+    row.piecesTotal += c.pieces_total;
+    row.minutesTotal += containerMinutes(c);
+  }
+
+  for (const row of map.values()) {
+    row.pph = calcPPH(row.piecesTotal, row.minutesTotal);
+  }
+
+  return Array.from(map.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Per-worker totals, highest payout first.
+ * Names match case-insensitively; a container's pieces count once per worker
+ * even if the worker appears on it twice.
+ */
+export function buildLeaderboard(containers: ContainerRow[], limit = LEADERBOARD_SIZE): LeaderboardRow[] {
+  const map = new Map<
+    string,
+    {
+      workerName: string;
+      buildings: Set<string>;
+      totalPayout: number;
+      totalPieces: number;
+      totalContainers: number;
+      totalMinutes: number;
+    }
+  >();
+
+  for (const c of containers) {
+    const uniqueContainerWorkers = new Set<string>();
+
+    for (const w of c.workers) {
+      const workerName = w.name.trim();
+      if (!workerName) continue;
+
+      const key = contributionKey(w);
+
+      if (!map.has(key)) {
+        map.set(key, {
+          workerName,
+          buildings: new Set<string>(),
+          totalPayout: 0,
+          totalPieces: 0,
+          totalContainers: 0,
+          totalMinutes: 0,
+        });
+      }
+
+      const entry = map.get(key)!;
+      if (c.building) entry.buildings.add(c.building);
+
+      entry.totalPayout += w.payout;
+      entry.totalMinutes += w.minutesWorked;
+
+      if (!uniqueContainerWorkers.has(key)) {
+        entry.totalContainers += 1;
+        entry.totalPieces += c.pieces_total;
+        uniqueContainerWorkers.add(key);
+      }
+    }
+  }
+
+  const rows: LeaderboardRow[] = [];
+  for (const entry of map.values()) {
+    const buildingsArr = Array.from(entry.buildings);
+    const buildingLabel =
+      buildingsArr.length === 0 ? "Unknown" : buildingsArr.length === 1 ? buildingsArr[0] : "Multiple";
+
+    rows.push({
+      workerName: entry.workerName,
+      building: buildingLabel,
+      totalPayout: Number(entry.totalPayout.toFixed(2)),
+      totalPieces: entry.totalPieces,
+      totalContainers: entry.totalContainers,
+      totalMinutes: entry.totalMinutes,
+      avgPPH: Number(calcPPH(entry.totalPieces, entry.totalMinutes).toFixed(1)),
+    });
+  }
+
+  rows.sort((a, b) => b.totalPayout - a.totalPayout);
+  return rows.slice(0, limit);
+}
+
+/**
+ * Per-customer totals, most containers first. A container's customer comes
+ * from its work order; containers without one land in "Unassigned".
+ */
+export function buildCustomerTotals(
+  containers: ContainerRow[],
+  customerIdByWorkOrder: Map<string, string | null>,
+  customers: Pick<Customer, "id" | "name">[]
+): CustomerTotalsRow[] {
+  const names = new Map(customers.map((c) => [c.id, c.name]));
+  const map = new Map<string, CustomerTotalsRow>();
+
+  for (const c of containers) {
+    const customerId = containerCustomerId(c, customerIdByWorkOrder);
+    const key = customerId ?? "";
+
+    if (!map.has(key)) {
+      map.set(key, {
+        customerId,
+        customer: customerId ? names.get(customerId) ?? "Unknown customer" : UNASSIGNED_CUSTOMER,
+        containers: 0,
+        piecesTotal: 0,
+        minutesTotal: 0,
+        payTotal: 0,
+        pph: 0,
+      });
+    }
+
+    const row = map.get(key)!;
+    row.containers += 1;
+    row.piecesTotal += c.pieces_total;
+    row.minutesTotal += containerMinutes(c);
+    row.payTotal += c.pay_total;
+  }
+
+  for (const row of map.values()) {
+    row.payTotal = Number(row.payTotal.toFixed(2));
+    row.pph = calcPPH(row.piecesTotal, row.minutesTotal);
+  }
+
+  return Array.from(map.values()).sort((a, b) => b.containers - a.containers || a.customer.localeCompare(b.customer));
+}
@@ -0,0 +1,182 @@
+// src/lib/roles.ts
+// Shared by client pages and server routes — keep this free of browser/server-only imports.
+
+export const ACCESS_ROLES = [
+  "Worker",
+  "Lead",
+  "Supervisor",
+  "Building Manager",
+  "HR",
+  "HQ",
+  "Admin",
+  "Super Admin",
+] as const;
+
+export type AccessRole = (typeof ACCESS_ROLES)[number];
+
+export function sanitizeRole(raw: unknown): AccessRole {
+  if (typeof raw !== "string") return "Worker";
+  const match = ACCESS_ROLES.find((r) => r.toLowerCase() === raw.toLowerCase());
+  return match ?? "Worker";
+}
+
+/** Roles that only ever see/write their own building. */
+export const BUILDING_SCOPED_ROLES: readonly AccessRole[] = ["Lead", "Building Manager"];
+
+/** Roles that may only change rows they created (within their building). */
+export const OWN_ROWS_ONLY_ROLES: readonly AccessRole[] = ["Lead"];
+
+export type Permission =
+  | "containers.read"
+  | "containers.write"
+  | "containers.delete"
+  | "payroll.read"
+  | "payroll.manage"
+  | "payroll.approve"
+  | "invoices.read"
+  | "invoices.manage"
+  | "customers.manage"
+  | "workforce.manage"
+  | "chats.delete"
+  | "messages.read"
+  | "schedules.manage"
+  | "timeclock.punch"
+  | "minutes.reconcile"
+  | "audit.read"
+  | "safety.manage"
+  | "payscales.manage"
+  | "notifications.sweep"
+  | "users.manage";
+
+/**
+ * ✅ Role × permission matrix (enforced server-side in src/lib/authz.ts).
+ * Building scope and row ownership are applied on top of this.
+ */
+export const ROLE_PERMISSIONS: Record<AccessRole, readonly Permission[]> = {
+  Worker: ["containers.read"],
+  Lead: ["containers.read", "containers.write", "timeclock.punch"],
+  Supervisor: ["containers.read", "containers.write", "containers.delete", "schedules.manage", "timeclock.punch"],
+  "Building Manager": [
+    "containers.read",
+    "containers.write",
+    "workforce.manage",
+    "schedules.manage",
+    "timeclock.punch",
+    "minutes.reconcile",
+    "safety.manage",
+  ],
+  HR: ["containers.read", "payroll.read", "payroll.manage", "messages.read", "safety.manage"],
+  HQ: [
+    "containers.read",
+    "containers.write",
+    "containers.delete",
+    "payroll.read",
+    "payroll.manage",
+    "payroll.approve",
+    "invoices.read",
+    "invoices.manage",
+    "customers.manage",
+    "workforce.manage",
+    "messages.read",
+    "schedules.manage",
+    "timeclock.punch",
+    "minutes.reconcile",
+    "audit.read",
+    "safety.manage",
+  ],
+  Admin: [
+    "containers.read",
+    "containers.write",
+    "containers.delete",
+    "payroll.read",
+    "payroll.manage",
+    "payroll.approve",
+    "invoices.read",
+    "invoices.manage",
+    "customers.manage",
+    "workforce.manage",
+    "messages.read",
+    "schedules.manage",
+    "timeclock.punch",
+    "minutes.reconcile",
+    "audit.read",
+    "safety.manage",
+    "notifications.sweep",
+  ],
+  "Super Admin": [
+    "containers.read",
+    "containers.write",
+    "containers.delete",
+    "payroll.read",
+    "payroll.manage",
+    "payroll.approve",
+    "invoices.read",
+    "invoices.manage",
+    "customers.manage",
+    "workforce.manage",
+    "chats.delete",
+    "messages.read",
+    "schedules.manage",
+    "timeclock.punch",
+    "minutes.reconcile",
+    "audit.read",
+    "safety.manage",
+    "payscales.manage",
+    "notifications.sweep",
+    "users.manage",
+  ],
+};
+
+export function hasPermission(role: AccessRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function isBuildingScoped(role: AccessRole): boolean {
+  return BUILDING_SCOPED_ROLES.includes(role);
+}
+
+/**
+ * Permission required for each /api prefix (longest prefix wins).
+ * Routes not listed only require a signed-in, active account.
+ */
+export const API_ROUTE_PERMISSIONS: { prefix: string; methods?: readonly string[]; permission: Permission }[] = [
+  { prefix: "/api/containers", methods: ["GET"], permission: "containers.read" },
+  { prefix: "/api/containers", methods: ["POST", "PATCH", "PUT"], permission: "containers.write" },
+  { prefix: "/api/containers", methods: ["DELETE"], permission: "containers.delete" },
+  { prefix: "/api/payroll", methods: ["GET"], permission: "payroll.read" },
+  { prefix: "/api/payroll", methods: ["POST", "PATCH", "PUT", "DELETE"], permission: "payroll.manage" },
+  { prefix: "/api/invoices", methods: ["GET"], permission: "invoices.read" },
+  { prefix: "/api/invoices", methods: ["POST", "PATCH", "PUT", "DELETE"], permission: "invoices.manage" },
+  { prefix: "/api/rate-cards", methods: ["GET"], permission: "invoices.read" },
+  { prefix: "/api/rate-cards", methods: ["POST", "PATCH", "PUT", "DELETE"], permission: "invoices.manage" },
+  { prefix: "/api/customers", methods: ["GET"], permission: "containers.read" },
+  { prefix: "/api/customers", methods: ["POST", "PATCH", "PUT", "DELETE"], permission: "customers.manage" },
+  { prefix: "/api/workforce", permission: "workforce.manage" },
+  { prefix: "/api/chats", methods: ["DELETE"], permission: "chats.delete" },
+  { prefix: "/api/messages", permission: "messages.read" },
+  { prefix: "/api/schedules", methods: ["POST", "PATCH", "PUT", "DELETE"], permission: "schedules.manage" },
+  { prefix: "/api/time-clock", permission: "timeclock.punch" },
+  { prefix: "/api/minutes-reconciliation", permission: "minutes.reconcile" },
+  { prefix: "/api/worker-history", methods: ["GET"], permission: "containers.read" },
+  { prefix: "/api/audit-log", methods: ["GET"], permission: "audit.read" },
+  { prefix: "/api/audit-log/record", methods: ["GET"], permission: "containers.read" },
+  { prefix: "/api/osha", permission: "safety.manage" },
+  { prefix: "/api/investigations", permission: "safety.manage" },
+  { prefix: "/api/hazard-reports", methods: ["PATCH"], permission: "safety.manage" },
+  { prefix: "/api/injury-reports", methods: ["PATCH", "PUT"], permission: "safety.manage" },
+  { prefix: "/api/pay-scales", permission: "payscales.manage" },
+  { prefix: "/api/notifications/sweep", methods: ["POST"], permission: "notifications.sweep" },
+  { prefix: "/api/admin", permission: "users.manage" },
+  { prefix: "/api/auth-users", permission: "users.manage" },
+  { prefix: "/api/password-reset", permission: "users.manage" },
+];
+
+export function permissionForApiRoute(pathname: string, method: string): Permission | null {
+  let best: { prefix: string; permission: Permission } | null = null;
+  for (const rule of API_ROUTE_PERMISSIONS) {
+    if (pathname !== rule.prefix && !pathname.startsWith(rule.prefix + "/")) continue;
+    if (rule.methods && !rule.methods.includes(method.toUpperCase())) continue;
+    if (!best || rule.prefix.length > best.prefix.length) best = rule;
+  }
+  return best?.permission ?? null;
+}
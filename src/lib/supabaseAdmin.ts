@@ -3,6 +3,8 @@
 // DO NOT import this into client components.
 
 import { createClient } from "@supabase/supabase-js";
+import { auditActorHeaders } from "@/lib/domain/auditLog";
+import type { AccessRole } from "@/lib/roles";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -22,3 +24,18 @@ export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
     persistSession: false,
   },
 });
+
+/**
+ * Service-role client that names the caller in the audit log. Use it for
+ * writes to audited tables (see AUDITED_TABLES); plain supabaseAdmin writes
+ * are logged with no actor.
+ */
+export function supabaseAdminAs(actor: { id: string; email: string; accessRole: AccessRole }) {
+  return createClient(supabaseUrl!, serviceRoleKey!, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+    global: { headers: auditActorHeaders(actor) },
+  });
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyReplayResult,
+  coalesceWrite,
+  findReplayedRow,
+  idempotencyKey,
+  isStaleVersion,
+  queueCounts,
+  replayHeaders,
+  replayOutcome,
+  type QueuedWrite,
+} from "@/lib/syncProtocol";
+import { createSupabaseStub } from "@/test/supabaseStub";
+
+function write(partial: Partial<QueuedWrite>): QueuedWrite {
+  return {
+    id: "w-1",
+    kind: "container",
+    label: "Container MSCU1234567",
+    method: "POST",
+    url: "/api/containers",
+    body: { containerNo: "MSCU1234567" },
+    baseUpdatedAt: null,
+    queuedAt: "2026-03-08T12:00:00.000Z",
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    serverRecord: null,
+    ...partial,
+  };
+}
+
+function request(headers: Record<string, string>): Request {
+  return new Request("http://localhost/api/containers/c-1", { method: "PATCH", headers });
+}
+
+describe("replay outcomes", () => {
+  it("classifies response statuses", () => {
+    expect([200, 201, 412, 401, 503, 400, 403, 409].map(replayOutcome)).toEqual([
+      "done",
+      "done",
+      "conflict",
+      "retry",
+      "retry",
+      "failed",
+      "failed",
+      "failed",
+    ]);
+  });
+
+  it("drops a write once it lands and keeps the server's row on conflict", () => {
+    expect(applyReplayResult(write({}), 201, null)).toBeNull();
+
+    const edit = write({ method: "PATCH", url: "/api/containers/c-1", baseUpdatedAt: "2026-03-08T12:00:00Z" });
+    const current = { id: "c-1", updated_at: "2026-03-08T13:00:00Z" };
+    expect(applyReplayResult(edit, 412, { error: "Changed", current })).toMatchObject({
+      status: "conflict",
+      attempts: 1,
+      lastError: "Changed",
+      serverRecord: current,
+    });
+  });
+
+  it("keeps retryable writes pending and fails the rest", () => {
+    expect(applyReplayResult(write({}), 503, null)).toMatchObject({
+      status: "pending",
+      lastError: "Server responded 503",
+    });
+    expect(applyReplayResult(write({}), 409, { error: "Payroll is locked" })).toMatchObject({
+      status: "failed",
+      lastError: "Payroll is locked",
+    });
+  });
+
+  it("sends an Idempotency-Key on creates and If-Match on edits", () => {
+    expect(replayHeaders(write({}))).toMatchObject({ "Idempotency-Key": "w-1" });
+    const headers = replayHeaders(write({ method: "PATCH", baseUpdatedAt: "2026-03-08T12:00:00Z" }));
+    expect(headers["If-Match"]).toBe('"2026-03-08T12:00:00Z"');
+    expect(headers["Idempotency-Key"]).toBeUndefined();
+  });
+});
+
+describe("coalesceWrite", () => {
+  it("folds an edit into the pending edit of the same record", () => {
+    const first = write({
+      id: "w-1",
+      method: "PATCH",
+      url: "/api/startup-checklists/s-1",
+      body: { items: { a: true }, completed_at: null },
+      baseUpdatedAt: "2026-03-08T12:00:00Z",
+    });
+    const next = write({
+      id: "w-2",
+      method: "PATCH",
+      url: "/api/startup-checklists/s-1",
+      body: { items: { a: true, b: true } },
+      queuedAt: "2026-03-08T12:05:00.000Z",
+    });
+
+    expect(coalesceWrite([first], next)).toMatchObject({
+      id: "w-1",
+      baseUpdatedAt: "2026-03-08T12:00:00Z",
+      body: { items: { a: true, b: true }, completed_at: null },
+      queuedAt: "2026-03-08T12:05:00.000Z",
+    });
+  });
+
+  it("leaves creates and conflicted edits alone", () => {
+    const conflicted = write({ method: "PATCH", url: "/api/containers/c-1", status: "conflict" });
+    const edit = write({ id: "w-2", method: "PATCH", url: "/api/containers/c-1" });
+    expect(coalesceWrite([conflicted], edit).id).toBe("w-2");
+    expect(coalesceWrite([write({})], write({ id: "w-3" })).id).toBe("w-3");
+  });
+});
+
+describe("server helpers", () => {
+  it("reads the Idempotency-Key", () => {
+    expect(idempotencyKey(request({ "Idempotency-Key": " abc " }))).toBe("abc");
+    expect(idempotencyKey(request({}))).toBeNull();
+    expect(idempotencyKey(request({ "Idempotency-Key": "x".repeat(101) }))).toBeNull();
+  });
+
+  it("detects a row changed since the If-Match version", () => {
+    const updatedAt = "2026-03-08T12:00:00.123456+00:00";
+    expect(isStaleVersion(request({ "If-Match": '"2026-03-08T12:00:00.123Z"' }), updatedAt)).toBe(false);
+    expect(isStaleVersion(request({ "If-Match": '"2026-03-08T11:59:00Z"' }), updatedAt)).toBe(true);
+    // No If-Match, or a row without updated_at, is never a conflict
+    expect(isStaleVersion(request({}), updatedAt)).toBe(false);
+    expect(isStaleVersion(request({ "If-Match": '"2026-03-08T11:59:00Z"' }), null)).toBe(false);
+  });
+
+  it("finds the row an earlier replay already created", async () => {
+    const { client } = createSupabaseStub({ containers: [{ id: "c-1", client_request_id: "w-1" }] });
+    expect((await findReplayedRow(client, "containers", "w-1")).data).toEqual({ id: "c-1", client_request_id: "w-1" });
+    expect((await findReplayedRow(client, "containers", "w-9")).data).toBeNull();
+  });
+
+  it("counts writes by status", () => {
+    expect(queueCounts([write({}), write({ status: "conflict" }), write({})])).toEqual({
+      pending: 2,
+      conflict: 1,
+      failed: 0,
+    });
+  });
+});
@@ -0,0 +1,133 @@
+// src/lib/syncProtocol.ts
+// Shared by the offline queue (client + public/sw.js) and the API routes it
+// replays into — keep this free of browser/server-only imports.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Container, damage report and startup checklist writes that can't reach the
+ * server are queued in IndexedDB (src/lib/offlineQueue.ts) and replayed by the
+ * service worker's Background Sync, or by the page when it comes back online.
+ *
+ * - Creates carry an Idempotency-Key (the queue entry id). The route stores it
+ *   as client_request_id, so replaying a create whose response was lost
+ *   returns the existing row instead of inserting a duplicate.
+ * - Edits carry If-Match with the updated_at the user was editing. When the
+ *   row changed server-side meanwhile the route answers 412 with the current
+ *   row, and the queue flags the write as a conflict instead of overwriting.
+ *
+ * public/sw.js can't import this file; its replay loop mirrors
+ * replayOutcome(), replayHeaders() and applyReplayResult() — change both together.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IF_MATCH_HEADER = "If-Match";
+
+export type QueuedWriteKind = "container" | "damage_report" | "startup_checklist";
+export type QueuedWriteStatus = "pending" | "conflict" | "failed";
+
+export type QueuedWrite = {
+  id: string; // also the Idempotency-Key of a create
+  kind: QueuedWriteKind;
+  label: string; // "Container MSCU1234567"
+  method: "POST" | "PATCH";
+  url: string;
+  body: unknown;
+  baseUpdatedAt: string | null; // sent as If-Match on edits
+  queuedAt: string;
+  status: QueuedWriteStatus;
+  attempts: number;
+  lastError: string | null;
+  serverRecord: unknown; // the row as it is now, on conflict
+};
+
+export type ReplayOutcome = "done" | "conflict" | "retry" | "failed";
+
+export function replayOutcome(status: number): ReplayOutcome {
+  if (status >= 200 && status < 300) return "done";
+  if (status === 412) return "conflict";
+  // Expired session, timeouts and server errors clear up on a later attempt
+  if (status === 401 || status === 408 || status === 429 || status >= 500) return "retry";
+  return "failed";
+}
+
+export function replayHeaders(write: Pick<QueuedWrite, "id" | "method" | "baseUpdatedAt">): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (write.method === "POST") headers[IDEMPOTENCY_KEY_HEADER] = write.id;
+  if (write.method === "PATCH" && write.baseUpdatedAt) headers[IF_MATCH_HEADER] = `"${write.baseUpdatedAt}"`;
+  return headers;
+}
+
+/**
+ * Queue entry after one replay attempt; null once the server has it.
+ * `body` is the parsed JSON response (`{ error, current }` on failure).
+ */
+export function applyReplayResult(write: QueuedWrite, status: number, body: unknown): QueuedWrite | null {
+  const outcome = replayOutcome(status);
+  if (outcome === "done") return null;
+
+  const b = (body && typeof body === "object" ? body : {}) as { error?: unknown; current?: unknown };
+  const error = typeof b.error === "string" && b.error ? b.error : `Server responded ${status}`;
+
+  return {
+    ...write,
+    status: outcome === "retry" ? "pending" : outcome,
+    attempts: write.attempts + 1,
+    lastError: error,
+    serverRecord: outcome === "conflict" ? b.current ?? null : write.serverRecord,
+  };
+}
+
+/**
+ * Fold an edit into an edit of the same record that is still waiting, so a
+ * run of offline saves replays as one write against the version the user
+ * started from (instead of each later one conflicting with the first).
+ */
+export function coalesceWrite(queued: QueuedWrite[], next: QueuedWrite): QueuedWrite {
+  if (next.method !== "PATCH") return next;
+  const waiting = queued.find((w) => w.method === "PATCH" && w.url === next.url && w.status === "pending");
+  if (!waiting) return next;
+
+  const merged =
+    waiting.body && typeof waiting.body === "object" && next.body && typeof next.body === "object"
+      ? { ...(waiting.body as Record<string, unknown>), ...(next.body as Record<string, unknown>) }
+      : next.body;
+
+  return { ...waiting, label: next.label, body: merged, queuedAt: next.queuedAt };
+}
+
+export function queueCounts(writes: Pick<QueuedWrite, "status">[]): Record<QueuedWriteStatus, number> {
+  const counts: Record<QueuedWriteStatus, number> = { pending: 0, conflict: 0, failed: 0 };
+  for (const w of writes) counts[w.status] += 1;
+  return counts;
+}
+
+// --------------------
+// Server side
+// --------------------
+
+/** Idempotency-Key of a create, or null (ignored when implausibly long). */
+export function idempotencyKey(request: Request): string | null {
+  const key = (request.headers.get(IDEMPOTENCY_KEY_HEADER) || "").trim();
+  return key && key.length <= 100 ? key : null;
+}
+
+/** True when the row moved on from the updated_at the client sent as If-Match. */
+export function isStaleVersion(request: Request, updatedAt: string | null | undefined): boolean {
+  const ifMatch = (request.headers.get(IF_MATCH_HEADER) || "").replace(/^W\//, "").replace(/"/g, "").trim();
+  if (!ifMatch || !updatedAt) return false;
+
+  const sent = Date.parse(ifMatch);
+  const current = Date.parse(updatedAt);
+  if (Number.isNaN(sent) || Number.isNaN(current)) return ifMatch !== updatedAt;
+  return sent !== current;
+}
+
+/** Row an earlier attempt of this create already inserted, if any. */
+export async function findReplayedRow<T>(
+  client: SupabaseClient,
+  table: string,
+  key: string
+): Promise<{ data: T | null; error: unknown }> {
+  const { data, error } = await client.from(table).select("*").eq("client_request_id", key).maybeSingle();
+  return { data: (data as T | null) ?? null, error };
+}
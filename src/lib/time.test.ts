@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { isHHMM, isYMD, nyISODate, nyWallTimeToDate, safeNYISODate, toNYDateOnly, weekStartYMD } from "@/lib/time";
+
+describe("nyISODate", () => {
+  it("uses the New York calendar date, not UTC", () => {
+    expect(nyISODate(new Date("2026-01-15T04:59:00Z"))).toBe("2026-01-14");
+    expect(nyISODate(new Date("2026-01-15T05:00:00Z"))).toBe("2026-01-15");
+  });
+
+  it("handles the spring-forward boundary (UTC-5 → UTC-4)", () => {
+    // 2026-03-08 02:00 EST jumps to 03:00 EDT
+    expect(nyISODate(new Date("2026-03-08T04:59:00Z"))).toBe("2026-03-07");
+    expect(nyISODate(new Date("2026-03-08T06:59:00Z"))).toBe("2026-03-08");
+    expect(nyISODate(new Date("2026-03-09T03:59:00Z"))).toBe("2026-03-08");
+    expect(nyISODate(new Date("2026-03-09T04:00:00Z"))).toBe("2026-03-09");
+  });
+
+  it("handles the fall-back boundary (UTC-4 → UTC-5)", () => {
+    // 2026-11-01 02:00 EDT falls back to 01:00 EST
+    expect(nyISODate(new Date("2026-11-01T03:59:00Z"))).toBe("2026-10-31");
+    expect(nyISODate(new Date("2026-11-01T04:00:00Z"))).toBe("2026-11-01");
+    expect(nyISODate(new Date("2026-11-02T04:59:00Z"))).toBe("2026-11-01");
+    expect(nyISODate(new Date("2026-11-02T05:00:00Z"))).toBe("2026-11-02");
+  });
+});
+
+describe("safeNYISODate", () => {
+  it("keeps date-only values on the same day", () => {
+    expect(safeNYISODate("2026-03-08")).toBe("2026-03-08");
+    expect(safeNYISODate("2026-11-01")).toBe("2026-11-01");
+  });
+
+  it("converts timestamps to their New York date", () => {
+    expect(safeNYISODate("2026-11-01T03:30:00Z")).toBe("2026-10-31");
+  });
+
+  it("falls back to today for empty or invalid values", () => {
+    const today = nyISODate();
+    expect(safeNYISODate(null)).toBe(today);
+    expect(safeNYISODate("")).toBe(today);
+    expect(safeNYISODate("not a date")).toBe(today);
+  });
+});
+
+describe("toNYDateOnly", () => {
+  it("returns null for missing or unparseable values", () => {
+    expect(toNYDateOnly(null)).toBeNull();
+    expect(toNYDateOnly("garbage")).toBeNull();
+  });
+
+  it("trusts date-only values", () => {
+    expect(toNYDateOnly("2026-03-08")).toBe("2026-03-08");
+  });
+
+  it("renders timestamps as their New York date", () => {
+    expect(toNYDateOnly("2026-03-09T03:30:00.000Z")).toBe("2026-03-08");
+  });
+});
+
+describe("isYMD", () => {
+  it("matches only YYYY-MM-DD", () => {
+    expect(isYMD("2026-03-08")).toBe(true);
+    expect(isYMD("2026-3-8")).toBe(false);
+    expect(isYMD("2026-03-08T00:00:00Z")).toBe(false);
+  });
+});
+
+describe("weekStartYMD", () => {
+  it("rolls back to Monday", () => {
+    expect(weekStartYMD("2026-10-19")).toBe("2026-10-19"); // Monday
+    expect(weekStartYMD("2026-10-25")).toBe("2026-10-19"); // Sunday
+    expect(weekStartYMD("2026-11-01")).toBe("2026-10-26"); // across a month
+  });
+});
+
+describe("isHHMM", () => {
+  it("matches only 24h HH:mm", () => {
+    expect(isHHMM("06:00")).toBe(true);
+    expect(isHHMM("23:59")).toBe(true);
+    expect(isHHMM("6:00")).toBe(false);
+    expect(isHHMM("24:00")).toBe(false);
+  });
+});
+
+describe("nyWallTimeToDate", () => {
+  it("applies the New York offset for the date", () => {
+    expect(nyWallTimeToDate("2026-01-15", "06:00").toISOString()).toBe("2026-01-15T11:00:00.000Z");
+    expect(nyWallTimeToDate("2026-07-15", "06:00").toISOString()).toBe("2026-07-15T10:00:00.000Z");
+  });
+
+  it("handles the DST switch days", () => {
+    expect(nyWallTimeToDate("2026-03-08", "06:00").toISOString()).toBe("2026-03-08T10:00:00.000Z");
+    expect(nyWallTimeToDate("2026-11-01", "22:00").toISOString()).toBe("2026-11-02T03:00:00.000Z");
+  });
+});
@@ -32,10 +32,63 @@ export function nyDateTime(date: Date = new Date()): string {
 }
 
 /**
- * Safely normalize any stored date to NY YYYY-MM-DD
+ * Safely normalize any stored date to NY YYYY-MM-DD.
+ * Date-only values are kept as-is (parsing them as UTC midnight would land on
+ * the previous day in New York).
  */
 export function safeNYISODate(value?: string | null): string {
-  if (!value) return nyISODate();
-  const d = new Date(value);
-  return isNaN(d.getTime()) ? nyISODate() : nyISODate(d);
+  return toNYDateOnly(value) ?? nyISODate();
+}
+
+export function isYMD(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/**
+ * Date-only values (YYYY-MM-DD) are trusted as-is; timestamps are
+ * rendered as their NY calendar date. Returns null when unparseable.
+ */
+export function toNYDateOnly(value?: string | null): string | null {
+  if (!value) return null;
+  const s = String(value);
+  if (isYMD(s)) return s;
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) return isYMD(s.slice(0, 10)) ? s.slice(0, 10) : null;
+  return nyISODate(d);
+}
+
+/** Calendar math on YYYY-MM-DD strings (no time zone involved). */
+export function addDaysYMD(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d + days));
+  return dt.toISOString().slice(0, 10);
+}
+
+/** 0 = Sunday … 6 = Saturday */
+export function weekdayOfYMD(ymd: string): number {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/** The Monday on or before a YYYY-MM-DD date (schedules run Monday–Sunday). */
+export function weekStartYMD(ymd: string): string {
+  return addDaysYMD(ymd, -((weekdayOfYMD(ymd) + 6) % 7));
+}
+
+/** "HH:mm" (24h), as typed into a time input. */
+export function isHHMM(value: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+/** The instant a New York wall-clock time (YYYY-MM-DD + HH:mm) happens, DST included. */
+export function nyWallTimeToDate(ymd: string, hhmm: string): Date {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const [hh, mm] = hhmm.split(":").map(Number);
+  const asUTC = Date.UTC(y, m - 1, d, hh, mm);
+
+  // New York's offset from UTC at an instant, in ms (e.g. -4h in summer)
+  const offsetAt = (t: number) => Date.parse(nyDateTime(new Date(t)).replace(" ", "T") + "Z") - t;
+
+  const guess = asUTC - offsetAt(asUTC);
+  return new Date(asUTC - offsetAt(guess));
 }
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { findKioskWorker, hashKioskPin, syncStaffingActualHeadcount } from "@/lib/timeClockKiosk";
+import { createSupabaseStub } from "@/test/supabaseStub";
+
+describe("hashKioskPin", () => {
+  it("is stable for a secret and changes with it", () => {
+    expect(hashKioskPin("1234", "secret-a")).toBe(hashKioskPin("1234", "secret-a"));
+    expect(hashKioskPin("1234", "secret-a")).not.toBe(hashKioskPin("1234", "secret-b"));
+    expect(hashKioskPin("1234", "secret-a")).not.toContain("1234");
+  });
+});
+
+describe("findKioskWorker", () => {
+  const { client } = createSupabaseStub({
+    workforce: [
+      { id: "w-ana", name: "Ana Lopez", status: "Active", badge_number: "B100", kiosk_pin_hash: hashKioskPin("4321") },
+      { id: "w-cara", name: "Cara Diaz", status: "On Leave", badge_number: "B200" },
+    ],
+  });
+
+  it("finds active workers by badge or PIN", async () => {
+    expect((await findKioskWorker(client, { badge: " B100 " })).data?.id).toBe("w-ana");
+    expect((await findKioskWorker(client, { pin: "4321" })).data?.id).toBe("w-ana");
+  });
+
+  it("explains what went wrong", async () => {
+    expect((await findKioskWorker(client, {})).error).toBe("Enter a badge number or PIN");
+    expect((await findKioskWorker(client, { pin: "12" })).error).toBe("PIN must be 4–8 digits");
+    expect((await findKioskWorker(client, { pin: "0000" })).error).toBe("PIN not recognized");
+    expect((await findKioskWorker(client, { badge: "B200" })).error).toBe("Cara Diaz is not active (On Leave)");
+  });
+});
+
+describe("syncStaffingActualHeadcount", () => {
+  it("counts distinct clock-ins for the slot", async () => {
+    const row = (workforce_id: string, kind: string) => ({
+      id: `${workforce_id}-${kind}`,
+      workforce_id,
+      worker_name: workforce_id,
+      building: "DC1",
+      shift: "1st",
+      date: "2026-10-19",
+      kind,
+      punched_at: "2026-10-19T10:00:00Z",
+    });
+    const plans = [
+      { id: "plan-1", building: "DC1", shift: "1st", date: "2026-10-19", actual_headcount: 0 },
+      { id: "plan-2", building: "DC1", shift: "2nd", date: "2026-10-19", actual_headcount: 0 },
+    ];
+    const { client } = createSupabaseStub({
+      staffing_plans: plans,
+      time_punches: [row("w-ana", "clock_in"), row("w-ana", "clock_out"), row("w-ana", "clock_in"), row("w-ben", "clock_in")],
+    });
+
+    const result = await syncStaffingActualHeadcount(client, { building: "DC1", shift: "1st", date: "2026-10-19" });
+    expect(result).toEqual({ headcount: 2, error: null });
+    expect(plans.map((p) => p.actual_headcount)).toEqual([2, 0]);
+  });
+});
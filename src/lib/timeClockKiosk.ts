@@ -0,0 +1,79 @@
+// src/lib/timeClockKiosk.ts
+// Server-only time clock helpers (kiosk PINs, staffing headcount). DO NOT import this into client components.
+import { createHmac } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { clockedInHeadcount, fetchTimePunches, type TimePunch } from "@/lib/domain/timeClock";
+import { fetchWorkforceByKioskCredential, type WorkforceWorker } from "@/lib/domain/workforce";
+import { addDaysYMD, nyISODate } from "@/lib/time";
+
+export const KIOSK_PIN_RE = /^\d{4,8}$/;
+
+/**
+ * Kiosk PINs are stored as an HMAC keyed by TIME_CLOCK_PIN_SECRET (falling
+ * back to the service role key), so they can be looked up but not read back.
+ * Changing the secret invalidates every PIN.
+ */
+export function hashKioskPin(
+  pin: string,
+  secret: string = process.env.TIME_CLOCK_PIN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || ""
+): string {
+  return createHmac("sha256", secret).update(`kiosk-pin:${pin}`).digest("hex");
+}
+
+export type KioskCredential = { badge?: unknown; pin?: unknown };
+
+/** Who is at the kiosk: a badge number wins over a PIN when both are sent. */
+export async function findKioskWorker(
+  client: SupabaseClient,
+  credential: KioskCredential
+): Promise<{ data: WorkforceWorker | null; error: string | null }> {
+  const badge = typeof credential.badge === "string" ? credential.badge.trim() : "";
+  const pin = typeof credential.pin === "string" ? credential.pin.trim() : "";
+
+  if (!badge && !pin) return { data: null, error: "Enter a badge number or PIN" };
+  if (!badge && !KIOSK_PIN_RE.test(pin)) return { data: null, error: "PIN must be 4–8 digits" };
+
+  const { data, error } = await fetchWorkforceByKioskCredential(
+    client,
+    badge ? { badgeNumber: badge } : { pinHash: hashKioskPin(pin) }
+  );
+  if (error) {
+    console.error("Error looking up kiosk credential", error);
+    return { data: null, error: "Failed to look up badge / PIN" };
+  }
+  if (!data) return { data: null, error: badge ? "Badge not recognized" : "PIN not recognized" };
+  if (!data.active) return { data: null, error: `${data.name} is not active (${data.status || "inactive"})` };
+  return { data, error: null };
+}
+
+/** A worker's punches for yesterday's and today's shifts — enough to find an open session. */
+export async function fetchRecentWorkerPunches(
+  client: SupabaseClient,
+  workforceId: string,
+  now: Date = new Date()
+): Promise<{ data: TimePunch[]; error: unknown }> {
+  const today = nyISODate(now);
+  return fetchTimePunches(client, { workforceId, from: addDaysYMD(today, -1), to: today });
+}
+
+/**
+ * Set the staffing plan's actual headcount for a slot to the number of people
+ * who clocked in. Slots without a staffing plan are left alone.
+ */
+export async function syncStaffingActualHeadcount(
+  client: SupabaseClient,
+  slot: { building: string; shift: string; date: string }
+): Promise<{ headcount: number | null; error: unknown }> {
+  const punches = await fetchTimePunches(client, { ...slot, from: slot.date, to: slot.date });
+  if (punches.error) return { headcount: null, error: punches.error };
+
+  const headcount = clockedInHeadcount(punches.data);
+  const { error } = await client
+    .from("staffing_plans")
+    .update({ actual_headcount: headcount })
+    .eq("building", slot.building)
+    .eq("shift", slot.shift)
+    .eq("date", slot.date);
+
+  return { headcount: error ? null : headcount, error };
+}
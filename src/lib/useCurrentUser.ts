@@ -3,19 +3,9 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { sanitizeRole, type AccessRole } from "@/lib/roles";
 
-const ACCESS_ROLES = [
-  "Worker",
-  "Lead",
-  "Supervisor",
-  "Building Manager",
-  "HR",
-  "HQ",
-  "Admin",
-  "Super Admin",
-] as const;
-
-export type AccessRole = (typeof ACCESS_ROLES)[number];
+export type { AccessRole } from "@/lib/roles";
 
 type UserAccountRow = {
   id: string;
@@ -49,12 +39,6 @@ function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === "object" && v !== null;
 }
 
-function sanitizeRole(raw: unknown): AccessRole {
-  if (typeof raw !== "string") return "Worker";
-  const match = ACCESS_ROLES.find((r) => r.toLowerCase() === raw.toLowerCase());
-  return match ?? "Worker";
-}
-
 function pickName(meta: UserMeta): string | null {
   const candidates = [meta.name, meta.full_name, meta.fullName];
   for (const c of candidates) {
@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useId, useRef } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { realtimeFilter, type RealtimeChange } from "@/lib/realtime";
+
+// No shift option: a postgres_changes subscription takes a single column
+// filter, and building is the one RLS scopes by. Pages narrow to a shift with
+// applyRealtimeChange's `match`.
+type Options = {
+  enabled?: boolean; // e.g. wait for useCurrentUser()
+  building?: string | null; // null / "ALL" = every building the user can read
+};
+
+/**
+ * Subscribe to inserts, updates and deletes on a table for as long as the
+ * component is mounted. Merge them with applyRealtimeChange():
+ *
+ *   useRealtimeTable(CONTAINERS_TABLE, { building }, (change) =>
+ *     setContainers((prev) => applyRealtimeChange(prev, change, { map: mapContainerRow }))
+ *   );
+ *
+ * Realtime can't filter deletes, so they arrive for every building the user's
+ * RLS lets them see; applyRealtimeChange ignores ids that aren't in the list.
+ *
+ * Resubscribes when the table or building changes; `onChange` may change freely.
+ */
+export function useRealtimeTable(table: string, options: Options, onChange: (change: RealtimeChange) => void): void {
+  const instanceId = useId();
+  const handler = useRef(onChange);
+
+  useEffect(() => {
+    handler.current = onChange;
+  });
+
+  const enabled = options.enabled ?? true;
+  const filter = realtimeFilter(options.building);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const forward = (payload: {
+      eventType: RealtimeChange["eventType"];
+      new: Record<string, unknown> | null;
+      old: Record<string, unknown> | null;
+    }) => {
+      handler.current({ eventType: payload.eventType, new: payload.new ?? {}, old: payload.old ?? {} });
+    };
+    const scoped = filter ? { filter } : {};
+
+    // Topics must be unique per subscription, or supabase-js hands back the existing channel
+    const channel = supabase
+      .channel(`${table}:${filter ?? "all"}:${instanceId}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table, ...scoped }, forward)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table, ...scoped }, forward)
+      .on("postgres_changes", { event: "DELETE", schema: "public", table }, forward)
+      .subscribe((status, err) => {
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.warn(`Realtime subscription to ${table} failed (${status})`, err);
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [table, filter, enabled, instanceId]);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { FEDERAL_MINIMUM_WAGE, mapWagePay, stateMinimumWage, weeklyWagePay, withProductionPay } from "@/lib/wagePay";
+
+const base = { rateValue: 20, minimumWage: 15, productionPay: 0, clockedMinutes: 0, containerMinutes: 0 };
+
+describe("weeklyWagePay", () => {
+  it("pays hourly workers time and a half past 40 hours", () => {
+    const pay = weeklyWagePay({ ...base, rateType: "Hourly", clockedMinutes: 45 * 60 });
+    expect(pay).toMatchObject({
+      hoursSource: "clock",
+      regularMinutes: 2400,
+      overtimeMinutes: 300,
+      regularPay: 800,
+      overtimePay: 150,
+      makeUpPay: 0,
+      totalPay: 950,
+    });
+  });
+
+  it("tops production pay up to hours × the guaranteed rate", () => {
+    const short = weeklyWagePay({ ...base, rateType: "Production", productionPay: 500, clockedMinutes: 30 * 60 });
+    expect(short).toMatchObject({ guaranteePay: 600, productionPay: 500, makeUpPay: 100, totalPay: 600 });
+
+    const over = weeklyWagePay({ ...base, rateType: "Production", productionPay: 900, clockedMinutes: 30 * 60 });
+    expect(over).toMatchObject({ makeUpPay: 0, totalPay: 900 });
+  });
+
+  it("never guarantees less than the minimum wage", () => {
+    const blankRate = weeklyWagePay({ ...base, rateType: "", rateValue: null, clockedMinutes: 600 });
+    expect(blankRate).toMatchObject({ rateType: "Production", hourlyRate: 15, belowMinimum: false, makeUpPay: 150 });
+
+    const lowHourly = weeklyWagePay({ ...base, rateType: "Hourly", rateValue: 12, clockedMinutes: 60 });
+    expect(lowHourly).toMatchObject({ hourlyRate: 15, belowMinimum: true, totalPay: 15 });
+  });
+
+  it("falls back to container minutes without punches", () => {
+    const pay = weeklyWagePay({ ...base, rateType: "Hourly", clockedMinutes: null, containerMinutes: 90 });
+    expect(pay).toMatchObject({ hoursSource: "containers", minutes: 90, totalPay: 30 });
+  });
+});
+
+describe("withProductionPay", () => {
+  it("recomputes make-up pay and leaves hourly pay alone", () => {
+    const production = weeklyWagePay({ ...base, rateType: "Production", productionPay: 500, clockedMinutes: 1800 });
+    expect(withProductionPay(production, 550)).toMatchObject({ productionPay: 550, makeUpPay: 50, totalPay: 600 });
+
+    const hourly = weeklyWagePay({ ...base, rateType: "Hourly", clockedMinutes: 60 });
+    expect(withProductionPay(hourly, 1000)).toBe(hourly);
+  });
+});
+
+describe("stateMinimumWage", () => {
+  it("reads the configured rate but never drops below the federal minimum", () => {
+    expect(stateMinimumWage("15.50")).toBe(15.5);
+    expect(stateMinimumWage("5")).toBe(FEDERAL_MINIMUM_WAGE);
+    expect(stateMinimumWage(undefined)).toBe(FEDERAL_MINIMUM_WAGE);
+  });
+});
+
+describe("mapWagePay", () => {
+  it("round-trips a stored value and ignores missing ones", () => {
+    const pay = weeklyWagePay({ ...base, rateType: "Hourly", clockedMinutes: 2500 });
+    expect(mapWagePay(JSON.parse(JSON.stringify(pay)))).toEqual(pay);
+    expect(mapWagePay(null)).toBeNull();
+  });
+});
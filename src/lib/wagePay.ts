@@ -0,0 +1,133 @@
+// src/lib/wagePay.ts
+import type { WorkforceRateType } from "@/lib/domain/workforce";
+import { roundMoney, toNumber } from "@/lib/money";
+
+/**
+ * Weekly wage math on top of container payouts. Production workers keep their
+ * container earnings but are guaranteed hours × max(their workforce rate, the
+ * minimum wage); the shortfall is paid as make-up pay. Hourly workers are paid
+ * hours × rate, with time over 40 hours in the payroll week at time and a half.
+ * Hours come from time clock punches, or container minutes when a worker
+ * never clocked in.
+ */
+
+export const OVERTIME_WEEKLY_MINUTES = 40 * 60;
+export const OVERTIME_MULTIPLIER = 1.5;
+export const FEDERAL_MINIMUM_WAGE = 7.25;
+
+export type WageHoursSource = "clock" | "containers";
+
+export type WageInput = {
+  rateType: WorkforceRateType; // "" is paid as Production
+  rateValue: number | null; // Hourly: $/hour; Production: guaranteed $/hour
+  minimumWage: number;
+  productionPay: number; // container payouts for the week
+  clockedMinutes: number | null; // punched time for the week; null without punches
+  containerMinutes: number;
+};
+
+export type WagePay = {
+  rateType: "Hourly" | "Production";
+  hourlyRate: number; // paid (Hourly) or guaranteed (Production); never below the minimum wage
+  belowMinimum: boolean; // the workforce rate is under the minimum wage
+  hoursSource: WageHoursSource;
+  minutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  productionPay: number;
+  regularPay: number; // Hourly only
+  overtimePay: number; // Hourly only
+  guaranteePay: number; // Production only
+  makeUpPay: number; // Production only
+  totalPay: number;
+};
+
+/**
+ * The state minimum wage the buildings pay (NEXT_PUBLIC_STATE_MINIMUM_WAGE),
+ * never below the federal rate.
+ */
+export function stateMinimumWage(raw: string | undefined = process.env.NEXT_PUBLIC_STATE_MINIMUM_WAGE): number {
+  const n = Number(raw);
+  return Number.isFinite(n) && n > FEDERAL_MINIMUM_WAGE ? n : FEDERAL_MINIMUM_WAGE;
+}
+
+/** One worker's pay for one payroll week. */
+export function weeklyWagePay(input: WageInput): WagePay {
+  const rateType = input.rateType === "Hourly" ? "Hourly" : "Production";
+  const rate = input.rateValue ?? 0;
+  const hourlyRate = Math.max(rate, input.minimumWage);
+  const hoursSource: WageHoursSource = input.clockedMinutes === null ? "containers" : "clock";
+  const minutes = Math.max(0, input.clockedMinutes ?? input.containerMinutes);
+  const overtimeMinutes = Math.max(0, minutes - OVERTIME_WEEKLY_MINUTES);
+  const regularMinutes = minutes - overtimeMinutes;
+
+  const base = {
+    rateType,
+    hourlyRate,
+    // A blank Production rate just means "no guarantee above minimum wage"
+    belowMinimum: (rateType === "Hourly" || input.rateValue !== null) && rate < input.minimumWage,
+    hoursSource,
+    minutes,
+    regularMinutes,
+    overtimeMinutes,
+  } as const;
+
+  if (rateType === "Hourly") {
+    const regularPay = roundMoney((regularMinutes / 60) * hourlyRate);
+    const overtimePay = roundMoney((overtimeMinutes / 60) * hourlyRate * OVERTIME_MULTIPLIER);
+    return {
+      ...base,
+      productionPay: 0,
+      regularPay,
+      overtimePay,
+      guaranteePay: 0,
+      makeUpPay: 0,
+      totalPay: roundMoney(regularPay + overtimePay),
+    };
+  }
+
+  return withProductionPay(
+    {
+      ...base,
+      productionPay: 0,
+      regularPay: 0,
+      overtimePay: 0,
+      guaranteePay: roundMoney((minutes / 60) * hourlyRate),
+      makeUpPay: 0,
+      totalPay: 0,
+    },
+    input.productionPay
+  );
+}
+
+/**
+ * Recompute a Production worker's make-up pay for different container
+ * earnings (e.g. after payroll adjustments). Hourly pay doesn't depend on it.
+ */
+export function withProductionPay(wages: WagePay, productionPay: number): WagePay {
+  if (wages.rateType === "Hourly") return wages;
+  const pay = roundMoney(productionPay);
+  const makeUpPay = roundMoney(Math.max(0, wages.guaranteePay - pay));
+  return { ...wages, productionPay: pay, makeUpPay, totalPay: roundMoney(pay + makeUpPay) };
+}
+
+/** Tolerant read of a stored WagePay (payroll snapshot jsonb); null when absent. */
+export function mapWagePay(raw: unknown): WagePay | null {
+  if (!raw || typeof raw !== "object") return null;
+  const w = raw as Record<string, unknown>;
+  return {
+    rateType: w.rateType === "Hourly" ? "Hourly" : "Production",
+    hourlyRate: toNumber(w.hourlyRate),
+    belowMinimum: w.belowMinimum === true,
+    hoursSource: w.hoursSource === "containers" ? "containers" : "clock",
+    minutes: toNumber(w.minutes),
+    regularMinutes: toNumber(w.regularMinutes),
+    overtimeMinutes: toNumber(w.overtimeMinutes),
+    productionPay: toNumber(w.productionPay),
+    regularPay: toNumber(w.regularPay),
+    overtimePay: toNumber(w.overtimePay),
+    guaranteePay: toNumber(w.guaranteePay),
+    makeUpPay: toNumber(w.makeUpPay),
+    totalPay: toNumber(w.totalPay),
+  };
+}
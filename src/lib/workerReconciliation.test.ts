@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { mapContainerRow } from "@/lib/domain/containers";
+import { mapWorkforceRow } from "@/lib/domain/workforce";
+import { containerRows } from "@/test/fixtures";
+import {
+  collectUnlinkedNames,
+  linkContainerWorkers,
+  nameSimilarity,
+  normalizeWorkerName,
+  parseReconcileLinks,
+  suggestWorkforceMatches,
+} from "@/lib/workerReconciliation";
+
+const containers = containerRows.map(mapContainerRow);
+
+const roster = [
+  { id: "w-1", name: "Ana López", building: "DC1", status: "Active" },
+  { id: "w-2", name: "Benjamin Cole", building: "DC1", status: "Active" },
+  { id: "w-3", name: "Cara Diaz", building: "DC5", status: "Active" },
+  { id: "w-4", name: "Dee Park", building: "DC5", status: "Active" },
+].map(mapWorkforceRow);
+
+describe("normalizeWorkerName / nameSimilarity", () => {
+  it("strips accents, punctuation and case", () => {
+    expect(normalizeWorkerName("  Ana  López-Ruiz. ")).toBe("ana lopez ruiz");
+  });
+
+  it("scores exact, reordered, abbreviated and unrelated names", () => {
+    expect(nameSimilarity("ana lopez", "Ana López")).toBe(1);
+    expect(nameSimilarity("Lopez, Ana", "Ana Lopez")).toBe(1);
+    expect(nameSimilarity("A. Lopez", "Ana Lopez")).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity("Ana Lopes", "Ana Lopez")).toBeGreaterThan(0.8);
+    expect(nameSimilarity("Dee Park", "Ana Lopez")).toBeLessThan(0.5);
+    expect(nameSimilarity("", "Ana Lopez")).toBe(0);
+  });
+});
+
+describe("collectUnlinkedNames", () => {
+  it("groups spellings by name and counts containers", () => {
+    const names = collectUnlinkedNames(containers);
+    expect(names[0]).toEqual({
+      name: "Ana Lopez",
+      key: "ana lopez",
+      containers: 2,
+      buildings: ["DC1"],
+      lastWorkDate: "2026-03-08",
+    });
+    expect(names.map((n) => n.key)).toEqual(["ana lopez", "ben cole", "cara diaz"]);
+  });
+
+  it("skips contributions that are already linked", () => {
+    const linked = mapContainerRow({
+      ...containerRows[2],
+      workers: [{ name: "Cara Diaz", workforceId: "w-3", percentContribution: 100 }],
+    });
+    expect(collectUnlinkedNames([linked])).toEqual([]);
+  });
+});
+
+describe("suggestWorkforceMatches", () => {
+  it("ranks roster candidates and drops weak ones", () => {
+    const [ana, ben, cara] = suggestWorkforceMatches(collectUnlinkedNames(containers), roster);
+
+    expect(ana.candidates[0]).toMatchObject({ workforceId: "w-1", name: "Ana López", score: 1 });
+    expect(ben.candidates[0].workforceId).toBe("w-2");
+    expect(cara.candidates.map((c) => c.workforceId)).toEqual(["w-3"]);
+  });
+
+  it("returns no candidates when nothing is close", () => {
+    const [s] = suggestWorkforceMatches(
+      [{ name: "Zed Quinn", key: "zed quinn", containers: 1, buildings: [], lastWorkDate: null }],
+      roster
+    );
+    expect(s.candidates).toEqual([]);
+  });
+});
+
+describe("parseReconcileLinks", () => {
+  it("accepts one link per name", () => {
+    expect(parseReconcileLinks({ links: [{ name: " Ana Lopez ", workforceId: "w-1" }] })).toEqual({
+      ok: true,
+      value: [{ name: "Ana Lopez", workforceId: "w-1" }],
+    });
+  });
+
+  it("rejects empty, incomplete and duplicate links", () => {
+    expect(parseReconcileLinks({ links: [] }).ok).toBe(false);
+    expect(parseReconcileLinks({ links: [{ name: "Ana" }] }).ok).toBe(false);
+    const dup = parseReconcileLinks({
+      links: [
+        { name: "Ana Lopez", workforceId: "w-1" },
+        { name: "ana lopez", workforceId: "w-2" },
+      ],
+    });
+    expect(dup).toEqual({ ok: false, error: "ana lopez is linked more than once" });
+  });
+});
+
+describe("linkContainerWorkers", () => {
+  it("links matching names to the roster row and keeps pay", () => {
+    const links = new Map([["ana lopez", roster[0]]]);
+    const { workers, changed } = linkContainerWorkers(containers[0].workers, links);
+
+    expect(changed).toBe(1);
+    expect(workers[0]).toMatchObject({ name: "Ana López", workforceId: "w-1", payout: 78, minutesWorked: 120 });
+    expect(workers[1]).toEqual(containers[0].workers[1]);
+  });
+
+  it("leaves already linked contributions alone", () => {
+    const links = new Map([["ana lopez", roster[0]]]);
+    const already = [{ ...containers[0].workers[0], workforceId: "w-9" }];
+    expect(linkContainerWorkers(already, links).changed).toBe(0);
+  });
+});
@@ -0,0 +1,204 @@
+// src/lib/workerReconciliation.ts
+import {
+  containerDateNY,
+  contributionKey,
+  type ContainerRow,
+  type WorkerContribution,
+} from "@/lib/domain/containers";
+import type { WorkforceWorker } from "@/lib/domain/workforce";
+
+/**
+ * One-time clean-up for container contributions saved before they carried a
+ * workforce id. Free-text names are grouped, scored against the roster and
+ * shown to a manager, who confirms each link; only confirmed links are written
+ * (by POST /api/workforce/reconcile).
+ */
+
+/** An unlinked name as typed on containers, with how often it was used. */
+export type UnlinkedName = {
+  name: string; // most common spelling
+  key: string; // contributionKey() of the entries
+  containers: number;
+  buildings: string[];
+  lastWorkDate: string | null; // YYYY-MM-DD
+};
+
+export type WorkforceCandidate = {
+  workforceId: string;
+  name: string;
+  building: string | null;
+  score: number; // 0–1
+};
+
+export type ReconcileSuggestion = UnlinkedName & {
+  candidates: WorkforceCandidate[]; // best first
+};
+
+export type ReconcileLink = { name: string; workforceId: string };
+
+export type ReconcileLinksParseResult = { ok: true; value: ReconcileLink[] } | { ok: false; error: string };
+
+// Below this a candidate isn't worth showing
+export const MIN_SUGGESTION_SCORE = 0.6;
+const MAX_CANDIDATES = 3;
+// Small nudge for roster rows in a building the name was used in
+const SAME_BUILDING_BONUS = 0.05;
+
+/** Lower-case, accents and punctuation stripped, single spaces. */
+export function normalizeWorkerName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function ratio(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * 0–1 similarity of two worker names. Tolerates typos, "Last, First" order
+ * and an initial standing in for a first name ("J Smith" ~ "John Smith").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const na = normalizeWorkerName(a);
+  const nb = normalizeWorkerName(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const ta = na.split(" ");
+  const tb = nb.split(" ");
+  const sorted = ratio([...ta].sort().join(" "), [...tb].sort().join(" "));
+
+  // Same last name and matching first initial, one side abbreviated
+  let initials = 0;
+  if (ta.length > 1 && tb.length > 1 && ta[ta.length - 1] === tb[tb.length - 1] && ta[0][0] === tb[0][0]) {
+    if (ta[0].length === 1 || tb[0].length === 1) initials = 0.85;
+  }
+
+  return Math.max(ratio(na, nb), sorted, initials);
+}
+
+// Most used; on a tie, a capitalised spelling over an all-lower-case one
+function preferredSpelling(spellings: Map<string, number>): string {
+  const capitalised = (s: string) => (s === s.toLowerCase() ? 0 : 1);
+  return Array.from(spellings.entries()).sort(
+    (a, b) => b[1] - a[1] || capitalised(b[0]) - capitalised(a[0]) || a[0].localeCompare(b[0])
+  )[0][0];
+}
+
+/** Names on contributions without a workforce id, most used first. */
+export function collectUnlinkedNames(containers: ContainerRow[]): UnlinkedName[] {
+  const map = new Map<string, { spellings: Map<string, number>; containers: Set<string>; buildings: Set<string>; last: string | null }>();
+
+  for (const c of containers) {
+    const date = containerDateNY(c) || null;
+    for (const w of c.workers) {
+      const name = w.name.trim();
+      if (w.workforceId || !name) continue;
+
+      const key = contributionKey(w);
+      let entry = map.get(key);
+      if (!entry) {
+        entry = { spellings: new Map(), containers: new Set(), buildings: new Set(), last: null };
+        map.set(key, entry);
+      }
+      entry.spellings.set(name, (entry.spellings.get(name) ?? 0) + 1);
+      entry.containers.add(c.id);
+      if (c.building) entry.buildings.add(c.building);
+      if (date && (!entry.last || date > entry.last)) entry.last = date;
+    }
+  }
+
+  return Array.from(map.entries())
+    .map(([key, e]) => ({
+      name: preferredSpelling(e.spellings),
+      key,
+      containers: e.containers.size,
+      buildings: Array.from(e.buildings).sort(),
+      lastWorkDate: e.last,
+    }))
+    .sort((a, b) => b.containers - a.containers || a.name.localeCompare(b.name));
+}
+
+/** Closest roster rows for each unlinked name; an empty list means no good match. */
+export function suggestWorkforceMatches(unlinked: UnlinkedName[], roster: WorkforceWorker[]): ReconcileSuggestion[] {
+  const people = roster.filter((p) => p.name && p.name !== "Unknown");
+
+  return unlinked.map((u) => {
+    const candidates = people
+      .map((p) => {
+        const base = nameSimilarity(u.name, p.name);
+        const bonus = p.building && u.buildings.includes(p.building) ? SAME_BUILDING_BONUS : 0;
+        return { workforceId: p.id, name: p.name, building: p.building, score: base > 0 ? Math.min(1, base + bonus) : 0 };
+      })
+      .filter((c) => c.score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, MAX_CANDIDATES);
+
+    return { ...u, candidates };
+  });
+}
+
+/** Validate `{ links: [{ name, workforceId }] }`; one link per name. */
+export function parseReconcileLinks(body: unknown): ReconcileLinksParseResult {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body must be a JSON object" };
+  const raw = (body as { links?: unknown }).links;
+  if (!Array.isArray(raw) || raw.length === 0) return { ok: false, error: "links must be a non-empty array" };
+
+  const links: ReconcileLink[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    const l = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const name = typeof l.name === "string" ? l.name.trim() : "";
+    const workforceId = typeof l.workforceId === "string" ? l.workforceId.trim() : "";
+    if (!name || !workforceId) return { ok: false, error: "Each link needs a name and a workforceId" };
+
+    const key = name.toLowerCase();
+    if (seen.has(key)) return { ok: false, error: `${name} is linked more than once` };
+    seen.add(key);
+    links.push({ name, workforceId });
+  }
+  return { ok: true, value: links };
+}
+
+/**
+ * Apply confirmed links (keyed by contributionKey of the unlinked name) to a
+ * container's workers. Linked entries take the roster name; pay and minutes
+ * are left as they are. `changed` is 0 when nothing on the container matched.
+ */
+export function linkContainerWorkers(
+  workers: WorkerContribution[],
+  links: Map<string, Pick<WorkforceWorker, "id" | "name">>
+): { workers: WorkerContribution[]; changed: number } {
+  let changed = 0;
+  const next = workers.map((w) => {
+    if (w.workforceId) return w;
+    const person = links.get(contributionKey(w));
+    if (!person) return w;
+    changed += 1;
+    return { ...w, workforceId: person.id, name: person.name };
+  });
+  return { workers: next, changed };
+}
@@ -0,0 +1,23 @@
+// src/proxy.ts
+// Next.js proxy (formerly middleware): every /api call must come from a signed-in,
+// active account with the permission its route requires (see API_ROUTE_PERMISSIONS).
+// Route handlers still re-check with authorize() and apply building/ownership rules.
+// Scheduled jobs (CRON_API_ROUTES) may call GET with the CRON_SECRET instead.
+
+import { NextResponse, type NextRequest } from "next/server";
+import { authorize, CRON_API_ROUTES, isCronRequest } from "@/lib/authz";
+import { permissionForApiRoute } from "@/lib/roles";
+
+export async function proxy(request: NextRequest) {
+  if (request.method === "GET" && CRON_API_ROUTES.includes(request.nextUrl.pathname) && isCronRequest(request)) {
+    return NextResponse.next();
+  }
+  const permission = permissionForApiRoute(request.nextUrl.pathname, request.method);
+  const auth = await authorize(request, permission ?? undefined);
+  if (!auth.ok) return auth.response;
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/api/:path*"],
+};
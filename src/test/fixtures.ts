@@ -0,0 +1,119 @@
+// src/test/fixtures.ts
+import type { PayScaleRow } from "@/lib/payScale";
+
+/** Raw rows as Supabase returns them (snake_case, numerics may be strings). */
+
+export const containerRows: Record<string, unknown>[] = [
+  {
+    id: "c-1",
+    created_at: "2026-03-08T12:00:00.000Z",
+    building: "DC1",
+    shift: "1st",
+    work_date: "2026-03-08",
+    container_no: "MSCU1234567",
+    pieces_total: 1200,
+    skus_total: 4,
+    pay_total: 130,
+    damage_pieces: 0,
+    rework_pieces: 0,
+    workers: [
+      { name: "Ana Lopez", minutesWorked: 120, percentContribution: 60, payout: 78 },
+      { name: "Ben Cole", minutesWorked: 90, percentContribution: 40, payout: 52 },
+    ],
+    work_order_id: "wo-1",
+    palletized: false,
+    pay_scale_id: null,
+    created_by_user_id: "u-lead",
+    created_by_email: "lead@example.com",
+  },
+  {
+    id: "c-2",
+    created_at: "2026-03-09T03:30:00.000Z", // 2026-03-08 23:30 in New York
+    building: "DC1",
+    shift: "2nd",
+    work_date: null,
+    container_no: "TGHU7654321",
+    pieces_total: "400",
+    skus_total: 1,
+    pay_total: "100",
+    workers: [{ name: "ana lopez", minutesWorked: 60, percentContribution: 100, payout: 100 }],
+    work_order_id: null,
+    palletized: true,
+  },
+  {
+    id: "c-3",
+    created_at: "2026-03-10T14:00:00.000Z",
+    building: "DC5",
+    shift: "1st",
+    work_date: "2026-03-10",
+    container_no: "CMAU0000001",
+    pieces_total: 6000,
+    skus_total: 0,
+    pay_total: 255,
+    workers: [{ name: "Cara Diaz", minutesWorked: 0, percentContribution: 100, payout: 255 }],
+    work_order_id: "wo-2",
+    palletized: false,
+  },
+];
+
+/** Older localStorage shape: camelCase + legacy worker keys. */
+export const legacyContainer: Record<string, unknown> = {
+  id: "legacy-1",
+  createdAt: "2026-03-07T15:00:00.000Z",
+  building: "DC18",
+  shift: "3rd",
+  date: "2026-03-07",
+  containerNo: "OOLU1111111",
+  piecesTotal: 800,
+  containerPayTotal: 130,
+  workOrderId: "wo-9",
+  workers: [{ workerName: "Dee Park", minutes: "45", percent: 100, payoutAmount: 130 }],
+};
+
+export const workOrderWithNestedContainers: Record<string, unknown> = {
+  id: "wo-9",
+  name: "DC18 • 3rd • 2026-03-07 • Work Order",
+  building: "DC18",
+  shift: "3rd",
+  containers: [
+    { ...legacyContainer, building: undefined, shift: undefined, workOrderId: undefined },
+    { createdAt: "2026-03-07T16:00:00.000Z", piecesTotal: 300, workers: [] },
+  ],
+};
+
+export const payScaleRows: PayScaleRow[] = [
+  {
+    id: "ps-2026",
+    created_at: "2026-01-01T00:00:00.000Z",
+    name: "2026 rates",
+    effective_from: "2026-01-01",
+    effective_to: null,
+    building: null,
+    customer: null,
+    tiers: [
+      { maxPieces: 1000, pay: 120 },
+      { maxPieces: 3000, pay: 200 },
+    ],
+    overage_per_piece: 0.1,
+    palletized_pay: 110,
+    sku_modifiers: [
+      { minSkus: 10, addAmount: 5 },
+      { minSkus: 25, addAmount: 15 },
+    ],
+    active: true,
+  },
+  {
+    id: "ps-dc5",
+    created_at: "2026-02-01T00:00:00.000Z",
+    name: "DC5 override",
+    effective_from: "2026-02-01",
+    effective_to: "2026-06-30",
+    building: "DC5",
+    customer: null,
+    tiers: [{ maxPieces: 5000, pay: 250 }],
+    overage_per_piece: 0.05,
+    palletized_pay: null,
+    sku_modifiers: [],
+    active: true,
+  },
+];
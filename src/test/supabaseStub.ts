@@ -0,0 +1,142 @@
+// src/test/supabaseStub.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * In-memory stand-in for the Supabase client in unit tests.
+ * Supports the query builder calls the lib layer uses (select/update/eq/in/
+ * is/ilike/gte/lt/lte/order/limit/range/maybeSingle/single) against fixture tables;
+ * every call is recorded on `calls`. An update patches the matching fixture
+ * rows in place.
+ */
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+export type StubCall = { table: string; method: string; args: unknown[] };
+
+export type SupabaseStub = {
+  client: SupabaseClient;
+  calls: StubCall[];
+};
+
+export type StubOptions = {
+  // Return this error (and no data) for any query against the named table.
+  errors?: Record<string, { message: string; code?: string }>;
+};
+
+export function createSupabaseStub(tables: Record<string, Row[]>, options: StubOptions = {}): SupabaseStub {
+  const calls: StubCall[] = [];
+
+  function from(table: string) {
+    const filters: Filter[] = [];
+    let orderBy: { column: string; ascending: boolean } | null = null;
+    let limitTo: number | null = null;
+    let offset = 0;
+    let patch: Row | null = null;
+
+    const record = (method: string, args: unknown[]) => calls.push({ table, method, args });
+
+    function run(): { data: Row[] | null; error: unknown } {
+      const error = options.errors?.[table];
+      if (error) return { data: null, error };
+
+      let rows = (tables[table] ?? []).filter((r) => filters.every((f) => f(r)));
+      if (patch) for (const r of rows) Object.assign(r, patch);
+      if (orderBy) {
+        const { column, ascending } = orderBy;
+        rows = [...rows].sort((a, b) => {
+          const cmp = String(a[column] ?? "").localeCompare(String(b[column] ?? ""));
+          return ascending ? cmp : -cmp;
+        });
+      }
+      if (limitTo !== null) rows = rows.slice(offset, offset + limitTo);
+      return { data: rows, error: null };
+    }
+
+    const builder = {
+      select(...args: unknown[]) {
+        record("select", args);
+        return builder;
+      },
+      update(values: Row) {
+        record("update", [values]);
+        patch = values;
+        return builder;
+      },
+      eq(column: string, value: unknown) {
+        record("eq", [column, value]);
+        filters.push((r) => r[column] === value);
+        return builder;
+      },
+      in(column: string, values: unknown[]) {
+        record("in", [column, values]);
+        filters.push((r) => values.includes(r[column]));
+        return builder;
+      },
+      is(column: string, value: null) {
+        record("is", [column, value]);
+        filters.push((r) => (r[column] ?? null) === value);
+        return builder;
+      },
+      ilike(column: string, pattern: string) {
+        record("ilike", [column, pattern]);
+        const needle = pattern.replace(/^%|%$/g, "").toLowerCase();
+        filters.push((r) => String(r[column] ?? "").toLowerCase().includes(needle));
+        return builder;
+      },
+      gte(column: string, value: string) {
+        record("gte", [column, value]);
+        filters.push((r) => String(r[column] ?? "") >= value);
+        return builder;
+      },
+      lt(column: string, value: string) {
+        record("lt", [column, value]);
+        filters.push((r) => String(r[column] ?? "") < value);
+        return builder;
+      },
+      lte(column: string, value: string) {
+        record("lte", [column, value]);
+        filters.push((r) => String(r[column] ?? "") <= value);
+        return builder;
+      },
+      order(column: string, opts?: { ascending?: boolean }) {
+        record("order", [column, opts]);
+        orderBy = { column, ascending: opts?.ascending ?? true };
+        return builder;
+      },
+      limit(n: number) {
+        record("limit", [n]);
+        limitTo = n;
+        return builder;
+      },
+      range(from: number, to: number) {
+        record("range", [from, to]);
+        offset = from;
+        limitTo = to - from + 1;
+        return builder;
+      },
+      async maybeSingle() {
+        record("maybeSingle", []);
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      async single() {
+        record("single", []);
+        const { data, error } = run();
+        if (error) return { data: null, error };
+        if (!data || data.length !== 1) return { data: null, error: { message: "Expected a single row" } };
+        return { data: data[0], error: null };
+      },
+      then<T>(resolve: (value: { data: Row[] | null; error: unknown }) => T, reject?: (reason: unknown) => T) {
+        return Promise.resolve(run()).then(resolve, reject);
+      },
+    };
+
+    return builder;
+  }
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    calls,
+  };
+}
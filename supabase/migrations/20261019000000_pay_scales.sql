@@ -0,0 +1,35 @@
+-- Versioned container pay schedules (see src/lib/payScale.ts)
+create table if not exists public.pay_scales (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  name text not null,
+  effective_from date not null,
+  effective_to date,
+  building text,
+  customer text,
+  tiers jsonb not null default '[]'::jsonb,
+  overage_per_piece numeric(10, 4) not null default 0,
+  palletized_pay numeric(10, 2),
+  sku_modifiers jsonb not null default '[]'::jsonb,
+  active boolean not null default true,
+  constraint pay_scales_date_range check (effective_to is null or effective_to >= effective_from)
+);
+
+create index if not exists pay_scales_effective_idx
+  on public.pay_scales (effective_from desc)
+  where active;
+
+-- Which schedule priced each container (null = built-in default scale)
+alter table public.containers
+  add column if not exists pay_scale_id uuid references public.pay_scales (id);
+
+-- Seed the scale that was previously hard-coded
+insert into public.pay_scales (name, effective_from, tiers, overage_per_piece, palletized_pay)
+select
+  'Standard',
+  date '1970-01-01',
+  '[{"maxPieces":500,"pay":100},{"maxPieces":1500,"pay":130},{"maxPieces":3500,"pay":180},{"maxPieces":5500,"pay":230},{"maxPieces":7500,"pay":280}]'::jsonb,
+  0.05,
+  100
+where not exists (select 1 from public.pay_scales);
@@ -0,0 +1,106 @@
+-- Weekly payroll periods, worker snapshots and adjustments (see src/lib/payroll.ts)
+create table if not exists public.payroll_periods (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  period_start date not null unique,
+  period_end date not null,
+  status text not null default 'Draft',
+  snapshot_at timestamptz,
+  total_payout numeric(12, 2) not null default 0,
+  total_minutes numeric(12, 2) not null default 0,
+  worker_count integer not null default 0,
+  notes text,
+  reviewed_at timestamptz,
+  reviewed_by_email text,
+  approved_at timestamptz,
+  approved_by_email text,
+  paid_at timestamptz,
+  paid_by_email text,
+  constraint payroll_periods_status check (status in ('Draft', 'Reviewed', 'Approved', 'Paid')),
+  -- Sun–Sat weeks
+  constraint payroll_periods_week check (extract(dow from period_start) = 0 and period_end = period_start + 6)
+);
+
+create table if not exists public.payroll_period_lines (
+  id uuid primary key default gen_random_uuid(),
+  period_id uuid not null references public.payroll_periods (id) on delete cascade,
+  worker_key text not null,
+  worker_name text not null,
+  buildings text[] not null default '{}',
+  containers integer not null default 0,
+  minutes numeric(12, 2) not null default 0,
+  payout numeric(12, 2) not null default 0,
+  entries jsonb not null default '[]'::jsonb,
+  unique (period_id, worker_key)
+);
+
+create table if not exists public.payroll_adjustments (
+  id uuid primary key default gen_random_uuid(),
+  period_id uuid not null references public.payroll_periods (id) on delete restrict,
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  worker_name text not null,
+  container_id uuid,
+  amount numeric(12, 2) not null default 0,
+  minutes numeric(12, 2) not null default 0,
+  reason text not null
+);
+
+create index if not exists payroll_adjustments_period_idx on public.payroll_adjustments (period_id);
+
+-- ✅ Approved/Paid periods freeze their containers and work orders, even for
+-- writes that bypass /api/containers.
+create or replace function public.payroll_locked_on(d date)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from public.payroll_periods p
+    where d between p.period_start and p.period_end
+      and p.status in ('Approved', 'Paid')
+  );
+$$;
+
+create or replace function public.guard_payroll_locked_containers()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE')
+     and public.payroll_locked_on(coalesce(old.work_date, (old.created_at at time zone 'America/New_York')::date)) then
+    raise exception 'Container is in an approved payroll period; record a payroll adjustment instead'
+      using errcode = 'check_violation';
+  end if;
+  if tg_op in ('INSERT', 'UPDATE')
+     and public.payroll_locked_on(coalesce(new.work_date, (new.created_at at time zone 'America/New_York')::date)) then
+    raise exception 'Container date is in an approved payroll period; record a payroll adjustment instead'
+      using errcode = 'check_violation';
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists containers_payroll_lock on public.containers;
+create trigger containers_payroll_lock
+  before insert or update or delete on public.containers
+  for each row execute function public.guard_payroll_locked_containers();
+
+create or replace function public.guard_payroll_locked_work_orders()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.payroll_locked_on((old.created_at at time zone 'America/New_York')::date) then
+    raise exception 'Work order is in an approved payroll period; record a payroll adjustment instead'
+      using errcode = 'check_violation';
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists work_orders_payroll_lock on public.work_orders;
+create trigger work_orders_payroll_lock
+  before update or delete on public.work_orders
+  for each row execute function public.guard_payroll_locked_work_orders();
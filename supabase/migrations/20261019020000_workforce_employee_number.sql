@@ -0,0 +1,7 @@
+-- Payroll provider employee / file number (see src/lib/payrollExport.ts)
+alter table public.workforce
+  add column if not exists employee_number text;
+
+create unique index if not exists workforce_employee_number_key
+  on public.workforce (employee_number)
+  where employee_number is not null and employee_number <> '';
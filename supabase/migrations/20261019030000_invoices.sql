@@ -0,0 +1,66 @@
+-- Customer rate cards, invoices and invoice lines (see src/lib/invoicing.ts)
+create table if not exists public.rate_cards (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  name text not null,
+  customer text, -- null = any customer
+  building text, -- null = all buildings
+  per_container numeric(10, 2) not null default 0,
+  per_piece numeric(10, 4) not null default 0,
+  palletized_per_container numeric(10, 2) not null default 0,
+  damage_credit_per_piece numeric(10, 4) not null default 0,
+  rework_credit_per_piece numeric(10, 4) not null default 0,
+  notes text,
+  active boolean not null default true
+);
+
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  invoice_number bigint generated by default as identity unique,
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  customer text not null,
+  building text, -- null = all buildings
+  period_start date not null,
+  period_end date not null,
+  status text not null default 'Draft',
+  rate_card_id uuid references public.rate_cards (id),
+  rate_card jsonb not null, -- terms as billed, so later rate changes never rewrite an invoice
+  container_count integer not null default 0,
+  subtotal numeric(12, 2) not null default 0,
+  credits numeric(12, 2) not null default 0,
+  total numeric(12, 2) not null default 0,
+  notes text,
+  sent_at timestamptz,
+  sent_by_email text,
+  paid_at timestamptz,
+  paid_by_email text,
+  constraint invoices_status check (status in ('Draft', 'Sent', 'Paid')),
+  constraint invoices_period check (period_end >= period_start)
+);
+
+create index if not exists invoices_period_idx on public.invoices (period_start desc);
+
+create table if not exists public.invoice_lines (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices (id) on delete cascade,
+  -- ✅ A container can only ever be billed once
+  container_id uuid not null unique,
+  container_no text not null,
+  work_date date not null,
+  building text not null,
+  shift text,
+  work_order_id text,
+  pieces integer not null default 0,
+  palletized boolean not null default false,
+  damage_pieces integer not null default 0,
+  rework_pieces integer not null default 0,
+  container_charge numeric(12, 2) not null default 0,
+  piece_charge numeric(12, 2) not null default 0,
+  palletized_charge numeric(12, 2) not null default 0,
+  credit numeric(12, 2) not null default 0,
+  amount numeric(12, 2) not null default 0
+);
+
+create index if not exists invoice_lines_invoice_idx on public.invoice_lines (invoice_id);
@@ -0,0 +1,30 @@
+-- Customers, linked from work orders and invoices (see src/lib/domain/customers.ts)
+create table if not exists public.customers (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  name text not null,
+  buildings text[] not null default '{}', -- empty = any building
+  contacts jsonb not null default '[]'::jsonb, -- [{ name, email, phone, role }]
+  billing_terms text not null default 'Net 30',
+  billing_email text,
+  billing_address text,
+  default_rate_card_id uuid references public.rate_cards (id),
+  notes text,
+  active boolean not null default true, -- retired instead of deleted so work orders keep their link
+  constraint customers_billing_terms check (billing_terms in ('Due on receipt', 'Net 15', 'Net 30', 'Net 45', 'Net 60'))
+);
+
+create unique index if not exists customers_name_key on public.customers (lower(name));
+
+-- ✅ Containers belong to the customer of their work order
+alter table public.work_orders
+  add column if not exists customer_id uuid references public.customers (id);
+
+create index if not exists work_orders_customer_idx on public.work_orders (customer_id);
+
+-- invoices.customer stays as the name billed; older invoices have no customer_id
+alter table public.invoices
+  add column if not exists customer_id uuid references public.customers (id);
+
+create index if not exists invoices_customer_idx on public.invoices (customer_id);
@@ -0,0 +1,48 @@
+-- Offline write queue support (see src/lib/syncProtocol.ts)
+--   updated_at        — edits replayed from the queue send it back as If-Match;
+--                       a newer value means someone else changed the row meanwhile.
+--   client_request_id — Idempotency-Key of a queued create, so a replay whose
+--                       first response was lost returns the row instead of a duplicate.
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+alter table public.containers
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists client_request_id text;
+
+alter table public.damage_reports
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists client_request_id text;
+
+alter table public.startup_checklists
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists client_request_id text;
+
+drop trigger if exists containers_touch_updated_at on public.containers;
+create trigger containers_touch_updated_at
+  before update on public.containers
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists damage_reports_touch_updated_at on public.damage_reports;
+create trigger damage_reports_touch_updated_at
+  before update on public.damage_reports
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists startup_checklists_touch_updated_at on public.startup_checklists;
+create trigger startup_checklists_touch_updated_at
+  before update on public.startup_checklists
+  for each row execute function public.touch_updated_at();
+
+create unique index if not exists containers_client_request_key
+  on public.containers (client_request_id) where client_request_id is not null;
+create unique index if not exists damage_reports_client_request_key
+  on public.damage_reports (client_request_id) where client_request_id is not null;
+create unique index if not exists startup_checklists_client_request_key
+  on public.startup_checklists (client_request_id) where client_request_id is not null;
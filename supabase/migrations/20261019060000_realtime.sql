@@ -0,0 +1,17 @@
+-- Live list updates (see src/lib/useRealtimeTable.ts)
+-- Publishes row changes on the tables pages subscribe to. Pages filter by
+-- building server-side; Realtime still applies each table's RLS per subscriber.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['chats', 'containers', 'work_orders', 'damage_reports'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
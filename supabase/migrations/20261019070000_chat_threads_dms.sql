@@ -0,0 +1,39 @@
+-- Threaded replies, direct messages and @mentions in chats (see src/lib/domain/chats.ts)
+alter table public.chats
+  add column if not exists parent_id uuid references public.chats (id) on delete cascade, -- reply → top-level message
+  add column if not exists recipient_email text, -- set = direct message between author and recipient
+  add column if not exists mentions text[] not null default '{}'; -- lower-cased emails resolved from @name
+
+create index if not exists chats_parent_idx on public.chats (parent_id);
+create index if not exists chats_recipient_idx on public.chats (lower(recipient_email));
+
+-- Messages are written and deleted through /api/chats (service role). Direct
+-- messages are only readable by their two participants, which also keeps them
+-- out of other users' Realtime streams.
+alter table public.chats enable row level security;
+
+drop policy if exists chats_select on public.chats;
+create policy chats_select on public.chats
+  for select to authenticated
+  using (
+    recipient_email is null
+    or lower(recipient_email) = lower(auth.jwt() ->> 'email')
+    or lower(author_email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- In-app notifications, one row per recipient (see src/lib/domain/notifications.ts)
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_email text not null, -- lower-cased recipient
+  type text not null, -- e.g. chat.dm, chat.mention
+  title text not null,
+  body text,
+  link text, -- app path to open
+  building text,
+  source_table text,
+  source_id text,
+  read_at timestamptz
+);
+
+create index if not exists notifications_user_idx on public.notifications (user_email, created_at desc);
@@ -0,0 +1,36 @@
+-- Notification center: inbox, per-user preferences (see src/lib/domain/notifications.ts)
+
+-- Events raised more than once (e.g. the overdue-training sweep) notify each person once
+alter table public.notifications
+  add column if not exists dedupe_key text;
+
+create unique index if not exists notifications_dedupe_key on public.notifications (user_email, dedupe_key);
+
+create table if not exists public.notification_preferences (
+  user_email text primary key, -- lower-cased
+  updated_at timestamptz not null default now(),
+  muted_types text[] not null default '{}', -- notification types the user turned off
+  buildings text[] not null default '{}' -- empty = every building the user can see
+);
+
+-- Read and marked read through /api/notifications (service role). Users can
+-- only read their own rows, which also scopes the bell's Realtime stream.
+alter table public.notifications enable row level security;
+
+drop policy if exists notifications_select_own on public.notifications;
+create policy notifications_select_own on public.notifications
+  for select to authenticated
+  using (user_email = lower(auth.jwt() ->> 'email'));
+
+alter table public.notification_preferences enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+  ) then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
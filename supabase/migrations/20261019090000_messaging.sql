@@ -0,0 +1,39 @@
+-- Outbound email / SMS / WhatsApp delivery log (see src/lib/messaging.ts)
+
+create table if not exists public.message_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  channel text not null check (channel in ('email', 'sms', 'whatsapp')),
+  transport text not null, -- smtp, twilio, whatsapp, console, file
+  template text not null,
+  recipient text not null, -- email address or E.164 phone number
+  subject text,
+  body text not null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz, -- pending only: when the sweep retries it
+  sent_at timestamptz,
+  provider_message_id text,
+  source_table text,
+  source_id text,
+  dedupe_key text,
+  created_by text
+);
+
+create index if not exists message_deliveries_created_at on public.message_deliveries (created_at desc);
+create index if not exists message_deliveries_due on public.message_deliveries (next_attempt_at) where status = 'pending';
+create index if not exists message_deliveries_source on public.message_deliveries (source_table, source_id);
+
+-- The same message (e.g. an injury report's "submitted" email) goes to each recipient once
+create unique index if not exists message_deliveries_dedupe_key
+  on public.message_deliveries (channel, recipient, dedupe_key);
+
+-- Service role only
+alter table public.message_deliveries enable row level security;
+
+-- Shift-start broadcasts go to workers who opted in to WhatsApp
+alter table public.workforce
+  add column if not exists phone text,
+  add column if not exists whatsapp_opt_in boolean not null default false;
@@ -0,0 +1,38 @@
+-- Shift scheduling: workers assigned to building / shift / date slots (see src/lib/domain/schedules.ts)
+
+create table if not exists public.shift_assignments (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  created_by_email text,
+  workforce_id text not null, -- workforce.id
+  worker_name text not null, -- as scheduled, so the roster reads the same if the worker is renamed
+  building text not null,
+  shift text not null,
+  date date not null,
+  role text not null check (role in ('Lumper', 'Equipment', 'Lead')),
+  notes text
+);
+
+-- One shift per person per day (the API reports the clash before this fires)
+create unique index if not exists shift_assignments_worker_date_key on public.shift_assignments (workforce_id, date);
+create index if not exists shift_assignments_slot_idx on public.shift_assignments (building, date, shift);
+
+-- A building's week (Monday start) is visible to workers once published
+create table if not exists public.schedule_publications (
+  building text not null,
+  week_start date not null,
+  published_at timestamptz not null default now(),
+  published_by_email text,
+  primary key (building, week_start)
+);
+
+-- Read and written through /api/schedules (service role)
+alter table public.shift_assignments enable row level security;
+alter table public.schedule_publications enable row level security;
+
+-- "My shifts": the roster links a signed-in worker to their workforce record by email
+alter table public.workforce
+  add column if not exists email text;
+
+create index if not exists workforce_email_idx on public.workforce (lower(email));
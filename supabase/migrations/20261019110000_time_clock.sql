@@ -0,0 +1,35 @@
+-- Time clock: kiosk punches per workforce member (see src/lib/domain/timeClock.ts)
+
+create table if not exists public.time_punches (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text, -- the account signed in on the kiosk
+  workforce_id text not null, -- workforce.id
+  worker_name text not null,
+  building text not null,
+  shift text not null,
+  date date not null, -- the shift's date; a 3rd-shift clock-out after midnight keeps its clock-in's date
+  kind text not null check (kind in ('clock_in', 'break_start', 'break_end', 'clock_out')),
+  punched_at timestamptz not null default now(),
+  source text not null default 'kiosk' check (source in ('kiosk', 'manual'))
+);
+
+create index if not exists time_punches_slot_idx on public.time_punches (building, date, shift);
+create index if not exists time_punches_worker_idx on public.time_punches (workforce_id, punched_at);
+
+-- Read and written through /api/time-clock (service role)
+alter table public.time_punches enable row level security;
+
+-- Kiosk identification: a scanned badge number or a typed PIN.
+-- PINs are stored as an HMAC (src/lib/timeClockPin.ts), never as typed.
+alter table public.workforce
+  add column if not exists badge_number text,
+  add column if not exists kiosk_pin_hash text;
+
+create unique index if not exists workforce_badge_number_key
+  on public.workforce (badge_number)
+  where badge_number is not null and badge_number <> '';
+
+create unique index if not exists workforce_kiosk_pin_hash_key
+  on public.workforce (kiosk_pin_hash)
+  where kiosk_pin_hash is not null;
@@ -0,0 +1,23 @@
+-- Audit trail for container minutes corrected against the time clock (see src/lib/minutesReconciliation.ts)
+
+create table if not exists public.container_minute_corrections (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  container_id uuid not null, -- no FK: the trail outlives a deleted container
+  container_no text not null,
+  work_date date not null,
+  building text not null,
+  worker_key text not null, -- contributionKey(): "wf:<workforce id>" or the lower-cased name
+  worker_name text not null,
+  workforce_id text,
+  old_minutes numeric(8, 2) not null,
+  new_minutes numeric(8, 2) not null,
+  reason text not null
+);
+
+create index if not exists container_minute_corrections_date_idx
+  on public.container_minute_corrections (work_date, building);
+
+-- Written by /api/minutes-reconciliation (service role) only
+alter table public.container_minute_corrections enable row level security;
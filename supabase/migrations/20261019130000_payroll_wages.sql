@@ -0,0 +1,4 @@
+-- Wage pay per payroll line: hours, overtime and minimum-wage make-up (see src/lib/wagePay.ts)
+
+alter table public.payroll_period_lines
+  add column if not exists wages jsonb;
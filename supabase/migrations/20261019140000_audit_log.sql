@@ -0,0 +1,142 @@
+-- Append-only audit log of every insert / update / delete on the operational tables
+-- (see src/lib/domain/auditLog.ts). Rows are written by a trigger, so page writes
+-- (user JWT) and API writes (service role + x-audit-actor-* headers) are both recorded.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id uuid,
+  actor_email text,
+  actor_role text,
+  table_name text not null,
+  record_id text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  building text,
+  before jsonb,
+  after jsonb,
+  changed_fields text[] not null default '{}'
+);
+
+create index if not exists audit_log_occurred_idx on public.audit_log (occurred_at desc);
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, occurred_at desc);
+create index if not exists audit_log_actor_idx on public.audit_log (actor_email, occurred_at desc);
+create index if not exists audit_log_building_idx on public.audit_log (building, occurred_at desc);
+
+-- Read through /api/audit-log only; nobody can change history
+alter table public.audit_log enable row level security;
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
+
+create or replace function public.audit_log_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.audit_log_append_only();
+
+-- Secrets never reach the log
+create or replace function public.audit_redact(row_json jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select case when row_json ? 'kiosk_pin_hash' then row_json || '{"kiosk_pin_hash": "[redacted]"}'::jsonb else row_json end;
+$$;
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  headers jsonb := nullif(current_setting('request.headers', true), '')::jsonb;
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+  old_json jsonb := case when tg_op = 'INSERT' then null else public.audit_redact(to_jsonb(old)) end;
+  new_json jsonb := case when tg_op = 'DELETE' then null else public.audit_redact(to_jsonb(new)) end;
+  v_actor_id uuid;
+  v_actor_email text;
+  v_actor_role text;
+  v_changed text[] := '{}';
+  v_before jsonb := old_json;
+  v_after jsonb := new_json;
+begin
+  if coalesce(claims ->> 'role', '') = 'service_role' then
+    -- API routes name their caller; without headers it's a system write
+    v_actor_id := nullif(headers ->> 'x-audit-actor-id', '')::uuid;
+    v_actor_email := nullif(lower(headers ->> 'x-audit-actor-email'), '');
+    v_actor_role := nullif(headers ->> 'x-audit-actor-role', '');
+  else
+    v_actor_id := nullif(claims ->> 'sub', '')::uuid;
+    v_actor_email := nullif(lower(claims ->> 'email'), '');
+    select ua.access_role into v_actor_role from public.user_accounts ua where lower(ua.email) = v_actor_email limit 1;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    select coalesce(array_agg(n.key order by n.key), '{}')
+      into v_changed
+      from jsonb_each(new_json) n
+     where n.key <> 'updated_at'
+       and n.value is distinct from old_json -> n.key;
+
+    if cardinality(v_changed) = 0 then
+      return new; -- nothing but updated_at changed
+    end if;
+
+    select jsonb_object_agg(k, old_json -> k), jsonb_object_agg(k, new_json -> k)
+      into v_before, v_after
+      from unnest(v_changed) k;
+  end if;
+
+  insert into public.audit_log
+    (actor_id, actor_email, actor_role, table_name, record_id, action, building, before, after, changed_fields)
+  values (
+    v_actor_id,
+    v_actor_email,
+    v_actor_role,
+    tg_table_name,
+    coalesce(new_json ->> 'id', old_json ->> 'id'),
+    lower(tg_op),
+    coalesce(new_json ->> 'building', old_json ->> 'building'),
+    v_before,
+    v_after,
+    v_changed
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+-- Attach to each audited table that exists in this database
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'containers',
+    'work_orders',
+    'workforce',
+    'user_accounts',
+    'profiles',
+    'injury_reports',
+    'damage_reports',
+    'startup_checklists'
+  ]
+  loop
+    if to_regclass('public.' || t) is not null then
+      execute format('drop trigger if exists audit_row_change on public.%I', t);
+      execute format(
+        'create trigger audit_row_change after insert or update or delete on public.%I '
+        'for each row execute function public.audit_row_change()',
+        t
+      );
+    end if;
+  end loop;
+end;
+$$;
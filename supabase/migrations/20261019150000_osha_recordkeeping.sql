@@ -0,0 +1,19 @@
+-- OSHA recordkeeping on injury reports (see src/lib/osha.ts). HR / safety classify
+-- each report; recordable and lost-time cases make up the OSHA 300 log, 300A
+-- summary and 301 incident detail per building (establishment) and year.
+
+alter table public.injury_reports
+  add column if not exists recordability text
+    check (recordability in ('first_aid', 'recordable', 'lost_time')),
+  add column if not exists osha_injury_type text not null default 'injury'
+    check (osha_injury_type in ('injury', 'skin_disorder', 'respiratory', 'poisoning', 'hearing_loss', 'other_illness')),
+  add column if not exists days_away integer not null default 0 check (days_away >= 0),
+  add column if not exists days_restricted integer not null default 0 check (days_restricted >= 0),
+  add column if not exists fatality boolean not null default false,
+  add column if not exists privacy_case boolean not null default false,
+  add column if not exists recordability_set_by_email text,
+  add column if not exists recordability_set_at timestamptz;
+
+create index if not exists injury_reports_osha_idx
+  on public.injury_reports (building, incident_datetime)
+  where recordability in ('recordable', 'lost_time');
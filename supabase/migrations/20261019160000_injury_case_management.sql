@@ -0,0 +1,84 @@
+-- Injury case management after a report is submitted (see src/lib/domain/injuryCases.ts):
+-- a timeline of clinic visits, work-status changes, restricted-duty assignments,
+-- workers' comp claim details and notes, plus follow-up tasks with due dates.
+-- The report carries the case's current state so the workforce page can show it.
+
+alter table public.injury_reports
+  add column if not exists work_status text
+    check (work_status in ('full_duty', 'restricted', 'off_work')),
+  add column if not exists return_to_work_date date,
+  add column if not exists comp_claim_number text,
+  add column if not exists comp_carrier text;
+
+create index if not exists injury_reports_open_case_idx
+  on public.injury_reports (employee_id)
+  where status = 'Submitted';
+
+create table if not exists public.injury_case_events (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  report_id uuid not null references public.injury_reports (id) on delete cascade,
+  building text not null,
+  event_type text not null
+    check (event_type in ('clinic_visit', 'work_status', 'restricted_duty', 'claim', 'note')),
+  event_date date not null,
+  work_status text check (work_status in ('full_duty', 'restricted', 'off_work')),
+  provider text,
+  assignment text,
+  restrictions text,
+  ends_on date,
+  claim_number text,
+  carrier text,
+  notes text
+);
+
+create index if not exists injury_case_events_report_idx
+  on public.injury_case_events (report_id, event_date, created_at);
+
+create table if not exists public.injury_case_tasks (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  report_id uuid not null references public.injury_reports (id) on delete cascade,
+  building text not null,
+  title text not null,
+  due_date date not null,
+  completed_at timestamptz,
+  completed_by_email text
+);
+
+create index if not exists injury_case_tasks_report_idx
+  on public.injury_case_tasks (report_id, due_date);
+
+-- Written and read through /api/injury-reports/:id/case (service role) only
+alter table public.injury_case_events enable row level security;
+alter table public.injury_case_tasks enable row level security;
+
+-- A case stays open until the employee is back at full duty
+create or replace function public.injury_case_close_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'Closed'
+     and old.status is distinct from 'Closed'
+     and coalesce(new.work_status, 'full_duty') <> 'full_duty' then
+    raise exception 'The case stays open until the employee is back at full duty';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists injury_case_close_guard on public.injury_reports;
+create trigger injury_case_close_guard
+  before update on public.injury_reports
+  for each row execute function public.injury_case_close_guard();
+
+drop trigger if exists audit_row_change on public.injury_case_events;
+create trigger audit_row_change after insert or update or delete on public.injury_case_events
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_row_change on public.injury_case_tasks;
+create trigger audit_row_change after insert or update or delete on public.injury_case_tasks
+  for each row execute function public.audit_row_change();
@@ -0,0 +1,40 @@
+-- Electronic signatures on injury reports, termination checklists and shift readiness
+-- confirmations (see src/lib/domain/signatures.ts). A signature is never edited: it
+-- stays valid while the document still hashes to content_hash, and a new one is
+-- captured after the document changes.
+
+create table if not exists public.signatures (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  document_type text not null check (document_type in ('injury_report', 'termination', 'startup_checklist')),
+  document_id text not null, -- no FK: one table for several document tables
+  building text,
+  signer_role text not null check (signer_role in ('employee', 'manager', 'lead')),
+  signer_name text not null,
+  signed_by_user_id uuid,
+  signed_by_email text,
+  signed_by_access_role text,
+  content_hash text not null,
+  image_data text not null check (image_data like 'data:image/png;base64,%')
+);
+
+create index if not exists signatures_document_idx
+  on public.signatures (document_type, document_id, created_at);
+
+-- Written and read through /api/signatures (service role) only
+alter table public.signatures enable row level security;
+revoke insert, update, delete, truncate on public.signatures from anon, authenticated;
+
+create or replace function public.signatures_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'signatures can''t be changed; capture a new one';
+end;
+$$;
+
+drop trigger if exists signatures_immutable on public.signatures;
+create trigger signatures_immutable
+  before update on public.signatures
+  for each row execute function public.signatures_immutable();
@@ -0,0 +1,100 @@
+-- Incident investigations and corrective / preventive actions (CAPA), see
+-- src/lib/domain/investigations.ts. One investigation per injury report,
+-- damage report or readiness report that recorded a near miss or hazard; it
+-- carries the root cause (5 whys + category) and contributing factors, and its
+-- actions carry an owner, a due date, completion and verification.
+
+create table if not exists public.investigations (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  updated_at timestamptz,
+  building text not null,
+  source_type text not null check (source_type in ('injury_report', 'damage_report', 'startup_checklist')),
+  source_id text not null, -- no FK: one table for several source tables
+  source_label text,
+  incident_date date,
+  title text not null,
+  whys text[] not null default '{}',
+  root_cause_category text
+    check (root_cause_category in ('people', 'procedure', 'equipment', 'environment', 'training', 'supervision')),
+  root_cause text,
+  contributing_factors text[] not null default '{}',
+  status text not null default 'open' check (status in ('open', 'closed')),
+  closed_at timestamptz,
+  closed_by_email text
+);
+
+create unique index if not exists investigations_source_idx
+  on public.investigations (source_type, source_id);
+
+create index if not exists investigations_building_status_idx
+  on public.investigations (building, status, created_at);
+
+create table if not exists public.corrective_actions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by_email text,
+  investigation_id uuid not null references public.investigations (id) on delete cascade,
+  building text not null,
+  action_type text not null default 'corrective' check (action_type in ('corrective', 'preventive')),
+  description text not null,
+  owner_name text not null,
+  owner_email text,
+  due_date date not null,
+  completed_at timestamptz,
+  completed_by_email text,
+  completion_notes text,
+  verified_at timestamptz,
+  verified_by_email text,
+  verification_notes text,
+  escalated_at timestamptz,
+  check (verified_at is null or completed_at is not null)
+);
+
+create index if not exists corrective_actions_investigation_idx
+  on public.corrective_actions (investigation_id, due_date);
+
+create index if not exists corrective_actions_open_idx
+  on public.corrective_actions (building, due_date)
+  where verified_at is null;
+
+-- Written and read through /api/investigations (service role) only
+alter table public.investigations enable row level security;
+alter table public.corrective_actions enable row level security;
+
+-- An investigation closes once the root cause is recorded and every action is verified
+create or replace function public.investigation_close_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'closed' and old.status is distinct from 'closed' then
+    if new.root_cause_category is null or coalesce(trim(new.root_cause), '') = '' then
+      raise exception 'Record the root cause before closing the investigation';
+    end if;
+    if not exists (select 1 from public.corrective_actions where investigation_id = new.id) then
+      raise exception 'Add at least one corrective action before closing the investigation';
+    end if;
+    if exists (
+      select 1 from public.corrective_actions where investigation_id = new.id and verified_at is null
+    ) then
+      raise exception 'Every corrective action must be verified before the investigation closes';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists investigation_close_guard on public.investigations;
+create trigger investigation_close_guard
+  before update on public.investigations
+  for each row execute function public.investigation_close_guard();
+
+drop trigger if exists audit_row_change on public.investigations;
+create trigger audit_row_change after insert or update or delete on public.investigations
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_row_change on public.corrective_actions;
+create trigger audit_row_change after insert or update or delete on public.corrective_actions
+  for each row execute function public.audit_row_change();
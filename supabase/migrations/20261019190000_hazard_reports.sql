@@ -0,0 +1,61 @@
+-- Near-miss and hazard reports (see src/lib/domain/hazardReports.ts). Anyone can
+-- file one, optionally anonymously: an anonymous report keeps no reporter
+-- columns and is written as System, so the audit log doesn't name them either.
+-- Building Managers triage them, and they can be investigated like injuries.
+
+create table if not exists public.hazard_reports (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  building text not null,
+  shift text,
+  report_type text not null check (report_type in ('near_miss', 'hazard')),
+  category text not null check (category in (
+    'slip_trip_fall', 'struck_by', 'caught_between', 'lifting', 'powered_equipment',
+    'falling_load', 'trailer_dock', 'electrical', 'chemical_fire', 'housekeeping', 'ppe', 'other'
+  )),
+  severity text not null check (severity in ('low', 'medium', 'high', 'critical')),
+  dock_area text not null check (dock_area in (
+    'dock_doors', 'trailer', 'staging', 'racking', 'aisles', 'charging', 'yard', 'office_breakroom', 'other'
+  )),
+  location text not null,
+  description text not null,
+  occurred_at timestamptz,
+  photo_path text, -- object in the private hazard-photos bucket
+  anonymous boolean not null default false,
+  reporter_user_id uuid,
+  reporter_email text,
+  reporter_name text,
+  status text not null default 'new' check (status in ('new', 'in_review', 'resolved', 'dismissed')),
+  triage_notes text,
+  triaged_at timestamptz,
+  triaged_by_email text,
+  check (not anonymous or (reporter_user_id is null and reporter_email is null and reporter_name is null))
+);
+
+create index if not exists hazard_reports_building_created_idx
+  on public.hazard_reports (building, created_at);
+
+create index if not exists hazard_reports_queue_idx
+  on public.hazard_reports (building, created_at)
+  where status in ('new', 'in_review');
+
+create index if not exists hazard_reports_reporter_idx
+  on public.hazard_reports (reporter_user_id)
+  where reporter_user_id is not null;
+
+-- Written and read through /api/hazard-reports (service role) only
+alter table public.hazard_reports enable row level security;
+
+insert into storage.buckets (id, name, public)
+values ('hazard-photos', 'hazard-photos', false)
+on conflict (id) do nothing;
+
+drop trigger if exists audit_row_change on public.hazard_reports;
+create trigger audit_row_change after insert or update or delete on public.hazard_reports
+  for each row execute function public.audit_row_change();
+
+-- Hazard reports can be investigated too
+alter table public.investigations drop constraint if exists investigations_source_type_check;
+alter table public.investigations add constraint investigations_source_type_check
+  check (source_type in ('injury_report', 'damage_report', 'startup_checklist', 'hazard_report'));
@@ -0,0 +1,16 @@
+-- What a period's snapshot pays, wages and make-up pay included (total_payout
+-- is container pay only). Backfilled from the stored lines.
+
+alter table public.payroll_periods
+  add column if not exists total_gross_pay numeric(12, 2);
+
+update public.payroll_periods p
+set total_gross_pay = coalesce(
+  (
+    select sum(coalesce((l.wages ->> 'totalPay')::numeric, l.payout))
+    from public.payroll_period_lines l
+    where l.period_id = p.id
+  ),
+  p.total_payout
+)
+where p.total_gross_pay is null;
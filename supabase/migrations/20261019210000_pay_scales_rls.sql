@@ -0,0 +1,8 @@
+-- Pay schedules are written through /api/pay-scales (service role, Super
+-- Admin only). Signed-in users can still read them to price containers.
+alter table public.pay_scales enable row level security;
+
+drop policy if exists pay_scales_select on public.pay_scales;
+create policy pay_scales_select on public.pay_scales
+  for select to authenticated
+  using (true);
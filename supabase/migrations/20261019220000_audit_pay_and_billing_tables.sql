@@ -0,0 +1,26 @@
+-- Audit pay, scheduling and billing records too (see src/lib/domain/auditLog.ts).
+-- Their API routes write with supabaseAdminAs, so entries name the caller.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'payroll_adjustments',
+    'pay_scales',
+    'time_punches',
+    'shift_assignments',
+    'customers',
+    'invoices'
+  ]
+  loop
+    if to_regclass('public.' || t) is not null then
+      execute format('drop trigger if exists audit_row_change on public.%I', t);
+      execute format(
+        'create trigger audit_row_change after insert or update or delete on public.%I '
+        'for each row execute function public.audit_row_change()',
+        t
+      );
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Which snapshot line an adjustment belongs to (payroll_period_lines.worker_key:
+-- "wf:<workforce id>" or a lowercased name), so it can't land on a same-named
+-- worker. Older adjustments keep matching by worker_name.
+
+alter table public.payroll_adjustments
+  add column if not exists worker_key text;
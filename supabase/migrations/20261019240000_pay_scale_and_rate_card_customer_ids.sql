@@ -0,0 +1,23 @@
+-- ✅ Customer overrides point at the customer row, so renaming a customer
+-- doesn't unhook its pay scales or rate cards. `customer` stays as the name
+-- for display; rows whose name matches no customer keep customer_id null
+-- and no longer apply to anyone.
+
+alter table public.pay_scales
+  add column if not exists customer_id uuid references public.customers (id);
+
+alter table public.rate_cards
+  add column if not exists customer_id uuid references public.customers (id);
+
+update public.pay_scales p
+set customer_id = c.id
+from public.customers c
+where p.customer_id is null and p.customer is not null and lower(c.name) = lower(trim(p.customer));
+
+update public.rate_cards r
+set customer_id = c.id
+from public.customers c
+where r.customer_id is null and r.customer is not null and lower(c.name) = lower(trim(r.customer));
+
+create index if not exists pay_scales_customer_idx on public.pay_scales (customer_id);
+create index if not exists rate_cards_customer_idx on public.rate_cards (customer_id);
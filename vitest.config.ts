@@ -0,0 +1,17 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Date helpers are written against America/New_York; run in a different
+    // zone so anything relying on the machine's local time shows up.
+    env: { TZ: "UTC" },
+  },
+});